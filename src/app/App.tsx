@@ -7,15 +7,21 @@ import MainLayout from '@/shared/components/layout/MainLayout'
 import LoginPage from '@/modules/auth/pages/LoginPage'
 import DashboardPage from '@/modules/dashboard/pages/DashboardPage'
 import POSPage from '@/modules/pos/pages/POSPage'
+import OfflineSalesPage from '@/modules/pos/pages/OfflineSalesPage'
+import CustomerDisplayPage from '@/modules/pos/pages/CustomerDisplayPage'
+import CashRegisterPage from '@/modules/cash/pages/CashRegisterPage'
 import ProductsPage from '@/modules/products/pages/ProductsPage'
 import CategoriesPage from '@/modules/categories/pages/CategoriesPage'
 import InventoryPage from '@/modules/inventory/pages/InventoryPage'
 import InvoicesPage from '@/modules/invoices/pages/InvoicesPage'
 import CustomersPage from '@/modules/customers/pages/CustomersPage'
+import ReceivablesPage from '@/modules/customers/pages/ReceivablesPage'
 import ReportsPage from '@/modules/reports/pages/ReportsPage'
 import UsersPage from '@/modules/users/pages/UsersPage'
 import RolesPage from '@/modules/roles/pages/RolesPage'
 import PromotionsPage from '@/modules/promotions/pages/PromotionsPage'
+import GiftCardsPage from '@/modules/giftcards/pages/GiftCardsPage'
+import PriceListsPage from '@/modules/pricelists/pages/PriceListsPage'
 import SettingsPage from '@/modules/settings/pages/SettingsPage'
 import TableSettingsPage from '@/modules/settings/pages/TableSettingsPage'
 import TablesPage from '@/modules/tables/pages/TablesPage'
@@ -105,6 +111,15 @@ function App() {
       />
       
       <Route element={<ProtectedRoute />}>
+        {/* Segunda pantalla: sin menú ni encabezado */}
+        <Route
+          path="/customer-display"
+          element={
+            <RoleGuard requiredPermissions={['pos.sell']}>
+              <CustomerDisplayPage />
+            </RoleGuard>
+          }
+        />
         <Route element={<MainLayout />}>
           <Route path="/" element={<DashboardPage />} />
           <Route
@@ -115,6 +130,22 @@ function App() {
               </RoleGuard>
             }
           />
+          <Route
+            path="/offline-sales"
+            element={
+              <RoleGuard requiredPermissions={['pos.sell']}>
+                <OfflineSalesPage />
+              </RoleGuard>
+            }
+          />
+          <Route
+            path="/cash-register"
+            element={
+              <RoleGuard requiredPermissions={['pos.sell']}>
+                <CashRegisterPage />
+              </RoleGuard>
+            }
+          />
           <Route
             path="/tables"
             element={
@@ -163,6 +194,14 @@ function App() {
               </RoleGuard>
             }
           />
+          <Route
+            path="/receivables"
+            element={
+              <RoleGuard requiredPermissions={['customers.view']}>
+                <ReceivablesPage />
+              </RoleGuard>
+            }
+          />
           <Route
             path="/reports"
             element={
@@ -195,6 +234,22 @@ function App() {
               </RoleGuard>
             }
           />
+          <Route
+            path="/price-lists"
+            element={
+              <RoleGuard requiredPermissions={['products.edit']}>
+                <PriceListsPage />
+              </RoleGuard>
+            }
+          />
+          <Route
+            path="/gift-cards"
+            element={
+              <RoleGuard requiredPermissions={['giftcards.view']}>
+                <GiftCardsPage />
+              </RoleGuard>
+            }
+          />
           <Route
             path="/kitchen"
             element={
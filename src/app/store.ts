@@ -2,12 +2,16 @@ import { configureStore } from '@reduxjs/toolkit'
 import authReducer from '@/modules/auth/store/authSlice'
 import cartReducer from '@/modules/pos/store/cartSlice'
 import settingsReducer from '@/modules/settings/store/settingsSlice'
+import offlineReducer from '@/modules/pos/store/offlineSlice'
+import cashSessionReducer from '@/modules/cash/store/cashSessionSlice'
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
     cart: cartReducer,
     settings: settingsReducer,
+    offline: offlineReducer,
+    cashSession: cashSessionReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -0,0 +1,22 @@
+import api from './axiosInstance'
+import { SupervisorAction, SupervisorAuthorization } from '@/types'
+
+export interface AuthorizeRequest {
+  action: SupervisorAction
+  permission: string
+  description: string
+  reference?: string
+  /** PIN del supervisor; alternativa a usuario y contraseña. Sin ninguno de los dos aprueba el usuario de la sesión */
+  pin?: string
+  username?: string
+  password?: string
+}
+
+export const authorizationService = {
+  /** Valida al supervisor sin cambiar la sesión del cajero y deja el registro de la aprobación */
+  authorize: (request: AuthorizeRequest) =>
+    api.post<SupervisorAuthorization>('/authorizations', request),
+
+  getByDateRange: (start: string, end: string) =>
+    api.get<SupervisorAuthorization[]>(`/authorizations/date-range?start=${start}&end=${end}`),
+}
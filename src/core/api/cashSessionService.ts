@@ -0,0 +1,40 @@
+import api from './axiosInstance'
+import { CashSession, CashMovement, CashMovementType } from '@/types'
+
+export interface OpenCashSessionRequest {
+  terminalId: string
+  openingFloat: number
+}
+
+export interface CashMovementRequest {
+  type: CashMovementType
+  amount: number
+  reason: string
+}
+
+export interface CloseCashSessionRequest {
+  denominations: Record<string, number>
+  countedCash: number
+  /** Efectivo en divisas contado, por moneda */
+  foreignCounted?: Record<string, number>
+  notes?: string
+}
+
+export const cashSessionService = {
+  /** Turno abierto del usuario actual en la terminal; el backend responde null si no hay */
+  getCurrent: (terminalId: string) =>
+    api.get<CashSession | null>(`/cash-sessions/current?terminalId=${encodeURIComponent(terminalId)}`),
+
+  getById: (id: number) => api.get<CashSession>(`/cash-sessions/${id}`),
+
+  getByDateRange: (start: string, end: string) =>
+    api.get<CashSession[]>(`/cash-sessions/date-range?start=${start}&end=${end}`),
+
+  open: (request: OpenCashSessionRequest) => api.post<CashSession>('/cash-sessions/open', request),
+
+  addMovement: (id: number, request: CashMovementRequest) =>
+    api.post<CashMovement>(`/cash-sessions/${id}/movements`, request),
+
+  close: (id: number, request: CloseCashSessionRequest) =>
+    api.post<CashSession>(`/cash-sessions/${id}/close`, request),
+}
@@ -0,0 +1,43 @@
+import api from './axiosInstance'
+import { Coupon, CouponDiscountType, CouponRedemption } from '@/types'
+
+export interface CreateCouponRequest {
+  code: string
+  campaign?: string
+  discountType: CouponDiscountType
+  discountValue: number
+  maxDiscountAmount?: number
+  minPurchaseAmount?: number
+  validFrom?: string
+  validUntil?: string
+  maxUses?: number
+  maxUsesPerCustomer?: number
+  isActive?: boolean
+}
+
+export type UpdateCouponRequest = Partial<CreateCouponRequest>
+
+/** Lote de códigos únicos con las mismas condiciones; el backend rechaza los que ya existan */
+export interface GenerateCouponsRequest extends Omit<CreateCouponRequest, 'code'> {
+  codes: string[]
+}
+
+export const couponService = {
+  getAll: () => api.get<Coupon[]>('/coupons'),
+
+  /** Validación desde el POS; con `customerId` incluye cuántas veces lo ha usado el cliente */
+  getByCode: (code: string, customerId?: number | null) =>
+    api.get<Coupon>(`/coupons/code/${encodeURIComponent(code)}`, { params: customerId ? { customerId } : undefined }),
+
+  getRedemptions: (id: number) => api.get<CouponRedemption[]>(`/coupons/${id}/redemptions`),
+
+  create: (coupon: CreateCouponRequest) => api.post<Coupon>('/coupons', coupon),
+
+  generate: (request: GenerateCouponsRequest) => api.post<Coupon[]>('/coupons/bulk', request),
+
+  update: (id: number, coupon: UpdateCouponRequest) => api.put<Coupon>(`/coupons/${id}`, coupon),
+
+  toggle: (id: number) => api.patch<Coupon>(`/coupons/${id}/toggle`),
+
+  delete: (id: number) => api.delete(`/coupons/${id}`),
+}
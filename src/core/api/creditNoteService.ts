@@ -0,0 +1,24 @@
+import api from './axiosInstance'
+import { CreditNote, ReturnDisposition } from '@/types'
+
+export interface CreateCreditNoteRequest {
+  invoiceId: number
+  reason: string
+  refundMethod: string
+  details: {
+    invoiceDetailId: number
+    quantity: number
+    disposition: ReturnDisposition
+  }[]
+}
+
+export const creditNoteService = {
+  getById: (id: number) => api.get<CreditNote>(`/credit-notes/${id}`),
+
+  getByInvoice: (invoiceId: number) => api.get<CreditNote[]>(`/credit-notes/invoice/${invoiceId}`),
+
+  getByDateRange: (start: string, end: string) =>
+    api.get<CreditNote[]>(`/credit-notes/date-range?start=${start}&end=${end}`),
+
+  create: (request: CreateCreditNoteRequest) => api.post<CreditNote>('/credit-notes', request),
+}
@@ -0,0 +1,25 @@
+import api from './axiosInstance'
+
+export interface DianSubmission {
+  invoiceId: number
+  number: string
+  cufe: string
+  /** Estado reportado por el servicio de envío: RECIBIDO, ACEPTADO, RECHAZADO */
+  status: string
+  message?: string
+  createdAt: string
+}
+
+export interface SubmitDianRequest {
+  invoiceId: number
+  number: string
+  cufe: string
+  /** XML UBL sin firmar; el servicio lo firma y lo envía a la DIAN */
+  xml: string
+}
+
+export const dianService = {
+  submit: (request: SubmitDianRequest) => api.post<DianSubmission>('/dian/documents', request),
+
+  getByInvoice: (invoiceId: number) => api.get<DianSubmission>(`/dian/documents/invoice/${invoiceId}`),
+}
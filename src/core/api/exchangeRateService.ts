@@ -0,0 +1,20 @@
+import api from './axiosInstance'
+import { ExchangeRate } from '@/types'
+
+export interface SetExchangeRateRequest {
+  currency: string
+  rate: number
+  /** Aprobación del supervisor cuando el usuario no tiene `pos.exchange_rate` */
+  authorizationId?: number
+}
+
+export const exchangeRateService = {
+  /** Tasas fijadas para el día de hoy (una por divisa) */
+  getToday: () => api.get<ExchangeRate[]>('/exchange-rates/today'),
+
+  getByDateRange: (start: string, end: string) =>
+    api.get<ExchangeRate[]>(`/exchange-rates/date-range?start=${start}&end=${end}`),
+
+  /** Fija (o corrige) la tasa del día; el backend guarda quién la fijó */
+  set: (request: SetExchangeRateRequest) => api.post<ExchangeRate>('/exchange-rates', request),
+}
@@ -0,0 +1,40 @@
+import api from './axiosInstance'
+import { GiftCard, GiftCardTransaction } from '@/types'
+import { PaymentLineRequest } from './invoiceService'
+
+export interface IssueGiftCardRequest {
+  code: string
+  amount: number
+  expiresAt?: string
+  customerId?: number | null
+  notes?: string
+  payments: PaymentLineRequest[]
+  cashSessionId?: number
+}
+
+export interface ReloadGiftCardRequest {
+  amount: number
+  payments: PaymentLineRequest[]
+  cashSessionId?: number
+}
+
+export const giftCardService = {
+  getAll: () => api.get<GiftCard[]>('/gift-cards'),
+
+  getById: (id: number) => api.get<GiftCard>(`/gift-cards/${id}`),
+
+  /** Consulta de saldo desde el POS; 404 si el código no existe */
+  getByCode: (code: string) => api.get<GiftCard>(`/gift-cards/code/${encodeURIComponent(code)}`),
+
+  getTransactions: (id: number) => api.get<GiftCardTransaction[]>(`/gift-cards/${id}/transactions`),
+
+  /** Movimientos de todas las tarjetas (emisiones, recargas y redenciones) para reportes y caja */
+  getTransactionsByDateRange: (start: string, end: string) =>
+    api.get<GiftCardTransaction[]>(`/gift-cards/transactions/date-range?start=${start}&end=${end}`),
+
+  issue: (request: IssueGiftCardRequest) => api.post<GiftCard>('/gift-cards', request),
+
+  reload: (id: number, request: ReloadGiftCardRequest) => api.post<GiftCard>(`/gift-cards/${id}/reload`, request),
+
+  voidCard: (id: number, reason: string) => api.post<GiftCard>(`/gift-cards/${id}/void`, { reason }),
+}
@@ -1,27 +1,65 @@
 import api from './axiosInstance'
-import { Invoice, PaginatedResponse } from '@/types'
+import { Invoice, PaginatedResponse, SelectedModifier, TipShare } from '@/types'
 
 export interface SaleDetailRequest {
   productId: number
   quantity: number
   unitPrice: number
   discountAmount?: number
+  /** Motivo obligatorio cuando la línea lleva descuento */
+  discountReason?: string
+  /** Autorización de supervisor para un descuento por encima del máximo */
+  discountAuthorizationId?: number
+  /** Promoción automática que originó el descuento de la línea */
+  promotionId?: number
+  /** Cambio de precio autorizado en el POS; el backend lo registra en la auditoría */
+  priceOverride?: { originalPrice: number; reason: string }
   notes?: string
+  modifiers?: SelectedModifier[]
+}
+
+export interface PaymentLineRequest {
+  paymentMethod: string
+  amount: number
+  /** Código de la tarjeta de regalo a redimir (método TARJETA_REGALO) */
+  reference?: string
 }
 
 export interface CreateSaleRequest {
   customerId?: number | null
   paymentMethod: string
+  payments?: PaymentLineRequest[]
   discountPercent?: number
   serviceChargePercent?: number
   deliveryChargeAmount?: number
   amountReceived: number
   notes?: string
   details: SaleDetailRequest[]
+  /** Referencia única de la terminal, igual en el primer intento y en los reenvíos, para evitar duplicados */
+  clientReference?: string
+  /** Fecha real de la venta cuando se sincroniza desde la cola offline */
+  offlineCreatedAt?: string
+  /** Venta a crédito autorizada por encima del cupo del cliente */
+  creditOverride?: boolean
+  /** Turno de caja abierto en la terminal */
+  cashSessionId?: number
+  /** Autorización de supervisor para el descuento general */
+  discountAuthorizationId?: number
+  /** Puntos del cliente redimidos como descuento; el backend valida el saldo y los valora con `loyaltyConfig` */
+  loyaltyPointsRedeemed?: number
+  /** Lista de precios del cliente con la que se calcularon los precios unitarios */
+  priceListId?: number
+  /** Cupón a redimir; el backend lo valida de nuevo y registra la redención en la factura */
+  couponCode?: string
+  /** Propina incluida en `payments` pero fuera del total de la factura, y su reparto entre el personal */
+  tipAmount?: number
+  tipDistribution?: TipShare[]
 }
 
 export interface VoidInvoiceRequest {
   reason: string
+  /** Autorización de supervisor cuando el cajero no tiene invoices.void */
+  authorizationId?: number
 }
 
 export interface TodayStats {
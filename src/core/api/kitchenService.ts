@@ -1,10 +1,12 @@
 import api from './axiosInstance'
+import { SelectedModifier } from '@/types'
 
 export interface KitchenItem {
   detailId: number
   productName: string
   quantity: number
   notes: string | null
+  modifiers?: SelectedModifier[] | null
   kitchenStatus: string
   createdAt: string
 }
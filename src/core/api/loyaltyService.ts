@@ -0,0 +1,16 @@
+import api from './axiosInstance'
+import { LoyaltyTransaction } from '@/types'
+
+export interface AdjustLoyaltyRequest {
+  /** Positivo suma, negativo descuenta */
+  points: number
+  notes: string
+}
+
+export const loyaltyService = {
+  getTransactions: (customerId: number) =>
+    api.get<LoyaltyTransaction[]>(`/loyalty/customers/${customerId}/transactions`),
+
+  adjust: (customerId: number, request: AdjustLoyaltyRequest) =>
+    api.post<LoyaltyTransaction>(`/loyalty/customers/${customerId}/adjust`, request),
+}
@@ -0,0 +1,28 @@
+import api from './axiosInstance'
+import { PriceList, PriceListItem, PriceListQuantityBreak, PriceListRule } from '@/types'
+
+export interface SavePriceListRequest {
+  name: string
+  description?: string
+  isDefault?: boolean
+  items: PriceListItem[]
+  rules: PriceListRule[]
+  quantityBreaks: PriceListQuantityBreak[]
+  isActive?: boolean
+}
+
+export const priceListService = {
+  getAll: () => api.get<PriceList[]>('/price-lists'),
+
+  getActive: () => api.get<PriceList[]>('/price-lists/active'),
+
+  getById: (id: number) => api.get<PriceList>(`/price-lists/${id}`),
+
+  create: (priceList: SavePriceListRequest) => api.post<PriceList>('/price-lists', priceList),
+
+  update: (id: number, priceList: SavePriceListRequest) => api.put<PriceList>(`/price-lists/${id}`, priceList),
+
+  toggle: (id: number) => api.patch<PriceList>(`/price-lists/${id}/toggle`),
+
+  delete: (id: number) => api.delete(`/price-lists/${id}`),
+}
@@ -0,0 +1,7 @@
+import api from './axiosInstance'
+import { PriceOverrideRecord } from '@/types'
+
+export const priceOverrideService = {
+  getByDateRange: (start: string, end: string) =>
+    api.get<PriceOverrideRecord[]>(`/price-overrides/date-range?start=${start}&end=${end}`),
+}
@@ -1,9 +1,43 @@
 import api from './axiosInstance'
 
-export interface Promotion {
+/**
+ * - PORCENTAJE: descuento por línea sobre los productos del alcance
+ * - NXM: lleva `buyQuantity` y paga `payQuantity` (2x1, 3x2)
+ * - SEGUNDA_UNIDAD: la segunda unidad con `secondUnitPercent` de descuento
+ * - COMBO: los productos de `comboItems` juntos por `comboPrice`
+ */
+export type PromotionType = 'PORCENTAJE' | 'NXM' | 'SEGUNDA_UNIDAD' | 'COMBO'
+
+export interface PromotionComboItem {
+  productId: number
+  quantity: number
+}
+
+/** Reglas por producto/categoría, franja horaria y compra mínima */
+interface PromotionRules {
+  /** Sin tipo (promociones anteriores) se trata como PORCENTAJE */
+  promotionType?: PromotionType
+  /** Alcance cuando `applyToAllProducts` es false */
+  productIds?: number[]
+  categoryIds?: number[]
+  buyQuantity?: number
+  payQuantity?: number
+  secondUnitPercent?: number
+  comboPrice?: number
+  comboItems?: PromotionComboItem[]
+  /** Franja horaria "HH:mm" (happy hour); puede cruzar la medianoche */
+  startTime?: string
+  endTime?: string
+  /** Valor mínimo del ticket (antes de descuentos) para aplicar */
+  minTicketAmount?: number
+}
+
+export interface Promotion extends PromotionRules {
   id: number
   name: string
   description?: string
+  /** Imagen que rota en la pantalla del cliente */
+  imageUrl?: string
   discountPercent: number
   scheduleType: 'DAILY' | 'WEEKLY' | 'SPECIFIC_DATE'
   daysOfWeek?: string
@@ -16,9 +50,10 @@ export interface Promotion {
   updatedAt: string
 }
 
-export interface CreatePromotionRequest {
+export interface CreatePromotionRequest extends PromotionRules {
   name: string
   description?: string
+  imageUrl?: string
   discountPercent: number
   scheduleType: 'DAILY' | 'WEEKLY' | 'SPECIFIC_DATE'
   daysOfWeek?: string
@@ -29,9 +64,10 @@ export interface CreatePromotionRequest {
   priority?: number
 }
 
-export interface UpdatePromotionRequest {
+export interface UpdatePromotionRequest extends PromotionRules {
   name?: string
   description?: string
+  imageUrl?: string
   discountPercent?: number
   scheduleType?: 'DAILY' | 'WEEKLY' | 'SPECIFIC_DATE'
   daysOfWeek?: string
@@ -0,0 +1,22 @@
+import api from './axiosInstance'
+import { Invoice, CustomerPayment } from '@/types'
+
+export interface RegisterCustomerPaymentRequest {
+  customerId: number
+  amount: number
+  paymentMethod: string
+  notes?: string
+  /** Aplicación del abono a cada factura abierta */
+  allocations: { invoiceId: number; amount: number }[]
+}
+
+export const receivableService = {
+  /** Facturas a crédito con saldo pendiente (PENDIENTE o PARCIAL) */
+  getOpenInvoices: (customerId?: number) =>
+    api.get<Invoice[]>(`/receivables/open${customerId ? `?customerId=${customerId}` : ''}`),
+
+  getPayments: (customerId: number) => api.get<CustomerPayment[]>(`/receivables/payments/customer/${customerId}`),
+
+  registerPayment: (request: RegisterCustomerPaymentRequest) =>
+    api.post<CustomerPayment>('/receivables/payments', request),
+}
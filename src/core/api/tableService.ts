@@ -1,5 +1,6 @@
 import api from './axiosInstance'
-import { RestaurantTable, TableSession, Invoice } from '@/types'
+import { RestaurantTable, TableSession, Invoice, SelectedModifier, TipShare } from '@/types'
+import { PaymentLineRequest } from './invoiceService'
 
 export interface CreateTableRequest {
   tableNumber: number
@@ -30,7 +31,12 @@ export interface AddTableItemsRequest {
     quantity: number
     unitPrice: number
     discountAmount?: number
+    discountReason?: string
+    discountAuthorizationId?: number
+    promotionId?: number
+    priceOverride?: { originalPrice: number; reason: string }
     notes?: string
+    modifiers?: SelectedModifier[]
   }[]
   priority?: boolean
   priorityReason?: string
@@ -38,11 +44,28 @@ export interface AddTableItemsRequest {
 
 export interface PayTableRequest {
   paymentMethod: string
+  payments?: PaymentLineRequest[]
   amountReceived: number
   discountPercent?: number
   serviceChargePercent?: number
   deliveryChargeAmount?: number
   notes?: string
+  /** Venta a crédito autorizada por encima del cupo del cliente */
+  creditOverride?: boolean
+  cashSessionId?: number
+  discountAuthorizationId?: number
+  /** Puntos del cliente redimidos como descuento */
+  loyaltyPointsRedeemed?: number
+  couponCode?: string
+  priceListId?: number
+  /** Propina (fuera del total) y su reparto; por defecto es del mesero que abrió la mesa */
+  tipAmount?: number
+  tipDistribution?: TipShare[]
+}
+
+export interface ReopenTableRequest {
+  reason: string
+  authorizationId?: number
 }
 
 export const tableService = {
@@ -64,12 +87,17 @@ export const tableService = {
 
   addItems: (id: number, request: AddTableItemsRequest) => api.post<TableSession>(`/tables/${id}/add-items`, request),
 
-  removeItem: (id: number, detailId: number) => api.delete<TableSession>(`/tables/${id}/items/${detailId}`),
+  /** Los ítems de una mesa ya están en cocina; sin pos.void se envía la autorización del supervisor */
+  removeItem: (id: number, detailId: number, authorizationId?: number) =>
+    api.delete<TableSession>(`/tables/${id}/items/${detailId}`, { params: authorizationId ? { authorizationId } : undefined }),
 
   payTable: (id: number, request: PayTableRequest) => api.post<Invoice>(`/tables/${id}/pay`, request),
 
   releaseTable: (id: number) => api.post<RestaurantTable>(`/tables/${id}/release`),
 
+  /** Reabre la última cuenta pagada de la mesa; el backend anula la factura y restaura la sesión */
+  reopenTable: (id: number, request: ReopenTableRequest) => api.post<TableSession>(`/tables/${id}/reopen`, request),
+
   getActiveSession: (id: number) => api.get<TableSession>(`/tables/${id}/session`),
 
   getActiveSessions: () => api.get<TableSession[]>('/tables/sessions/active'),
@@ -31,5 +31,8 @@ export const userService = {
   changePassword: (id: number, newPassword: string) =>
     api.post(`/users/${id}/change-password`, { newPassword }),
 
+  /** PIN numérico con el que el usuario autoriza acciones de otros cajeros */
+  setPin: (id: number, pin: string) => api.post(`/users/${id}/pin`, { pin }),
+
   getRoles: () => api.get<Role[]>('/roles'),
 }
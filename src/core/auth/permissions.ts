@@ -0,0 +1,28 @@
+/**
+ * Verificación de permisos fuera de las rutas (botones, acciones dentro de una página).
+ * Sigue las mismas reglas que el Sidebar: ADMIN todo, comodines `modulo.*` / `modulo:*` / `*`.
+ */
+
+interface PermissionUser {
+  role?: string | { name?: string; permissions?: string[] }
+  permissions?: string[]
+}
+
+export const hasPermission = (user: PermissionUser | null | undefined, required: string) => {
+  if (!user) return false
+  const roleName = typeof user.role === 'string' ? user.role : user.role?.name
+  if (roleName === 'ADMIN') return true
+
+  const permissions = (user.permissions || (typeof user.role === 'object' ? user.role?.permissions : undefined) || [])
+    .map((p) => p.replace(/:/g, '.'))
+  const module = required.split('.')[0]
+  return permissions.includes(required) ||
+    permissions.includes(`${module}.*`) ||
+    permissions.includes('*')
+}
+
+/** Acceso a una página o acción con varios permisos posibles (basta uno), igual que el menú lateral */
+export const canAccess = (user: PermissionUser | null | undefined, requiredPermissions?: string[]) => {
+  if (!requiredPermissions || requiredPermissions.length === 0) return true
+  return requiredPermissions.some((required) => hasPermission(user, required))
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react'
+
+interface UseBarcodeScannerOptions {
+  onScan: (code: string) => void
+  enabled?: boolean
+  /** Longitud mínima para considerar la ráfaga un código */
+  minLength?: number
+}
+
+// Un lector tipo teclado escribe cada carácter en pocos ms; una persona tarda >100ms
+const MAX_KEY_INTERVAL = 40
+const SCAN_TIMEOUT = 100
+
+const isEditable = (el: EventTarget | null) => {
+  if (!(el instanceof HTMLElement)) return false
+  if (el.dataset.barcodeInput !== undefined) return false
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName)
+}
+
+/**
+ * Escucha global de lectores de código de barras que emulan teclado.
+ * Distingue las ráfagas rápidas del escáner de la escritura normal; los campos
+ * de texto se ignoran salvo los marcados con `data-barcode-input`.
+ */
+export const useBarcodeScanner = ({ onScan, enabled = true, minLength = 6 }: UseBarcodeScannerOptions) => {
+  const bufferRef = useRef('')
+  const lastKeyTimeRef = useRef(0)
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const onScanRef = useRef(onScan)
+  onScanRef.current = onScan
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const flush = () => {
+      const code = bufferRef.current
+      bufferRef.current = ''
+      if (code.length >= minLength) onScanRef.current(code)
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey) return
+      if (isEditable(e.target)) return
+
+      const now = Date.now()
+      const interval = now - lastKeyTimeRef.current
+      lastKeyTimeRef.current = now
+
+      if (e.key === 'Enter') {
+        if (bufferRef.current.length >= minLength) {
+          e.preventDefault()
+          if (timeoutRef.current) clearTimeout(timeoutRef.current)
+          flush()
+        }
+        bufferRef.current = ''
+        return
+      }
+
+      if (e.key.length !== 1) return
+
+      // Tecla lenta: empieza una ráfaga nueva (escritura humana)
+      if (interval > MAX_KEY_INTERVAL) bufferRef.current = ''
+      bufferRef.current += e.key
+
+      // Algunos lectores no envían Enter al final
+      if (timeoutRef.current) clearTimeout(timeoutRef.current)
+      timeoutRef.current = setTimeout(() => {
+        if (Date.now() - lastKeyTimeRef.current >= SCAN_TIMEOUT) flush()
+      }, SCAN_TIMEOUT)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      if (timeoutRef.current) clearTimeout(timeoutRef.current)
+    }
+  }, [enabled, minLength])
+}
@@ -0,0 +1,50 @@
+import { useEffect } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import toast from 'react-hot-toast'
+import { RootState, AppDispatch } from '@/app/store'
+import { t } from '@/core/i18n'
+import { loadOfflineSales, syncOfflineSales, setOnline } from '@/modules/pos/store/offlineSlice'
+
+const SYNC_INTERVAL = 60000 // 1 minuto
+
+/**
+ * Mantiene la cola de ventas offline: la carga desde IndexedDB al iniciar y la
+ * reenvía cuando vuelve la conexión o periódicamente mientras haya pendientes.
+ */
+export const useOfflineSync = () => {
+  const dispatch = useDispatch<AppDispatch>()
+  const pendingCount = useSelector((state: RootState) => state.offline.sales.filter((s) => s.status === 'PENDIENTE').length)
+
+  const runSync = async () => {
+    const result = await dispatch(syncOfflineSales())
+    if (!syncOfflineSales.fulfilled.match(result)) return
+    const synced = result.payload.filter((r) => r.synced).length
+    const failed = result.payload.filter((r) => !r.synced && !r.transient).length
+    if (synced > 0) toast.success(t('offline.autoSynced', { count: synced }))
+    if (failed > 0) toast.error(t('offline.autoNeedReview', { count: failed }))
+  }
+
+  useEffect(() => {
+    dispatch(loadOfflineSales()).then(() => runSync())
+
+    const handleOnline = () => {
+      dispatch(setOnline(true))
+      runSync()
+    }
+    const handleOffline = () => dispatch(setOnline(false))
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [dispatch])
+
+  // navigator.onLine no detecta un backend caído con Wi-Fi activo, así que también se reintenta por intervalo
+  useEffect(() => {
+    if (pendingCount === 0) return
+    const interval = setInterval(runSync, SYNC_INTERVAL)
+    return () => clearInterval(interval)
+  }, [pendingCount, dispatch])
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from 'react'
+import { eventToShortcut, isPrintableShortcut } from '@/shared/utils/shortcuts'
+
+interface UseShortcutsOptions<A extends string> {
+  bindings: Record<A, string>
+  handlers: Partial<Record<A, (e: KeyboardEvent) => void>>
+  enabled?: boolean
+}
+
+const isEditable = (el: EventTarget | null) =>
+  el instanceof HTMLElement && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName))
+
+/**
+ * Atajos globales de teclado. Las teclas de función y combinaciones con Ctrl/Alt
+ * funcionan aunque el foco esté en un campo; las teclas imprimibles (p. ej. "*")
+ * solo fuera de los campos o en los marcados con `data-shortcut-input`.
+ */
+export const useShortcuts = <A extends string>({ bindings, handlers, enabled = true }: UseShortcutsOptions<A>) => {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const shortcut = eventToShortcut(e)
+      if (!shortcut) return
+      const action = (Object.keys(bindings) as A[]).find((a) => bindings[a] === shortcut)
+      if (!action) return
+      const handler = handlersRef.current[action]
+      if (!handler) return
+
+      if (isPrintableShortcut(shortcut) && isEditable(e.target)) {
+        if (!(e.target as HTMLElement).hasAttribute('data-shortcut-input')) return
+      }
+      e.preventDefault()
+      handler(e)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [bindings, enabled])
+}
@@ -0,0 +1,64 @@
+import { useCallback, useRef, useState } from 'react'
+import { useSelector } from 'react-redux'
+import toast from 'react-hot-toast'
+import { RootState } from '@/app/store'
+import { hasPermission } from '@/core/auth/permissions'
+import { AuthorizeRequest, authorizationService } from '@/core/api/authorizationService'
+import { t } from '@/core/i18n'
+import { SupervisorAuthorization } from '@/types'
+
+export type SupervisorAuthRequest = Omit<AuthorizeRequest, 'pin' | 'username' | 'password'>
+
+export interface SupervisorApproval {
+  /** Registro de la aprobación; el backend lo asocia a la acción */
+  authorizationId: number
+  approvedBy: string
+}
+
+/**
+ * Autorización puntual de un supervisor para acciones restringidas.
+ * Si el usuario ya tiene el permiso, registra la aprobación a su nombre sin pedir
+ * PIN; si no, abre el `SupervisorAuthModal` (con `modalProps`) y espera el PIN o
+ * las credenciales.
+ * Devuelve null si se cancela.
+ */
+export const useSupervisorAuth = () => {
+  const { user } = useSelector((state: RootState) => state.auth)
+  const [request, setRequest] = useState<SupervisorAuthRequest | null>(null)
+  const resolveRef = useRef<((approval: SupervisorApproval | null) => void) | null>(null)
+
+  const authorize = useCallback((next: SupervisorAuthRequest): Promise<SupervisorApproval | null> => {
+    if (hasPermission(user, next.permission)) {
+      return authorizationService.authorize(next)
+        .then((response) => {
+          const authorization = response as SupervisorAuthorization
+          return { authorizationId: authorization.id, approvedBy: authorization.supervisorName }
+        })
+        .catch((error) => {
+          toast.error(error.response?.data?.message || t('supervisor.rejected'))
+          return null
+        })
+    }
+    resolveRef.current?.(null)
+    return new Promise((resolve) => {
+      resolveRef.current = resolve
+      setRequest(next)
+    })
+  }, [user])
+
+  const finish = (approval: SupervisorApproval | null) => {
+    resolveRef.current?.(approval)
+    resolveRef.current = null
+    setRequest(null)
+  }
+
+  return {
+    authorize,
+    modalProps: {
+      request,
+      onApproved: (authorization: SupervisorAuthorization) =>
+        finish({ authorizationId: authorization.id, approvedBy: authorization.supervisorName }),
+      onCancel: () => finish(null),
+    },
+  }
+}
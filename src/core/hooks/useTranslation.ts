@@ -0,0 +1,12 @@
+import { useSelector } from 'react-redux'
+import { RootState } from '@/app/store'
+import { t } from '@/core/i18n'
+
+/**
+ * Traducción en componentes: al suscribirse al idioma del usuario, el componente
+ * se vuelve a pintar cuando lo cambia.
+ */
+export const useTranslation = () => {
+  const language = useSelector((state: RootState) => state.auth.language)
+  return { t, language }
+}
@@ -0,0 +1,1669 @@
+import type { MessageKey } from './es'
+
+/** Catálogo en inglés; el tipo obliga a traducir todas las claves del catálogo base */
+export const en: Record<MessageKey, string> = {
+  // Comunes
+  'common.cancel': 'Cancel',
+  'common.loading': 'Loading...',
+  'common.noResults': 'No results',
+  'common.user': 'User',
+  'common.role': 'Role',
+  'common.password': 'Password',
+  'common.language': 'Language',
+  'common.total': 'Total',
+  'common.subtotal': 'Subtotal',
+  'common.refresh': 'Refresh',
+  'common.all': 'All',
+  'common.customer': 'Customer',
+  'common.generalCustomer': 'Walk-in customer',
+  'common.date': 'Date',
+  'common.status': 'Status',
+  'common.actions': 'Actions',
+  'common.paymentMethod': 'Payment method',
+  'common.viewDetail': 'View details',
+  'common.retry': 'Retry',
+  'common.pending': 'Pending',
+  'common.notesOptional': 'Notes (optional)',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.nameRequired': 'Name *',
+  'common.description': 'Description',
+  'common.noDescription': 'No description',
+  'common.noCustomer': 'No customer',
+  'common.balance': 'Balance',
+  'common.close': 'Close',
+  'common.statusUpdateError': 'Error updating status',
+  'common.toggleStatus': 'Toggle status',
+  'common.codeValue': 'Code: {code}',
+  'common.stockValue': 'Stock: {quantity}',
+  'common.update': 'Update',
+  'common.create': 'Create',
+  'common.nameIsRequired': 'The name is required',
+  'common.productNumber': 'Product #{id}',
+  'common.userNumber': 'User #{id}',
+  'common.customerNumber': 'Customer #{id}',
+  'common.active': 'Active',
+  'common.inactive': 'Inactive',
+  'common.email': 'Email',
+  'common.keepBlank': 'Leave blank to keep it',
+  'common.fullNameRequired': 'The full name is required',
+  'common.emailInvalid': 'The email format is not valid',
+  'common.fullNameLabel': 'Full name *',
+  'common.phone': 'Phone',
+  'common.voidReason': 'Void reason *',
+  'common.reasonPlaceholder': 'Enter the reason...',
+  'common.void': 'Void',
+  'common.print': 'Print',
+  'common.discount': 'Discount',
+  'common.from': 'From',
+  'common.to': 'To',
+  'common.reasonLabel': 'Reason *',
+  'common.select': 'Select...',
+  'common.quantityRequired': 'Quantity *',
+  'common.filters': 'Filters',
+  'common.address': 'Address',
+  'common.city': 'City',
+  'common.add': 'Add',
+  'common.confirm': 'Confirm',
+  'common.processing': 'Processing...',
+  'common.unknownError': 'Unknown error',
+  'common.number': 'Number',
+  'common.accept': 'Accept',
+  'common.back': 'Back',
+  'common.delete': 'Delete',
+  'common.apply': 'Apply',
+  'common.reason': 'Reason',
+  'common.activate': 'Activate',
+  'common.deactivate': 'Deactivate',
+  'common.export': 'Export',
+
+  // Menú lateral y paleta de comandos
+  'nav.dashboard': 'Dashboard',
+  'nav.pos': 'Point of Sale',
+  'nav.cashRegister': 'Cash Register',
+  'nav.tables': 'Tables',
+  'nav.kitchen': 'Kitchen',
+  'nav.products': 'Products',
+  'nav.categories': 'Categories',
+  'nav.priceLists': 'Price lists',
+  'nav.inventory': 'Inventory',
+  'nav.invoices': 'Invoices',
+  'nav.customers': 'Customers',
+  'nav.receivables': 'Receivables',
+  'nav.reports': 'Reports',
+  'nav.giftCards': 'Gift cards',
+  'nav.promotions': 'Promotions',
+  'nav.users': 'Users',
+  'nav.roles': 'Roles',
+  'nav.settings': 'Settings',
+
+  'palette.pages': 'Pages',
+  'palette.products': 'Products',
+  'palette.customers': 'Customers',
+  'palette.tables': 'Tables',
+  'palette.placeholder': 'Search page, product, customer or table...',
+  'palette.addToCart': '{code} · add to cart',
+  'palette.assignToSale': '{document} · assign to sale',
+  'palette.table': 'Table {number}',
+
+  // Encabezado
+  'header.title': 'Point of Sale System',
+  'header.offlinePending': 'Pending',
+  'header.offline': 'Offline',
+  'header.offlinePendingHint': 'Sales waiting to sync',
+  'header.offlineHint': 'Offline: sales are stored locally',
+  'header.notifications': 'Notifications',
+  'header.markAllRead': 'Mark all',
+  'header.noNotifications': 'No notifications',
+  'header.now': 'Now',
+  'header.minutesAgo': '{count}m ago',
+  'header.hoursAgo': '{count}h ago',
+  'header.daysAgo': '{count}d ago',
+  'header.profile': 'My Profile',
+  'header.logout': 'Log Out',
+
+  // Ingreso
+  'login.subtitle': 'Enter your credentials to continue',
+  'login.usernamePlaceholder': 'Enter your username',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.usernameRequired': 'Username is required',
+  'login.passwordRequired': 'Password is required',
+  'login.submit': 'Sign In',
+
+  // Medios de pago
+  'payment.EFECTIVO': 'Cash',
+  'payment.TRANSFERENCIA': 'Bank transfer',
+  'payment.NEQUI': 'Nequi',
+  'payment.DAVIPLATA': 'Daviplata',
+  'payment.TARJETA_DEBITO': 'Debit Card',
+  'payment.TARJETA_CREDITO': 'Credit Card',
+  'payment.CREDITO': 'Store credit',
+  'payment.TARJETA_REGALO': 'Gift card',
+  'payment.MIXTO': 'Split',
+  'payment.foreignDetail': '{amount} at {rate}',
+
+  // Editor de pagos y propinas
+  'tender.payments': 'Payments',
+  'tender.addPayment': 'Add payment',
+  'tender.totalAtRate': 'Total {amount} · rate {rate}',
+  'tender.rate': 'rate {rate}',
+  'tender.giftCardPlaceholder': 'Code or scan',
+  'tender.check': 'Check',
+  'tender.balance': 'Balance {amount}',
+  'tender.giftCardNotFound': 'Gift card {code} does not exist',
+  'tender.giftCardError': 'Error checking the gift card',
+  'tender.paid': 'Paid',
+  'tender.remaining': 'Balance due',
+  'tender.creditAvailable': 'Available credit',
+  'tender.giftCardPending': 'Check the balance of each gift card; the amount cannot exceed it',
+  'tender.nonCashExceeds': 'Electronic payments cannot exceed the total due',
+  'tender.change': 'Change',
+  'tender.changeLocal': 'Change (local currency)',
+
+  'tip.title': 'Voluntary tip',
+  'tip.none': 'No tip',
+  'tip.other': 'Other amount',
+  'tip.amountPlaceholder': 'Tip amount',
+  'tip.cardOnly': 'Only on the amount paid by card',
+  'tip.removeStaff': 'Remove from split',
+  'tip.splitWith': '+ Split with...',
+
+  // Autorización de supervisor
+  'supervisor.title': 'Supervisor authorization',
+  'supervisor.pin': 'PIN',
+  'supervisor.usernamePlaceholder': 'Supervisor username',
+  'supervisor.authorize': 'Authorize',
+  'supervisor.approvedBy': 'Authorized by {name}',
+  'supervisor.rejected': 'Authorization rejected',
+
+  // Caja
+  'cash.title': 'Cash Register',
+  'cash.subtitle': 'Opening, cash movements and shift closing · Terminal {terminal}',
+  'cash.income': 'Cash in',
+  'cash.withdrawal': 'Cash out',
+  'cash.incomeTitle': 'Cash in',
+  'cash.withdrawalTitle': 'Cash out',
+  'cash.incomeSaved': 'Cash in recorded',
+  'cash.withdrawalSaved': 'Cash out recorded',
+  'cash.movementError': 'Error recording the movement',
+  'cash.amount': 'Amount',
+  'cash.reason': 'Reason',
+  'cash.otherReasonPlaceholder': 'Describe the reason',
+  'cash.register': 'Record',
+  'cash.confirmClose': 'Close the shift with {amount} counted? This cannot be undone.',
+  'cash.closeError': 'Error closing the shift',
+  'cash.sessionClosed': 'Shift closed',
+  'cash.expectedCash': 'Expected cash',
+  'cash.countedCash': 'Counted cash',
+  'cash.balanced': 'Balanced',
+  'cash.over': 'Over',
+  'cash.short': 'Short',
+  'cash.foreignExpectedCounted': '{currency} expected / counted',
+  'cash.foreignDifference': '{label} {currency}',
+  'cash.printZ': 'Print Z',
+  'cash.finish': 'Finish',
+  'cash.closeTitle': 'Close register',
+  'cash.closeSubtitle': 'Count the drawer cash by denomination',
+  'cash.bills': 'Bills',
+  'cash.coins': 'Coins',
+  'cash.foreignSeparate': 'Foreign currency (counted separately)',
+  'cash.notesPlaceholder': 'Notes (optional)',
+  'cash.totalCounted': 'Total counted',
+  'cash.confirmCount': 'Confirm count and close',
+  'cash.rateTitle': '{currency} exchange rate',
+  'cash.rateLabel': 'Value of 1 {currency} for today',
+  'cash.rateHint': 'Registers only accept the currency at today\'s rate',
+  'cash.saveRate': 'Save rate',
+  'cash.rateAuthDescription': 'Set the {currency} rate to {rate} for today',
+  'cash.rateSaved': '{currency} rate updated',
+  'cash.rateError': 'Error saving the exchange rate',
+  'cash.opened': 'Register opened',
+  'cash.openError': 'Error opening the register',
+  'cash.reportXError': 'Error generating the X report',
+  'cash.summaryLoadError': 'Could not load the shift sales, refunds or gift cards. Try again.',
+  'cash.todayRates': 'Today\'s exchange rate',
+  'cash.todayRatesHint': 'Foreign cash; change is always given in {currency}',
+  'cash.noRateToday': 'no rate today',
+  'cash.fixRate': 'Correct',
+  'cash.setRate': 'Set rate',
+  'cash.openTitle': 'Open register',
+  'cash.noSession': 'There is no open shift for {name} on this terminal',
+  'cash.openingFloatLabel': 'Opening float (cash in the drawer)',
+  'cash.openSession': 'Open shift',
+  'cash.session': 'Shift',
+  'cash.since': 'Since {date}',
+  'cash.openingFloat': 'Opening float',
+  'cash.incomes': 'Cash in',
+  'cash.withdrawals': 'Cash out',
+  'cash.reportX': 'X report',
+  'cash.closeRegister': 'Close register',
+  'cash.noMovements': 'No movements in this shift',
+  'cash.date': 'Date',
+  'cash.type': 'Type',
+  'cash.nonCashHint': 'Payment methods other than {method} do not affect the expected drawer cash',
+  'cash.coinShort': 'Coin',
+  'cash.billShort': 'Bill',
+
+  // Tiquetes impresos
+  'receipt.defaultCompany': 'My Company',
+  'receipt.preBillBanner': '*** PRE-BILL ***',
+  'receipt.provisionalBanner': '*** PROVISIONAL RECEIPT ***',
+  'receipt.creditNoteBanner': '*** CREDIT NOTE ***',
+  'receipt.giftCardBanner': '*** GIFT CARD ***',
+  'receipt.notFiscal': 'This is not a tax invoice',
+  'receipt.refundRegistered': 'Return recorded',
+  'receipt.giftCardBalance': 'Available balance: {amount}',
+  'receipt.giftCardExpires': ' · Expires: {date}',
+  'receipt.pointsEarned': 'Points earned: {points}',
+  'receipt.pointsBalance': 'Points balance: {points}',
+  'receipt.customer': 'Customer: {name}',
+  'receipt.generalCustomer': 'Walk-in Customer',
+  'receipt.document': 'ID: {document}',
+  'receipt.table': 'Table: {table}',
+  'receipt.waiter': 'Server: {name}',
+  'receipt.cashier': 'Cashier: {name}',
+  'receipt.number': 'No. {number}',
+  'receipt.affectedInvoice': 'Original invoice: {number}',
+  'receipt.lineDiscount': '* Disc.{reason}: -{amount}',
+  'receipt.taxIncluded': ' incl.',
+  'receipt.taxBase': '{label}{included} (base {base}):',
+  'receipt.taxes': 'Taxes{included}:',
+  'receipt.subtotal': 'Subtotal:',
+  'receipt.discount': 'Discount{percent}:',
+  'receipt.serviceCharge': 'Voluntary service ({percent}%):',
+  'receipt.deliveryCharge': 'Delivery charge:',
+  'receipt.coupon': 'Coupon {code}:',
+  'receipt.loyaltyRedemption': 'Redeemed {points} pts:',
+  'receipt.total': 'TOTAL:',
+  'receipt.tip': 'Voluntary tip:',
+  'receipt.totalPaid': 'Total paid:',
+  'receipt.refund': 'Refund:',
+  'receipt.method': 'Method:',
+  'receipt.received': 'Received:',
+  'receipt.change': 'Change:',
+  'receipt.provisionalNote': 'Sale recorded offline. The invoice will be issued once it syncs.',
+  'receipt.electronicInvoice': 'Printed representation of the electronic invoice',
+  'receipt.printerError': 'Thermal printer: {error}.',
+  'receipt.printerNoResponse': 'no response',
+  'receipt.printInBrowser': 'Print in the browser',
+  'receipt.printFailed': 'The receipt could not be printed',
+  'receipt.titlePreBill': 'Pre-bill',
+  'receipt.titleCreditNote': 'Credit note',
+  'receipt.titleInvoice': 'Invoice',
+  'receipt.previewCustomer': 'Sample customer',
+  'receipt.previewCashier': 'Cashier',
+  'receipt.previewTable': 'Table 4',
+  'receipt.previewWaiter': 'Server',
+  'receipt.previewProduct': 'Sample product',
+  'receipt.previewOtherProduct': 'Another product',
+  'receipt.previewDiscountReason': 'Courtesy',
+
+  // Reportes X / Z
+  'cashReport.title': '{kind} Report - Shift {session}',
+  'cashReport.banner': '*** {kind} REPORT ***',
+  'cashReport.closing': 'Register closing',
+  'cashReport.partial': 'Partial count',
+  'cashReport.session': 'Shift #{session} · {terminal}',
+  'cashReport.cashier': 'Cashier: {name}',
+  'cashReport.openedAt': 'Opened: {date}',
+  'cashReport.closedAt': 'Closed: {date}',
+  'cashReport.cutAt': 'Count: {date}',
+  'cashReport.sales': 'Sales ({count}):',
+  'cashReport.tips': 'Tips (in payments):',
+  'cashReport.openingFloat': 'Opening float:',
+  'cashReport.cashSales': 'Cash sales:',
+  'cashReport.giftCards': 'Gift cards:',
+  'cashReport.cashIn': 'Cash in:',
+  'cashReport.cashOut': 'Cash out:',
+  'cashReport.refunds': 'Refunds:',
+  'cashReport.expected': 'EXPECTED:',
+  'cashReport.counted': 'Counted cash:',
+  'cashReport.over': 'Over',
+  'cashReport.short': 'Short',
+  'cashReport.difference': 'Difference',
+  'cashReport.foreignExpected': '{currency} expected:',
+  'cashReport.foreignCounted': '{currency} counted:',
+  'cashReport.signature': 'Cashier signature: ____________',
+  'cashReport.informative': 'Informational report, the shift is still open',
+
+  // Exportación de reportes a Excel
+  'export.noData': 'No data to export',
+  'export.generating': 'Generating Excel...',
+  'export.done': 'Excel exported successfully',
+  'export.error': 'Error exporting Excel',
+  'export.defaultCompany': 'My Business',
+  'export.fileName': 'sales_report',
+  'export.salesReport': 'SALES REPORT',
+  'export.period': 'Period: {start} to {end}',
+  'export.concept': 'Item',
+  'export.value': 'Value',
+  'export.totalSales': 'Total Sales',
+  'export.transactions': 'Transactions',
+  'export.averageTicket': 'Average Ticket',
+  'export.totalCost': 'Total Cost',
+  'export.netProfit': 'Net Profit',
+  'export.profitMargin': 'Profit Margin %',
+  'export.serviceChargeTotal': 'Voluntary Service Total',
+  'export.ownerNet': 'Owner Net Total',
+  'export.cashClosing': 'REGISTER CLOSING',
+  'export.invoiced': 'Total Invoiced',
+  'export.subtotal': 'Subtotal',
+  'export.taxes': 'Taxes',
+  'export.discounts': 'Discounts',
+  'export.byPaymentMethod': 'BREAKDOWN BY PAYMENT METHOD',
+  'export.cashTotal': 'Cash Total',
+  'export.transferTotal': 'Transfer Total',
+  'export.refunds': 'Refunds (Credit Notes)',
+  'export.netWithRefunds': 'Net Total after Refunds',
+  'export.giftCardsSection': 'GIFT CARDS (outside sales)',
+  'export.giftCardsLoaded': 'Loaded on cards (liability)',
+  'export.giftCardsRedeemed': 'Redeemed (included in sales)',
+  'export.tipsSection': 'TIPS (outside sales)',
+  'export.tipsCollected': 'Tips collected',
+  'export.sheetSummary': 'Summary',
+  'export.sheetInvoices': 'Invoices',
+  'export.sheetCreditNotes': 'CreditNotes',
+  'export.sheetGiftCards': 'GiftCards',
+  'export.sheetTips': 'Tips',
+  'export.sheetForeign': 'ForeignCurrency',
+  'export.sheetPriceChanges': 'PriceChanges',
+  'export.sheetAuthorizations': 'Authorizations',
+  'export.sheetTopProducts': 'TopProducts',
+  'export.sheetTopCustomers': 'TopCustomers',
+  'export.date': 'Date',
+  'export.number': 'Number',
+  'export.type': 'Type',
+  'export.status': 'Status',
+  'export.customer': 'Customer',
+  'export.paymentMethod': 'Payment Method',
+  'export.tax': 'Tax',
+  'export.discount': 'Discount',
+  'export.total': 'Total',
+  'export.received': 'Received',
+  'export.change': 'Change',
+  'export.invoice': 'Invoice',
+  'export.reason': 'Reason',
+  'export.refund': 'Refund',
+  'export.products': 'Products',
+  'export.waste': ' (waste)',
+  'export.card': 'Card',
+  'export.movement': 'Movement',
+  'export.balance': 'Balance',
+  'export.payment': 'Payment',
+  'export.user': 'User',
+  'export.employee': 'Employee',
+  'export.invoices': 'Invoices',
+  'export.tips': 'Tips',
+  'export.totalRow': 'TOTAL',
+  'export.currency': 'Currency',
+  'export.foreignReceived': 'Received in currency',
+  'export.baseValue': 'Value in {currency}',
+  'export.product': 'Product',
+  'export.quantity': 'Quantity',
+  'export.listPrice': 'List Price',
+  'export.chargedPrice': 'Charged Price',
+  'export.difference': 'Difference',
+  'export.action': 'Action',
+  'export.detail': 'Detail',
+  'export.reference': 'Reference',
+  'export.requestedBy': 'Requested by',
+  'export.approvedBy': 'Approved by',
+  'export.revenue': 'Revenue',
+  'export.purchases': 'Purchases',
+  'export.totalSpent': 'Total Spent',
+
+  'export.inventoryFileName': 'inventory',
+  'export.sheetInventory': 'Inventory',
+  'export.code': 'Code',
+  'export.currentStock': 'Current Stock',
+  'export.minStock': 'Min Stock',
+  'export.maxStock': 'Max Stock',
+  'export.location': 'Location',
+  'export.outOfStock': 'Out of stock',
+  'export.lowStock': 'Low stock',
+  'export.normalStock': 'Normal',
+  'export.inventoryDone': 'Inventory exported successfully',
+
+  'export.sheetCoupons': 'Coupons',
+  'export.campaign': 'Campaign',
+  'export.minPurchase': 'Minimum purchase',
+  'export.validFrom': 'Valid from',
+  'export.validUntil': 'Valid until',
+  'export.maxUses': 'Allowed uses',
+  'export.maxUsesPerCustomer': 'Uses per customer',
+  'export.used': 'Used',
+  'export.unlimited': 'Unlimited',
+  'export.noLimit': 'No limit',
+  'export.active': 'Active',
+  'export.inactive': 'Inactive',
+
+  // Utility labels (taxes, promotions, gift cards, points, shortcuts, coupons)
+  'tax.exempt': 'Exempt',
+  'tax.option.IVA': 'VAT {rate}%',
+  'tax.option.INC': 'Consumption tax {rate}%',
+  'tax.option.EXENTO': 'Exempt ({rate}%)',
+  'promotion.type.PORCENTAJE': 'Percent discount',
+  'promotion.type.NXM': 'Buy N pay M (2-for-1, 3-for-2)',
+  'promotion.type.SEGUNDA_UNIDAD': 'Discounted second unit',
+  'promotion.type.COMBO': 'Fixed-price combo',
+  'promotion.secondUnit': '2nd unit -{percent}%',
+  'promotion.combo': 'Combo {price}',
+  'giftCard.status.ACTIVA': 'Active',
+  'giftCard.status.AGOTADA': 'Used up',
+  'giftCard.status.VENCIDA': 'Expired',
+  'giftCard.status.ANULADA': 'Voided',
+  'giftCard.transaction.EMISION': 'Issue',
+  'giftCard.transaction.RECARGA': 'Top-up',
+  'giftCard.transaction.REDENCION': 'Redemption',
+  'giftCard.transaction.REVERSO': 'Reversal',
+  'giftCard.transaction.ANULACION': 'Void',
+  'giftCard.expiredError': 'Gift card {code} expired on {date}',
+  'giftCard.noBalanceError': 'Gift card {code} has no balance',
+  'giftCard.voidedError': 'Gift card {code} has been voided',
+  'loyalty.transaction.ACUMULACION': 'Earned',
+  'loyalty.transaction.REDENCION': 'Redeemed',
+  'loyalty.transaction.VENCIMIENTO': 'Expired',
+  'loyalty.transaction.AJUSTE': 'Adjustment',
+  'loyalty.transaction.REVERSO': 'Reversal',
+  'shortcut.search': 'Search product',
+  'shortcut.search.description': 'Moves the cursor to the search box',
+  'shortcut.customer': 'Customer',
+  'shortcut.customer.description': 'Opens the customer picker',
+  'shortcut.discount': 'Discount',
+  'shortcut.discount.description': 'Discount on the last cart line',
+  'shortcut.park': 'Park ticket',
+  'shortcut.park.description': 'Parks the current ticket',
+  'shortcut.pay': 'Charge',
+  'shortcut.pay.description': 'Opens cash payment',
+  'shortcut.quantity': 'Quantity',
+  'shortcut.quantity.description': 'Type the quantity in the search box and press the key; it applies to the next product',
+  'shortcut.help': 'Help',
+  'shortcut.help.description': 'Shows this list of shortcuts',
+  'cash.reason.CAMBIO': 'Change / small bills',
+  'cash.reason.REPOSICION': 'Float top-up',
+  'cash.reason.PROVEEDOR': 'Supplier payment',
+  'cash.reason.RETIRO_PARCIAL': 'Partial withdrawal',
+  'cash.reason.GASTOS': 'Petty expenses',
+  'cash.reason.PROPINAS': 'Tip payout',
+  'cash.reason.OTRO': 'Other',
+  'coupon.percentMax': '{percent}% (max. {amount})',
+  'coupon.inactive': 'Coupon {code} is inactive',
+  'coupon.notYetValid': 'Coupon {code} is valid from {date}',
+  'coupon.expired': 'Coupon {code} expired on {date}',
+  'coupon.used': 'Coupon {code} has already been used',
+  'coupon.exhausted': 'Coupon {code} has used up its {uses} uses',
+  'coupon.customerRequired': 'Select the customer: the coupon has a per-customer use limit',
+  'coupon.customerLimit': 'The customer has already used this coupon the maximum number of times',
+  'coupon.minPurchase': 'The coupon requires a minimum purchase of {amount}',
+
+  // Modifiers, printer, receipt, currencies and DIAN
+  'modifiers.selectOne': 'Select one option in "{group}"',
+  'modifiers.selectAtLeast': 'Select at least {min} options in "{group}"',
+  'modifiers.max': 'At most {max} options in "{group}"',
+  'receiptField.showLogo': 'Logo',
+  'receiptField.showLegalName': 'Legal name',
+  'receiptField.showTaxId': 'Tax ID',
+  'receiptField.showAddress': 'Address',
+  'receiptField.showPhone': 'Phone',
+  'receiptField.showCashier': 'Cashier',
+  'receiptField.showCustomerDocument': 'Customer ID',
+  'receiptField.showTaxBreakdown': 'Tax breakdown',
+  'receiptField.showTable': 'Table',
+  'receiptField.showWaiter': 'Waiter',
+  'printer.mode.html': 'Browser (print dialog)',
+  'printer.mode.bridge': 'Local HTTP bridge',
+  'printer.mode.serial': 'Serial / USB port (WebSerial)',
+  'printer.noWebSerial': 'This browser does not support WebSerial',
+  'printer.noPort': 'No serial port has been authorized. Choose one in Settings',
+  'printer.bridgeStatus': 'The print bridge responded {status}',
+  'printer.browserMode': 'This terminal prints through the browser',
+  'printer.testTitle': 'TEST',
+  'printer.testPaper': 'Paper {width}mm · {columns} columns',
+  'printer.testAccents': 'Accents',
+  'printer.testLeft': 'Left',
+  'printer.testRight': 'Right',
+  'currency.name.USD': 'US Dollar',
+  'currency.name.EUR': 'Euro',
+  'dian.environment.2': 'Enablement (testing)',
+  'dian.environment.1': 'Production',
+  'dian.missingNit': 'The company tax ID (NIT) is missing',
+  'dian.missingLegalName': 'The company legal name is missing',
+  'dian.missingResolution': 'The invoicing resolution number is missing',
+  'dian.missingTechnicalKey': 'The resolution technical key is missing',
+  'dian.missingSoftware': 'The software ID or PIN is missing',
+  'dian.invalidMunicipality': 'The municipality DANE code must have 5 digits',
+  'dian.voided': 'The invoice is voided',
+  'dian.noDetails': 'The invoice has no product lines',
+  'dian.outOfRange': 'Number {number} is outside the authorized range ({from} to {to})',
+  'dian.outOfDates': 'Date {date} is outside the resolution validity period',
+
+  // Modifiers, gift cards and shortcuts
+  'modifiers.subtitle': 'Customize the product',
+  'modifiers.required': 'Required',
+  'modifiers.optional': 'Optional',
+  'modifiers.addToOrder': 'Add to order',
+  'giftCardSale.issued': 'Gift card {code} issued: balance {balance}',
+  'giftCardSale.reloaded': 'Gift card {code} topped up: balance {balance}',
+  'giftCardSale.reloadItem': 'Gift card top-up',
+  'giftCardSale.issueItem': 'Gift card',
+  'giftCardSale.issueError': 'Error issuing the gift card',
+  'giftCardSale.reloadError': 'Error topping up the gift card',
+  'giftCardSale.reloadTitle': 'Top up gift card',
+  'giftCardSale.sellTitle': 'Sell gift card',
+  'giftCardSale.currentBalance': 'Current balance {balance}',
+  'giftCardSale.code': 'Code',
+  'giftCardSale.codePlaceholder': 'Scan the physical card or generate a code',
+  'giftCardSale.generateCode': 'Generate code',
+  'giftCardSale.amount': 'Amount to load',
+  'giftCardSale.otherAmount': 'Other amount',
+  'giftCardSale.expires': 'Expires',
+  'giftCardSale.customer': 'Customer',
+  'giftCardSale.noCustomer': 'No customer',
+  'giftCardSale.reload': 'Top up',
+  'giftCardSale.issue': 'Issue',
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.palette': 'Command palette',
+  'shortcuts.paletteDescription': 'Go to any product, customer, table or page',
+  'shortcuts.changeInSettings': 'You can change the shortcuts in Settings',
+
+  // Customer display and kitchen
+  'display.windowTitle': '{company} - Customer display',
+  'display.welcome': 'Welcome!',
+  'display.percentOff': '{percent}% off',
+  'display.thanks': 'Thank you for your purchase!',
+  'display.received': 'Received',
+  'display.change': 'Change',
+  'display.discount': 'Discount -{amount}',
+  'display.discounts': 'Discounts',
+  'display.taxes': 'Taxes',
+  'display.taxesIncluded': 'Taxes included',
+  'kitchen.status.PENDIENTE': 'Pending',
+  'kitchen.status.EN_PREPARACION': 'Preparing',
+  'kitchen.status.LISTO': 'Ready',
+  'kitchen.loadError': 'Error loading orders',
+  'kitchen.statusUpdated': 'Status updated: {status}',
+  'kitchen.updateError': 'Error updating status',
+  'kitchen.startPreparing': 'Start preparing',
+  'kitchen.markReady': 'Mark ready',
+  'kitchen.markDelivered': 'Mark delivered',
+  'kitchen.title': 'Kitchen',
+  'kitchen.activeOrders': '{count} active order(s)',
+  'kitchen.empty': 'No pending orders',
+  'kitchen.emptyHint': 'New orders will appear automatically',
+  'kitchen.table': 'Table #{number}',
+  'kitchen.batch': 'Batch #{number}',
+  'kitchen.priority': 'Priority',
+  'kitchen.waiter': 'Waiter: {name}',
+  'kitchen.reason': 'Reason: {reason}',
+
+  // Date filter and dashboard
+  'dateRange.to': 'to',
+  'dateRange.today': 'Today',
+  'dateRange.week': 'Week',
+  'dateRange.month': 'Month',
+  'dateRange.year': 'Year',
+  'dashboard.sales': 'Sales',
+  'dashboard.transactions': 'Transactions',
+  'dashboard.lowStock': 'Low stock',
+  'dashboard.attention': 'Attention',
+  'dashboard.averageTicket': 'Average ticket',
+  'dashboard.subtitle': 'Your business at a glance',
+  'dashboard.vsYesterday': 'vs yesterday',
+  'dashboard.outOfStockCount': '{count} out of stock',
+  'dashboard.lowStockCount': '{count} low stock',
+  'dashboard.noAlerts': 'No alerts',
+  'dashboard.newSale': 'New sale',
+  'dashboard.periodSales': 'Sales for the period',
+  'dashboard.noData': 'No sales data available',
+
+  // Offline sales
+  'offline.title': 'Offline sales',
+  'offline.subtitle': 'Sales recorded offline waiting to be sent to the server',
+  'offline.lastAttempt': 'Last attempt: {date}',
+  'offline.syncNow': 'Sync now',
+  'offline.nothingToSync': 'There are no pending sales to sync',
+  'offline.syncedCount': '{count} sale(s) synced',
+  'offline.serverUnreachable': 'Cannot reach the server',
+  'offline.saleSynced': 'Sale {id} synced',
+  'offline.stillQueued': 'Offline: the sale is still queued',
+  'offline.rejected': 'The sale was rejected',
+  'offline.retryError': 'Error retrying the sale',
+  'offline.discarded': 'Sale discarded',
+  'offline.discardError': 'Error discarding the sale',
+  'offline.needsReview': 'Needs review',
+  'offline.connection': 'Connection',
+  'offline.online': 'Online',
+  'offline.offline': 'Offline',
+  'offline.pending': 'Pending',
+  'offline.needReview': 'Need review',
+  'offline.empty': 'No sales waiting to sync',
+  'offline.provisionalNumber': 'Provisional no.',
+  'offline.discard': 'Discard',
+  'offline.sale': 'Sale {id}',
+  'offline.attempts': '{count} attempt(s)',
+  'offline.serverRejected': 'The server rejected the sale',
+  'offline.rejectedHint': 'Fix the problem (e.g. reactivate the product) and retry, or discard the sale and record it again.',
+  'offline.productDetail': 'Product details',
+  'offline.reprint': 'Reprint',
+  'offline.discardTitle': 'Discard sale',
+  'offline.discardWarning': 'Sale {id} for {total} will be removed from the queue and will not be recorded.',
+  'offline.autoSynced': '{count} offline sale(s) synced',
+  'offline.autoNeedReview': '{count} offline sale(s) need review',
+  'offline.notFound': 'Sale not found',
+
+  // Receivables
+  'receivables.bucket.current': '0-30 days',
+  'receivables.bucket.days31': '31-60 days',
+  'receivables.bucket.days61': '61-90 days',
+  'receivables.bucket.days90': '90+ days',
+  'receivables.exceedsBalance': 'The payment exceeds the customer balance',
+  'receivables.paymentSaved': 'Payment recorded',
+  'receivables.paymentError': 'Error recording the payment',
+  'receivables.paymentTitle': 'Record payment',
+  'receivables.balanceOf': 'Balance {amount}',
+  'receivables.limitOf': 'Limit {amount}',
+  'receivables.openInvoices': 'Open invoices',
+  'receivables.days': '{count} days',
+  'receivables.applied': 'Payment -{amount}',
+  'receivables.amount': 'Payment amount',
+  'receivables.fullBalance': 'Full balance',
+  'receivables.oldestFirst': 'The payment is applied to the oldest invoices first',
+  'receivables.history': 'Previous payments',
+  'receivables.recordPayment': 'Record payment',
+  'receivables.loadError': 'Error loading receivables',
+  'receivables.subtitle': 'Credit sales, payments and balance aging by customer',
+  'receivables.totalDue': 'Total receivable',
+  'receivables.searchCustomer': 'Search customer...',
+  'receivables.empty': 'No outstanding balances',
+  'receivables.limit': 'Limit',
+  'receivables.invoiceCount': '{count} invoice(s) · since {date}',
+  'receivables.overLimit': 'Over the credit limit',
+  'receivables.pay': 'Pay',
+
+  // Roles
+  'roles.loadError': 'Error loading roles',
+  'roles.systemNoDelete': 'A system role cannot be deleted',
+  'roles.confirmDelete': 'Delete the role "{name}"?',
+  'roles.deleted': 'Role deleted',
+  'roles.deleteError': 'Error deleting role',
+  'roles.nameRequired': 'The role name is required',
+  'roles.systemNoRename': 'A system role cannot be renamed',
+  'roles.updated': 'Role updated',
+  'roles.created': 'Role created',
+  'roles.saveError': 'Error saving role',
+  'roles.subtitle': 'Full control of roles and modules',
+  'roles.new': 'New role',
+  'roles.edit': 'Edit role',
+  'roles.search': 'Search roles...',
+  'roles.empty': 'No roles found',
+  'roles.modules': 'Modules',
+  'roles.system': 'System',
+  'roles.descriptionPlaceholder': 'Role description...',
+  'roles.modulesAndPermissions': 'Modules and permissions',
+
+  // Gift cards page
+  'giftCards.transactionsError': 'Error loading the transactions',
+  'giftCards.issuedOn': 'Issued {date}',
+  'giftCards.expiresOn': 'Expires {date}',
+  'giftCards.initialAmount': 'Initial amount',
+  'giftCards.transactions': 'Transactions',
+  'giftCards.noTransactions': 'No transactions',
+  'giftCards.balanceAfter': 'Balance {amount}',
+  'giftCards.loadError': 'Error loading gift cards',
+  'giftCards.voided': 'Card voided',
+  'giftCards.voidError': 'Error voiding the card',
+  'giftCards.subtitle': 'Balances, expirations and transactions for each card',
+  'giftCards.sell': 'Sell card',
+  'giftCards.outstanding': 'Balance to redeem',
+  'giftCards.activeCount': 'Active cards',
+  'giftCards.expiredBalance': 'Expired balance',
+  'giftCards.search': 'Search by code or customer...',
+  'giftCards.allStatuses': 'All statuses',
+  'giftCards.empty': 'There are no gift cards',
+  'giftCards.code': 'Code',
+  'giftCards.expires': 'Expires',
+  'giftCards.noExpiry': 'No expiration',
+  'giftCards.reload': 'Reload',
+  'giftCards.voidTitle': 'Void card',
+  'giftCards.confirmVoid': 'Are you sure you want to void the card',
+  'giftCards.balanceWrittenOff': 'The balance of {amount} will be written off.',
+
+  // Categories
+  'categories.activated': 'Category activated',
+  'categories.deactivated': 'Category deactivated',
+  'categories.loadError': 'Error loading categories',
+  'categories.confirmDelete': 'Delete the category "{name}"?',
+  'categories.deleted': 'Category deleted',
+  'categories.deleteError': 'Error deleting category',
+  'categories.updated': 'Category updated',
+  'categories.created': 'Category created',
+  'categories.saveError': 'Error saving category',
+  'categories.productsError': 'Error loading products',
+  'categories.subtitle': 'Organize your products by category',
+  'categories.new': 'New category',
+  'categories.edit': 'Edit category',
+  'categories.empty': 'No categories yet',
+  'categories.active': 'Active',
+  'categories.inactive': 'Inactive',
+  'categories.productsIn': 'Products in "{name}"',
+  'categories.productsFound': '{count} products found',
+  'categories.noProducts': 'There are no products in this category',
+  'categories.descriptionPlaceholder': 'Category description...',
+  'categories.icon': 'Icon/Emoji',
+  'categories.pickIcon': 'Pick an icon',
+  'categories.parent': 'Parent category',
+  'categories.noParent': 'None (root category)',
+  'categories.isActive': 'Active category',
+
+  // Price lists
+  'priceLists.catalogError': 'Error loading products and categories',
+  'priceLists.loadError': 'Error loading price lists',
+  'priceLists.invalidPrices': 'Check the prices: they cannot be negative and volume pricing starts at 2 units',
+  'priceLists.duplicateRules': 'There are duplicate rules for the same category',
+  'priceLists.updated': 'Price list updated',
+  'priceLists.created': 'Price list created',
+  'priceLists.saveError': 'Error saving the price list',
+  'priceLists.activated': 'List activated',
+  'priceLists.deactivated': 'List deactivated',
+  'priceLists.toggleError': 'Error changing status',
+  'priceLists.confirmDelete': 'Delete the list "{name}"? Customers using it will move to the default list.',
+  'priceLists.deleted': 'Price list deleted',
+  'priceLists.deleteError': 'Error deleting the price list',
+  'priceLists.subtitle': 'Retail, wholesale and employee prices, assigned per customer',
+  'priceLists.new': 'New list',
+  'priceLists.empty': 'There are no price lists: every customer buys at the product sale price',
+  'priceLists.default': 'Default',
+  'priceLists.category': 'Category',
+  'priceLists.everything': 'Everything',
+  'priceLists.noRules': 'No percentage rules',
+  'priceLists.fixedCount': '{count} fixed prices',
+  'priceLists.volumeCount': '{count} volume prices',
+  'priceLists.editTitle': 'Edit price list',
+  'priceLists.newTitle': 'New price list',
+  'priceLists.namePlaceholder': 'e.g. Wholesale',
+  'priceLists.descriptionPlaceholder': 'e.g. Restaurants and resellers',
+  'priceLists.isDefault': 'Default list (customers without a list and walk-in customers)',
+  'priceLists.rules': 'Percentage rules',
+  'priceLists.rulesHint': 'Applied to the sale price. The product category rule overrides the general one; negative = surcharge',
+  'priceLists.allProducts': 'All products',
+  'priceLists.addRule': 'Add rule',
+  'priceLists.fixedPrices': 'Fixed prices per product',
+  'priceLists.salePrice': 'sale {price}',
+  'priceLists.addProduct': '+ Add product...',
+  'priceLists.volumePrices': 'Volume prices',
+  'priceLists.volumeHint': 'Unit price from a given quantity of the product on the same ticket (e.g. 12+ units)',
+  'priceLists.listPrice': 'list {price}',
+  'priceLists.from': 'From',
+  'priceLists.unitsAt': 'units at',
+  'priceLists.addVolume': '+ Add volume price...',
+
+  // Users
+  'users.loadError': 'Error loading users',
+  'users.confirmDelete': 'Delete the user "{name}"?',
+  'users.deleted': 'User deleted',
+  'users.deleteError': 'Error deleting user',
+  'users.usernameRequired': 'The username is required',
+  'users.usernameFormat': 'The username can only contain letters, numbers and underscores',
+  'users.emailRequired': 'The email is required',
+  'users.passwordRequired': 'The password is required',
+  'users.passwordLength': 'The password must be at least 6 characters',
+  'users.pinFormat': 'The PIN must have 4 to 6 digits',
+  'users.roleRequired': 'You must select a role',
+  'users.updated': 'User updated',
+  'users.created': 'User created',
+  'users.saveError': 'Error saving user',
+  'users.subtitle': 'Manage users and permissions',
+  'users.new': 'New user',
+  'users.edit': 'Edit user',
+  'users.search': 'Search users...',
+  'users.empty': 'No users found',
+  'users.noRole': 'No role',
+  'users.username': 'Username *',
+  'users.email': 'Email *',
+  'users.passwordOptional': 'Password (optional)',
+  'users.passwordRequiredLabel': 'Password *',
+  'users.pinConfigured': 'Supervisor PIN (set)',
+  'users.pinOptional': 'Supervisor PIN (optional)',
+  'users.pinPlaceholder': '4 to 6 digits',
+  'users.role': 'Role *',
+  'users.moduleAccess': 'Module access for the selected role:',
+  'users.isActive': 'Active user',
+
+  // Customers
+  'customers.pointsHistoryError': 'Error loading the points history',
+  'customers.negativeAdjust': 'The adjustment leaves a negative balance',
+  'customers.adjustSaved': 'Points adjustment recorded',
+  'customers.adjustError': 'Error adjusting the points',
+  'customers.pointsOf': 'Points for {name}',
+  'customers.pointsWorth': '{points} points · worth {amount}',
+  'customers.tierName': 'Tier {name}',
+  'customers.pointsExpiring': '{points} points expire on {date}',
+  'customers.noPointsTransactions': 'No points transactions',
+  'customers.expiresOn': 'expires {date}',
+  'customers.balanceAfter': 'Balance {points}',
+  'customers.manualAdjust': 'Manual adjustment',
+  'customers.pointsPlaceholder': '+/- points',
+  'customers.adjustReason': 'Adjustment reason',
+  'customers.adjust': 'Adjust',
+  'customers.loadError': 'Error loading customers',
+  'customers.confirmDeactivate': 'Deactivate the customer "{name}"? The customer will be marked as inactive.',
+  'customers.deactivated': 'Customer deactivated',
+  'customers.deactivateError': 'Error deactivating customer',
+  'customers.documentDigitsOnly': 'The document number must contain only digits',
+  'customers.documentLength': 'The document number must have 6 to 15 digits',
+  'customers.phoneDigitsOnly': 'The phone must contain only digits',
+  'customers.phoneLength': 'The phone must have 7 to 15 digits',
+  'customers.updated': 'Customer updated',
+  'customers.created': 'Customer created',
+  'customers.saveError': 'Error saving customer',
+  'customers.subtitle': 'Manage your customer base',
+  'customers.new': 'New customer',
+  'customers.edit': 'Edit customer',
+  'customers.search': 'Search by name, document or phone...',
+  'customers.empty': 'No customers found',
+  'customers.document': 'Document',
+  'customers.points': 'Points',
+  'customers.pointsHistory': 'Points history',
+  'customers.documentType': 'Doc. type',
+  'customers.passport': 'Passport',
+  'customers.documentNumber': 'Document number',
+  'customers.creditLimit': 'Credit limit',
+  'customers.priceList': 'Price list',
+  'customers.defaultPriceList': '{name} (default)',
+  'customers.salePrice': 'Sale price',
+
+  // Invoices
+  'invoices.return': 'Return',
+  'invoices.invoiceNumberTitle': 'Invoice {number}',
+  'invoices.sold': 'Sold: {quantity}',
+  'invoices.returned': 'Returned: {quantity}',
+  'invoices.restock': 'Return to inventory',
+  'invoices.waste': 'Waste',
+  'invoices.restocked': 'Restocked',
+  'invoices.wasteLine': '{name} (waste)',
+  'invoices.refundMethod': 'Refund method',
+  'invoices.reasonPlaceholder': 'e.g. defective product',
+  'invoices.refundTotal': 'Total to refund (estimated)',
+  'invoices.issueCreditNote': 'Issue credit note',
+  'invoices.loadError': 'Error loading invoices',
+  'invoices.completed': 'Completed',
+  'invoices.voidedStatus': 'Voided',
+  'invoices.detailError': 'Error loading details',
+  'invoices.creditNoteIssued': 'Credit note {number} issued',
+  'invoices.returnError': 'Error recording the return',
+  'invoices.voidDescription': 'Void invoice {number} for {total}: {reason}',
+  'invoices.voided': 'Invoice voided',
+  'invoices.voidError': 'Error voiding invoice',
+  'invoices.invalidXml': 'Invalid XML: {error}',
+  'invoices.xmlError': 'Error generating the XML',
+  'invoices.dianSent': 'Invoice {number} sent: {status}',
+  'invoices.dianSendError': 'Error sending to the DIAN',
+  'invoices.noneInRange': 'There are no invoices in the selected range',
+  'invoices.xmlWithErrors': '{count} XML generated, {errors} with errors (see errores.txt)',
+  'invoices.xmlGenerated': '{count} XML generated',
+  'invoices.exportError': 'Error exporting invoices',
+  'invoices.subtitle': 'Sales and transaction history',
+  'invoices.activeTab': 'Active',
+  'invoices.voidedTab': 'Voided',
+  'invoices.search': 'Search by number or customer...',
+  'invoices.exportDian': 'Export DIAN XML',
+  'invoices.empty': 'No invoices found',
+  'invoices.number': 'Invoice no.',
+  'invoices.customerInfo': 'Customer information',
+  'invoices.phoneValue': 'Phone: {phone}',
+  'invoices.emailValue': 'Email: {email}',
+  'invoices.documentValue': 'Document: {document}',
+  'invoices.priceListValue': 'Price list: {name}',
+  'invoices.productDetail': 'Product details',
+  'invoices.lineDiscount': 'Disc. -{amount}',
+  'invoices.priceChanged': 'Price changed: {from} → {to}',
+  'invoices.coupon': 'Coupon {code}',
+  'invoices.serviceCharge': 'Voluntary service ({percent}%)',
+  'invoices.taxBase': '{label} (base {base})',
+  'invoices.taxes': 'Taxes',
+  'invoices.tipOutside': 'Tip (outside the total)',
+  'invoices.received': 'Received',
+  'invoices.change': 'Change',
+  'invoices.creditNotes': 'Credit notes',
+  'invoices.printCreditNote': 'Print credit note',
+  'invoices.refundValue': 'Refund: {method}',
+  'invoices.electronic': 'Electronic invoice',
+  'invoices.sendDian': 'Send to the DIAN',
+  'invoices.exportHint': 'Builds a ZIP with the UBL 2.1 XML of each invoice in the range. Voided invoices are skipped',
+  'invoices.downloadZip': 'Download ZIP',
+  'invoices.voidTitle': 'Void invoice',
+  'invoices.confirmVoid': 'Are you sure you want to void the invoice',
+
+  // Products
+  'products.modifiers': 'Modifiers',
+  'products.addGroup': 'Add group',
+  'products.noModifiers': 'No modifiers. e.g. Size, Add-ons, Meat doneness.',
+  'products.groupName': 'Group name (e.g. Add-ons)',
+  'products.required': 'Required',
+  'products.min': 'Min',
+  'products.max': 'Max',
+  'products.noLimit': '0 = no limit',
+  'products.optionName': 'Option (e.g. Extra cheese)',
+  'products.priceDelta': 'Extra charge',
+  'products.addOption': '+ Add option',
+  'products.loadError': 'Error loading products',
+  'products.confirmDelete': 'Delete the product "{name}"?',
+  'products.deleted': 'Product deleted',
+  'products.deleteError': 'Error deleting product',
+  'products.quantityPositive': 'The quantity must be greater than 0',
+  'products.notEnoughStock': 'There is not enough stock available',
+  'products.stockAdded': 'Stock added',
+  'products.stockRemoved': 'Stock removed',
+  'products.adjustError': 'Error adjusting stock',
+  'products.imageUploaded': 'Image uploaded',
+  'products.imageError': 'Error uploading image',
+  'products.categoryRequired': 'You must select a category',
+  'products.updated': 'Product updated',
+  'products.created': 'Product created',
+  'products.saveError': 'Error saving product',
+  'products.subtitle': 'Manage your product catalog',
+  'products.new': 'New product',
+  'products.edit': 'Edit product',
+  'products.search': 'Search by name or code...',
+  'products.categoryFilter': 'Category:',
+  'products.allCategories': 'All',
+  'products.statusFilter': 'Status:',
+  'products.activeFilter': 'Active',
+  'products.inactiveFilter': 'Inactive',
+  'products.clearFilters': 'Clear filters',
+  'products.count': '{count} product(s)',
+  'products.empty': 'No products found',
+  'products.code': 'Code',
+  'products.product': 'Product',
+  'products.category': 'Category',
+  'products.cost': 'Cost',
+  'products.salePrice': 'Sale price',
+  'products.margin': 'Margin',
+  'products.stock': 'Stock',
+  'products.openPrice': 'Open price',
+  'products.stockOut': 'Stock out',
+  'products.stockIn': 'Stock in',
+  'products.codePlaceholder': 'Auto (e.g. PRD-0001)',
+  'products.barcode': 'Barcode',
+  'products.categoryLabel': 'Category *',
+  'products.saleUnit': 'Sale unit',
+  'products.unitUnd': 'Unit (UND)',
+  'products.unitKg': 'Kilogram (KG) - sold by weight',
+  'products.tax': 'Tax',
+  'products.costPrice': 'Cost price',
+  'products.salePriceReference': 'Sale price (reference)',
+  'products.openPriceHint': 'The cashier types the price when selling it (misc, repairs, catering)',
+  'products.image': 'Product image',
+  'products.uploadImage': 'Upload image',
+  'products.or': 'or',
+  'products.imageUrl': 'Image URL...',
+  'products.imageFormats': 'JPG, PNG, GIF, WebP. Max 5MB',
+  'products.stockSettings': 'Stock settings',
+  'products.initialStock': 'Initial stock',
+  'products.currentStock': 'Current stock',
+  'products.minStock': 'Minimum stock',
+  'products.maxStock': 'Maximum stock',
+  'products.adjustHint': '💡 You can also adjust stock from the products table with the +/- buttons',
+  'products.stockInTitle': 'Stock in',
+  'products.stockOutTitle': 'Stock out',
+  'products.currentStockLabel': 'Current stock:',
+  'products.reasonOptional': 'Reason (optional)',
+  'products.reasonPlaceholder': 'Adjustment reason...',
+  'products.remove': 'Remove',
+
+  // Settings
+  'settings.portAuthorized': 'Port authorized',
+  'settings.portError': 'Could not open the port',
+  'settings.testSent': 'Test receipt sent',
+  'settings.printerNoResponse': 'The printer did not respond',
+  'settings.shortcutReserved': '{shortcut} is reserved for the command palette',
+  'settings.shortcutTaken': '{shortcut} is already assigned to "{action}"',
+  'settings.reasonExists': 'That reason already exists',
+  'settings.percentExists': 'That percentage already exists',
+  'settings.phoneInvalid': 'Phone must contain only numbers',
+  'settings.taxIdInvalid': 'Tax ID must contain only numbers and hyphens',
+  'settings.taxRateInvalid': 'The rate must be between 0 and 100',
+  'settings.imageRequired': 'Please select an image file',
+  'settings.imageTooLarge': 'The file must be smaller than 2MB',
+  'settings.logoUpdated': 'Logo updated successfully',
+  'settings.imageLoadError': 'Error loading the image',
+  'settings.logoRemoved': 'Logo removed',
+  'settings.fixErrors': 'Fix the errors before saving',
+  'settings.saved': 'Settings saved on the server',
+  'settings.saveError': 'Error saving settings on the server',
+  'settings.subtitle': 'Customize your POS system',
+  'settings.savedButton': 'Saved',
+  'settings.saveChanges': 'Save Changes',
+  'settings.companyInfo': 'Company Information',
+  'settings.businessName': 'Business Name',
+  'settings.legalName': 'Legal Name',
+  'settings.optional': 'Optional',
+  'settings.taxIdPlaceholder': 'E.g. 900123456-1',
+  'settings.themeTitle': 'Theme and Colors',
+  'settings.themeReset': 'Colors restored to defaults',
+  'settings.restore': 'Restore',
+  'settings.primaryColor': 'Primary Color',
+  'settings.primaryColorHint': 'Main interface color',
+  'settings.secondaryColor': 'Secondary Color',
+  'settings.secondaryColorHint': 'Accent and detail color',
+  'settings.backgroundColor': 'Background Color',
+  'settings.backgroundColorHint': 'Application background color',
+  'settings.cardColor': 'Card Color',
+  'settings.cardColorHint': 'Background color of cards and sections',
+  'settings.sidebarColor': 'Sidebar Color',
+  'settings.sidebarColorHint': 'Side navigation menu color',
+  'settings.invoicing': 'Invoicing',
+  'settings.currency': 'Currency',
+  'settings.currencyCOP': 'COP - Colombian Peso',
+  'settings.currencyUSD': 'USD - US Dollar',
+  'settings.currencyEUR': 'EUR - Euro',
+  'settings.foreignCurrencies': 'Foreign currencies accepted in cash',
+  'settings.foreignCurrenciesHint': 'A supervisor sets the daily rate in the Cash Register; change is given in {currency}',
+  'settings.taxRate': 'Tax Rate (%)',
+  'settings.taxRateHint': 'Used for products without their own rate',
+  'settings.pricesIncludeTax': 'Prices include tax',
+  'settings.pricesIncludeTaxHint': 'If disabled, tax is added to the sale price at checkout',
+  'settings.businessType': 'Business Type',
+  'settings.businessGeneral': 'General',
+  'settings.businessRestaurant': 'Restaurant',
+  'settings.businessHardware': 'Hardware Store',
+  'settings.businessPharmacy': 'Pharmacy',
+  'settings.businessSupermarket': 'Supermarket',
+  'settings.receiptTemplate': 'Receipt Template',
+  'settings.receiptHeader': 'Header',
+  'settings.logoMissing': 'Upload a logo in the Logo section to show it on the receipt',
+  'settings.headerTextPlaceholder': 'Additional header text (opening hours, social media, tax regime...)',
+  'settings.receiptBody': 'Sale fields',
+  'settings.receiptFooter': 'Footer',
+  'settings.legalTextPlaceholder': 'Legal text: DIAN Resolution No. 18760000001 of 2024-01-01, range FV-1 to FV-5000, valid for 24 months',
+  'settings.footerPlaceholder': 'Thank you for your purchase!',
+  'settings.legalTextHint': 'Legal text is not printed on pre-bills',
+  'settings.receiptPreview': 'Receipt preview',
+  'settings.dianTitle': 'DIAN Electronic Invoicing',
+  'settings.dianHint': 'UBL 2.1 XML, CUFE and QR on the receipt. Signing and submission are done by the invoicing service',
+  'settings.enabledFeminine': 'Enabled',
+  'settings.dianCheckDigit': 'The tax ID has no check digit; the calculated one will be used: {nit}-{dv}',
+  'settings.dianEnvironment': 'Environment',
+  'settings.resolutionNumber': 'Resolution No.',
+  'settings.resolutionDate': 'Resolution date',
+  'settings.prefix': 'Prefix',
+  'settings.prefixPlaceholder': 'E.g. SETP',
+  'settings.rangeFrom': 'Range from',
+  'settings.rangeTo': 'Range to',
+  'settings.validFrom': 'Valid from',
+  'settings.validTo': 'Valid to',
+  'settings.technicalKey': 'Technical key',
+  'settings.softwareId': 'Software ID',
+  'settings.softwarePin': 'Software PIN',
+  'settings.taxLevelCode': 'Tax responsibilities',
+  'settings.municipalityCode': 'DANE municipality code',
+  'settings.department': 'Department',
+  'settings.departmentCode': 'Department code',
+  'settings.dianNumbering': 'The POS invoice number is issued with the resolution prefix (FV-000123 → {prefix}123)',
+  'settings.prefixExample': 'PREFIX',
+  'settings.loyaltyTitle': 'Loyalty Program',
+  'settings.loyaltyHint': 'Customers earn points with every paid invoice and redeem them as a discount at the POS',
+  'settings.amountPerPoint': 'Amount per point',
+  'settings.pointValue': 'Value of one point ($)',
+  'settings.minRedeem': 'Minimum to redeem',
+  'settings.maxRedeemPercent': 'Maximum of total (%)',
+  'settings.expirationMonths': 'Expire after (months)',
+  'settings.loyaltyExample': 'A purchase of {amount} earns 100 points, worth {value} when redeemed',
+  'settings.loyaltyExpires': ' and expire {months} months after being earned',
+  'settings.loyaltyNoExpiry': '; points do not expire',
+  'settings.tiers': 'Tiers',
+  'settings.tiersHint': 'Based on points earned in the last 12 months; the multiplier increases earning',
+  'settings.tierName': 'Tier name',
+  'settings.tierMinPoints': 'Minimum points',
+  'settings.tierPoints': 'pts ×',
+  'settings.tierMultiplier': 'Multiplier',
+  'settings.removeTier': 'Remove tier',
+  'settings.addTier': 'Add tier',
+  'settings.excludedCategories': 'Categories that do not earn points',
+  'settings.discountReasons': 'Discount Reasons',
+  'settings.discountReasonsHint': 'The cashier must choose one of these reasons when applying a discount to a cart item',
+  'settings.removeReason': 'Remove reason',
+  'settings.noReasons': 'Without configured reasons, item discounts cannot be applied',
+  'settings.newReason': 'New reason...',
+  'settings.maxDiscount': 'Maximum discount without authorization',
+  'settings.maxDiscountHint': 'Above this percentage, a cashier without discount permission needs a supervisor PIN',
+  'settings.giftCardValidity': 'Gift card validity',
+  'settings.giftCardValidityHint': 'Suggested expiration when selling a card; 0 for no expiration',
+  'settings.months': 'months',
+  'settings.tipsTitle': 'Service and Tips',
+  'settings.serviceCharge': 'Suggested voluntary service charge',
+  'settings.serviceChargeHint': 'By law it cannot exceed {max}% and the customer may decline it; the cashier must ask before including it',
+  'settings.suggestedTips': 'Suggested tips',
+  'settings.suggestedTipsHint': 'Buttons offered at checkout. Tips do not count as sales and go to the waiter or are shared among staff',
+  'settings.removePercent': 'Remove percentage',
+  'settings.newPercent': 'New %...',
+  'settings.shortcutsTitle': 'Keyboard Shortcuts',
+  'settings.shortcutsHint': 'Point of sale shortcuts for {name}. Click a shortcut and press the new key',
+  'settings.thisUser': 'this user',
+  'settings.pressKey': 'Press a key...',
+  'settings.changeShortcut': 'Change shortcut',
+  'settings.resetShortcuts': 'Reset shortcuts',
+  'settings.printerTitle': 'Receipt Printer',
+  'settings.printerHint': 'Applies to this device only. ESC/POS prints without a dialog; if the printer fails the browser is used',
+  'settings.printerOutput': 'Output',
+  'settings.paperWidth': 'Paper width',
+  'settings.bridgeUrl': 'Bridge URL',
+  'settings.baudRate': 'Speed (baud)',
+  'settings.choosePort': 'Choose port',
+  'settings.openDrawer': 'Open cash drawer on cash sales',
+  'settings.printTest': 'Print test',
+  'settings.tableSettings': 'Table Settings',
+  'settings.tableSettingsHint': 'Customize the restaurant table zones and statuses',
+  'settings.configureZones': 'Configure Zones and Statuses',
+  'settings.companyLogo': 'Company Logo',
+  'settings.logoAlt': 'Company logo',
+  'settings.removeLogo': 'Remove logo',
+  'settings.changeLogo': 'Change logo',
+  'settings.dropLogo': 'Drag your logo here or',
+  'settings.uploading': 'Uploading...',
+  'settings.selectFile': 'Select File',
+  'settings.logoFormats': 'PNG, JPG up to 2MB',
+
+  // Sale (tables and POS)
+  'sale.customerOptional': 'Customer (optional)',
+  'sale.searchCustomer': 'Search customer by name or document...',
+  'sale.createCustomer': 'Create New Customer',
+  'sale.points': '{points} pts',
+  'sale.searchProduct': 'Search product...',
+  'sale.itemNotesPlaceholder': 'E.g. no onion, extra sauce...',
+  'sale.extraDiscount': 'Additional discount (%)',
+  'sale.discountPercent': 'Discount ({percent}%)',
+  'sale.serviceCharge': 'Voluntary service charge ({percent}%)',
+  'sale.delivery': 'Delivery',
+  'sale.deliveryCharge': 'Delivery Charge',
+  'sale.totalToPay': 'Total to pay',
+  'sale.totalWithTip': 'Total with tip',
+  'sale.confirmPayment': 'Confirm Payment',
+  'sale.paymentIncomplete': 'The payment does not cover the bill total',
+  'sale.customerCreated': 'Customer created and selected',
+  'sale.customerCreateError': 'Error creating customer',
+  'sale.customerNamePlaceholder': 'Customer name',
+  'sale.phoneOptional': 'Phone (optional)',
+  'sale.createAndSelect': 'Create and Select',
+  'sale.paymentCompleted': 'Payment Completed',
+  'sale.invoiceNumber': 'Invoice No. {number}',
+  'sale.method': 'Method',
+  'sale.change': 'Change',
+  'sale.printInvoice': 'Print Invoice',
+  'sale.closeWithoutPrinting': 'Close without Printing',
+
+  // Tables
+  'tables.status.available': 'Available',
+  'tables.status.occupied': 'Occupied',
+  'tables.status.reserved': 'Reserved',
+  'tables.status.outOfService': 'Out of service',
+  'tables.loadError': 'Error loading tables',
+  'tables.opened': 'Table #{number} opened',
+  'tables.openError': 'Error opening table',
+  'tables.itemsAdded': '{count} product(s) added',
+  'tables.addItemsError': 'Error adding products',
+  'tables.removeItemDescription': 'Remove {quantity} x {product} (already sent to kitchen) from table #{number}',
+  'tables.reference': 'Table {number}',
+  'tables.itemRemoved': 'Product removed',
+  'tables.removeItemError': 'Error removing product',
+  'tables.updated': 'Table updated',
+  'tables.updateError': 'Error updating table',
+  'tables.cannotDeleteOccupied': 'An occupied table cannot be deleted',
+  'tables.confirmDelete': 'Delete Table #{number}?',
+  'tables.deleted': 'Table deleted',
+  'tables.deleteError': 'Error deleting table',
+  'tables.reopenDescription': 'Reopen the paid bill of table #{number}: {reason}',
+  'tables.reopened': 'Table #{number} reopened',
+  'tables.reopenError': 'Error reopening the table',
+  'tables.discountDescription': '{percent}% discount on the bill of table #{number}',
+  'tables.paid': 'Table #{number} paid successfully',
+  'tables.payError': 'Error paying table',
+  'tables.preBillNumber': 'PRE-BILL',
+  'tables.zoneRequired': 'You must specify a zone',
+  'tables.created': 'Table created successfully',
+  'tables.createError': 'Error creating table',
+  'tables.occupiedCount': '{occupied} occupied of {total} tables',
+  'tables.newTable': 'New Table',
+  'tables.allZones': 'All',
+  'tables.tableNumber': 'Table #{number}',
+  'tables.editTable': 'Edit table',
+  'tables.deleteTable': 'Delete table',
+  'tables.availableTitle': 'Table Available',
+  'tables.capacityPeople': 'Capacity: {count} people',
+  'tables.openTable': 'Open Table',
+  'tables.reopenLast': 'Reopen last paid bill',
+  'tables.waiter': 'Waiter:',
+  'tables.openedAt': 'Opened:',
+  'tables.guestsColon': 'Guests:',
+  'tables.invoice': 'Invoice:',
+  'tables.order': 'Order',
+  'tables.removeItemTitle': 'Remove (requires authorization)',
+  'tables.noItems': 'No products yet',
+  'tables.confirmRelease': 'Release this table? The session will be closed without charging.',
+  'tables.released': 'Table released successfully',
+  'tables.release': 'Release Table',
+  'tables.markAvailable': 'Mark as Available',
+  'tables.charge': 'Charge Table',
+  'tables.printPreBill': 'Print Pre-bill',
+  'tables.selectTable': 'Select a table',
+  'tables.selectTableHint': 'Click a table to see its details',
+  'tables.openTitle': 'Open Table #{number}',
+  'tables.guests': 'Guests',
+  'tables.notesPlaceholder': 'E.g. birthday, allergy...',
+  'tables.opening': 'Opening...',
+  'tables.addItemsTitle': 'Add Products - Table #{number}',
+  'tables.toAdd': 'To add ({count})',
+  'tables.priority': 'Mark as priority in the kitchen',
+  'tables.priorityReason': 'Reason (optional): e.g. customer in a hurry',
+  'tables.selectProducts': 'Select products',
+  'tables.adding': 'Adding...',
+  'tables.chargeTitle': 'Charge Table #{number}',
+  'tables.reopenTitle': 'Reopen Bill',
+  'tables.reopenWarning': 'The last invoice of table #{number} will be voided and the products return to the table.',
+  'tables.reopenReason': 'Reopening reason *',
+  'tables.reasonPlaceholder': 'Enter the reason...',
+  'tables.reopen': 'Reopen',
+  'tables.tableNumberLabel': 'Table Number *',
+  'tables.nameOptional': 'Name (optional)',
+  'tables.namePlaceholder': 'E.g. VIP Table 1',
+  'tables.capacity': 'Capacity',
+  'tables.zone': 'Zone',
+  'tables.newZone': '+ New zone...',
+  'tables.newZoneName': 'New zone name',
+  'tables.creating': 'Creating...',
+  'tables.createTable': 'Create Table',
+  'tables.editTitle': 'Edit Table',
+
+  // Point of sale
+  'pos.saleCompleted': 'Sale Completed!',
+  'pos.savedOffline': 'Saved offline · pending sync',
+  'pos.customerColon': 'Customer:',
+  'pos.methodColon': 'Method:',
+  'pos.itemsColon': 'Items:',
+  'pos.productCount': '{count} products',
+  'pos.totalColon': 'Total:',
+  'pos.creditBalance': 'Balance on credit:',
+  'pos.selectCustomer': 'Select Customer',
+  'pos.searchCustomer': 'Search by name, document or phone...',
+  'pos.noCustomerData': 'No customer data',
+  'pos.noCustomers': 'No customers found',
+  'pos.parkedTickets': 'Parked Tickets',
+  'pos.resumeWarning': 'When you resume a ticket, the current sale will be parked automatically.',
+  'pos.noParkedTickets': 'No parked tickets',
+  'pos.parkedSummary': '{count} products • {total} • {time}',
+  'pos.resume': 'Resume',
+  'pos.viewCompact': 'Compact view',
+  'pos.viewNormal': 'Normal view',
+  'pos.viewLarge': 'Large view',
+  'pos.organizeCategories': 'Organize categories',
+  'pos.organize': 'Organize',
+  'pos.taxIncluded': ' included',
+  'pos.taxBase': '(base {amount})',
+  'pos.discountValueRequired': 'Enter the discount value',
+  'pos.discountPercentTooHigh': 'The percentage cannot exceed 100%',
+  'pos.discountTooHigh': 'The discount cannot exceed the line value',
+  'pos.discountReasonRequired': 'Select the discount reason',
+  'pos.lineDiscount': 'Item discount',
+  'pos.discountPercentType': 'Percentage (%)',
+  'pos.discountAmountType': 'Fixed amount ($)',
+  'pos.discountPercentPlaceholder': 'E.g. 10',
+  'pos.discountAmountPlaceholder': 'E.g. 2000',
+  'pos.configureReasons': 'Set up discount reasons in Settings',
+  'pos.removeDiscount': 'Remove discount',
+  'pos.priceRequired': 'Enter the price',
+  'pos.priceEqualsList': 'The price equals the list price',
+  'pos.priceReasonRequired': 'State the reason for the price change',
+  'pos.changePrice': 'Change price',
+  'pos.listPriceValue': ' · List {price}',
+  'pos.unitPrice': 'Unit price',
+  'pos.priceReasonPlaceholder': 'E.g. price agreed with the customer',
+  'pos.priceAudit': 'The change is recorded under your user for auditing',
+  'pos.lineTotal': 'Line total',
+  'pos.listPrice': 'List price',
+  'pos.coupon': 'Coupon',
+  'pos.removeCoupon': 'Remove coupon',
+  'pos.couponPlaceholder': 'Type or scan the code',
+  'pos.payWith': 'Payment with {method}',
+  'pos.mixedPayment': 'Mixed Payment',
+  'pos.lineDiscounts': 'Item discounts',
+  'pos.discount': 'Discount',
+  'pos.deliveryPlaceholder': 'Delivery amount',
+  'pos.discountPlaceholder': '% discount',
+  'pos.loyaltyPoints': 'Points ({balance} available{tier})',
+  'pos.pointsPlaceholder': 'Points to redeem',
+  'pos.maxPoints': 'Maximum ({points})',
+  'pos.belowMinRedeem': 'The balance does not reach the redemption minimum',
+  'pos.earnedPoints': 'The customer will earn {points} points',
+  'pos.confirmSale': 'Confirm Sale',
+  'pos.ticketParked': 'Ticket parked',
+  'pos.currentSaleParked': 'The current sale was parked',
+  'pos.lineDiscountDescription': 'Discount of {amount} on {product} ({reason})',
+  'pos.orderDiscountDescription': 'Order discount of {percent}% on a sale of {amount}',
+  'pos.outOfStock': 'No stock available for {name}',
+  'pos.productNotFound': 'Product not found: {code}',
+  'pos.weighedItem': '{name} · {quantity} kg',
+  'pos.quantityFirst': 'Type the quantity in the search box before pressing the quantity key',
+  'pos.productUnavailable': 'The product is not available',
+  'pos.categoryOrderSaved': 'Category order saved',
+  'pos.categoryOrderError': 'Could not save the category order',
+  'pos.orderSentToTable': 'Order sent to Table #{number}',
+  'pos.sendToTableError': 'Error sending order to table',
+  'pos.couponApplied': 'Coupon {code} applied',
+  'pos.couponNotFound': 'Coupon not found',
+  'pos.couponError': 'Error validating the coupon',
+  'pos.creditNeedsCustomer': 'Select a customer to sell on credit',
+  'pos.creditLimitExceeded': 'The sale exceeds the available credit of {name} ({amount}). Authorization required',
+  'pos.creditLimitConfirm': 'The credit sale ({amount}) exceeds the available credit of {name} ({available}).\nAuthorize anyway?',
+  'pos.paymentIncomplete': 'The payment does not cover the sale total',
+  'pos.creditNeedsConnection': 'Credit sales require a connection to the server',
+  'pos.giftCardNeedsConnection': 'Gift card payments require a connection to the server',
+  'pos.pointsNeedConnection': 'Redeeming points requires a connection to the server',
+  'pos.couponNeedsConnection': 'Redeeming coupons requires a connection to the server',
+  'pos.saleError': 'Error processing the sale',
+  'pos.savedOfflineToast': 'Offline: the sale was saved and will sync automatically',
+  'pos.noCashSession': 'There is no open cash register on this terminal.',
+  'pos.openCash': 'Open register',
+  'pos.searchProducts': 'Search by name, code or scan...',
+  'pos.pendingQuantityHint': 'Quantity for the next product (click to cancel)',
+  'pos.openCustomerDisplay': 'Open customer display',
+  'pos.shortcutsHint': 'Keyboard shortcuts ({key})',
+  'pos.soldOut': 'Sold out',
+  'pos.stockUnits': '{count} units',
+  'pos.inCart': '{count} in cart',
+  'pos.cart': 'Cart',
+  'pos.park': 'Park',
+  'pos.changeHint': '(change)',
+  'pos.noTable': 'No table (direct sale)',
+  'pos.emptyCart': 'Cart is empty',
+  'pos.priceChanged': 'Price changed (list {price}) · {reason}',
+  'pos.quantityBreak': 'From {quantity} units: {price} each',
+  'pos.stock': 'Stock: {count}',
+  'pos.maxStock': 'Maximum stock reached',
+  'pos.subtotalItems': 'Subtotal ({count} items)',
+  'pos.sendToTable': 'Send to Table #{number}',
+  'pos.cancelSaleConfirm': 'Are you sure you want to cancel this sale? All products in the cart will be lost.',
+  'pos.saleCancelled': 'Sale cancelled',
+  'pos.cancelSale': 'Cancel Sale',
+  'pos.removeParkedConfirm': 'Delete this parked ticket? Its products will be lost.',
+  'pos.parkTitle': 'Park Ticket',
+  'pos.parkLabel': 'Label (optional)',
+  'pos.ticketNumber': 'Ticket {number}',
+
+  // Promotions and coupons
+  'coupons.redemptionsError': 'Error loading redemptions',
+  'coupons.redemptionsTitle': 'Redemptions of {code}',
+  'coupons.redemptionsSummary': '{count} uses · {amount} in discounts',
+  'coupons.notRedeemed': 'The coupon has not been redeemed',
+  'coupons.loadError': 'Error loading coupons',
+  'coupons.invalidValue': 'Enter a valid discount value',
+  'coupons.invalidDates': 'The end date must be after the start date',
+  'coupons.campaignRequired': 'Enter the batch campaign',
+  'coupons.quantityRange': 'The quantity must be between 1 and {max}',
+  'coupons.generated': '{count} coupons generated and exported',
+  'coupons.codeRequired': 'The code is required',
+  'coupons.created': 'Coupon created',
+  'coupons.saveError': 'Error saving coupon',
+  'coupons.activated': 'Coupon activated',
+  'coupons.deactivated': 'Coupon deactivated',
+  'coupons.toggleError': 'Error changing status',
+  'coupons.deleteConfirm': 'Are you sure you want to delete coupon {code}?',
+  'coupons.deleted': 'Coupon deleted',
+  'coupons.deleteError': 'Error deleting coupon',
+  'coupons.validUntil': 'Until {date}',
+  'coupons.validFrom': 'From {date}',
+  'coupons.noExpiry': 'No expiry',
+  'coupons.allCampaigns': 'All campaigns',
+  'coupons.generateBatch': 'Generate batch',
+  'coupons.new': 'New Coupon',
+  'coupons.campaignStats': '{codes} codes · {uses} uses',
+  'coupons.redeemedRate': '{percent}% of codes redeemed',
+  'coupons.loading': 'Loading coupons...',
+  'coupons.empty': 'No coupons created',
+  'coupons.code': 'Code',
+  'coupons.campaign': 'Campaign',
+  'coupons.discount': 'Discount',
+  'coupons.conditions': 'Conditions',
+  'coupons.uses': 'Uses',
+  'coupons.minPurchaseValue': 'Minimum purchase {amount}',
+  'coupons.perCustomer': '{count} per customer',
+  'coupons.redemptions': 'Redemptions',
+  'coupons.cannotDelete': 'A redeemed coupon cannot be deleted; deactivate it instead',
+  'coupons.batchTitle': 'Generate Coupon Batch',
+  'coupons.batchHint': 'Unique codes with the same conditions; downloaded as Excel',
+  'coupons.singleHint': 'Code to type or scan at the POS',
+  'coupons.prefix': 'Prefix',
+  'coupons.prefixPlaceholder': 'E.g. SUMMER',
+  'coupons.codeLabel': 'Code *',
+  'coupons.generateCode': 'Generate code',
+  'coupons.campaignPlaceholder': 'E.g. Mall flyers',
+  'coupons.discountType': 'Discount type',
+  'coupons.valueLabel': 'Value *',
+  'coupons.maxDiscount': 'Maximum discount',
+  'coupons.noCap': 'No cap',
+  'coupons.minPurchase': 'Minimum purchase',
+  'coupons.noMinimum': 'No minimum',
+  'coupons.validFromLabel': 'Valid from',
+  'coupons.validUntilLabel': 'Valid until',
+  'coupons.usesPerCode': 'Uses per code',
+  'coupons.unlimited': 'Unlimited',
+  'coupons.singleUseHint': '1 = single use',
+  'coupons.usesPerCustomer': 'Uses per customer',
+  'coupons.noLimit': 'No limit',
+  'coupons.perCustomerHint': 'Requires selecting the customer in the sale',
+  'coupons.generateCount': 'Generate {count} coupons',
+  'promotions.day.1': 'Mon',
+  'promotions.day.2': 'Tue',
+  'promotions.day.3': 'Wed',
+  'promotions.day.4': 'Thu',
+  'promotions.day.5': 'Fri',
+  'promotions.day.6': 'Sat',
+  'promotions.day.7': 'Sun',
+  'promotions.catalogError': 'Error loading products and categories',
+  'promotions.loadError': 'Error loading promotions',
+  'promotions.datesRequired': 'Dates are required for specific-date promotions',
+  'promotions.scopeRequired': 'Select the products or categories of the promotion',
+  'promotions.payLessThanBuy': 'Units to pay must be fewer than units taken',
+  'promotions.comboRequired': 'The combo needs products and a price',
+  'promotions.timeRangeRequired': 'Enter the start and end time of the time range',
+  'promotions.updated': 'Promotion updated',
+  'promotions.created': 'Promotion created',
+  'promotions.saveError': 'Error saving promotion',
+  'promotions.activated': 'Promotion activated',
+  'promotions.deactivated': 'Promotion deactivated',
+  'promotions.toggleError': 'Error changing status',
+  'promotions.deleteConfirm': 'Are you sure you want to delete this promotion?',
+  'promotions.deleted': 'Promotion deleted',
+  'promotions.deleteError': 'Error deleting promotion',
+  'promotions.categoryNumber': 'Category #{id}',
+  'promotions.allProducts': 'All products',
+  'promotions.everyDay': 'Every day',
+  'promotions.noDays': 'No days',
+  'promotions.title': 'Promotions and Discounts',
+  'promotions.subtitle': 'Product or category discounts, 2x1, combos, happy hour and coupons',
+  'promotions.new': 'New Promotion',
+  'promotions.edit': 'Edit Promotion',
+  'promotions.tabPromotions': 'Promotions',
+  'promotions.tabCoupons': 'Coupons',
+  'promotions.loading': 'Loading promotions...',
+  'promotions.empty': 'No promotions created',
+  'promotions.active': 'Active',
+  'promotions.percentOff': '{percent}% off',
+  'promotions.minPurchaseValue': 'Minimum purchase {amount}',
+  'promotions.formHint': 'Define the promotion parameters',
+  'promotions.basicInfo': 'Basic Information',
+  'promotions.nameLabel': 'Promotion Name *',
+  'promotions.namePlaceholder': 'E.g. Discount Tuesday',
+  'promotions.descriptionPlaceholder': 'Short description of the promotion...',
+  'promotions.imageUrl': 'Image (URL)',
+  'promotions.imageHint': 'Shown on the customer display between sales',
+  'promotions.priority': 'Priority',
+  'promotions.priorityHint': 'Higher = more priority. Each product gets a single promotion',
+  'promotions.rule': 'Rule',
+  'promotions.typeLabel': 'Promotion Type *',
+  'promotions.discountPercent': 'Discount Percentage *',
+  'promotions.buy': 'Take *',
+  'promotions.pay': 'Pay *',
+  'promotions.nxmHint': 'The lowest-priced unit of each group is free',
+  'promotions.secondUnitPercent': 'Second unit discount (%) *',
+  'promotions.comboPrice': 'Combo price *',
+  'promotions.comboProducts': 'Combo products *',
+  'promotions.addProduct': 'Add product',
+  'promotions.appliesTo': 'Applies to',
+  'promotions.productsOrCategories': 'Products or categories',
+  'promotions.addProductOption': '+ Add product...',
+  'promotions.minTicketHint': 'Ticket value before discounts',
+  'promotions.scheduling': 'Scheduling',
+  'promotions.scheduleType': 'Schedule Type *',
+  'promotions.scheduleDaily': '🌐 Daily (Every day)',
+  'promotions.scheduleWeekly': '📅 Weekly (Specific days)',
+  'promotions.scheduleSpecificDate': '📆 Specific Date (Range)',
+  'promotions.selectDays': 'Select the days of the week',
+  'promotions.startDate': 'Start Date *',
+  'promotions.endDate': 'End Date *',
+  'promotions.timeRange': 'Time range (happy hour)',
+  'promotions.timeRangeHint': 'Empty = all day. It can cross midnight (e.g. 22:00 to 02:00)',
+  'promotions.activateNow': '✅ Activate promotion immediately',
+  'promotions.keepInactive': '⏸️ Keep promotion inactive',
+  'promotions.inactiveHint': 'Inactive promotions will not apply until you activate them manually',
+
+  // Inventory
+  'inventory.loadError': 'Error loading inventory',
+  'inventory.outOfStock': 'Out of stock',
+  'inventory.lowStock': 'Low stock',
+  'inventory.normal': 'Normal',
+  'inventory.quantityPositive': 'The quantity must be greater than 0',
+  'inventory.productNotFound': 'Product not found',
+  'inventory.stockAdded': 'Stock added successfully',
+  'inventory.notEnoughStock': 'Not enough stock available',
+  'inventory.stockRemoved': 'Stock reduced successfully',
+  'inventory.adjustError': 'Error adjusting inventory',
+  'inventory.productLoadError': 'Error loading product data',
+  'inventory.templateDownloaded': 'Template downloaded',
+  'inventory.emptyFile': 'The file is empty',
+  'inventory.imported': '{count} products imported successfully',
+  'inventory.importFailed': '{count} products could not be imported',
+  'inventory.readError': 'Error reading the Excel file',
+  'inventory.categoryRequired': 'You must select a category',
+  'inventory.productUpdated': 'Product updated successfully',
+  'inventory.productUpdateError': 'Error updating product',
+  'inventory.subtitle': 'Stock control and management',
+  'inventory.template': 'Template',
+  'inventory.import': 'Import',
+  'inventory.totalProducts': 'Total products',
+  'inventory.search': 'Search by code or name...',
+  'inventory.filter': 'Filter',
+  'inventory.categoryFilter': 'Category:',
+  'inventory.allCategories': 'All',
+  'inventory.statusFilter': 'Status:',
+  'inventory.clearFilters': 'Clear filters',
+  'inventory.empty': 'No products found',
+  'inventory.code': 'Code',
+  'inventory.product': 'Product',
+  'inventory.currentStock': 'Current Stock',
+  'inventory.min': 'Minimum',
+  'inventory.max': 'Maximum',
+  'inventory.location': 'Location',
+  'inventory.editProduct': 'Edit product',
+  'inventory.stockIn': 'Stock in',
+  'inventory.stockOut': 'Stock out',
+  'inventory.editTitle': 'Edit Product',
+  'inventory.codeLabel': 'Code *',
+  'inventory.barcode': 'Barcode',
+  'inventory.categoryLabel': 'Category *',
+  'inventory.costPrice': 'Cost Price *',
+  'inventory.salePrice': 'Sale Price *',
+  'inventory.image': 'Product Image',
+  'inventory.imagePlaceholder': 'https://example.com/image.jpg',
+  'inventory.stockSettings': 'Stock Settings',
+  'inventory.minStock': 'Minimum Stock',
+  'inventory.maxStock': 'Maximum Stock',
+  'inventory.adjustHint': 'To change the current stock, use the Stock in/Stock out buttons',
+  'inventory.stockInTitle': 'Stock In',
+  'inventory.stockOutTitle': 'Stock Out',
+  'inventory.currentStockValue': 'Current stock: {quantity}',
+  'inventory.reasonOptional': 'Reason (optional)',
+  'inventory.reasonPlaceholder': 'Adjustment reason...',
+  'inventory.remove': 'Remove',
+
+  // Table settings
+  'tableSettings.zone.interior': 'Indoor',
+  'tableSettings.zone.terrace': 'Terrace',
+  'tableSettings.zone.bar': 'Bar',
+  'tableSettings.zone.vip': 'VIP',
+  'tableSettings.zonesSaved': 'Zones saved successfully',
+  'tableSettings.statusesSaved': 'Statuses saved successfully',
+  'tableSettings.zoneNameRequired': 'The zone name is required',
+  'tableSettings.deleteZoneConfirm': 'Delete this zone? Tables in this zone will be left unclassified.',
+  'tableSettings.statusNameRequired': 'The status name is required',
+  'tableSettings.deleteStatusConfirm': 'Delete this status? Tables with this status will be left unclassified.',
+  'tableSettings.restoreConfirm': 'Restore default settings? Custom zones and statuses will be lost.',
+  'tableSettings.restored': 'Settings restored',
+  'tableSettings.title': 'Table Settings',
+  'tableSettings.subtitle': 'Customize table zones and statuses',
+  'tableSettings.restoreDefaults': 'Restore Defaults',
+  'tableSettings.zones': 'Table Zones',
+  'tableSettings.addZone': 'Add Zone',
+  'tableSettings.statuses': 'Table Statuses',
+  'tableSettings.addStatus': 'Add Status',
+  'tableSettings.statusId': 'ID: {id}',
+  'tableSettings.editZone': 'Edit Zone',
+  'tableSettings.newZone': 'New Zone',
+  'tableSettings.zoneName': 'Zone Name',
+  'tableSettings.zoneNamePlaceholder': 'E.g. Main Terrace',
+  'tableSettings.color': 'Color',
+  'tableSettings.color.blue': 'Blue',
+  'tableSettings.color.green': 'Green',
+  'tableSettings.color.purple': 'Purple',
+  'tableSettings.color.yellow': 'Yellow',
+  'tableSettings.color.red': 'Red',
+  'tableSettings.color.pink': 'Pink',
+  'tableSettings.color.indigo': 'Indigo',
+  'tableSettings.color.gray': 'Gray',
+  'tableSettings.editStatus': 'Edit Status',
+  'tableSettings.newStatus': 'New Status',
+  'tableSettings.statusName': 'Status Name',
+  'tableSettings.statusNamePlaceholder': 'E.g. Being Cleaned',
+  'tableSettings.bgColor': 'Background Color',
+  'tableSettings.textColor': 'Text Color',
+  'tableSettings.borderColor': 'Border Color',
+  'tableSettings.preview': 'Preview:',
+
+  // Reports
+  'reports.loadError': 'Error loading reports',
+  'reports.subtitle': 'Analysis and statistics for your business',
+  'reports.totalSales': 'Total Sales',
+  'reports.transactions': 'Transactions',
+  'reports.averageTicket': 'Average Ticket',
+  'reports.netProfit': 'Net Profit',
+  'reports.serviceCharge': 'Voluntary service',
+  'reports.netTotal': 'Net Total',
+  'reports.refunds': 'Refunds (Credit Notes)',
+  'reports.refundsHint': '{count} credit notes · deducted from the Net Total',
+  'reports.giftCards': 'Gift cards',
+  'reports.giftCardsLoaded': '{amount} loaded',
+  'reports.giftCardsHint': 'Liability, not added to sales · {amount} redeemed (already included in sales)',
+  'reports.tips': 'Tips',
+  'reports.tipsHint': 'Not part of sales · settlement in the "{sheet}" Excel sheet',
+  'reports.tipInvoices': '{count} invoices',
+  'reports.foreignCash': 'Foreign currency cash',
+  'reports.foreignCashHint': 'Included in Cash · details in the "{sheet}" Excel sheet',
+  'reports.priceChanges': 'Price changes at checkout',
+  'reports.priceChangesHint': '{count} changes · details in the "{sheet}" Excel sheet',
+  'reports.totalProducts': 'Total Products',
+  'reports.lowStock': 'Low Stock',
+  'reports.outOfStock': 'Out of Stock',
+  'reports.topProducts': '🏆 Best-Selling Products',
+  'reports.noData': 'No data for the period',
+  'reports.units': '{count} units',
+  'reports.topCustomers': '👥 Top Customers',
+  'reports.purchases': '{count} purchases',
+  'reports.paymentMethods': '💳 Payment Methods',
+  'reports.methodTransactions': '{count} transactions ({percent}%)',
+
+  // Application errors
+  'errorBoundary.title': 'Application error',
+  'errorBoundary.message': 'An unexpected error occurred:',
+  'errorBoundary.reload': 'Reload page',
+}
@@ -0,0 +1,1672 @@
+/**
+ * Catálogo base. Las claves se agrupan por pantalla; `{nombre}` marca los valores que
+ * se reemplazan al traducir. Toda clave nueva se agrega aquí y en `en.ts`.
+ */
+export const es = {
+  // Comunes
+  'common.cancel': 'Cancelar',
+  'common.loading': 'Cargando...',
+  'common.noResults': 'Sin resultados',
+  'common.user': 'Usuario',
+  'common.role': 'Rol',
+  'common.password': 'Contraseña',
+  'common.language': 'Idioma',
+  'common.total': 'Total',
+  'common.subtotal': 'Subtotal',
+  'common.refresh': 'Actualizar',
+  'common.all': 'Todos',
+  'common.customer': 'Cliente',
+  'common.generalCustomer': 'Cliente General',
+  'common.date': 'Fecha',
+  'common.status': 'Estado',
+  'common.actions': 'Acciones',
+  'common.paymentMethod': 'Método de Pago',
+  'common.viewDetail': 'Ver detalle',
+  'common.retry': 'Reintentar',
+  'common.pending': 'Pendiente',
+  'common.notesOptional': 'Notas (opcional)',
+  'common.yes': 'Sí',
+  'common.no': 'No',
+  'common.save': 'Guardar',
+  'common.saving': 'Guardando...',
+  'common.nameRequired': 'Nombre *',
+  'common.description': 'Descripción',
+  'common.noDescription': 'Sin descripción',
+  'common.noCustomer': 'Sin cliente',
+  'common.balance': 'Saldo',
+  'common.close': 'Cerrar',
+  'common.statusUpdateError': 'Error al actualizar estado',
+  'common.toggleStatus': 'Cambiar estado',
+  'common.codeValue': 'Código: {code}',
+  'common.stockValue': 'Stock: {quantity}',
+  'common.update': 'Actualizar',
+  'common.create': 'Crear',
+  'common.nameIsRequired': 'El nombre es requerido',
+  'common.productNumber': 'Producto #{id}',
+  'common.userNumber': 'Usuario #{id}',
+  'common.customerNumber': 'Cliente #{id}',
+  'common.active': 'Activo',
+  'common.inactive': 'Inactivo',
+  'common.email': 'Email',
+  'common.keepBlank': 'Dejar vacío para no cambiar',
+  'common.fullNameRequired': 'El nombre completo es requerido',
+  'common.emailInvalid': 'El formato del email no es válido',
+  'common.fullNameLabel': 'Nombre Completo *',
+  'common.phone': 'Teléfono',
+  'common.voidReason': 'Razón de anulación *',
+  'common.reasonPlaceholder': 'Ingrese la razón...',
+  'common.void': 'Anular',
+  'common.print': 'Imprimir',
+  'common.discount': 'Descuento',
+  'common.from': 'Desde',
+  'common.to': 'Hasta',
+  'common.reasonLabel': 'Motivo *',
+  'common.select': 'Seleccionar...',
+  'common.quantityRequired': 'Cantidad *',
+  'common.filters': 'Filtros',
+  'common.address': 'Dirección',
+  'common.city': 'Ciudad',
+  'common.add': 'Agregar',
+  'common.confirm': 'Confirmar',
+  'common.processing': 'Procesando...',
+  'common.unknownError': 'Error desconocido',
+  'common.number': 'Número',
+  'common.accept': 'Aceptar',
+  'common.back': 'Volver',
+  'common.delete': 'Eliminar',
+  'common.apply': 'Aplicar',
+  'common.reason': 'Motivo',
+  'common.activate': 'Activar',
+  'common.deactivate': 'Desactivar',
+  'common.export': 'Exportar',
+
+  // Menú lateral y paleta de comandos
+  'nav.dashboard': 'Dashboard',
+  'nav.pos': 'Punto de Venta',
+  'nav.cashRegister': 'Caja',
+  'nav.tables': 'Mesas',
+  'nav.kitchen': 'Cocina',
+  'nav.products': 'Productos',
+  'nav.categories': 'Categorías',
+  'nav.priceLists': 'Listas de precios',
+  'nav.inventory': 'Inventario',
+  'nav.invoices': 'Facturas',
+  'nav.customers': 'Clientes',
+  'nav.receivables': 'Cartera',
+  'nav.reports': 'Reportes',
+  'nav.giftCards': 'Tarjetas de regalo',
+  'nav.promotions': 'Promociones',
+  'nav.users': 'Usuarios',
+  'nav.roles': 'Roles',
+  'nav.settings': 'Configuración',
+
+  'palette.pages': 'Páginas',
+  'palette.products': 'Productos',
+  'palette.customers': 'Clientes',
+  'palette.tables': 'Mesas',
+  'palette.placeholder': 'Buscar página, producto, cliente o mesa...',
+  'palette.addToCart': '{code} · agregar al carrito',
+  'palette.assignToSale': '{document} · asignar a la venta',
+  'palette.table': 'Mesa {number}',
+
+  // Encabezado
+  'header.title': 'Sistema de Punto de Venta',
+  'header.offlinePending': 'Pendientes',
+  'header.offline': 'Sin conexión',
+  'header.offlinePendingHint': 'Ventas pendientes de sincronizar',
+  'header.offlineHint': 'Sin conexión: las ventas se guardan localmente',
+  'header.notifications': 'Notificaciones',
+  'header.markAllRead': 'Marcar todas',
+  'header.noNotifications': 'Sin notificaciones',
+  'header.now': 'Ahora',
+  'header.minutesAgo': 'Hace {count}m',
+  'header.hoursAgo': 'Hace {count}h',
+  'header.daysAgo': 'Hace {count}d',
+  'header.profile': 'Mi Perfil',
+  'header.logout': 'Cerrar Sesión',
+
+  // Ingreso
+  'login.subtitle': 'Ingresa tus credenciales para continuar',
+  'login.usernamePlaceholder': 'Ingresa tu usuario',
+  'login.passwordPlaceholder': 'Ingresa tu contraseña',
+  'login.usernameRequired': 'El usuario es requerido',
+  'login.passwordRequired': 'La contraseña es requerida',
+  'login.submit': 'Iniciar Sesión',
+
+  // Medios de pago
+  'payment.EFECTIVO': 'Efectivo',
+  'payment.TRANSFERENCIA': 'Transferencia',
+  'payment.NEQUI': 'Nequi',
+  'payment.DAVIPLATA': 'Daviplata',
+  'payment.TARJETA_DEBITO': 'Tarjeta Débito',
+  'payment.TARJETA_CREDITO': 'Tarjeta Crédito',
+  'payment.CREDITO': 'Crédito (fiado)',
+  'payment.TARJETA_REGALO': 'Tarjeta de regalo',
+  'payment.MIXTO': 'Mixto',
+  'payment.foreignDetail': '{amount} a {rate}',
+
+  // Editor de pagos y propinas
+  'tender.payments': 'Pagos',
+  'tender.addPayment': 'Agregar pago',
+  'tender.totalAtRate': 'Total {amount} · tasa {rate}',
+  'tender.rate': 'tasa {rate}',
+  'tender.giftCardPlaceholder': 'Código o escanear',
+  'tender.check': 'Consultar',
+  'tender.balance': 'Saldo {amount}',
+  'tender.giftCardNotFound': 'La tarjeta {code} no existe',
+  'tender.giftCardError': 'Error al consultar la tarjeta',
+  'tender.paid': 'Pagado',
+  'tender.remaining': 'Saldo pendiente',
+  'tender.creditAvailable': 'Cupo disponible',
+  'tender.giftCardPending': 'Consulte el saldo de cada tarjeta de regalo; el monto no puede superarlo',
+  'tender.nonCashExceeds': 'Los pagos electrónicos no pueden superar el total a pagar',
+  'tender.change': 'Cambio',
+  'tender.changeLocal': 'Cambio (moneda local)',
+
+  'tip.title': 'Propina voluntaria',
+  'tip.none': 'Sin propina',
+  'tip.other': 'Otro valor',
+  'tip.amountPlaceholder': 'Valor de la propina',
+  'tip.cardOnly': 'Solo sobre lo que se paga con tarjeta',
+  'tip.removeStaff': 'Quitar del reparto',
+  'tip.splitWith': '+ Repartir con...',
+
+  // Autorización de supervisor
+  'supervisor.title': 'Autorización de supervisor',
+  'supervisor.pin': 'PIN',
+  'supervisor.usernamePlaceholder': 'Usuario del supervisor',
+  'supervisor.authorize': 'Autorizar',
+  'supervisor.approvedBy': 'Autorizado por {name}',
+  'supervisor.rejected': 'Autorización rechazada',
+
+  // Caja
+  'cash.title': 'Caja',
+  'cash.subtitle': 'Apertura, movimientos de efectivo y cierre de turno · Terminal {terminal}',
+  'cash.income': 'Ingreso',
+  'cash.withdrawal': 'Retiro',
+  'cash.incomeTitle': 'Ingreso de efectivo',
+  'cash.withdrawalTitle': 'Retiro de efectivo',
+  'cash.incomeSaved': 'Ingreso registrado',
+  'cash.withdrawalSaved': 'Retiro registrado',
+  'cash.movementError': 'Error al registrar el movimiento',
+  'cash.amount': 'Valor',
+  'cash.reason': 'Motivo',
+  'cash.otherReasonPlaceholder': 'Describa el motivo',
+  'cash.register': 'Registrar',
+  'cash.confirmClose': '¿Cerrar el turno con {amount} contados? Esta acción no se puede deshacer.',
+  'cash.closeError': 'Error al cerrar el turno',
+  'cash.sessionClosed': 'Turno cerrado',
+  'cash.expectedCash': 'Efectivo esperado',
+  'cash.countedCash': 'Efectivo contado',
+  'cash.balanced': 'Cuadrado',
+  'cash.over': 'Sobrante',
+  'cash.short': 'Faltante',
+  'cash.foreignExpectedCounted': '{currency} esperado / contado',
+  'cash.foreignDifference': '{label} {currency}',
+  'cash.printZ': 'Imprimir Z',
+  'cash.finish': 'Finalizar',
+  'cash.closeTitle': 'Cierre de caja',
+  'cash.closeSubtitle': 'Cuente el efectivo del cajón por denominación',
+  'cash.bills': 'Billetes',
+  'cash.coins': 'Monedas',
+  'cash.foreignSeparate': 'Divisas (se cuentan aparte)',
+  'cash.notesPlaceholder': 'Observaciones (opcional)',
+  'cash.totalCounted': 'Total contado',
+  'cash.confirmCount': 'Confirmar conteo y cerrar',
+  'cash.rateTitle': 'Tasa de cambio {currency}',
+  'cash.rateLabel': 'Valor de 1 {currency} para hoy',
+  'cash.rateHint': 'Las cajas solo reciben la divisa con la tasa del día',
+  'cash.saveRate': 'Guardar tasa',
+  'cash.rateAuthDescription': 'Fijar la tasa del {currency} en {rate} para hoy',
+  'cash.rateSaved': 'Tasa del {currency} actualizada',
+  'cash.rateError': 'Error al guardar la tasa de cambio',
+  'cash.opened': 'Caja abierta',
+  'cash.openError': 'Error al abrir la caja',
+  'cash.reportXError': 'Error al generar el reporte X',
+  'cash.summaryLoadError': 'No se pudieron cargar las ventas, devoluciones o tarjetas de regalo del turno. Intente de nuevo.',
+  'cash.todayRates': 'Tasa de cambio del día',
+  'cash.todayRatesHint': 'Efectivo en divisa; el cambio se entrega en {currency}',
+  'cash.noRateToday': 'sin tasa hoy',
+  'cash.fixRate': 'Corregir',
+  'cash.setRate': 'Fijar tasa',
+  'cash.openTitle': 'Abrir caja',
+  'cash.noSession': 'No hay un turno abierto para {name} en esta terminal',
+  'cash.openingFloatLabel': 'Base inicial (efectivo en el cajón)',
+  'cash.openSession': 'Abrir turno',
+  'cash.session': 'Turno',
+  'cash.since': 'Desde {date}',
+  'cash.openingFloat': 'Base inicial',
+  'cash.incomes': 'Ingresos',
+  'cash.withdrawals': 'Retiros',
+  'cash.reportX': 'Reporte X',
+  'cash.closeRegister': 'Cerrar caja',
+  'cash.noMovements': 'Sin movimientos en este turno',
+  'cash.date': 'Fecha',
+  'cash.type': 'Tipo',
+  'cash.nonCashHint': 'Medios de pago distintos a {method} no afectan el efectivo esperado del cajón',
+  'cash.coinShort': 'Mon.',
+  'cash.billShort': 'Bil.',
+
+  // Tiquetes impresos
+  'receipt.defaultCompany': 'Mi Empresa',
+  'receipt.preBillBanner': '*** PRE-CUENTA ***',
+  'receipt.provisionalBanner': '*** TIQUETE PROVISIONAL ***',
+  'receipt.creditNoteBanner': '*** NOTA CRÉDITO ***',
+  'receipt.giftCardBanner': '*** TARJETA DE REGALO ***',
+  'receipt.notFiscal': 'Esta no es una factura fiscal',
+  'receipt.refundRegistered': 'Devolución registrada',
+  'receipt.giftCardBalance': 'Saldo disponible: {amount}',
+  'receipt.giftCardExpires': ' · Vence: {date}',
+  'receipt.pointsEarned': 'Puntos ganados: {points}',
+  'receipt.pointsBalance': 'Saldo de puntos: {points}',
+  'receipt.customer': 'Cliente: {name}',
+  'receipt.generalCustomer': 'Cliente General',
+  'receipt.document': 'Documento: {document}',
+  'receipt.table': 'Mesa: {table}',
+  'receipt.waiter': 'Mesero: {name}',
+  'receipt.cashier': 'Cajero: {name}',
+  'receipt.number': 'N° {number}',
+  'receipt.affectedInvoice': 'Factura afectada: {number}',
+  'receipt.lineDiscount': '* Desc.{reason}: -{amount}',
+  'receipt.taxIncluded': ' incl.',
+  'receipt.taxBase': '{label}{included} (base {base}):',
+  'receipt.taxes': 'Impuestos{included}:',
+  'receipt.subtotal': 'Subtotal:',
+  'receipt.discount': 'Descuento{percent}:',
+  'receipt.serviceCharge': 'Servicio voluntario ({percent}%):',
+  'receipt.deliveryCharge': 'Cargo Domicilio:',
+  'receipt.coupon': 'Cupón {code}:',
+  'receipt.loyaltyRedemption': 'Redención {points} pts:',
+  'receipt.total': 'TOTAL:',
+  'receipt.tip': 'Propina voluntaria:',
+  'receipt.totalPaid': 'Total pagado:',
+  'receipt.refund': 'Reembolso:',
+  'receipt.method': 'Método:',
+  'receipt.received': 'Recibido:',
+  'receipt.change': 'Cambio:',
+  'receipt.provisionalNote': 'Venta registrada sin conexión. La factura se emitirá al sincronizar.',
+  'receipt.electronicInvoice': 'Representación gráfica de la factura electrónica',
+  'receipt.printerError': 'Impresora térmica: {error}.',
+  'receipt.printerNoResponse': 'sin respuesta',
+  'receipt.printInBrowser': 'Imprimir en el navegador',
+  'receipt.printFailed': 'No se pudo imprimir el tiquete',
+  'receipt.titlePreBill': 'Pre-cuenta',
+  'receipt.titleCreditNote': 'Nota crédito',
+  'receipt.titleInvoice': 'Factura',
+  'receipt.previewCustomer': 'Cliente de ejemplo',
+  'receipt.previewCashier': 'Cajero',
+  'receipt.previewTable': 'Mesa 4',
+  'receipt.previewWaiter': 'Mesero',
+  'receipt.previewProduct': 'Producto de ejemplo',
+  'receipt.previewOtherProduct': 'Otro producto',
+  'receipt.previewDiscountReason': 'Cortesía',
+
+  // Reportes X / Z
+  'cashReport.title': 'Reporte {kind} - Turno {session}',
+  'cashReport.banner': '*** REPORTE {kind} ***',
+  'cashReport.closing': 'Cierre de caja',
+  'cashReport.partial': 'Corte parcial',
+  'cashReport.session': 'Turno #{session} · {terminal}',
+  'cashReport.cashier': 'Cajero: {name}',
+  'cashReport.openedAt': 'Apertura: {date}',
+  'cashReport.closedAt': 'Cierre: {date}',
+  'cashReport.cutAt': 'Corte: {date}',
+  'cashReport.sales': 'Ventas ({count}):',
+  'cashReport.tips': 'Propinas (en los pagos):',
+  'cashReport.openingFloat': 'Base inicial:',
+  'cashReport.cashSales': 'Ventas efectivo:',
+  'cashReport.giftCards': 'Tarjetas de regalo:',
+  'cashReport.cashIn': 'Ingresos:',
+  'cashReport.cashOut': 'Retiros:',
+  'cashReport.refunds': 'Devoluciones:',
+  'cashReport.expected': 'ESPERADO:',
+  'cashReport.counted': 'Efectivo contado:',
+  'cashReport.over': 'Sobrante',
+  'cashReport.short': 'Faltante',
+  'cashReport.difference': 'Diferencia',
+  'cashReport.foreignExpected': '{currency} esperado:',
+  'cashReport.foreignCounted': '{currency} contado:',
+  'cashReport.signature': 'Firma cajero: ____________',
+  'cashReport.informative': 'Reporte informativo, el turno sigue abierto',
+
+  // Exportación de reportes a Excel
+  'export.noData': 'No hay datos para exportar',
+  'export.generating': 'Generando Excel...',
+  'export.done': 'Excel exportado correctamente',
+  'export.error': 'Error al exportar Excel',
+  'export.defaultCompany': 'Mi Negocio',
+  'export.fileName': 'reporte_ventas',
+  'export.salesReport': 'REPORTE DE VENTAS',
+  'export.period': 'Período: {start} a {end}',
+  'export.concept': 'Concepto',
+  'export.value': 'Valor',
+  'export.totalSales': 'Ventas Totales',
+  'export.transactions': 'Transacciones',
+  'export.averageTicket': 'Ticket Promedio',
+  'export.totalCost': 'Costo Total',
+  'export.netProfit': 'Ganancia Neta',
+  'export.profitMargin': 'Margen Ganancia %',
+  'export.serviceChargeTotal': 'Total Servicio voluntario',
+  'export.ownerNet': 'Total Neto Dueño',
+  'export.cashClosing': 'CIERRE DE CAJA',
+  'export.invoiced': 'Total Facturado',
+  'export.subtotal': 'Subtotal',
+  'export.taxes': 'Impuestos',
+  'export.discounts': 'Descuentos',
+  'export.byPaymentMethod': 'DESGLOSE POR MÉTODO DE PAGO',
+  'export.cashTotal': 'Total Efectivo',
+  'export.transferTotal': 'Total Transferencia',
+  'export.refunds': 'Devoluciones (Notas Crédito)',
+  'export.netWithRefunds': 'Total Neto con Devoluciones',
+  'export.giftCardsSection': 'TARJETAS DE REGALO (fuera de las ventas)',
+  'export.giftCardsLoaded': 'Cargado en tarjetas (pasivo)',
+  'export.giftCardsRedeemed': 'Redimido (incluido en ventas)',
+  'export.tipsSection': 'PROPINAS (fuera de las ventas)',
+  'export.tipsCollected': 'Propinas cobradas',
+  'export.sheetSummary': 'Resumen',
+  'export.sheetInvoices': 'Facturas',
+  'export.sheetCreditNotes': 'NotasCredito',
+  'export.sheetGiftCards': 'TarjetasRegalo',
+  'export.sheetTips': 'Propinas',
+  'export.sheetForeign': 'Divisas',
+  'export.sheetPriceChanges': 'CambiosPrecio',
+  'export.sheetAuthorizations': 'Autorizaciones',
+  'export.sheetTopProducts': 'TopProductos',
+  'export.sheetTopCustomers': 'TopClientes',
+  'export.date': 'Fecha',
+  'export.number': 'Número',
+  'export.type': 'Tipo',
+  'export.status': 'Estado',
+  'export.customer': 'Cliente',
+  'export.paymentMethod': 'Método Pago',
+  'export.tax': 'Impuesto',
+  'export.discount': 'Descuento',
+  'export.total': 'Total',
+  'export.received': 'Recibido',
+  'export.change': 'Cambio',
+  'export.invoice': 'Factura',
+  'export.reason': 'Motivo',
+  'export.refund': 'Reembolso',
+  'export.products': 'Productos',
+  'export.waste': ' (merma)',
+  'export.card': 'Tarjeta',
+  'export.movement': 'Movimiento',
+  'export.balance': 'Saldo',
+  'export.payment': 'Pago',
+  'export.user': 'Usuario',
+  'export.employee': 'Empleado',
+  'export.invoices': 'Facturas',
+  'export.tips': 'Propinas',
+  'export.totalRow': 'TOTAL',
+  'export.currency': 'Moneda',
+  'export.foreignReceived': 'Recibido en divisa',
+  'export.baseValue': 'Valor en {currency}',
+  'export.product': 'Producto',
+  'export.quantity': 'Cantidad',
+  'export.listPrice': 'Precio Lista',
+  'export.chargedPrice': 'Precio Cobrado',
+  'export.difference': 'Diferencia',
+  'export.action': 'Acción',
+  'export.detail': 'Detalle',
+  'export.reference': 'Referencia',
+  'export.requestedBy': 'Solicitó',
+  'export.approvedBy': 'Autorizó',
+  'export.revenue': 'Ingresos',
+  'export.purchases': 'Compras',
+  'export.totalSpent': 'Total Gastado',
+
+  'export.inventoryFileName': 'inventario',
+  'export.sheetInventory': 'Inventario',
+  'export.code': 'Código',
+  'export.currentStock': 'Stock Actual',
+  'export.minStock': 'Stock Mínimo',
+  'export.maxStock': 'Stock Máximo',
+  'export.location': 'Ubicación',
+  'export.outOfStock': 'Sin stock',
+  'export.lowStock': 'Stock bajo',
+  'export.normalStock': 'Normal',
+  'export.inventoryDone': 'Inventario exportado correctamente',
+
+  'export.sheetCoupons': 'Cupones',
+  'export.campaign': 'Campaña',
+  'export.minPurchase': 'Compra mínima',
+  'export.validFrom': 'Válido desde',
+  'export.validUntil': 'Válido hasta',
+  'export.maxUses': 'Usos permitidos',
+  'export.maxUsesPerCustomer': 'Usos por cliente',
+  'export.used': 'Usados',
+  'export.unlimited': 'Ilimitado',
+  'export.noLimit': 'Sin límite',
+  'export.active': 'Activo',
+  'export.inactive': 'Inactivo',
+
+  // Etiquetas de utilidades (impuestos, promociones, tarjetas, puntos, atajos, cupones)
+  'tax.exempt': 'Exento',
+  'tax.option.IVA': 'IVA {rate}%',
+  'tax.option.INC': 'Impoconsumo {rate}%',
+  'tax.option.EXENTO': 'Exento ({rate}%)',
+  'promotion.type.PORCENTAJE': 'Descuento %',
+  'promotion.type.NXM': 'Lleve N pague M (2x1, 3x2)',
+  'promotion.type.SEGUNDA_UNIDAD': 'Segunda unidad con descuento',
+  'promotion.type.COMBO': 'Combo a precio fijo',
+  'promotion.secondUnit': '2da unidad -{percent}%',
+  'promotion.combo': 'Combo {price}',
+  'giftCard.status.ACTIVA': 'Activa',
+  'giftCard.status.AGOTADA': 'Agotada',
+  'giftCard.status.VENCIDA': 'Vencida',
+  'giftCard.status.ANULADA': 'Anulada',
+  'giftCard.transaction.EMISION': 'Emisión',
+  'giftCard.transaction.RECARGA': 'Recarga',
+  'giftCard.transaction.REDENCION': 'Redención',
+  'giftCard.transaction.REVERSO': 'Reverso',
+  'giftCard.transaction.ANULACION': 'Anulación',
+  'giftCard.expiredError': 'La tarjeta {code} venció el {date}',
+  'giftCard.noBalanceError': 'La tarjeta {code} no tiene saldo',
+  'giftCard.voidedError': 'La tarjeta {code} está anulada',
+  'loyalty.transaction.ACUMULACION': 'Acumulación',
+  'loyalty.transaction.REDENCION': 'Redención',
+  'loyalty.transaction.VENCIMIENTO': 'Vencimiento',
+  'loyalty.transaction.AJUSTE': 'Ajuste',
+  'loyalty.transaction.REVERSO': 'Reverso',
+  'shortcut.search': 'Buscar producto',
+  'shortcut.search.description': 'Lleva el cursor al buscador',
+  'shortcut.customer': 'Cliente',
+  'shortcut.customer.description': 'Abre el selector de cliente',
+  'shortcut.discount': 'Descuento',
+  'shortcut.discount.description': 'Descuento sobre la última línea del carrito',
+  'shortcut.park': 'Poner en espera',
+  'shortcut.park.description': 'Estaciona el ticket actual',
+  'shortcut.pay': 'Cobrar',
+  'shortcut.pay.description': 'Abre el cobro en efectivo',
+  'shortcut.quantity': 'Cantidad',
+  'shortcut.quantity.description': 'Escriba la cantidad en el buscador y pulse la tecla; aplica al siguiente producto',
+  'shortcut.help': 'Ayuda',
+  'shortcut.help.description': 'Muestra esta lista de atajos',
+  'cash.reason.CAMBIO': 'Cambio / sencillo',
+  'cash.reason.REPOSICION': 'Reposición de base',
+  'cash.reason.PROVEEDOR': 'Pago a proveedor',
+  'cash.reason.RETIRO_PARCIAL': 'Retiro parcial',
+  'cash.reason.GASTOS': 'Gastos menores',
+  'cash.reason.PROPINAS': 'Pago de propinas',
+  'cash.reason.OTRO': 'Otro',
+  'coupon.percentMax': '{percent}% (máx. {amount})',
+  'coupon.inactive': 'El cupón {code} está inactivo',
+  'coupon.notYetValid': 'El cupón {code} es válido desde el {date}',
+  'coupon.expired': 'El cupón {code} venció el {date}',
+  'coupon.used': 'El cupón {code} ya fue usado',
+  'coupon.exhausted': 'El cupón {code} agotó sus {uses} usos',
+  'coupon.customerRequired': 'Seleccione el cliente: el cupón tiene límite de usos por cliente',
+  'coupon.customerLimit': 'El cliente ya usó este cupón el máximo de veces',
+  'coupon.minPurchase': 'El cupón requiere una compra mínima de {amount}',
+
+  // Modificadores, impresora, tiquete, divisas y DIAN
+  'modifiers.selectOne': 'Seleccione una opción en "{group}"',
+  'modifiers.selectAtLeast': 'Seleccione al menos {min} opciones en "{group}"',
+  'modifiers.max': 'Máximo {max} opciones en "{group}"',
+  'receiptField.showLogo': 'Logo',
+  'receiptField.showLegalName': 'Razón social',
+  'receiptField.showTaxId': 'NIT',
+  'receiptField.showAddress': 'Dirección',
+  'receiptField.showPhone': 'Teléfono',
+  'receiptField.showCashier': 'Cajero',
+  'receiptField.showCustomerDocument': 'Documento del cliente',
+  'receiptField.showTaxBreakdown': 'Desglose de impuestos',
+  'receiptField.showTable': 'Mesa',
+  'receiptField.showWaiter': 'Mesero',
+  'printer.mode.html': 'Navegador (diálogo de impresión)',
+  'printer.mode.bridge': 'Puente local HTTP',
+  'printer.mode.serial': 'Puerto serie / USB (WebSerial)',
+  'printer.noWebSerial': 'Este navegador no soporta WebSerial',
+  'printer.noPort': 'No hay un puerto serie autorizado. Elíjalo en Configuración',
+  'printer.bridgeStatus': 'El puente de impresión respondió {status}',
+  'printer.browserMode': 'La terminal imprime por el navegador',
+  'printer.testTitle': 'PRUEBA',
+  'printer.testPaper': 'Papel {width}mm · {columns} columnas',
+  'printer.testAccents': 'Tildes',
+  'printer.testLeft': 'Izquierda',
+  'printer.testRight': 'Derecha',
+  'currency.name.USD': 'Dólar Americano',
+  'currency.name.EUR': 'Euro',
+  'dian.environment.2': 'Habilitación (pruebas)',
+  'dian.environment.1': 'Producción',
+  'dian.missingNit': 'Falta el NIT de la empresa',
+  'dian.missingLegalName': 'Falta la razón social de la empresa',
+  'dian.missingResolution': 'Falta el número de resolución de facturación',
+  'dian.missingTechnicalKey': 'Falta la clave técnica de la resolución',
+  'dian.missingSoftware': 'Falta el identificador o el PIN del software',
+  'dian.invalidMunicipality': 'El código DANE del municipio debe tener 5 dígitos',
+  'dian.voided': 'La factura está anulada',
+  'dian.noDetails': 'La factura no tiene detalle de productos',
+  'dian.outOfRange': 'El consecutivo {number} está fuera del rango autorizado ({from} a {to})',
+  'dian.outOfDates': 'La fecha {date} está fuera de la vigencia de la resolución',
+
+  // Modificadores, tarjetas de regalo y atajos
+  'modifiers.subtitle': 'Personalice el producto',
+  'modifiers.required': 'Obligatorio',
+  'modifiers.optional': 'Opcional',
+  'modifiers.addToOrder': 'Agregar al pedido',
+  'giftCardSale.issued': 'Tarjeta {code} emitida: saldo {balance}',
+  'giftCardSale.reloaded': 'Tarjeta {code} recargada: saldo {balance}',
+  'giftCardSale.reloadItem': 'Recarga tarjeta de regalo',
+  'giftCardSale.issueItem': 'Tarjeta de regalo',
+  'giftCardSale.issueError': 'Error al emitir la tarjeta',
+  'giftCardSale.reloadError': 'Error al recargar la tarjeta',
+  'giftCardSale.reloadTitle': 'Recargar tarjeta',
+  'giftCardSale.sellTitle': 'Vender tarjeta de regalo',
+  'giftCardSale.currentBalance': 'Saldo actual {balance}',
+  'giftCardSale.code': 'Código',
+  'giftCardSale.codePlaceholder': 'Escanee la tarjeta física o genere un código',
+  'giftCardSale.generateCode': 'Generar código',
+  'giftCardSale.amount': 'Valor a cargar',
+  'giftCardSale.otherAmount': 'Otro valor',
+  'giftCardSale.expires': 'Vence',
+  'giftCardSale.customer': 'Cliente',
+  'giftCardSale.noCustomer': 'Sin cliente',
+  'giftCardSale.reload': 'Recargar',
+  'giftCardSale.issue': 'Emitir',
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.palette': 'Paleta de comandos',
+  'shortcuts.paletteDescription': 'Ir a cualquier producto, cliente, mesa o página',
+  'shortcuts.changeInSettings': 'Puede cambiar los atajos en Configuración',
+
+  // Pantalla cliente y cocina
+  'display.windowTitle': '{company} - Pantalla cliente',
+  'display.welcome': '¡Bienvenido!',
+  'display.percentOff': '{percent}% de descuento',
+  'display.thanks': '¡Gracias por su compra!',
+  'display.received': 'Recibido',
+  'display.change': 'Cambio',
+  'display.discount': 'Descuento -{amount}',
+  'display.discounts': 'Descuentos',
+  'display.taxes': 'Impuestos',
+  'display.taxesIncluded': 'Impuestos incluidos',
+  'kitchen.status.PENDIENTE': 'Pendiente',
+  'kitchen.status.EN_PREPARACION': 'En Preparación',
+  'kitchen.status.LISTO': 'Listo',
+  'kitchen.loadError': 'Error al cargar pedidos',
+  'kitchen.statusUpdated': 'Estado actualizado: {status}',
+  'kitchen.updateError': 'Error al actualizar estado',
+  'kitchen.startPreparing': 'Iniciar Preparación',
+  'kitchen.markReady': 'Marcar Listo',
+  'kitchen.markDelivered': 'Marcar Entregado',
+  'kitchen.title': 'Cocina',
+  'kitchen.activeOrders': '{count} pedido(s) activo(s)',
+  'kitchen.empty': 'Sin pedidos pendientes',
+  'kitchen.emptyHint': 'Los nuevos pedidos aparecerán automáticamente',
+  'kitchen.table': 'Mesa #{number}',
+  'kitchen.batch': 'Lote #{number}',
+  'kitchen.priority': 'Prioritario',
+  'kitchen.waiter': 'Mesero: {name}',
+  'kitchen.reason': 'Motivo: {reason}',
+
+  // Filtro de fechas y dashboard
+  'dateRange.to': 'a',
+  'dateRange.today': 'Hoy',
+  'dateRange.week': 'Semana',
+  'dateRange.month': 'Mes',
+  'dateRange.year': 'Año',
+  'dashboard.sales': 'Ventas',
+  'dashboard.transactions': 'Transacciones',
+  'dashboard.lowStock': 'Stock Bajo',
+  'dashboard.attention': 'Atención',
+  'dashboard.averageTicket': 'Ticket Promedio',
+  'dashboard.subtitle': 'Resumen de tu negocio',
+  'dashboard.vsYesterday': 'vs ayer',
+  'dashboard.outOfStockCount': '{count} sin stock',
+  'dashboard.lowStockCount': '{count} stock bajo',
+  'dashboard.noAlerts': 'Sin alertas',
+  'dashboard.newSale': 'Nueva Venta',
+  'dashboard.periodSales': 'Ventas del Período',
+  'dashboard.noData': 'No hay datos de ventas disponibles',
+
+  // Ventas offline
+  'offline.title': 'Ventas Offline',
+  'offline.subtitle': 'Ventas registradas sin conexión pendientes de enviar al servidor',
+  'offline.lastAttempt': 'Último intento: {date}',
+  'offline.syncNow': 'Sincronizar ahora',
+  'offline.nothingToSync': 'No hay ventas pendientes por sincronizar',
+  'offline.syncedCount': '{count} venta(s) sincronizada(s)',
+  'offline.serverUnreachable': 'Sin conexión con el servidor',
+  'offline.saleSynced': 'Venta {id} sincronizada',
+  'offline.stillQueued': 'Sin conexión: la venta quedó en cola',
+  'offline.rejected': 'La venta fue rechazada',
+  'offline.retryError': 'Error al reintentar la venta',
+  'offline.discarded': 'Venta descartada',
+  'offline.discardError': 'Error al descartar la venta',
+  'offline.needsReview': 'Requiere revisión',
+  'offline.connection': 'Conexión',
+  'offline.online': 'En línea',
+  'offline.offline': 'Sin conexión',
+  'offline.pending': 'Pendientes',
+  'offline.needReview': 'Requieren revisión',
+  'offline.empty': 'No hay ventas pendientes de sincronizar',
+  'offline.provisionalNumber': 'N° Provisional',
+  'offline.discard': 'Descartar',
+  'offline.sale': 'Venta {id}',
+  'offline.attempts': '{count} intento(s)',
+  'offline.serverRejected': 'El servidor rechazó la venta',
+  'offline.rejectedHint': 'Corrija el problema (p. ej. reactive el producto) y reintente, o descarte la venta y regístrela de nuevo.',
+  'offline.productDetail': 'Detalle de Productos',
+  'offline.reprint': 'Reimprimir',
+  'offline.discardTitle': 'Descartar venta',
+  'offline.discardWarning': 'La venta {id} por {total} se eliminará de la cola y no se registrará en el sistema.',
+  'offline.autoSynced': '{count} venta(s) offline sincronizada(s)',
+  'offline.autoNeedReview': '{count} venta(s) offline requieren revisión',
+  'offline.notFound': 'Venta no encontrada',
+
+  // Cartera
+  'receivables.bucket.current': '0-30 días',
+  'receivables.bucket.days31': '31-60 días',
+  'receivables.bucket.days61': '61-90 días',
+  'receivables.bucket.days90': '+90 días',
+  'receivables.exceedsBalance': 'El abono supera el saldo del cliente',
+  'receivables.paymentSaved': 'Abono registrado',
+  'receivables.paymentError': 'Error al registrar el abono',
+  'receivables.paymentTitle': 'Registrar Abono',
+  'receivables.balanceOf': 'Saldo {amount}',
+  'receivables.limitOf': 'Cupo {amount}',
+  'receivables.openInvoices': 'Facturas abiertas',
+  'receivables.days': '{count} días',
+  'receivables.applied': 'Abono -{amount}',
+  'receivables.amount': 'Valor del abono',
+  'receivables.fullBalance': 'Saldo total',
+  'receivables.oldestFirst': 'El abono se aplica primero a las facturas más antiguas',
+  'receivables.history': 'Abonos anteriores',
+  'receivables.recordPayment': 'Registrar abono',
+  'receivables.loadError': 'Error al cargar la cartera',
+  'receivables.subtitle': 'Ventas a crédito, abonos y antigüedad de saldos por cliente',
+  'receivables.totalDue': 'Total por cobrar',
+  'receivables.searchCustomer': 'Buscar cliente...',
+  'receivables.empty': 'No hay saldos pendientes',
+  'receivables.limit': 'Cupo',
+  'receivables.invoiceCount': '{count} factura(s) · desde {date}',
+  'receivables.overLimit': 'Supera el cupo',
+  'receivables.pay': 'Abonar',
+
+  // Roles
+  'roles.loadError': 'Error al cargar roles',
+  'roles.systemNoDelete': 'No se puede eliminar un rol de sistema',
+  'roles.confirmDelete': '¿Eliminar el rol "{name}"?',
+  'roles.deleted': 'Rol eliminado',
+  'roles.deleteError': 'Error al eliminar rol',
+  'roles.nameRequired': 'El nombre del rol es requerido',
+  'roles.systemNoRename': 'No se puede cambiar el nombre de un rol de sistema',
+  'roles.updated': 'Rol actualizado',
+  'roles.created': 'Rol creado',
+  'roles.saveError': 'Error al guardar rol',
+  'roles.subtitle': 'Control total de roles y módulos',
+  'roles.new': 'Nuevo Rol',
+  'roles.edit': 'Editar Rol',
+  'roles.search': 'Buscar roles...',
+  'roles.empty': 'No se encontraron roles',
+  'roles.modules': 'Módulos',
+  'roles.system': 'Sistema',
+  'roles.descriptionPlaceholder': 'Descripción del rol...',
+  'roles.modulesAndPermissions': 'Módulos y permisos',
+
+  // Página de tarjetas de regalo
+  'giftCards.transactionsError': 'Error al cargar los movimientos',
+  'giftCards.issuedOn': 'Emitida {date}',
+  'giftCards.expiresOn': 'Vence {date}',
+  'giftCards.initialAmount': 'Valor inicial',
+  'giftCards.transactions': 'Movimientos',
+  'giftCards.noTransactions': 'Sin movimientos',
+  'giftCards.balanceAfter': 'Saldo {amount}',
+  'giftCards.loadError': 'Error al cargar las tarjetas de regalo',
+  'giftCards.voided': 'Tarjeta anulada',
+  'giftCards.voidError': 'Error al anular la tarjeta',
+  'giftCards.subtitle': 'Saldos, vencimientos y movimientos de cada tarjeta',
+  'giftCards.sell': 'Vender tarjeta',
+  'giftCards.outstanding': 'Saldo por redimir',
+  'giftCards.activeCount': 'Tarjetas activas',
+  'giftCards.expiredBalance': 'Saldo vencido',
+  'giftCards.search': 'Buscar por código o cliente...',
+  'giftCards.allStatuses': 'Todos los estados',
+  'giftCards.empty': 'No hay tarjetas de regalo',
+  'giftCards.code': 'Código',
+  'giftCards.expires': 'Vence',
+  'giftCards.noExpiry': 'Sin vencimiento',
+  'giftCards.reload': 'Recargar',
+  'giftCards.voidTitle': 'Anular tarjeta',
+  'giftCards.confirmVoid': '¿Está seguro de anular la tarjeta',
+  'giftCards.balanceWrittenOff': 'El saldo de {amount} se dará de baja.',
+
+  // Categorías
+  'categories.activated': 'Categoría activada',
+  'categories.deactivated': 'Categoría desactivada',
+  'categories.loadError': 'Error al cargar categorías',
+  'categories.confirmDelete': '¿Eliminar la categoría "{name}"?',
+  'categories.deleted': 'Categoría eliminada',
+  'categories.deleteError': 'Error al eliminar categoría',
+  'categories.updated': 'Categoría actualizada',
+  'categories.created': 'Categoría creada',
+  'categories.saveError': 'Error al guardar categoría',
+  'categories.productsError': 'Error al cargar productos',
+  'categories.subtitle': 'Organiza tus productos por categorías',
+  'categories.new': 'Nueva Categoría',
+  'categories.edit': 'Editar Categoría',
+  'categories.empty': 'No hay categorías registradas',
+  'categories.active': 'Activa',
+  'categories.inactive': 'Inactiva',
+  'categories.productsIn': 'Productos en "{name}"',
+  'categories.productsFound': '{count} productos encontrados',
+  'categories.noProducts': 'No hay productos en esta categoría',
+  'categories.descriptionPlaceholder': 'Descripción de la categoría...',
+  'categories.icon': 'Icono/Emoji',
+  'categories.pickIcon': 'Elegir icono',
+  'categories.parent': 'Categoría Padre',
+  'categories.noParent': 'Ninguna (categoría raíz)',
+  'categories.isActive': 'Categoría activa',
+
+  // Listas de precios
+  'priceLists.catalogError': 'Error al cargar productos y categorías',
+  'priceLists.loadError': 'Error al cargar listas de precios',
+  'priceLists.invalidPrices': 'Revise los precios: no pueden ser negativos y el volumen empieza en 2 unidades',
+  'priceLists.duplicateRules': 'Hay reglas repetidas para la misma categoría',
+  'priceLists.updated': 'Lista de precios actualizada',
+  'priceLists.created': 'Lista de precios creada',
+  'priceLists.saveError': 'Error al guardar la lista de precios',
+  'priceLists.activated': 'Lista activada',
+  'priceLists.deactivated': 'Lista desactivada',
+  'priceLists.toggleError': 'Error al cambiar estado',
+  'priceLists.confirmDelete': '¿Eliminar la lista "{name}"? Los clientes que la tengan pasarán a la lista por defecto.',
+  'priceLists.deleted': 'Lista de precios eliminada',
+  'priceLists.deleteError': 'Error al eliminar la lista de precios',
+  'priceLists.subtitle': 'Precios de detal, mayoristas y empleados; se asignan a cada cliente',
+  'priceLists.new': 'Nueva Lista',
+  'priceLists.empty': 'No hay listas de precios: todos los clientes compran al precio de venta del producto',
+  'priceLists.default': 'Por defecto',
+  'priceLists.category': 'Categoría',
+  'priceLists.everything': 'Todo',
+  'priceLists.noRules': 'Sin reglas porcentuales',
+  'priceLists.fixedCount': '{count} precios fijos',
+  'priceLists.volumeCount': '{count} precios por volumen',
+  'priceLists.editTitle': 'Editar Lista de Precios',
+  'priceLists.newTitle': 'Nueva Lista de Precios',
+  'priceLists.namePlaceholder': 'Ej: Mayorista',
+  'priceLists.descriptionPlaceholder': 'Ej: Restaurantes y revendedores',
+  'priceLists.isDefault': 'Lista por defecto (clientes sin lista asignada y Cliente General)',
+  'priceLists.rules': 'Reglas porcentuales',
+  'priceLists.rulesHint': 'Sobre el precio de venta. La regla de la categoría del producto prima sobre la general; negativo = recargo',
+  'priceLists.allProducts': 'Todos los productos',
+  'priceLists.addRule': 'Agregar regla',
+  'priceLists.fixedPrices': 'Precios fijos por producto',
+  'priceLists.salePrice': 'venta {price}',
+  'priceLists.addProduct': '+ Agregar producto...',
+  'priceLists.volumePrices': 'Precios por volumen',
+  'priceLists.volumeHint': 'Precio unitario desde cierta cantidad del producto en el mismo ticket (ej: 12+ unidades)',
+  'priceLists.listPrice': 'lista {price}',
+  'priceLists.from': 'Desde',
+  'priceLists.unitsAt': 'und a',
+  'priceLists.addVolume': '+ Agregar precio por volumen...',
+
+  // Usuarios
+  'users.loadError': 'Error al cargar usuarios',
+  'users.confirmDelete': '¿Eliminar el usuario "{name}"?',
+  'users.deleted': 'Usuario eliminado',
+  'users.deleteError': 'Error al eliminar usuario',
+  'users.usernameRequired': 'El nombre de usuario es requerido',
+  'users.usernameFormat': 'El usuario solo puede contener letras, números y guiones bajos',
+  'users.emailRequired': 'El email es requerido',
+  'users.passwordRequired': 'La contraseña es requerida',
+  'users.passwordLength': 'La contraseña debe tener al menos 6 caracteres',
+  'users.pinFormat': 'El PIN debe tener entre 4 y 6 dígitos',
+  'users.roleRequired': 'Debe seleccionar un rol',
+  'users.updated': 'Usuario actualizado',
+  'users.created': 'Usuario creado',
+  'users.saveError': 'Error al guardar usuario',
+  'users.subtitle': 'Gestión de usuarios y permisos',
+  'users.new': 'Nuevo Usuario',
+  'users.edit': 'Editar Usuario',
+  'users.search': 'Buscar usuarios...',
+  'users.empty': 'No se encontraron usuarios',
+  'users.noRole': 'Sin rol',
+  'users.username': 'Usuario *',
+  'users.email': 'Email *',
+  'users.passwordOptional': 'Contraseña (opcional)',
+  'users.passwordRequiredLabel': 'Contraseña *',
+  'users.pinConfigured': 'PIN de supervisor (configurado)',
+  'users.pinOptional': 'PIN de supervisor (opcional)',
+  'users.pinPlaceholder': '4 a 6 dígitos',
+  'users.role': 'Rol *',
+  'users.moduleAccess': 'Acceso por módulo del rol seleccionado:',
+  'users.isActive': 'Usuario activo',
+
+  // Clientes
+  'customers.pointsHistoryError': 'Error al cargar el historial de puntos',
+  'customers.negativeAdjust': 'El ajuste deja el saldo en negativo',
+  'customers.adjustSaved': 'Ajuste de puntos registrado',
+  'customers.adjustError': 'Error al ajustar los puntos',
+  'customers.pointsOf': 'Puntos de {name}',
+  'customers.pointsWorth': '{points} puntos · equivalen a {amount}',
+  'customers.tierName': 'Nivel {name}',
+  'customers.pointsExpiring': '{points} puntos vencen el {date}',
+  'customers.noPointsTransactions': 'Sin movimientos de puntos',
+  'customers.expiresOn': 'vence {date}',
+  'customers.balanceAfter': 'Saldo {points}',
+  'customers.manualAdjust': 'Ajuste manual',
+  'customers.pointsPlaceholder': '+/- puntos',
+  'customers.adjustReason': 'Motivo del ajuste',
+  'customers.adjust': 'Ajustar',
+  'customers.loadError': 'Error al cargar clientes',
+  'customers.confirmDeactivate': '¿Desactivar el cliente "{name}"? El cliente será marcado como inactivo.',
+  'customers.deactivated': 'Cliente desactivado correctamente',
+  'customers.deactivateError': 'Error al desactivar cliente',
+  'customers.documentDigitsOnly': 'El número de documento debe contener solo números',
+  'customers.documentLength': 'El número de documento debe tener entre 6 y 15 dígitos',
+  'customers.phoneDigitsOnly': 'El teléfono debe contener solo números',
+  'customers.phoneLength': 'El teléfono debe tener entre 7 y 15 dígitos',
+  'customers.updated': 'Cliente actualizado',
+  'customers.created': 'Cliente creado',
+  'customers.saveError': 'Error al guardar cliente',
+  'customers.subtitle': 'Gestiona tu base de clientes',
+  'customers.new': 'Nuevo Cliente',
+  'customers.edit': 'Editar Cliente',
+  'customers.search': 'Buscar por nombre, documento o teléfono...',
+  'customers.empty': 'No se encontraron clientes',
+  'customers.document': 'Documento',
+  'customers.points': 'Puntos',
+  'customers.pointsHistory': 'Historial de puntos',
+  'customers.documentType': 'Tipo Doc.',
+  'customers.passport': 'Pasaporte',
+  'customers.documentNumber': 'Número de Documento',
+  'customers.creditLimit': 'Límite de Crédito',
+  'customers.priceList': 'Lista de precios',
+  'customers.defaultPriceList': '{name} (por defecto)',
+  'customers.salePrice': 'Precio de venta',
+
+  // Facturas
+  'invoices.return': 'Devolución',
+  'invoices.invoiceNumberTitle': 'Factura {number}',
+  'invoices.sold': 'Vendidos: {quantity}',
+  'invoices.returned': 'Devueltos: {quantity}',
+  'invoices.restock': 'Reingresar al inventario',
+  'invoices.waste': 'Merma',
+  'invoices.restocked': 'Reingreso',
+  'invoices.wasteLine': '{name} (merma)',
+  'invoices.refundMethod': 'Método de reembolso',
+  'invoices.reasonPlaceholder': 'Ej: producto defectuoso',
+  'invoices.refundTotal': 'Total a reembolsar (estimado)',
+  'invoices.issueCreditNote': 'Emitir nota crédito',
+  'invoices.loadError': 'Error al cargar facturas',
+  'invoices.completed': 'Completada',
+  'invoices.voidedStatus': 'Anulada',
+  'invoices.detailError': 'Error al cargar detalle',
+  'invoices.creditNoteIssued': 'Nota crédito {number} emitida',
+  'invoices.returnError': 'Error al registrar la devolución',
+  'invoices.voidDescription': 'Anular la factura {number} por {total}: {reason}',
+  'invoices.voided': 'Factura anulada',
+  'invoices.voidError': 'Error al anular factura',
+  'invoices.invalidXml': 'XML inválido: {error}',
+  'invoices.xmlError': 'Error al generar el XML',
+  'invoices.dianSent': 'Factura {number} enviada: {status}',
+  'invoices.dianSendError': 'Error al enviar a la DIAN',
+  'invoices.noneInRange': 'No hay facturas en el rango seleccionado',
+  'invoices.xmlWithErrors': '{count} XML generados, {errors} con errores (ver errores.txt)',
+  'invoices.xmlGenerated': '{count} XML generados',
+  'invoices.exportError': 'Error al exportar facturas',
+  'invoices.subtitle': 'Historial de ventas y transacciones',
+  'invoices.activeTab': 'Activas',
+  'invoices.voidedTab': 'Anuladas',
+  'invoices.search': 'Buscar por número o cliente...',
+  'invoices.exportDian': 'Exportar XML DIAN',
+  'invoices.empty': 'No se encontraron facturas',
+  'invoices.number': 'N° Factura',
+  'invoices.customerInfo': 'Información del Cliente',
+  'invoices.phoneValue': 'Tel: {phone}',
+  'invoices.emailValue': 'Email: {email}',
+  'invoices.documentValue': 'Documento: {document}',
+  'invoices.priceListValue': 'Lista de precios: {name}',
+  'invoices.productDetail': 'Detalle de Productos',
+  'invoices.lineDiscount': 'Desc. -{amount}',
+  'invoices.priceChanged': 'Precio cambiado: {from} → {to}',
+  'invoices.coupon': 'Cupón {code}',
+  'invoices.serviceCharge': 'Servicio voluntario ({percent}%)',
+  'invoices.taxBase': '{label} (base {base})',
+  'invoices.taxes': 'Impuestos',
+  'invoices.tipOutside': 'Propina (fuera del total)',
+  'invoices.received': 'Recibido',
+  'invoices.change': 'Cambio',
+  'invoices.creditNotes': 'Notas Crédito',
+  'invoices.printCreditNote': 'Imprimir nota crédito',
+  'invoices.refundValue': 'Reembolso: {method}',
+  'invoices.electronic': 'Factura electrónica',
+  'invoices.sendDian': 'Enviar a la DIAN',
+  'invoices.exportHint': 'Genera un ZIP con el XML UBL 2.1 de cada factura del rango. Las facturas anuladas se omiten',
+  'invoices.downloadZip': 'Descargar ZIP',
+  'invoices.voidTitle': 'Anular Factura',
+  'invoices.confirmVoid': '¿Está seguro de anular la factura',
+
+  // Productos
+  'products.modifiers': 'Modificadores',
+  'products.addGroup': 'Agregar grupo',
+  'products.noModifiers': 'Sin modificadores. Ej: Tamaño, Adiciones, Término de la carne.',
+  'products.groupName': 'Nombre del grupo (ej: Adiciones)',
+  'products.required': 'Obligatorio',
+  'products.min': 'Mín',
+  'products.max': 'Máx',
+  'products.noLimit': '0 = sin límite',
+  'products.optionName': 'Opción (ej: Extra queso)',
+  'products.priceDelta': 'Valor adicional',
+  'products.addOption': '+ Agregar opción',
+  'products.loadError': 'Error al cargar productos',
+  'products.confirmDelete': '¿Eliminar el producto "{name}"?',
+  'products.deleted': 'Producto eliminado',
+  'products.deleteError': 'Error al eliminar producto',
+  'products.quantityPositive': 'La cantidad debe ser mayor a 0',
+  'products.notEnoughStock': 'No hay suficiente stock disponible',
+  'products.stockAdded': 'Stock agregado correctamente',
+  'products.stockRemoved': 'Stock reducido correctamente',
+  'products.adjustError': 'Error al ajustar stock',
+  'products.imageUploaded': 'Imagen subida correctamente',
+  'products.imageError': 'Error al subir imagen',
+  'products.categoryRequired': 'Debe seleccionar una categoría',
+  'products.updated': 'Producto actualizado',
+  'products.created': 'Producto creado',
+  'products.saveError': 'Error al guardar producto',
+  'products.subtitle': 'Gestiona tu catálogo de productos',
+  'products.new': 'Nuevo Producto',
+  'products.edit': 'Editar Producto',
+  'products.search': 'Buscar por nombre o código...',
+  'products.categoryFilter': 'Categoría:',
+  'products.allCategories': 'Todas',
+  'products.statusFilter': 'Estado:',
+  'products.activeFilter': 'Activos',
+  'products.inactiveFilter': 'Inactivos',
+  'products.clearFilters': 'Limpiar filtros',
+  'products.count': '{count} producto(s)',
+  'products.empty': 'No se encontraron productos',
+  'products.code': 'Código',
+  'products.product': 'Producto',
+  'products.category': 'Categoría',
+  'products.cost': 'Costo',
+  'products.salePrice': 'Precio Venta',
+  'products.margin': 'Margen',
+  'products.stock': 'Stock',
+  'products.openPrice': 'Precio abierto',
+  'products.stockOut': 'Salida de stock',
+  'products.stockIn': 'Entrada de stock',
+  'products.codePlaceholder': 'Auto (ej: PRD-0001)',
+  'products.barcode': 'Código de Barras',
+  'products.categoryLabel': 'Categoría *',
+  'products.saleUnit': 'Unidad de venta',
+  'products.unitUnd': 'Unidad (UND)',
+  'products.unitKg': 'Kilogramo (KG) - venta por peso',
+  'products.tax': 'Impuesto',
+  'products.costPrice': 'Precio Costo',
+  'products.salePriceReference': 'Precio Venta (referencia)',
+  'products.openPriceHint': 'El cajero digita el valor al venderlo (varios, reparaciones, catering)',
+  'products.image': 'Imagen del Producto',
+  'products.uploadImage': 'Subir imagen',
+  'products.or': 'o',
+  'products.imageUrl': 'URL de imagen...',
+  'products.imageFormats': 'JPG, PNG, GIF, WebP. Máx 5MB',
+  'products.stockSettings': 'Configuración de Stock',
+  'products.initialStock': 'Stock Inicial',
+  'products.currentStock': 'Stock Actual',
+  'products.minStock': 'Stock Mínimo',
+  'products.maxStock': 'Stock Máximo',
+  'products.adjustHint': '💡 También puedes ajustar el stock desde la tabla de productos usando los botones +/-',
+  'products.stockInTitle': 'Entrada de Stock',
+  'products.stockOutTitle': 'Salida de Stock',
+  'products.currentStockLabel': 'Stock actual:',
+  'products.reasonOptional': 'Razón (opcional)',
+  'products.reasonPlaceholder': 'Motivo del ajuste...',
+  'products.remove': 'Retirar',
+
+  // Configuración
+  'settings.portAuthorized': 'Puerto autorizado',
+  'settings.portError': 'No se pudo abrir el puerto',
+  'settings.testSent': 'Tiquete de prueba enviado',
+  'settings.printerNoResponse': 'La impresora no respondió',
+  'settings.shortcutReserved': '{shortcut} está reservado para la paleta de comandos',
+  'settings.shortcutTaken': '{shortcut} ya está asignado a "{action}"',
+  'settings.reasonExists': 'Ese motivo ya existe',
+  'settings.percentExists': 'Ese porcentaje ya existe',
+  'settings.phoneInvalid': 'Teléfono debe contener solo números',
+  'settings.taxIdInvalid': 'NIT debe contener solo números y guiones',
+  'settings.taxRateInvalid': 'La tasa debe estar entre 0 y 100',
+  'settings.imageRequired': 'Por favor selecciona un archivo de imagen',
+  'settings.imageTooLarge': 'El archivo debe ser menor a 2MB',
+  'settings.logoUpdated': 'Logo actualizado correctamente',
+  'settings.imageLoadError': 'Error al cargar la imagen',
+  'settings.logoRemoved': 'Logo eliminado',
+  'settings.fixErrors': 'Corrige los errores antes de guardar',
+  'settings.saved': 'Configuración guardada en el servidor',
+  'settings.saveError': 'Error al guardar configuración en el servidor',
+  'settings.subtitle': 'Personaliza tu sistema POS',
+  'settings.savedButton': 'Guardado',
+  'settings.saveChanges': 'Guardar Cambios',
+  'settings.companyInfo': 'Información de la Empresa',
+  'settings.businessName': 'Nombre del Negocio',
+  'settings.legalName': 'Razón Social',
+  'settings.optional': 'Opcional',
+  'settings.taxIdPlaceholder': 'Ej: 900123456-1',
+  'settings.themeTitle': 'Tema y Colores',
+  'settings.themeReset': 'Colores restaurados a los predeterminados',
+  'settings.restore': 'Restaurar',
+  'settings.primaryColor': 'Color Primario',
+  'settings.primaryColorHint': 'Color principal de la interfaz',
+  'settings.secondaryColor': 'Color Secundario',
+  'settings.secondaryColorHint': 'Color de acentos y detalles',
+  'settings.backgroundColor': 'Color de Fondo',
+  'settings.backgroundColorHint': 'Color del fondo de la aplicación',
+  'settings.cardColor': 'Color de Tarjetas',
+  'settings.cardColorHint': 'Color de fondo de las tarjetas y secciones',
+  'settings.sidebarColor': 'Color del Menú Lateral',
+  'settings.sidebarColorHint': 'Color del menú de navegación lateral',
+  'settings.invoicing': 'Facturación',
+  'settings.currency': 'Moneda',
+  'settings.currencyCOP': 'COP - Peso Colombiano',
+  'settings.currencyUSD': 'USD - Dólar Americano',
+  'settings.currencyEUR': 'EUR - Euro',
+  'settings.foreignCurrencies': 'Divisas aceptadas en efectivo',
+  'settings.foreignCurrenciesHint': 'La tasa del día la fija un supervisor en Caja; el cambio se entrega en {currency}',
+  'settings.taxRate': 'Tasa de Impuesto (%)',
+  'settings.taxRateHint': 'Se usa para productos sin tarifa propia',
+  'settings.pricesIncludeTax': 'Precios con impuesto incluido',
+  'settings.pricesIncludeTaxHint': 'Si se desactiva, el impuesto se suma al precio de venta al cobrar',
+  'settings.businessType': 'Tipo de Negocio',
+  'settings.businessGeneral': 'General',
+  'settings.businessRestaurant': 'Restaurante',
+  'settings.businessHardware': 'Ferretería',
+  'settings.businessPharmacy': 'Farmacia',
+  'settings.businessSupermarket': 'Supermercado',
+  'settings.receiptTemplate': 'Plantilla del Tiquete',
+  'settings.receiptHeader': 'Encabezado',
+  'settings.logoMissing': 'Suba un logo en la sección Logo para que aparezca en el tiquete',
+  'settings.headerTextPlaceholder': 'Texto adicional del encabezado (horario, redes sociales, régimen...)',
+  'settings.receiptBody': 'Campos de la venta',
+  'settings.receiptFooter': 'Pie de página',
+  'settings.legalTextPlaceholder': 'Texto legal: Resolución DIAN N° 18760000001 del 2024-01-01, rango FV-1 a FV-5000, vigencia 24 meses',
+  'settings.footerPlaceholder': '¡Gracias por su compra!',
+  'settings.legalTextHint': 'El texto legal no se imprime en las pre-cuentas',
+  'settings.receiptPreview': 'Vista previa del tiquete',
+  'settings.dianTitle': 'Facturación Electrónica DIAN',
+  'settings.dianHint': 'XML UBL 2.1, CUFE y QR en el tiquete. La firma y el envío los hace el servicio de facturación',
+  'settings.enabledFeminine': 'Activa',
+  'settings.dianCheckDigit': 'El NIT no tiene dígito de verificación; se usará el calculado: {nit}-{dv}',
+  'settings.dianEnvironment': 'Ambiente',
+  'settings.resolutionNumber': 'N° de resolución',
+  'settings.resolutionDate': 'Fecha de resolución',
+  'settings.prefix': 'Prefijo',
+  'settings.prefixPlaceholder': 'Ej: SETP',
+  'settings.rangeFrom': 'Rango desde',
+  'settings.rangeTo': 'Rango hasta',
+  'settings.validFrom': 'Vigencia desde',
+  'settings.validTo': 'Vigencia hasta',
+  'settings.technicalKey': 'Clave técnica',
+  'settings.softwareId': 'ID del software',
+  'settings.softwarePin': 'PIN del software',
+  'settings.taxLevelCode': 'Responsabilidades fiscales',
+  'settings.municipalityCode': 'Código DANE municipio',
+  'settings.department': 'Departamento',
+  'settings.departmentCode': 'Código departamento',
+  'settings.dianNumbering': 'El consecutivo de la factura en el POS se emite con el prefijo de la resolución (FV-000123 → {prefix}123)',
+  'settings.prefixExample': 'PREFIJO',
+  'settings.loyaltyTitle': 'Programa de Puntos',
+  'settings.loyaltyHint': 'Los clientes acumulan puntos con cada factura pagada y los redimen como descuento en el POS',
+  'settings.amountPerPoint': 'Pesos por punto',
+  'settings.pointValue': 'Valor de un punto ($)',
+  'settings.minRedeem': 'Mínimo para redimir',
+  'settings.maxRedeemPercent': 'Máximo del total (%)',
+  'settings.expirationMonths': 'Vencen a los (meses)',
+  'settings.loyaltyExample': 'Una compra de {amount} da 100 puntos, que valen {value} al redimirlos',
+  'settings.loyaltyExpires': ' y vencen {months} meses después de ganados',
+  'settings.loyaltyNoExpiry': '; los puntos no vencen',
+  'settings.tiers': 'Niveles',
+  'settings.tiersHint': 'Según los puntos ganados en los últimos 12 meses; el multiplicador aumenta la acumulación',
+  'settings.tierName': 'Nombre del nivel',
+  'settings.tierMinPoints': 'Puntos mínimos',
+  'settings.tierPoints': 'pts ×',
+  'settings.tierMultiplier': 'Multiplicador',
+  'settings.removeTier': 'Eliminar nivel',
+  'settings.addTier': 'Agregar nivel',
+  'settings.excludedCategories': 'Categorías que no acumulan puntos',
+  'settings.discountReasons': 'Motivos de Descuento',
+  'settings.discountReasonsHint': 'El cajero debe elegir uno de estos motivos al aplicar un descuento a un producto del carrito',
+  'settings.removeReason': 'Eliminar motivo',
+  'settings.noReasons': 'Sin motivos configurados no se podrán aplicar descuentos por producto',
+  'settings.newReason': 'Nuevo motivo...',
+  'settings.maxDiscount': 'Descuento máximo sin autorización',
+  'settings.maxDiscountHint': 'Por encima de este porcentaje, un cajero sin permiso de descuentos necesita el PIN de un supervisor',
+  'settings.giftCardValidity': 'Vigencia de tarjetas de regalo',
+  'settings.giftCardValidityHint': 'Vencimiento sugerido al vender una tarjeta; 0 para que no venzan',
+  'settings.months': 'meses',
+  'settings.tipsTitle': 'Servicio y Propinas',
+  'settings.serviceCharge': 'Servicio voluntario sugerido',
+  'settings.serviceChargeHint': 'Por ley no puede superar el {max}% y el cliente puede rechazarlo; el cajero debe preguntarle antes de incluirlo',
+  'settings.suggestedTips': 'Propinas sugeridas',
+  'settings.suggestedTipsHint': 'Botones que se ofrecen al cobrar. La propina no suma a las ventas y se asigna al mesero o se reparte entre el personal',
+  'settings.removePercent': 'Eliminar porcentaje',
+  'settings.newPercent': 'Nuevo %...',
+  'settings.shortcutsTitle': 'Atajos de Teclado',
+  'settings.shortcutsHint': 'Atajos del punto de venta para {name}. Haga clic en un atajo y pulse la nueva tecla',
+  'settings.thisUser': 'este usuario',
+  'settings.pressKey': 'Pulse una tecla...',
+  'settings.changeShortcut': 'Cambiar atajo',
+  'settings.resetShortcuts': 'Restablecer atajos',
+  'settings.printerTitle': 'Impresora de Tiquetes',
+  'settings.printerHint': 'Solo aplica a este equipo. Con ESC/POS se imprime sin diálogo; si la impresora falla se usa el navegador',
+  'settings.printerOutput': 'Salida',
+  'settings.paperWidth': 'Ancho del papel',
+  'settings.bridgeUrl': 'URL del puente',
+  'settings.baudRate': 'Velocidad (baudios)',
+  'settings.choosePort': 'Elegir puerto',
+  'settings.openDrawer': 'Abrir cajón monedero en ventas con efectivo',
+  'settings.printTest': 'Imprimir prueba',
+  'settings.tableSettings': 'Configuración de Mesas',
+  'settings.tableSettingsHint': 'Personaliza las zonas y estados de las mesas del restaurante',
+  'settings.configureZones': 'Configurar Zonas y Estados',
+  'settings.companyLogo': 'Logo de la Empresa',
+  'settings.logoAlt': 'Logo de la empresa',
+  'settings.removeLogo': 'Eliminar logo',
+  'settings.changeLogo': 'Cambiar logo',
+  'settings.dropLogo': 'Arrastra tu logo aquí o',
+  'settings.uploading': 'Subiendo...',
+  'settings.selectFile': 'Seleccionar Archivo',
+  'settings.logoFormats': 'PNG, JPG hasta 2MB',
+
+  // Venta (mesas y POS)
+  'sale.customerOptional': 'Cliente (opcional)',
+  'sale.searchCustomer': 'Buscar cliente por nombre o documento...',
+  'sale.createCustomer': 'Crear Nuevo Cliente',
+  'sale.points': '{points} pts',
+  'sale.searchProduct': 'Buscar producto...',
+  'sale.itemNotesPlaceholder': 'Ej: sin cebolla, salsa extra...',
+  'sale.extraDiscount': 'Descuento adicional (%)',
+  'sale.discountPercent': 'Descuento ({percent}%)',
+  'sale.serviceCharge': 'Servicio voluntario ({percent}%)',
+  'sale.delivery': 'Domicilio',
+  'sale.deliveryCharge': 'Cargo Domicilio',
+  'sale.totalToPay': 'Total a pagar',
+  'sale.totalWithTip': 'Total con propina',
+  'sale.confirmPayment': 'Confirmar Pago',
+  'sale.paymentIncomplete': 'El pago no cubre el total de la cuenta',
+  'sale.customerCreated': 'Cliente creado y seleccionado',
+  'sale.customerCreateError': 'Error al crear cliente',
+  'sale.customerNamePlaceholder': 'Nombre del cliente',
+  'sale.phoneOptional': 'Teléfono (opcional)',
+  'sale.createAndSelect': 'Crear y Seleccionar',
+  'sale.paymentCompleted': 'Pago Completado',
+  'sale.invoiceNumber': 'Factura N° {number}',
+  'sale.method': 'Método',
+  'sale.change': 'Cambio',
+  'sale.printInvoice': 'Imprimir Factura',
+  'sale.closeWithoutPrinting': 'Cerrar sin Imprimir',
+
+  // Mesas
+  'tables.status.available': 'Disponible',
+  'tables.status.occupied': 'Ocupada',
+  'tables.status.reserved': 'Reservada',
+  'tables.status.outOfService': 'Fuera de servicio',
+  'tables.loadError': 'Error al cargar mesas',
+  'tables.opened': 'Mesa #{number} abierta',
+  'tables.openError': 'Error al abrir mesa',
+  'tables.itemsAdded': '{count} producto(s) agregado(s)',
+  'tables.addItemsError': 'Error al agregar productos',
+  'tables.removeItemDescription': 'Quitar {quantity} x {product} (ya enviado a cocina) de la mesa #{number}',
+  'tables.reference': 'Mesa {number}',
+  'tables.itemRemoved': 'Producto eliminado',
+  'tables.removeItemError': 'Error al eliminar producto',
+  'tables.updated': 'Mesa actualizada',
+  'tables.updateError': 'Error al actualizar mesa',
+  'tables.cannotDeleteOccupied': 'No se puede eliminar una mesa ocupada',
+  'tables.confirmDelete': '¿Eliminar Mesa #{number}?',
+  'tables.deleted': 'Mesa eliminada',
+  'tables.deleteError': 'Error al eliminar mesa',
+  'tables.reopenDescription': 'Reabrir la cuenta pagada de la mesa #{number}: {reason}',
+  'tables.reopened': 'Mesa #{number} reabierta',
+  'tables.reopenError': 'Error al reabrir la mesa',
+  'tables.discountDescription': 'Descuento de {percent}% en la cuenta de la mesa #{number}',
+  'tables.paid': 'Mesa #{number} pagada exitosamente',
+  'tables.payError': 'Error al pagar mesa',
+  'tables.preBillNumber': 'PRE-CUENTA',
+  'tables.zoneRequired': 'Debes especificar una zona',
+  'tables.created': 'Mesa creada exitosamente',
+  'tables.createError': 'Error al crear mesa',
+  'tables.occupiedCount': '{occupied} ocupadas de {total} mesas',
+  'tables.newTable': 'Nueva Mesa',
+  'tables.allZones': 'Todas',
+  'tables.tableNumber': 'Mesa #{number}',
+  'tables.editTable': 'Editar mesa',
+  'tables.deleteTable': 'Eliminar mesa',
+  'tables.availableTitle': 'Mesa Disponible',
+  'tables.capacityPeople': 'Capacidad: {count} personas',
+  'tables.openTable': 'Abrir Mesa',
+  'tables.reopenLast': 'Reabrir última cuenta pagada',
+  'tables.waiter': 'Mesero:',
+  'tables.openedAt': 'Abierta:',
+  'tables.guestsColon': 'Comensales:',
+  'tables.invoice': 'Factura:',
+  'tables.order': 'Pedido',
+  'tables.removeItemTitle': 'Quitar (requiere autorización)',
+  'tables.noItems': 'Sin productos aún',
+  'tables.confirmRelease': '¿Liberar esta mesa? La sesión se cerrará sin cobrar.',
+  'tables.released': 'Mesa liberada exitosamente',
+  'tables.release': 'Liberar Mesa',
+  'tables.markAvailable': 'Marcar como Disponible',
+  'tables.charge': 'Cobrar Mesa',
+  'tables.printPreBill': 'Imprimir Pre-cuenta',
+  'tables.selectTable': 'Selecciona una mesa',
+  'tables.selectTableHint': 'Haz clic en una mesa para ver su detalle',
+  'tables.openTitle': 'Abrir Mesa #{number}',
+  'tables.guests': 'Comensales',
+  'tables.notesPlaceholder': 'Ej: cumpleaños, alergia...',
+  'tables.opening': 'Abriendo...',
+  'tables.addItemsTitle': 'Agregar Productos - Mesa #{number}',
+  'tables.toAdd': 'Por agregar ({count})',
+  'tables.priority': 'Marcar como prioritario en cocina',
+  'tables.priorityReason': 'Motivo (opcional): ejemplo cliente apurado',
+  'tables.selectProducts': 'Selecciona productos',
+  'tables.adding': 'Agregando...',
+  'tables.chargeTitle': 'Cobrar Mesa #{number}',
+  'tables.reopenTitle': 'Reabrir Cuenta',
+  'tables.reopenWarning': 'La última factura de la mesa #{number} se anulará y los productos vuelven a la mesa.',
+  'tables.reopenReason': 'Razón de reapertura *',
+  'tables.reasonPlaceholder': 'Ingrese la razón...',
+  'tables.reopen': 'Reabrir',
+  'tables.tableNumberLabel': 'Número de Mesa *',
+  'tables.nameOptional': 'Nombre (opcional)',
+  'tables.namePlaceholder': 'Ej: Mesa VIP 1',
+  'tables.capacity': 'Capacidad',
+  'tables.zone': 'Zona',
+  'tables.newZone': '+ Nueva zona...',
+  'tables.newZoneName': 'Nombre de la nueva zona',
+  'tables.creating': 'Creando...',
+  'tables.createTable': 'Crear Mesa',
+  'tables.editTitle': 'Editar Mesa',
+
+  // Punto de venta
+  'pos.saleCompleted': '¡Venta Completada!',
+  'pos.savedOffline': 'Guardada sin conexión · pendiente de sincronizar',
+  'pos.customerColon': 'Cliente:',
+  'pos.methodColon': 'Método:',
+  'pos.itemsColon': 'Items:',
+  'pos.productCount': '{count} productos',
+  'pos.totalColon': 'Total:',
+  'pos.creditBalance': 'Saldo a crédito:',
+  'pos.selectCustomer': 'Seleccionar Cliente',
+  'pos.searchCustomer': 'Buscar por nombre, documento o teléfono...',
+  'pos.noCustomerData': 'Sin datos de cliente',
+  'pos.noCustomers': 'No se encontraron clientes',
+  'pos.parkedTickets': 'Tickets en Espera',
+  'pos.resumeWarning': 'Al retomar un ticket, la venta actual quedará en espera automáticamente.',
+  'pos.noParkedTickets': 'No hay tickets en espera',
+  'pos.parkedSummary': '{count} productos • {total} • {time}',
+  'pos.resume': 'Retomar',
+  'pos.viewCompact': 'Vista compacta',
+  'pos.viewNormal': 'Vista normal',
+  'pos.viewLarge': 'Vista grande',
+  'pos.organizeCategories': 'Organizar categorías',
+  'pos.organize': 'Organizar',
+  'pos.taxIncluded': ' incluido',
+  'pos.taxBase': '(base {amount})',
+  'pos.discountValueRequired': 'Ingrese el valor del descuento',
+  'pos.discountPercentTooHigh': 'El porcentaje no puede superar 100%',
+  'pos.discountTooHigh': 'El descuento no puede superar el valor de la línea',
+  'pos.discountReasonRequired': 'Seleccione el motivo del descuento',
+  'pos.lineDiscount': 'Descuento por producto',
+  'pos.discountPercentType': 'Porcentaje (%)',
+  'pos.discountAmountType': 'Valor fijo ($)',
+  'pos.discountPercentPlaceholder': 'Ej: 10',
+  'pos.discountAmountPlaceholder': 'Ej: 2000',
+  'pos.configureReasons': 'Configure los motivos de descuento en Configuración',
+  'pos.removeDiscount': 'Quitar descuento',
+  'pos.priceRequired': 'Ingrese el precio',
+  'pos.priceEqualsList': 'El precio es igual al de lista',
+  'pos.priceReasonRequired': 'Indique el motivo del cambio de precio',
+  'pos.changePrice': 'Cambiar precio',
+  'pos.listPriceValue': ' · Lista {price}',
+  'pos.unitPrice': 'Precio unitario',
+  'pos.priceReasonPlaceholder': 'Ej: precio pactado con el cliente',
+  'pos.priceAudit': 'El cambio queda registrado con su usuario para auditoría',
+  'pos.lineTotal': 'Total línea',
+  'pos.listPrice': 'Precio de lista',
+  'pos.coupon': 'Cupón',
+  'pos.removeCoupon': 'Quitar cupón',
+  'pos.couponPlaceholder': 'Digite o escanee el código',
+  'pos.payWith': 'Pago con {method}',
+  'pos.mixedPayment': 'Pago Mixto',
+  'pos.lineDiscounts': 'Descuentos por producto',
+  'pos.discount': 'Descuento',
+  'pos.deliveryPlaceholder': 'Valor domicilio',
+  'pos.discountPlaceholder': '% descuento',
+  'pos.loyaltyPoints': 'Puntos ({balance} disponibles{tier})',
+  'pos.pointsPlaceholder': 'Puntos a redimir',
+  'pos.maxPoints': 'Máximo ({points})',
+  'pos.belowMinRedeem': 'El saldo no alcanza el mínimo para redimir',
+  'pos.earnedPoints': 'El cliente acumulará {points} puntos',
+  'pos.confirmSale': 'Confirmar Venta',
+  'pos.ticketParked': 'Ticket puesto en espera',
+  'pos.currentSaleParked': 'La venta actual quedó en espera',
+  'pos.lineDiscountDescription': 'Descuento de {amount} en {product} ({reason})',
+  'pos.orderDiscountDescription': 'Descuento general de {percent}% sobre una venta de {amount}',
+  'pos.outOfStock': 'Sin stock disponible para {name}',
+  'pos.productNotFound': 'Producto no encontrado: {code}',
+  'pos.weighedItem': '{name} · {quantity} kg',
+  'pos.quantityFirst': 'Escriba la cantidad en el buscador antes de pulsar la tecla de cantidad',
+  'pos.productUnavailable': 'El producto no está disponible',
+  'pos.categoryOrderSaved': 'Orden de categorías guardado',
+  'pos.categoryOrderError': 'No se pudo guardar el orden de categorías',
+  'pos.orderSentToTable': 'Pedido enviado a Mesa #{number}',
+  'pos.sendToTableError': 'Error al enviar pedido a mesa',
+  'pos.couponApplied': 'Cupón {code} aplicado',
+  'pos.couponNotFound': 'Cupón no encontrado',
+  'pos.couponError': 'Error al validar el cupón',
+  'pos.creditNeedsCustomer': 'Seleccione un cliente para vender a crédito',
+  'pos.creditLimitExceeded': 'La venta supera el cupo disponible de {name} ({amount}). Requiere autorización',
+  'pos.creditLimitConfirm': 'La venta a crédito ({amount}) supera el cupo disponible de {name} ({available}).\n¿Autorizar de todas formas?',
+  'pos.paymentIncomplete': 'El pago no cubre el total de la venta',
+  'pos.creditNeedsConnection': 'Las ventas a crédito requieren conexión con el servidor',
+  'pos.giftCardNeedsConnection': 'Los pagos con tarjeta de regalo requieren conexión con el servidor',
+  'pos.pointsNeedConnection': 'La redención de puntos requiere conexión con el servidor',
+  'pos.couponNeedsConnection': 'La redención de cupones requiere conexión con el servidor',
+  'pos.saleError': 'Error al procesar la venta',
+  'pos.savedOfflineToast': 'Sin conexión: la venta se guardó y se sincronizará automáticamente',
+  'pos.noCashSession': 'No hay caja abierta en esta terminal.',
+  'pos.openCash': 'Abrir caja',
+  'pos.searchProducts': 'Buscar por nombre, código o escanear...',
+  'pos.pendingQuantityHint': 'Cantidad para el siguiente producto (clic para cancelar)',
+  'pos.openCustomerDisplay': 'Abrir pantalla del cliente',
+  'pos.shortcutsHint': 'Atajos de teclado ({key})',
+  'pos.soldOut': 'Agotado',
+  'pos.stockUnits': '{count} uds',
+  'pos.inCart': '{count} en carrito',
+  'pos.cart': 'Carrito',
+  'pos.park': 'Poner en espera',
+  'pos.changeHint': '(cambiar)',
+  'pos.noTable': 'Sin mesa (venta directa)',
+  'pos.emptyCart': 'Carrito vacío',
+  'pos.priceChanged': 'Precio cambiado (lista {price}) · {reason}',
+  'pos.quantityBreak': 'Desde {quantity} und: {price} c/u',
+  'pos.stock': 'Stock: {count}',
+  'pos.maxStock': 'Stock máximo alcanzado',
+  'pos.subtotalItems': 'Subtotal ({count} items)',
+  'pos.sendToTable': 'Enviar a Mesa #{number}',
+  'pos.cancelSaleConfirm': '¿Está seguro de cancelar esta venta? Se perderán todos los productos del carrito.',
+  'pos.saleCancelled': 'Venta cancelada',
+  'pos.cancelSale': 'Cancelar Venta',
+  'pos.removeParkedConfirm': '¿Eliminar este ticket en espera? Se perderán sus productos.',
+  'pos.parkTitle': 'Poner Ticket en Espera',
+  'pos.parkLabel': 'Etiqueta (opcional)',
+  'pos.ticketNumber': 'Ticket {number}',
+
+  // Promociones y cupones
+  'coupons.redemptionsError': 'Error al cargar las redenciones',
+  'coupons.redemptionsTitle': 'Redenciones de {code}',
+  'coupons.redemptionsSummary': '{count} usos · {amount} en descuentos',
+  'coupons.notRedeemed': 'El cupón no se ha redimido',
+  'coupons.loadError': 'Error al cargar cupones',
+  'coupons.invalidValue': 'Ingrese un valor de descuento válido',
+  'coupons.invalidDates': 'La fecha final debe ser posterior a la inicial',
+  'coupons.campaignRequired': 'Indique la campaña del lote',
+  'coupons.quantityRange': 'La cantidad debe estar entre 1 y {max}',
+  'coupons.generated': '{count} cupones generados y exportados',
+  'coupons.codeRequired': 'El código es requerido',
+  'coupons.created': 'Cupón creado',
+  'coupons.saveError': 'Error al guardar cupón',
+  'coupons.activated': 'Cupón activado',
+  'coupons.deactivated': 'Cupón desactivado',
+  'coupons.toggleError': 'Error al cambiar estado',
+  'coupons.deleteConfirm': '¿Está seguro de eliminar el cupón {code}?',
+  'coupons.deleted': 'Cupón eliminado',
+  'coupons.deleteError': 'Error al eliminar cupón',
+  'coupons.validUntil': 'Hasta {date}',
+  'coupons.validFrom': 'Desde {date}',
+  'coupons.noExpiry': 'Sin vencimiento',
+  'coupons.allCampaigns': 'Todas las campañas',
+  'coupons.generateBatch': 'Generar lote',
+  'coupons.new': 'Nuevo Cupón',
+  'coupons.campaignStats': '{codes} códigos · {uses} usos',
+  'coupons.redeemedRate': '{percent}% de los códigos redimidos',
+  'coupons.loading': 'Cargando cupones...',
+  'coupons.empty': 'No hay cupones creados',
+  'coupons.code': 'Código',
+  'coupons.campaign': 'Campaña',
+  'coupons.discount': 'Descuento',
+  'coupons.conditions': 'Condiciones',
+  'coupons.uses': 'Usos',
+  'coupons.minPurchaseValue': 'Compra mínima {amount}',
+  'coupons.perCustomer': '{count} por cliente',
+  'coupons.redemptions': 'Redenciones',
+  'coupons.cannotDelete': 'Un cupón redimido no se puede eliminar; desactívelo',
+  'coupons.batchTitle': 'Generar Lote de Cupones',
+  'coupons.batchHint': 'Códigos únicos con las mismas condiciones; se descargan en Excel',
+  'coupons.singleHint': 'Código para digitar o escanear en el POS',
+  'coupons.prefix': 'Prefijo',
+  'coupons.prefixPlaceholder': 'Ej: VERANO',
+  'coupons.codeLabel': 'Código *',
+  'coupons.generateCode': 'Generar código',
+  'coupons.campaignPlaceholder': 'Ej: Volantes centro comercial',
+  'coupons.discountType': 'Tipo de descuento',
+  'coupons.valueLabel': 'Valor *',
+  'coupons.maxDiscount': 'Descuento máximo',
+  'coupons.noCap': 'Sin tope',
+  'coupons.minPurchase': 'Compra mínima',
+  'coupons.noMinimum': 'Sin mínimo',
+  'coupons.validFromLabel': 'Válido desde',
+  'coupons.validUntilLabel': 'Válido hasta',
+  'coupons.usesPerCode': 'Usos por código',
+  'coupons.unlimited': 'Ilimitado',
+  'coupons.singleUseHint': '1 = un solo uso',
+  'coupons.usesPerCustomer': 'Usos por cliente',
+  'coupons.noLimit': 'Sin límite',
+  'coupons.perCustomerHint': 'Exige seleccionar el cliente en la venta',
+  'coupons.generateCount': 'Generar {count} cupones',
+  'promotions.day.1': 'Lun',
+  'promotions.day.2': 'Mar',
+  'promotions.day.3': 'Mié',
+  'promotions.day.4': 'Jue',
+  'promotions.day.5': 'Vie',
+  'promotions.day.6': 'Sáb',
+  'promotions.day.7': 'Dom',
+  'promotions.catalogError': 'Error al cargar productos y categorías',
+  'promotions.loadError': 'Error al cargar promociones',
+  'promotions.datesRequired': 'Las fechas son requeridas para promociones de fecha específica',
+  'promotions.scopeRequired': 'Seleccione los productos o categorías de la promoción',
+  'promotions.payLessThanBuy': 'Las unidades a pagar deben ser menos que las que se llevan',
+  'promotions.comboRequired': 'El combo necesita productos y un precio',
+  'promotions.timeRangeRequired': 'Indique la hora de inicio y de fin de la franja',
+  'promotions.updated': 'Promoción actualizada',
+  'promotions.created': 'Promoción creada',
+  'promotions.saveError': 'Error al guardar promoción',
+  'promotions.activated': 'Promoción activada',
+  'promotions.deactivated': 'Promoción desactivada',
+  'promotions.toggleError': 'Error al cambiar estado',
+  'promotions.deleteConfirm': '¿Está seguro de eliminar esta promoción?',
+  'promotions.deleted': 'Promoción eliminada',
+  'promotions.deleteError': 'Error al eliminar promoción',
+  'promotions.categoryNumber': 'Categoría #{id}',
+  'promotions.allProducts': 'Todos los productos',
+  'promotions.everyDay': 'Todos los días',
+  'promotions.noDays': 'Sin días',
+  'promotions.title': 'Promociones y Descuentos',
+  'promotions.subtitle': 'Descuentos por producto o categoría, 2x1, combos, happy hour y cupones',
+  'promotions.new': 'Nueva Promoción',
+  'promotions.edit': 'Editar Promoción',
+  'promotions.tabPromotions': 'Promociones',
+  'promotions.tabCoupons': 'Cupones',
+  'promotions.loading': 'Cargando promociones...',
+  'promotions.empty': 'No hay promociones creadas',
+  'promotions.active': 'Activa',
+  'promotions.percentOff': '{percent}% de descuento',
+  'promotions.minPurchaseValue': 'Compra mínima {amount}',
+  'promotions.formHint': 'Define los parámetros de la promoción',
+  'promotions.basicInfo': 'Información Básica',
+  'promotions.nameLabel': 'Nombre de la Promoción *',
+  'promotions.namePlaceholder': 'Ej: Martes de Descuento',
+  'promotions.descriptionPlaceholder': 'Breve descripción de la promoción...',
+  'promotions.imageUrl': 'Imagen (URL)',
+  'promotions.imageHint': 'Se muestra en la pantalla del cliente entre ventas',
+  'promotions.priority': 'Prioridad',
+  'promotions.priorityHint': 'Mayor = más prioridad. Cada producto recibe una sola promoción',
+  'promotions.rule': 'Regla',
+  'promotions.typeLabel': 'Tipo de Promoción *',
+  'promotions.discountPercent': 'Porcentaje de Descuento *',
+  'promotions.buy': 'Lleva *',
+  'promotions.pay': 'Paga *',
+  'promotions.nxmHint': 'Sale gratis la unidad de menor valor de cada grupo',
+  'promotions.secondUnitPercent': 'Descuento de la segunda unidad (%) *',
+  'promotions.comboPrice': 'Precio del combo *',
+  'promotions.comboProducts': 'Productos del combo *',
+  'promotions.addProduct': 'Agregar producto',
+  'promotions.appliesTo': 'Aplica a',
+  'promotions.productsOrCategories': 'Productos o categorías',
+  'promotions.addProductOption': '+ Agregar producto...',
+  'promotions.minTicketHint': 'Valor del ticket antes de descuentos',
+  'promotions.scheduling': 'Programación',
+  'promotions.scheduleType': 'Tipo de Programación *',
+  'promotions.scheduleDaily': '🌐 Diario (Todos los días)',
+  'promotions.scheduleWeekly': '📅 Semanal (Días específicos)',
+  'promotions.scheduleSpecificDate': '📆 Fecha Específica (Rango)',
+  'promotions.selectDays': 'Selecciona los días de la semana',
+  'promotions.startDate': 'Fecha de Inicio *',
+  'promotions.endDate': 'Fecha de Fin *',
+  'promotions.timeRange': 'Franja horaria (happy hour)',
+  'promotions.timeRangeHint': 'Vacío = todo el día. Puede pasar de la medianoche (ej: 22:00 a 02:00)',
+  'promotions.activateNow': '✅ Activar promoción inmediatamente',
+  'promotions.keepInactive': '⏸️ Mantener promoción inactiva',
+  'promotions.inactiveHint': 'Las promociones inactivas no se aplicarán hasta que las actives manualmente',
+
+  // Inventario
+  'inventory.loadError': 'Error al cargar inventario',
+  'inventory.outOfStock': 'Sin stock',
+  'inventory.lowStock': 'Stock bajo',
+  'inventory.normal': 'Normal',
+  'inventory.quantityPositive': 'La cantidad debe ser mayor a 0',
+  'inventory.productNotFound': 'Producto no encontrado',
+  'inventory.stockAdded': 'Stock agregado correctamente',
+  'inventory.notEnoughStock': 'No hay suficiente stock disponible',
+  'inventory.stockRemoved': 'Stock reducido correctamente',
+  'inventory.adjustError': 'Error al ajustar inventario',
+  'inventory.productLoadError': 'Error al cargar datos del producto',
+  'inventory.templateDownloaded': 'Plantilla descargada',
+  'inventory.emptyFile': 'El archivo está vacío',
+  'inventory.imported': '{count} productos importados correctamente',
+  'inventory.importFailed': '{count} productos no pudieron importarse',
+  'inventory.readError': 'Error al leer el archivo Excel',
+  'inventory.categoryRequired': 'Debe seleccionar una categoría',
+  'inventory.productUpdated': 'Producto actualizado correctamente',
+  'inventory.productUpdateError': 'Error al actualizar producto',
+  'inventory.subtitle': 'Control y gestión de stock',
+  'inventory.template': 'Plantilla',
+  'inventory.import': 'Importar',
+  'inventory.totalProducts': 'Productos totales',
+  'inventory.search': 'Buscar por código o nombre...',
+  'inventory.filter': 'Filtrar',
+  'inventory.categoryFilter': 'Categoría:',
+  'inventory.allCategories': 'Todas',
+  'inventory.statusFilter': 'Estado:',
+  'inventory.clearFilters': 'Limpiar filtros',
+  'inventory.empty': 'No se encontraron productos',
+  'inventory.code': 'Código',
+  'inventory.product': 'Producto',
+  'inventory.currentStock': 'Stock Actual',
+  'inventory.min': 'Mínimo',
+  'inventory.max': 'Máximo',
+  'inventory.location': 'Ubicación',
+  'inventory.editProduct': 'Editar producto',
+  'inventory.stockIn': 'Entrada',
+  'inventory.stockOut': 'Salida',
+  'inventory.editTitle': 'Editar Producto',
+  'inventory.codeLabel': 'Código *',
+  'inventory.barcode': 'Código de Barras',
+  'inventory.categoryLabel': 'Categoría *',
+  'inventory.costPrice': 'Precio Costo *',
+  'inventory.salePrice': 'Precio Venta *',
+  'inventory.image': 'Imagen del Producto',
+  'inventory.imagePlaceholder': 'https://ejemplo.com/imagen.jpg',
+  'inventory.stockSettings': 'Configuración de Stock',
+  'inventory.minStock': 'Stock Mínimo',
+  'inventory.maxStock': 'Stock Máximo',
+  'inventory.adjustHint': 'Para modificar el stock actual, use los botones de Entrada/Salida',
+  'inventory.stockInTitle': 'Entrada de Stock',
+  'inventory.stockOutTitle': 'Salida de Stock',
+  'inventory.currentStockValue': 'Stock actual: {quantity}',
+  'inventory.reasonOptional': 'Razón (opcional)',
+  'inventory.reasonPlaceholder': 'Motivo del ajuste...',
+  'inventory.remove': 'Retirar',
+
+  // Configuración de mesas
+  'tableSettings.zone.interior': 'Interior',
+  'tableSettings.zone.terrace': 'Terraza',
+  'tableSettings.zone.bar': 'Bar',
+  'tableSettings.zone.vip': 'VIP',
+  'tableSettings.zonesSaved': 'Zonas guardadas correctamente',
+  'tableSettings.statusesSaved': 'Estados guardados correctamente',
+  'tableSettings.zoneNameRequired': 'El nombre de la zona es requerido',
+  'tableSettings.deleteZoneConfirm': '¿Eliminar esta zona? Las mesas con esta zona quedarán sin clasificar.',
+  'tableSettings.statusNameRequired': 'El nombre del estado es requerido',
+  'tableSettings.deleteStatusConfirm': '¿Eliminar este estado? Las mesas con este estado quedarán sin clasificar.',
+  'tableSettings.restoreConfirm': '¿Restaurar configuración predeterminada? Se perderán las zonas y estados personalizados.',
+  'tableSettings.restored': 'Configuración restaurada',
+  'tableSettings.title': 'Configuración de Mesas',
+  'tableSettings.subtitle': 'Personaliza zonas y estados de las mesas',
+  'tableSettings.restoreDefaults': 'Restaurar Predeterminados',
+  'tableSettings.zones': 'Zonas de Mesas',
+  'tableSettings.addZone': 'Agregar Zona',
+  'tableSettings.statuses': 'Estados de Mesas',
+  'tableSettings.addStatus': 'Agregar Estado',
+  'tableSettings.statusId': 'ID: {id}',
+  'tableSettings.editZone': 'Editar Zona',
+  'tableSettings.newZone': 'Nueva Zona',
+  'tableSettings.zoneName': 'Nombre de la Zona',
+  'tableSettings.zoneNamePlaceholder': 'Ej: Terraza Principal',
+  'tableSettings.color': 'Color',
+  'tableSettings.color.blue': 'Azul',
+  'tableSettings.color.green': 'Verde',
+  'tableSettings.color.purple': 'Morado',
+  'tableSettings.color.yellow': 'Amarillo',
+  'tableSettings.color.red': 'Rojo',
+  'tableSettings.color.pink': 'Rosa',
+  'tableSettings.color.indigo': 'Índigo',
+  'tableSettings.color.gray': 'Gris',
+  'tableSettings.editStatus': 'Editar Estado',
+  'tableSettings.newStatus': 'Nuevo Estado',
+  'tableSettings.statusName': 'Nombre del Estado',
+  'tableSettings.statusNamePlaceholder': 'Ej: En Limpieza',
+  'tableSettings.bgColor': 'Color Fondo',
+  'tableSettings.textColor': 'Color Texto',
+  'tableSettings.borderColor': 'Color Borde',
+  'tableSettings.preview': 'Vista previa:',
+
+  // Reportes
+  'reports.loadError': 'Error al cargar reportes',
+  'reports.subtitle': 'Análisis y estadísticas de tu negocio',
+  'reports.totalSales': 'Ventas Totales',
+  'reports.transactions': 'Transacciones',
+  'reports.averageTicket': 'Ticket Promedio',
+  'reports.netProfit': 'Ganancia Neta',
+  'reports.serviceCharge': 'Servicio voluntario',
+  'reports.netTotal': 'Total Neto',
+  'reports.refunds': 'Devoluciones (Notas Crédito)',
+  'reports.refundsHint': '{count} notas crédito · descontadas del Total Neto',
+  'reports.giftCards': 'Tarjetas de regalo',
+  'reports.giftCardsLoaded': '{amount} cargado',
+  'reports.giftCardsHint': 'Pasivo, no suma a las ventas · {amount} redimido (ya incluido en ventas)',
+  'reports.tips': 'Propinas',
+  'reports.tipsHint': 'Fuera de las ventas · liquidación en la hoja "{sheet}" del Excel',
+  'reports.tipInvoices': '{count} facturas',
+  'reports.foreignCash': 'Efectivo en divisas',
+  'reports.foreignCashHint': 'Incluido en Efectivo · detalle en la hoja "{sheet}" del Excel',
+  'reports.priceChanges': 'Cambios de precio en caja',
+  'reports.priceChangesHint': '{count} cambios · detalle en la hoja "{sheet}" del Excel',
+  'reports.totalProducts': 'Total Productos',
+  'reports.lowStock': 'Stock Bajo',
+  'reports.outOfStock': 'Sin Stock',
+  'reports.topProducts': '🏆 Productos Más Vendidos',
+  'reports.noData': 'Sin datos para el período',
+  'reports.units': '{count} unidades',
+  'reports.topCustomers': '👥 Mejores Clientes',
+  'reports.purchases': '{count} compras',
+  'reports.paymentMethods': '💳 Métodos de Pago',
+  'reports.methodTransactions': '{count} transacciones ({percent}%)',
+
+  // Errores de la aplicación
+  'errorBoundary.title': 'Error en la aplicación',
+  'errorBoundary.message': 'Ha ocurrido un error inesperado:',
+  'errorBoundary.reload': 'Recargar página',
+}
+
+export type MessageKey = keyof typeof es
@@ -0,0 +1,60 @@
+/**
+ * Traducciones de la interfaz (español / inglés). El idioma es por usuario y se guarda en
+ * localStorage con su id, igual que sus atajos de teclado. `t` funciona fuera de React
+ * (tiquetes, Excel); los componentes usan `useTranslation` para repintarse al cambiarlo.
+ */
+
+import { es, MessageKey } from './es'
+import { en } from './en'
+
+export type { MessageKey }
+export type Language = 'es' | 'en'
+export type MessageParams = Record<string, string | number>
+
+export const LANGUAGES: Array<{ value: Language; label: string; locale: string }> = [
+  { value: 'es', label: 'Español', locale: 'es-CO' },
+  { value: 'en', label: 'English', locale: 'en-US' },
+]
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { es, en }
+
+const LAST_LANGUAGE_KEY = 'pos_language'
+const storageKey = (userId: number) => `pos_language_${userId}`
+
+const isLanguage = (value: unknown): value is Language => LANGUAGES.some((l) => l.value === value)
+
+let current: Language = 'es'
+
+export const getLanguage = () => current
+
+/** Locale de Intl para el idioma activo (números, fechas y moneda) */
+export const getLocale = () => LANGUAGES.find((l) => l.value === current)?.locale || 'es-CO'
+
+export const applyLanguage = (language: Language) => {
+  current = language
+  document.documentElement.lang = language
+}
+
+/** Texto del catálogo activo; `{nombre}` se reemplaza con `params.nombre` */
+export const t = (key: MessageKey, params?: MessageParams) => {
+  const template = CATALOGS[current][key] ?? es[key] ?? key
+  if (!params) return template
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (params[name] != null ? String(params[name]) : match))
+}
+
+/** Idioma del usuario; sin usuario (pantalla de ingreso) se usa el último elegido en la terminal */
+export const loadLanguage = (userId?: number | null): Language => {
+  const saved = userId ? localStorage.getItem(storageKey(userId)) : null
+  if (isLanguage(saved)) return saved
+  const last = localStorage.getItem(LAST_LANGUAGE_KEY)
+  if (isLanguage(last)) return last
+  return navigator.language?.toLowerCase().startsWith('en') ? 'en' : 'es'
+}
+
+export const saveLanguage = (userId: number | null | undefined, language: Language) => {
+  if (userId) localStorage.setItem(storageKey(userId), language)
+  localStorage.setItem(LAST_LANGUAGE_KEY, language)
+}
+
+/** Para claves armadas en tiempo de ejecución (p. ej. `payment.${método}`) */
+export const hasMessage = (key: string): key is MessageKey => key in es
@@ -4,21 +4,25 @@ import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { Eye, EyeOff, LogIn, Store } from 'lucide-react'
-import { login, clearError } from '../store/authSlice'
+import { login, clearError, setLanguage } from '../store/authSlice'
 import { AppDispatch, RootState } from '@/app/store'
 import Button from '@/shared/components/ui/Button'
 import Input from '@/shared/components/ui/Input'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { LANGUAGES, t } from '@/core/i18n'
 
-const loginSchema = z.object({
-  username: z.string().min(1, 'El usuario es requerido'),
-  password: z.string().min(1, 'La contraseña es requerida'),
+// Se arma al validar para que los mensajes salgan en el idioma elegido
+const getLoginSchema = () => z.object({
+  username: z.string().min(1, t('login.usernameRequired')),
+  password: z.string().min(1, t('login.passwordRequired')),
 })
 
-type LoginFormData = z.infer<typeof loginSchema>
+type LoginFormData = z.infer<ReturnType<typeof getLoginSchema>>
 
 const LoginPage = () => {
   const dispatch = useDispatch<AppDispatch>()
   const { isLoading, error } = useSelector((state: RootState) => state.auth)
+  const { language } = useTranslation()
   const [showPassword, setShowPassword] = useState(false)
 
   const {
@@ -26,7 +30,7 @@ const LoginPage = () => {
     handleSubmit,
     formState: { errors },
   } = useForm<LoginFormData>({
-    resolver: zodResolver(loginSchema),
+    resolver: (values, context, options) => zodResolver(getLoginSchema())(values, context, options),
   })
 
   const onSubmit = (data: LoginFormData) => {
@@ -43,7 +47,21 @@ const LoginPage = () => {
               <Store className="w-8 h-8 text-white" />
             </div>
             <h1 className="text-2xl font-bold text-gray-800">POS Morales</h1>
-            <p className="text-gray-500 mt-1">Ingresa tus credenciales para continuar</p>
+            <p className="text-gray-500 mt-1">{t('login.subtitle')}</p>
+            <div className="flex justify-center gap-1 mt-3">
+              {LANGUAGES.map((l) => (
+                <button
+                  key={l.value}
+                  type="button"
+                  onClick={() => dispatch(setLanguage(l.value))}
+                  className={`px-2 py-0.5 rounded-lg text-xs font-medium transition-colors ${
+                    language === l.value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-primary-50'
+                  }`}
+                >
+                  {l.label}
+                </button>
+              ))}
+            </div>
           </div>
 
           {error && (
@@ -54,17 +72,17 @@ const LoginPage = () => {
 
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
             <Input
-              label="Usuario"
-              placeholder="Ingresa tu usuario"
+              label={t('common.user')}
+              placeholder={t('login.usernamePlaceholder')}
               error={errors.username?.message}
               {...register('username')}
             />
 
             <div className="relative">
               <Input
-                label="Contraseña"
+                label={t('common.password')}
                 type={showPassword ? 'text' : 'password'}
-                placeholder="Ingresa tu contraseña"
+                placeholder={t('login.passwordPlaceholder')}
                 error={errors.password?.message}
                 {...register('password')}
               />
@@ -84,7 +102,7 @@ const LoginPage = () => {
               isLoading={isLoading}
             >
               <LogIn size={20} />
-              Iniciar Sesión
+              {t('login.submit')}
             </Button>
           </form>
 
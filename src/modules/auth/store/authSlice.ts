@@ -1,5 +1,6 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
 import { authService } from '../services/authService'
+import { Language, applyLanguage, loadLanguage, saveLanguage } from '@/core/i18n'
 
 interface User {
   id: number
@@ -17,15 +18,22 @@ interface AuthState {
   isAuthenticated: boolean
   isLoading: boolean
   error: string | null
+  /** Idioma de la interfaz del usuario (o el último usado en la terminal si no hay sesión) */
+  language: Language
 }
 
+const storedUser: User | null = JSON.parse(localStorage.getItem('user') || 'null')
+const initialLanguage = loadLanguage(storedUser?.id)
+applyLanguage(initialLanguage)
+
 const initialState: AuthState = {
-  user: JSON.parse(localStorage.getItem('user') || 'null'),
+  user: storedUser,
   accessToken: localStorage.getItem('accessToken'),
   refreshToken: localStorage.getItem('refreshToken'),
   isAuthenticated: !!localStorage.getItem('accessToken'),
   isLoading: false,
   error: null,
+  language: initialLanguage,
 }
 
 export const login = createAsyncThunk(
@@ -70,6 +78,11 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null
     },
+    setLanguage: (state, action: PayloadAction<Language>) => {
+      state.language = action.payload
+      saveLanguage(state.user?.id, action.payload)
+      applyLanguage(action.payload)
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -86,6 +99,8 @@ const authSlice = createSlice({
         localStorage.setItem('user', JSON.stringify(action.payload.user))
         localStorage.setItem('accessToken', action.payload.accessToken)
         localStorage.setItem('refreshToken', action.payload.refreshToken)
+        state.language = loadLanguage(action.payload.user?.id)
+        applyLanguage(state.language)
       })
       .addCase(login.rejected, (state, action) => {
         state.isLoading = false
@@ -109,5 +124,5 @@ const authSlice = createSlice({
   },
 })
 
-export const { logout, clearError } = authSlice.actions
+export const { logout, clearError, setLanguage } = authSlice.actions
 export default authSlice.reducer
@@ -0,0 +1,719 @@
+import { useState, useEffect } from 'react'
+import { useSelector, useDispatch } from 'react-redux'
+import { X, Loader2, Landmark, ArrowDownCircle, ArrowUpCircle, Printer, Lock, CheckCircle, AlertTriangle, Banknote } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { RootState, AppDispatch } from '@/app/store'
+import Button from '@/shared/components/ui/Button'
+import {
+  fetchCurrentSession,
+  openCashSession,
+  addCashMovement,
+  closeCashSession,
+} from '../store/cashSessionSlice'
+import { invoiceService } from '@/core/api/invoiceService'
+import { creditNoteService } from '@/core/api/creditNoteService'
+import { giftCardService } from '@/core/api/giftCardService'
+import { exchangeRateService } from '@/core/api/exchangeRateService'
+import { hasPermission } from '@/core/auth/permissions'
+import { useSupervisorAuth } from '@/core/hooks/useSupervisorAuth'
+import SupervisorAuthModal from '@/shared/components/SupervisorAuthModal'
+import { toLocalDateStr } from '@/shared/components/DateRangeFilter'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { t } from '@/core/i18n'
+import { CashMovementType, CashSession, CreditNote, ExchangeRate, GiftCardTransaction, Invoice } from '@/types'
+import { getPaymentMethodLabel } from '@/shared/utils/payments'
+import { printCashReport, PrintableCashReport } from '@/shared/utils/printInvoice'
+import {
+  DENOMINATIONS,
+  CASH_MOVEMENT_REASONS,
+  CashMovementReason,
+  getCashMovementReasonLabel,
+  CashSessionSummary,
+  countDenominations,
+  summarizeCashSession,
+} from '@/shared/utils/cashRegister'
+import { formatForeignCurrency, getTodayRates } from '@/shared/utils/currency'
+import { formatCurrency, formatDateTime } from '@/shared/utils/format'
+
+/** El backend es la fuente de verdad de lo esperado; el cálculo local es el respaldo */
+const withClosedTotals = (summary: CashSessionSummary, closed: CashSession): CashSessionSummary => ({
+  ...summary,
+  expectedCash: closed.expectedCash != null ? Number(closed.expectedCash) : summary.expectedCash,
+  foreignCash: closed.foreignExpected
+    ? Object.entries(closed.foreignExpected).map(([currency, amount]) => ({
+        currency,
+        amount: Number(amount) || 0,
+        baseAmount: summary.foreignCash.find((f) => f.currency === currency)?.baseAmount || 0,
+      }))
+    : summary.foreignCash,
+})
+
+/** Divisas esperadas y contadas, incluidas las que se contaron sin haberse recibido en el turno */
+const getForeignCashRows = (summary: CashSessionSummary, foreignCounted?: Record<string, number>) =>
+  Array.from(new Set([...summary.foreignCash.map((f) => f.currency), ...Object.keys(foreignCounted || {})]))
+    .map((currency) => ({
+      currency,
+      expected: summary.foreignCash.find((f) => f.currency === currency)?.amount || 0,
+      counted: foreignCounted ? Number(foreignCounted[currency]) || 0 : undefined,
+    }))
+
+const buildReport = (
+  session: CashSession,
+  summary: CashSessionSummary,
+  closing?: { countedCash: number; denominations: Record<string, number>; foreignCounted?: Record<string, number>; closedAt?: string },
+): PrintableCashReport => ({
+  sessionId: session.id,
+  terminalId: session.terminalId,
+  userName: session.userName,
+  openedAt: session.openedAt,
+  closedAt: closing?.closedAt,
+  openingFloat: summary.openingFloat,
+  salesCount: summary.salesCount,
+  salesTotal: summary.salesTotal,
+  byMethod: summary.byMethod,
+  cashSales: summary.cashSales,
+  cashIn: summary.cashIn,
+  cashOut: summary.cashOut,
+  cashRefunds: summary.cashRefunds,
+  giftCardCash: summary.giftCardCash,
+  tips: summary.tips,
+  expectedCash: summary.expectedCash,
+  foreignCash: getForeignCashRows(summary, closing?.foreignCounted),
+  countedCash: closing?.countedCash,
+  difference: closing ? closing.countedCash - summary.expectedCash : undefined,
+  denominations: closing
+    ? DENOMINATIONS.map((d) => {
+        const quantity = Number(closing.denominations[d.key]) || 0
+        return { label: `${d.kind === 'MONEDA' ? t('cash.coinShort') : t('cash.billShort')} ${d.label}`, quantity, subtotal: quantity * d.value }
+      })
+    : undefined,
+})
+
+interface CashMovementModalProps {
+  session: CashSession
+  type: CashMovementType
+  onClose: () => void
+}
+
+const CashMovementModal = ({ session, type, onClose }: CashMovementModalProps) => {
+  const dispatch = useDispatch<AppDispatch>()
+  const { t } = useTranslation()
+  const [amount, setAmount] = useState(0)
+  const [reason, setReason] = useState<CashMovementReason>(CASH_MOVEMENT_REASONS[type][0])
+  const [otherReason, setOtherReason] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const finalReason = reason === 'OTRO' ? otherReason.trim() : getCashMovementReasonLabel(reason)
+  const isIncome = type === 'INGRESO'
+
+  const handleSave = async () => {
+    if (amount <= 0 || !finalReason) return
+    setSaving(true)
+    try {
+      await dispatch(addCashMovement({ sessionId: session.id, movement: { type, amount, reason: finalReason } })).unwrap()
+      toast.success(isIncome ? t('cash.incomeSaved') : t('cash.withdrawalSaved'))
+      onClose()
+    } catch (error: any) {
+      toast.error(error?.message || t('cash.movementError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-gray-800">{isIncome ? t('cash.incomeTitle') : t('cash.withdrawalTitle')}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('cash.amount')}</label>
+        <input
+          type="number"
+          min={0}
+          value={amount || ''}
+          onChange={(e) => setAmount(Math.max(0, Number(e.target.value) || 0))}
+          className="input-field mb-4"
+          placeholder="$0"
+          autoFocus
+        />
+
+        <label className="block text-sm font-medium text-gray-700 mb-2">{t('cash.reason')}</label>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {CASH_MOVEMENT_REASONS[type].map((r) => (
+            <button
+              key={r}
+              type="button"
+              onClick={() => setReason(r)}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                reason === r ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-600 hover:border-primary-200'
+              }`}
+            >
+              {getCashMovementReasonLabel(r)}
+            </button>
+          ))}
+        </div>
+        {reason === 'OTRO' && (
+          <input
+            type="text"
+            value={otherReason}
+            onChange={(e) => setOtherReason(e.target.value)}
+            className="input-field mb-3"
+            placeholder={t('cash.otherReasonPlaceholder')}
+          />
+        )}
+
+        <div className="flex gap-3 mt-4">
+          <Button variant="secondary" className="flex-1" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="primary" className="flex-1" onClick={handleSave} disabled={amount <= 0 || !finalReason || saving}>
+            {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : t('cash.register')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface CloseSessionModalProps {
+  session: CashSession
+  /** Se recalcula al confirmar el conteo para no mostrar el esperado antes de tiempo */
+  loadSummary: (session: CashSession) => Promise<CashSessionSummary>
+  onClose: () => void
+}
+
+/**
+ * Cierre con arqueo ciego: el cajero cuenta por denominación sin ver el efectivo esperado;
+ * el sobrante o faltante se muestra solo después de confirmar el conteo.
+ */
+const CloseSessionModal = ({ session, loadSummary, onClose }: CloseSessionModalProps) => {
+  const dispatch = useDispatch<AppDispatch>()
+  const { t } = useTranslation()
+  const foreignCurrencies = useSelector((state: RootState) => state.settings.company.foreignCurrencies)
+  const [counts, setCounts] = useState<Record<string, number>>({})
+  const [foreignCounted, setForeignCounted] = useState<Record<string, number>>({})
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [result, setResult] = useState<{ summary: CashSessionSummary; closed: CashSession } | null>(null)
+
+  const countedCash = countDenominations(counts)
+
+  const handleConfirm = async () => {
+    if (!confirm(t('cash.confirmClose', { amount: formatCurrency(countedCash) }))) return
+    setSaving(true)
+    try {
+      const summary = await loadSummary(session)
+      const closed = await dispatch(closeCashSession({
+        sessionId: session.id,
+        request: {
+          denominations: counts,
+          countedCash,
+          foreignCounted: foreignCurrencies.length > 0 ? foreignCounted : undefined,
+          notes: notes.trim() || undefined,
+        },
+      })).unwrap()
+      setResult({ summary, closed })
+    } catch (error: any) {
+      toast.error(error?.message || t('cash.closeError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePrintZ = () => {
+    if (!result) return
+    printCashReport('Z', buildReport(session, withClosedTotals(result.summary, result.closed), {
+      countedCash,
+      denominations: counts,
+      foreignCounted,
+      closedAt: result.closed.closedAt || new Date().toISOString(),
+    })).catch(() => toast.error(t('receipt.printFailed')))
+  }
+
+  if (result) {
+    const summary = withClosedTotals(result.summary, result.closed)
+    const expected = summary.expectedCash
+    const difference = result.closed.difference != null ? Number(result.closed.difference) : countedCash - expected
+    const balanced = Math.abs(difference) < 0.5
+    return (
+      <div className="modal-overlay">
+        <div className="modal-content p-6 animate-scale-in">
+          <div className="text-center mb-6">
+            {balanced ? (
+              <CheckCircle className="w-14 h-14 text-green-500 mx-auto mb-2" />
+            ) : (
+              <AlertTriangle className="w-14 h-14 text-amber-500 mx-auto mb-2" />
+            )}
+            <h3 className="text-xl font-bold text-gray-800">{t('cash.sessionClosed')}</h3>
+          </div>
+          <div className="space-y-2 mb-6">
+            <div className="flex justify-between text-gray-600">
+              <span>{t('cash.expectedCash')}</span>
+              <span className="font-medium">{formatCurrency(expected)}</span>
+            </div>
+            <div className="flex justify-between text-gray-600">
+              <span>{t('cash.countedCash')}</span>
+              <span className="font-medium">{formatCurrency(countedCash)}</span>
+            </div>
+            <div className={`flex justify-between text-lg font-bold pt-2 border-t border-primary-100 ${
+              balanced ? 'text-green-600' : difference > 0 ? 'text-blue-600' : 'text-red-600'
+            }`}>
+              <span>{balanced ? t('cash.balanced') : difference > 0 ? t('cash.over') : t('cash.short')}</span>
+              <span>{formatCurrency(Math.abs(difference))}</span>
+            </div>
+            {getForeignCashRows(summary, foreignCounted).map((f) => {
+              const foreignDifference = Math.round(((f.counted || 0) - f.expected) * 100) / 100
+              return (
+                <div key={f.currency} className="pt-2 border-t border-primary-100 text-sm">
+                  <div className="flex justify-between text-gray-600">
+                    <span>{t('cash.foreignExpectedCounted', { currency: f.currency })}</span>
+                    <span className="font-medium">
+                      {formatForeignCurrency(f.expected, f.currency)} / {formatForeignCurrency(f.counted || 0, f.currency)}
+                    </span>
+                  </div>
+                  {foreignDifference !== 0 && (
+                    <div className={`flex justify-between font-semibold ${foreignDifference > 0 ? 'text-blue-600' : 'text-red-600'}`}>
+                      <span>{t('cash.foreignDifference', { label: foreignDifference > 0 ? t('cash.over') : t('cash.short'), currency: f.currency })}</span>
+                      <span>{formatForeignCurrency(Math.abs(foreignDifference), f.currency)}</span>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+          <div className="flex gap-3">
+            <Button variant="secondary" className="flex-1" onClick={handlePrintZ}>
+              <Printer size={18} /> {t('cash.printZ')}
+            </Button>
+            <Button variant="primary" className="flex-1" onClick={onClose}>
+              {t('cash.finish')}
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 flex flex-col animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{t('cash.closeTitle')}</h3>
+            <p className="text-sm text-gray-500">{t('cash.closeSubtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {(['BILLETE', 'MONEDA'] as const).map((kind) => (
+            <div key={kind} className="mb-4">
+              <h4 className="text-sm font-semibold text-gray-600 mb-2">{kind === 'BILLETE' ? t('cash.bills') : t('cash.coins')}</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {DENOMINATIONS.filter((d) => d.kind === kind).map((d) => (
+                  <div key={d.key} className="flex items-center gap-2 p-2 rounded-xl bg-gray-50">
+                    <span className="w-20 text-sm font-medium text-gray-700">{d.label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={counts[d.key] || ''}
+                      onChange={(e) => setCounts({ ...counts, [d.key]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                      className="input-field py-1.5 text-right"
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          {foreignCurrencies.length > 0 && (
+            <div className="mb-4">
+              <h4 className="text-sm font-semibold text-gray-600 mb-2">{t('cash.foreignSeparate')}</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {foreignCurrencies.map((currency) => (
+                  <div key={currency} className="flex items-center gap-2 p-2 rounded-xl bg-gray-50">
+                    <span className="w-20 text-sm font-medium text-gray-700">{currency}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={foreignCounted[currency] || ''}
+                      onChange={(e) => setForeignCounted({ ...foreignCounted, [currency]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="input-field py-1.5 text-right"
+                      placeholder="0.00"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="input-field"
+            placeholder={t('cash.notesPlaceholder')}
+          />
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-primary-100">
+          <div className="flex justify-between text-lg font-bold text-gray-800 mb-3">
+            <span>{t('cash.totalCounted')}</span>
+            <span>{formatCurrency(countedCash)}</span>
+          </div>
+          <Button variant="danger" className="w-full" onClick={handleConfirm} disabled={saving}>
+            {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Lock size={18} /> {t('cash.confirmCount')}</>}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface ExchangeRateModalProps {
+  currency: string
+  current?: ExchangeRate
+  onSave: (rate: number) => Promise<boolean>
+  onClose: () => void
+}
+
+/** Tasa del día para recibir efectivo en divisa; guardarla requiere `pos.exchange_rate` o un supervisor */
+const ExchangeRateModal = ({ currency, current, onSave, onClose }: ExchangeRateModalProps) => {
+  const { t } = useTranslation()
+  const [rate, setRate] = useState(Number(current?.rate) || 0)
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    if (rate <= 0) return
+    setSaving(true)
+    try {
+      if (await onSave(rate)) onClose()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-gray-800">{t('cash.rateTitle', { currency })}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('cash.rateLabel', { currency })}</label>
+        <input
+          type="number"
+          min={0}
+          value={rate || ''}
+          onChange={(e) => setRate(Math.max(0, Number(e.target.value) || 0))}
+          className="input-field mb-2"
+          placeholder="$0"
+          autoFocus
+        />
+        <p className="text-xs text-gray-400 mb-4">
+          {rate > 0 ? `${formatForeignCurrency(100, currency)} = ${formatCurrency(rate * 100)}` : t('cash.rateHint')}
+        </p>
+
+        <div className="flex gap-3">
+          <Button variant="secondary" className="flex-1" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="primary" className="flex-1" onClick={handleSave} disabled={rate <= 0 || saving}>
+            {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : t('cash.saveRate')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const CashRegisterPage = () => {
+  const dispatch = useDispatch<AppDispatch>()
+  const { user } = useSelector((state: RootState) => state.auth)
+  const { current: session, terminalId, isLoading, checked } = useSelector((state: RootState) => state.cashSession)
+  const company = useSelector((state: RootState) => state.settings.company)
+  const supervisorAuth = useSupervisorAuth()
+  const { t } = useTranslation()
+  const [openingFloat, setOpeningFloat] = useState(0)
+  const [opening, setOpening] = useState(false)
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null)
+  // Se guarda aparte porque el turno sale del store al cerrarse y el modal muestra el resultado
+  const [closingSession, setClosingSession] = useState<CashSession | null>(null)
+  const [printingX, setPrintingX] = useState(false)
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+  const [rateCurrency, setRateCurrency] = useState<string | null>(null)
+
+  const canViewTotals = hasPermission(user, 'reports.view')
+
+  useEffect(() => {
+    dispatch(fetchCurrentSession())
+  }, [dispatch])
+
+  const fetchExchangeRates = async () => {
+    try {
+      const res = await exchangeRateService.getToday()
+      setExchangeRates(Array.isArray(res) ? res : [])
+    } catch {
+      // Sin tasas: la tarjeta muestra las divisas sin tasa
+    }
+  }
+
+  useEffect(() => {
+    if (company.foreignCurrencies.length > 0) fetchExchangeRates()
+  }, [company.foreignCurrencies.length])
+
+  const todayRates = getTodayRates(exchangeRates, company.foreignCurrencies)
+
+  const handleSaveRate = async (currency: string, rate: number) => {
+    const approval = await supervisorAuth.authorize({
+      action: 'TASA_CAMBIO',
+      permission: 'pos.exchange_rate',
+      description: t('cash.rateAuthDescription', { currency, rate: formatCurrency(rate) }),
+      reference: currency,
+    })
+    if (!approval) return false
+    try {
+      await exchangeRateService.set({ currency, rate, authorizationId: approval.authorizationId })
+      toast.success(t('cash.rateSaved', { currency }))
+      fetchExchangeRates()
+      return true
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('cash.rateError'))
+      return false
+    }
+  }
+
+  // Si falta alguna fuente el esperado quedaría mal, así que se bloquea el reporte y el cierre
+  const loadSummary = async (session: CashSession): Promise<CashSessionSummary> => {
+    const start = `${toLocalDateStr(new Date(session.openedAt))}T00:00:00`
+    const end = `${toLocalDateStr(new Date())}T23:59:59`
+    const [invoices, creditNotes, giftCardTransactions] = await Promise.all([
+      invoiceService.getByDateRange(start, end),
+      creditNoteService.getByDateRange(start, end),
+      giftCardService.getTransactionsByDateRange(start, end),
+    ]).catch(() => {
+      throw new Error(t('cash.summaryLoadError'))
+    })
+    return summarizeCashSession(
+      session,
+      invoices as Invoice[],
+      creditNotes as CreditNote[],
+      giftCardTransactions as GiftCardTransaction[],
+    )
+  }
+
+  const handleOpen = async () => {
+    setOpening(true)
+    try {
+      await dispatch(openCashSession(openingFloat)).unwrap()
+      toast.success(t('cash.opened'))
+      setOpeningFloat(0)
+    } catch (error: any) {
+      toast.error(error?.message || t('cash.openError'))
+    } finally {
+      setOpening(false)
+    }
+  }
+
+  const handlePrintX = async () => {
+    if (!session) return
+    setPrintingX(true)
+    try {
+      await printCashReport('X', buildReport(session, await loadSummary(session)))
+    } catch (error: any) {
+      toast.error(error?.message || t('cash.reportXError'))
+    } finally {
+      setPrintingX(false)
+    }
+  }
+
+  if (!checked && isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-800">{t('cash.title')}</h1>
+        <p className="text-gray-500">{t('cash.subtitle', { terminal: terminalId })}</p>
+      </div>
+
+      {company.foreignCurrencies.length > 0 && (
+        <div className="card max-w-md">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-r from-green-500 to-green-600 flex items-center justify-center shadow-soft">
+              <Banknote className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-800">{t('cash.todayRates')}</h3>
+              <p className="text-sm text-gray-500">{t('cash.todayRatesHint', { currency: company.currency })}</p>
+            </div>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {company.foreignCurrencies.map((currency) => {
+              const rate = todayRates.find((r) => r.currency === currency)
+              return (
+                <div key={currency} className="flex items-center justify-between gap-3 py-2">
+                  <div>
+                    <p className="font-medium text-gray-800">
+                      {currency} {rate ? formatCurrency(Number(rate.rate)) : <span className="text-sm font-normal text-amber-600">{t('cash.noRateToday')}</span>}
+                    </p>
+                    {rate && (
+                      <p className="text-xs text-gray-400">{rate.setByName ? `${rate.setByName} · ` : ''}{formatDateTime(rate.createdAt)}</p>
+                    )}
+                  </div>
+                  <Button variant="secondary" onClick={() => setRateCurrency(currency)}>
+                    {rate ? t('cash.fixRate') : t('cash.setRate')}
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {!session ? (
+        <div className="card max-w-md">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-r from-primary-500 to-primary-600 flex items-center justify-center shadow-soft">
+              <Landmark className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-800">{t('cash.openTitle')}</h3>
+              <p className="text-sm text-gray-500">{t('cash.noSession', { name: user?.fullName || user?.username || '' })}</p>
+            </div>
+          </div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('cash.openingFloatLabel')}</label>
+          <input
+            type="number"
+            min={0}
+            value={openingFloat || ''}
+            onChange={(e) => setOpeningFloat(Math.max(0, Number(e.target.value) || 0))}
+            className="input-field mb-4"
+            placeholder="$0"
+          />
+          <Button variant="primary" className="w-full" onClick={handleOpen} disabled={opening}>
+            {opening ? <Loader2 className="w-5 h-5 animate-spin" /> : t('cash.openSession')}
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="card">
+              <p className="text-sm text-gray-500">{t('cash.session')}</p>
+              <p className="text-lg font-bold text-gray-800">#{session.id}</p>
+              <p className="text-xs text-gray-400">{t('cash.since', { date: formatDateTime(session.openedAt) })}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-500">{t('cash.openingFloat')}</p>
+              <p className="text-lg font-bold text-gray-800">{formatCurrency(session.openingFloat)}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-500">{t('cash.incomes')}</p>
+              <p className="text-lg font-bold text-green-600">
+                {formatCurrency(session.movements.filter((m) => m.type === 'INGRESO').reduce((acc, m) => acc + Number(m.amount), 0))}
+              </p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-500">{t('cash.withdrawals')}</p>
+              <p className="text-lg font-bold text-red-600">
+                {formatCurrency(session.movements.filter((m) => m.type === 'RETIRO').reduce((acc, m) => acc + Number(m.amount), 0))}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <Button variant="secondary" onClick={() => setMovementType('INGRESO')}>
+              <ArrowDownCircle size={18} /> {t('cash.income')}
+            </Button>
+            <Button variant="secondary" onClick={() => setMovementType('RETIRO')}>
+              <ArrowUpCircle size={18} /> {t('cash.withdrawal')}
+            </Button>
+            {canViewTotals && (
+              <Button variant="secondary" onClick={handlePrintX} disabled={printingX}>
+                {printingX ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Printer size={18} /> {t('cash.reportX')}</>}
+              </Button>
+            )}
+            <Button variant="danger" onClick={() => setClosingSession(session)}>
+              <Lock size={18} /> {t('cash.closeRegister')}
+            </Button>
+          </div>
+
+          <div className="card overflow-x-auto p-0">
+            {session.movements.length === 0 ? (
+              <div className="flex items-center justify-center py-12 text-gray-400">
+                {t('cash.noMovements')}
+              </div>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-primary-50">
+                    <th className="table-header">{t('cash.date')}</th>
+                    <th className="table-header">{t('cash.type')}</th>
+                    <th className="table-header">{t('cash.reason')}</th>
+                    <th className="table-header">{t('common.user')}</th>
+                    <th className="table-header text-right">{t('cash.amount')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {session.movements.map((m) => (
+                    <tr key={m.id} className="hover:bg-primary-50/50 transition-colors">
+                      <td className="table-cell text-gray-500">{formatDateTime(m.createdAt)}</td>
+                      <td className="table-cell">
+                        <span className={m.type === 'INGRESO' ? 'badge-success' : 'badge-danger'}>
+                          {m.type === 'INGRESO' ? t('cash.income') : t('cash.withdrawal')}
+                        </span>
+                      </td>
+                      <td className="table-cell">{m.reason}</td>
+                      <td className="table-cell text-gray-500">{m.userName || '-'}</td>
+                      <td className={`table-cell text-right font-semibold ${m.type === 'INGRESO' ? 'text-green-600' : 'text-red-600'}`}>
+                        {m.type === 'INGRESO' ? '+' : '-'}{formatCurrency(m.amount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+          <p className="text-xs text-gray-400">
+            {t('cash.nonCashHint', { method: getPaymentMethodLabel('EFECTIVO').toLowerCase() })}
+          </p>
+        </>
+      )}
+
+      {session && movementType && (
+        <CashMovementModal session={session} type={movementType} onClose={() => setMovementType(null)} />
+      )}
+
+      {closingSession && (
+        <CloseSessionModal session={closingSession} loadSummary={loadSummary} onClose={() => setClosingSession(null)} />
+      )}
+
+      {rateCurrency && (
+        <ExchangeRateModal
+          currency={rateCurrency}
+          current={todayRates.find((r) => r.currency === rateCurrency)}
+          onSave={(rate) => handleSaveRate(rateCurrency, rate)}
+          onClose={() => setRateCurrency(null)}
+        />
+      )}
+
+      <SupervisorAuthModal {...supervisorAuth.modalProps} />
+    </div>
+  )
+}
+
+export default CashRegisterPage
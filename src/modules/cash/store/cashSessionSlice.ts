@@ -0,0 +1,79 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
+import { cashSessionService, CashMovementRequest, CloseCashSessionRequest } from '@/core/api/cashSessionService'
+import { getTerminalId } from '@/shared/utils/cashRegister'
+import { CashSession } from '@/types'
+import type { RootState } from '@/app/store'
+
+interface CashSessionState {
+  terminalId: string
+  current: CashSession | null
+  isLoading: boolean
+  /** Ya se consultó el turno al menos una vez (evita mostrar el aviso antes de saberlo) */
+  checked: boolean
+}
+
+const initialState: CashSessionState = {
+  terminalId: getTerminalId(),
+  current: null,
+  isLoading: false,
+  checked: false,
+}
+
+export const fetchCurrentSession = createAsyncThunk('cashSession/fetchCurrent', async (_, { getState }) => {
+  const { terminalId } = (getState() as RootState).cashSession
+  const session = (await cashSessionService.getCurrent(terminalId)) as unknown as CashSession | null
+  return session || null
+})
+
+export const openCashSession = createAsyncThunk('cashSession/open', async (openingFloat: number, { getState }) => {
+  const { terminalId } = (getState() as RootState).cashSession
+  return (await cashSessionService.open({ terminalId, openingFloat })) as unknown as CashSession
+})
+
+export const addCashMovement = createAsyncThunk(
+  'cashSession/addMovement',
+  async ({ sessionId, movement }: { sessionId: number; movement: CashMovementRequest }) => {
+    await cashSessionService.addMovement(sessionId, movement)
+    // Se recarga el turno completo para mantener los totales del backend
+    return (await cashSessionService.getById(sessionId)) as unknown as CashSession
+  },
+)
+
+export const closeCashSession = createAsyncThunk(
+  'cashSession/close',
+  async ({ sessionId, request }: { sessionId: number; request: CloseCashSessionRequest }) => {
+    return (await cashSessionService.close(sessionId, request)) as unknown as CashSession
+  },
+)
+
+const cashSessionSlice = createSlice({
+  name: 'cashSession',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchCurrentSession.pending, (state) => {
+        state.isLoading = true
+      })
+      .addCase(fetchCurrentSession.fulfilled, (state, action) => {
+        state.current = action.payload
+        state.isLoading = false
+        state.checked = true
+      })
+      .addCase(fetchCurrentSession.rejected, (state) => {
+        state.isLoading = false
+        state.checked = true
+      })
+      .addCase(openCashSession.fulfilled, (state, action) => {
+        state.current = action.payload
+      })
+      .addCase(addCashMovement.fulfilled, (state, action) => {
+        state.current = action.payload
+      })
+      .addCase(closeCashSession.fulfilled, (state) => {
+        state.current = null
+      })
+  },
+})
+
+export default cashSessionSlice.reducer
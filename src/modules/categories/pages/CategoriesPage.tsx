@@ -6,6 +6,8 @@ import Input from '@/shared/components/ui/Input'
 import { categoryService } from '@/core/api/categoryService'
 import { productService } from '@/core/api/productService'
 import { Category, Product } from '@/types'
+import { formatCurrency } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 interface CategoryFormData {
   name: string
@@ -26,6 +28,7 @@ const initialFormData: CategoryFormData = {
 }
 
 const CategoriesPage = () => {
+  const { t } = useTranslation()
   const [categories, setCategories] = useState<Category[]>([])
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
@@ -65,10 +68,10 @@ const CategoriesPage = () => {
   const handleToggleActive = async (category: Category) => {
     try {
       await categoryService.update(category.id, { isActive: !category.isActive })
-      toast.success(`Categoría ${!category.isActive ? 'activada' : 'desactivada'}`)
+      toast.success(!category.isActive ? t('categories.activated') : t('categories.deactivated'))
       fetchCategories()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al actualizar estado')
+      toast.error(error.response?.data?.message || t('common.statusUpdateError'))
     }
   }
 
@@ -94,7 +97,7 @@ const CategoriesPage = () => {
       setCategories(enriched)
     } catch (error) {
       console.error('Error loading categories:', error)
-      toast.error('Error al cargar categorías')
+      toast.error(t('categories.loadError'))
     } finally {
       setLoading(false)
     }
@@ -120,14 +123,14 @@ const CategoriesPage = () => {
   }
 
   const handleDelete = async (category: Category) => {
-    if (!confirm(`¿Eliminar la categoría "${category.name}"?`)) return
+    if (!confirm(t('categories.confirmDelete', { name: category.name }))) return
     
     try {
       await categoryService.delete(category.id)
-      toast.success('Categoría eliminada')
+      toast.success(t('categories.deleted'))
       fetchCategories()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al eliminar categoría')
+      toast.error(error.response?.data?.message || t('categories.deleteError'))
     }
   }
 
@@ -138,16 +141,16 @@ const CategoriesPage = () => {
     try {
       if (selectedCategory) {
         await categoryService.update(selectedCategory.id, formData)
-        toast.success('Categoría actualizada')
+        toast.success(t('categories.updated'))
       } else {
         await categoryService.create(formData)
-        toast.success('Categoría creada')
+        toast.success(t('categories.created'))
       }
       
       setShowModal(false)
       fetchCategories()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al guardar categoría')
+      toast.error(error.response?.data?.message || t('categories.saveError'))
     } finally {
       setSaving(false)
     }
@@ -162,25 +165,22 @@ const CategoriesPage = () => {
       setCategoryProducts(res as Product[])
     } catch (error) {
       console.error('Error loading products:', error)
-      toast.error('Error al cargar productos')
+      toast.error(t('categories.productsError'))
     } finally {
       setLoadingProducts(false)
     }
   }
 
-  const formatCurrency = (value: number) => 
-    new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(value)
-
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-800">Categorías</h1>
-          <p className="text-gray-500">Organiza tus productos por categorías</p>
+          <h1 className="text-2xl font-bold text-gray-800">{t('nav.categories')}</h1>
+          <p className="text-gray-500">{t('categories.subtitle')}</p>
         </div>
         <Button variant="primary" onClick={openNewCategory}>
           <Plus size={20} />
-          Nueva Categoría
+          {t('categories.new')}
         </Button>
       </div>
 
@@ -190,7 +190,7 @@ const CategoriesPage = () => {
         </div>
       ) : categories.length === 0 ? (
         <div className="flex items-center justify-center py-12 text-gray-400">
-          No hay categorías registradas
+          {t('categories.empty')}
         </div>
       ) : (
         <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
@@ -216,7 +216,7 @@ const CategoriesPage = () => {
                 </div>
               </div>
               <h3 className="font-semibold text-gray-800 text-sm truncate" title={category.name}>{category.name}</h3>
-              <p className="text-gray-400 text-xs mb-2 line-clamp-1">{category.description || 'Sin descripción'}</p>
+              <p className="text-gray-400 text-xs mb-2 line-clamp-1">{category.description || t('common.noDescription')}</p>
               <div className="flex items-center justify-between pt-2 border-t border-primary-100">
                 <button 
                   onClick={() => viewCategoryProducts(category)}
@@ -228,9 +228,9 @@ const CategoriesPage = () => {
                 <button
                   onClick={() => handleToggleActive(category)}
                   className={`text-xs px-2 py-0.5 rounded-full transition-colors ${category.isActive ? 'bg-green-100 text-green-600 hover:bg-green-200' : 'bg-red-100 text-red-600 hover:bg-red-200'}`}
-                  title="Cambiar estado"
+                  title={t('common.toggleStatus')}
                 >
-                  {category.isActive ? 'Activa' : 'Inactiva'}
+                  {category.isActive ? t('categories.active') : t('categories.inactive')}
                 </button>
               </div>
             </div>
@@ -245,9 +245,9 @@ const CategoriesPage = () => {
             <div className="flex items-center justify-between mb-4">
               <div>
                 <h3 className="text-xl font-bold text-gray-800">
-                  Productos en "{viewingCategory.name}"
+                  {t('categories.productsIn', { name: viewingCategory.name })}
                 </h3>
-                <p className="text-sm text-gray-500">{categoryProducts.length} productos encontrados</p>
+                <p className="text-sm text-gray-500">{t('categories.productsFound', { count: categoryProducts.length })}</p>
               </div>
               <button 
                 onClick={() => {
@@ -269,7 +269,7 @@ const CategoriesPage = () => {
               ) : categoryProducts.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-12 text-gray-400">
                   <Package size={48} className="mb-2 opacity-50" />
-                  <p>No hay productos en esta categoría</p>
+                  <p>{t('categories.noProducts')}</p>
                 </div>
               ) : (
                 <div className="space-y-2">
@@ -282,12 +282,12 @@ const CategoriesPage = () => {
                       </div>
                       <div className="flex-1">
                         <p className="font-medium text-gray-800">{product.name}</p>
-                        <p className="text-xs text-gray-500">Código: {product.code}</p>
+                        <p className="text-xs text-gray-500">{t('common.codeValue', { code: product.code })}</p>
                       </div>
                       <div className="text-right">
                         <p className="font-semibold text-primary-600">{formatCurrency(product.salePrice)}</p>
                         <p className="text-xs text-gray-500">
-                          Stock: {product.stockQuantity ?? product.inventory?.quantity ?? 0}
+                          {t('common.stockValue', { quantity: product.stockQuantity ?? product.inventory?.quantity ?? 0 })}
                         </p>
                       </div>
                     </div>
@@ -306,7 +306,7 @@ const CategoriesPage = () => {
                   setCategoryProducts([])
                 }}
               >
-                Cerrar
+                {t('common.close')}
               </Button>
             </div>
           </div>
@@ -319,7 +319,7 @@ const CategoriesPage = () => {
           <div className="modal-content p-6 animate-scale-in">
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-xl font-bold text-gray-800">
-                {selectedCategory ? 'Editar Categoría' : 'Nueva Categoría'}
+                {selectedCategory ? t('categories.edit') : t('categories.new')}
               </h3>
               <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
@@ -328,31 +328,31 @@ const CategoriesPage = () => {
 
             <form onSubmit={handleSubmit} className="space-y-4">
               <Input
-                label="Nombre *"
+                label={t('common.nameRequired')}
                 value={formData.name}
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                 required
               />
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Descripción</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.description')}</label>
                 <textarea
                   value={formData.description}
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                   className="input-field min-h-[80px]"
-                  placeholder="Descripción de la categoría..."
+                  placeholder={t('categories.descriptionPlaceholder')}
                 />
               </div>
 
               <Input
-                label="Icono/Emoji"
+                label={t('categories.icon')}
                 value={formData.imageUrl}
                 onChange={(e) => setFormData({ ...formData, imageUrl: e.target.value })}
                 placeholder="🏷️"
               />
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Elegir icono</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t('categories.pickIcon')}</label>
                 <div className="grid grid-cols-10 gap-2">
                   {iconOptions.map((icon, index) => (
                     <button
@@ -373,13 +373,13 @@ const CategoriesPage = () => {
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Categoría Padre</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('categories.parent')}</label>
                 <select
                   value={formData.parentId || ''}
                   onChange={(e) => setFormData({ ...formData, parentId: e.target.value ? Number(e.target.value) : null })}
                   className="input-field"
                 >
-                  <option value="">Ninguna (categoría raíz)</option>
+                  <option value="">{t('categories.noParent')}</option>
                   {categories.filter(c => c.id !== selectedCategory?.id).map((cat) => (
                     <option key={cat.id} value={cat.id}>{cat.name}</option>
                   ))}
@@ -394,15 +394,15 @@ const CategoriesPage = () => {
                   onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
                   className="w-4 h-4 rounded border-gray-300"
                 />
-                <label htmlFor="categoryIsActive" className="text-sm text-gray-700">Categoría activa</label>
+                <label htmlFor="categoryIsActive" className="text-sm text-gray-700">{t('categories.isActive')}</label>
               </div>
 
               <div className="flex justify-end gap-3 pt-4">
                 <Button type="button" variant="secondary" onClick={() => setShowModal(false)}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
                 <Button type="submit" variant="primary" disabled={saving}>
-                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> Guardando...</> : 'Guardar'}
+                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> {t('common.saving')}</> : t('common.save')}
                 </Button>
               </div>
             </form>
@@ -1,10 +1,19 @@
 import { useState, useEffect } from 'react'
-import { Plus, Search, Edit2, Trash2, X, Loader2 } from 'lucide-react'
+import { useSelector } from 'react-redux'
+import { useLocation } from 'react-router-dom'
+import { Plus, Search, Edit2, Trash2, X, Loader2, Award } from 'lucide-react'
 import toast from 'react-hot-toast'
+import { RootState } from '@/app/store'
 import Button from '@/shared/components/ui/Button'
 import Input from '@/shared/components/ui/Input'
 import { customerService } from '@/core/api/customerService'
-import { Customer } from '@/types'
+import { loyaltyService } from '@/core/api/loyaltyService'
+import { priceListService } from '@/core/api/priceListService'
+import { hasPermission } from '@/core/auth/permissions'
+import { Customer, LoyaltyTransaction, PriceList } from '@/types'
+import { LoyaltyConfig, getLoyaltyTransactionLabel, getCustomerLoyalty, pointsToAmount } from '@/shared/utils/loyalty'
+import { formatCurrency, formatDate } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 interface CustomerFormData {
   documentType: string
@@ -16,6 +25,7 @@ interface CustomerFormData {
   city: string
   notes: string
   creditLimit: number
+  priceListId: number | null
   isActive: boolean
 }
 
@@ -29,20 +39,156 @@ const initialFormData: CustomerFormData = {
   city: '',
   notes: '',
   creditLimit: 0,
+  priceListId: null,
   isActive: true
 }
 
+interface LoyaltyHistoryModalProps {
+  customer: Customer
+  config: LoyaltyConfig
+  canAdjust: boolean
+  onClose: () => void
+  onAdjusted: () => void
+}
+
+const LoyaltyHistoryModal = ({ customer, config, canAdjust, onClose, onAdjusted }: LoyaltyHistoryModalProps) => {
+  const { t } = useTranslation()
+  const [transactions, setTransactions] = useState<LoyaltyTransaction[]>([])
+  const [loading, setLoading] = useState(true)
+  const [adjustPoints, setAdjustPoints] = useState(0)
+  const [adjustNotes, setAdjustNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const { balance, tier } = getCustomerLoyalty(config, customer)
+
+  useEffect(() => {
+    loyaltyService.getTransactions(customer.id)
+      .then((res) => setTransactions(res as LoyaltyTransaction[]))
+      .catch(() => toast.error(t('customers.pointsHistoryError')))
+      .finally(() => setLoading(false))
+  }, [customer.id])
+
+  const handleAdjust = async () => {
+    if (!adjustPoints || !adjustNotes.trim()) return
+    if (balance + adjustPoints < 0) {
+      toast.error(t('customers.negativeAdjust'))
+      return
+    }
+    setSaving(true)
+    try {
+      await loyaltyService.adjust(customer.id, { points: adjustPoints, notes: adjustNotes.trim() })
+      toast.success(t('customers.adjustSaved'))
+      onAdjusted()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('customers.adjustError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{t('customers.pointsOf', { name: customer.fullName })}</h3>
+            <p className="text-gray-500">
+              {t('customers.pointsWorth', { points: balance, amount: formatCurrency(pointsToAmount(config, balance)) })}
+              {tier && ` · ${t('customers.tierName', { name: tier.name })}`}
+            </p>
+            {(customer.loyaltyExpiringPoints || 0) > 0 && customer.loyaltyNextExpiration && (
+              <p className="text-xs text-amber-600">
+                {t('customers.pointsExpiring', { points: customer.loyaltyExpiringPoints || 0, date: formatDate(customer.loyaltyNextExpiration) })}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="text-sm text-gray-400 py-4 text-center">{t('customers.noPointsTransactions')}</p>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {transactions.map((tx) => (
+              <div key={tx.id} className="flex items-center justify-between p-3 rounded-xl bg-gray-50 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {getLoyaltyTransactionLabel(tx.type)}
+                    {tx.invoiceNumber && <span className="font-mono text-gray-500"> · {tx.invoiceNumber}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(tx.createdAt)}
+                    {tx.expiresAt && ` · ${t('customers.expiresOn', { date: formatDate(tx.expiresAt) })}`}
+                    {tx.userName && ` · ${tx.userName}`}
+                    {tx.notes && ` · ${tx.notes}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={`font-semibold ${tx.points >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {tx.points >= 0 ? '+' : ''}{tx.points}
+                  </p>
+                  <p className="text-xs text-gray-500">{t('customers.balanceAfter', { points: tx.balanceAfter })}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canAdjust && (
+          <div className="pt-4 border-t border-gray-100">
+            <h4 className="text-sm font-semibold text-gray-600 mb-2">{t('customers.manualAdjust')}</h4>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                value={adjustPoints || ''}
+                onChange={(e) => setAdjustPoints(parseInt(e.target.value) || 0)}
+                className="input-field w-32"
+                placeholder={t('customers.pointsPlaceholder')}
+              />
+              <input
+                type="text"
+                value={adjustNotes}
+                onChange={(e) => setAdjustNotes(e.target.value)}
+                className="input-field flex-1"
+                placeholder={t('customers.adjustReason')}
+              />
+              <Button onClick={handleAdjust} disabled={!adjustPoints || !adjustNotes.trim() || saving}>
+                {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : t('customers.adjust')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
 const CustomersPage = () => {
+  const { t } = useTranslation()
+  const { user } = useSelector((state: RootState) => state.auth)
+  const loyalty = useSelector((state: RootState) => state.settings.loyalty)
   const [customers, setCustomers] = useState<Customer[]>([])
   const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
+  const { state: routeState } = useLocation()
+  // La paleta de comandos (Ctrl+K) llega con la búsqueda ya escrita
+  const [searchTerm, setSearchTerm] = useState<string>((routeState as { search?: string } | null)?.search || '')
   const [showModal, setShowModal] = useState(false)
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
   const [formData, setFormData] = useState<CustomerFormData>(initialFormData)
   const [saving, setSaving] = useState(false)
+  const [loyaltyCustomer, setLoyaltyCustomer] = useState<Customer | null>(null)
+  const [priceLists, setPriceLists] = useState<PriceList[]>([])
 
   useEffect(() => {
     fetchCustomers()
+    priceListService.getActive()
+      .then((res) => setPriceLists((res as PriceList[]) || []))
+      .catch(() => setPriceLists([]))
   }, [])
 
   useEffect(() => {
@@ -65,7 +211,7 @@ const CustomersPage = () => {
       setCustomers(allCustomers.filter((c: Customer) => c.isActive !== false))
     } catch (error) {
       console.error('Error loading customers:', error)
-      toast.error('Error al cargar clientes')
+      toast.error(t('customers.loadError'))
     } finally {
       setLoading(false)
     }
@@ -99,52 +245,53 @@ const CustomersPage = () => {
       city: customer.city || '',
       notes: customer.notes || '',
       creditLimit: customer.creditLimit || 0,
+      priceListId: customer.priceListId ?? null,
       isActive: customer.isActive
     })
     setShowModal(true)
   }
 
   const handleDelete = async (customer: Customer) => {
-    if (!confirm(`¿Desactivar el cliente "${customer.fullName}"? El cliente será marcado como inactivo.`)) return
+    if (!confirm(t('customers.confirmDeactivate', { name: customer.fullName }))) return
     
     try {
       await customerService.delete(customer.id)
-      toast.success('Cliente desactivado correctamente')
+      toast.success(t('customers.deactivated'))
       // Actualizar la lista local inmediatamente
       setCustomers(prev => prev.filter(c => c.id !== customer.id))
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al desactivar cliente')
+      toast.error(error.response?.data?.message || t('customers.deactivateError'))
     }
   }
 
   const validateForm = (): boolean => {
     // Validar nombre requerido
     if (!formData.fullName.trim()) {
-      toast.error('El nombre completo es requerido')
+      toast.error(t('common.fullNameRequired'))
       return false
     }
 
     // Validar email si se proporciona
     if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      toast.error('El formato del email no es válido')
+      toast.error(t('common.emailInvalid'))
       return false
     }
 
     // Validar documento - solo números
     if (formData.documentNumber && !/^\d+$/.test(formData.documentNumber)) {
-      toast.error('El número de documento debe contener solo números')
+      toast.error(t('customers.documentDigitsOnly'))
       return false
     }
 
     // Validar longitud de documento (6-15 dígitos para flexibilidad)
     if (formData.documentNumber && (formData.documentNumber.length < 6 || formData.documentNumber.length > 15)) {
-      toast.error('El número de documento debe tener entre 6 y 15 dígitos')
+      toast.error(t('customers.documentLength'))
       return false
     }
 
     // Validar teléfono - solo números si se proporciona
     if (formData.phone && !/^\d+$/.test(formData.phone.replace(/[\s-]/g, ''))) {
-      toast.error('El teléfono debe contener solo números')
+      toast.error(t('customers.phoneDigitsOnly'))
       return false
     }
 
@@ -152,7 +299,7 @@ const CustomersPage = () => {
     if (formData.phone) {
       const phoneDigits = formData.phone.replace(/[\s-]/g, '')
       if (phoneDigits.length < 7 || phoneDigits.length > 15) {
-        toast.error('El teléfono debe tener entre 7 y 15 dígitos')
+        toast.error(t('customers.phoneLength'))
         return false
       }
     }
@@ -170,16 +317,16 @@ const CustomersPage = () => {
     try {
       if (selectedCustomer) {
         await customerService.update(selectedCustomer.id, formData)
-        toast.success('Cliente actualizado')
+        toast.success(t('customers.updated'))
       } else {
         await customerService.create(formData)
-        toast.success('Cliente creado')
+        toast.success(t('customers.created'))
       }
       
       setShowModal(false)
       fetchCustomers()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al guardar cliente')
+      toast.error(error.response?.data?.message || t('customers.saveError'))
     } finally {
       setSaving(false)
     }
@@ -189,11 +336,11 @@ const CustomersPage = () => {
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-800">Clientes</h1>
-          <p className="text-gray-500">Gestiona tu base de clientes</p>
+          <h1 className="text-2xl font-bold text-gray-800">{t('nav.customers')}</h1>
+          <p className="text-gray-500">{t('customers.subtitle')}</p>
         </div>
         <Button variant="primary" onClick={openNewCustomer}>
-          <Plus size={20} /> Nuevo Cliente
+          <Plus size={20} /> {t('customers.new')}
         </Button>
       </div>
 
@@ -202,7 +349,7 @@ const CustomersPage = () => {
           <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
           <input 
             type="text" 
-            placeholder="Buscar por nombre, documento o teléfono..." 
+            placeholder={t('customers.search')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="input-field pl-12" 
@@ -217,28 +364,51 @@ const CustomersPage = () => {
           </div>
         ) : customers.length === 0 ? (
           <div className="flex items-center justify-center py-12 text-gray-400">
-            No se encontraron clientes
+            {t('customers.empty')}
           </div>
         ) : (
           <table className="w-full">
             <thead>
               <tr className="bg-primary-50">
-                <th className="table-header">Cliente</th>
-                <th className="table-header">Documento</th>
-                <th className="table-header">Teléfono</th>
-                <th className="table-header">Email</th>
-                <th className="table-header text-center">Acciones</th>
+                <th className="table-header">{t('common.customer')}</th>
+                <th className="table-header">{t('customers.document')}</th>
+                <th className="table-header">{t('common.phone')}</th>
+                <th className="table-header">{t('common.email')}</th>
+                {loyalty.enabled && <th className="table-header text-right">{t('customers.points')}</th>}
+                <th className="table-header text-center">{t('common.actions')}</th>
               </tr>
             </thead>
             <tbody>
               {customers.map((customer) => (
                 <tr key={customer.id} className="hover:bg-primary-50/50 transition-colors">
-                  <td className="table-cell font-medium">{customer.fullName}</td>
+                  <td className="table-cell font-medium">
+                    {customer.fullName}
+                    {customer.priceListName && (
+                      <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700">{customer.priceListName}</span>
+                    )}
+                  </td>
                   <td className="table-cell">{customer.documentType} {customer.documentNumber}</td>
                   <td className="table-cell">{customer.phone || '-'}</td>
                   <td className="table-cell">{customer.email || '-'}</td>
+                  {loyalty.enabled && (
+                    <td className="table-cell text-right">
+                      <p className="font-semibold text-yellow-700">{customer.loyaltyPoints || 0}</p>
+                      {getCustomerLoyalty(loyalty, customer).tier && (
+                        <p className="text-xs text-gray-500">{getCustomerLoyalty(loyalty, customer).tier!.name}</p>
+                      )}
+                    </td>
+                  )}
                   <td className="table-cell">
                     <div className="flex items-center justify-center gap-2">
+                      {loyalty.enabled && (
+                        <button
+                          onClick={() => setLoyaltyCustomer(customer)}
+                          className="p-2 rounded-lg hover:bg-yellow-100 text-yellow-600"
+                          title={t('customers.pointsHistory')}
+                        >
+                          <Award size={18} />
+                        </button>
+                      )}
                       <button 
                         onClick={() => openEditCustomer(customer)}
                         className="p-2 rounded-lg hover:bg-primary-100 text-gray-500"
@@ -260,13 +430,26 @@ const CustomersPage = () => {
         )}
       </div>
 
+      {loyaltyCustomer && (
+        <LoyaltyHistoryModal
+          customer={loyaltyCustomer}
+          config={loyalty}
+          canAdjust={hasPermission(user, 'customers.edit')}
+          onClose={() => setLoyaltyCustomer(null)}
+          onAdjusted={() => {
+            setLoyaltyCustomer(null)
+            fetchCustomers()
+          }}
+        />
+      )}
+
       {/* Customer Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="modal-content-lg p-6 animate-scale-in">
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-xl font-bold text-gray-800">
-                {selectedCustomer ? 'Editar Cliente' : 'Nuevo Cliente'}
+                {selectedCustomer ? t('customers.edit') : t('customers.new')}
               </h3>
               <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
@@ -275,7 +458,7 @@ const CustomersPage = () => {
 
             <form onSubmit={handleSubmit} className="space-y-4">
               <Input
-                label="Nombre Completo *"
+                label={t('common.fullNameLabel')}
                 value={formData.fullName}
                 onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
                 required
@@ -283,7 +466,7 @@ const CustomersPage = () => {
 
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Tipo Doc.</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('customers.documentType')}</label>
                   <select
                     value={formData.documentType}
                     onChange={(e) => setFormData({ ...formData, documentType: e.target.value })}
@@ -293,12 +476,12 @@ const CustomersPage = () => {
                     <option value="NIT">NIT</option>
                     <option value="CE">CE</option>
                     <option value="TI">TI</option>
-                    <option value="PP">Pasaporte</option>
+                    <option value="PP">{t('customers.passport')}</option>
                   </select>
                 </div>
                 <div className="col-span-2">
                   <Input
-                    label="Número de Documento"
+                    label={t('customers.documentNumber')}
                     value={formData.documentNumber}
                     onChange={(e) => setFormData({ ...formData, documentNumber: e.target.value })}
                   />
@@ -307,12 +490,12 @@ const CustomersPage = () => {
 
               <div className="grid grid-cols-2 gap-4">
                 <Input
-                  label="Teléfono"
+                  label={t('common.phone')}
                   value={formData.phone}
                   onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
                 />
                 <Input
-                  label="Email"
+                  label={t('common.email')}
                   type="email"
                   value={formData.email}
                   onChange={(e) => setFormData({ ...formData, email: e.target.value })}
@@ -320,19 +503,19 @@ const CustomersPage = () => {
               </div>
 
               <Input
-                label="Dirección"
+                label={t('common.address')}
                 value={formData.address}
                 onChange={(e) => setFormData({ ...formData, address: e.target.value })}
               />
 
               <div className="grid grid-cols-2 gap-4">
                 <Input
-                  label="Ciudad"
+                  label={t('common.city')}
                   value={formData.city}
                   onChange={(e) => setFormData({ ...formData, city: e.target.value })}
                 />
                 <Input
-                  label="Límite de Crédito"
+                  label={t('customers.creditLimit')}
                   type="number"
                   min="0"
                   value={formData.creditLimit}
@@ -340,12 +523,28 @@ const CustomersPage = () => {
                 />
               </div>
 
+              {priceLists.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('customers.priceList')}</label>
+                  <select
+                    value={formData.priceListId ?? ''}
+                    onChange={(e) => setFormData({ ...formData, priceListId: e.target.value ? Number(e.target.value) : null })}
+                    className="input-field"
+                  >
+                    <option value="">{t('customers.defaultPriceList', { name: priceLists.find((l) => l.isDefault)?.name || t('customers.salePrice') })}</option>
+                    {priceLists.filter((l) => !l.isDefault).map((l) => (
+                      <option key={l.id} value={l.id}>{l.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div className="flex justify-end gap-3 pt-4">
                 <Button type="button" variant="secondary" onClick={() => setShowModal(false)}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
                 <Button type="submit" variant="primary" disabled={saving}>
-                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> Guardando...</> : 'Guardar'}
+                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> {t('common.saving')}</> : t('common.save')}
                 </Button>
               </div>
             </form>
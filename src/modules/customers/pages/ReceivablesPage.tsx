@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react'
+import { Search, X, Loader2, Wallet, Coins, AlertTriangle } from 'lucide-react'
+import toast from 'react-hot-toast'
+import Button from '@/shared/components/ui/Button'
+import { receivableService } from '@/core/api/receivableService'
+import { customerService } from '@/core/api/customerService'
+import { Customer, CustomerPayment, Invoice } from '@/types'
+import { PAYMENT_METHODS, getPaymentMethodLabel } from '@/shared/utils/payments'
+import {
+  AGING_BUCKETS,
+  CustomerAging,
+  buildAgingByCustomer,
+  allocatePayment,
+  getInvoiceBalance,
+  getDaysOutstanding,
+} from '@/shared/utils/customerCredit'
+import { formatCurrency, formatDate } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+interface CustomerPaymentModalProps {
+  aging: CustomerAging
+  customer?: Customer
+  invoices: Invoice[]
+  onClose: () => void
+  onSaved: () => void
+  formatCurrency: (value: number) => string
+  formatDate: (dateStr: string) => string
+}
+
+const CustomerPaymentModal = ({ aging, customer, invoices, onClose, onSaved, formatCurrency, formatDate }: CustomerPaymentModalProps) => {
+  const { t } = useTranslation()
+  const [amount, setAmount] = useState(0)
+  const [paymentMethod, setPaymentMethod] = useState('EFECTIVO')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [history, setHistory] = useState<CustomerPayment[]>([])
+
+  useEffect(() => {
+    receivableService.getPayments(aging.customerId)
+      .then((res) => setHistory(res as CustomerPayment[]))
+      .catch(() => setHistory([]))
+  }, [aging.customerId])
+
+  const allocations = allocatePayment(invoices, amount)
+  const allocatedTo = (invoiceId: number) => allocations.find((a) => a.invoiceId === invoiceId)?.amount || 0
+
+  const handleSave = async () => {
+    if (amount <= 0) return
+    if (amount > aging.total + 0.5) {
+      toast.error(t('receivables.exceedsBalance'))
+      return
+    }
+    setSaving(true)
+    try {
+      await receivableService.registerPayment({
+        customerId: aging.customerId,
+        amount,
+        paymentMethod,
+        notes: notes.trim() || undefined,
+        allocations,
+      })
+      toast.success(t('receivables.paymentSaved'))
+      onSaved()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('receivables.paymentError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{t('receivables.paymentTitle')}</h3>
+            <p className="text-gray-500">
+              {aging.customerName} · {t('receivables.balanceOf', { amount: formatCurrency(aging.total) })}
+              {customer && ` · ${t('receivables.limitOf', { amount: formatCurrency(customer.creditLimit) })}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <h4 className="text-sm font-semibold text-gray-600 mb-2">{t('receivables.openInvoices')}</h4>
+        <div className="space-y-2 mb-4">
+          {invoices.map((inv) => {
+            const applied = allocatedTo(inv.id)
+            return (
+              <div key={inv.id} className={`flex items-center justify-between p-3 rounded-xl text-sm ${applied > 0 ? 'bg-green-50' : 'bg-gray-50'}`}>
+                <div>
+                  <p className="font-mono font-medium">{inv.invoiceNumber}</p>
+                  <p className="text-xs text-gray-500">{formatDate(inv.createdAt)} · {t('receivables.days', { count: getDaysOutstanding(inv.createdAt) })}</p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold">{formatCurrency(getInvoiceBalance(inv))}</p>
+                  {applied > 0 && <p className="text-xs text-green-600">{t('receivables.applied', { amount: formatCurrency(applied) })}</p>}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">{t('receivables.amount')}</label>
+              <button
+                type="button"
+                onClick={() => setAmount(Math.round(aging.total))}
+                className="text-xs text-primary-600 hover:text-primary-700 font-medium"
+              >
+                {t('receivables.fullBalance')}
+              </button>
+            </div>
+            <input
+              type="number"
+              min={0}
+              value={amount || ''}
+              onChange={(e) => setAmount(Math.max(0, Number(e.target.value) || 0))}
+              className="input-field"
+              placeholder="$0"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.paymentMethod')}</label>
+            <select value={paymentMethod} onChange={(e) => setPaymentMethod(e.target.value)} className="input-field">
+              {PAYMENT_METHODS.map((m) => (
+                <option key={m.value} value={m.value}>{getPaymentMethodLabel(m.value)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="input-field mb-4"
+          placeholder={t('common.notesOptional')}
+        />
+        <p className="text-xs text-gray-400 mb-4">{t('receivables.oldestFirst')}</p>
+
+        {history.length > 0 && (
+          <div className="mb-4">
+            <h4 className="text-sm font-semibold text-gray-600 mb-2">{t('receivables.history')}</h4>
+            <div className="space-y-1">
+              {history.slice(0, 5).map((p) => (
+                <div key={p.id} className="flex justify-between text-xs text-gray-500">
+                  <span>{formatDate(p.createdAt)} · {getPaymentMethodLabel(p.paymentMethod)}</span>
+                  <span className="font-medium text-gray-700">{formatCurrency(p.amount)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="secondary" className="flex-1" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="primary" className="flex-1" onClick={handleSave} disabled={amount <= 0 || saving}>
+            {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Coins size={18} /> {t('receivables.recordPayment')}</>}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const ReceivablesPage = () => {
+  const { t } = useTranslation()
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [payingCustomer, setPayingCustomer] = useState<CustomerAging | null>(null)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+      const [openInvoices, activeCustomers] = await Promise.all([
+        receivableService.getOpenInvoices(),
+        customerService.getActive().catch(() => []),
+      ])
+      setInvoices(openInvoices as Invoice[])
+      setCustomers(activeCustomers as Customer[])
+    } catch (error) {
+      console.error('Error loading receivables:', error)
+      toast.error(t('receivables.loadError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const aging = buildAgingByCustomer(invoices)
+  const filteredAging = aging.filter((a) => a.customerName.toLowerCase().includes(searchTerm.toLowerCase()))
+  const totals = AGING_BUCKETS.map((b) => ({ ...b, amount: aging.reduce((acc, a) => acc + a.buckets[b.key], 0) }))
+  const grandTotal = aging.reduce((acc, a) => acc + a.total, 0)
+
+  const getCustomer = (customerId: number) => customers.find((c) => c.id === customerId)
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-800">{t('nav.receivables')}</h1>
+        <p className="text-gray-500">{t('receivables.subtitle')}</p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        <div className="card">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-r from-primary-500 to-primary-600 flex items-center justify-center shadow-soft">
+              <Wallet className="w-5 h-5 text-white" />
+            </div>
+            <div className="min-w-0">
+              <p className="text-sm text-gray-500">{t('receivables.totalDue')}</p>
+              <p className="text-lg font-bold text-gray-800 truncate">{formatCurrency(grandTotal)}</p>
+            </div>
+          </div>
+        </div>
+        {totals.map((b) => (
+          <div key={b.key} className="card">
+            <p className="text-sm text-gray-500">{t(`receivables.bucket.${b.key}`)}</p>
+            <p className={`text-lg font-bold truncate ${b.key === 'days90' && b.amount > 0 ? 'text-red-600' : 'text-gray-800'}`}>
+              {formatCurrency(b.amount)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="card">
+        <div className="relative">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+          <input
+            type="text"
+            placeholder={t('receivables.searchCustomer')}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="input-field pl-12"
+          />
+        </div>
+      </div>
+
+      <div className="card overflow-x-auto p-0">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+          </div>
+        ) : filteredAging.length === 0 ? (
+          <div className="flex items-center justify-center py-12 text-gray-400">
+            {t('receivables.empty')}
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="bg-primary-50">
+                <th className="table-header">{t('common.customer')}</th>
+                <th className="table-header text-right">{t('receivables.limit')}</th>
+                {AGING_BUCKETS.map((b) => (
+                  <th key={b.key} className="table-header text-right">{t(`receivables.bucket.${b.key}`)}</th>
+                ))}
+                <th className="table-header text-right">{t('common.balance')}</th>
+                <th className="table-header text-center">{t('common.actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredAging.map((a) => {
+                const customer = getCustomer(a.customerId)
+                const overLimit = customer ? a.total > Number(customer.creditLimit) : false
+                return (
+                  <tr key={a.customerId} className="hover:bg-primary-50/50 transition-colors">
+                    <td className="table-cell">
+                      <p className="font-medium">{a.customerName}</p>
+                      <p className="text-xs text-gray-500">
+                        {t('receivables.invoiceCount', { count: a.invoiceCount, date: formatDate(a.oldestDate) })}
+                      </p>
+                    </td>
+                    <td className="table-cell text-right text-gray-500">
+                      {customer ? formatCurrency(customer.creditLimit) : '-'}
+                    </td>
+                    {AGING_BUCKETS.map((b) => (
+                      <td key={b.key} className={`table-cell text-right ${b.key === 'days90' && a.buckets[b.key] > 0 ? 'text-red-600 font-medium' : ''}`}>
+                        {a.buckets[b.key] > 0 ? formatCurrency(a.buckets[b.key]) : '-'}
+                      </td>
+                    ))}
+                    <td className="table-cell text-right font-semibold text-primary-600">
+                      <span className="inline-flex items-center gap-1">
+                        {overLimit && <span title={t('receivables.overLimit')}><AlertTriangle size={14} className="text-amber-500" /></span>}
+                        {formatCurrency(a.total)}
+                      </span>
+                    </td>
+                    <td className="table-cell text-center">
+                      <button
+                        onClick={() => setPayingCustomer(a)}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-green-700 bg-green-50 hover:bg-green-100"
+                      >
+                        <Coins size={16} />
+                        {t('receivables.pay')}
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {payingCustomer && (
+        <CustomerPaymentModal
+          aging={payingCustomer}
+          customer={getCustomer(payingCustomer.customerId)}
+          invoices={invoices.filter((inv) => inv.customerId === payingCustomer.customerId && getInvoiceBalance(inv) > 0)}
+          onClose={() => setPayingCustomer(null)}
+          onSaved={() => {
+            setPayingCustomer(null)
+            fetchData()
+          }}
+          formatCurrency={formatCurrency}
+          formatDate={formatDate}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ReceivablesPage
@@ -16,6 +16,8 @@ import { inventoryService } from '@/core/api/inventoryService'
 import { dashboardService } from '@/core/api/reportService'
 import { Inventory } from '@/types'
 import DateRangeFilter, { toLocalDateStr } from '@/shared/components/DateRangeFilter'
+import { formatCurrency, formatDateWith } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 interface DailySale {
   date: string
@@ -23,16 +25,9 @@ interface DailySale {
   count: number
 }
 
-const formatCurrency = (value: number) => {
-  return new Intl.NumberFormat('es-CO', {
-    style: 'currency',
-    currency: 'COP',
-    minimumFractionDigits: 0
-  }).format(value)
-}
-
 const DashboardPage = () => {
   const navigate = useNavigate()
+  const { t } = useTranslation()
   const [, setLoading] = useState(true)
   const [summaryStats, setSummaryStats] = useState({ totalSales: 0, salesCount: 0, averageTicket: 0 })
   const [lowStock, setLowStock] = useState<Inventory[]>([])
@@ -117,7 +112,7 @@ const DashboardPage = () => {
           const dateStr = `${y}-${m}-${d}`
           const existing = salesData.find((s: any) => s.date === dateStr)
           points.push({
-            date: cursor.toLocaleDateString('es-CO', { weekday: 'short', day: 'numeric' }),
+            date: formatDateWith(cursor, { weekday: 'short', day: 'numeric' }),
             total: (existing as any)?.total || 0,
             count: (existing as any)?.count || 0
           })
@@ -141,7 +136,7 @@ const DashboardPage = () => {
 
   const stats = [
     { 
-      label: 'Ventas', 
+      label: t('dashboard.sales'), 
       value: summaryLoading ? '...' : formatCurrency(summaryStats.totalSales), 
       change: '+0%', 
       isPositive: true,
@@ -149,7 +144,7 @@ const DashboardPage = () => {
       color: 'from-green-500 to-green-600'
     },
     { 
-      label: 'Transacciones', 
+      label: t('dashboard.transactions'), 
       value: summaryLoading ? '...' : summaryStats.salesCount.toString(), 
       change: '+0%', 
       isPositive: true,
@@ -157,15 +152,15 @@ const DashboardPage = () => {
       color: 'from-primary-500 to-primary-600'
     },
     { 
-      label: 'Stock Bajo', 
+      label: t('dashboard.lowStock'), 
       value: lowStock.length.toString(), 
-      change: lowStock.length > 0 ? 'Atención' : 'OK',
+      change: lowStock.length > 0 ? t('dashboard.attention') : 'OK',
       isPositive: lowStock.length === 0,
       icon: Package,
       color: 'from-amber-500 to-amber-600'
     },
     { 
-      label: 'Ticket Promedio', 
+      label: t('dashboard.averageTicket'), 
       value: summaryLoading ? '...' : formatCurrency(ticketPromedio), 
       change: '+0%', 
       isPositive: true,
@@ -177,11 +172,11 @@ const DashboardPage = () => {
     <div className="space-y-4 sm:space-y-6 animate-fade-in">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-1">
         <div>
-          <h1 className="text-xl sm:text-2xl font-bold text-gray-800">Dashboard</h1>
-          <p className="text-sm sm:text-base text-gray-500">Resumen de tu negocio</p>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-800">{t('nav.dashboard')}</h1>
+          <p className="text-sm sm:text-base text-gray-500">{t('dashboard.subtitle')}</p>
         </div>
         <div className="text-xs sm:text-sm text-gray-500">
-          {new Date().toLocaleDateString('es-CO', { 
+          {formatDateWith(new Date(), { 
             weekday: 'long', 
             year: 'numeric', 
             month: 'long', 
@@ -209,7 +204,7 @@ const DashboardPage = () => {
             <div className={`flex items-center gap-1 mt-3 text-xs sm:text-sm ${stat.isPositive ? 'text-green-600' : 'text-red-600'}`}>
               {stat.isPositive ? <ArrowUpRight size={14} /> : <ArrowDownRight size={14} />}
               <span className="font-medium">{stat.change}</span>
-              <span className="text-gray-400 hidden sm:inline">vs ayer</span>
+              <span className="text-gray-400 hidden sm:inline">{t('dashboard.vsYesterday')}</span>
             </div>
           </div>
         ))}
@@ -221,36 +216,36 @@ const DashboardPage = () => {
           {outOfStock.length > 0 && (
             <button onClick={() => navigate('/inventory')} className="inline-flex items-center gap-1.5 px-2 sm:px-3 py-1.5 bg-red-50 text-red-700 rounded-lg text-xs font-medium hover:bg-red-100 transition-colors border border-red-200">
               <AlertTriangle size={12} />
-              <span className="hidden xs:inline">{outOfStock.length} sin stock</span>
+              <span className="hidden xs:inline">{t('dashboard.outOfStockCount', { count: outOfStock.length })}</span>
               <span className="xs:hidden">{outOfStock.length}</span>
             </button>
           )}
           {lowStock.length > 0 && (
             <button onClick={() => navigate('/inventory')} className="inline-flex items-center gap-1.5 px-2 sm:px-3 py-1.5 bg-amber-50 text-amber-700 rounded-lg text-xs font-medium hover:bg-amber-100 transition-colors border border-amber-200">
               <AlertTriangle size={12} />
-              <span className="hidden xs:inline">{lowStock.length} stock bajo</span>
+              <span className="hidden xs:inline">{t('dashboard.lowStockCount', { count: lowStock.length })}</span>
               <span className="xs:hidden">{lowStock.length}</span>
             </button>
           )}
           {lowStock.length === 0 && outOfStock.length === 0 && (
             <span className="inline-flex items-center gap-1.5 px-2 sm:px-3 py-1.5 bg-green-50 text-green-700 rounded-lg text-xs font-medium border border-green-200">
               <div className="w-1.5 h-1.5 bg-green-500 rounded-full" /> 
-              <span className="hidden xs:inline">Sin alertas</span>
+              <span className="hidden xs:inline">{t('dashboard.noAlerts')}</span>
               <span className="xs:hidden">OK</span>
             </span>
           )}
         </div>
         <div className="flex gap-1 sm:gap-2 lg:ml-auto">
           <button onClick={() => navigate('/pos')} className="px-2 sm:px-3 py-1.5 bg-primary-600 text-white rounded-lg text-xs font-medium hover:bg-primary-700 transition-colors">
-            <span className="hidden xs:inline">Nueva Venta</span>
+            <span className="hidden xs:inline">{t('dashboard.newSale')}</span>
             <span className="xs:hidden">+</span>
           </button>
           <button onClick={() => navigate('/reports')} className="px-2 sm:px-3 py-1.5 bg-white text-gray-700 rounded-lg text-xs font-medium hover:bg-gray-50 transition-colors border border-gray-200">
-            <span className="hidden xs:inline">Reportes</span>
+            <span className="hidden xs:inline">{t('nav.reports')}</span>
             <span className="xs:hidden">📊</span>
           </button>
           <button onClick={() => navigate('/inventory')} className="px-2 sm:px-3 py-1.5 bg-white text-gray-700 rounded-lg text-xs font-medium hover:bg-gray-50 transition-colors border border-gray-200">
-            <span className="hidden xs:inline">Inventario</span>
+            <span className="hidden xs:inline">{t('nav.inventory')}</span>
             <span className="xs:hidden">📦</span>
           </button>
         </div>
@@ -258,7 +253,7 @@ const DashboardPage = () => {
 
       {/* Sales Chart */}
       <div className="card">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">Ventas del Período</h3>
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('dashboard.periodSales')}</h3>
         <div className="h-64">
           {chartLoading ? (
             <div className="h-full flex items-center justify-center">
@@ -287,7 +282,7 @@ const DashboardPage = () => {
                   tickFormatter={(value) => formatCurrency(value)}
                 />
                 <Tooltip 
-                  formatter={(value: number) => [formatCurrency(value), 'Ventas']}
+                  formatter={(value: number) => [formatCurrency(value), t('dashboard.sales')]}
                   labelStyle={{ color: '#374151' }}
                   contentStyle={{ 
                     backgroundColor: 'white', 
@@ -308,7 +303,7 @@ const DashboardPage = () => {
             </ResponsiveContainer>
           ) : (
             <div className="h-full flex items-center justify-center bg-primary-50 rounded-xl">
-              <p className="text-gray-500">No hay datos de ventas disponibles</p>
+              <p className="text-gray-500">{t('dashboard.noData')}</p>
             </div>
           )}
         </div>
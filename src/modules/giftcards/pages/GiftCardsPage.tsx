@@ -0,0 +1,393 @@
+import { useState, useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { Search, X, Loader2, Gift, Plus, RefreshCw, Ban, History } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { RootState } from '@/app/store'
+import Button from '@/shared/components/ui/Button'
+import GiftCardSaleModal from '@/shared/components/GiftCardSaleModal'
+import { giftCardService } from '@/core/api/giftCardService'
+import { hasPermission } from '@/core/auth/permissions'
+import { GiftCard, GiftCardStatus, GiftCardTransaction } from '@/types'
+import { getPaymentMethodLabel } from '@/shared/utils/payments'
+import {
+  GIFT_CARD_STATUSES,
+  getGiftCardStatusLabel,
+  getGiftCardTransactionLabel,
+  getGiftCardStatus,
+} from '@/shared/utils/giftCards'
+import { formatCurrency, formatDate } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+const STATUS_BADGES: Record<GiftCardStatus, string> = {
+  ACTIVA: 'badge-success',
+  AGOTADA: 'badge-info',
+  VENCIDA: 'badge-warning',
+  ANULADA: 'badge-danger',
+}
+
+interface GiftCardDetailModalProps {
+  card: GiftCard
+  onClose: () => void
+  formatCurrency: (value: number) => string
+  formatDate: (dateStr: string) => string
+}
+
+const GiftCardDetailModal = ({ card, onClose, formatCurrency, formatDate }: GiftCardDetailModalProps) => {
+  const { t } = useTranslation()
+  const [transactions, setTransactions] = useState<GiftCardTransaction[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    giftCardService.getTransactions(card.id)
+      .then((res) => setTransactions(res as GiftCardTransaction[]))
+      .catch(() => toast.error(t('giftCards.transactionsError')))
+      .finally(() => setLoading(false))
+  }, [card.id])
+
+  const status = getGiftCardStatus(card)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 font-mono">{card.code}</h3>
+            <p className="text-gray-500">
+              {card.customerName || t('common.noCustomer')} · {t('giftCards.issuedOn', { date: formatDate(card.createdAt) })}
+              {card.expiresAt && ` · ${t('giftCards.expiresOn', { date: formatDate(card.expiresAt) })}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="p-3 rounded-xl bg-gray-50">
+            <p className="text-xs text-gray-500">{t('giftCards.initialAmount')}</p>
+            <p className="font-semibold">{formatCurrency(card.initialAmount)}</p>
+          </div>
+          <div className="p-3 rounded-xl bg-pink-50">
+            <p className="text-xs text-gray-500">{t('common.balance')}</p>
+            <p className="font-semibold text-pink-700">{formatCurrency(card.balance)}</p>
+          </div>
+          <div className="p-3 rounded-xl bg-gray-50">
+            <p className="text-xs text-gray-500">{t('common.status')}</p>
+            <span className={`badge ${STATUS_BADGES[status]}`}>{getGiftCardStatusLabel(status)}</span>
+          </div>
+        </div>
+
+        <h4 className="text-sm font-semibold text-gray-600 mb-2">{t('giftCards.transactions')}</h4>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="text-sm text-gray-400 py-4 text-center">{t('giftCards.noTransactions')}</p>
+        ) : (
+          <div className="space-y-2">
+            {transactions.map((tx) => {
+              const credit = tx.type === 'EMISION' || tx.type === 'RECARGA' || tx.type === 'REVERSO'
+              return (
+                <div key={tx.id} className="flex items-center justify-between p-3 rounded-xl bg-gray-50 text-sm">
+                  <div>
+                    <p className="font-medium">
+                      {getGiftCardTransactionLabel(tx.type)}
+                      {tx.invoiceNumber && <span className="font-mono text-gray-500"> · {tx.invoiceNumber}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(tx.createdAt)}
+                      {tx.userName && ` · ${tx.userName}`}
+                      {tx.payments && tx.payments.length > 0 && ` · ${tx.payments.map((p) => getPaymentMethodLabel(p.paymentMethod)).join(', ')}`}
+                      {tx.notes && ` · ${tx.notes}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-semibold ${credit ? 'text-green-600' : 'text-red-600'}`}>
+                      {credit ? '+' : '-'}{formatCurrency(Math.abs(Number(tx.amount)))}
+                    </p>
+                    <p className="text-xs text-gray-500">{t('giftCards.balanceAfter', { amount: formatCurrency(tx.balanceAfter) })}</p>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const GiftCardsPage = () => {
+  const { t } = useTranslation()
+  const { user } = useSelector((state: RootState) => state.auth)
+  const [cards, setCards] = useState<GiftCard[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState<GiftCardStatus | ''>('')
+  const [detailCard, setDetailCard] = useState<GiftCard | null>(null)
+  const [saleCard, setSaleCard] = useState<GiftCard | null>(null)
+  const [showSaleModal, setShowSaleModal] = useState(false)
+  const [voidingCard, setVoidingCard] = useState<GiftCard | null>(null)
+  const [voidReason, setVoidReason] = useState('')
+  const [processing, setProcessing] = useState(false)
+
+  const canManage = hasPermission(user, 'giftcards.manage')
+
+  useEffect(() => {
+    fetchCards()
+  }, [])
+
+  const fetchCards = async () => {
+    try {
+      setLoading(true)
+      const res = await giftCardService.getAll()
+      setCards((res as GiftCard[]) || [])
+    } catch (error) {
+      console.error('Error loading gift cards:', error)
+      toast.error(t('giftCards.loadError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openSale = (card: GiftCard | null) => {
+    setSaleCard(card)
+    setShowSaleModal(true)
+  }
+
+  const openVoid = (card: GiftCard) => {
+    setVoidingCard(card)
+    setVoidReason('')
+  }
+
+  const handleVoid = async () => {
+    if (!voidingCard || !voidReason.trim()) return
+    setProcessing(true)
+    try {
+      await giftCardService.voidCard(voidingCard.id, voidReason.trim())
+      toast.success(t('giftCards.voided'))
+      setVoidingCard(null)
+      fetchCards()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('giftCards.voidError'))
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const term = searchTerm.trim().toLowerCase()
+  const filteredCards = cards.filter((c) =>
+    (!statusFilter || getGiftCardStatus(c) === statusFilter) &&
+    (!term || c.code.toLowerCase().includes(term) || (c.customerName || '').toLowerCase().includes(term)))
+
+  // Pasivo: saldo por redimir de las tarjetas que todavía se pueden usar
+  const outstanding = cards
+    .filter((c) => getGiftCardStatus(c) === 'ACTIVA')
+    .reduce((acc, c) => acc + (Number(c.balance) || 0), 0)
+  const activeCount = cards.filter((c) => getGiftCardStatus(c) === 'ACTIVA').length
+  const expiredBalance = cards
+    .filter((c) => getGiftCardStatus(c) === 'VENCIDA')
+    .reduce((acc, c) => acc + (Number(c.balance) || 0), 0)
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">{t('nav.giftCards')}</h1>
+          <p className="text-gray-500">{t('giftCards.subtitle')}</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openSale(null)}>
+            <Plus size={20} />
+            {t('giftCards.sell')}
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="card">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-r from-pink-500 to-pink-600 flex items-center justify-center shadow-soft">
+              <Gift className="w-5 h-5 text-white" />
+            </div>
+            <div className="min-w-0">
+              <p className="text-sm text-gray-500">{t('giftCards.outstanding')}</p>
+              <p className="text-lg font-bold text-gray-800 truncate">{formatCurrency(outstanding)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="card">
+          <p className="text-sm text-gray-500">{t('giftCards.activeCount')}</p>
+          <p className="text-lg font-bold text-gray-800">{activeCount}</p>
+        </div>
+        <div className="card">
+          <p className="text-sm text-gray-500">{t('giftCards.expiredBalance')}</p>
+          <p className={`text-lg font-bold truncate ${expiredBalance > 0 ? 'text-amber-600' : 'text-gray-800'}`}>
+            {formatCurrency(expiredBalance)}
+          </p>
+        </div>
+      </div>
+
+      <div className="card flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+          <input
+            type="text"
+            placeholder={t('giftCards.search')}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="input-field pl-12"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as GiftCardStatus | '')}
+          className="input-field sm:w-48"
+        >
+          <option value="">{t('giftCards.allStatuses')}</option>
+          {GIFT_CARD_STATUSES.map((s) => (
+            <option key={s} value={s}>{getGiftCardStatusLabel(s)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="card overflow-x-auto p-0">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+          </div>
+        ) : filteredCards.length === 0 ? (
+          <div className="flex items-center justify-center py-12 text-gray-400">
+            {t('giftCards.empty')}
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="bg-primary-50">
+                <th className="table-header">{t('giftCards.code')}</th>
+                <th className="table-header">{t('common.customer')}</th>
+                <th className="table-header text-right">{t('giftCards.initialAmount')}</th>
+                <th className="table-header text-right">{t('common.balance')}</th>
+                <th className="table-header">{t('giftCards.expires')}</th>
+                <th className="table-header">{t('common.status')}</th>
+                <th className="table-header text-center">{t('common.actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredCards.map((card) => {
+                const status = getGiftCardStatus(card)
+                return (
+                  <tr key={card.id} className="hover:bg-primary-50/50 transition-colors">
+                    <td className="table-cell font-mono font-medium">{card.code}</td>
+                    <td className="table-cell">{card.customerName || '-'}</td>
+                    <td className="table-cell text-right text-gray-500">{formatCurrency(card.initialAmount)}</td>
+                    <td className="table-cell text-right font-semibold text-primary-600">{formatCurrency(card.balance)}</td>
+                    <td className="table-cell text-gray-500">{card.expiresAt ? formatDate(card.expiresAt) : t('giftCards.noExpiry')}</td>
+                    <td className="table-cell">
+                      <span className={`badge ${STATUS_BADGES[status]}`}>{getGiftCardStatusLabel(status)}</span>
+                    </td>
+                    <td className="table-cell">
+                      <div className="flex items-center justify-center gap-2">
+                        <button
+                          onClick={() => setDetailCard(card)}
+                          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+                          title={t('giftCards.transactions')}
+                        >
+                          <History size={18} />
+                        </button>
+                        {canManage && status !== 'ANULADA' && status !== 'VENCIDA' && (
+                          <button
+                            onClick={() => openSale(card)}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                            title={t('giftCards.reload')}
+                          >
+                            <RefreshCw size={18} />
+                          </button>
+                        )}
+                        {canManage && status !== 'ANULADA' && (
+                          <button
+                            onClick={() => openVoid(card)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                            title={t('common.void')}
+                          >
+                            <Ban size={18} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {detailCard && (
+        <GiftCardDetailModal
+          card={detailCard}
+          onClose={() => setDetailCard(null)}
+          formatCurrency={formatCurrency}
+          formatDate={formatDate}
+        />
+      )}
+
+      {voidingCard && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="modal-content p-6 animate-scale-in">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-gray-800">{t('giftCards.voidTitle')}</h3>
+              <button onClick={() => setVoidingCard(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={24} />
+              </button>
+            </div>
+
+            <p className="text-gray-500 mb-4">
+              {t('giftCards.confirmVoid')} <strong className="font-mono">{voidingCard.code}</strong>?
+              {Number(voidingCard.balance) > 0 && ` ${t('giftCards.balanceWrittenOff', { amount: formatCurrency(voidingCard.balance) })}`}
+            </p>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.voidReason')}</label>
+              <textarea
+                value={voidReason}
+                onChange={(e) => setVoidReason(e.target.value)}
+                className="input-field min-h-[100px]"
+                placeholder={t('common.reasonPlaceholder')}
+                required
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <Button variant="secondary" className="flex-1" onClick={() => setVoidingCard(null)}>
+                {t('common.cancel')}
+              </Button>
+              <Button
+                variant="primary"
+                className="flex-1 bg-red-600 hover:bg-red-700"
+                onClick={handleVoid}
+                disabled={!voidReason.trim() || processing}
+              >
+                {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : t('common.void')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <GiftCardSaleModal
+        show={showSaleModal}
+        card={saleCard}
+        onClose={() => setShowSaleModal(false)}
+        onCompleted={() => {
+          setShowSaleModal(false)
+          fetchCards()
+        }}
+        formatCurrency={formatCurrency}
+      />
+    </div>
+  )
+}
+
+export default GiftCardsPage
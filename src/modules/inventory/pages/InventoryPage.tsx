@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { Search, AlertTriangle, Package, ArrowUp, ArrowDown, Filter, X, Loader2, Edit2, Image, Download, Upload, FileSpreadsheet } from 'lucide-react'
 import * as XLSX from 'xlsx'
+import { useTranslation } from '@/core/hooks/useTranslation'
 import toast from 'react-hot-toast'
 import Button from '@/shared/components/ui/Button'
 import Input from '@/shared/components/ui/Input'
@@ -47,6 +48,7 @@ const initialFormData: ProductFormData = {
 }
 
 const InventoryPage = () => {
+  const { t } = useTranslation()
   const [inventory, setInventory] = useState<Inventory[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
@@ -107,7 +109,7 @@ const InventoryPage = () => {
       setInventory(normalized)
     } catch (error) {
       console.error('Error loading inventory:', error)
-      toast.error('Error al cargar inventario')
+      toast.error(t('inventory.loadError'))
     } finally {
       setLoading(false)
     }
@@ -117,9 +119,9 @@ const InventoryPage = () => {
   const outOfStock = inventory.filter(i => i.quantity === 0).length
 
   const getStockStatus = (item: Inventory) => {
-    if (item.quantity === 0) return { color: 'bg-red-500', text: 'Sin stock' }
-    if (item.quantity <= item.minStock) return { color: 'bg-amber-500', text: 'Stock bajo' }
-    return { color: 'bg-green-500', text: 'Normal' }
+    if (item.quantity === 0) return { color: 'bg-red-500', text: t('inventory.outOfStock') }
+    if (item.quantity <= item.minStock) return { color: 'bg-amber-500', text: t('inventory.lowStock') }
+    return { color: 'bg-green-500', text: t('inventory.normal') }
   }
 
   const getProductCategoryId = (item: any): number | undefined => item?.product?.categoryId ?? item?.product?.category?.id ?? item?.categoryId
@@ -147,7 +149,7 @@ const InventoryPage = () => {
     
     const qty = parseFloat(adjustQuantity)
     if (qty <= 0) {
-      toast.error('La cantidad debe ser mayor a 0')
+      toast.error(t('inventory.quantityPositive'))
       return
     }
 
@@ -155,27 +157,27 @@ const InventoryPage = () => {
     try {
       const productId = getProductId(adjustModal.inventory)
       if (!productId) {
-        toast.error('Producto no encontrado')
+        toast.error(t('inventory.productNotFound'))
         setProcessing(false)
         return
       }
       
       if (adjustModal.type === 'add') {
         await inventoryService.addStock(productId, qty, adjustReason || undefined)
-        toast.success('Stock agregado correctamente')
+        toast.success(t('inventory.stockAdded'))
       } else {
         if (qty > adjustModal.inventory.quantity) {
-          toast.error('No hay suficiente stock disponible')
+          toast.error(t('inventory.notEnoughStock'))
           setProcessing(false)
           return
         }
         await inventoryService.removeStock(productId, qty, adjustReason || undefined)
-        toast.success('Stock reducido correctamente')
+        toast.success(t('inventory.stockRemoved'))
       }
       setAdjustModal(null)
       fetchInventory()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al ajustar inventario')
+      toast.error(error.response?.data?.message || t('inventory.adjustError'))
     } finally {
       setProcessing(false)
     }
@@ -184,7 +186,7 @@ const InventoryPage = () => {
   const openEditModal = async (item: Inventory) => {
     const productId = getProductId(item)
     if (!productId) {
-      toast.error('Producto no encontrado')
+      toast.error(t('inventory.productNotFound'))
       return
     }
     
@@ -211,7 +213,7 @@ const InventoryPage = () => {
       setShowEditModal(true)
     } catch (error) {
       console.error('Error loading product:', error)
-      toast.error('Error al cargar datos del producto')
+      toast.error(t('inventory.productLoadError'))
     }
   }
 
@@ -219,18 +221,18 @@ const InventoryPage = () => {
   
   const exportToExcel = () => {
     const exportData = inventory.map(item => ({
-      'Código': getProductCode(item),
-      'Producto': getProductName(item),
-      'Stock Actual': item.quantity,
-      'Stock Mínimo': item.minStock,
-      'Stock Máximo': item.maxStock,
-      'Ubicación': item.location || '',
-      'Estado': item.quantity === 0 ? 'Sin stock' : item.quantity <= item.minStock ? 'Stock bajo' : 'Normal'
+      [t('export.code')]: getProductCode(item),
+      [t('export.product')]: getProductName(item),
+      [t('export.currentStock')]: item.quantity,
+      [t('export.minStock')]: item.minStock,
+      [t('export.maxStock')]: item.maxStock,
+      [t('export.location')]: item.location || '',
+      [t('export.status')]: item.quantity === 0 ? t('export.outOfStock') : item.quantity <= item.minStock ? t('export.lowStock') : t('export.normalStock')
     }))
 
     const ws = XLSX.utils.json_to_sheet(exportData)
     const wb = XLSX.utils.book_new()
-    XLSX.utils.book_append_sheet(wb, ws, 'Inventario')
+    XLSX.utils.book_append_sheet(wb, ws, t('export.sheetInventory'))
     
     // Ajustar anchos de columna
     ws['!cols'] = [
@@ -245,10 +247,11 @@ const InventoryPage = () => {
 
     const now = new Date()
     const date = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
-    XLSX.writeFile(wb, `inventario_${date}.xlsx`)
-    toast.success('Inventario exportado correctamente')
+    XLSX.writeFile(wb, `${t('export.inventoryFileName')}_${date}.xlsx`)
+    toast.success(t('export.inventoryDone'))
   }
 
+  // La plantilla conserva los encabezados en español: son los que lee la importación
   const downloadTemplate = () => {
     const templateData = [
       {
@@ -277,7 +280,7 @@ const InventoryPage = () => {
     ]
 
     XLSX.writeFile(wb, 'plantilla_productos.xlsx')
-    toast.success('Plantilla descargada')
+    toast.success(t('inventory.templateDownloaded'))
   }
 
   const handleImportExcel = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -293,7 +296,7 @@ const InventoryPage = () => {
       const jsonData = XLSX.utils.sheet_to_json(worksheet)
 
       if (jsonData.length === 0) {
-        toast.error('El archivo está vacío')
+        toast.error(t('inventory.emptyFile'))
         return
       }
 
@@ -343,15 +346,15 @@ const InventoryPage = () => {
       }
 
       if (successCount > 0) {
-        toast.success(`${successCount} productos importados correctamente`)
+        toast.success(t('inventory.imported', { count: successCount }))
         fetchInventory()
       }
       if (errorCount > 0) {
-        toast.error(`${errorCount} productos no pudieron importarse`)
+        toast.error(t('inventory.importFailed', { count: errorCount }))
       }
     } catch (error) {
       console.error('Error reading file:', error)
-      toast.error('Error al leer el archivo Excel')
+      toast.error(t('inventory.readError'))
     } finally {
       setImporting(false)
       if (fileInputRef.current) {
@@ -368,14 +371,14 @@ const InventoryPage = () => {
     
     const productId = getProductId(editingItem)
     if (!productId) {
-      toast.error('Producto no encontrado')
+      toast.error(t('inventory.productNotFound'))
       return
     }
 
     setSaving(true)
     try {
       if (!formData.categoryId) {
-        toast.error('Debe seleccionar una categoría')
+        toast.error(t('inventory.categoryRequired'))
         setSaving(false)
         return
       }
@@ -403,12 +406,12 @@ const InventoryPage = () => {
         Number(formData.maxStock)
       )
       
-      toast.success('Producto actualizado correctamente')
+      toast.success(t('inventory.productUpdated'))
       setShowEditModal(false)
       setEditingItem(null)
       fetchInventory()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al actualizar producto')
+      toast.error(error.response?.data?.message || t('inventory.productUpdateError'))
     } finally {
       setSaving(false)
     }
@@ -418,21 +421,21 @@ const InventoryPage = () => {
     <div className="space-y-4 sm:space-y-6 animate-fade-in">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
         <div>
-          <h1 className="text-xl sm:text-2xl font-bold text-gray-800">Inventario</h1>
-          <p className="text-sm sm:text-base text-gray-500">Control y gestión de stock</p>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-800">{t('nav.inventory')}</h1>
+          <p className="text-sm sm:text-base text-gray-500">{t('inventory.subtitle')}</p>
         </div>
         <div className="flex gap-2">
           <Button variant="secondary" onClick={downloadTemplate}>
             <FileSpreadsheet size={20} />
-            Plantilla
+            {t('inventory.template')}
           </Button>
           <Button variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={importing}>
             {importing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload size={20} />}
-            Importar
+            {t('inventory.import')}
           </Button>
           <Button variant="primary" onClick={exportToExcel}>
             <Download size={20} />
-            Exportar
+            {t('common.export')}
           </Button>
           <input
             ref={fileInputRef}
@@ -452,7 +455,7 @@ const InventoryPage = () => {
           </div>
           <div>
             <p className="text-2xl font-bold text-gray-800">{inventory.length}</p>
-            <p className="text-gray-500 text-sm">Productos totales</p>
+            <p className="text-gray-500 text-sm">{t('inventory.totalProducts')}</p>
           </div>
         </div>
         <div className="card flex items-center gap-4 border-l-4 border-amber-500">
@@ -461,7 +464,7 @@ const InventoryPage = () => {
           </div>
           <div>
             <p className="text-2xl font-bold text-amber-600">{lowStock}</p>
-            <p className="text-gray-500 text-sm">Stock bajo</p>
+            <p className="text-gray-500 text-sm">{t('inventory.lowStock')}</p>
           </div>
         </div>
         <div className="card flex items-center gap-4 border-l-4 border-red-500">
@@ -470,7 +473,7 @@ const InventoryPage = () => {
           </div>
           <div>
             <p className="text-2xl font-bold text-red-600">{outOfStock}</p>
-            <p className="text-gray-500 text-sm">Sin stock</p>
+            <p className="text-gray-500 text-sm">{t('inventory.outOfStock')}</p>
           </div>
         </div>
       </div>
@@ -482,7 +485,7 @@ const InventoryPage = () => {
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
             <input
               type="text"
-              placeholder="Buscar por código o nombre..."
+              placeholder={t('inventory.search')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="input-field pl-12"
@@ -490,33 +493,33 @@ const InventoryPage = () => {
           </div>
           <Button variant="secondary" onClick={() => setShowFilters(!showFilters)}>
             <Filter size={20} />
-            Filtrar{activeFilterCount > 0 && ` (${activeFilterCount})`}
+            {t('inventory.filter')}{activeFilterCount > 0 && ` (${activeFilterCount})`}
           </Button>
         </div>
         {showFilters && (
           <div className="flex flex-wrap items-center gap-3 mt-3 pt-3 border-t border-gray-100">
             <div className="flex items-center gap-2">
-              <label className="text-sm text-gray-600 font-medium">Categoría:</label>
+              <label className="text-sm text-gray-600 font-medium">{t('inventory.categoryFilter')}</label>
               <select
                 value={filterCategory}
                 onChange={(e) => setFilterCategory(e.target.value ? Number(e.target.value) : '')}
                 className="input-field py-1.5 text-sm w-40"
               >
-                <option value="">Todas</option>
+                <option value="">{t('inventory.allCategories')}</option>
                 {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
               </select>
             </div>
             <div className="flex items-center gap-2">
-              <label className="text-sm text-gray-600 font-medium">Estado:</label>
+              <label className="text-sm text-gray-600 font-medium">{t('inventory.statusFilter')}</label>
               <select
                 value={filterStatus}
                 onChange={(e) => setFilterStatus(e.target.value as any)}
                 className="input-field py-1.5 text-sm w-36"
               >
-                <option value="all">Todos</option>
-                <option value="normal">Normal</option>
-                <option value="low">Stock bajo</option>
-                <option value="out">Sin stock</option>
+                <option value="all">{t('common.all')}</option>
+                <option value="normal">{t('inventory.normal')}</option>
+                <option value="low">{t('inventory.lowStock')}</option>
+                <option value="out">{t('inventory.outOfStock')}</option>
               </select>
             </div>
             {activeFilterCount > 0 && (
@@ -524,7 +527,7 @@ const InventoryPage = () => {
                 onClick={() => { setFilterCategory(''); setFilterStatus('all') }}
                 className="flex items-center gap-1 text-xs text-red-600 hover:text-red-700 font-medium"
               >
-                <X size={14} /> Limpiar filtros
+                <X size={14} /> {t('inventory.clearFilters')}
               </button>
             )}
           </div>
@@ -539,20 +542,20 @@ const InventoryPage = () => {
           </div>
         ) : filteredInventory.length === 0 ? (
           <div className="flex items-center justify-center py-12 text-gray-400">
-            No se encontraron productos
+            {t('inventory.empty')}
           </div>
         ) : (
           <table className="w-full">
             <thead>
               <tr className="bg-primary-50">
-                <th className="table-header">Código</th>
-                <th className="table-header">Producto</th>
-                <th className="table-header text-center">Stock Actual</th>
-                <th className="table-header text-center">Mínimo</th>
-                <th className="table-header text-center">Máximo</th>
-                <th className="table-header">Ubicación</th>
-                <th className="table-header text-center">Estado</th>
-                <th className="table-header text-center">Acciones</th>
+                <th className="table-header">{t('inventory.code')}</th>
+                <th className="table-header">{t('inventory.product')}</th>
+                <th className="table-header text-center">{t('inventory.currentStock')}</th>
+                <th className="table-header text-center">{t('inventory.min')}</th>
+                <th className="table-header text-center">{t('inventory.max')}</th>
+                <th className="table-header">{t('inventory.location')}</th>
+                <th className="table-header text-center">{t('common.status')}</th>
+                <th className="table-header text-center">{t('common.actions')}</th>
               </tr>
             </thead>
             <tbody>
@@ -580,21 +583,21 @@ const InventoryPage = () => {
                         <button 
                           onClick={() => openEditModal(item)}
                           className="p-2 rounded-lg hover:bg-primary-100 text-primary-600 transition-colors" 
-                          title="Editar producto"
+                          title={t('inventory.editProduct')}
                         >
                           <Edit2 size={18} />
                         </button>
                         <button 
                           onClick={() => openAdjustModal(item, 'add')}
                           className="p-2 rounded-lg hover:bg-green-100 text-green-600 transition-colors" 
-                          title="Entrada"
+                          title={t('inventory.stockIn')}
                         >
                           <ArrowUp size={18} />
                         </button>
                         <button 
                           onClick={() => openAdjustModal(item, 'remove')}
                           className="p-2 rounded-lg hover:bg-red-100 text-red-600 transition-colors" 
-                          title="Salida"
+                          title={t('inventory.stockOut')}
                         >
                           <ArrowDown size={18} />
                         </button>
@@ -613,7 +616,7 @@ const InventoryPage = () => {
         <div className="modal-overlay">
           <div className="modal-content p-4 sm:p-6 max-w-2xl animate-scale-in">
             <div className="flex items-center justify-between mb-6">
-              <h3 className="text-xl font-bold text-gray-800">Editar Producto</h3>
+              <h3 className="text-xl font-bold text-gray-800">{t('inventory.editTitle')}</h3>
               <button onClick={() => { setShowEditModal(false); setEditingItem(null) }} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
               </button>
@@ -622,34 +625,34 @@ const InventoryPage = () => {
             <form onSubmit={handleEditSubmit} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <Input
-                  label="Código *"
+                  label={t('inventory.codeLabel')}
                   value={formData.code}
                   onChange={(e) => setFormData({ ...formData, code: e.target.value })}
                   required
                 />
                 <Input
-                  label="Código de Barras"
+                  label={t('inventory.barcode')}
                   value={formData.barcode}
                   onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
                 />
               </div>
 
               <Input
-                label="Nombre *"
+                label={t('common.nameRequired')}
                 value={formData.name}
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                 required
               />
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Categoría *</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('inventory.categoryLabel')}</label>
                 <select
                   value={formData.categoryId}
                   onChange={(e) => setFormData({ ...formData, categoryId: Number(e.target.value) })}
                   className="input-field"
                   required
                 >
-                  <option value="">Seleccionar...</option>
+                  <option value="">{t('common.select')}</option>
                   {categories.map((cat) => (
                     <option key={cat.id} value={cat.id}>{cat.name}</option>
                   ))}
@@ -658,7 +661,7 @@ const InventoryPage = () => {
 
               <div className="grid grid-cols-2 gap-4">
                 <Input
-                  label="Precio Costo *"
+                  label={t('inventory.costPrice')}
                   type="number"
                   min="0"
                   step="0.01"
@@ -667,7 +670,7 @@ const InventoryPage = () => {
                   required
                 />
                 <Input
-                  label="Precio Venta *"
+                  label={t('inventory.salePrice')}
                   type="number"
                   min="0"
                   step="0.01"
@@ -678,7 +681,7 @@ const InventoryPage = () => {
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Imagen del Producto</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('inventory.image')}</label>
                 <div className="flex items-center gap-4">
                   <div className="w-16 h-16 bg-primary-50 rounded-xl flex items-center justify-center overflow-hidden border-2 border-dashed border-primary-200">
                     {formData.imageUrl ? (
@@ -692,17 +695,17 @@ const InventoryPage = () => {
                       label=""
                       value={formData.imageUrl}
                       onChange={(e) => setFormData({ ...formData, imageUrl: e.target.value })}
-                      placeholder="https://ejemplo.com/imagen.jpg"
+                      placeholder={t('inventory.imagePlaceholder')}
                     />
                   </div>
                 </div>
               </div>
 
               <div className="border-t pt-4">
-                <h4 className="font-medium text-gray-700 mb-3">Configuración de Stock</h4>
+                <h4 className="font-medium text-gray-700 mb-3">{t('inventory.stockSettings')}</h4>
                 <div className="grid grid-cols-3 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Stock Actual</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('inventory.currentStock')}</label>
                     <input
                       type="number"
                       value={editingItem.quantity}
@@ -711,14 +714,14 @@ const InventoryPage = () => {
                     />
                   </div>
                   <Input
-                    label="Stock Mínimo"
+                    label={t('inventory.minStock')}
                     type="number"
                     min="0"
                     value={formData.minStock}
                     onChange={(e) => setFormData({ ...formData, minStock: Number(e.target.value) })}
                   />
                   <Input
-                    label="Stock Máximo"
+                    label={t('inventory.maxStock')}
                     type="number"
                     min="0"
                     value={formData.maxStock}
@@ -726,16 +729,16 @@ const InventoryPage = () => {
                   />
                 </div>
                 <p className="text-xs text-amber-600 mt-2">
-                  Para modificar el stock actual, use los botones de Entrada/Salida
+                  {t('inventory.adjustHint')}
                 </p>
               </div>
 
               <div className="flex justify-end gap-3 pt-4">
                 <Button type="button" variant="secondary" onClick={() => { setShowEditModal(false); setEditingItem(null) }}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
                 <Button type="submit" variant="primary" disabled={saving}>
-                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> Guardando...</> : 'Guardar Cambios'}
+                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> {t('common.saving')}</> : t('settings.saveChanges')}
                 </Button>
               </div>
             </form>
@@ -749,7 +752,7 @@ const InventoryPage = () => {
           <div className="modal-content p-6 animate-scale-in">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-xl font-bold text-gray-800">
-                {adjustModal.type === 'add' ? 'Entrada de Stock' : 'Salida de Stock'}
+                {adjustModal.type === 'add' ? t('inventory.stockInTitle') : t('inventory.stockOutTitle')}
               </h3>
               <button onClick={() => setAdjustModal(null)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
@@ -758,12 +761,12 @@ const InventoryPage = () => {
 
             <div className="mb-4 p-3 bg-primary-50 rounded-lg">
               <p className="font-medium">{getProductName(adjustModal.inventory)}</p>
-              <p className="text-sm text-gray-500">Stock actual: {adjustModal.inventory.quantity}</p>
+              <p className="text-sm text-gray-500">{t('inventory.currentStockValue', { quantity: adjustModal.inventory.quantity })}</p>
             </div>
 
             <div className="space-y-4">
               <Input
-                label="Cantidad *"
+                label={t('common.quantityRequired')}
                 type="number"
                 min="0.01"
                 step="0.01"
@@ -773,19 +776,19 @@ const InventoryPage = () => {
               />
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Razón (opcional)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('inventory.reasonOptional')}</label>
                 <textarea
                   value={adjustReason}
                   onChange={(e) => setAdjustReason(e.target.value)}
                   className="input-field min-h-[80px]"
-                  placeholder="Motivo del ajuste..."
+                  placeholder={t('inventory.reasonPlaceholder')}
                 />
               </div>
             </div>
 
             <div className="flex gap-3 mt-6">
               <Button variant="secondary" className="flex-1" onClick={() => setAdjustModal(null)}>
-                Cancelar
+                {t('common.cancel')}
               </Button>
               <Button 
                 variant="primary" 
@@ -793,7 +796,7 @@ const InventoryPage = () => {
                 onClick={handleAdjust}
                 disabled={!adjustQuantity || processing}
               >
-                {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : (adjustModal.type === 'add' ? 'Agregar' : 'Retirar')}
+                {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : (adjustModal.type === 'add' ? t('common.add') : t('inventory.remove'))}
               </Button>
             </div>
           </div>
@@ -1,21 +1,190 @@
 import { useState, useEffect } from 'react'
-import { Search, Eye, Filter, X, Loader2, Ban, Printer } from 'lucide-react'
+import { useSelector } from 'react-redux'
+import { Search, Eye, Filter, X, Loader2, Ban, Printer, RotateCcw, FileCode, FileArchive, Send } from 'lucide-react'
 import toast from 'react-hot-toast'
+import { RootState } from '@/app/store'
 import Button from '@/shared/components/ui/Button'
 import { invoiceService } from '@/core/api/invoiceService'
-import { Invoice } from '@/types'
+import { creditNoteService, CreateCreditNoteRequest } from '@/core/api/creditNoteService'
+import { dianService, DianSubmission } from '@/core/api/dianService'
+import { Invoice, CreditNote, ReturnDisposition } from '@/types'
 import { printInvoice } from '@/shared/utils/printInvoice'
+import SupervisorAuthModal from '@/shared/components/SupervisorAuthModal'
+import { useSupervisorAuth } from '@/core/hooks/useSupervisorAuth'
+import { getPaymentMethodLabel, getPaymentLineLabel, hasPaymentBreakdown, PAYMENT_METHODS } from '@/shared/utils/payments'
+import { describeForeignPayment } from '@/shared/utils/currency'
+import { getDetailsTaxBreakdown } from '@/shared/utils/taxes'
+import { getReturnedQuantities, getCreditNotesTotal, estimateReturnAmount } from '@/shared/utils/creditNotes'
+import { buildDianXml, validateDianInvoice, checkXmlWellFormed, DianDocument } from '@/shared/utils/dian'
+import { createZip, downloadBlob } from '@/shared/utils/zip'
+import { formatCurrency, formatDateTime } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+interface ReturnModalProps {
+  invoice: Invoice
+  processing: boolean
+  onClose: () => void
+  onConfirm: (request: CreateCreditNoteRequest) => void
+  formatCurrency: (value: number) => string
+}
+
+const ReturnModal = ({ invoice, processing, onClose, onConfirm, formatCurrency }: ReturnModalProps) => {
+  const { t } = useTranslation()
+  const returned = getReturnedQuantities(invoice.creditNotes)
+  const [quantities, setQuantities] = useState<Record<number, number>>({})
+  const [dispositions, setDispositions] = useState<Record<number, ReturnDisposition>>({})
+  const [reason, setReason] = useState('')
+  const [refundMethod, setRefundMethod] = useState(
+    PAYMENT_METHODS.some((m) => m.value === invoice.paymentMethod) ? invoice.paymentMethod! : 'EFECTIVO'
+  )
+
+  const details = invoice.details || []
+  const selected = details.filter((d) => (quantities[d.id] || 0) > 0)
+  const refundTotal = selected.reduce((acc, d) => acc + estimateReturnAmount(invoice, d, quantities[d.id]), 0)
+
+  const setQuantity = (detailId: number, value: number, max: number) => {
+    setQuantities({ ...quantities, [detailId]: Math.min(max, Math.max(0, value)) })
+  }
+
+  const handleConfirm = () => {
+    onConfirm({
+      invoiceId: invoice.id,
+      reason: reason.trim(),
+      refundMethod,
+      details: selected.map((d) => ({
+        invoiceDetailId: d.id,
+        quantity: quantities[d.id],
+        disposition: dispositions[d.id] || 'REINGRESO',
+      })),
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{t('invoices.return')}</h3>
+            <p className="text-gray-500">{t('invoices.invoiceNumberTitle', { number: invoice.invoiceNumber })}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-2 mb-4">
+          {details.map((d) => {
+            const available = Number(d.quantity) - (returned[d.id] || 0)
+            const qty = quantities[d.id] || 0
+            return (
+              <div key={d.id} className={`p-3 rounded-xl border ${qty > 0 ? 'border-primary-300 bg-primary-50' : 'border-gray-200'}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800 truncate">{d.productName}</p>
+                    <p className="text-xs text-gray-500">
+                      {t('invoices.sold', { quantity: d.quantity })}
+                      {returned[d.id] ? ` · ${t('invoices.returned', { quantity: returned[d.id] })}` : ''}
+                      {' · '}{formatCurrency(d.subtotal)}
+                    </p>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={available}
+                    step="any"
+                    value={qty || ''}
+                    disabled={available <= 0}
+                    onChange={(e) => setQuantity(d.id, Number(e.target.value) || 0, available)}
+                    placeholder="0"
+                    className="input-field w-24 py-1.5 text-center"
+                  />
+                </div>
+                {qty > 0 && (
+                  <div className="flex items-center justify-between mt-2 text-sm">
+                    <div className="flex gap-3">
+                      {(['REINGRESO', 'MERMA'] as const).map((option) => (
+                        <label key={option} className="flex items-center gap-1.5 cursor-pointer">
+                          <input
+                            type="radio"
+                            checked={(dispositions[d.id] || 'REINGRESO') === option}
+                            onChange={() => setDispositions({ ...dispositions, [d.id]: option })}
+                            className="text-primary-600"
+                          />
+                          {option === 'REINGRESO' ? t('invoices.restock') : t('invoices.waste')}
+                        </label>
+                      ))}
+                    </div>
+                    <span className="font-medium text-red-600">-{formatCurrency(estimateReturnAmount(invoice, d, qty))}</span>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('invoices.refundMethod')}</label>
+            <select value={refundMethod} onChange={(e) => setRefundMethod(e.target.value)} className="input-field">
+              {PAYMENT_METHODS.map((m) => (
+                <option key={m.value} value={m.value}>{getPaymentMethodLabel(m.value)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.reasonLabel')}</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="input-field"
+              placeholder={t('invoices.reasonPlaceholder')}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center p-3 bg-red-50 rounded-xl mb-4">
+          <span className="text-sm text-gray-600">{t('invoices.refundTotal')}</span>
+          <span className="text-lg font-bold text-red-600">{formatCurrency(refundTotal)}</span>
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="secondary" className="flex-1" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            variant="primary"
+            className="flex-1"
+            onClick={handleConfirm}
+            disabled={selected.length === 0 || !reason.trim() || processing}
+          >
+            {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : <><RotateCcw size={18} /> {t('invoices.issueCreditNote')}</>}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
 
 const InvoicesPage = () => {
+  const { t } = useTranslation()
   const [invoices, setInvoices] = useState<Invoice[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null)
   const [showDetailModal, setShowDetailModal] = useState(false)
   const [showVoidModal, setShowVoidModal] = useState(false)
+  const [showReturnModal, setShowReturnModal] = useState(false)
   const [voidReason, setVoidReason] = useState('')
   const [processing, setProcessing] = useState(false)
   const [activeTab, setActiveTab] = useState<'active' | 'voided'>('active')
+  const [showDianExport, setShowDianExport] = useState(false)
+  const [dianRange, setDianRange] = useState(() => {
+    const today = new Date().toISOString().split('T')[0]
+    return { start: today, end: today }
+  })
+  const { company, dian } = useSelector((state: RootState) => state.settings)
+  const supervisorAuth = useSupervisorAuth()
 
   useEffect(() => {
     fetchInvoices()
@@ -28,49 +197,86 @@ const InvoicesPage = () => {
       setInvoices((res as any).content || res)
     } catch (error) {
       console.error('Error loading invoices:', error)
-      toast.error('Error al cargar facturas')
+      toast.error(t('invoices.loadError'))
     } finally {
       setLoading(false)
     }
   }
 
-  const formatCurrency = (value: number) => 
-    new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(value)
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'COMPLETADA': return <span className="badge badge-success">{t('invoices.completed')}</span>
+      case 'ANULADA': return <span className="badge badge-danger">{t('invoices.voidedStatus')}</span>
+      case 'PENDIENTE': return <span className="badge badge-warning">{t('common.pending')}</span>
+      default: return <span className="badge badge-info">{status}</span>
+    }
+  }
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr)
-    return date.toLocaleDateString('es-CO', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+  // El backend puede no incluir las notas crédito en el detalle de la factura
+  const loadInvoice = async (invoiceId: number) => {
+    const [detail, creditNotes] = await Promise.all([
+      invoiceService.getById(invoiceId),
+      creditNoteService.getByInvoice(invoiceId).catch(() => []),
+    ])
+    const invoice = detail as Invoice
+    return { ...invoice, creditNotes: invoice.creditNotes ?? (creditNotes as CreditNote[]) }
   }
 
-  const getPaymentMethodLabel = (method: string) => {
-    switch (method) {
-      case 'EFECTIVO': return 'Efectivo'
-      case 'TRANSFERENCIA': return 'Transferencia'
-      case 'TARJETA_CREDITO': return 'Tarjeta Crédito'
-      case 'TARJETA_DEBITO': return 'Tarjeta Débito'
-      default: return method
+  const openDetail = async (invoice: Invoice) => {
+    try {
+      setSelectedInvoice(await loadInvoice(invoice.id))
+      setShowDetailModal(true)
+    } catch (error) {
+      toast.error(t('invoices.detailError'))
     }
   }
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'COMPLETADA': return <span className="badge badge-success">Completada</span>
-      case 'ANULADA': return <span className="badge badge-danger">Anulada</span>
-      case 'PENDIENTE': return <span className="badge badge-warning">Pendiente</span>
-      default: return <span className="badge badge-info">{status}</span>
+  const openReturnModal = async (invoice: Invoice) => {
+    try {
+      setSelectedInvoice(await loadInvoice(invoice.id))
+      setShowDetailModal(false)
+      setShowReturnModal(true)
+    } catch (error) {
+      toast.error(t('invoices.detailError'))
     }
   }
 
-  const openDetail = async (invoice: Invoice) => {
+  const handleReturn = async (request: CreateCreditNoteRequest) => {
+    setProcessing(true)
     try {
-      const detail = await invoiceService.getById(invoice.id)
-      setSelectedInvoice(detail as Invoice)
+      const note = (await creditNoteService.create(request)) as CreditNote
+      toast.success(t('invoices.creditNoteIssued', { number: note.creditNoteNumber }))
+      setShowReturnModal(false)
+      setSelectedInvoice(await loadInvoice(request.invoiceId))
       setShowDetailModal(true)
-    } catch (error) {
-      toast.error('Error al cargar detalle')
+      fetchInvoices()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('invoices.returnError'))
+    } finally {
+      setProcessing(false)
     }
   }
 
+  const handlePrintCreditNote = (note: CreditNote) => {
+    printInvoice({
+      invoiceNumber: note.creditNoteNumber,
+      createdAt: note.createdAt,
+      customer: selectedInvoice?.customer,
+      customerName: selectedInvoice?.customerName,
+      userName: note.userName,
+      details: note.details.map((d) => ({
+        quantity: d.quantity,
+        productName: d.disposition === 'MERMA' ? t('invoices.wasteLine', { name: d.productName }) : d.productName,
+        subtotal: d.subtotal,
+      })),
+      subtotal: note.subtotal,
+      discountAmount: 0,
+      taxAmount: note.taxAmount,
+      total: note.total,
+      paymentMethod: note.refundMethod,
+    }, { creditNoteFor: note.invoiceNumber }).catch(() => toast.error(t('receipt.printFailed')))
+  }
+
   const openVoidModal = (invoice: Invoice) => {
     setSelectedInvoice(invoice)
     setVoidReason('')
@@ -79,15 +285,102 @@ const InvoicesPage = () => {
 
   const handleVoid = async () => {
     if (!selectedInvoice || !voidReason.trim()) return
-    
+    const approval = await supervisorAuth.authorize({
+      action: 'ANULAR_FACTURA',
+      permission: 'invoices.void',
+      description: t('invoices.voidDescription', { number: selectedInvoice.invoiceNumber, total: formatCurrency(selectedInvoice.total), reason: voidReason.trim() }),
+      reference: selectedInvoice.invoiceNumber,
+    })
+    if (!approval) return
+
     setProcessing(true)
     try {
-      await invoiceService.voidInvoice(selectedInvoice.id, { reason: voidReason })
-      toast.success('Factura anulada')
+      await invoiceService.voidInvoice(selectedInvoice.id, { reason: voidReason, authorizationId: approval.authorizationId })
+      toast.success(t('invoices.voided'))
       setShowVoidModal(false)
       fetchInvoices()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al anular factura')
+      toast.error(error.response?.data?.message || t('invoices.voidError'))
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  /** Valida y genera el XML UBL de una factura; lanza Error con los problemas encontrados */
+  const generateDianDocument = async (invoice: Invoice): Promise<DianDocument> => {
+    const errors = validateDianInvoice(invoice, company, dian)
+    if (errors.length > 0) throw new Error(errors.join('; '))
+    const document = await buildDianXml(invoice, company, dian)
+    const xmlError = checkXmlWellFormed(document.xml)
+    if (xmlError) throw new Error(t('invoices.invalidXml', { error: xmlError }))
+    return document
+  }
+
+  const handleDownloadDian = async (invoice: Invoice, format: 'xml' | 'zip') => {
+    try {
+      const document = await generateDianDocument(invoice)
+      if (format === 'xml') {
+        downloadBlob(new Blob([document.xml], { type: 'application/xml' }), `${document.number}.xml`)
+      } else {
+        downloadBlob(createZip([{ name: `${document.number}.xml`, content: document.xml }]), `${document.number}.zip`)
+      }
+    } catch (error: any) {
+      toast.error(error.message || t('invoices.xmlError'))
+    }
+  }
+
+  const handleSendDian = async (invoice: Invoice) => {
+    setProcessing(true)
+    try {
+      const document = await generateDianDocument(invoice)
+      const submission = await dianService.submit({
+        invoiceId: invoice.id,
+        number: document.number,
+        cufe: document.cufe,
+        xml: document.xml,
+      }) as DianSubmission
+      toast.success(t('invoices.dianSent', { number: document.number, status: submission.status }))
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.message || t('invoices.dianSendError'))
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  /** ZIP con el XML de cada factura del rango; las que no pasan la validación van a errores.txt */
+  const handleDianExport = async () => {
+    setProcessing(true)
+    try {
+      const range = await invoiceService.getByDateRange(`${dianRange.start}T00:00:00`, `${dianRange.end}T23:59:59`) as Invoice[]
+      const candidates = range.filter((inv) => inv.status !== 'ANULADA')
+      if (candidates.length === 0) {
+        toast.error(t('invoices.noneInRange'))
+        return
+      }
+
+      const entries: Array<{ name: string; content: string }> = []
+      const errors: string[] = []
+      for (const summary of candidates) {
+        try {
+          const invoice = summary.details ? summary : await invoiceService.getById(summary.id) as Invoice
+          const document = await generateDianDocument(invoice)
+          entries.push({ name: `${document.number}.xml`, content: document.xml })
+        } catch (error: any) {
+          errors.push(`${summary.invoiceNumber}: ${error.response?.data?.message || error.message}`)
+        }
+      }
+      if (errors.length > 0) entries.push({ name: 'errores.txt', content: errors.join('\r\n') })
+
+      downloadBlob(createZip(entries), `facturas-dian_${dianRange.start}_${dianRange.end}.zip`)
+      const generated = candidates.length - errors.length
+      if (errors.length > 0) {
+        toast.error(t('invoices.xmlWithErrors', { count: generated, errors: errors.length }))
+      } else {
+        toast.success(t('invoices.xmlGenerated', { count: generated }))
+      }
+      setShowDianExport(false)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('invoices.exportError'))
     } finally {
       setProcessing(false)
     }
@@ -104,12 +397,14 @@ const InvoicesPage = () => {
     inv.customer?.fullName?.toLowerCase().includes(searchTerm.toLowerCase())
   )
 
+  const selectedTaxBreakdown = getDetailsTaxBreakdown(selectedInvoice?.details || []).filter((line) => line.rate > 0)
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-800">Facturas</h1>
-          <p className="text-gray-500">Historial de ventas y transacciones</p>
+          <h1 className="text-2xl font-bold text-gray-800">{t('nav.invoices')}</h1>
+          <p className="text-gray-500">{t('invoices.subtitle')}</p>
         </div>
       </div>
 
@@ -123,7 +418,7 @@ const InvoicesPage = () => {
               : 'bg-white text-gray-600 hover:bg-primary-50'
           }`}
         >
-          Activas
+          {t('invoices.activeTab')}
           <span className={`px-2 py-0.5 rounded-full text-xs ${
             activeTab === 'active' ? 'bg-white/20' : 'bg-primary-100 text-primary-600'
           }`}>
@@ -138,7 +433,7 @@ const InvoicesPage = () => {
               : 'bg-white text-gray-600 hover:bg-red-50'
           }`}
         >
-          Anuladas
+          {t('invoices.voidedTab')}
           <span className={`px-2 py-0.5 rounded-full text-xs ${
             activeTab === 'voided' ? 'bg-white/20' : 'bg-red-100 text-red-600'
           }`}>
@@ -153,13 +448,18 @@ const InvoicesPage = () => {
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
             <input 
               type="text" 
-              placeholder="Buscar por número o cliente..." 
+              placeholder={t('invoices.search')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="input-field pl-12" 
             />
           </div>
-          <Button variant="secondary"><Filter size={20} /> Filtros</Button>
+          <Button variant="secondary"><Filter size={20} /> {t('common.filters')}</Button>
+          {dian.enabled && (
+            <Button variant="secondary" onClick={() => setShowDianExport(true)}>
+              <FileArchive size={20} /> {t('invoices.exportDian')}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -170,18 +470,18 @@ const InvoicesPage = () => {
           </div>
         ) : filteredInvoices.length === 0 ? (
           <div className="flex items-center justify-center py-12 text-gray-400">
-            No se encontraron facturas
+            {t('invoices.empty')}
           </div>
         ) : (
           <table className="w-full">
             <thead>
               <tr className="bg-primary-50">
-                <th className="table-header">N° Factura</th>
-                <th className="table-header">Cliente</th>
-                <th className="table-header">Fecha</th>
-                <th className="table-header text-right">Total</th>
-                <th className="table-header text-center">Estado</th>
-                <th className="table-header text-center">Acciones</th>
+                <th className="table-header">{t('invoices.number')}</th>
+                <th className="table-header">{t('common.customer')}</th>
+                <th className="table-header">{t('common.date')}</th>
+                <th className="table-header text-right">{t('common.total')}</th>
+                <th className="table-header text-center">{t('common.status')}</th>
+                <th className="table-header text-center">{t('common.actions')}</th>
               </tr>
             </thead>
             <tbody>
@@ -190,7 +490,7 @@ const InvoicesPage = () => {
                   <td className="table-cell font-mono">{invoice.invoiceNumber}</td>
                   <td className="table-cell">
                     <div>
-                      <p className="font-medium">{invoice.customer?.fullName || invoice.customerName || 'Cliente General'}</p>
+                      <p className="font-medium">{invoice.customer?.fullName || invoice.customerName || t('common.generalCustomer')}</p>
                       {(invoice.customer?.documentNumber || invoice.customerDocument) && (
                         <p className="text-xs text-gray-500">
                           {invoice.customer?.documentType || 'Doc'} {invoice.customer?.documentNumber || invoice.customerDocument}
@@ -198,23 +498,37 @@ const InvoicesPage = () => {
                       )}
                     </div>
                   </td>
-                  <td className="table-cell">{formatDate(invoice.createdAt)}</td>
+                  <td className="table-cell">{formatDateTime(invoice.createdAt)}</td>
                   <td className="table-cell text-right font-semibold text-primary-600">{formatCurrency(invoice.total)}</td>
-                  <td className="table-cell text-center">{getStatusBadge(invoice.status)}</td>
+                  <td className="table-cell text-center">
+                    {getStatusBadge(invoice.status)}
+                    {(invoice.creditNotes?.length || 0) > 0 && (
+                      <span className="badge badge-warning ml-1">{t('invoices.return')}</span>
+                    )}
+                  </td>
                   <td className="table-cell">
                     <div className="flex items-center justify-center gap-2">
                       <button 
                         onClick={() => openDetail(invoice)}
                         className="p-2 rounded-lg hover:bg-primary-100 text-gray-500"
-                        title="Ver detalle"
+                        title={t('common.viewDetail')}
                       >
                         <Eye size={18} />
                       </button>
+                      {invoice.status === 'COMPLETADA' && (
+                        <button
+                          onClick={() => openReturnModal(invoice)}
+                          className="p-2 rounded-lg hover:bg-amber-100 text-amber-600"
+                          title={t('invoices.return')}
+                        >
+                          <RotateCcw size={18} />
+                        </button>
+                      )}
                       {invoice.status !== 'ANULADA' && (
                         <button 
                           onClick={() => openVoidModal(invoice)}
                           className="p-2 rounded-lg hover:bg-red-100 text-red-500"
-                          title="Anular"
+                          title={t('common.void')}
                         >
                           <Ban size={18} />
                         </button>
@@ -234,8 +548,8 @@ const InvoicesPage = () => {
           <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in">
             <div className="flex items-center justify-between mb-6">
               <div>
-                <h3 className="text-xl font-bold text-gray-800">Factura {selectedInvoice.invoiceNumber}</h3>
-                <p className="text-gray-500">{formatDate(selectedInvoice.createdAt)}</p>
+                <h3 className="text-xl font-bold text-gray-800">{t('invoices.invoiceNumberTitle', { number: selectedInvoice.invoiceNumber })}</h3>
+                <p className="text-gray-500">{formatDateTime(selectedInvoice.createdAt)}</p>
               </div>
               <button onClick={() => setShowDetailModal(false)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
@@ -245,39 +559,64 @@ const InvoicesPage = () => {
             <div className="space-y-4">
               {/* Información del Cliente */}
               <div className="bg-primary-50 rounded-xl p-4">
-                <h4 className="text-sm font-semibold text-gray-600 mb-2">Información del Cliente</h4>
-                <p className="font-medium text-gray-800">{selectedInvoice.customer?.fullName || selectedInvoice.customerName || 'Cliente General'}</p>
+                <h4 className="text-sm font-semibold text-gray-600 mb-2">{t('invoices.customerInfo')}</h4>
+                <p className="font-medium text-gray-800">{selectedInvoice.customer?.fullName || selectedInvoice.customerName || t('common.generalCustomer')}</p>
                 {selectedInvoice.customer && (
                   <div className="text-sm text-gray-500 mt-1 space-y-0.5">
                     {selectedInvoice.customer.documentNumber && (
                       <p>{selectedInvoice.customer.documentType}: {selectedInvoice.customer.documentNumber}</p>
                     )}
-                    {selectedInvoice.customer.phone && <p>Tel: {selectedInvoice.customer.phone}</p>}
-                    {selectedInvoice.customer.email && <p>Email: {selectedInvoice.customer.email}</p>}
+                    {selectedInvoice.customer.phone && <p>{t('invoices.phoneValue', { phone: selectedInvoice.customer.phone })}</p>}
+                    {selectedInvoice.customer.email && <p>{t('invoices.emailValue', { email: selectedInvoice.customer.email })}</p>}
                   </div>
                 )}
                 {!selectedInvoice.customer && selectedInvoice.customerDocument && (
                   <div className="text-sm text-gray-500 mt-1 space-y-0.5">
-                    <p>Documento: {selectedInvoice.customerDocument}</p>
+                    <p>{t('invoices.documentValue', { document: selectedInvoice.customerDocument })}</p>
                   </div>
                 )}
+                {selectedInvoice.priceListName && (
+                  <p className="text-sm text-indigo-600 mt-1">{t('invoices.priceListValue', { name: selectedInvoice.priceListName })}</p>
+                )}
               </div>
               <div className="flex justify-between">
-                <span className="text-gray-500">Método de Pago:</span>
+                <span className="text-gray-500">{t('common.paymentMethod')}:</span>
                 <span>{getPaymentMethodLabel(selectedInvoice.paymentMethod || '')}</span>
               </div>
+              {hasPaymentBreakdown(selectedInvoice.payments) && (
+                <div className="bg-gray-50 rounded-lg p-3 space-y-1">
+                  {selectedInvoice.payments!.map((p, idx) => (
+                    <div key={idx} className="flex justify-between text-sm">
+                      <span className="text-gray-500">{getPaymentLineLabel(p)}{p.currency && ` (${describeForeignPayment(p, formatCurrency)})`}</span>
+                      <span>{formatCurrency(p.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="flex justify-between">
-                <span className="text-gray-500">Estado:</span>
+                <span className="text-gray-500">{t('common.status')}:</span>
                 {getStatusBadge(selectedInvoice.status)}
               </div>
 
               <div className="border-t pt-4">
-                <h4 className="font-semibold mb-2">Detalle de Productos</h4>
+                <h4 className="font-semibold mb-2">{t('invoices.productDetail')}</h4>
                 <div className="space-y-2">
                   {selectedInvoice.details?.map((detail, idx) => (
-                    <div key={idx} className="flex justify-between text-sm">
-                      <span>{detail.quantity} x {detail.productName}</span>
-                      <span>{formatCurrency(detail.subtotal)}</span>
+                    <div key={idx} className="text-sm">
+                      <div className="flex justify-between">
+                        <span>{detail.quantity} x {detail.productName}</span>
+                        <span>{formatCurrency(detail.subtotal)}</span>
+                      </div>
+                      {detail.discountAmount > 0 && (
+                        <p className="text-xs text-green-600">
+                          {t('invoices.lineDiscount', { amount: formatCurrency(detail.discountAmount) })}{detail.discountReason ? ` · ${detail.discountReason}` : ''}
+                        </p>
+                      )}
+                      {detail.originalUnitPrice != null && detail.originalUnitPrice !== detail.unitPrice && (
+                        <p className="text-xs text-amber-600">
+                          {t('invoices.priceChanged', { from: formatCurrency(detail.originalUnitPrice), to: formatCurrency(detail.unitPrice) })}{detail.priceOverrideReason ? ` · ${detail.priceOverrideReason}` : ''}
+                        </p>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -285,51 +624,210 @@ const InvoicesPage = () => {
 
               <div className="border-t pt-4 space-y-2">
                 <div className="flex justify-between">
-                  <span>Subtotal:</span>
+                  <span>{t('common.subtotal')}:</span>
                   <span>{formatCurrency(selectedInvoice.subtotal)}</span>
                 </div>
                 {selectedInvoice.discountAmount > 0 && (
                   <div className="flex justify-between text-green-600">
-                    <span>Descuento:</span>
+                    <span>{t('common.discount')}:</span>
                     <span>-{formatCurrency(selectedInvoice.discountAmount)}</span>
                   </div>
                 )}
+                {(selectedInvoice.couponDiscountAmount || 0) > 0 && (
+                  <div className="flex justify-between text-sm text-purple-600">
+                    <span>{t('invoices.coupon', { code: selectedInvoice.couponCode || '' })}:</span>
+                    <span>-{formatCurrency(selectedInvoice.couponDiscountAmount!)}</span>
+                  </div>
+                )}
                 {(selectedInvoice as any).serviceChargeAmount > 0 && (
                   <div className="flex justify-between text-blue-600">
-                    <span>Servicio ({(selectedInvoice as any).serviceChargePercent}%):</span>
+                    <span>{t('invoices.serviceCharge', { percent: (selectedInvoice as any).serviceChargePercent })}:</span>
                     <span>{formatCurrency((selectedInvoice as any).serviceChargeAmount)}</span>
                   </div>
                 )}
+                {selectedInvoice.taxAmount > 0 && (
+                  selectedTaxBreakdown.length > 0 ? (
+                    selectedTaxBreakdown.map((line) => (
+                      <div key={`${line.taxType}-${line.rate}`} className="flex justify-between text-sm text-gray-500">
+                        <span>{t('invoices.taxBase', { label: line.label, base: formatCurrency(line.base) })}:</span>
+                        <span>{formatCurrency(line.tax)}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="flex justify-between text-sm text-gray-500">
+                      <span>{t('invoices.taxes')}:</span>
+                      <span>{formatCurrency(selectedInvoice.taxAmount)}</span>
+                    </div>
+                  )
+                )}
                 <div className="flex justify-between font-bold text-lg">
-                  <span>Total:</span>
+                  <span>{t('common.total')}:</span>
                   <span className="text-primary-600">{formatCurrency(selectedInvoice.total)}</span>
                 </div>
+                {(selectedInvoice.tipAmount || 0) > 0 && (
+                  <div className="flex justify-between text-sm text-amber-600">
+                    <span>
+                      {t('invoices.tipOutside')}
+                      {selectedInvoice.tipDistribution && selectedInvoice.tipDistribution.length > 0 && (
+                        <span className="text-gray-500"> · {selectedInvoice.tipDistribution.map((s) => s.userName).join(', ')}</span>
+                      )}
+                      :
+                    </span>
+                    <span>+{formatCurrency(selectedInvoice.tipAmount!)}</span>
+                  </div>
+                )}
                 {selectedInvoice.amountReceived > 0 && (
                   <div className="flex justify-between text-sm">
-                    <span className="text-gray-500">Recibido:</span>
+                    <span className="text-gray-500">{t('invoices.received')}:</span>
                     <span>{formatCurrency(selectedInvoice.amountReceived)}</span>
                   </div>
                 )}
                 {(selectedInvoice as any).changeAmount > 0 && (
                   <div className="flex justify-between text-sm font-medium text-green-600">
-                    <span>Cambio:</span>
+                    <span>{t('invoices.change')}:</span>
                     <span>{formatCurrency((selectedInvoice as any).changeAmount)}</span>
                   </div>
                 )}
               </div>
             </div>
 
+            {(selectedInvoice.creditNotes?.length || 0) > 0 && (
+              <div className="border-t pt-4 mt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold">{t('invoices.creditNotes')}</h4>
+                  <span className="text-sm font-medium text-red-600">-{formatCurrency(getCreditNotesTotal(selectedInvoice.creditNotes))}</span>
+                </div>
+                <div className="space-y-2">
+                  {selectedInvoice.creditNotes!.map((note) => (
+                    <div key={note.id} className="p-3 bg-amber-50 rounded-xl text-sm">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <span className="font-mono font-medium">{note.creditNoteNumber}</span>
+                          <span className="text-gray-500"> · {formatDateTime(note.createdAt)}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-red-600">-{formatCurrency(note.total)}</span>
+                          <button
+                            onClick={() => handlePrintCreditNote(note)}
+                            className="p-1.5 rounded-lg hover:bg-amber-100 text-gray-500"
+                            title={t('invoices.printCreditNote')}
+                          >
+                            <Printer size={16} />
+                          </button>
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {note.reason} · {t('invoices.refundValue', { method: getPaymentMethodLabel(note.refundMethod) })}
+                      </p>
+                      {note.details.map((d, idx) => (
+                        <p key={idx} className="text-xs text-gray-600">
+                          {d.quantity} x {d.productName} · {d.disposition === 'MERMA' ? t('invoices.waste') : t('invoices.restocked')}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {dian.enabled && selectedInvoice.status !== 'ANULADA' && (
+              <div className="border-t pt-4 mt-4">
+                <h4 className="font-semibold mb-2">{t('invoices.electronic')}</h4>
+                {selectedInvoice.cufe && (
+                  <p className="text-xs text-gray-500 font-mono break-all mb-2">CUFE: {selectedInvoice.cufe}</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="secondary" size="sm" onClick={() => handleDownloadDian(selectedInvoice, 'xml')}>
+                    <FileCode size={16} /> XML
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => handleDownloadDian(selectedInvoice, 'zip')}>
+                    <FileArchive size={16} /> ZIP
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => handleSendDian(selectedInvoice)} disabled={processing}>
+                    {processing ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />} {t('invoices.sendDian')}
+                  </Button>
+                </div>
+              </div>
+            )}
+
             <div className="mt-6 flex gap-3">
+              {selectedInvoice.status === 'COMPLETADA' && (
+                <Button variant="secondary" className="flex-1" onClick={() => openReturnModal(selectedInvoice)}>
+                  <RotateCcw size={20} />
+                  {t('invoices.return')}
+                </Button>
+              )}
               <Button 
                 variant="primary" 
                 className="flex-1"
-                onClick={() => printInvoice(selectedInvoice as any)}
+                onClick={() => printInvoice(selectedInvoice as any).catch(() => toast.error(t('receipt.printFailed')))}
               >
                 <Printer size={20} />
-                Imprimir
+                {t('common.print')}
               </Button>
               <Button variant="secondary" className="flex-1" onClick={() => setShowDetailModal(false)}>
-                Cerrar
+                {t('common.close')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Return Modal */}
+      {showReturnModal && selectedInvoice && (
+        <ReturnModal
+          invoice={selectedInvoice}
+          processing={processing}
+          onClose={() => setShowReturnModal(false)}
+          onConfirm={handleReturn}
+          formatCurrency={formatCurrency}
+        />
+      )}
+
+      {/* DIAN export modal */}
+      {showDianExport && (
+        <div className="modal-overlay">
+          <div className="modal-content p-6 animate-scale-in">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-gray-800">{t('invoices.exportDian')}</h3>
+              <button onClick={() => setShowDianExport(false)} className="text-gray-400 hover:text-gray-600">
+                <X size={24} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              {t('invoices.exportHint')}
+            </p>
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.from')}</label>
+                <input
+                  type="date"
+                  value={dianRange.start}
+                  onChange={(e) => setDianRange({ ...dianRange, start: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.to')}</label>
+                <input
+                  type="date"
+                  value={dianRange.end}
+                  onChange={(e) => setDianRange({ ...dianRange, end: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <Button variant="secondary" className="flex-1" onClick={() => setShowDianExport(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button
+                variant="primary"
+                className="flex-1"
+                onClick={handleDianExport}
+                disabled={!dianRange.start || !dianRange.end || dianRange.start > dianRange.end || processing}
+              >
+                {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : <><FileArchive size={18} /> {t('invoices.downloadZip')}</>}
               </Button>
             </div>
           </div>
@@ -341,30 +839,30 @@ const InvoicesPage = () => {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="modal-content p-6 animate-scale-in">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-xl font-bold text-gray-800">Anular Factura</h3>
+              <h3 className="text-xl font-bold text-gray-800">{t('invoices.voidTitle')}</h3>
               <button onClick={() => setShowVoidModal(false)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
               </button>
             </div>
 
             <p className="text-gray-500 mb-4">
-              ¿Está seguro de anular la factura <strong>{selectedInvoice.invoiceNumber}</strong>?
+              {t('invoices.confirmVoid')} <strong>{selectedInvoice.invoiceNumber}</strong>?
             </p>
 
             <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-1">Razón de anulación *</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.voidReason')}</label>
               <textarea
                 value={voidReason}
                 onChange={(e) => setVoidReason(e.target.value)}
                 className="input-field min-h-[100px]"
-                placeholder="Ingrese la razón..."
+                placeholder={t('common.reasonPlaceholder')}
                 required
               />
             </div>
 
             <div className="flex gap-3">
               <Button variant="secondary" className="flex-1" onClick={() => setShowVoidModal(false)}>
-                Cancelar
+                {t('common.cancel')}
               </Button>
               <Button 
                 variant="primary" 
@@ -372,12 +870,14 @@ const InvoicesPage = () => {
                 onClick={handleVoid}
                 disabled={!voidReason.trim() || processing}
               >
-                {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Anular'}
+                {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : t('common.void')}
               </Button>
             </div>
           </div>
         </div>
       )}
+
+      <SupervisorAuthModal {...supervisorAuth.modalProps} />
     </div>
   )
 }
@@ -3,14 +3,18 @@ import { Clock, ChefHat, CheckCircle2, Loader2, AlertCircle, RefreshCw, Utensils
 import toast from 'react-hot-toast'
 import { kitchenService, KitchenOrder } from '@/core/api/kitchenService'
 import { useSseEvents } from '@/core/hooks/useSseEvents'
+import { formatTime } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import type { MessageKey } from '@/core/i18n'
 
-const STATUS_CONFIG: Record<string, { label: string; color: string; bg: string; icon: any }> = {
-  PENDIENTE: { label: 'Pendiente', color: 'text-orange-700', bg: 'bg-orange-100 border-orange-300', icon: Clock },
-  EN_PREPARACION: { label: 'En Preparación', color: 'text-blue-700', bg: 'bg-blue-100 border-blue-300', icon: ChefHat },
-  LISTO: { label: 'Listo', color: 'text-green-700', bg: 'bg-green-100 border-green-300', icon: CheckCircle2 },
+const STATUS_CONFIG: Record<string, { labelKey: MessageKey; color: string; bg: string; icon: any }> = {
+  PENDIENTE: { labelKey: 'kitchen.status.PENDIENTE', color: 'text-orange-700', bg: 'bg-orange-100 border-orange-300', icon: Clock },
+  EN_PREPARACION: { labelKey: 'kitchen.status.EN_PREPARACION', color: 'text-blue-700', bg: 'bg-blue-100 border-blue-300', icon: ChefHat },
+  LISTO: { labelKey: 'kitchen.status.LISTO', color: 'text-green-700', bg: 'bg-green-100 border-green-300', icon: CheckCircle2 },
 }
 
 const KitchenPage = () => {
+  const { t } = useTranslation()
   const [orders, setOrders] = useState<KitchenOrder[]>([])
   const [loading, setLoading] = useState(true)
   const [updatingItem, setUpdatingItem] = useState<number | null>(null)
@@ -21,7 +25,7 @@ const KitchenPage = () => {
       const data = await kitchenService.getPendingOrders()
       setOrders(data)
     } catch {
-      toast.error('Error al cargar pedidos')
+      toast.error(t('kitchen.loadError'))
     } finally {
       setLoading(false)
     }
@@ -49,10 +53,10 @@ const KitchenPage = () => {
     try {
       await kitchenService.updateItemStatus(detailId, newStatus)
       await fetchOrders()
-      const statusLabel = STATUS_CONFIG[newStatus]?.label || newStatus
-      toast.success(`Estado actualizado: ${statusLabel}`)
+      const statusLabel = STATUS_CONFIG[newStatus] ? t(STATUS_CONFIG[newStatus].labelKey) : newStatus
+      toast.success(t('kitchen.statusUpdated', { status: statusLabel }))
     } catch {
-      toast.error('Error al actualizar estado')
+      toast.error(t('kitchen.updateError'))
     } finally {
       setUpdatingItem(null)
     }
@@ -69,18 +73,13 @@ const KitchenPage = () => {
 
   const getNextStatusLabel = (current: string): string => {
     switch (current) {
-      case 'PENDIENTE': return 'Iniciar Preparación'
-      case 'EN_PREPARACION': return 'Marcar Listo'
-      case 'LISTO': return 'Marcar Entregado'
+      case 'PENDIENTE': return t('kitchen.startPreparing')
+      case 'EN_PREPARACION': return t('kitchen.markReady')
+      case 'LISTO': return t('kitchen.markDelivered')
       default: return ''
     }
   }
 
-  const formatTime = (dateStr: string) => {
-    const date = new Date(dateStr)
-    return date.toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })
-  }
-
   const getElapsedMinutes = (dateStr: string) => {
     const diff = Date.now() - new Date(dateStr).getTime()
     return Math.floor(diff / 60000)
@@ -112,8 +111,8 @@ const KitchenPage = () => {
             <ChefHat className="w-5 h-5 text-white" />
           </div>
           <div>
-            <h1 className="text-2xl font-bold text-gray-800">Cocina</h1>
-            <p className="text-sm text-gray-500">{filteredOrders.length} pedido(s) activo(s)</p>
+            <h1 className="text-2xl font-bold text-gray-800">{t('kitchen.title')}</h1>
+            <p className="text-sm text-gray-500">{t('kitchen.activeOrders', { count: filteredOrders.length })}</p>
           </div>
         </div>
 
@@ -129,13 +128,13 @@ const KitchenPage = () => {
                   : 'bg-white text-gray-600 hover:bg-gray-100 border border-gray-200'
               }`}
             >
-              {f === 'ALL' ? 'Todos' : STATUS_CONFIG[f]?.label || f}
+              {f === 'ALL' ? t('common.all') : STATUS_CONFIG[f] ? t(STATUS_CONFIG[f].labelKey) : f}
             </button>
           ))}
           <button
             onClick={() => { setLoading(true); fetchOrders() }}
             className="p-2 rounded-lg bg-white border border-gray-200 text-gray-600 hover:bg-gray-100 transition-colors"
-            title="Actualizar"
+            title={t('common.refresh')}
           >
             <RefreshCw size={18} />
           </button>
@@ -146,8 +145,8 @@ const KitchenPage = () => {
       {filteredOrders.length === 0 && (
         <div className="flex flex-col items-center justify-center py-20 text-gray-400">
           <UtensilsCrossed size={64} className="mb-4 opacity-30" />
-          <p className="text-xl font-medium">Sin pedidos pendientes</p>
-          <p className="text-sm mt-1">Los nuevos pedidos aparecerán automáticamente</p>
+          <p className="text-xl font-medium">{t('kitchen.empty')}</p>
+          <p className="text-sm mt-1">{t('kitchen.emptyHint')}</p>
         </div>
       )}
 
@@ -173,7 +172,7 @@ const KitchenPage = () => {
                   <div className="flex items-center gap-2">
                     {order.tableNumber && (
                       <span className="text-lg font-bold text-gray-800">
-                        Mesa #{order.tableNumber}
+                        {t('kitchen.table', { number: order.tableNumber })}
                       </span>
                     )}
                     <span className="text-xs text-gray-500 bg-gray-200 px-2 py-0.5 rounded-full">
@@ -181,20 +180,20 @@ const KitchenPage = () => {
                     </span>
                     {order.sequenceNumber != null && (
                       <span className="text-xs text-gray-600 bg-gray-100 px-2 py-0.5 rounded-full">
-                        Lote #{order.sequenceNumber}
+                        {t('kitchen.batch', { number: order.sequenceNumber })}
                       </span>
                     )}
                     {isPriority && (
                       <span className="text-xs font-semibold text-amber-800 bg-amber-200 px-2 py-0.5 rounded-full">
-                        Prioritario
+                        {t('kitchen.priority')}
                       </span>
                     )}
                   </div>
                   {order.waiterName && (
-                    <p className="text-xs text-gray-500 mt-0.5">Mesero: {order.waiterName}</p>
+                    <p className="text-xs text-gray-500 mt-0.5">{t('kitchen.waiter', { name: order.waiterName })}</p>
                   )}
                   {isPriority && order.urgencyReason && (
-                    <p className="text-xs text-amber-800 mt-0.5">Motivo: {order.urgencyReason}</p>
+                    <p className="text-xs text-amber-800 mt-0.5">{t('kitchen.reason', { reason: order.urgencyReason })}</p>
                   )}
                 </div>
                 <div className="text-right">
@@ -240,6 +239,12 @@ const KitchenPage = () => {
                             </span>
                           </div>
 
+                          {item.modifiers && item.modifiers.length > 0 && (
+                            <p className="mt-1 text-sm font-semibold text-primary-700">
+                              {item.modifiers.map(m => m.optionName).join(' · ')}
+                            </p>
+                          )}
+
                           {/* Exigencias/Notas — DESTACADAS */}
                           {item.notes && (
                             <div className="mt-1.5 px-2 py-1 bg-red-50 border border-red-200 rounded-lg">
@@ -253,7 +258,7 @@ const KitchenPage = () => {
                         <div className="flex items-center gap-1.5 flex-shrink-0">
                           <StatusIcon size={16} className={statusConf.color} />
                           <span className={`text-xs font-bold ${statusConf.color}`}>
-                            {statusConf.label}
+                            {t(statusConf.labelKey)}
                           </span>
                         </div>
                       </div>
@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { Store, ShoppingCart } from 'lucide-react'
+import { RootState } from '@/app/store'
+import { promotionService, Promotion } from '@/core/api/promotionService'
+import { createDisplayChannel, CustomerDisplayMessage, CustomerDisplayCart } from '@/shared/utils/customerDisplay'
+import { formatCurrency } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+const SLIDE_INTERVAL = 8000
+
+type Slide = { key: string; imageUrl?: string; title: string; subtitle?: string }
+
+/**
+ * Ventana para el monitor orientado al cliente. No tiene menú ni encabezado:
+ * solo refleja lo que publica el POS y rota promociones entre ventas.
+ */
+const CustomerDisplayPage = () => {
+  const { t } = useTranslation()
+  const { company } = useSelector((state: RootState) => state.settings)
+  const [cart, setCart] = useState<CustomerDisplayCart | null>(null)
+  const [payment, setPayment] = useState<{ total: number; paid: number; change: number } | null>(null)
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [slideIndex, setSlideIndex] = useState(0)
+
+  useEffect(() => {
+    document.title = t('display.windowTitle', { company: company.companyName })
+  }, [company.companyName, t])
+
+  useEffect(() => {
+    const channel = createDisplayChannel()
+    if (!channel) return
+    channel.onmessage = (event: MessageEvent<CustomerDisplayMessage>) => {
+      const message = event.data
+      if (message.type === 'cart') {
+        setCart(message.cart)
+        setPayment(null)
+      } else if (message.type === 'payment') {
+        setPayment({ total: message.total, paid: message.paid, change: message.change })
+        setCart(null)
+      } else if (message.type === 'idle') {
+        setCart(null)
+        setPayment(null)
+      }
+    }
+    const hello: CustomerDisplayMessage = { type: 'hello' }
+    channel.postMessage(hello)
+    return () => channel.close()
+  }, [])
+
+  useEffect(() => {
+    promotionService.getActive()
+      .then((res) => setPromotions((res as Promotion[]) || []))
+      .catch(() => setPromotions([]))
+  }, [])
+
+  const slides: Slide[] = [
+    { key: 'logo', imageUrl: company.logoUrl || undefined, title: company.companyName, subtitle: t('display.welcome') },
+    ...promotions.map((p) => ({
+      key: `promo-${p.id}`,
+      imageUrl: p.imageUrl || undefined,
+      title: p.name,
+      subtitle: p.description || (p.discountPercent > 0 ? t('display.percentOff', { percent: p.discountPercent }) : undefined),
+    })),
+  ]
+
+  const isIdle = !payment && (!cart || cart.lines.length === 0)
+
+  useEffect(() => {
+    if (!isIdle || slides.length <= 1) return
+    const interval = setInterval(() => setSlideIndex((i) => (i + 1) % slides.length), SLIDE_INTERVAL)
+    return () => clearInterval(interval)
+  }, [isIdle, slides.length])
+
+  if (payment) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-gradient-to-br from-primary-600 to-primary-800 text-white p-8">
+        <p className="text-4xl font-bold mb-10">{t('display.thanks')}</p>
+        <div className="w-full max-w-lg space-y-4 text-2xl">
+          <div className="flex justify-between">
+            <span className="opacity-80">{t('common.total')}</span>
+            <span className="font-bold">{formatCurrency(payment.total)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="opacity-80">{t('display.received')}</span>
+            <span className="font-bold">{formatCurrency(payment.paid)}</span>
+          </div>
+          {payment.change > 0 && (
+            <div className="flex justify-between text-5xl pt-6 border-t border-white/30">
+              <span>{t('display.change')}</span>
+              <span className="font-black">{formatCurrency(payment.change)}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (isIdle) {
+    const slide = slides[slideIndex % slides.length]
+    return (
+      <div className="h-screen flex flex-col items-center justify-center bg-gradient-to-br from-primary-50 to-white p-8 text-center">
+        {slide.imageUrl ? (
+          <img key={slide.key} src={slide.imageUrl} alt={slide.title} className="max-h-[65vh] max-w-full object-contain rounded-3xl shadow-soft mb-8 animate-fade-in" />
+        ) : (
+          <div key={slide.key} className="w-40 h-40 rounded-3xl bg-gradient-to-r from-primary-600 to-primary-700 flex items-center justify-center shadow-soft mb-8 animate-fade-in">
+            <Store className="w-20 h-20 text-white" />
+          </div>
+        )}
+        <h1 className="text-5xl font-bold text-gray-800 mb-3">{slide.title}</h1>
+        {slide.subtitle && <p className="text-2xl text-gray-500">{slide.subtitle}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50">
+      <header className="flex items-center justify-between px-8 py-4 bg-white shadow-sm">
+        <div className="flex items-center gap-3">
+          {company.logoUrl ? (
+            <img src={company.logoUrl} alt="Logo" className="w-12 h-12 rounded-xl object-cover" />
+          ) : (
+            <Store className="w-10 h-10 text-primary-600" />
+          )}
+          <span className="text-2xl font-bold text-gray-800">{company.companyName}</span>
+        </div>
+        <span className="text-lg text-gray-500">{cart!.customerName}</span>
+      </header>
+
+      <div className="flex-1 overflow-y-auto px-8 py-6 space-y-3">
+        {cart!.lines.map((line) => (
+          <div key={line.lineId} className="flex items-center justify-between bg-white rounded-2xl px-6 py-4 shadow-sm">
+            <div className="min-w-0">
+              <p className="text-2xl font-semibold text-gray-800 truncate">
+                <span className="text-primary-600">{line.quantity} x</span> {line.name}
+              </p>
+              {line.modifiers && <p className="text-lg text-gray-500 truncate">+ {line.modifiers}</p>}
+              {line.discountAmount > 0 && (
+                <p className="text-lg text-green-600">{t('display.discount', { amount: formatCurrency(line.discountAmount) })}</p>
+              )}
+            </div>
+            <span className="text-2xl font-bold text-gray-800 flex-shrink-0 ml-4">{formatCurrency(line.total)}</span>
+          </div>
+        ))}
+      </div>
+
+      <footer className="bg-white border-t border-primary-100 px-8 py-6 space-y-2">
+        <div className="flex justify-between text-xl text-gray-600">
+          <span>{t('common.subtotal')}</span>
+          <span>{formatCurrency(cart!.subtotal)}</span>
+        </div>
+        {cart!.discountAmount > 0 && (
+          <div className="flex justify-between text-xl text-green-600">
+            <span>{t('display.discounts')}</span>
+            <span>-{formatCurrency(cart!.discountAmount)}</span>
+          </div>
+        )}
+        {cart!.taxAmount > 0 && (
+          <div className="flex justify-between text-xl text-gray-600">
+            <span>{cart!.pricesIncludeTax ? t('display.taxesIncluded') : t('display.taxes')}</span>
+            <span>{formatCurrency(cart!.taxAmount)}</span>
+          </div>
+        )}
+        <div className="flex justify-between items-center pt-3 border-t border-gray-200">
+          <span className="flex items-center gap-3 text-3xl font-bold text-gray-800">
+            <ShoppingCart size={32} /> {t('common.total')}
+          </span>
+          <span className="text-5xl font-black text-primary-600">{formatCurrency(cart!.total)}</span>
+        </div>
+      </footer>
+    </div>
+  )
+}
+
+export default CustomerDisplayPage
@@ -0,0 +1,264 @@
+import { useState } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { CloudOff, RefreshCw, Trash2, Printer, X, Eye, AlertTriangle, Loader2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import Button from '@/shared/components/ui/Button'
+import { RootState, AppDispatch } from '@/app/store'
+import { syncOfflineSales, retryOfflineSale, discardOfflineSale } from '@/modules/pos/store/offlineSlice'
+import { OfflineSale } from '@/shared/utils/offlineSalesDb'
+import { printInvoice } from '@/shared/utils/printInvoice'
+import { getPaymentMethodLabel } from '@/shared/utils/payments'
+import { formatCurrency, formatDateTime } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+const OfflineSalesPage = () => {
+  const dispatch = useDispatch<AppDispatch>()
+  const { t } = useTranslation()
+  const { sales, isOnline, isSyncing, lastSyncAt } = useSelector((state: RootState) => state.offline)
+  const [selectedSale, setSelectedSale] = useState<OfflineSale | null>(null)
+  const [saleToDiscard, setSaleToDiscard] = useState<OfflineSale | null>(null)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  const pendingSales = sales.filter((s) => s.status === 'PENDIENTE')
+  const failedSales = sales.filter((s) => s.status === 'FALLIDA')
+
+  const handleSyncAll = async () => {
+    const result = await dispatch(syncOfflineSales())
+    if (!syncOfflineSales.fulfilled.match(result)) {
+      toast(t('offline.nothingToSync'))
+      return
+    }
+    const synced = result.payload.filter((r) => r.synced).length
+    if (synced > 0) toast.success(t('offline.syncedCount', { count: synced }))
+    if (result.payload.some((r) => r.transient)) toast.error(t('offline.serverUnreachable'))
+  }
+
+  const handleRetry = async (sale: OfflineSale) => {
+    setProcessingId(sale.id)
+    try {
+      const result = await dispatch(retryOfflineSale(sale.id)).unwrap()
+      if (result.synced) {
+        toast.success(t('offline.saleSynced', { id: sale.id }))
+        setSelectedSale(null)
+      } else if (result.transient) {
+        toast.error(t('offline.stillQueued'))
+      } else {
+        toast.error(result.sale.error || t('offline.rejected'))
+      }
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : t('offline.retryError'))
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!saleToDiscard) return
+    try {
+      await dispatch(discardOfflineSale(saleToDiscard.id)).unwrap()
+      toast.success(t('offline.discarded'))
+      setSaleToDiscard(null)
+      setSelectedSale(null)
+    } catch {
+      toast.error(t('offline.discardError'))
+    }
+  }
+
+  const getStatusBadge = (sale: OfflineSale) =>
+    sale.status === 'FALLIDA'
+      ? <span className="badge badge-danger">{t('offline.needsReview')}</span>
+      : <span className="badge badge-warning">{t('common.pending')}</span>
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">{t('offline.title')}</h1>
+          <p className="text-gray-500">
+            {t('offline.subtitle')}
+            {lastSyncAt && ` · ${t('offline.lastAttempt', { date: formatDateTime(lastSyncAt) })}`}
+          </p>
+        </div>
+        <Button onClick={handleSyncAll} disabled={isSyncing || pendingSales.length === 0}>
+          <RefreshCw size={20} className={isSyncing ? 'animate-spin' : ''} />
+          {t('offline.syncNow')}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="card">
+          <p className="text-sm text-gray-500">{t('offline.connection')}</p>
+          <p className={`text-xl font-bold ${isOnline ? 'text-green-600' : 'text-red-600'}`}>
+            {isOnline ? t('offline.online') : t('offline.offline')}
+          </p>
+        </div>
+        <div className="card">
+          <p className="text-sm text-gray-500">{t('offline.pending')}</p>
+          <p className="text-xl font-bold text-amber-600">{pendingSales.length}</p>
+        </div>
+        <div className="card">
+          <p className="text-sm text-gray-500">{t('offline.needReview')}</p>
+          <p className="text-xl font-bold text-red-600">{failedSales.length}</p>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden p-0">
+        {sales.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-400">
+            <CloudOff size={32} className="mb-2 opacity-40" />
+            {t('offline.empty')}
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="bg-primary-50">
+                <th className="table-header">{t('offline.provisionalNumber')}</th>
+                <th className="table-header">{t('common.customer')}</th>
+                <th className="table-header">{t('common.date')}</th>
+                <th className="table-header text-right">{t('common.total')}</th>
+                <th className="table-header text-center">{t('common.status')}</th>
+                <th className="table-header text-center">{t('common.actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sales.map((sale) => (
+                <tr key={sale.id} className="hover:bg-primary-50/50 transition-colors">
+                  <td className="table-cell font-mono">{sale.id}</td>
+                  <td className="table-cell">{sale.receipt.customerName || t('common.generalCustomer')}</td>
+                  <td className="table-cell">{formatDateTime(sale.createdAt)}</td>
+                  <td className="table-cell text-right font-semibold text-primary-600">{formatCurrency(sale.receipt.total)}</td>
+                  <td className="table-cell text-center">
+                    {getStatusBadge(sale)}
+                    {sale.error && <p className="text-xs text-red-500 mt-1 max-w-xs mx-auto">{sale.error}</p>}
+                  </td>
+                  <td className="table-cell">
+                    <div className="flex items-center justify-center gap-2">
+                      <button
+                        onClick={() => setSelectedSale(sale)}
+                        className="p-2 rounded-lg hover:bg-primary-100 text-gray-500"
+                        title={t('common.viewDetail')}
+                      >
+                        <Eye size={18} />
+                      </button>
+                      <button
+                        onClick={() => handleRetry(sale)}
+                        disabled={processingId === sale.id}
+                        className="p-2 rounded-lg hover:bg-primary-100 text-primary-600 disabled:opacity-50"
+                        title={t('common.retry')}
+                      >
+                        {processingId === sale.id ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />}
+                      </button>
+                      <button
+                        onClick={() => setSaleToDiscard(sale)}
+                        className="p-2 rounded-lg hover:bg-red-100 text-red-500"
+                        title={t('offline.discard')}
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Detail Modal */}
+      {selectedSale && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h3 className="text-xl font-bold text-gray-800">{t('offline.sale', { id: selectedSale.id })}</h3>
+                <p className="text-gray-500">{formatDateTime(selectedSale.createdAt)} · {t('offline.attempts', { count: selectedSale.attempts })}</p>
+              </div>
+              <button onClick={() => setSelectedSale(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={24} />
+              </button>
+            </div>
+
+            {selectedSale.error && (
+              <div className="flex items-start gap-3 p-4 mb-4 bg-red-50 rounded-xl text-sm text-red-700">
+                <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-medium">{t('offline.serverRejected')}</p>
+                  <p>{selectedSale.error}</p>
+                  <p className="text-xs text-red-500 mt-1">
+                    {t('offline.rejectedHint')}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="flex justify-between">
+                <span className="text-gray-500">{t('common.customer')}:</span>
+                <span>{selectedSale.receipt.customerName || t('common.generalCustomer')}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">{t('common.paymentMethod')}:</span>
+                <span>{getPaymentMethodLabel(selectedSale.receipt.paymentMethod)}</span>
+              </div>
+
+              <div className="border-t pt-4">
+                <h4 className="font-semibold mb-2">{t('offline.productDetail')}</h4>
+                <div className="space-y-2">
+                  {selectedSale.receipt.details.map((detail, idx) => (
+                    <div key={idx} className="flex justify-between text-sm">
+                      <span>{detail.quantity} x {detail.productName}</span>
+                      <span>{formatCurrency(detail.subtotal)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border-t pt-4 flex justify-between font-bold text-lg">
+                <span>{t('common.total')}:</span>
+                <span className="text-primary-600">{formatCurrency(selectedSale.receipt.total)}</span>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <Button variant="secondary" className="flex-1" onClick={() => printInvoice(selectedSale.receipt, { isProvisional: true }).catch(() => toast.error(t('receipt.printFailed')))}>
+                <Printer size={20} />
+                {t('offline.reprint')}
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => handleRetry(selectedSale)}
+                disabled={processingId === selectedSale.id}
+              >
+                <RefreshCw size={20} />
+                {t('common.retry')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Discard Modal */}
+      {saleToDiscard && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl p-6 w-full max-w-md animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-800 mb-2">{t('offline.discardTitle')}</h3>
+            <p className="text-gray-500 mb-6">
+              {t('offline.discardWarning', { id: saleToDiscard.id, total: formatCurrency(saleToDiscard.receipt.total) })}
+            </p>
+            <div className="flex gap-3">
+              <Button variant="secondary" className="flex-1" onClick={() => setSaleToDiscard(null)}>
+                {t('common.cancel')}
+              </Button>
+              <Button variant="danger" className="flex-1" onClick={handleDiscard}>
+                <Trash2 size={20} />
+                {t('offline.discard')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default OfflineSalesPage
@@ -1,18 +1,50 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useDispatch, useSelector } from 'react-redux'
-import { Search, Plus, Minus, Trash2, CreditCard, Banknote, X, Loader2, User, UserPlus, Printer, Grid3X3, LayoutGrid, Grid2X2, UtensilsCrossed, ShoppingCart } from 'lucide-react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { Search, Plus, Minus, Trash2, CreditCard, Banknote, X, Loader2, User, UserPlus, Printer, Grid3X3, LayoutGrid, Grid2X2, UtensilsCrossed, ShoppingCart, PauseCircle, PlayCircle, ListOrdered, Tag, Landmark, Keyboard, Monitor, DollarSign, Gift, Award, Ticket } from 'lucide-react'
 import toast from 'react-hot-toast'
-import { RootState } from '@/app/store'
-import { addItem, removeItem, incrementQuantity, decrementQuantity, clearCart, setCustomer, selectCartTotal, updateItemNotes } from '../store/cartSlice'
+import { RootState, AppDispatch } from '@/app/store'
+import { addItem, removeItem, incrementQuantity, decrementQuantity, clearCart, setCustomer, selectCartTotal, updateItemNotes, loadUserCart, parkTicket, resumeTicket, removeParkedTicket, setItemDiscount, setItemPrice, repriceItems, applyPromotions, getLineGross, getLineDiscountAmount, getLineDiscountPercent, getLineTotal, CartItem, LineDiscount, ParkedTicket } from '../store/cartSlice'
 import Button from '@/shared/components/ui/Button'
 import { productService } from '@/core/api/productService'
 import { categoryService } from '@/core/api/categoryService'
 import { customerService } from '@/core/api/customerService'
-import { invoiceService } from '@/core/api/invoiceService'
+import { invoiceService, CreateSaleRequest } from '@/core/api/invoiceService'
 import { tableService } from '@/core/api/tableService'
 import { promotionService, Promotion } from '@/core/api/promotionService'
-import { Product, Category, Customer, RestaurantTable } from '@/types'
+import { Product, Category, Customer, RestaurantTable, SelectedModifier, PriceOverride, Coupon, PriceList, ExchangeRate } from '@/types'
 import { printInvoice } from '@/shared/utils/printInvoice'
+import TenderEditor from '@/shared/components/TenderEditor'
+import TipEditor from '@/shared/components/TipEditor'
+import ModifierSelectorModal from '@/shared/components/ModifierSelectorModal'
+import { hasModifierGroups, getModifiersTotal, formatModifiers } from '@/shared/utils/modifiers'
+import { useBarcodeScanner } from '@/core/hooks/useBarcodeScanner'
+import { useShortcuts } from '@/core/hooks/useShortcuts'
+import { loadShortcuts } from '@/shared/utils/shortcuts'
+import ShortcutsHelpModal from '@/shared/components/ShortcutsHelpModal'
+import { createDisplayChannel, openCustomerDisplay, CustomerDisplayMessage } from '@/shared/utils/customerDisplay'
+import { parseScaleBarcode, matchesPlu, playScanBeep } from '@/shared/utils/barcode'
+import { nextProvisionalNumber, newClientReference, isNetworkError, OfflineSaleReceipt } from '@/shared/utils/offlineSalesDb'
+import { queueOfflineSale } from '@/modules/pos/store/offlineSlice'
+import { fetchCurrentSession } from '@/modules/cash/store/cashSessionSlice'
+import { TaxBreakdownEntry, scaleTaxBreakdown } from '@/shared/utils/taxes'
+import { TenderLine, PaymentLine, createTenderLine, summarizeTenders, buildPaymentLines, resolvePaymentMethod, getPaymentMethodLabel, getPaymentLineLabel, hasPaymentBreakdown, getInvoicePayments, CREDIT_PAYMENT_METHOD, GIFT_CARD_PAYMENT_METHOD } from '@/shared/utils/payments'
+import { getAvailableCredit, CREDIT_OVERRIDE_PERMISSION } from '@/shared/utils/customerCredit'
+import { hasPermission } from '@/core/auth/permissions'
+import { useSupervisorAuth } from '@/core/hooks/useSupervisorAuth'
+import SupervisorAuthModal from '@/shared/components/SupervisorAuthModal'
+import GiftCardSaleModal from '@/shared/components/GiftCardSaleModal'
+import { getCustomerLoyalty, getMaxRedeemablePoints, pointsToAmount, calculateEarnedPoints } from '@/shared/utils/loyalty'
+import { TipInput, TipStaff, createTipInput, calculateTip, splitTip } from '@/shared/utils/tips'
+import { evaluatePromotions } from '@/shared/utils/promotions'
+import { couponService } from '@/core/api/couponService'
+import { priceListService } from '@/core/api/priceListService'
+import { exchangeRateService } from '@/core/api/exchangeRateService'
+import { resolvePriceList, getListPrice, getQuantityBreaks } from '@/shared/utils/priceLists'
+import { getTodayRates, setTenderAmount, describeForeignPayment } from '@/shared/utils/currency'
+import { normalizeCouponCode, getCouponError, calculateCouponDiscount, formatCouponValue } from '@/shared/utils/coupons'
+import { formatCurrency, formatTime } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 interface ProductWithCategory extends Product {
   categoryId: number
@@ -33,6 +65,7 @@ const InvoiceConfirmModal = ({
   onClose,
   formatCurrency,
 }: InvoiceConfirmModalProps) => {
+  const { t } = useTranslation()
   if (!show || !completedInvoice) return null
 
   return (
@@ -44,27 +77,42 @@ const InvoiceConfirmModal = ({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
             </svg>
           </div>
-          <h3 className="text-xl font-bold text-gray-800">¡Venta Completada!</h3>
-          <p className="text-gray-500 mt-1">Factura N° {completedInvoice.invoiceNumber}</p>
+          <h3 className="text-xl font-bold text-gray-800">{t('pos.saleCompleted')}</h3>
+          <p className="text-gray-500 mt-1">{t('sale.invoiceNumber', { number: completedInvoice.invoiceNumber })}</p>
+          {completedInvoice.offline && (
+            <p className="text-xs text-amber-600 mt-1">{t('pos.savedOffline')}</p>
+          )}
         </div>
 
         <div className="bg-gray-50 rounded-xl p-4 mb-6 space-y-2">
           <div className="flex justify-between text-sm">
-            <span className="text-gray-500">Cliente:</span>
-            <span className="font-medium">{completedInvoice.customer?.fullName || 'Cliente General'}</span>
+            <span className="text-gray-500">{t('pos.customerColon')}</span>
+            <span className="font-medium">{completedInvoice.customer?.fullName || t('common.generalCustomer')}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span className="text-gray-500">Método:</span>
-            <span>{completedInvoice.paymentMethod}</span>
+            <span className="text-gray-500">{t('pos.methodColon')}</span>
+            <span>{getPaymentMethodLabel(completedInvoice.paymentMethod || '')}</span>
           </div>
+          {hasPaymentBreakdown(completedInvoice.payments) && completedInvoice.payments.map((p: PaymentLine, idx: number) => (
+            <div key={idx} className="flex justify-between text-xs text-gray-500 pl-3">
+              <span>{getPaymentLineLabel(p)}{p.currency && ` (${describeForeignPayment(p, formatCurrency)})`}</span>
+              <span>{formatCurrency(p.amount)}</span>
+            </div>
+          ))}
           <div className="flex justify-between text-sm">
-            <span className="text-gray-500">Items:</span>
-            <span>{completedInvoice.details?.length || 0} productos</span>
+            <span className="text-gray-500">{t('pos.itemsColon')}</span>
+            <span>{t('pos.productCount', { count: completedInvoice.details?.length || 0 })}</span>
           </div>
           <div className="flex justify-between text-lg font-bold pt-2 border-t border-gray-200">
-            <span>Total:</span>
+            <span>{t('pos.totalColon')}</span>
             <span className="text-primary-600">{formatCurrency(completedInvoice.total)}</span>
           </div>
+          {completedInvoice.balanceDue > 0 && (
+            <div className="flex justify-between text-sm font-medium text-amber-600">
+              <span>{t('pos.creditBalance')}</span>
+              <span>{formatCurrency(completedInvoice.balanceDue)}</span>
+            </div>
+          )}
         </div>
 
         <div className="space-y-3">
@@ -73,14 +121,14 @@ const InvoiceConfirmModal = ({
             className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors"
           >
             <Printer size={20} />
-            Imprimir Factura
+            {t('sale.printInvoice')}
           </button>
           <button
             onClick={onClose}
             className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
           >
             <X size={20} />
-            Cerrar sin Imprimir
+            {t('sale.closeWithoutPrinting')}
           </button>
         </div>
       </div>
@@ -97,6 +145,8 @@ interface CustomerSelectionModalProps {
   onClose: () => void
   onSelectCustomer: (customer: Customer | null) => void
   onOpenNewCustomer: () => void
+  /** Programa de puntos activo: se muestra el saldo de cada cliente */
+  showLoyalty: boolean
 }
 
 const CustomerSelectionModal = ({
@@ -108,14 +158,16 @@ const CustomerSelectionModal = ({
   onClose,
   onSelectCustomer,
   onOpenNewCustomer,
+  showLoyalty,
 }: CustomerSelectionModalProps) => {
+  const { t } = useTranslation()
   if (!show) return null
 
   return (
     <div className="modal-overlay">
       <div className="modal-content p-6 flex flex-col animate-scale-in">
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-xl font-bold text-gray-800">Seleccionar Cliente</h3>
+          <h3 className="text-xl font-bold text-gray-800">{t('pos.selectCustomer')}</h3>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
             <X size={24} />
           </button>
@@ -125,7 +177,7 @@ const CustomerSelectionModal = ({
           <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
           <input
             type="text"
-            placeholder="Buscar por nombre, documento o teléfono..."
+            placeholder={t('pos.searchCustomer')}
             value={customerSearch}
             onChange={(e) => setCustomerSearch(e.target.value)}
             className="input-field pl-12"
@@ -140,8 +192,8 @@ const CustomerSelectionModal = ({
               customerId === null ? 'bg-primary-100 border-2 border-primary-500' : 'bg-gray-50 hover:bg-primary-50'
             }`}
           >
-            <p className="font-medium text-gray-800">Cliente General</p>
-            <p className="text-sm text-gray-500">Sin datos de cliente</p>
+            <p className="font-medium text-gray-800">{t('common.generalCustomer')}</p>
+            <p className="text-sm text-gray-500">{t('pos.noCustomerData')}</p>
           </button>
 
           {filteredCustomers.map((customer) => (
@@ -152,16 +204,26 @@ const CustomerSelectionModal = ({
                 customerId === customer.id ? 'bg-primary-100 border-2 border-primary-500' : 'bg-gray-50 hover:bg-primary-50'
               }`}
             >
-              <p className="font-medium text-gray-800">{customer.fullName}</p>
-              <p className="text-sm text-gray-500">
-                {customer.documentType} {customer.documentNumber}
-                {customer.phone && ` • ${customer.phone}`}
-              </p>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800">{customer.fullName}</p>
+                  <p className="text-sm text-gray-500">
+                    {customer.documentType} {customer.documentNumber}
+                    {customer.phone && ` • ${customer.phone}`}
+                  </p>
+                </div>
+                {showLoyalty && (
+                  <span className="flex-shrink-0 flex items-center gap-1 text-xs font-medium text-yellow-700 bg-yellow-50 px-2 py-1 rounded-full">
+                    <Award size={12} />
+                    {t('sale.points', { points: customer.loyaltyPoints || 0 })}
+                  </span>
+                )}
+              </div>
             </button>
           ))}
 
           {filteredCustomers.length === 0 && customerSearch && (
-            <div className="text-center py-8 text-gray-400">No se encontraron clientes</div>
+            <div className="text-center py-8 text-gray-400">{t('pos.noCustomers')}</div>
           )}
         </div>
 
@@ -171,9 +233,89 @@ const CustomerSelectionModal = ({
             className="w-full flex items-center justify-center gap-2 p-3 bg-primary-50 text-primary-600 rounded-xl hover:bg-primary-100 transition-colors"
           >
             <UserPlus size={20} />
-            <span className="font-medium">Crear Nuevo Cliente</span>
+            <span className="font-medium">{t('sale.createCustomer')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface ParkedTicketsModalProps {
+  show: boolean
+  parked: ParkedTicket[]
+  hasCurrentItems: boolean
+  onClose: () => void
+  onResume: (id: string) => void
+  onRemove: (id: string) => void
+  formatCurrency: (value: number) => string
+}
+
+const ParkedTicketsModal = ({
+  show,
+  parked,
+  hasCurrentItems,
+  onClose,
+  onResume,
+  onRemove,
+  formatCurrency,
+}: ParkedTicketsModalProps) => {
+  const { t } = useTranslation()
+  if (!show) return null
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 flex flex-col animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-gray-800">{t('pos.parkedTickets')}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
           </button>
         </div>
+
+        {hasCurrentItems && parked.length > 0 && (
+          <p className="text-xs text-amber-600 bg-amber-50 rounded-lg p-2 mb-3">
+            {t('pos.resumeWarning')}
+          </p>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {parked.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">{t('pos.noParkedTickets')}</div>
+          ) : (
+            parked.map((ticket) => {
+              const ticketTotal = ticket.items.reduce((acc, item) => acc + getLineTotal(item), 0)
+              const ticketCount = ticket.items.reduce((acc, item) => acc + item.quantity, 0)
+              return (
+                <div key={ticket.id} className="flex items-center gap-3 p-3 rounded-xl bg-gray-50">
+                  <button onClick={() => onResume(ticket.id)} className="flex-1 min-w-0 text-left">
+                    <p className="font-medium text-gray-800 truncate">{ticket.label}</p>
+                    <p className="text-sm text-gray-500">
+                      {t('pos.parkedSummary', { count: ticketCount, total: formatCurrency(ticketTotal), time: formatTime(ticket.parkedAt) })}
+                    </p>
+                    {ticket.customerId !== null && (
+                      <p className="text-xs text-gray-400 truncate">{ticket.customerName}</p>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => onResume(ticket.id)}
+                    className="p-2 rounded-lg bg-primary-50 text-primary-600 hover:bg-primary-100"
+                    title={t('pos.resume')}
+                  >
+                    <PlayCircle size={18} />
+                  </button>
+                  <button
+                    onClick={() => onRemove(ticket.id)}
+                    className="p-2 rounded-lg bg-red-50 text-red-500 hover:bg-red-100"
+                    title={t('common.delete')}
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              )
+            })
+          )}
+        </div>
       </div>
     </div>
   )
@@ -201,13 +343,14 @@ const NewCustomerModal = ({
   onClose,
   onCreate,
 }: NewCustomerModalProps) => {
+  const { t } = useTranslation()
   if (!show) return null
 
   return (
     <div className="modal-overlay" style={{ zIndex: 60 }}>
       <div className="modal-content p-6 animate-scale-in">
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-xl font-bold text-gray-800">Nuevo Cliente</h3>
+          <h3 className="text-xl font-bold text-gray-800">{t('customers.new')}</h3>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
             <X size={24} />
           </button>
@@ -215,20 +358,20 @@ const NewCustomerModal = ({
 
         <div className="space-y-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Nombre Completo *</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.fullNameLabel')}</label>
             <input
               type="text"
               value={newCustomerData.fullName}
               onChange={(e) => setNewCustomerData({ ...newCustomerData, fullName: e.target.value })}
               className="input-field"
-              placeholder="Nombre del cliente"
+              placeholder={t('sale.customerNamePlaceholder')}
               autoFocus
             />
           </div>
 
           <div className="grid grid-cols-3 gap-3">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Tipo Doc.</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('customers.documentType')}</label>
               <select
                 value={newCustomerData.documentType}
                 onChange={(e) => setNewCustomerData({ ...newCustomerData, documentType: e.target.value })}
@@ -241,25 +384,25 @@ const NewCustomerModal = ({
               </select>
             </div>
             <div className="col-span-2">
-              <label className="block text-sm font-medium text-gray-700 mb-1">Número</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.number')}</label>
               <input
                 type="text"
                 value={newCustomerData.documentNumber}
                 onChange={(e) => setNewCustomerData({ ...newCustomerData, documentNumber: e.target.value })}
                 className="input-field"
-                placeholder="Documento"
+                placeholder={t('customers.document')}
               />
             </div>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Teléfono</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.phone')}</label>
             <input
               type="text"
               value={newCustomerData.phone}
               onChange={(e) => setNewCustomerData({ ...newCustomerData, phone: e.target.value })}
               className="input-field"
-              placeholder="Teléfono (opcional)"
+              placeholder={t('sale.phoneOptional')}
             />
           </div>
         </div>
@@ -269,7 +412,7 @@ const NewCustomerModal = ({
             onClick={onClose}
             className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
           >
-            Cancelar
+            {t('common.cancel')}
           </button>
           <button
             onClick={onCreate}
@@ -277,7 +420,7 @@ const NewCustomerModal = ({
             className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
           >
             {savingCustomer ? <Loader2 className="w-5 h-5 animate-spin" /> : <UserPlus size={20} />}
-            {savingCustomer ? 'Guardando...' : 'Crear y Seleccionar'}
+            {savingCustomer ? t('common.saving') : t('sale.createAndSelect')}
           </button>
         </div>
       </div>
@@ -318,6 +461,7 @@ const CategoriesPanel = ({
   onCancelOrganize,
   onReorderCategory,
 }: CategoriesPanelProps) => {
+  const { t } = useTranslation()
   const [draggingCategoryId, setDraggingCategoryId] = useState<number | null>(null)
 
   return (
@@ -327,21 +471,21 @@ const CategoriesPanel = ({
           <button
             onClick={() => setCardSize('small')}
             className={`p-2 rounded-lg transition-colors ${cardSize === 'small' ? 'bg-primary-100 text-primary-600' : 'text-gray-400 hover:text-gray-600'}`}
-            title="Vista compacta"
+            title={t('pos.viewCompact')}
           >
             <Grid3X3 size={18} />
           </button>
           <button
             onClick={() => setCardSize('medium')}
             className={`p-2 rounded-lg transition-colors ${cardSize === 'medium' ? 'bg-primary-100 text-primary-600' : 'text-gray-400 hover:text-gray-600'}`}
-            title="Vista normal"
+            title={t('pos.viewNormal')}
           >
             <Grid2X2 size={18} />
           </button>
           <button
             onClick={() => setCardSize('large')}
             className={`p-2 rounded-lg transition-colors ${cardSize === 'large' ? 'bg-primary-100 text-primary-600' : 'text-gray-400 hover:text-gray-600'}`}
-            title="Vista grande"
+            title={t('pos.viewLarge')}
           >
             <LayoutGrid size={18} />
           </button>
@@ -350,25 +494,25 @@ const CategoriesPanel = ({
           <button
             onClick={onStartOrganize}
             className="px-3 py-2 rounded-xl bg-white text-gray-600 hover:text-primary-600 hover:bg-primary-50 transition-colors text-sm font-medium"
-            title="Organizar categorías"
+            title={t('pos.organizeCategories')}
           >
-            Organizar
+            {t('pos.organize')}
           </button>
         ) : (
           <div className="flex gap-2">
             <button
               onClick={onCancelOrganize}
               className="px-3 py-2 rounded-xl bg-white text-gray-600 hover:text-gray-800 hover:bg-gray-50 transition-colors text-sm font-medium"
-              title="Cancelar"
+              title={t('common.cancel')}
             >
-              Cancelar
+              {t('common.cancel')}
             </button>
             <button
               onClick={onAcceptOrganize}
               className="px-3 py-2 rounded-xl bg-primary-600 text-white hover:bg-primary-700 transition-colors text-sm font-medium"
-              title="Aceptar"
+              title={t('common.accept')}
             >
-              Aceptar
+              {t('common.accept')}
             </button>
           </div>
         )}
@@ -380,10 +524,10 @@ const CategoriesPanel = ({
             <button
               onClick={onBackToParent}
               className="inline-flex items-center gap-1 px-3 py-2.5 rounded-xl transition-all border bg-gray-100 text-gray-700 hover:bg-gray-200 border-gray-300"
-              title="Volver"
+              title={t('common.back')}
             >
               <span className="text-xs">←</span>
-              <span className="text-xs font-medium">Volver</span>
+              <span className="text-xs font-medium">{t('common.back')}</span>
             </button>
           )}
           <button
@@ -393,10 +537,10 @@ const CategoriesPanel = ({
                 ? 'bg-gradient-to-r from-primary-600 to-primary-700 text-white shadow-soft border-primary-600'
                 : 'bg-white text-gray-700 hover:bg-primary-50 border-gray-200 hover:border-primary-300'
             }`}
-            title="Todos"
+            title={t('common.all')}
           >
             <span className="flex-shrink-0">🏷️</span>
-            <span className="text-xs font-medium whitespace-normal break-words leading-tight">Todos</span>
+            <span className="text-xs font-medium whitespace-normal break-words leading-tight">{t('common.all')}</span>
           </button>
           {categories.map((cat) => (
             <button
@@ -440,12 +584,368 @@ const CategoriesPanel = ({
   )
 }
 
+interface TaxBreakdownRowsProps {
+  breakdown: TaxBreakdownEntry[]
+  pricesIncludeTax: boolean
+  formatCurrency: (value: number) => string
+}
+
+// Con precios con impuesto incluido las filas son informativas (no suman al total)
+const TaxBreakdownRows = ({ breakdown, pricesIncludeTax, formatCurrency }: TaxBreakdownRowsProps) => {
+  const { t } = useTranslation()
+  const rows = breakdown.filter((entry) => entry.rate > 0)
+  if (rows.length === 0) return null
+  return (
+    <>
+      {rows.map((entry) => (
+        <div key={`${entry.taxType}-${entry.rate}`} className="flex justify-between text-xs text-gray-500">
+          <span>{entry.label}{pricesIncludeTax ? t('pos.taxIncluded') : ''} <span className="text-gray-400">{t('pos.taxBase', { amount: formatCurrency(entry.base) })}</span></span>
+          <span>{pricesIncludeTax ? '' : '+'}{formatCurrency(entry.tax)}</span>
+        </div>
+      ))}
+    </>
+  )
+}
+
+interface LineDiscountModalProps {
+  item: CartItem | null
+  reasons: string[]
+  onClose: () => void
+  onApply: (discount: LineDiscount | null) => void
+  formatCurrency: (value: number) => string
+}
+
+const LineDiscountModal = ({ item, reasons, onClose, onApply, formatCurrency }: LineDiscountModalProps) => {
+  const { t } = useTranslation()
+  const [type, setType] = useState<LineDiscount['type']>('percent')
+  const [value, setValue] = useState(0)
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    setType(item?.discount?.type || 'percent')
+    setValue(item?.discount?.value || 0)
+    setReason(item?.discount?.reason || '')
+  }, [item])
+
+  if (!item) return null
+
+  const gross = getLineGross(item)
+  const preview = getLineDiscountAmount({ ...item, promotion: undefined, discount: { type, value, reason } })
+  const error = value <= 0
+    ? t('pos.discountValueRequired')
+    : type === 'percent' && value > 100
+      ? t('pos.discountPercentTooHigh')
+      : type === 'amount' && value > gross
+        ? t('pos.discountTooHigh')
+        : !reason
+          ? t('pos.discountReasonRequired')
+          : null
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{t('pos.lineDiscount')}</h3>
+            <p className="text-sm text-gray-500">{item.quantity} x {item.name} · {formatCurrency(gross)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['percent', 'amount'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setType(option)}
+                className={`py-2 rounded-xl border-2 text-sm font-medium transition-colors ${
+                  type === option ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-600'
+                }`}
+              >
+                {option === 'percent' ? t('pos.discountPercentType') : t('pos.discountAmountType')}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            min={0}
+            max={type === 'percent' ? 100 : gross}
+            value={value || ''}
+            onChange={(e) => setValue(Math.max(0, Number(e.target.value) || 0))}
+            placeholder={type === 'percent' ? t('pos.discountPercentPlaceholder') : t('pos.discountAmountPlaceholder')}
+            className="input-field"
+            autoFocus
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.reason')}</label>
+            <select value={reason} onChange={(e) => setReason(e.target.value)} className="input-field">
+              <option value="">{t('common.select')}</option>
+              {reasons.map((r) => (
+                <option key={r} value={r}>{r}</option>
+              ))}
+            </select>
+            {reasons.length === 0 && (
+              <p className="text-xs text-amber-600 mt-1">{t('pos.configureReasons')}</p>
+            )}
+          </div>
+          <div className="flex justify-between text-sm p-3 bg-green-50 rounded-xl text-green-700">
+            <span>{t('pos.discount')}</span>
+            <span className="font-semibold">-{formatCurrency(preview)} → {formatCurrency(gross - preview)}</span>
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          {item.discount ? (
+            <Button variant="secondary" className="flex-1" onClick={() => onApply(null)}>
+              {t('pos.removeDiscount')}
+            </Button>
+          ) : (
+            <Button variant="secondary" className="flex-1" onClick={onClose}>
+              {t('common.cancel')}
+            </Button>
+          )}
+          <Button className="flex-1" disabled={!!error} onClick={() => onApply({ type, value, reason })}>
+            <Tag size={18} />
+            {t('common.apply')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface LinePriceTarget {
+  /** open: producto de precio abierto; override: cambio de precio de una línea del carrito */
+  mode: 'open' | 'override'
+  name: string
+  quantity: number
+  listPrice: number
+  currentPrice: number
+  hasOverride?: boolean
+}
+
+interface LinePriceModalProps {
+  target: LinePriceTarget | null
+  reasons: string[]
+  onClose: () => void
+  onApply: (price: number, reason: string) => void
+  onRestore?: () => void
+  formatCurrency: (value: number) => string
+}
+
+const LinePriceModal = ({ target, reasons, onClose, onApply, onRestore, formatCurrency }: LinePriceModalProps) => {
+  const { t } = useTranslation()
+  const [price, setPrice] = useState(0)
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    setPrice(target?.mode === 'override' ? target.currentPrice : 0)
+    setReason('')
+    // El objeto `target` se arma en cada render del POS; solo se reinicia al cambiar de línea
+  }, [target?.mode, target?.name, target?.currentPrice])
+
+  if (!target) return null
+
+  const isOverride = target.mode === 'override'
+  const error = price <= 0
+    ? t('pos.priceRequired')
+    : isOverride && price === target.listPrice
+      ? t('pos.priceEqualsList')
+      : isOverride && !reason.trim()
+        ? t('pos.priceReasonRequired')
+        : null
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{isOverride ? t('pos.changePrice') : t('products.openPrice')}</h3>
+            <p className="text-sm text-gray-500">
+              {target.quantity} x {target.name}
+              {isOverride && t('pos.listPriceValue', { price: formatCurrency(target.listPrice) })}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('pos.unitPrice')}</label>
+            <input
+              type="number"
+              min={0}
+              value={price || ''}
+              onChange={(e) => setPrice(Math.max(0, Number(e.target.value) || 0))}
+              onKeyDown={(e) => e.key === 'Enter' && !error && onApply(price, reason.trim())}
+              placeholder="$0"
+              className="input-field text-lg"
+              autoFocus
+            />
+          </div>
+          {isOverride && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.reason')}</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t('pos.priceReasonPlaceholder')}
+                className="input-field"
+              />
+              {reasons.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {reasons.map((r) => (
+                    <button
+                      key={r}
+                      type="button"
+                      onClick={() => setReason(r)}
+                      className={`px-2.5 py-1 rounded-full text-xs border ${reason === r ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-500'}`}
+                    >
+                      {r}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-400 mt-2">{t('pos.priceAudit')}</p>
+            </div>
+          )}
+          <div className="flex justify-between text-sm p-3 bg-primary-50 rounded-xl text-primary-700">
+            <span>{t('pos.lineTotal')}</span>
+            <span className="font-semibold">{formatCurrency(price * target.quantity)}</span>
+          </div>
+          {error && price > 0 && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          {isOverride && target.hasOverride && onRestore ? (
+            <Button variant="secondary" className="flex-1" onClick={onRestore}>
+              {t('pos.listPrice')}
+            </Button>
+          ) : (
+            <Button variant="secondary" className="flex-1" onClick={onClose}>
+              {t('common.cancel')}
+            </Button>
+          )}
+          <Button className="flex-1" disabled={!!error} onClick={() => onApply(price, reason.trim())}>
+            <DollarSign size={18} />
+            {isOverride ? t('common.apply') : t('common.add')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/** Puntos del cliente seleccionado y lo que se redime en esta venta */
+interface LoyaltyRedemption {
+  balance: number
+  tierName?: string
+  points: number
+  maxPoints: number
+  amount: number
+  pointValue: number
+  /** Puntos que ganará la venta con la redención actual */
+  earnedPoints: number
+}
+
+interface AppliedCoupon {
+  coupon: Coupon
+  amount: number
+  /** Por qué dejó de aplicar (p. ej. el carrito bajó de la compra mínima) */
+  error: string | null
+}
+
+interface CouponEntryProps {
+  applied: AppliedCoupon | null
+  onApply: (code: string) => Promise<boolean>
+  onRemove: () => void
+  formatCurrency: (value: number) => string
+}
+
+/** Código digitado o escaneado: el lector de barras escribe en el campo y envía Enter */
+const CouponEntry = ({ applied, onApply, onRemove, formatCurrency }: CouponEntryProps) => {
+  const { t } = useTranslation()
+  const [code, setCode] = useState('')
+  const [checking, setChecking] = useState(false)
+
+  const handleApply = async () => {
+    if (!code.trim() || checking) return
+    setChecking(true)
+    try {
+      if (await onApply(code)) setCode('')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1 text-sm font-medium text-gray-700">
+          <Ticket size={14} className="text-purple-600" />
+          {t('pos.coupon')}
+        </span>
+        <span className={`text-sm font-medium ${applied && applied.amount > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+          {applied && applied.amount > 0 ? `-${formatCurrency(applied.amount)}` : '$0'}
+        </span>
+      </div>
+      {applied ? (
+        <>
+          <div className="flex items-center justify-between px-2 py-1 bg-purple-50 rounded-lg">
+            <span className="text-xs font-medium text-purple-700">
+              {applied.coupon.code} · {formatCouponValue(applied.coupon)}
+            </span>
+            <button type="button" onClick={onRemove} className="p-0.5 rounded-full text-purple-500 hover:bg-purple-100" title={t('pos.removeCoupon')}>
+              <X size={14} />
+            </button>
+          </div>
+          {applied.error && <p className="text-xs text-red-500">{applied.error}</p>}
+        </>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                handleApply()
+              }
+            }}
+            className="flex-1 text-sm px-2 py-1 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            placeholder={t('pos.couponPlaceholder')}
+          />
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!code.trim() || checking}
+            className="px-2 py-1 text-xs font-medium text-purple-700 bg-purple-50 rounded-lg hover:bg-purple-100 disabled:opacity-50"
+          >
+            {checking ? <Loader2 size={14} className="animate-spin" /> : t('common.apply')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
 interface PaymentModalProps {
   show: boolean
-  paymentMethod: 'EFECTIVO' | 'TRANSFERENCIA'
   subtotal: number
+  lineDiscountAmount: number
   discountAmount: number
+  taxBreakdown: TaxBreakdownEntry[]
+  pricesIncludeTax: boolean
   total: number
+  serviceChargePercent: number
   includeServiceCharge: boolean
   setIncludeServiceCharge: (value: boolean) => void
   includeDelivery: boolean
@@ -454,23 +954,36 @@ interface PaymentModalProps {
   setDeliveryCharge: (value: number) => void
   totalDiscountPercent: number
   setTotalDiscountPercent: (value: number) => void
-  amountReceived: string
-  setAmountReceived: (value: string) => void
+  tenders: TenderLine[]
+  setTenders: (lines: TenderLine[]) => void
+  creditAvailable: number | null
+  loyalty: LoyaltyRedemption | null
+  setLoyaltyPoints: (points: number) => void
+  coupon: AppliedCoupon | null
+  /** Valida y aplica el código; devuelve el descuento o null si no aplica */
+  onApplyCoupon: (code: string) => Promise<number | null>
+  onRemoveCoupon: () => void
+  tip: TipInput
+  setTip: (tip: TipInput) => void
+  suggestedTipPercents: number[]
+  /** Tasas del día para recibir efectivo en divisa */
+  exchangeRates: ExchangeRate[]
   processing: boolean
   onClose: () => void
   onConfirm: () => Promise<void>
   onPrintPreBill: () => void
   formatCurrency: (value: number) => string
-  items: Array<{ id: number; name: string; price: number; quantity: number; notes?: string }>
-  customerName: string
 }
 
 const PaymentModal = ({
   show,
-  paymentMethod,
   subtotal,
+  lineDiscountAmount,
   discountAmount,
+  taxBreakdown,
+  pricesIncludeTax,
   total,
+  serviceChargePercent,
   includeServiceCharge,
   setIncludeServiceCharge,
   includeDelivery,
@@ -479,28 +992,72 @@ const PaymentModal = ({
   setDeliveryCharge,
   totalDiscountPercent,
   setTotalDiscountPercent,
-  amountReceived,
-  setAmountReceived,
+  tenders,
+  setTenders,
+  creditAvailable,
+  loyalty,
+  setLoyaltyPoints,
+  coupon,
+  onApplyCoupon,
+  onRemoveCoupon,
+  tip,
+  setTip,
+  suggestedTipPercents,
+  exchangeRates,
   processing,
   onClose,
   onConfirm,
   onPrintPreBill,
   formatCurrency,
-  items,
-  customerName,
 }: PaymentModalProps) => {
+  const { t } = useTranslation()
   if (!show) return null
 
-  const serviceChargeAmount = includeServiceCharge ? total * 0.10 : 0
+  const serviceChargeAmount = includeServiceCharge ? (total * serviceChargePercent) / 100 : 0
   const deliveryAmount = includeDelivery ? deliveryCharge : 0
   const totalDiscountAmount = (total * totalDiscountPercent) / 100
-  const finalTotal = total + serviceChargeAmount + deliveryAmount - totalDiscountAmount
+  const loyaltyAmount = loyalty?.amount || 0
+  const couponAmount = coupon?.amount || 0
+  const finalTotal = total + serviceChargeAmount + deliveryAmount - totalDiscountAmount - couponAmount - loyaltyAmount
+  // La redención de puntos y el cupón son descuentos: reducen la base de los impuestos
+  const finalTaxBreakdown = scaleTaxBreakdown(taxBreakdown, 1 - totalDiscountPercent / 100 - (total > 0 ? (loyaltyAmount + couponAmount) / total : 0))
+  // La propina se cobra con los pagos pero queda fuera del total de la factura
+  const tipAmount = calculateTip(tip, finalTotal, tenders)
+  const amountDue = finalTotal + tipAmount
+  const tenderSummary = summarizeTenders(tenders, amountDue)
+  const singleMethod = tenders.length === 1 ? tenders[0].method : null
+
+  // Con un solo pago, su monto sigue al total más la propina; con pagos divididos el cajero los ajusta
+  const syncSingleTender = (billTotal: number, nextTip = tip) => {
+    if (tenders.length !== 1) return
+    const line = { ...tenders[0], amount: billTotal }
+    setTenders([setTenderAmount(line, Math.round(billTotal + calculateTip(nextTip, billTotal, [line])))])
+  }
 
   const recalcAmount = (svc: boolean, dlv: boolean, dlvCharge: number, discPercent: number) => {
-    const svcAmt = svc ? total * 0.10 : 0
+    const svcAmt = svc ? (total * serviceChargePercent) / 100 : 0
     const dlvAmt = dlv ? dlvCharge : 0
     const discAmt = (total * discPercent) / 100
-    setAmountReceived((total + svcAmt + dlvAmt - discAmt).toFixed(0))
+    syncSingleTender(total + svcAmt + dlvAmt - discAmt - couponAmount - loyaltyAmount)
+  }
+
+  const applyCoupon = async (code: string) => {
+    const amount = await onApplyCoupon(code)
+    if (amount == null) return false
+    syncSingleTender(finalTotal + couponAmount - amount)
+    return true
+  }
+
+  const removeCoupon = () => {
+    onRemoveCoupon()
+    syncSingleTender(finalTotal + couponAmount)
+  }
+
+  const applyLoyaltyPoints = (points: number) => {
+    if (!loyalty) return
+    const clamped = Math.min(loyalty.maxPoints, Math.max(0, Math.floor(points)))
+    setLoyaltyPoints(clamped)
+    syncSingleTender(finalTotal + loyaltyAmount - clamped * loyalty.pointValue)
   }
 
   return (
@@ -508,7 +1065,7 @@ const PaymentModal = ({
       <div className="modal-content p-6 animate-scale-in">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-xl font-bold text-gray-800">
-            Pago con {paymentMethod === 'EFECTIVO' ? 'Efectivo' : 'Transferencia'}
+            {singleMethod ? t('pos.payWith', { method: getPaymentLineLabel({ paymentMethod: singleMethod, currency: tenders[0].currency }) }) : t('pos.mixedPayment')}
           </h3>
           <button
             onClick={onClose}
@@ -521,19 +1078,26 @@ const PaymentModal = ({
 
         <div className="space-y-3 mb-6">
           <div className="flex justify-between text-sm">
-            <span className="text-gray-500">Subtotal</span>
+            <span className="text-gray-500">{t('common.subtotal')}</span>
             <span>{formatCurrency(subtotal)}</span>
           </div>
+          {lineDiscountAmount > 0 && (
+            <div className="flex justify-between text-sm text-green-600">
+              <span>{t('pos.lineDiscounts')}</span>
+              <span>-{formatCurrency(lineDiscountAmount)}</span>
+            </div>
+          )}
           {discountAmount > 0 && (
             <div className="flex justify-between text-sm text-green-600">
-              <span>Descuento</span>
+              <span>{t('pos.discount')}</span>
               <span>-{formatCurrency(discountAmount)}</span>
             </div>
           )}
 
           {/* Opciones adicionales */}
           <div className="space-y-2 py-2 border-t border-b border-gray-100">
-            {/* Service charge toggle */}
+            {/* Servicio voluntario: el cliente puede rechazarlo */}
+            {serviceChargePercent > 0 && (
             <div className="flex items-center justify-between">
               <label className="flex items-center gap-2 cursor-pointer">
                 <input
@@ -545,12 +1109,13 @@ const PaymentModal = ({
                   }}
                   className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                 />
-                <span className="text-sm font-medium text-gray-700">Servicio (10%)</span>
+                <span className="text-sm font-medium text-gray-700">{t('sale.serviceCharge', { percent: serviceChargePercent })}</span>
               </label>
               <span className={`text-sm font-medium ${includeServiceCharge ? 'text-primary-600' : 'text-gray-400'}`}>
                 {includeServiceCharge ? formatCurrency(serviceChargeAmount) : '$0'}
               </span>
             </div>
+            )}
 
             {/* Delivery charge toggle with editable amount */}
             <div className="space-y-1">
@@ -565,7 +1130,7 @@ const PaymentModal = ({
                     }}
                     className="w-4 h-4 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
                   />
-                  <span className="text-sm font-medium text-gray-700">Domicilio</span>
+                  <span className="text-sm font-medium text-gray-700">{t('sale.delivery')}</span>
                 </label>
                 <span className={`text-sm font-medium ${includeDelivery ? 'text-amber-600' : 'text-gray-400'}`}>
                   {includeDelivery ? formatCurrency(deliveryAmount) : '$0'}
@@ -584,7 +1149,7 @@ const PaymentModal = ({
                     className="w-full text-sm px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
                     min="0"
                     step="500"
-                    placeholder="Valor domicilio"
+                    placeholder={t('pos.deliveryPlaceholder')}
                   />
                 </div>
               )}
@@ -593,7 +1158,7 @@ const PaymentModal = ({
             {/* Total discount percent */}
             <div className="space-y-1">
               <div className="flex items-center justify-between">
-                <span className="text-sm font-medium text-gray-700">Descuento adicional (%)</span>
+                <span className="text-sm font-medium text-gray-700">{t('sale.extraDiscount')}</span>
                 <span className={`text-sm font-medium ${totalDiscountPercent > 0 ? 'text-green-600' : 'text-gray-400'}`}>
                   {totalDiscountPercent > 0 ? `-${formatCurrency(totalDiscountAmount)}` : '$0'}
                 </span>
@@ -611,59 +1176,105 @@ const PaymentModal = ({
                   min="0"
                   max="100"
                   step="5"
-                  placeholder="% descuento"
+                  placeholder={t('pos.discountPlaceholder')}
                 />
               </div>
             </div>
+
+            <CouponEntry applied={coupon} onApply={applyCoupon} onRemove={removeCoupon} formatCurrency={formatCurrency} />
+
+            {/* Redención de puntos del cliente */}
+            {loyalty && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-1 text-sm font-medium text-gray-700">
+                    <Award size={14} className="text-yellow-600" />
+                    {t('pos.loyaltyPoints', { balance: loyalty.balance, tier: loyalty.tierName ? ` · ${loyalty.tierName}` : '' })}
+                  </span>
+                  <span className={`text-sm font-medium ${loyaltyAmount > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                    {loyaltyAmount > 0 ? `-${formatCurrency(loyaltyAmount)}` : '$0'}
+                  </span>
+                </div>
+                {loyalty.maxPoints > 0 ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      value={loyalty.points || ''}
+                      onChange={(e) => applyLoyaltyPoints(parseInt(e.target.value) || 0)}
+                      className="flex-1 text-sm px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+                      min="0"
+                      max={loyalty.maxPoints}
+                      placeholder={t('pos.pointsPlaceholder')}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => applyLoyaltyPoints(loyalty.maxPoints)}
+                      className="px-2 py-1 text-xs font-medium text-yellow-700 bg-yellow-50 rounded-lg hover:bg-yellow-100"
+                    >
+                      {t('pos.maxPoints', { points: loyalty.maxPoints })}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-400">{t('pos.belowMinRedeem')}</p>
+                )}
+              </div>
+            )}
           </div>
 
+          <TaxBreakdownRows breakdown={finalTaxBreakdown} pricesIncludeTax={pricesIncludeTax} formatCurrency={formatCurrency} />
+
           <div className="flex justify-between text-lg font-bold pt-1">
-            <span>Total a pagar</span>
+            <span>{t('sale.totalToPay')}</span>
             <span className="text-primary-600">{formatCurrency(finalTotal)}</span>
           </div>
+          {loyalty && loyalty.earnedPoints > 0 && (
+            <p className="text-xs text-yellow-700 text-right">{t('pos.earnedPoints', { points: loyalty.earnedPoints })}</p>
+          )}
 
-          {paymentMethod === 'EFECTIVO' ? (
-            <>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Monto recibido</label>
-                <input
-                  type="number"
-                  value={amountReceived}
-                  onChange={(e) => setAmountReceived(e.target.value)}
-                  className="input-field"
-                  min={finalTotal}
-                />
-              </div>
-              {parseFloat(amountReceived) >= finalTotal && (
-                <div className="flex justify-between text-lg font-bold text-green-600">
-                  <span>Cambio</span>
-                  <span>{formatCurrency(parseFloat(amountReceived) - finalTotal)}</span>
-                </div>
-              )}
-            </>
-          ) : (
-            <div className="p-4 bg-primary-50 rounded-xl text-center">
-              <CreditCard className="w-12 h-12 mx-auto text-primary-600 mb-2" />
-              <p className="text-sm text-gray-600">El pago se procesará por transferencia</p>
-              <p className="text-xs text-gray-400 mt-1">El monto exacto será cobrado al cliente</p>
+          <div className="py-2 border-t border-b border-gray-100">
+            <TipEditor
+              tip={tip}
+              onChange={(next) => {
+                setTip(next)
+                syncSingleTender(finalTotal, next)
+              }}
+              billTotal={finalTotal}
+              tenders={tenders}
+              suggestedPercents={suggestedTipPercents}
+              formatCurrency={formatCurrency}
+            />
+          </div>
+          {tipAmount > 0 && (
+            <div className="flex justify-between font-semibold">
+              <span>{t('sale.totalWithTip')}</span>
+              <span className="text-amber-600">{formatCurrency(amountDue)}</span>
             </div>
           )}
+
+          <TenderEditor
+            lines={tenders}
+            setLines={setTenders}
+            total={amountDue}
+            formatCurrency={formatCurrency}
+            creditAvailable={creditAvailable}
+            exchangeRates={exchangeRates}
+          />
         </div>
 
         <div className="space-y-3">
           <Button
             variant="primary"
             className="w-full"
-            disabled={processing || (paymentMethod === 'EFECTIVO' && parseFloat(amountReceived) < finalTotal)}
+            disabled={processing || !tenderSummary.isComplete}
             onClick={onConfirm}
           >
             {processing ? (
               <>
                 <Loader2 className="w-5 h-5 animate-spin" />
-                Procesando...
+                {t('common.processing')}
               </>
             ) : (
-              'Confirmar Venta'
+              t('pos.confirmSale')
             )}
           </Button>
           <button
@@ -672,10 +1283,10 @@ const PaymentModal = ({
             className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium text-gray-600 bg-gray-50 border border-gray-200 rounded-xl hover:bg-gray-100 transition-colors"
           >
             <Printer size={16} />
-            Imprimir Pre-cuenta
+            {t('tables.printPreBill')}
           </button>
           <Button variant="secondary" className="w-full" onClick={onClose} disabled={processing}>
-            Cancelar
+            {t('common.cancel')}
           </Button>
         </div>
       </div>
@@ -684,9 +1295,15 @@ const PaymentModal = ({
 }
 
 const POSPage = () => {
-  const dispatch = useDispatch()
-  const { items, customerName, customerId, discount, discountType, notes } = useSelector((state: RootState) => state.cart)
-  const { subtotal, discountAmount, total, itemCount } = useSelector(selectCartTotal)
+  const { t } = useTranslation()
+  const dispatch = useDispatch<AppDispatch>()
+  const { user } = useSelector((state: RootState) => state.auth)
+  const { items, customerName, customerId, discount, discountType, notes, parked } = useSelector((state: RootState) => state.cart)
+  const { subtotal, lineDiscountAmount, discountAmount, taxAmount, taxBreakdown, pricesIncludeTax, total, itemCount } = useSelector(selectCartTotal)
+  const { discountReasons, maxDiscountPercent, serviceChargePercent, suggestedTipPercents } = useSelector((state: RootState) => state.settings.pos)
+  const loyaltyConfig = useSelector((state: RootState) => state.settings.loyalty)
+  const foreignCurrencies = useSelector((state: RootState) => state.settings.company.foreignCurrencies)
+  const { current: cashSession, checked: cashSessionChecked } = useSelector((state: RootState) => state.cashSession)
   
   const [products, setProducts] = useState<ProductWithCategory[]>([])
   const [categories, setCategories] = useState<Category[]>([])
@@ -697,8 +1314,7 @@ const POSPage = () => {
   const [showPaymentModal, setShowPaymentModal] = useState(false)
   const [showCustomerModal, setShowCustomerModal] = useState(false)
   const [customerSearch, setCustomerSearch] = useState('')
-  const [paymentMethod, setPaymentMethod] = useState<'EFECTIVO' | 'TRANSFERENCIA'>('EFECTIVO')
-  const [amountReceived, setAmountReceived] = useState<string>('')
+  const [tenders, setTenders] = useState<TenderLine[]>([])
   const [loading, setLoading] = useState(true)
   const [processing, setProcessing] = useState(false)
   const [cardSize, setCardSize] = useState<CardSize>('medium')
@@ -711,13 +1327,37 @@ const POSPage = () => {
   const [includeDelivery, setIncludeDelivery] = useState(false)
   const [deliveryCharge, setDeliveryCharge] = useState(3000)
   const [totalDiscountPercent, setTotalDiscountPercent] = useState(0)
-  const [activePromotion, setActivePromotion] = useState<Promotion | null>(null)
+  const [loyaltyPoints, setLoyaltyPoints] = useState(0)
+  const [tip, setTip] = useState<TipInput>(createTipInput())
+  const [coupon, setCoupon] = useState<Coupon | null>(null)
+  const [priceLists, setPriceLists] = useState<PriceList[]>([])
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  // Reloj para que las promociones por franja horaria entren y salgan sin tocar el carrito
+  const [promotionClock, setPromotionClock] = useState(() => Date.now())
 
   // Table selection for POS
   const [tables, setTables] = useState<RestaurantTable[]>([])
   const [selectedTableId, setSelectedTableId] = useState<number | null>(null)
   const [showTableSelector, setShowTableSelector] = useState(false)
   const [showMobileCart, setShowMobileCart] = useState(false)
+  const [showParkedModal, setShowParkedModal] = useState(false)
+  const [showGiftCardModal, setShowGiftCardModal] = useState(false)
+  const [modifierProduct, setModifierProduct] = useState<ProductWithCategory | null>(null)
+  // Peso o cantidad de una etiqueta de balanza mientras se eligen los modificadores
+  const [modifierQuantity, setModifierQuantity] = useState<number | null>(null)
+  const [discountLine, setDiscountLine] = useState<CartItem | null>(null)
+  const [showParkModal, setShowParkModal] = useState(false)
+  const [parkLabel, setParkLabel] = useState('')
+  const [showShortcutsHelp, setShowShortcutsHelp] = useState(false)
+  const [openPriceItem, setOpenPriceItem] = useState<{ product: ProductWithCategory; modifiers?: SelectedModifier[]; quantity?: number } | null>(null)
+  const [priceLine, setPriceLine] = useState<CartItem | null>(null)
+  // Cantidad capturada con la tecla de cantidad ("3*"): se aplica al siguiente producto
+  const [pendingQuantity, setPendingQuantity] = useState<number | null>(null)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const location = useLocation()
+  const navigate = useNavigate()
+  const shortcuts = useMemo(() => loadShortcuts(user?.id), [user?.id])
 
   const [isOrganizingCategories, setIsOrganizingCategories] = useState(false)
   const [draftCategoryOrder, setDraftCategoryOrder] = useState<number[] | null>(null)
@@ -726,31 +1366,88 @@ const POSPage = () => {
     try {
       const res = await tableService.getAll()
       const allTables = Array.isArray(res) ? res : []
-      setTables(allTables.filter((t: RestaurantTable) => t.isActive).sort((a: RestaurantTable, b: RestaurantTable) => a.tableNumber - b.tableNumber))
+      setTables(allTables.filter((table: RestaurantTable) => table.isActive).sort((a: RestaurantTable, b: RestaurantTable) => a.tableNumber - b.tableNumber))
     } catch { /* tables module may not be available */ }
   }, [])
 
   useEffect(() => {
     fetchData()
     fetchTables()
-    fetchActivePromotion()
+    fetchPromotions()
+    fetchPriceLists()
+    fetchExchangeRates()
+    dispatch(fetchCurrentSession())
+    const timer = setInterval(() => setPromotionClock(Date.now()), 60000)
+    return () => clearInterval(timer)
   }, [])
 
-  const fetchActivePromotion = async () => {
+  useEffect(() => {
+    if (user?.id) dispatch(loadUserCart(user.id))
+  }, [user?.id])
+
+  const handleParkTicket = () => {
+    dispatch(parkTicket(parkLabel))
+    setShowParkModal(false)
+    setParkLabel('')
+    setSelectedTableId(null)
+    toast.success(t('pos.ticketParked'))
+  }
+
+  const handleResumeTicket = (id: string) => {
+    if (items.length > 0) toast(t('pos.currentSaleParked'), { icon: '⏸️' })
+    dispatch(resumeTicket(id))
+    setShowParkedModal(false)
+  }
+
+  const fetchPromotions = async () => {
     try {
-      const res = await promotionService.getToday()
-      if (res) {
-        setActivePromotion(res as Promotion)
-        // Sugerir aplicar promoción automáticamente si no hay descuento manual
-        if (totalDiscountPercent === 0) {
-          setTotalDiscountPercent((res as Promotion).discountPercent)
-        }
-      }
+      const res = await promotionService.getActive()
+      setPromotions(Array.isArray(res) ? res : [])
+    } catch {
+      // Sin promociones activas
+    }
+  }
+
+  const fetchPriceLists = async () => {
+    try {
+      const res = await priceListService.getActive()
+      setPriceLists(Array.isArray(res) ? res : [])
+    } catch {
+      // Sin listas de precios: se vende al precio de cada producto
+    }
+  }
+
+  const fetchExchangeRates = async () => {
+    try {
+      const res = await exchangeRateService.getToday()
+      setExchangeRates(Array.isArray(res) ? res : [])
     } catch {
-      // No promotion active today
+      // Sin tasa del día: no se recibe efectivo en divisa
     }
   }
 
+  // Las líneas con descuento manual o precio cambiado quedan por fuera de las promociones
+  useEffect(() => {
+    const eligible = items.filter((item) => !item.discount && !item.priceOverride)
+    const applied = evaluatePromotions(
+      promotions,
+      eligible.map((item) => ({
+        lineId: item.lineId,
+        productId: item.id,
+        categoryId: products.find((p) => p.id === item.id)?.categoryId,
+        unitPrice: item.price,
+        quantity: item.quantity,
+      })),
+      subtotal,
+      new Date(promotionClock),
+    )
+    const changed = items.some((item) =>
+      item.promotion?.promotionId !== applied[item.lineId]?.promotionId ||
+      (item.promotion?.amount || 0) !== (applied[item.lineId]?.amount || 0)
+    )
+    if (changed) dispatch(applyPromotions(applied))
+  }, [items, promotions, products, subtotal, promotionClock])
+
   const normalizeProduct = (p: any): ProductWithCategory => {
     const categoryId = p?.category?.id ?? p?.categoryId ?? 0
     const stockQuantity = p?.inventory?.quantity ?? p?.stockQuantity
@@ -790,12 +1487,319 @@ const POSPage = () => {
       setCustomers(allCustomers.filter((c: Customer) => c.isActive !== false))
     } catch (error) {
       console.error('Error loading data:', error)
-      toast.error('Error al cargar productos')
+      toast.error(t('products.loadError'))
     } finally {
       setLoading(false)
     }
   }
 
+  const getCartQuantity = (productId: number) =>
+    items.filter(i => i.id === productId).reduce((acc, i) => acc + i.quantity, 0)
+
+  const canOverridePrice = hasPermission(user, 'pos.discount')
+  const supervisorAuth = useSupervisorAuth()
+
+  const handleApplyLineDiscount = async (line: CartItem, discount: LineDiscount | null) => {
+    let applied = discount
+    if (discount && getLineDiscountPercent({ ...line, discount }) > maxDiscountPercent) {
+      const approval = await supervisorAuth.authorize({
+        action: 'DESCUENTO',
+        permission: 'pos.discount',
+        description: t('pos.lineDiscountDescription', {
+          amount: formatCurrency(getLineDiscountAmount({ ...line, promotion: undefined, discount })),
+          product: line.name,
+          reason: discount.reason,
+        }),
+        reference: line.name,
+      })
+      if (!approval) return
+      applied = { ...discount, authorizationId: approval.authorizationId }
+    }
+    dispatch(setItemDiscount({ lineId: line.lineId, discount: applied }))
+    setDiscountLine(null)
+  }
+
+  /**
+   * Descuento general digitado por el cajero (las promociones van por línea y no
+   * cuentan). Si supera el máximo configurado pide autorización.
+   * Devuelve false si se canceló.
+   */
+  const authorizeOrderDiscount = async (): Promise<{ ok: boolean; authorizationId?: number }> => {
+    const cartPercent = discountType === 'percent' ? discount : (subtotal > 0 ? (discount / subtotal) * 100 : 0)
+    const manualPercent = cartPercent + totalDiscountPercent
+    if (manualPercent <= maxDiscountPercent) return { ok: true }
+    const approval = await supervisorAuth.authorize({
+      action: 'DESCUENTO',
+      permission: 'pos.discount',
+      description: t('pos.orderDiscountDescription', { percent: Math.round(manualPercent * 100) / 100, amount: formatCurrency(subtotal) }),
+    })
+    return approval ? { ok: true, authorizationId: approval.authorizationId } : { ok: false }
+  }
+
+  const handleConfirmModifiers = (modifiers: SelectedModifier[]) => {
+    if (!modifierProduct) return
+    const quantity = modifierQuantity ?? pendingQuantity
+    if (modifierProduct.openPrice) {
+      setOpenPriceItem({ product: modifierProduct, modifiers, quantity: quantity ?? undefined })
+      setModifierProduct(null)
+      setModifierQuantity(null)
+      return
+    }
+    dispatch(addItem({
+      id: modifierProduct.id,
+      code: modifierProduct.code,
+      name: modifierProduct.name,
+      price: getListPrice(activePriceList, modifierProduct) + getModifiersTotal(modifiers),
+      modifiers: modifiers.length > 0 ? modifiers : undefined,
+      quantity: quantity || undefined,
+      unit: modifierProduct.unit,
+      taxRate: modifierProduct.taxRate,
+      taxType: modifierProduct.taxType,
+    }))
+    setModifierProduct(null)
+    setModifierQuantity(null)
+    setPendingQuantity(null)
+  }
+
+  const handleProductClick = (product: ProductWithCategory) => {
+    const quantity = pendingQuantity || 1
+    const stock = product.inventory?.quantity ?? 0
+    if (stock - getCartQuantity(product.id) < quantity) {
+      toast.error(t('pos.outOfStock', { name: product.name }))
+      return
+    }
+    if (hasModifierGroups(product)) {
+      setModifierProduct(product)
+      return
+    }
+    if (product.openPrice) {
+      setOpenPriceItem({ product })
+      return
+    }
+    dispatch(addItem({
+      id: product.id,
+      code: product.code,
+      name: product.name,
+      price: getListPrice(activePriceList, product),
+      quantity,
+      unit: product.unit,
+      taxRate: product.taxRate,
+      taxType: product.taxType,
+    }))
+    setPendingQuantity(null)
+  }
+
+  const handleConfirmOpenPrice = (price: number) => {
+    if (!openPriceItem) return
+    const { product, modifiers } = openPriceItem
+    dispatch(addItem({
+      id: product.id,
+      code: product.code,
+      name: product.name,
+      price: price + getModifiersTotal(modifiers),
+      modifiers: modifiers && modifiers.length > 0 ? modifiers : undefined,
+      quantity: openPriceItem.quantity || pendingQuantity || undefined,
+      unit: product.unit,
+      taxRate: product.taxRate,
+      taxType: product.taxType,
+      openPrice: true,
+    }))
+    setOpenPriceItem(null)
+    setPendingQuantity(null)
+  }
+
+  const handleOverridePrice = (price: number, reason: string) => {
+    if (!priceLine) return
+    const listPrice = priceLine.priceOverride?.originalPrice ?? priceLine.price
+    const override: PriceOverride = {
+      originalPrice: listPrice,
+      newPrice: price,
+      reason,
+      userId: user?.id,
+      userName: user?.fullName,
+      createdAt: new Date().toISOString(),
+    }
+    dispatch(setItemPrice({ lineId: priceLine.lineId, price, override }))
+    setPriceLine(null)
+  }
+
+  // Lector de código de barras: primero productos cargados, luego el backend
+  const handleBarcodeScan = async (code: string) => {
+    // Si el foco estaba en el buscador, el lector también escribió ahí el código
+    setSearchTerm(prev => (prev.endsWith(code) ? prev.slice(0, -code.length) : prev))
+
+    const scale = parseScaleBarcode(code)
+    let product: ProductWithCategory | undefined
+    let quantity = pendingQuantity || 1
+
+    if (scale) {
+      product = products.find(p => matchesPlu(p.code, scale.plu))
+      if (product) {
+        // La etiqueta trae el total impreso: la cantidad sale del mismo precio con que se cobra la línea
+        const unitPrice = getListPrice(activePriceList, product)
+        quantity = scale.weight ?? (unitPrice > 0 ? Math.round((scale.price! / unitPrice) * 1000) / 1000 : 1)
+      }
+    }
+    if (!product) {
+      product = products.find(p => p.barcode === code || p.code === code)
+    }
+    if (!product) {
+      try {
+        product = normalizeProduct(await productService.getByBarcode(code))
+      } catch { /* no encontrado */ }
+    }
+
+    if (!product || product.isActive === false) {
+      playScanBeep(false)
+      toast.error(t('pos.productNotFound', { code }))
+      return
+    }
+
+    const stock = product.inventory?.quantity ?? 0
+    const cartQty = getCartQuantity(product.id)
+    if (stock - cartQty < quantity) {
+      playScanBeep(false)
+      toast.error(t('pos.outOfStock', { name: product.name }))
+      return
+    }
+
+    if (hasModifierGroups(product)) {
+      playScanBeep(true)
+      if (scale) setModifierQuantity(quantity)
+      setModifierProduct(product)
+      return
+    }
+
+    if (product.openPrice && !scale) {
+      playScanBeep(true)
+      setOpenPriceItem({ product })
+      return
+    }
+
+    dispatch(addItem({
+      id: product.id,
+      code: product.code,
+      name: product.name,
+      price: getListPrice(activePriceList, product),
+      quantity,
+      unit: product.unit,
+      taxRate: product.taxRate,
+      taxType: product.taxType,
+    }))
+    playScanBeep(true)
+    setPendingQuantity(null)
+    toast.success(scale && product.unit === 'KG' ? t('pos.weighedItem', { name: product.name, quantity }) : product.name, { duration: 1200 })
+  }
+
+  useBarcodeScanner({
+    onScan: handleBarcodeScan,
+    enabled: !showPaymentModal && !showInvoiceConfirmModal,
+  })
+
+  const handleQuantityKey = () => {
+    const value = Number(searchTerm.trim().replace(',', '.'))
+    if (!searchTerm.trim() || !Number.isFinite(value) || value <= 0) {
+      toast.error(t('pos.quantityFirst'))
+      return
+    }
+    setPendingQuantity(value)
+    setSearchTerm('')
+  }
+
+  const isAnyModalOpen = showPaymentModal || showInvoiceConfirmModal || showCustomerModal || showNewCustomerModal ||
+    showParkModal || showParkedModal || showGiftCardModal || showTableSelector || !!modifierProduct || !!discountLine || !!openPriceItem || !!priceLine
+
+  useShortcuts({
+    bindings: shortcuts,
+    enabled: !isAnyModalOpen,
+    handlers: {
+      search: () => searchInputRef.current?.focus(),
+      customer: () => setShowCustomerModal(true),
+      discount: () => {
+        if (items.length === 0) return
+        setDiscountLine(items[items.length - 1])
+      },
+      park: () => {
+        if (items.length > 0) setShowParkModal(true)
+      },
+      pay: () => {
+        if (items.length > 0) openPaymentModal('EFECTIVO')
+      },
+      quantity: handleQuantityKey,
+      help: () => setShowShortcutsHelp((prev) => !prev),
+    },
+  })
+
+  // Pantalla del cliente: se publica el carrito y, al cobrar, el cambio a entregar
+  const displayChannelRef = useRef<BroadcastChannel | null>(null)
+  const lastDisplayMessageRef = useRef<CustomerDisplayMessage>({ type: 'idle' })
+
+  useEffect(() => {
+    const channel = createDisplayChannel()
+    displayChannelRef.current = channel
+    if (!channel) return
+    channel.onmessage = (event: MessageEvent<CustomerDisplayMessage>) => {
+      if (event.data.type === 'hello') channel.postMessage(lastDisplayMessageRef.current)
+    }
+    return () => {
+      channel.close()
+      displayChannelRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    let message: CustomerDisplayMessage
+    if (showInvoiceConfirmModal && completedInvoice) {
+      message = {
+        type: 'payment',
+        total: Number(completedInvoice.total) || 0,
+        paid: Number(completedInvoice.amountReceived) || Number(completedInvoice.total) || 0,
+        change: Number(completedInvoice.changeAmount) || 0,
+      }
+    } else if (items.length === 0) {
+      message = { type: 'idle' }
+    } else {
+      message = {
+        type: 'cart',
+        cart: {
+          customerName,
+          lines: items.map(item => ({
+            lineId: item.lineId,
+            name: item.name,
+            quantity: item.quantity,
+            unitPrice: item.price,
+            total: getLineTotal(item),
+            discountAmount: getLineDiscountAmount(item),
+            modifiers: formatModifiers(item.modifiers) || undefined,
+          })),
+          subtotal,
+          discountAmount: lineDiscountAmount + discountAmount,
+          taxAmount,
+          pricesIncludeTax,
+          total,
+        },
+      }
+    }
+    lastDisplayMessageRef.current = message
+    displayChannelRef.current?.postMessage(message)
+  }, [items, customerName, subtotal, lineDiscountAmount, discountAmount, taxAmount, pricesIncludeTax, total, showInvoiceConfirmModal, completedInvoice])
+
+  // Producto o cliente elegido desde la paleta de comandos (Ctrl+K)
+  useEffect(() => {
+    const state = location.state as { addProductId?: number; customerId?: number } | null
+    if (!state || loading) return
+    if (state.addProductId) {
+      const product = products.find(p => p.id === state.addProductId)
+      if (product) handleProductClick(product)
+      else toast.error(t('pos.productUnavailable'))
+    }
+    if (state.customerId) {
+      const customer = customers.find(c => c.id === state.customerId)
+      if (customer) dispatch(setCustomer({ id: customer.id, name: customer.fullName }))
+    }
+    navigate(location.pathname, { replace: true, state: null })
+  }, [location.state, loading])
+
   const filteredCustomers = customers.filter(c =>
     c.fullName?.toLowerCase().includes(customerSearch.toLowerCase()) ||
     c.documentNumber?.includes(customerSearch) ||
@@ -806,7 +1810,7 @@ const POSPage = () => {
     if (customer) {
       dispatch(setCustomer({ id: customer.id, name: customer.fullName }))
     } else {
-      dispatch(setCustomer({ id: null, name: 'Cliente General' }))
+      dispatch(setCustomer({ id: null, name: t('common.generalCustomer') }))
     }
     setShowCustomerModal(false)
     setCustomerSearch('')
@@ -888,13 +1892,13 @@ const POSPage = () => {
 
     try {
       await categoryService.reorder({ categoryIds: draftCategoryOrder })
-      toast.success('Orden de categorías guardado')
+      toast.success(t('pos.categoryOrderSaved'))
       setIsOrganizingCategories(false)
       setDraftCategoryOrder(null)
       fetchData()
     } catch (error: any) {
       console.error('Error reordering categories:', error)
-      toast.error(error.response?.data?.message || 'No se pudo guardar el orden de categorías')
+      toast.error(error.response?.data?.message || t('pos.categoryOrderError'))
     }
   }
 
@@ -912,9 +1916,6 @@ const POSPage = () => {
     setDraftCategoryOrder(next)
   }
 
-  const formatCurrency = (value: number) => 
-    new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(value)
-
   const gridClasses = {
     small: 'grid-cols-1 xs:grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6',
     medium: 'grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5',
@@ -923,7 +1924,7 @@ const POSPage = () => {
 
   const handleCreateCustomer = async () => {
     if (!newCustomerData.fullName.trim()) {
-      toast.error('El nombre es requerido')
+      toast.error(t('common.nameIsRequired'))
       return
     }
     setSavingCustomer(true)
@@ -935,20 +1936,15 @@ const POSPage = () => {
       setShowNewCustomerModal(false)
       setShowCustomerModal(false)
       setNewCustomerData({ fullName: '', documentType: 'CC', documentNumber: '', phone: '' })
-      toast.success('Cliente creado y seleccionado')
+      toast.success(t('sale.customerCreated'))
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al crear cliente')
+      toast.error(error.response?.data?.message || t('sale.customerCreateError'))
     } finally {
       setSavingCustomer(false)
     }
   }
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr)
-    return date.toLocaleDateString('es-CO', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
-  }
-
-  const selectedTable = tables.find(t => t.id === selectedTableId) || null
+  const selectedTable = tables.find(table => table.id === selectedTableId) || null
 
   // Send cart items to a table WITHOUT paying (save order and continue)
   const handleSendToTable = async () => {
@@ -961,6 +1957,7 @@ const POSPage = () => {
           quantity: item.quantity,
           unitPrice: item.price,
           notes: item.notes || undefined,
+          modifiers: item.modifiers,
         }))
       }
 
@@ -973,22 +1970,170 @@ const POSPage = () => {
 
       await tableService.addItems(selectedTableId, tableItems)
 
-      toast.success(`Pedido enviado a Mesa #${selectedTable.tableNumber}`)
+      toast.success(t('pos.orderSentToTable', { number: selectedTable.tableNumber }))
       dispatch(clearCart())
       setSelectedTableId(null)
       fetchData()
       fetchTables()
     } catch (error: any) {
       console.error('Error sending to table:', error)
-      toast.error(error.response?.data?.message || 'Error al enviar pedido a mesa')
+      toast.error(error.response?.data?.message || t('pos.sendToTableError'))
     } finally {
       setProcessing(false)
     }
   }
 
+  const getFinalTotal = (withLoyalty = true) => {
+    const serviceChargeAmount = includeServiceCharge ? (total * serviceChargePercent) / 100 : 0
+    const deliveryAmount = includeDelivery ? deliveryCharge : 0
+    const totalDiscountAmount = (total * totalDiscountPercent) / 100
+    const loyaltyAmount = withLoyalty ? getLoyaltyRedemption()?.amount || 0 : 0
+    const couponAmount = getAppliedCoupon()?.amount || 0
+    return total + serviceChargeAmount + deliveryAmount - totalDiscountAmount - couponAmount - loyaltyAmount
+  }
+
+  /** El cupón se valora sobre los productos después del descuento adicional, sin servicio ni domicilio */
+  const getAppliedCoupon = (): AppliedCoupon | null => {
+    if (!coupon) return null
+    const base = total - (total * totalDiscountPercent) / 100
+    const error = getCouponError(coupon, base, customerId)
+    return { coupon, amount: error ? 0 : calculateCouponDiscount(coupon, base), error }
+  }
+
+  const handleApplyCoupon = async (code: string): Promise<number | null> => {
+    try {
+      const found = (await couponService.getByCode(normalizeCouponCode(code), customerId)) as Coupon
+      const base = total - (total * totalDiscountPercent) / 100
+      const error = getCouponError(found, base, customerId)
+      if (error) {
+        toast.error(error)
+        return null
+      }
+      setCoupon(found)
+      toast.success(t('pos.couponApplied', { code: found.code }))
+      return calculateCouponDiscount(found, base)
+    } catch (error: any) {
+      toast.error(error.response?.status === 404 ? t('pos.couponNotFound') : error.response?.data?.message || t('pos.couponError'))
+      return null
+    }
+  }
+
+  const selectedCustomer = customerId ? customers.find((c) => c.id === customerId) : undefined
+  const activePriceList = resolvePriceList(priceLists, selectedCustomer)
+
+  /**
+   * Reprecia el carrito con la lista del cliente y los precios por volumen (cantidad total
+   * del producto en el ticket). Los precios abiertos y los cambiados a mano se respetan.
+   */
+  useEffect(() => {
+    const prices: Record<string, number> = {}
+    items.forEach((item) => {
+      if (item.openPrice || item.priceOverride) return
+      const product = products.find((p) => p.id === item.id)
+      if (!product) return
+      const quantity = items.filter((i) => i.id === item.id).reduce((acc, i) => acc + i.quantity, 0)
+      const price = getListPrice(activePriceList, product, quantity) + getModifiersTotal(item.modifiers)
+      if (price !== item.price) prices[item.lineId] = price
+    })
+    if (Object.keys(prices).length > 0) dispatch(repriceItems(prices))
+  }, [items, products, activePriceList])
+
+  /** Puntos del cliente seleccionado; los redimidos se recortan si el total bajó del máximo permitido */
+  const getLoyaltyRedemption = (): LoyaltyRedemption | null => {
+    if (!loyaltyConfig.enabled || !selectedCustomer) return null
+    const { balance, tier } = getCustomerLoyalty(loyaltyConfig, selectedCustomer)
+    const maxPoints = getMaxRedeemablePoints(loyaltyConfig, balance, getFinalTotal(false))
+    const points = Math.min(loyaltyPoints, maxPoints)
+    const amount = pointsToAmount(loyaltyConfig, points)
+    const couponAmount = getAppliedCoupon()?.amount || 0
+    const lines = items.map((item) => ({
+      amount: getLineTotal(item),
+      categoryId: products.find((p) => p.id === item.id)?.categoryId,
+    }))
+    // Las líneas van antes del descuento del ticket; `total` ya lo trae y los demás descuentos son sobre él
+    const linesTotal = lines.reduce((acc, l) => acc + l.amount, 0)
+    const ticketFactor = linesTotal > 0 ? (linesTotal - discountAmount) / linesTotal : 0
+    const paidFactor = total > 0
+      ? Math.max(0, ticketFactor * (1 - totalDiscountPercent / 100 - (amount + couponAmount) / total))
+      : 0
+    return {
+      balance,
+      tierName: tier?.name,
+      points,
+      maxPoints,
+      amount,
+      pointValue: loyaltyConfig.pointValue,
+      earnedPoints: calculateEarnedPoints(loyaltyConfig, lines, paidFactor, tier),
+    }
+  }
+
+  // Los puntos a redimir y los límites del cupón son del cliente: al cambiarlo se empieza de cero
+  useEffect(() => {
+    setLoyaltyPoints(0)
+    setCoupon(null)
+  }, [customerId])
+
+  /**
+   * Verifica el cupo del cliente con su saldo actualizado. Si la venta lo supera,
+   * solo un usuario con permiso de autorización puede continuar (devuelve creditOverride).
+   */
+  const checkCreditTender = async (creditAmount: number): Promise<{ ok: boolean; override: boolean }> => {
+    if (!customerId) {
+      toast.error(t('pos.creditNeedsCustomer'))
+      return { ok: false, override: false }
+    }
+    const customer = (await customerService.getById(customerId)) as Customer
+    const available = getAvailableCredit(customer)
+    if (creditAmount <= available) return { ok: true, override: false }
+
+    if (!hasPermission(user, CREDIT_OVERRIDE_PERMISSION)) {
+      toast.error(t('pos.creditLimitExceeded', { name: customer.fullName, amount: formatCurrency(available) }))
+      return { ok: false, override: false }
+    }
+    const confirmed = confirm(
+      t('pos.creditLimitConfirm', { amount: formatCurrency(creditAmount), name: customer.fullName, available: formatCurrency(available) })
+    )
+    return { ok: confirmed, override: confirmed }
+  }
+
+  /** La propina es del mesero que abrió la mesa; en venta directa, de quien cobra */
+  const getDefaultTipStaff = (): TipStaff[] => {
+    const session = selectedTable?.activeSession
+    if (session) return [{ userId: session.openedById, userName: session.openedByName }]
+    return user ? [{ userId: user.id, userName: user.fullName }] : []
+  }
+
   const handleConfirmSale = async () => {
+    const finalTotal = getFinalTotal()
+    const loyaltyPointsRedeemed = getLoyaltyRedemption()?.points || undefined
+    const appliedCoupon = getAppliedCoupon()
+    if (appliedCoupon?.error) {
+      toast.error(appliedCoupon.error)
+      return
+    }
+    const couponCode = appliedCoupon?.coupon.code
+    const tipAmount = calculateTip(tip, finalTotal, tenders)
+    const tipDistribution = tipAmount > 0 ? splitTip(tipAmount, tip.staff) : undefined
+    const tenderSummary = summarizeTenders(tenders, finalTotal + tipAmount)
+    if (!tenderSummary.isComplete) {
+      toast.error(t('pos.paymentIncomplete'))
+      return
+    }
+    const payments = buildPaymentLines(tenders, finalTotal + tipAmount)
+    const creditAmount = payments
+      .filter((p) => p.paymentMethod === CREDIT_PAYMENT_METHOD.value)
+      .reduce((acc, p) => acc + p.amount, 0)
     setProcessing(true)
     try {
+      let creditOverride = false
+      if (creditAmount > 0) {
+        const check = await checkCreditTender(creditAmount)
+        if (!check.ok) return
+        creditOverride = check.override
+      }
+      const discountAuth = await authorizeOrderDiscount()
+      if (!discountAuth.ok) return
+
       if (selectedTableId && selectedTable && (selectedTable.status === 'DISPONIBLE' || selectedTable.status === 'OCUPADA')) {
         // Table flow: open if needed, add items, then pay
         if (selectedTable.status === 'DISPONIBLE') {
@@ -1003,118 +2148,297 @@ const POSPage = () => {
             productId: item.id,
             quantity: item.quantity,
             unitPrice: item.price,
+            discountAmount: getLineDiscountAmount(item),
+            discountReason: item.discount?.reason || item.promotion?.name,
+            discountAuthorizationId: item.discount?.authorizationId,
+            promotionId: item.promotion?.promotionId,
+            priceOverride: item.priceOverride ? { originalPrice: item.priceOverride.originalPrice, reason: item.priceOverride.reason } : undefined,
             notes: item.notes || undefined,
+            modifiers: item.modifiers,
           }))
         })
 
         const result = await tableService.payTable(selectedTableId, {
-          paymentMethod: paymentMethod,
-          amountReceived: parseFloat(amountReceived),
+          paymentMethod: resolvePaymentMethod(payments),
+          payments,
+          amountReceived: tenderSummary.paid,
           discountPercent: (discountType === 'percent' ? discount : 0) + totalDiscountPercent,
-          serviceChargePercent: includeServiceCharge ? 10 : 0,
+          serviceChargePercent: includeServiceCharge ? serviceChargePercent : 0,
           deliveryChargeAmount: includeDelivery ? deliveryCharge : 0,
           notes: notes || undefined,
+          creditOverride: creditOverride || undefined,
+          cashSessionId: cashSession?.id,
+          discountAuthorizationId: discountAuth.authorizationId,
+          loyaltyPointsRedeemed,
+          couponCode,
+          priceListId: activePriceList?.id,
+          tipAmount: tipAmount || undefined,
+          tipDistribution,
         })
 
         const invoiceDetail = await invoiceService.getById((result as any).id)
-        setCompletedInvoice(invoiceDetail)
+        setCompletedInvoice({ ...(invoiceDetail as any), tableName: selectedTable.name || t('tables.reference', { number: selectedTable.tableNumber }) })
         dispatch(clearCart())
         setSelectedTableId(null)
+        setLoyaltyPoints(0)
+        setCoupon(null)
         setShowPaymentModal(false)
         setShowInvoiceConfirmModal(true)
         fetchData()
         fetchTables()
       } else {
         // Normal POS sale (no table)
-        const saleRequest = {
+        const saleRequest: CreateSaleRequest = {
           customerId: customerId,
-          paymentMethod: paymentMethod,
+          paymentMethod: resolvePaymentMethod(payments),
+          payments,
           discountPercent: (discountType === 'percent' ? discount : 0) + totalDiscountPercent,
-          serviceChargePercent: includeServiceCharge ? 10 : 0,
+          serviceChargePercent: includeServiceCharge ? serviceChargePercent : 0,
           deliveryChargeAmount: includeDelivery ? deliveryCharge : 0,
-          amountReceived: parseFloat(amountReceived),
+          amountReceived: tenderSummary.paid,
           notes: notes,
+          creditOverride: creditOverride || undefined,
+          cashSessionId: cashSession?.id,
+          discountAuthorizationId: discountAuth.authorizationId,
+          loyaltyPointsRedeemed,
+          couponCode,
+          priceListId: activePriceList?.id,
+          tipAmount: tipAmount || undefined,
+          tipDistribution,
+          clientReference: newClientReference(),
           details: items.map(item => ({
             productId: item.id,
             quantity: item.quantity,
             unitPrice: item.price,
-            discountAmount: 0,
-            notes: item.notes || undefined
+            discountAmount: getLineDiscountAmount(item),
+            discountReason: item.discount?.reason || item.promotion?.name,
+            discountAuthorizationId: item.discount?.authorizationId,
+            promotionId: item.promotion?.promotionId,
+            priceOverride: item.priceOverride ? { originalPrice: item.priceOverride.originalPrice, reason: item.priceOverride.reason } : undefined,
+            notes: item.notes || undefined,
+            modifiers: item.modifiers,
           }))
         }
 
-        const result = await invoiceService.createSale(saleRequest)
+        let result
+        try {
+          result = await invoiceService.createSale(saleRequest)
+        } catch (error: any) {
+          if (!isNetworkError(error)) throw error
+          // Sin conexión no se puede validar ni registrar la cartera del cliente
+          if (creditAmount > 0) {
+            toast.error(t('pos.creditNeedsConnection'))
+            return
+          }
+          // El saldo de la tarjeta solo se puede descontar en el servidor
+          if (payments.some((p) => p.paymentMethod === GIFT_CARD_PAYMENT_METHOD.value)) {
+            toast.error(t('pos.giftCardNeedsConnection'))
+            return
+          }
+          if (loyaltyPointsRedeemed) {
+            toast.error(t('pos.pointsNeedConnection'))
+            return
+          }
+          if (couponCode) {
+            toast.error(t('pos.couponNeedsConnection'))
+            return
+          }
+          await queueSaleOffline(saleRequest, payments, finalTotal, tenderSummary.paid, tenderSummary.change)
+          return
+        }
         const invoiceDetail = await invoiceService.getById((result as any).id)
         setCompletedInvoice(invoiceDetail)
         dispatch(clearCart())
+        setLoyaltyPoints(0)
+        setCoupon(null)
         setShowPaymentModal(false)
         setShowInvoiceConfirmModal(true)
         fetchData()
       }
     } catch (error: any) {
       console.error('Error processing sale:', error)
-      toast.error(error.response?.data?.message || 'Error al procesar la venta')
+      toast.error(error.response?.data?.message || t('pos.saleError'))
     } finally {
       setProcessing(false)
     }
   }
 
-  const getPaymentMethodLabel = (method: string) => {
-    switch (method) {
-      case 'EFECTIVO': return 'Efectivo'
-      case 'TRANSFERENCIA': return 'Transferencia'
-      case 'TARJETA_CREDITO': return 'Tarjeta Crédito'
-      case 'TARJETA_DEBITO': return 'Tarjeta Débito'
-      default: return method
+  // Sin conexión la venta se guarda en IndexedDB con número provisional y se imprime igual
+  const queueSaleOffline = async (
+    request: CreateSaleRequest,
+    payments: PaymentLine[],
+    finalTotal: number,
+    amountReceived: number,
+    changeAmount: number,
+  ) => {
+    const provisionalNumber = nextProvisionalNumber()
+    const createdAt = new Date().toISOString()
+    const combinedDiscountPercent = (discountType === 'percent' ? discount : 0) + totalDiscountPercent
+    const receipt: OfflineSaleReceipt = {
+      invoiceNumber: provisionalNumber,
+      createdAt,
+      customerName,
+      userName: user?.fullName,
+      details: items.map(item => ({
+        productId: item.id,
+        quantity: item.quantity,
+        productName: item.name,
+        subtotal: getLineTotal(item),
+        notes: item.notes,
+        modifiers: item.modifiers,
+        discountAmount: getLineDiscountAmount(item),
+        discountReason: item.discount?.reason || item.promotion?.name,
+      })),
+      subtotal: subtotal - lineDiscountAmount,
+      discountAmount: discountAmount + (total * totalDiscountPercent) / 100,
+      discountPercent: combinedDiscountPercent > 0 ? combinedDiscountPercent : undefined,
+      serviceChargeAmount: includeServiceCharge ? (total * serviceChargePercent) / 100 : 0,
+      serviceChargePercent: includeServiceCharge ? serviceChargePercent : 0,
+      deliveryChargeAmount: includeDelivery ? deliveryCharge : 0,
+      taxAmount: taxAmount * (1 - totalDiscountPercent / 100),
+      taxBreakdown: scaleTaxBreakdown(taxBreakdown, 1 - totalDiscountPercent / 100),
+      pricesIncludeTax,
+      total: finalTotal,
+      paymentMethod: request.paymentMethod,
+      payments,
+      amountReceived,
+      changeAmount,
+      tipAmount: request.tipAmount,
     }
+    await dispatch(queueOfflineSale({
+      id: provisionalNumber,
+      request,
+      receipt,
+      status: 'PENDIENTE',
+      attempts: 0,
+      createdAt,
+    })).unwrap()
+    setCompletedInvoice({ ...receipt, offline: true })
+    dispatch(clearCart())
+    setShowPaymentModal(false)
+    setShowInvoiceConfirmModal(true)
+    toast(t('pos.savedOfflineToast'), { icon: '📴' })
+  }
+
+  const openPaymentModal = (method: string) => {
+    setTenders([createTenderLine(method, Math.round(getFinalTotal()))])
+    setTip(createTipInput(getDefaultTipStaff()))
+    // La tasa puede haberse fijado en otra terminal después de cargar el POS
+    if (foreignCurrencies.length > 0) fetchExchangeRates()
+    setShowPaymentModal(true)
   }
 
   const handlePrintInvoice = () => {
     if (!completedInvoice) return
-    printInvoice(completedInvoice)
+    printInvoice(completedInvoice, {
+      isProvisional: !!completedInvoice.offline,
+      openDrawer: getInvoicePayments(completedInvoice).some((p) => p.paymentMethod === 'EFECTIVO'),
+    }).catch(() => toast.error(t('receipt.printFailed')))
   }
 
   const handlePrintPreBill = () => {
-    const serviceChargeAmount = includeServiceCharge ? total * 0.10 : 0
+    const serviceChargeAmount = includeServiceCharge ? (total * serviceChargePercent) / 100 : 0
     const deliveryAmount = includeDelivery ? deliveryCharge : 0
     const totalDiscountAmount = (total * totalDiscountPercent) / 100
-    const finalTotal = total + serviceChargeAmount + deliveryAmount - totalDiscountAmount
+    const loyalty = getLoyaltyRedemption()
+    const loyaltyAmount = loyalty?.amount || 0
+    const appliedCoupon = getAppliedCoupon()
+    const couponAmount = appliedCoupon?.amount || 0
+    const taxFactor = 1 - totalDiscountPercent / 100 - (total > 0 ? (loyaltyAmount + couponAmount) / total : 0)
+    const finalTotal = getFinalTotal()
     const combinedDiscountPercent = (discountType === 'percent' ? discount : 0) + totalDiscountPercent
     
     printInvoice({
-      invoiceNumber: 'PRE-CUENTA',
+      invoiceNumber: t('tables.preBillNumber'),
       createdAt: new Date().toISOString(),
       customerName: customerName,
+      tableName: selectedTable ? selectedTable.name || t('tables.reference', { number: selectedTable.tableNumber }) : undefined,
       details: items.map(item => ({
         quantity: item.quantity,
         productName: item.name,
-        subtotal: item.price * item.quantity,
+        subtotal: getLineTotal(item),
         notes: item.notes,
+        modifiers: item.modifiers,
+        discountAmount: getLineDiscountAmount(item),
+        discountReason: item.discount?.reason || item.promotion?.name,
       })),
-      subtotal,
+      subtotal: subtotal - lineDiscountAmount,
       discountAmount: discountAmount + totalDiscountAmount,
       discountPercent: combinedDiscountPercent > 0 ? combinedDiscountPercent : undefined,
       serviceChargeAmount: serviceChargeAmount,
-      serviceChargePercent: includeServiceCharge ? 10 : 0,
+      serviceChargePercent: includeServiceCharge ? serviceChargePercent : 0,
       deliveryChargeAmount: deliveryAmount,
+      loyaltyPointsRedeemed: loyalty?.points || undefined,
+      loyaltyDiscountAmount: loyaltyAmount || undefined,
+      couponCode: couponAmount > 0 ? appliedCoupon?.coupon.code : undefined,
+      couponDiscountAmount: couponAmount || undefined,
+      taxAmount: taxAmount * taxFactor,
+      taxBreakdown: scaleTaxBreakdown(taxBreakdown, taxFactor),
+      pricesIncludeTax,
       total: finalTotal,
-    }, { isPreBill: true })
+    }, { isPreBill: true }).catch(() => toast.error(t('receipt.printFailed')))
   }
 
   return (
     <div className="flex flex-col lg:flex-row lg:h-[calc(100dvh-7rem)] gap-3 lg:gap-6 animate-fade-in lg:overflow-hidden">
       {/* Left Panel - Products */}
       <div className="flex-1 min-w-0 flex flex-col lg:overflow-hidden">
+        {cashSessionChecked && !cashSession && (
+          <Link
+            to="/cash-register"
+            className="mb-3 flex items-center gap-2 px-3 py-2 rounded-xl bg-amber-50 text-amber-700 text-sm hover:bg-amber-100 transition-colors"
+          >
+            <Landmark size={16} className="flex-shrink-0" />
+            <span>{t('pos.noCashSession')} <span className="font-semibold underline">{t('pos.openCash')}</span></span>
+          </Link>
+        )}
+
         {/* Search */}
-        <div className="relative mb-3 max-w-full lg:max-w-md">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
-          <input
-            type="text"
-            placeholder="Buscar por nombre o código..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="input-field pl-10 py-2 text-sm"
-          />
+        <div className="flex items-center gap-2 mb-3">
+          <div className="relative flex-1 max-w-full lg:max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+            <input
+              ref={searchInputRef}
+              type="text"
+              placeholder={t('pos.searchProducts')}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              data-barcode-input
+              data-shortcut-input
+              className="input-field pl-10 py-2 text-sm"
+            />
+          </div>
+          {pendingQuantity && (
+            <button
+              onClick={() => setPendingQuantity(null)}
+              className="flex items-center gap-1 px-3 py-2 rounded-xl bg-primary-600 text-white text-sm font-bold"
+              title={t('pos.pendingQuantityHint')}
+            >
+              x{pendingQuantity}
+              <X size={14} />
+            </button>
+          )}
+          <button
+            onClick={() => setShowGiftCardModal(true)}
+            className="p-2 rounded-xl text-gray-500 hover:bg-pink-50 hover:text-pink-600 transition-colors"
+            title={t('giftCardSale.sellTitle')}
+          >
+            <Gift size={20} />
+          </button>
+          <button
+            onClick={() => openCustomerDisplay()}
+            className="p-2 rounded-xl text-gray-500 hover:bg-primary-50 hover:text-primary-600 transition-colors"
+            title={t('pos.openCustomerDisplay')}
+          >
+            <Monitor size={20} />
+          </button>
+          <button
+            onClick={() => setShowShortcutsHelp(true)}
+            className="p-2 rounded-xl text-gray-500 hover:bg-primary-50 hover:text-primary-600 transition-colors"
+            title={t('pos.shortcutsHint', { key: shortcuts.help })}
+          >
+            <Keyboard size={20} />
+          </button>
         </div>
 
         <CategoriesPanel
@@ -1141,14 +2465,13 @@ const POSPage = () => {
             </div>
           ) : filteredProducts.length === 0 ? (
             <div className="h-full flex items-center justify-center text-gray-400">
-              <p>No se encontraron productos</p>
+              <p>{t('products.empty')}</p>
             </div>
           ) : (
             <div className={`grid ${gridClasses[cardSize]} gap-4`}>
               {filteredProducts.map((product) => {
                 const stock = product.inventory?.quantity || 0
-                const cartItem = items.find(i => i.id === product.id)
-                const cartQty = cartItem?.quantity || 0
+                const cartQty = getCartQuantity(product.id)
                 const availableStock = stock - cartQty
                 const isOutOfStock = availableStock <= 0
 
@@ -1157,15 +2480,10 @@ const POSPage = () => {
                     key={product.id}
                     onClick={() => {
                       if (isOutOfStock) {
-                        toast.error(`Sin stock disponible para ${product.name}`)
+                        toast.error(t('pos.outOfStock', { name: product.name }))
                         return
                       }
-                      dispatch(addItem({ 
-                        id: product.id, 
-                        code: product.code, 
-                        name: product.name, 
-                        price: product.salePrice 
-                      }))
+                      handleProductClick(product)
                     }}
                     disabled={stock === 0}
                     className={`bg-white rounded-2xl shadow-sm hover:shadow-md border border-gray-200 p-4 text-left transition-all duration-200 ${
@@ -1182,19 +2500,19 @@ const POSPage = () => {
                     <p className="text-[11px] text-gray-400 mb-0.5 font-mono">{product.code}</p>
                     <p className="font-semibold text-gray-800 text-sm line-clamp-2 mb-2 leading-snug">{product.name}</p>
                     <div className="flex items-center justify-between mt-auto">
-                      <p className="text-primary-600 font-bold text-base">{formatCurrency(product.salePrice)}</p>
+                      <p className="text-primary-600 font-bold text-base">{formatCurrency(getListPrice(activePriceList, product))}</p>
                       <span className={`text-[11px] px-2.5 py-1 rounded-full font-medium ${
                         stock === 0 ? 'bg-red-100 text-red-700 border border-red-200' :
                         stock <= (product.inventory?.minStock || 5) ? 'bg-amber-50 text-amber-700 border border-amber-200' :
                         'bg-green-50 text-green-700 border border-green-200'
                       }`}>
-                        {stock === 0 ? 'Agotado' : `${stock} uds`}
+                        {stock === 0 ? t('pos.soldOut') : t('pos.stockUnits', { count: stock })}
                       </span>
                     </div>
                     {cartQty > 0 && (
                       <div className="mt-2 flex items-center justify-center">
                         <span className="text-xs bg-primary-100 text-primary-700 px-2.5 py-0.5 rounded-full font-semibold">
-                          {cartQty} en carrito
+                          {t('pos.inCart', { count: cartQty })}
                         </span>
                       </div>
                     )}
@@ -1238,8 +2556,30 @@ const POSPage = () => {
           <div className="flex items-center justify-between mb-3">
             <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
               <ShoppingCart size={20} />
-              Carrito
+              {t('pos.cart')}
             </h2>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setShowParkModal(true)}
+                disabled={items.length === 0}
+                className="p-1.5 rounded-lg text-gray-500 hover:bg-amber-50 hover:text-amber-600 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                title={t('pos.park')}
+              >
+                <PauseCircle size={18} />
+              </button>
+              <button
+                onClick={() => setShowParkedModal(true)}
+                className="relative p-1.5 rounded-lg text-gray-500 hover:bg-primary-50 hover:text-primary-600 transition-colors"
+                title={t('pos.parkedTickets')}
+              >
+                <ListOrdered size={18} />
+                {parked.length > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[16px] h-4 bg-amber-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center px-1">
+                    {parked.length}
+                  </span>
+                )}
+              </button>
+            </div>
             <button
               onClick={() => setShowCustomerModal(true)}
               className="flex items-center gap-2 px-3 py-1.5 text-sm bg-primary-50 text-primary-600 rounded-lg hover:bg-primary-100 transition-colors"
@@ -1257,7 +2597,16 @@ const POSPage = () => {
             {customerId !== null && (
               <span className="text-xs text-gray-400">(ID: {customerId})</span>
             )}
-            <span className="text-xs text-primary-500">(cambiar)</span>
+            {loyaltyConfig.enabled && selectedCustomer && (
+              <span className="flex items-center gap-0.5 text-xs text-yellow-700">
+                <Award size={12} />
+                {t('sale.points', { points: selectedCustomer.loyaltyPoints || 0 })}
+              </span>
+            )}
+            {activePriceList && !activePriceList.isDefault && (
+              <span className="text-xs px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700">{activePriceList.name}</span>
+            )}
+            <span className="text-xs text-primary-500">{t('pos.changeHint')}</span>
           </button>
           {/* Table selector */}
           {tables.length > 0 && (
@@ -1271,8 +2620,8 @@ const POSPage = () => {
                 }`}
               >
                 <UtensilsCrossed size={16} />
-                <span>{selectedTable ? `Mesa #${selectedTable.tableNumber} - ${selectedTable.name}` : 'Sin mesa (venta directa)'}</span>
-                <span className="text-xs text-primary-500">(cambiar)</span>
+                <span>{selectedTable ? `${t('tables.tableNumber', { number: selectedTable.tableNumber })} - ${selectedTable.name}` : t('pos.noTable')}</span>
+                <span className="text-xs text-primary-500">{t('pos.changeHint')}</span>
               </button>
               {showTableSelector && (
                 <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-xl shadow-lg z-30 max-h-48 overflow-y-auto">
@@ -1282,21 +2631,21 @@ const POSPage = () => {
                       !selectedTableId ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700'
                     }`}
                   >
-                    Sin mesa (venta directa)
+                    {t('pos.noTable')}
                   </button>
-                  {tables.filter(t => t.status === 'DISPONIBLE' || t.status === 'OCUPADA').map(t => (
+                  {tables.filter(table => table.status === 'DISPONIBLE' || table.status === 'OCUPADA').map(table => (
                     <button
-                      key={t.id}
-                      onClick={() => { setSelectedTableId(t.id); setShowTableSelector(false) }}
+                      key={table.id}
+                      onClick={() => { setSelectedTableId(table.id); setShowTableSelector(false) }}
                       className={`w-full text-left px-3 py-2 text-sm hover:bg-primary-50 transition-colors flex items-center justify-between ${
-                        selectedTableId === t.id ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700'
+                        selectedTableId === table.id ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700'
                       }`}
                     >
-                      <span>Mesa #{t.tableNumber} - {t.name}</span>
+                      <span>{t('tables.tableNumber', { number: table.tableNumber })} - {table.name}</span>
                       <span className={`text-xs px-1.5 py-0.5 rounded-full ${
-                        t.status === 'DISPONIBLE' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                        table.status === 'DISPONIBLE' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
                       }`}>
-                        {t.status === 'DISPONIBLE' ? 'Libre' : 'Ocupada'}
+                        {table.status === 'DISPONIBLE' ? t('tables.status.available') : t('tables.status.occupied')}
                       </span>
                     </button>
                   ))}
@@ -1310,31 +2659,62 @@ const POSPage = () => {
         <div className="flex-1 overflow-y-auto p-4 space-y-3">
           {items.length === 0 ? (
             <div className="h-full flex items-center justify-center text-gray-400">
-              <p>Carrito vacío</p>
+              <p>{t('pos.emptyCart')}</p>
             </div>
           ) : (
             items.map((item) => {
               const product = products.find(p => p.id === item.id)
               const maxStock = product?.inventory?.quantity || 0
-              const canIncrement = item.quantity < maxStock
+              const canIncrement = getCartQuantity(item.id) < maxStock
+              // Siguiente precio por volumen de la lista, para sugerirlo al cajero
+              const nextBreak = getQuantityBreaks(activePriceList, item.id).find((b) => b.minQuantity > getCartQuantity(item.id))
 
               return (
-                <div key={item.id} className="flex items-center gap-3 p-3 bg-primary-50 rounded-xl">
+                <div key={item.lineId} className={`flex items-center gap-3 p-3 bg-primary-50 rounded-xl ${item.discount || item.promotion ? 'border-l-4 border-green-400' : item.priceOverride ? 'border-l-4 border-amber-400' : ''}`}>
                   <div className="flex-1">
                     <p className="font-medium text-gray-800 text-sm">{item.name}</p>
-                    <p className="text-primary-600 font-semibold">{formatCurrency(item.price)}</p>
-                    <p className="text-xs text-gray-400">Stock: {maxStock}</p>
+                    {item.modifiers && item.modifiers.length > 0 && (
+                      <p className="text-xs text-primary-500">{formatModifiers(item.modifiers)}</p>
+                    )}
+                    {item.discount || item.promotion ? (
+                      <div className="flex items-baseline gap-2">
+                        <p className="text-primary-600 font-semibold">{formatCurrency(getLineTotal(item))}</p>
+                        <p className="text-xs text-gray-400 line-through">{formatCurrency(getLineGross(item))}</p>
+                      </div>
+                    ) : (
+                      <p className="text-primary-600 font-semibold">{formatCurrency(item.price)}</p>
+                    )}
+                    {item.discount && (
+                      <p className="text-xs text-green-600">
+                        -{item.discount.type === 'percent' ? `${item.discount.value}%` : formatCurrency(item.discount.value)} · {item.discount.reason}
+                      </p>
+                    )}
+                    {item.promotion && (
+                      <p className="flex items-center gap-1 text-xs text-green-600">
+                        <Gift size={12} />
+                        {item.promotion.name} · -{formatCurrency(item.promotion.amount)}
+                      </p>
+                    )}
+                    {item.priceOverride && (
+                      <p className="text-xs text-amber-600">
+                        {t('pos.priceChanged', { price: formatCurrency(item.priceOverride.originalPrice), reason: item.priceOverride.reason })}
+                      </p>
+                    )}
+                    {nextBreak && !item.priceOverride && (
+                      <p className="text-xs text-indigo-600">{t('pos.quantityBreak', { quantity: nextBreak.minQuantity, price: formatCurrency(nextBreak.price) })}</p>
+                    )}
+                    <p className="text-xs text-gray-400">{t('pos.stock', { count: maxStock })}</p>
                     <input
                       type="text"
-                      placeholder="Ej: sin cebolla, salsa extra..."
+                      placeholder={t('sale.itemNotesPlaceholder')}
                       value={item.notes || ''}
-                      onChange={(e) => dispatch(updateItemNotes({ id: item.id, notes: e.target.value }))}
+                      onChange={(e) => dispatch(updateItemNotes({ lineId: item.lineId, notes: e.target.value }))}
                       className="mt-1 w-full text-xs px-2 py-1 border border-gray-200 rounded-lg focus:border-primary-400 focus:ring-1 focus:ring-primary-200 placeholder-gray-300"
                     />
                   </div>
                   <div className="flex items-center gap-2">
                     <button
-                      onClick={() => dispatch(decrementQuantity(item.id))}
+                      onClick={() => dispatch(decrementQuantity(item.lineId))}
                       className="w-8 h-8 rounded-lg bg-white flex items-center justify-center hover:bg-primary-100"
                     >
                       <Minus size={16} />
@@ -1343,10 +2723,10 @@ const POSPage = () => {
                     <button
                       onClick={() => {
                         if (!canIncrement) {
-                          toast.error('Stock máximo alcanzado')
+                          toast.error(t('pos.maxStock'))
                           return
                         }
-                        dispatch(incrementQuantity(item.id))
+                        dispatch(incrementQuantity(item.lineId))
                       }}
                       className={`w-8 h-8 rounded-lg flex items-center justify-center ${
                         canIncrement ? 'bg-white hover:bg-primary-100' : 'bg-gray-100 text-gray-400 cursor-not-allowed'
@@ -1355,7 +2735,27 @@ const POSPage = () => {
                       <Plus size={16} />
                     </button>
                     <button
-                      onClick={() => dispatch(removeItem(item.id))}
+                      onClick={() => setDiscountLine(item)}
+                      title={t('pos.discount')}
+                      className={`w-8 h-8 rounded-lg flex items-center justify-center ${
+                        item.discount ? 'bg-green-100 text-green-600 hover:bg-green-200' : 'bg-white text-gray-500 hover:bg-primary-100'
+                      }`}
+                    >
+                      <Tag size={16} />
+                    </button>
+                    {canOverridePrice && (
+                      <button
+                        onClick={() => setPriceLine(item)}
+                        title={t('pos.changePrice')}
+                        className={`w-8 h-8 rounded-lg flex items-center justify-center ${
+                          item.priceOverride ? 'bg-amber-100 text-amber-600 hover:bg-amber-200' : 'bg-white text-gray-500 hover:bg-primary-100'
+                        }`}
+                      >
+                        <DollarSign size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => dispatch(removeItem(item.lineId))}
                       className="w-8 h-8 rounded-lg bg-red-50 text-red-500 flex items-center justify-center hover:bg-red-100"
                     >
                       <Trash2 size={16} />
@@ -1370,17 +2770,24 @@ const POSPage = () => {
         {/* Totals */}
         <div className="p-4 border-t border-primary-100 space-y-2">
           <div className="flex justify-between text-sm">
-            <span className="text-gray-500">Subtotal ({itemCount} items)</span>
+            <span className="text-gray-500">{t('pos.subtotalItems', { count: itemCount })}</span>
             <span className="font-medium">{formatCurrency(subtotal)}</span>
           </div>
+          {lineDiscountAmount > 0 && (
+            <div className="flex justify-between text-sm text-green-600">
+              <span>{t('pos.lineDiscounts')}</span>
+              <span>-{formatCurrency(lineDiscountAmount)}</span>
+            </div>
+          )}
           {discountAmount > 0 && (
             <div className="flex justify-between text-sm text-green-600">
-              <span>Descuento</span>
+              <span>{t('pos.discount')}</span>
               <span>-{formatCurrency(discountAmount)}</span>
             </div>
           )}
+          <TaxBreakdownRows breakdown={taxBreakdown} pricesIncludeTax={pricesIncludeTax} formatCurrency={formatCurrency} />
           <div className="flex justify-between text-lg font-bold pt-2 border-t border-primary-100">
-            <span>Total</span>
+            <span>{t('common.total')}</span>
             <span className="text-primary-600">{formatCurrency(total)}</span>
           </div>
         </div>
@@ -1391,26 +2798,18 @@ const POSPage = () => {
             <Button 
               variant="secondary" 
               disabled={items.length === 0}
-              onClick={() => {
-                setPaymentMethod('EFECTIVO')
-                setAmountReceived(total.toString())
-                setShowPaymentModal(true)
-              }}
+              onClick={() => openPaymentModal('EFECTIVO')}
             >
               <Banknote size={20} />
-              Efectivo
+              {t('payment.EFECTIVO')}
             </Button>
             <Button 
               variant="primary" 
               disabled={items.length === 0}
-              onClick={() => {
-                setPaymentMethod('TRANSFERENCIA')
-                setAmountReceived(total.toString())
-                setShowPaymentModal(true)
-              }}
+              onClick={() => openPaymentModal('TRANSFERENCIA')}
             >
               <CreditCard size={20} />
-              Transferencia
+              {t('payment.TRANSFERENCIA')}
             </Button>
           </div>
           {items.length > 0 && selectedTableId && selectedTable && (
@@ -1420,7 +2819,7 @@ const POSPage = () => {
               className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-amber-50 text-amber-700 border border-amber-200 rounded-xl hover:bg-amber-100 transition-colors font-medium disabled:opacity-50"
             >
               {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : <UtensilsCrossed size={20} />}
-              Enviar a Mesa #{selectedTable.tableNumber}
+              {t('pos.sendToTable', { number: selectedTable.tableNumber })}
             </button>
           )}
           {items.length > 0 && (
@@ -1428,14 +2827,14 @@ const POSPage = () => {
               variant="secondary"
               className="w-full text-red-500 border-red-200 hover:bg-red-50"
               onClick={() => {
-                if (confirm('¿Está seguro de cancelar esta venta? Se perderán todos los productos del carrito.')) {
+                if (confirm(t('pos.cancelSaleConfirm'))) {
                   dispatch(clearCart())
-                  toast.success('Venta cancelada')
+                  toast.success(t('pos.saleCancelled'))
                 }
               }}
             >
               <X size={20} />
-              Cancelar Venta
+              {t('pos.cancelSale')}
             </Button>
           )}
         </div>
@@ -1443,10 +2842,13 @@ const POSPage = () => {
 
       <PaymentModal
         show={showPaymentModal}
-        paymentMethod={paymentMethod}
         subtotal={subtotal}
+        lineDiscountAmount={lineDiscountAmount}
         discountAmount={discountAmount}
+        taxBreakdown={taxBreakdown}
+        pricesIncludeTax={pricesIncludeTax}
         total={total}
+        serviceChargePercent={serviceChargePercent}
         includeServiceCharge={includeServiceCharge}
         setIncludeServiceCharge={setIncludeServiceCharge}
         includeDelivery={includeDelivery}
@@ -1455,17 +2857,120 @@ const POSPage = () => {
         setDeliveryCharge={setDeliveryCharge}
         totalDiscountPercent={totalDiscountPercent}
         setTotalDiscountPercent={setTotalDiscountPercent}
-        amountReceived={amountReceived}
-        setAmountReceived={setAmountReceived}
+        tenders={tenders}
+        setTenders={setTenders}
+        creditAvailable={selectedCustomer ? getAvailableCredit(selectedCustomer) : null}
+        loyalty={getLoyaltyRedemption()}
+        setLoyaltyPoints={setLoyaltyPoints}
+        coupon={getAppliedCoupon()}
+        onApplyCoupon={handleApplyCoupon}
+        onRemoveCoupon={() => setCoupon(null)}
+        tip={tip}
+        setTip={setTip}
+        suggestedTipPercents={suggestedTipPercents}
+        exchangeRates={getTodayRates(exchangeRates, foreignCurrencies)}
         processing={processing}
         onClose={() => setShowPaymentModal(false)}
         onConfirm={handleConfirmSale}
         onPrintPreBill={handlePrintPreBill}
         formatCurrency={formatCurrency}
-        items={items}
-        customerName={customerName}
       />
 
+      <ModifierSelectorModal
+        product={modifierProduct}
+        onClose={() => { setModifierProduct(null); setModifierQuantity(null) }}
+        onConfirm={handleConfirmModifiers}
+        formatCurrency={formatCurrency}
+      />
+
+      <LineDiscountModal
+        item={discountLine}
+        reasons={discountReasons}
+        onClose={() => setDiscountLine(null)}
+        onApply={(discount) => discountLine && handleApplyLineDiscount(discountLine, discount)}
+        formatCurrency={formatCurrency}
+      />
+
+      <SupervisorAuthModal {...supervisorAuth.modalProps} />
+
+      <LinePriceModal
+        target={openPriceItem ? {
+          mode: 'open',
+          name: openPriceItem.product.name,
+          quantity: pendingQuantity || 1,
+          listPrice: openPriceItem.product.salePrice,
+          currentPrice: openPriceItem.product.salePrice,
+        } : priceLine ? {
+          mode: 'override',
+          name: priceLine.name,
+          quantity: priceLine.quantity,
+          listPrice: priceLine.priceOverride?.originalPrice ?? priceLine.price,
+          currentPrice: priceLine.price,
+          hasOverride: !!priceLine.priceOverride,
+        } : null}
+        reasons={discountReasons}
+        onClose={() => { setOpenPriceItem(null); setPriceLine(null) }}
+        onApply={(price, reason) => (openPriceItem ? handleConfirmOpenPrice(price) : handleOverridePrice(price, reason))}
+        onRestore={() => {
+          if (priceLine?.priceOverride) {
+            dispatch(setItemPrice({ lineId: priceLine.lineId, price: priceLine.priceOverride.originalPrice, override: null }))
+          }
+          setPriceLine(null)
+        }}
+        formatCurrency={formatCurrency}
+      />
+
+      <ParkedTicketsModal
+        show={showParkedModal}
+        parked={parked}
+        hasCurrentItems={items.length > 0}
+        onClose={() => setShowParkedModal(false)}
+        onResume={handleResumeTicket}
+        onRemove={(id) => {
+          if (confirm(t('pos.removeParkedConfirm'))) {
+            dispatch(removeParkedTicket(id))
+          }
+        }}
+        formatCurrency={formatCurrency}
+      />
+
+      <GiftCardSaleModal
+        show={showGiftCardModal}
+        customer={customerId ? { id: customerId, name: customerName } : null}
+        onClose={() => setShowGiftCardModal(false)}
+        onCompleted={() => setShowGiftCardModal(false)}
+        formatCurrency={formatCurrency}
+      />
+
+      <ShortcutsHelpModal isOpen={showShortcutsHelp} bindings={shortcuts} onClose={() => setShowShortcutsHelp(false)} />
+
+      {showParkModal && (
+        <div className="modal-overlay">
+          <div className="modal-content p-6 animate-scale-in">
+            <h3 className="text-xl font-bold text-gray-800 mb-4">{t('pos.parkTitle')}</h3>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('pos.parkLabel')}</label>
+            <input
+              type="text"
+              value={parkLabel}
+              onChange={(e) => setParkLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleParkTicket()}
+              placeholder={customerId ? customerName : t('pos.ticketNumber', { number: parked.length + 1 })}
+              className="input-field"
+              autoFocus
+            />
+            <div className="flex gap-3 mt-6">
+              <Button variant="secondary" className="flex-1" onClick={() => { setShowParkModal(false); setParkLabel('') }}>
+                {t('common.cancel')}
+              </Button>
+              <Button className="flex-1" onClick={handleParkTicket}>
+                <PauseCircle size={20} />
+                {t('pos.park')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <CustomerSelectionModal
         show={showCustomerModal}
         customerId={customerId}
@@ -1478,6 +2983,7 @@ const POSPage = () => {
         }}
         onSelectCustomer={selectCustomer}
         onOpenNewCustomer={() => setShowNewCustomerModal(true)}
+        showLoyalty={loyaltyConfig.enabled}
       />
 
       <NewCustomerModal
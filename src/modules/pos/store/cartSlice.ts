@@ -1,16 +1,76 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import { PriceOverride, SelectedModifier, TaxType } from '@/types'
+import { getModifiersKey } from '@/shared/utils/modifiers'
+import { computeTaxes } from '@/shared/utils/taxes'
+import { AppliedPromotion } from '@/shared/utils/promotions'
+
+export interface LineDiscount {
+  type: 'percent' | 'amount'
+  /** Porcentaje, o valor fijo sobre el total de la línea (no por unidad) */
+  value: number
+  reason: string
+  /** Aprobación del supervisor cuando el descuento supera el máximo sin autorización */
+  authorizationId?: number
+}
 
 export interface CartItem {
+  /** Identificador de la línea; `id` es el producto y puede repetirse con distintos modificadores */
+  lineId: string
   id: number
   code: string
   name: string
+  /** Precio unitario, ya incluye los deltas de los modificadores */
   price: number
   quantity: number
+  /** Unidad del producto; en KG la cantidad es el peso y puede ser decimal */
+  unit?: string
   imageUrl?: string
   notes?: string
+  modifiers?: SelectedModifier[]
+  discount?: LineDiscount
+  /** Tarifa del producto; si falta se usa la de la empresa */
+  taxRate?: number
+  taxType?: TaxType
+  /** Producto de precio abierto: `price` lo digitó el cajero */
+  openPrice?: boolean
+  /** Cambio manual del precio de lista, con quién y por qué */
+  priceOverride?: PriceOverride
+  /** Promoción automática que alcanzó la línea; la recalcula el POS con cada cambio */
+  promotion?: AppliedPromotion
 }
 
-interface CartState {
+export const getLineGross = (item: CartItem) => item.price * item.quantity
+
+/** Descuento manual de la línea en pesos */
+const getManualDiscountAmount = (item: CartItem) => {
+  if (!item.discount || item.discount.value <= 0) return 0
+  const gross = getLineGross(item)
+  return item.discount.type === 'percent' ? gross * (item.discount.value / 100) : item.discount.value
+}
+
+/** Descuento de la línea en pesos (manual + promoción); nunca supera el valor de la línea */
+export const getLineDiscountAmount = (item: CartItem) =>
+  Math.min(getLineGross(item), getManualDiscountAmount(item) + (item.promotion?.amount || 0))
+
+/**
+ * Descuento manual de la línea como porcentaje del bruto, para compararlo con el máximo
+ * permitido; las promociones no requieren autorización
+ */
+export const getLineDiscountPercent = (item: CartItem) => {
+  const gross = getLineGross(item)
+  return gross > 0 ? (Math.min(gross, getManualDiscountAmount(item)) / gross) * 100 : 0
+}
+
+export const getLineTotal = (item: CartItem) => getLineGross(item) - getLineDiscountAmount(item)
+
+let lineSeq = 0
+const newLineId = () => `l-${Date.now()}-${lineSeq++}`
+
+// Carritos guardados antes de existir las líneas no traen lineId
+const withLineIds = (items: CartItem[] = []) =>
+  items.map((item) => (item.lineId ? item : { ...item, lineId: newLineId() }))
+
+interface TicketData {
   items: CartItem[]
   customerId: number | null
   customerName: string
@@ -19,7 +79,20 @@ interface CartState {
   notes: string
 }
 
-const initialState: CartState = {
+export interface ParkedTicket extends TicketData {
+  id: string
+  label: string
+  parkedAt: string
+}
+
+interface CartState extends TicketData {
+  /** Tickets en espera del usuario actual */
+  parked: ParkedTicket[]
+  /** Usuario dueño del carrito y de los tickets en espera */
+  ownerId: number | null
+}
+
+const emptyTicket: TicketData = {
   items: [],
   customerId: null,
   customerName: 'Cliente General',
@@ -28,63 +101,201 @@ const initialState: CartState = {
   notes: '',
 }
 
+const STORAGE_PREFIX = 'pos_cart_'
+
+const loadFromStorage = (userId: number): Partial<CartState> => {
+  try {
+    const saved = localStorage.getItem(`${STORAGE_PREFIX}${userId}`)
+    return saved ? JSON.parse(saved) : {}
+  } catch {
+    return {}
+  }
+}
+
+// Se persiste por usuario para que el ticket actual y los aparcados sobrevivan a recargas
+const saveToStorage = (state: CartState) => {
+  if (state.ownerId == null) return
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${state.ownerId}`, JSON.stringify({
+      items: state.items,
+      customerId: state.customerId,
+      customerName: state.customerName,
+      discount: state.discount,
+      discountType: state.discountType,
+      notes: state.notes,
+      parked: state.parked,
+    }))
+  } catch (e) {
+    console.error('Error saving cart:', e)
+  }
+}
+
+const takeTicket = (state: CartState): TicketData => ({
+  items: state.items,
+  customerId: state.customerId,
+  customerName: state.customerName,
+  discount: state.discount,
+  discountType: state.discountType,
+  notes: state.notes,
+})
+
+const setTicket = (state: CartState, ticket: TicketData) => {
+  state.items = ticket.items
+  state.customerId = ticket.customerId
+  state.customerName = ticket.customerName
+  state.discount = ticket.discount
+  state.discountType = ticket.discountType
+  state.notes = ticket.notes
+}
+
+const parkCurrent = (state: CartState, label?: string) => {
+  state.parked.push({
+    ...takeTicket(state),
+    id: `p-${Date.now()}`,
+    label: label?.trim() || (state.customerId ? state.customerName : `Ticket ${state.parked.length + 1}`),
+    parkedAt: new Date().toISOString(),
+  })
+}
+
+const initialState: CartState = {
+  ...emptyTicket,
+  parked: [],
+  ownerId: null,
+}
+
 const cartSlice = createSlice({
   name: 'cart',
   initialState,
   reducers: {
-    addItem: (state, action: PayloadAction<Omit<CartItem, 'quantity'> & { quantity?: number }>) => {
-      const existingItem = state.items.find((item) => item.id === action.payload.id)
+    addItem: (state, action: PayloadAction<Omit<CartItem, 'quantity' | 'lineId'> & { quantity?: number }>) => {
+      const key = getModifiersKey(action.payload.modifiers)
+      // Los productos de precio abierto solo se unen con el mismo precio; los demás los
+      // reprecia la lista de precios, así que el precio no distingue líneas
+      const existingItem = state.items.find((item) =>
+        item.id === action.payload.id &&
+        getModifiersKey(item.modifiers) === key &&
+        (!action.payload.openPrice || item.price === action.payload.price) &&
+        !item.priceOverride
+      )
       if (existingItem) {
         existingItem.quantity += action.payload.quantity || 1
       } else {
-        state.items.push({ ...action.payload, quantity: action.payload.quantity || 1 })
+        state.items.push({ ...action.payload, lineId: newLineId(), quantity: action.payload.quantity || 1 })
       }
+      saveToStorage(state)
     },
-    removeItem: (state, action: PayloadAction<number>) => {
-      state.items = state.items.filter((item) => item.id !== action.payload)
+    removeItem: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter((item) => item.lineId !== action.payload)
+      saveToStorage(state)
     },
-    updateQuantity: (state, action: PayloadAction<{ id: number; quantity: number }>) => {
-      const item = state.items.find((item) => item.id === action.payload.id)
+    updateQuantity: (state, action: PayloadAction<{ lineId: string; quantity: number }>) => {
+      const item = state.items.find((item) => item.lineId === action.payload.lineId)
       if (item) {
-        item.quantity = Math.max(1, action.payload.quantity)
+        if (item.unit === 'KG') {
+          if (action.payload.quantity > 0) item.quantity = action.payload.quantity
+        } else {
+          item.quantity = Math.max(1, action.payload.quantity)
+        }
       }
+      saveToStorage(state)
     },
-    incrementQuantity: (state, action: PayloadAction<number>) => {
-      const item = state.items.find((item) => item.id === action.payload)
+    incrementQuantity: (state, action: PayloadAction<string>) => {
+      const item = state.items.find((item) => item.lineId === action.payload)
       if (item) {
         item.quantity += 1
       }
+      saveToStorage(state)
     },
-    decrementQuantity: (state, action: PayloadAction<number>) => {
-      const item = state.items.find((item) => item.id === action.payload)
+    decrementQuantity: (state, action: PayloadAction<string>) => {
+      const item = state.items.find((item) => item.lineId === action.payload)
       if (item && item.quantity > 1) {
         item.quantity -= 1
       }
+      saveToStorage(state)
     },
     setCustomer: (state, action: PayloadAction<{ id: number | null; name: string }>) => {
       state.customerId = action.payload.id
       state.customerName = action.payload.name
+      saveToStorage(state)
     },
     setDiscount: (state, action: PayloadAction<{ discount: number; type: 'percent' | 'amount' }>) => {
       state.discount = action.payload.discount
       state.discountType = action.payload.type
+      saveToStorage(state)
     },
     setNotes: (state, action: PayloadAction<string>) => {
       state.notes = action.payload
+      saveToStorage(state)
     },
-    updateItemNotes: (state, action: PayloadAction<{ id: number; notes: string }>) => {
-      const item = state.items.find((item) => item.id === action.payload.id)
+    updateItemNotes: (state, action: PayloadAction<{ lineId: string; notes: string }>) => {
+      const item = state.items.find((item) => item.lineId === action.payload.lineId)
       if (item) {
         item.notes = action.payload.notes
       }
+      saveToStorage(state)
+    },
+    setItemDiscount: (state, action: PayloadAction<{ lineId: string; discount: LineDiscount | null }>) => {
+      const item = state.items.find((item) => item.lineId === action.payload.lineId)
+      if (item) {
+        item.discount = action.payload.discount || undefined
+      }
+      saveToStorage(state)
+    },
+    /** Cambia el precio unitario de una línea; `override: null` vuelve al precio de lista */
+    setItemPrice: (state, action: PayloadAction<{ lineId: string; price: number; override: PriceOverride | null }>) => {
+      const item = state.items.find((item) => item.lineId === action.payload.lineId)
+      if (item) {
+        item.price = Math.max(0, action.payload.price)
+        item.priceOverride = action.payload.override || undefined
+      }
+      saveToStorage(state)
+    },
+    /** Precios unitarios de la lista del cliente (incluyen los modificadores), por línea */
+    repriceItems: (state, action: PayloadAction<Record<string, number>>) => {
+      state.items.forEach((item) => {
+        const price = action.payload[item.lineId]
+        if (price != null) item.price = Math.max(0, price)
+      })
+      saveToStorage(state)
+    },
+    /** Asigna el resultado del motor de promociones; las líneas que no aparecen quedan sin promoción */
+    applyPromotions: (state, action: PayloadAction<Record<string, AppliedPromotion>>) => {
+      state.items.forEach((item) => {
+        item.promotion = action.payload[item.lineId]
+      })
+      saveToStorage(state)
     },
     clearCart: (state) => {
-      state.items = []
-      state.customerId = null
-      state.customerName = 'Cliente General'
-      state.discount = 0
-      state.discountType = 'percent'
-      state.notes = ''
+      setTicket(state, emptyTicket)
+      saveToStorage(state)
+    },
+    /** Carga el carrito y los tickets en espera del usuario que inició sesión */
+    loadUserCart: (state, action: PayloadAction<number>) => {
+      if (state.ownerId === action.payload) return
+      const saved = loadFromStorage(action.payload)
+      setTicket(state, { ...emptyTicket, ...saved, items: withLineIds(saved.items) })
+      state.parked = (saved.parked || []).map((t) => ({ ...t, items: withLineIds(t.items) }))
+      state.ownerId = action.payload
+    },
+    parkTicket: (state, action: PayloadAction<string | undefined>) => {
+      if (state.items.length === 0) return
+      parkCurrent(state, action.payload)
+      setTicket(state, emptyTicket)
+      saveToStorage(state)
+    },
+    /** Retoma un ticket en espera; si hay una venta en curso, se aparca primero */
+    resumeTicket: (state, action: PayloadAction<string>) => {
+      const ticket = state.parked.find((t) => t.id === action.payload)
+      if (!ticket) return
+      state.parked = state.parked.filter((t) => t.id !== action.payload)
+      if (state.items.length > 0) parkCurrent(state)
+      const { id: _id, label: _label, parkedAt: _parkedAt, ...data } = ticket
+      setTicket(state, data)
+      saveToStorage(state)
+    },
+    removeParkedTicket: (state, action: PayloadAction<string>) => {
+      state.parked = state.parked.filter((t) => t.id !== action.payload)
+      saveToStorage(state)
     },
   },
 })
@@ -99,22 +310,60 @@ export const {
   setDiscount,
   setNotes,
   updateItemNotes,
+  setItemDiscount,
+  setItemPrice,
+  repriceItems,
+  applyPromotions,
   clearCart,
+  loadUserCart,
+  parkTicket,
+  resumeTicket,
+  removeParkedTicket,
 } = cartSlice.actions
 
-export const selectCartTotal = (state: { cart: CartState }) => {
+interface TaxSettingsState {
+  settings: { company: { taxRate: number; pricesIncludeTax: boolean } }
+}
+
+/**
+ * Los descuentos por línea se aplican primero; el descuento del ticket se calcula
+ * sobre el neto de las líneas (igual que el backend con discountAmount + discountPercent).
+ * El impuesto se calcula después de ambos descuentos, repartiendo el del ticket por línea.
+ */
+export const selectCartTotal = (state: { cart: CartState } & TaxSettingsState) => {
   const subtotal = state.cart.items.reduce(
-    (total, item) => total + item.price * item.quantity,
+    (total, item) => total + getLineGross(item),
+    0
+  )
+  const lineDiscountAmount = state.cart.items.reduce(
+    (total, item) => total + getLineDiscountAmount(item),
     0
   )
-  const discountAmount =
+  const netSubtotal = subtotal - lineDiscountAmount
+  const discountAmount = Math.min(
+    netSubtotal,
     state.cart.discountType === 'percent'
-      ? subtotal * (state.cart.discount / 100)
+      ? netSubtotal * (state.cart.discount / 100)
       : state.cart.discount
+  )
+  const { taxRate, pricesIncludeTax } = state.settings.company
+  const taxes = computeTaxes(
+    state.cart.items.map((item) => ({
+      amount: getLineTotal(item),
+      taxRate: item.taxRate ?? taxRate,
+      taxType: item.taxType,
+    })),
+    pricesIncludeTax,
+    netSubtotal > 0 ? (netSubtotal - discountAmount) / netSubtotal : 1
+  )
   return {
     subtotal,
+    lineDiscountAmount,
     discountAmount,
-    total: subtotal - discountAmount,
+    taxAmount: taxes.tax,
+    taxBreakdown: taxes.breakdown,
+    pricesIncludeTax,
+    total: pricesIncludeTax ? netSubtotal - discountAmount : taxes.total,
     itemCount: state.cart.items.reduce((count, item) => count + item.quantity, 0),
   }
 }
@@ -0,0 +1,136 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import { invoiceService } from '@/core/api/invoiceService'
+import { offlineSalesDb, OfflineSale, isNetworkError } from '@/shared/utils/offlineSalesDb'
+import type { RootState } from '@/app/store'
+import { t } from '@/core/i18n'
+
+interface OfflineState {
+  sales: OfflineSale[]
+  isOnline: boolean
+  isSyncing: boolean
+  lastSyncAt: string | null
+}
+
+const initialState: OfflineState = {
+  sales: [],
+  isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
+  isSyncing: false,
+  lastSyncAt: null,
+}
+
+export const loadOfflineSales = createAsyncThunk('offline/load', async () => {
+  return offlineSalesDb.getAll()
+})
+
+export const queueOfflineSale = createAsyncThunk('offline/queue', async (sale: OfflineSale) => {
+  await offlineSalesDb.put(sale)
+  return sale
+})
+
+export const discardOfflineSale = createAsyncThunk('offline/discard', async (id: string) => {
+  await offlineSalesDb.remove(id)
+  return id
+})
+
+const sendSale = async (sale: OfflineSale) => {
+  const now = new Date().toISOString()
+  try {
+    await invoiceService.createSale({
+      ...sale.request,
+      // Las ventas encoladas antes de generar la referencia en línea usan su número provisional
+      clientReference: sale.request.clientReference || sale.id,
+      offlineCreatedAt: sale.createdAt,
+    })
+    await offlineSalesDb.remove(sale.id)
+    return { sale, synced: true, transient: false }
+  } catch (error: any) {
+    const transient = isNetworkError(error)
+    const updated: OfflineSale = {
+      ...sale,
+      attempts: sale.attempts + 1,
+      lastAttemptAt: now,
+      // Un rechazo del backend (producto inactivo, sin stock...) requiere revisión manual
+      status: transient ? sale.status : 'FALLIDA',
+      error: transient ? sale.error : (error.response?.data?.message || t('offline.serverRejected')),
+    }
+    await offlineSalesDb.put(updated)
+    return { sale: updated, synced: false, transient }
+  }
+}
+
+/**
+ * Reenvía en orden las ventas pendientes. Se detiene en el primer error de red
+ * para no gastar intentos mientras no haya conexión.
+ */
+export const syncOfflineSales = createAsyncThunk('offline/sync', async (_, { getState }) => {
+  const { sales } = (getState() as RootState).offline
+  const pending = sales.filter((s) => s.status === 'PENDIENTE')
+  const results: Array<Awaited<ReturnType<typeof sendSale>>> = []
+  for (const sale of pending) {
+    const result = await sendSale(sale)
+    results.push(result)
+    if (result.transient) break
+  }
+  return results
+}, {
+  condition: (_, { getState }) => {
+    const { isSyncing, sales } = (getState() as RootState).offline
+    return !isSyncing && sales.some((s) => s.status === 'PENDIENTE')
+  },
+})
+
+/** Reintento manual desde la pantalla de revisión; una venta fallida vuelve a la cola si no hay red */
+export const retryOfflineSale = createAsyncThunk('offline/retry', async (id: string, { getState, rejectWithValue }) => {
+  const { sales } = (getState() as RootState).offline
+  const sale = sales.find((s) => s.id === id)
+  if (!sale) return rejectWithValue(t('offline.notFound'))
+  return sendSale({ ...sale, status: 'PENDIENTE', error: undefined })
+})
+
+const applyResult = (state: OfflineState, result: { sale: OfflineSale; synced: boolean }) => {
+  if (result.synced) {
+    state.sales = state.sales.filter((s) => s.id !== result.sale.id)
+  } else {
+    state.sales = state.sales.map((s) => (s.id === result.sale.id ? result.sale : s))
+  }
+}
+
+const offlineSlice = createSlice({
+  name: 'offline',
+  initialState,
+  reducers: {
+    setOnline: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadOfflineSales.fulfilled, (state, action) => {
+        state.sales = action.payload
+      })
+      .addCase(queueOfflineSale.fulfilled, (state, action) => {
+        state.sales.push(action.payload)
+      })
+      .addCase(discardOfflineSale.fulfilled, (state, action) => {
+        state.sales = state.sales.filter((s) => s.id !== action.payload)
+      })
+      .addCase(syncOfflineSales.pending, (state) => {
+        state.isSyncing = true
+      })
+      .addCase(syncOfflineSales.fulfilled, (state, action) => {
+        action.payload.forEach((result) => applyResult(state, result))
+        state.isSyncing = false
+        state.lastSyncAt = new Date().toISOString()
+        if (action.payload.some((r) => r.synced)) state.isOnline = true
+      })
+      .addCase(syncOfflineSales.rejected, (state) => {
+        state.isSyncing = false
+      })
+      .addCase(retryOfflineSale.fulfilled, (state, action) => {
+        applyResult(state, action.payload)
+      })
+  },
+})
+
+export const { setOnline } = offlineSlice.actions
+export default offlineSlice.reducer
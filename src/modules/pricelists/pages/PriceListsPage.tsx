@@ -0,0 +1,429 @@
+import { useState, useEffect } from 'react'
+import { Plus, Edit2, Trash2, Power, PowerOff, Tags, X, Loader2, Percent, Package, Layers } from 'lucide-react'
+import toast from 'react-hot-toast'
+import Button from '@/shared/components/ui/Button'
+import { priceListService, SavePriceListRequest } from '@/core/api/priceListService'
+import { productService } from '@/core/api/productService'
+import { categoryService } from '@/core/api/categoryService'
+import { Category, PriceList, Product } from '@/types'
+import { getListPrice } from '@/shared/utils/priceLists'
+import { formatCurrency } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+const emptyForm: SavePriceListRequest = {
+  name: '',
+  description: '',
+  isDefault: false,
+  items: [],
+  rules: [],
+  quantityBreaks: [],
+  isActive: true,
+}
+
+const PriceListsPage = () => {
+  const { t } = useTranslation()
+  const [priceLists, setPriceLists] = useState<PriceList[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [selectedList, setSelectedList] = useState<PriceList | null>(null)
+  const [formData, setFormData] = useState<SavePriceListRequest>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchPriceLists()
+    Promise.all([productService.getActive(), categoryService.getAll()])
+      .then(([productsRes, categoriesRes]) => {
+        setProducts((productsRes as Product[]) || [])
+        setCategories((categoriesRes as Category[]) || [])
+      })
+      .catch(() => toast.error(t('priceLists.catalogError')))
+  }, [])
+
+  const fetchPriceLists = async () => {
+    try {
+      setLoading(true)
+      const res = await priceListService.getAll()
+      setPriceLists((res as PriceList[]) || [])
+    } catch {
+      toast.error(t('priceLists.loadError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getProduct = (id: number) => products.find((p) => p.id === id)
+
+  const openNew = () => {
+    setSelectedList(null)
+    setFormData(emptyForm)
+    setShowModal(true)
+  }
+
+  const openEdit = (list: PriceList) => {
+    setSelectedList(list)
+    setFormData({
+      name: list.name,
+      description: list.description || '',
+      isDefault: list.isDefault,
+      items: list.items || [],
+      rules: list.rules || [],
+      quantityBreaks: list.quantityBreaks || [],
+      isActive: list.isActive,
+    })
+    setShowModal(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim()) {
+      toast.error(t('common.nameIsRequired'))
+      return
+    }
+    if (formData.items.some((i) => i.price < 0) || formData.quantityBreaks.some((b) => b.price < 0 || b.minQuantity < 2)) {
+      toast.error(t('priceLists.invalidPrices'))
+      return
+    }
+    const ruleKeys = formData.rules.map((r) => r.categoryId ?? 'todos')
+    if (new Set(ruleKeys).size !== ruleKeys.length) {
+      toast.error(t('priceLists.duplicateRules'))
+      return
+    }
+
+    setSaving(true)
+    try {
+      const request = { ...formData, name: formData.name.trim(), description: formData.description?.trim() || undefined }
+      if (selectedList) {
+        await priceListService.update(selectedList.id, request)
+        toast.success(t('priceLists.updated'))
+      } else {
+        await priceListService.create(request)
+        toast.success(t('priceLists.created'))
+      }
+      setShowModal(false)
+      fetchPriceLists()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('priceLists.saveError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (list: PriceList) => {
+    try {
+      await priceListService.toggle(list.id)
+      toast.success(!list.isActive ? t('priceLists.activated') : t('priceLists.deactivated'))
+      fetchPriceLists()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('priceLists.toggleError'))
+    }
+  }
+
+  const handleDelete = async (list: PriceList) => {
+    if (!confirm(t('priceLists.confirmDelete', { name: list.name }))) return
+    try {
+      await priceListService.delete(list.id)
+      toast.success(t('priceLists.deleted'))
+      fetchPriceLists()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('priceLists.deleteError'))
+    }
+  }
+
+  const addItem = (productId: number) => {
+    const product = getProduct(productId)
+    if (!product || formData.items.some((i) => i.productId === productId)) return
+    setFormData({ ...formData, items: [...formData.items, { productId, price: product.salePrice }] })
+  }
+
+  const addQuantityBreak = (productId: number) => {
+    const product = getProduct(productId)
+    if (!product) return
+    const current = formData.quantityBreaks.filter((b) => b.productId === productId)
+    const minQuantity = current.length > 0 ? Math.max(...current.map((b) => b.minQuantity)) * 2 : 12
+    setFormData({ ...formData, quantityBreaks: [...formData.quantityBreaks, { productId, minQuantity, price: product.salePrice }] })
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">{t('nav.priceLists')}</h1>
+          <p className="text-gray-500">{t('priceLists.subtitle')}</p>
+        </div>
+        <Button variant="primary" onClick={openNew}>
+          <Plus size={20} /> {t('priceLists.new')}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+        </div>
+      ) : priceLists.length === 0 ? (
+        <div className="card text-center py-12 text-gray-500">
+          <Tags className="w-16 h-16 mx-auto mb-4 text-gray-300" />
+          <p>{t('priceLists.empty')}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {priceLists.map((list) => (
+            <div key={list.id} className={`card p-5 ${list.isActive ? 'border-l-4 border-indigo-500' : 'opacity-60'}`}>
+              <div className="mb-3">
+                <h3 className="font-bold text-gray-800 flex items-center gap-2">
+                  {list.name}
+                  {list.isDefault && <span className="badge badge-info">{t('priceLists.default')}</span>}
+                </h3>
+                {list.description && <p className="text-sm text-gray-500 mt-1">{list.description}</p>}
+              </div>
+              <div className="space-y-1 mb-4 text-sm text-gray-600">
+                <p className="flex items-center gap-2">
+                  <Percent size={14} />
+                  {(list.rules || []).length > 0
+                    ? (list.rules || []).map((r) => `${r.categoryId ? categories.find((c) => c.id === r.categoryId)?.name || t('priceLists.category') : t('priceLists.everything')} ${r.discountPercent > 0 ? '-' : '+'}${Math.abs(r.discountPercent)}%`).join(', ')
+                    : t('priceLists.noRules')}
+                </p>
+                <p className="flex items-center gap-2">
+                  <Package size={14} />
+                  {t('priceLists.fixedCount', { count: (list.items || []).length })}
+                </p>
+                <p className="flex items-center gap-2">
+                  <Layers size={14} />
+                  {t('priceLists.volumeCount', { count: (list.quantityBreaks || []).length })}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => openEdit(list)} className="flex-1 btn-icon bg-primary-50 text-primary-600 hover:bg-primary-100">
+                  <Edit2 size={16} />
+                </button>
+                <button
+                  onClick={() => handleToggle(list)}
+                  className={`flex-1 btn-icon ${list.isActive ? 'bg-amber-50 text-amber-600 hover:bg-amber-100' : 'bg-green-50 text-green-600 hover:bg-green-100'}`}
+                >
+                  {list.isActive ? <PowerOff size={16} /> : <Power size={16} />}
+                </button>
+                <button onClick={() => handleDelete(list)} className="flex-1 btn-icon bg-red-50 text-red-600 hover:bg-red-100">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showModal && (
+        <div className="modal-overlay">
+          <div className="modal-content-lg animate-scale-in max-w-3xl">
+            <div className="flex items-center justify-between mb-6 pb-4 border-b border-gray-200">
+              <h3 className="text-2xl font-bold text-gray-800">{selectedList ? t('priceLists.editTitle') : t('priceLists.newTitle')}</h3>
+              <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
+                <X size={24} />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('common.nameRequired')}</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="input-field"
+                    placeholder={t('priceLists.namePlaceholder')}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('common.description')}</label>
+                  <input
+                    type="text"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    className="input-field"
+                    placeholder={t('priceLists.descriptionPlaceholder')}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!formData.isDefault}
+                  onChange={(e) => setFormData({ ...formData, isDefault: e.target.checked })}
+                  className="w-5 h-5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="text-sm text-gray-700">{t('priceLists.isDefault')}</span>
+              </label>
+
+              {/* Reglas porcentuales */}
+              <div className="bg-gray-50 rounded-xl p-5 space-y-3">
+                <h4 className="text-sm font-bold text-gray-700 uppercase tracking-wide flex items-center gap-2">
+                  <Percent size={16} />
+                  {t('priceLists.rules')}
+                </h4>
+                <p className="text-xs text-gray-500">{t('priceLists.rulesHint')}</p>
+                {formData.rules.map((rule, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <select
+                      value={rule.categoryId ?? ''}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        rules: formData.rules.map((r, i) => (i === index ? { ...r, categoryId: e.target.value ? Number(e.target.value) : null } : r)),
+                      })}
+                      className="input-field flex-1"
+                    >
+                      <option value="">{t('priceLists.allProducts')}</option>
+                      {categories.map((c) => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      value={rule.discountPercent}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        rules: formData.rules.map((r, i) => (i === index ? { ...r, discountPercent: parseFloat(e.target.value) || 0 } : r)),
+                      })}
+                      className="input-field w-28"
+                      min="-100"
+                      max="100"
+                      step="0.5"
+                    />
+                    <span className="text-sm text-gray-500">%</span>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, rules: formData.rules.filter((_, i) => i !== index) })}
+                      className="btn-icon text-red-500 hover:bg-red-50"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => setFormData({ ...formData, rules: [...formData.rules, { categoryId: null, discountPercent: 10 }] })}
+                >
+                  <Plus size={16} /> {t('priceLists.addRule')}
+                </Button>
+              </div>
+
+              {/* Precios fijos por producto */}
+              <div className="bg-gray-50 rounded-xl p-5 space-y-3">
+                <h4 className="text-sm font-bold text-gray-700 uppercase tracking-wide flex items-center gap-2">
+                  <Package size={16} />
+                  {t('priceLists.fixedPrices')}
+                </h4>
+                {formData.items.map((item) => {
+                  const product = getProduct(item.productId)
+                  return (
+                    <div key={item.productId} className="flex items-center gap-2">
+                      <span className="flex-1 text-sm text-gray-800">
+                        {product?.name || t('common.productNumber', { id: item.productId })}
+                        {product && <span className="text-xs text-gray-400"> · {t('priceLists.salePrice', { price: formatCurrency(product.salePrice) })}</span>}
+                      </span>
+                      <input
+                        type="number"
+                        value={item.price}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          items: formData.items.map((i) => (i.productId === item.productId ? { ...i, price: parseFloat(e.target.value) || 0 } : i)),
+                        })}
+                        className="input-field w-36"
+                        min="0"
+                        step="100"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, items: formData.items.filter((i) => i.productId !== item.productId) })}
+                        className="btn-icon text-red-500 hover:bg-red-50"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  )
+                })}
+                <select value="" onChange={(e) => e.target.value && addItem(Number(e.target.value))} className="input-field">
+                  <option value="">{t('priceLists.addProduct')}</option>
+                  {products.filter((p) => !formData.items.some((i) => i.productId === p.id)).map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Precios por volumen */}
+              <div className="bg-indigo-50 rounded-xl p-5 space-y-3">
+                <h4 className="text-sm font-bold text-gray-700 uppercase tracking-wide flex items-center gap-2">
+                  <Layers size={16} />
+                  {t('priceLists.volumePrices')}
+                </h4>
+                <p className="text-xs text-gray-500">{t('priceLists.volumeHint')}</p>
+                {formData.quantityBreaks.map((b, index) => {
+                  const product = getProduct(b.productId)
+                  // Precio que tendría sin volumen, como referencia
+                  const regular = product ? getListPrice({ ...formData, quantityBreaks: [] }, product) : 0
+                  return (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="flex-1 text-sm text-gray-800">
+                        {product?.name || t('common.productNumber', { id: b.productId })}
+                        {product && <span className="text-xs text-gray-400"> · {t('priceLists.listPrice', { price: formatCurrency(regular) })}</span>}
+                      </span>
+                      <span className="text-sm text-gray-500">{t('priceLists.from')}</span>
+                      <input
+                        type="number"
+                        value={b.minQuantity}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          quantityBreaks: formData.quantityBreaks.map((q, i) => (i === index ? { ...q, minQuantity: parseInt(e.target.value) || 0 } : q)),
+                        })}
+                        className="input-field w-20"
+                        min="2"
+                      />
+                      <span className="text-sm text-gray-500">{t('priceLists.unitsAt')}</span>
+                      <input
+                        type="number"
+                        value={b.price}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          quantityBreaks: formData.quantityBreaks.map((q, i) => (i === index ? { ...q, price: parseFloat(e.target.value) || 0 } : q)),
+                        })}
+                        className="input-field w-32"
+                        min="0"
+                        step="100"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, quantityBreaks: formData.quantityBreaks.filter((_, i) => i !== index) })}
+                        className="btn-icon text-red-500 hover:bg-red-50"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  )
+                })}
+                <select value="" onChange={(e) => e.target.value && addQuantityBreak(Number(e.target.value))} className="input-field">
+                  <option value="">{t('priceLists.addVolume')}</option>
+                  {products.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex gap-3 pt-6 border-t border-gray-200">
+                <Button type="submit" variant="primary" className="flex-1 px-6 py-3" disabled={saving}>
+                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> {t('common.saving')}</> : selectedList ? t('common.update') : t('common.create')}
+                </Button>
+                <Button type="button" variant="secondary" className="px-6 py-3" onClick={() => setShowModal(false)} disabled={saving}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PriceListsPage
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
-import { Plus, Search, Edit2, Trash2, Filter, X, Loader2, Image, ArrowUp, ArrowDown, Package } from 'lucide-react'
+import { useLocation } from 'react-router-dom'
+import { Plus, Search, Edit2, Trash2, Filter, X, Loader2, Image, ArrowUp, ArrowDown, Package, ListPlus } from 'lucide-react'
 import toast from 'react-hot-toast'
 import Button from '@/shared/components/ui/Button'
 import Input from '@/shared/components/ui/Input'
@@ -7,7 +8,10 @@ import MoneyInput from '@/shared/components/ui/MoneyInput'
 import { productService } from '@/core/api/productService'
 import { categoryService } from '@/core/api/categoryService'
 import { inventoryService } from '@/core/api/inventoryService'
-import { Product, Category } from '@/types'
+import { Product, Category, ModifierGroup, TaxType } from '@/types'
+import { TAX_OPTIONS, resolveTaxType, getTaxLabel, getTaxOptionLabel } from '@/shared/utils/taxes'
+import { formatCurrency } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 interface ProductFormData {
   code: string
@@ -19,11 +23,14 @@ interface ProductFormData {
   salePrice: number | ''
   unit: string
   taxRate: number
+  taxType: TaxType
+  openPrice: boolean
   isActive: boolean
   initialStock: number
   minStock: number
   maxStock: number
   imageUrl: string
+  modifierGroups: ModifierGroup[]
 }
 
 const initialFormData: ProductFormData = {
@@ -36,11 +43,145 @@ const initialFormData: ProductFormData = {
   salePrice: '',
   unit: 'UND',
   taxRate: 0,
+  taxType: 'EXENTO',
+  openPrice: false,
   isActive: true,
   initialStock: 0,
   minStock: 0,
   maxStock: 999999,
-  imageUrl: ''
+  imageUrl: '',
+  modifierGroups: []
+}
+
+// Descarta grupos sin nombre u opciones vacías antes de enviar al backend
+const cleanModifierGroups = (groups: ModifierGroup[]) =>
+  groups
+    .map((g) => ({ ...g, name: g.name.trim(), options: g.options.filter((o) => o.name.trim()) }))
+    .filter((g) => g.name && g.options.length > 0)
+
+interface ModifierGroupsEditorProps {
+  groups: ModifierGroup[]
+  onChange: (groups: ModifierGroup[]) => void
+}
+
+const ModifierGroupsEditor = ({ groups, onChange }: ModifierGroupsEditorProps) => {
+  const { t } = useTranslation()
+  const updateGroup = (index: number, changes: Partial<ModifierGroup>) => {
+    onChange(groups.map((g, i) => (i === index ? { ...g, ...changes } : g)))
+  }
+
+  const addGroup = () => {
+    onChange([...groups, { name: '', required: false, minSelections: 0, maxSelections: 1, options: [{ name: '', priceDelta: 0 }] }])
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">{t('products.modifiers')}</label>
+        <button
+          type="button"
+          onClick={addGroup}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100"
+        >
+          <ListPlus size={14} />
+          {t('products.addGroup')}
+        </button>
+      </div>
+      {groups.length === 0 && (
+        <p className="text-xs text-gray-400">{t('products.noModifiers')}</p>
+      )}
+      <div className="space-y-3">
+        {groups.map((group, gi) => (
+          <div key={gi} className="p-3 border border-primary-100 rounded-xl space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={group.name}
+                onChange={(e) => updateGroup(gi, { name: e.target.value })}
+                placeholder={t('products.groupName')}
+                className="input-field py-2 text-sm flex-1"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(groups.filter((_, i) => i !== gi))}
+                className="p-2 rounded-lg text-red-500 hover:bg-red-50"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2 items-center text-xs">
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={group.required}
+                  onChange={(e) => updateGroup(gi, {
+                    required: e.target.checked,
+                    minSelections: e.target.checked ? Math.max(1, group.minSelections) : 0,
+                  })}
+                  className="rounded border-gray-300 text-primary-600"
+                />
+                {t('products.required')}
+              </label>
+              <label className="flex items-center gap-1.5">
+                {t('products.min')}
+                <input
+                  type="number"
+                  min={0}
+                  value={group.minSelections}
+                  onChange={(e) => updateGroup(gi, { minSelections: Math.max(0, Number(e.target.value) || 0) })}
+                  className="input-field py-1 text-xs w-16"
+                />
+              </label>
+              <label className="flex items-center gap-1.5">
+                {t('products.max')}
+                <input
+                  type="number"
+                  min={0}
+                  value={group.maxSelections}
+                  onChange={(e) => updateGroup(gi, { maxSelections: Math.max(0, Number(e.target.value) || 0) })}
+                  className="input-field py-1 text-xs w-16"
+                  title={t('products.noLimit')}
+                />
+              </label>
+            </div>
+            {group.options.map((option, oi) => (
+              <div key={oi} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={option.name}
+                  onChange={(e) => updateGroup(gi, { options: group.options.map((o, i) => (i === oi ? { ...o, name: e.target.value } : o)) })}
+                  placeholder={t('products.optionName')}
+                  className="input-field py-1.5 text-sm flex-1"
+                />
+                <input
+                  type="number"
+                  value={option.priceDelta}
+                  onChange={(e) => updateGroup(gi, { options: group.options.map((o, i) => (i === oi ? { ...o, priceDelta: Number(e.target.value) || 0 } : o)) })}
+                  placeholder="+$"
+                  className="input-field py-1.5 text-sm w-24"
+                  title={t('products.priceDelta')}
+                />
+                <button
+                  type="button"
+                  onClick={() => updateGroup(gi, { options: group.options.filter((_, i) => i !== oi) })}
+                  className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateGroup(gi, { options: [...group.options, { name: '', priceDelta: 0 }] })}
+              className="text-xs text-primary-600 hover:text-primary-700 font-medium"
+            >
+              {t('products.addOption')}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
 }
 
 interface StockAdjustData {
@@ -49,10 +190,13 @@ interface StockAdjustData {
 }
 
 const ProductsPage = () => {
+  const { t } = useTranslation()
   const [products, setProducts] = useState<Product[]>([])
   const [categories, setCategories] = useState<Category[]>([])
   const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
+  const { state: routeState } = useLocation()
+  // La paleta de comandos (Ctrl+K) llega con la búsqueda ya escrita
+  const [searchTerm, setSearchTerm] = useState<string>((routeState as { search?: string } | null)?.search || '')
   const [showModal, setShowModal] = useState(false)
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
   const [formData, setFormData] = useState<ProductFormData>(initialFormData)
@@ -119,7 +263,7 @@ const ProductsPage = () => {
       setCategories(categoriesRes as Category[])
     } catch (error) {
       console.error('Error loading data:', error)
-      toast.error('Error al cargar productos')
+      toast.error(t('products.loadError'))
     } finally {
       setLoading(false)
     }
@@ -144,9 +288,6 @@ const ProductsPage = () => {
     }
   }
 
-  const formatCurrency = (value: number) => 
-    new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(value)
-
   const openNewProduct = () => {
     setSelectedProduct(null)
     setFormData(initialFormData)
@@ -165,24 +306,27 @@ const ProductsPage = () => {
       salePrice: product.salePrice,
       unit: product.unit || 'UND',
       taxRate: product.taxRate || 0,
+      taxType: resolveTaxType(product.taxType, product.taxRate || 0),
+      openPrice: !!product.openPrice,
       isActive: product.isActive,
       initialStock: product.inventory?.quantity || 0,
       minStock: product.inventory?.minStock || 0,
       maxStock: product.inventory?.maxStock || 999999,
-      imageUrl: product.imageUrl || ''
+      imageUrl: product.imageUrl || '',
+      modifierGroups: product.modifierGroups || []
     })
     setShowModal(true)
   }
 
   const handleDelete = async (product: Product) => {
-    if (!confirm(`¿Eliminar el producto "${product.name}"?`)) return
+    if (!confirm(t('products.confirmDelete', { name: product.name }))) return
     
     try {
       await productService.delete(product.id)
-      toast.success('Producto eliminado')
+      toast.success(t('products.deleted'))
       fetchProducts()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al eliminar producto')
+      toast.error(error.response?.data?.message || t('products.deleteError'))
     }
   }
 
@@ -197,14 +341,14 @@ const ProductsPage = () => {
     
     const qty = parseFloat(adjustQuantity)
     if (qty <= 0) {
-      toast.error('La cantidad debe ser mayor a 0')
+      toast.error(t('products.quantityPositive'))
       return
     }
 
     if (stockAdjust.type === 'remove') {
       const currentStock = stockAdjust.product.inventory?.quantity || 0
       if (qty > currentStock) {
-        toast.error('No hay suficiente stock disponible')
+        toast.error(t('products.notEnoughStock'))
         return
       }
     }
@@ -213,15 +357,15 @@ const ProductsPage = () => {
     try {
       if (stockAdjust.type === 'add') {
         await inventoryService.addStock(stockAdjust.product.id, qty, adjustReason || undefined)
-        toast.success('Stock agregado correctamente')
+        toast.success(t('products.stockAdded'))
       } else {
         await inventoryService.removeStock(stockAdjust.product.id, qty, adjustReason || undefined)
-        toast.success('Stock reducido correctamente')
+        toast.success(t('products.stockRemoved'))
       }
       setStockAdjust(null)
       fetchProducts()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al ajustar stock')
+      toast.error(error.response?.data?.message || t('products.adjustError'))
     } finally {
       setAdjusting(false)
     }
@@ -236,10 +380,10 @@ const ProductsPage = () => {
       const url = (res as any)?.url || (res as any)?.data?.url
       if (url) {
         setFormData(prev => ({ ...prev, imageUrl: url }))
-        toast.success('Imagen subida correctamente')
+        toast.success(t('products.imageUploaded'))
       }
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al subir imagen')
+      toast.error(error.response?.data?.message || t('products.imageError'))
     } finally {
       setUploadingImage(false)
       e.target.value = ''
@@ -253,7 +397,7 @@ const ProductsPage = () => {
     try {
       // Validar que categoryId sea válido
       if (!formData.categoryId) {
-        toast.error('Debe seleccionar una categoría')
+        toast.error(t('products.categoryRequired'))
         setSaving(false)
         return
       }
@@ -273,7 +417,10 @@ const ProductsPage = () => {
           salePrice: Number(formData.salePrice),
           unit: formData.unit,
           taxRate: Number(formData.taxRate),
-          isActive: formData.isActive
+          taxType: formData.taxType,
+          openPrice: formData.openPrice,
+          isActive: formData.isActive,
+          modifierGroups: cleanModifierGroups(formData.modifierGroups)
         }
         await productService.update(selectedProduct.id, updateData)
         
@@ -287,7 +434,7 @@ const ProductsPage = () => {
             Number(formData.maxStock)
           )
         }
-        toast.success('Producto actualizado')
+        toast.success(t('products.updated'))
       } else {
         // Para creación, incluir datos de stock inicial
         const createData = {
@@ -301,19 +448,22 @@ const ProductsPage = () => {
           salePrice: Number(formData.salePrice),
           unit: formData.unit,
           taxRate: Number(formData.taxRate),
+          taxType: formData.taxType,
+          openPrice: formData.openPrice,
           isActive: formData.isActive,
+          modifierGroups: cleanModifierGroups(formData.modifierGroups),
           initialStock: Number(formData.initialStock),
           minStock: Number(formData.minStock),
           maxStock: Number(formData.maxStock)
         }
         await productService.create(createData)
-        toast.success('Producto creado')
+        toast.success(t('products.created'))
       }
       
       setShowModal(false)
       fetchProducts()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al guardar producto')
+      toast.error(error.response?.data?.message || t('products.saveError'))
     } finally {
       setSaving(false)
     }
@@ -337,12 +487,12 @@ const ProductsPage = () => {
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-800">Productos</h1>
-          <p className="text-gray-500">Gestiona tu catálogo de productos</p>
+          <h1 className="text-2xl font-bold text-gray-800">{t('nav.products')}</h1>
+          <p className="text-gray-500">{t('products.subtitle')}</p>
         </div>
         <Button variant="primary" onClick={openNewProduct}>
           <Plus size={20} />
-          Nuevo Producto
+          {t('products.new')}
         </Button>
       </div>
 
@@ -354,7 +504,7 @@ const ProductsPage = () => {
               <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
               <input
                 type="text"
-                placeholder="Buscar por nombre o código..."
+                placeholder={t('products.search')}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="input-field pl-12"
@@ -362,34 +512,34 @@ const ProductsPage = () => {
             </div>
             <Button variant="secondary" onClick={() => setShowFilters(!showFilters)}>
               <Filter size={20} />
-              Filtros {(filterCategory || filterStatus !== 'all') ? `(${[filterCategory ? 1 : 0, filterStatus !== 'all' ? 1 : 0].reduce((a, b) => a + b, 0)})` : ''}
+              {t('common.filters')} {(filterCategory || filterStatus !== 'all') ? `(${[filterCategory ? 1 : 0, filterStatus !== 'all' ? 1 : 0].reduce((a, b) => a + b, 0)})` : ''}
             </Button>
           </div>
           {showFilters && (
             <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-gray-100">
               <div className="flex items-center gap-2">
-                <label className="text-sm text-gray-500 whitespace-nowrap">Categoría:</label>
+                <label className="text-sm text-gray-500 whitespace-nowrap">{t('products.categoryFilter')}</label>
                 <select
                   value={filterCategory}
                   onChange={(e) => setFilterCategory(e.target.value ? Number(e.target.value) : '')}
                   className="input-field py-1.5 px-2 text-sm w-[180px]"
                 >
-                  <option value="">Todas</option>
+                  <option value="">{t('products.allCategories')}</option>
                   {categories.map((cat) => (
                     <option key={cat.id} value={cat.id}>{cat.name}</option>
                   ))}
                 </select>
               </div>
               <div className="flex items-center gap-2">
-                <label className="text-sm text-gray-500 whitespace-nowrap">Estado:</label>
+                <label className="text-sm text-gray-500 whitespace-nowrap">{t('products.statusFilter')}</label>
                 <select
                   value={filterStatus}
                   onChange={(e) => setFilterStatus(e.target.value as 'all' | 'active' | 'inactive')}
                   className="input-field py-1.5 px-2 text-sm w-[140px]"
                 >
-                  <option value="all">Todos</option>
-                  <option value="active">Activos</option>
-                  <option value="inactive">Inactivos</option>
+                  <option value="all">{t('common.all')}</option>
+                  <option value="active">{t('products.activeFilter')}</option>
+                  <option value="inactive">{t('products.inactiveFilter')}</option>
                 </select>
               </div>
               {(filterCategory || filterStatus !== 'all') && (
@@ -397,11 +547,11 @@ const ProductsPage = () => {
                   onClick={() => { setFilterCategory(''); setFilterStatus('all') }}
                   className="text-xs text-red-500 hover:text-red-700 flex items-center gap-1"
                 >
-                  <X size={14} /> Limpiar filtros
+                  <X size={14} /> {t('products.clearFilters')}
                 </button>
               )}
               <span className="text-xs text-gray-400 ml-auto">
-                {filteredProducts.length} producto(s)
+                {t('products.count', { count: filteredProducts.length })}
               </span>
             </div>
           )}
@@ -416,20 +566,20 @@ const ProductsPage = () => {
           </div>
         ) : products.length === 0 ? (
           <div className="flex items-center justify-center py-12 text-gray-400">
-            No se encontraron productos
+            {t('products.empty')}
           </div>
         ) : (
           <table className="w-full">
             <thead>
               <tr className="bg-primary-50">
-                <th className="table-header">Código</th>
-                <th className="table-header">Producto</th>
-                <th className="table-header">Categoría</th>
-                <th className="table-header text-right">Costo</th>
-                <th className="table-header text-right">Precio Venta</th>
-                <th className="table-header text-right">Margen</th>
-                <th className="table-header text-center">Stock</th>
-                <th className="table-header text-center">Acciones</th>
+                <th className="table-header">{t('products.code')}</th>
+                <th className="table-header">{t('products.product')}</th>
+                <th className="table-header">{t('products.category')}</th>
+                <th className="table-header text-right">{t('products.cost')}</th>
+                <th className="table-header text-right">{t('products.salePrice')}</th>
+                <th className="table-header text-right">{t('products.margin')}</th>
+                <th className="table-header text-center">{t('products.stock')}</th>
+                <th className="table-header text-center">{t('common.actions')}</th>
               </tr>
             </thead>
             <tbody>
@@ -455,7 +605,7 @@ const ProductsPage = () => {
                     </td>
                     <td className="table-cell text-right">{formatCurrency(product.costPrice)}</td>
                     <td className="table-cell text-right font-semibold text-primary-600">
-                      {formatCurrency(product.salePrice)}
+                      {product.openPrice ? <span className="text-xs font-medium text-amber-600">{t('products.openPrice')}</span> : formatCurrency(product.salePrice)}
                     </td>
                     <td className="table-cell text-right text-green-600">{margin}%</td>
                     <td className="table-cell text-center">
@@ -463,7 +613,7 @@ const ProductsPage = () => {
                         <button
                           onClick={() => openStockAdjust(product, 'remove')}
                           className="p-1 rounded hover:bg-red-100 text-red-500 transition-colors"
-                          title="Salida de stock"
+                          title={t('products.stockOut')}
                         >
                           <ArrowDown size={14} />
                         </button>
@@ -477,7 +627,7 @@ const ProductsPage = () => {
                         <button
                           onClick={() => openStockAdjust(product, 'add')}
                           className="p-1 rounded hover:bg-green-100 text-green-500 transition-colors"
-                          title="Entrada de stock"
+                          title={t('products.stockIn')}
                         >
                           <ArrowUp size={14} />
                         </button>
@@ -513,7 +663,7 @@ const ProductsPage = () => {
           <div className="modal-content-lg p-6 animate-scale-in">
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-xl font-bold text-gray-800">
-                {selectedProduct ? 'Editar Producto' : 'Nuevo Producto'}
+                {selectedProduct ? t('products.edit') : t('products.new')}
               </h3>
               <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
@@ -523,58 +673,108 @@ const ProductsPage = () => {
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <Input
-                  label="Código"
+                  label={t('products.code')}
                   value={formData.code}
                   onChange={(e) => setFormData({ ...formData, code: e.target.value })}
-                  placeholder="Auto (ej: PRD-0001)"
+                  placeholder={t('products.codePlaceholder')}
                 />
                 <Input
-                  label="Código de Barras"
+                  label={t('products.barcode')}
                   value={formData.barcode}
                   onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
                 />
               </div>
 
               <Input
-                label="Nombre *"
+                label={t('common.nameRequired')}
                 value={formData.name}
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                 required
               />
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Categoría *</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.categoryLabel')}</label>
                 <select
                   value={formData.categoryId}
                   onChange={(e) => setFormData({ ...formData, categoryId: Number(e.target.value) })}
                   className="input-field"
                   required
                 >
-                  <option value="">Seleccionar...</option>
+                  <option value="">{t('common.select')}</option>
                   {categories.map((cat) => (
                     <option key={cat.id} value={cat.id}>{cat.name}</option>
                   ))}
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.saleUnit')}</label>
+                <select
+                  value={formData.unit}
+                  onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                  className="input-field"
+                >
+                  <option value="UND">{t('products.unitUnd')}</option>
+                  <option value="KG">{t('products.unitKg')}</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.tax')}</label>
+                <select
+                  value={`${formData.taxType}:${formData.taxRate}`}
+                  onChange={(e) => {
+                    const option = TAX_OPTIONS.find((o) => o.value === e.target.value)
+                    if (option) setFormData({ ...formData, taxType: option.taxType, taxRate: option.rate })
+                  }}
+                  className="input-field"
+                >
+                  {TAX_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>{getTaxOptionLabel(o)}</option>
+                  ))}
+                  {/* Tarifas heredadas que no están en la lista */}
+                  {!TAX_OPTIONS.some((o) => o.value === `${formData.taxType}:${formData.taxRate}`) && (
+                    <option value={`${formData.taxType}:${formData.taxRate}`}>{getTaxLabel(formData.taxType, formData.taxRate)}</option>
+                  )}
+                </select>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <MoneyInput
-                  label="Precio Costo"
+                  label={t('products.costPrice')}
                   value={formData.costPrice}
                   onChange={(val) => setFormData({ ...formData, costPrice: val })}
                   required
                 />
                 <MoneyInput
-                  label="Precio Venta"
+                  label={formData.openPrice ? t('products.salePriceReference') : t('products.salePrice')}
                   value={formData.salePrice}
                   onChange={(val) => setFormData({ ...formData, salePrice: val })}
                   required
                 />
               </div>
 
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.openPrice}
+                  onChange={(e) => setFormData({ ...formData, openPrice: e.target.checked })}
+                  className="mt-0.5 rounded border-gray-300 text-primary-600"
+                />
+                <span>
+                  {t('products.openPrice')}
+                  <span className="block text-xs text-gray-500">{t('products.openPriceHint')}</span>
+                </span>
+              </label>
+
+              <ModifierGroupsEditor
+                groups={formData.modifierGroups}
+                onChange={(modifierGroups) => setFormData({ ...formData, modifierGroups })}
+              />
+
               {/* Imagen del producto */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Imagen del Producto</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.image')}</label>
                 <div className="flex items-center gap-4">
                   <div className="w-24 h-24 bg-primary-50 rounded-xl flex items-center justify-center overflow-hidden border-2 border-dashed border-primary-200 relative">
                     {formData.imageUrl ? (
@@ -592,7 +792,7 @@ const ProductsPage = () => {
                     <div>
                       <label className="inline-flex items-center gap-2 px-3 py-2 bg-primary-50 text-primary-700 rounded-lg cursor-pointer hover:bg-primary-100 transition-colors text-sm font-medium">
                         <Image size={16} />
-                        Subir imagen
+                        {t('products.uploadImage')}
                         <input
                           type="file"
                           accept="image/jpeg,image/png,image/gif,image/webp"
@@ -603,14 +803,14 @@ const ProductsPage = () => {
                       </label>
                     </div>
                     <div className="flex items-center gap-2">
-                      <span className="text-xs text-gray-400">o</span>
+                      <span className="text-xs text-gray-400">{t('products.or')}</span>
                       <Input
                         value={formData.imageUrl}
                         onChange={(e) => setFormData({ ...formData, imageUrl: e.target.value })}
-                        placeholder="URL de imagen..."
+                        placeholder={t('products.imageUrl')}
                       />
                     </div>
-                    <p className="text-xs text-gray-400">JPG, PNG, GIF, WebP. Máx 5MB</p>
+                    <p className="text-xs text-gray-400">{t('products.imageFormats')}</p>
                   </div>
                 </div>
               </div>
@@ -618,11 +818,11 @@ const ProductsPage = () => {
               {/* Stock - siempre visible */}
               <div className="border-t pt-4">
                 <h4 className="font-medium text-gray-700 mb-3">
-                  {selectedProduct ? 'Configuración de Stock' : 'Stock Inicial'}
+                  {selectedProduct ? t('products.stockSettings') : t('products.initialStock')}
                 </h4>
                 <div className="grid grid-cols-3 gap-4">
                   <Input
-                    label={selectedProduct ? "Stock Actual" : "Stock Inicial"}
+                    label={selectedProduct ? t('products.currentStock') : t('products.initialStock')}
                     type="number"
                     min="0"
                     value={formData.initialStock}
@@ -630,14 +830,14 @@ const ProductsPage = () => {
                     disabled={!!selectedProduct}
                   />
                   <Input
-                    label="Stock Mínimo"
+                    label={t('products.minStock')}
                     type="number"
                     min="0"
                     value={formData.minStock}
                     onChange={(e) => setFormData({ ...formData, minStock: Number(e.target.value) })}
                   />
                   <Input
-                    label="Stock Máximo"
+                    label={t('products.maxStock')}
                     type="number"
                     min="0"
                     value={formData.maxStock}
@@ -646,17 +846,17 @@ const ProductsPage = () => {
                 </div>
                 {selectedProduct && (
                   <p className="text-xs text-gray-500 mt-2">
-                    💡 También puedes ajustar el stock desde la tabla de productos usando los botones +/-
+                    {t('products.adjustHint')}
                   </p>
                 )}
               </div>
 
               <div className="flex justify-end gap-3 pt-4">
                 <Button type="button" variant="secondary" onClick={() => setShowModal(false)}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
                 <Button type="submit" variant="primary" disabled={saving}>
-                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> Guardando...</> : 'Guardar'}
+                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> {t('common.saving')}</> : t('common.save')}
                 </Button>
               </div>
             </form>
@@ -670,7 +870,7 @@ const ProductsPage = () => {
           <div className="bg-white rounded-2xl p-6 w-full max-w-md animate-scale-in">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-xl font-bold text-gray-800">
-                {stockAdjust.type === 'add' ? 'Entrada de Stock' : 'Salida de Stock'}
+                {stockAdjust.type === 'add' ? t('products.stockInTitle') : t('products.stockOutTitle')}
               </h3>
               <button onClick={() => setStockAdjust(null)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
@@ -687,13 +887,13 @@ const ProductsPage = () => {
               </div>
               <div>
                 <p className="font-medium text-gray-800">{stockAdjust.product.name}</p>
-                <p className="text-sm text-gray-500">Stock actual: <span className="font-semibold">{stockAdjust.product.inventory?.quantity || 0}</span></p>
+                <p className="text-sm text-gray-500">{t('products.currentStockLabel')} <span className="font-semibold">{stockAdjust.product.inventory?.quantity || 0}</span></p>
               </div>
             </div>
 
             <div className="space-y-4">
               <Input
-                label="Cantidad *"
+                label={t('common.quantityRequired')}
                 type="number"
                 min="0.01"
                 step="0.01"
@@ -703,19 +903,19 @@ const ProductsPage = () => {
               />
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Razón (opcional)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('products.reasonOptional')}</label>
                 <textarea
                   value={adjustReason}
                   onChange={(e) => setAdjustReason(e.target.value)}
                   className="input-field min-h-[80px]"
-                  placeholder="Motivo del ajuste..."
+                  placeholder={t('products.reasonPlaceholder')}
                 />
               </div>
             </div>
 
             <div className="flex gap-3 mt-6">
               <Button variant="secondary" className="flex-1" onClick={() => setStockAdjust(null)}>
-                Cancelar
+                {t('common.cancel')}
               </Button>
               <Button 
                 variant="primary" 
@@ -723,7 +923,7 @@ const ProductsPage = () => {
                 onClick={handleStockAdjust}
                 disabled={!adjustQuantity || adjusting}
               >
-                {adjusting ? <Loader2 className="w-5 h-5 animate-spin" /> : (stockAdjust.type === 'add' ? 'Agregar' : 'Retirar')}
+                {adjusting ? <Loader2 className="w-5 h-5 animate-spin" /> : (stockAdjust.type === 'add' ? t('common.add') : t('products.remove'))}
               </Button>
             </div>
           </div>
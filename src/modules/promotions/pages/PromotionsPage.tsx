@@ -1,39 +1,601 @@
 import { useState, useEffect } from 'react'
-import { Plus, Edit2, Trash2, Power, PowerOff, Calendar, Tag, Percent } from 'lucide-react'
-import { promotionService, Promotion, CreatePromotionRequest, UpdatePromotionRequest } from '@/core/api/promotionService'
+import { Plus, Edit2, Trash2, Power, PowerOff, Calendar, Tag, Percent, Clock, Package, X, Ticket, Download, Layers, History, RefreshCw } from 'lucide-react'
+import * as XLSX from 'xlsx'
+import { t } from '@/core/i18n'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { promotionService, Promotion, PromotionType, CreatePromotionRequest, UpdatePromotionRequest } from '@/core/api/promotionService'
+import { productService } from '@/core/api/productService'
+import { categoryService } from '@/core/api/categoryService'
+import { couponService, CreateCouponRequest } from '@/core/api/couponService'
+import { Category, Coupon, CouponRedemption, Product } from '@/types'
+import { PROMOTION_TYPES, describePromotion, getPromotionType, getPromotionTypeLabel } from '@/shared/utils/promotions'
+import { formatCouponValue, generateCouponCodes, normalizeCouponCode } from '@/shared/utils/coupons'
 import { toast } from 'react-hot-toast'
 import Button from '@/shared/components/ui/Button'
+import { toLocalDateStr } from '@/shared/components/DateRangeFilter'
+import { formatCurrency, formatDateTime } from '@/shared/utils/format'
+
+const emptyForm: CreatePromotionRequest = {
+  name: '',
+  description: '',
+  imageUrl: '',
+  discountPercent: 10,
+  scheduleType: 'WEEKLY',
+  daysOfWeek: '[]',
+  isActive: true,
+  applyToAllProducts: true,
+  priority: 0,
+  promotionType: 'PORCENTAJE',
+  productIds: [],
+  categoryIds: [],
+  buyQuantity: 2,
+  payQuantity: 1,
+  secondUnitPercent: 50,
+  comboPrice: 0,
+  comboItems: [],
+  startTime: '',
+  endTime: '',
+  minTicketAmount: 0,
+}
+
+const exportCouponsToExcel = (coupons: Coupon[], fileName: string) => {
+  const ws = XLSX.utils.json_to_sheet(coupons.map((c) => ({
+    [t('export.code')]: c.code,
+    [t('export.campaign')]: c.campaign || '',
+    [t('export.discount')]: formatCouponValue(c),
+    [t('export.minPurchase')]: c.minPurchaseAmount || 0,
+    [t('export.validFrom')]: c.validFrom?.split('T')[0] || '',
+    [t('export.validUntil')]: c.validUntil?.split('T')[0] || '',
+    [t('export.maxUses')]: c.maxUses || t('export.unlimited'),
+    [t('export.maxUsesPerCustomer')]: c.maxUsesPerCustomer || t('export.noLimit'),
+    [t('export.used')]: c.usedCount,
+    [t('export.status')]: c.isActive ? t('export.active') : t('export.inactive'),
+  })))
+  ws['!cols'] = [{ wch: 18 }, { wch: 24 }, { wch: 22 }, { wch: 14 }, { wch: 12 }, { wch: 12 }, { wch: 14 }, { wch: 14 }, { wch: 8 }, { wch: 10 }]
+  const wb = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(wb, ws, t('export.sheetCoupons'))
+  XLSX.writeFile(wb, `${fileName}_${toLocalDateStr(new Date())}.xlsx`)
+}
+
+interface CouponForm extends Omit<CreateCouponRequest, 'code'> {
+  code: string
+  /** Generación en lote: prefijo y cantidad de códigos */
+  prefix: string
+  quantity: number
+}
+
+const emptyCouponForm: CouponForm = {
+  code: '',
+  campaign: '',
+  discountType: 'PORCENTAJE',
+  discountValue: 10,
+  maxDiscountAmount: undefined,
+  minPurchaseAmount: undefined,
+  validFrom: '',
+  validUntil: '',
+  maxUses: 1,
+  maxUsesPerCustomer: undefined,
+  isActive: true,
+  prefix: '',
+  quantity: 50,
+}
+
+const MAX_BULK_COUPONS = 1000
+
+const CouponRedemptionsModal = ({ coupon, onClose }: { coupon: Coupon; onClose: () => void }) => {
+  const { t } = useTranslation()
+  const [redemptions, setRedemptions] = useState<CouponRedemption[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    couponService.getRedemptions(coupon.id)
+      .then((res) => setRedemptions((res as CouponRedemption[]) || []))
+      .catch(() => toast.error(t('coupons.redemptionsError')))
+      .finally(() => setLoading(false))
+  }, [coupon.id])
+
+  const totalDiscount = redemptions.reduce((acc, r) => acc + (Number(r.discountAmount) || 0), 0)
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{t('coupons.redemptionsTitle', { code: coupon.code })}</h3>
+            <p className="text-sm text-gray-500">{t('coupons.redemptionsSummary', { count: redemptions.length, amount: formatCurrency(totalDiscount) })}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+        {loading ? (
+          <p className="text-center py-8 text-gray-500">{t('common.loading')}</p>
+        ) : redemptions.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">{t('coupons.notRedeemed')}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {redemptions.map((r) => (
+              <div key={r.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium text-gray-800">{r.invoiceNumber}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDateTime(r.createdAt)}{r.customerName ? ` · ${r.customerName}` : ''}
+                  </p>
+                </div>
+                <span className="font-medium text-green-600">-{formatCurrency(r.discountAmount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/** Cupones por campaña: creación individual, generación en lote y exportación a Excel */
+const CouponsTab = () => {
+  const { t } = useTranslation()
+  const [coupons, setCoupons] = useState<Coupon[]>([])
+  const [loading, setLoading] = useState(true)
+  const [campaignFilter, setCampaignFilter] = useState('')
+  const [modalMode, setModalMode] = useState<'single' | 'bulk' | null>(null)
+  const [form, setForm] = useState<CouponForm>(emptyCouponForm)
+  const [saving, setSaving] = useState(false)
+  const [historyCoupon, setHistoryCoupon] = useState<Coupon | null>(null)
+
+  useEffect(() => {
+    fetchCoupons()
+  }, [])
+
+  const fetchCoupons = async () => {
+    try {
+      setLoading(true)
+      const res = await couponService.getAll()
+      setCoupons((res as Coupon[]) || [])
+    } catch {
+      toast.error(t('coupons.loadError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const campaigns = Array.from(new Set(coupons.map((c) => c.campaign).filter((c): c is string => !!c))).sort()
+  const filtered = campaignFilter ? coupons.filter((c) => c.campaign === campaignFilter) : coupons
+  const campaignStats = campaigns.map((campaign) => {
+    const items = coupons.filter((c) => c.campaign === campaign)
+    return {
+      campaign,
+      codes: items.length,
+      uses: items.reduce((acc, c) => acc + (c.usedCount || 0), 0),
+      redeemedCodes: items.filter((c) => c.usedCount > 0).length,
+    }
+  })
+
+  const openModal = (mode: 'single' | 'bulk') => {
+    setForm({ ...emptyCouponForm, code: mode === 'single' ? generateCouponCodes('', 1)[0] : '', campaign: campaignFilter })
+    setModalMode(mode)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (form.discountValue <= 0 || (form.discountType === 'PORCENTAJE' && form.discountValue > 100)) {
+      toast.error(t('coupons.invalidValue'))
+      return
+    }
+    if (form.validFrom && form.validUntil && form.validFrom > form.validUntil) {
+      toast.error(t('coupons.invalidDates'))
+      return
+    }
+    const { code, prefix, quantity, ...conditions } = form
+    const request = {
+      ...conditions,
+      campaign: conditions.campaign?.trim() || undefined,
+      maxDiscountAmount: conditions.discountType === 'PORCENTAJE' ? conditions.maxDiscountAmount || undefined : undefined,
+      minPurchaseAmount: conditions.minPurchaseAmount || undefined,
+      validFrom: conditions.validFrom || undefined,
+      validUntil: conditions.validUntil || undefined,
+      maxUses: conditions.maxUses || undefined,
+      maxUsesPerCustomer: conditions.maxUsesPerCustomer || undefined,
+    }
+
+    setSaving(true)
+    try {
+      if (modalMode === 'bulk') {
+        if (!request.campaign) {
+          toast.error(t('coupons.campaignRequired'))
+          return
+        }
+        if (quantity < 1 || quantity > MAX_BULK_COUPONS) {
+          toast.error(t('coupons.quantityRange', { max: MAX_BULK_COUPONS }))
+          return
+        }
+        const codes = generateCouponCodes(prefix, quantity, coupons.map((c) => c.code))
+        const created = (await couponService.generate({ ...request, codes })) as Coupon[]
+        exportCouponsToExcel(created, `cupones_${normalizeCouponCode(request.campaign).replace(/[^A-Z0-9]+/g, '_')}`)
+        toast.success(t('coupons.generated', { count: created.length }))
+      } else {
+        if (!code.trim()) {
+          toast.error(t('coupons.codeRequired'))
+          return
+        }
+        await couponService.create({ ...request, code: normalizeCouponCode(code) })
+        toast.success(t('coupons.created'))
+      }
+      setModalMode(null)
+      fetchCoupons()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('coupons.saveError'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (coupon: Coupon) => {
+    try {
+      await couponService.toggle(coupon.id)
+      toast.success(t(!coupon.isActive ? 'coupons.activated' : 'coupons.deactivated'))
+      fetchCoupons()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('coupons.toggleError'))
+    }
+  }
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(t('coupons.deleteConfirm', { code: coupon.code }))) return
+    try {
+      await couponService.delete(coupon.id)
+      toast.success(t('coupons.deleted'))
+      fetchCoupons()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('coupons.deleteError'))
+    }
+  }
+
+  const formatValidity = (coupon: Coupon) => {
+    const from = coupon.validFrom?.split('T')[0]
+    const until = coupon.validUntil?.split('T')[0]
+    if (from && until) return `${from} - ${until}`
+    if (until) return t('coupons.validUntil', { date: until })
+    if (from) return t('coupons.validFrom', { date: from })
+    return t('coupons.noExpiry')
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select value={campaignFilter} onChange={(e) => setCampaignFilter(e.target.value)} className="input-field w-auto">
+          <option value="">{t('coupons.allCampaigns')}</option>
+          {campaigns.map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <div className="flex-1" />
+        <Button variant="secondary" onClick={() => exportCouponsToExcel(filtered, 'cupones')} disabled={filtered.length === 0}>
+          <Download size={18} />
+          {t('common.export')}
+        </Button>
+        <Button variant="secondary" onClick={() => openModal('bulk')}>
+          <Layers size={18} />
+          {t('coupons.generateBatch')}
+        </Button>
+        <Button variant="primary" onClick={() => openModal('single')}>
+          <Plus size={18} />
+          {t('coupons.new')}
+        </Button>
+      </div>
+
+      {campaignStats.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          {campaignStats.map((stat) => (
+            <button
+              key={stat.campaign}
+              type="button"
+              onClick={() => setCampaignFilter(campaignFilter === stat.campaign ? '' : stat.campaign)}
+              className={`card p-4 text-left ${campaignFilter === stat.campaign ? 'ring-2 ring-purple-400' : ''}`}
+            >
+              <p className="font-semibold text-gray-800 truncate">{stat.campaign}</p>
+              <p className="text-sm text-gray-500">
+                {t('coupons.campaignStats', { codes: stat.codes, uses: stat.uses })}
+              </p>
+              <p className="text-xs text-purple-600 mt-1">
+                {t('coupons.redeemedRate', { percent: stat.codes > 0 ? Math.round((stat.redeemedCodes / stat.codes) * 100) : 0 })}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">{t('coupons.loading')}</div>
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <Ticket className="w-16 h-16 mx-auto mb-4 text-gray-300" />
+          <p>{t('coupons.empty')}</p>
+        </div>
+      ) : (
+        <div className="card p-0 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium">{t('coupons.code')}</th>
+                <th className="text-left px-4 py-3 font-medium">{t('coupons.campaign')}</th>
+                <th className="text-left px-4 py-3 font-medium">{t('coupons.discount')}</th>
+                <th className="text-left px-4 py-3 font-medium">{t('coupons.conditions')}</th>
+                <th className="text-center px-4 py-3 font-medium">{t('coupons.uses')}</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {filtered.map((coupon) => (
+                <tr key={coupon.id} className={coupon.isActive ? '' : 'opacity-60'}>
+                  <td className="px-4 py-3 font-mono font-semibold text-gray-800">{coupon.code}</td>
+                  <td className="px-4 py-3 text-gray-600">{coupon.campaign || '-'}</td>
+                  <td className="px-4 py-3 font-medium text-purple-700">{formatCouponValue(coupon)}</td>
+                  <td className="px-4 py-3 text-xs text-gray-500">
+                    <p>{formatValidity(coupon)}</p>
+                    {!!coupon.minPurchaseAmount && <p>{t('coupons.minPurchaseValue', { amount: formatCurrency(coupon.minPurchaseAmount) })}</p>}
+                    {!!coupon.maxUsesPerCustomer && <p>{t('coupons.perCustomer', { count: coupon.maxUsesPerCustomer })}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-center">
+                    {coupon.usedCount} / {coupon.maxUses || '∞'}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end gap-1">
+                      <button onClick={() => setHistoryCoupon(coupon)} className="btn-icon text-gray-500 hover:bg-gray-100" title={t('coupons.redemptions')}>
+                        <History size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleToggle(coupon)}
+                        className={`btn-icon ${coupon.isActive ? 'text-amber-600 hover:bg-amber-50' : 'text-green-600 hover:bg-green-50'}`}
+                        title={coupon.isActive ? t('common.deactivate') : t('common.activate')}
+                      >
+                        {coupon.isActive ? <PowerOff size={16} /> : <Power size={16} />}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(coupon)}
+                        disabled={coupon.usedCount > 0}
+                        className="btn-icon text-red-600 hover:bg-red-50 disabled:opacity-30"
+                        title={coupon.usedCount > 0 ? t('coupons.cannotDelete') : t('common.delete')}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {modalMode && (
+        <div className="modal-overlay">
+          <div className="modal-content-lg animate-scale-in max-w-2xl">
+            <div className="flex items-center justify-between mb-6 pb-4 border-b border-gray-200">
+              <div>
+                <h3 className="text-2xl font-bold text-gray-800">{modalMode === 'bulk' ? t('coupons.batchTitle') : t('coupons.new')}</h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  {modalMode === 'bulk' ? t('coupons.batchHint') : t('coupons.singleHint')}
+                </p>
+              </div>
+              <button onClick={() => setModalMode(null)} className="text-gray-400 hover:text-gray-600 text-2xl font-bold">
+                ✕
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {modalMode === 'bulk' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.prefix')}</label>
+                    <input
+                      type="text"
+                      value={form.prefix}
+                      onChange={(e) => setForm({ ...form, prefix: e.target.value.toUpperCase() })}
+                      className="input-field uppercase"
+                      placeholder={t('coupons.prefixPlaceholder')}
+                      maxLength={10}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">{t('common.quantityRequired')}</label>
+                    <input
+                      type="number"
+                      value={form.quantity || ''}
+                      onChange={(e) => setForm({ ...form, quantity: parseInt(e.target.value) || 0 })}
+                      className="input-field"
+                      min="1"
+                      max={MAX_BULK_COUPONS}
+                      required
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.codeLabel')}</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={form.code}
+                      onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                      className="input-field font-mono uppercase flex-1"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setForm({ ...form, code: generateCouponCodes('', 1, coupons.map((c) => c.code))[0] })}
+                      className="btn-icon bg-gray-100 text-gray-600 hover:bg-gray-200"
+                      title={t('coupons.generateCode')}
+                    >
+                      <RefreshCw size={18} />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.campaign')}{modalMode === 'bulk' ? ' *' : ''}</label>
+                <input
+                  type="text"
+                  value={form.campaign}
+                  onChange={(e) => setForm({ ...form, campaign: e.target.value })}
+                  className="input-field"
+                  list="coupon-campaigns"
+                  placeholder={t('coupons.campaignPlaceholder')}
+                  required={modalMode === 'bulk'}
+                />
+                <datalist id="coupon-campaigns">
+                  {campaigns.map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.discountType')}</label>
+                  <select
+                    value={form.discountType}
+                    onChange={(e) => setForm({ ...form, discountType: e.target.value as CouponForm['discountType'] })}
+                    className="input-field"
+                  >
+                    <option value="PORCENTAJE">{t('pos.discountPercentType')}</option>
+                    <option value="VALOR">{t('pos.discountAmountType')}</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.valueLabel')}</label>
+                  <input
+                    type="number"
+                    value={form.discountValue || ''}
+                    onChange={(e) => setForm({ ...form, discountValue: parseFloat(e.target.value) || 0 })}
+                    className="input-field"
+                    min="0"
+                    max={form.discountType === 'PORCENTAJE' ? 100 : undefined}
+                    step={form.discountType === 'PORCENTAJE' ? 1 : 1000}
+                    required
+                  />
+                </div>
+                {form.discountType === 'PORCENTAJE' && (
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.maxDiscount')}</label>
+                    <input
+                      type="number"
+                      value={form.maxDiscountAmount || ''}
+                      onChange={(e) => setForm({ ...form, maxDiscountAmount: parseFloat(e.target.value) || undefined })}
+                      className="input-field"
+                      min="0"
+                      step="1000"
+                      placeholder={t('coupons.noCap')}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.minPurchase')}</label>
+                  <input
+                    type="number"
+                    value={form.minPurchaseAmount || ''}
+                    onChange={(e) => setForm({ ...form, minPurchaseAmount: parseFloat(e.target.value) || undefined })}
+                    className="input-field"
+                    min="0"
+                    step="1000"
+                    placeholder={t('coupons.noMinimum')}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.validFromLabel')}</label>
+                  <input
+                    type="date"
+                    value={form.validFrom || ''}
+                    onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.validUntilLabel')}</label>
+                  <input
+                    type="date"
+                    value={form.validUntil || ''}
+                    onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.usesPerCode')}</label>
+                  <input
+                    type="number"
+                    value={form.maxUses || ''}
+                    onChange={(e) => setForm({ ...form, maxUses: parseInt(e.target.value) || undefined })}
+                    className="input-field"
+                    min="1"
+                    placeholder={t('coupons.unlimited')}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('coupons.singleUseHint')}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.usesPerCustomer')}</label>
+                  <input
+                    type="number"
+                    value={form.maxUsesPerCustomer || ''}
+                    onChange={(e) => setForm({ ...form, maxUsesPerCustomer: parseInt(e.target.value) || undefined })}
+                    className="input-field"
+                    min="1"
+                    placeholder={t('coupons.noLimit')}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('coupons.perCustomerHint')}</p>
+                </div>
+              </div>
+
+              <div className="flex gap-3 pt-6 border-t border-gray-200">
+                <Button type="submit" variant="primary" className="flex-1 px-6 py-3" disabled={saving}>
+                  {saving ? t('common.saving') : modalMode === 'bulk' ? t('coupons.generateCount', { count: form.quantity || 0 }) : t('common.create')}
+                </Button>
+                <Button type="button" variant="secondary" className="px-6 py-3" onClick={() => setModalMode(null)} disabled={saving}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {historyCoupon && <CouponRedemptionsModal coupon={historyCoupon} onClose={() => setHistoryCoupon(null)} />}
+    </div>
+  )
+}
 
 const PromotionsPage = () => {
+  const { t } = useTranslation()
+  const [activeTab, setActiveTab] = useState<'promotions' | 'coupons'>('promotions')
   const [promotions, setPromotions] = useState<Promotion[]>([])
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
   const [selectedPromotion, setSelectedPromotion] = useState<Promotion | null>(null)
   const [saving, setSaving] = useState(false)
+  const [products, setProducts] = useState<Product[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
 
-  const [formData, setFormData] = useState<CreatePromotionRequest>({
-    name: '',
-    description: '',
-    discountPercent: 10,
-    scheduleType: 'WEEKLY',
-    daysOfWeek: '[]',
-    isActive: true,
-    applyToAllProducts: true,
-    priority: 0,
-  })
+  const [formData, setFormData] = useState<CreatePromotionRequest>(emptyForm)
 
   const weekDays = [
-    { value: 1, label: 'Lun' },
-    { value: 2, label: 'Mar' },
-    { value: 3, label: 'Mié' },
-    { value: 4, label: 'Jue' },
-    { value: 5, label: 'Vie' },
-    { value: 6, label: 'Sáb' },
-    { value: 7, label: 'Dom' },
+    { value: 1, label: t('promotions.day.1') },
+    { value: 2, label: t('promotions.day.2') },
+    { value: 3, label: t('promotions.day.3') },
+    { value: 4, label: t('promotions.day.4') },
+    { value: 5, label: t('promotions.day.5') },
+    { value: 6, label: t('promotions.day.6') },
+    { value: 7, label: t('promotions.day.7') },
   ]
 
   useEffect(() => {
     fetchPromotions()
+    // Catálogo para el alcance y los combos
+    Promise.all([productService.getActive(), categoryService.getAll()])
+      .then(([productsRes, categoriesRes]) => {
+        setProducts((productsRes as Product[]) || [])
+        setCategories((categoriesRes as Category[]) || [])
+      })
+      .catch(() => toast.error(t('promotions.catalogError')))
   }, [])
 
   const fetchPromotions = async () => {
@@ -43,7 +605,7 @@ const PromotionsPage = () => {
       setPromotions((res as Promotion[]) || [])
     } catch (error) {
       console.error('Error loading promotions:', error)
-      toast.error('Error al cargar promociones')
+      toast.error(t('promotions.loadError'))
     } finally {
       setLoading(false)
     }
@@ -51,16 +613,7 @@ const PromotionsPage = () => {
 
   const openNewPromotion = () => {
     setSelectedPromotion(null)
-    setFormData({
-      name: '',
-      description: '',
-      discountPercent: 10,
-      scheduleType: 'WEEKLY',
-      daysOfWeek: '[]',
-      isActive: true,
-      applyToAllProducts: true,
-      priority: 0,
-    })
+    setFormData(emptyForm)
     setShowModal(true)
   }
 
@@ -69,6 +622,7 @@ const PromotionsPage = () => {
     setFormData({
       name: promotion.name,
       description: promotion.description || '',
+      imageUrl: promotion.imageUrl || '',
       discountPercent: promotion.discountPercent,
       scheduleType: promotion.scheduleType,
       daysOfWeek: promotion.daysOfWeek || '[]',
@@ -77,6 +631,17 @@ const PromotionsPage = () => {
       isActive: promotion.isActive,
       applyToAllProducts: promotion.applyToAllProducts,
       priority: promotion.priority,
+      promotionType: getPromotionType(promotion),
+      productIds: promotion.productIds || [],
+      categoryIds: promotion.categoryIds || [],
+      buyQuantity: promotion.buyQuantity || 2,
+      payQuantity: promotion.payQuantity || 1,
+      secondUnitPercent: promotion.secondUnitPercent || 50,
+      comboPrice: promotion.comboPrice || 0,
+      comboItems: promotion.comboItems || [],
+      startTime: promotion.startTime || '',
+      endTime: promotion.endTime || '',
+      minTicketAmount: promotion.minTicketAmount || 0,
     })
     setShowModal(true)
   }
@@ -84,28 +649,57 @@ const PromotionsPage = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!formData.name.trim()) {
-      toast.error('El nombre es requerido')
+      toast.error(t('common.nameIsRequired'))
       return
     }
 
     if (formData.scheduleType === 'SPECIFIC_DATE' && (!formData.startDate || !formData.endDate)) {
-      toast.error('Las fechas son requeridas para promociones de fecha específica')
+      toast.error(t('promotions.datesRequired'))
+      return
+    }
+
+    const type = formData.promotionType || 'PORCENTAJE'
+    if (type !== 'COMBO' && !formData.applyToAllProducts && !formData.productIds?.length && !formData.categoryIds?.length) {
+      toast.error(t('promotions.scopeRequired'))
+      return
+    }
+    if (type === 'NXM' && (formData.payQuantity || 0) >= (formData.buyQuantity || 0)) {
+      toast.error(t('promotions.payLessThanBuy'))
+      return
+    }
+    if (type === 'COMBO' && (!formData.comboItems?.length || !formData.comboPrice)) {
+      toast.error(t('promotions.comboRequired'))
+      return
+    }
+    if (!!formData.startTime !== !!formData.endTime) {
+      toast.error(t('promotions.timeRangeRequired'))
       return
     }
 
+    const payload: CreatePromotionRequest = {
+      ...formData,
+      // Los combos tienen su propio alcance: los productos del combo
+      applyToAllProducts: type === 'COMBO' ? false : formData.applyToAllProducts,
+      productIds: formData.applyToAllProducts ? [] : formData.productIds,
+      categoryIds: formData.applyToAllProducts ? [] : formData.categoryIds,
+      startTime: formData.startTime || undefined,
+      endTime: formData.endTime || undefined,
+      minTicketAmount: formData.minTicketAmount || undefined,
+    }
+
     setSaving(true)
     try {
       if (selectedPromotion) {
-        await promotionService.update(selectedPromotion.id, formData as UpdatePromotionRequest)
-        toast.success('Promoción actualizada')
+        await promotionService.update(selectedPromotion.id, payload as UpdatePromotionRequest)
+        toast.success(t('promotions.updated'))
       } else {
-        await promotionService.create(formData)
-        toast.success('Promoción creada')
+        await promotionService.create(payload)
+        toast.success(t('promotions.created'))
       }
       setShowModal(false)
       fetchPromotions()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al guardar promoción')
+      toast.error(error.response?.data?.message || t('promotions.saveError'))
     } finally {
       setSaving(false)
     }
@@ -114,21 +708,21 @@ const PromotionsPage = () => {
   const handleToggle = async (promotion: Promotion) => {
     try {
       await promotionService.toggle(promotion.id)
-      toast.success(`Promoción ${!promotion.isActive ? 'activada' : 'desactivada'}`)
+      toast.success(t(!promotion.isActive ? 'promotions.activated' : 'promotions.deactivated'))
       fetchPromotions()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al cambiar estado')
+      toast.error(error.response?.data?.message || t('promotions.toggleError'))
     }
   }
 
   const handleDelete = async (id: number) => {
-    if (!confirm('¿Está seguro de eliminar esta promoción?')) return
+    if (!confirm(t('promotions.deleteConfirm'))) return
     try {
       await promotionService.delete(id)
-      toast.success('Promoción eliminada')
+      toast.success(t('promotions.deleted'))
       fetchPromotions()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al eliminar promoción')
+      toast.error(error.response?.data?.message || t('promotions.deleteError'))
     }
   }
 
@@ -146,14 +740,40 @@ const PromotionsPage = () => {
     setFormData({ ...formData, daysOfWeek: JSON.stringify(updated.sort()) })
   }
 
+  const toggleId = (field: 'productIds' | 'categoryIds', id: number) => {
+    const current = formData[field] || []
+    setFormData({ ...formData, [field]: current.includes(id) ? current.filter((x) => x !== id) : [...current, id] })
+  }
+
+  const updateComboItem = (index: number, changes: { productId?: number; quantity?: number }) => {
+    setFormData({
+      ...formData,
+      comboItems: (formData.comboItems || []).map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    })
+  }
+
+  const getProductName = (id: number) => products.find((p) => p.id === id)?.name || t('common.productNumber', { id })
+
+  const formatScope = (promotion: Promotion) => {
+    if (getPromotionType(promotion) === 'COMBO') {
+      return (promotion.comboItems || []).map((i) => `${i.quantity} x ${getProductName(i.productId)}`).join(' + ')
+    }
+    if (promotion.applyToAllProducts) return t('promotions.allProducts')
+    const names = [
+      ...(promotion.categoryIds || []).map((id) => categories.find((c) => c.id === id)?.name || t('promotions.categoryNumber', { id })),
+      ...(promotion.productIds || []).map(getProductName),
+    ]
+    return names.join(', ')
+  }
+
   const formatSchedule = (promotion: Promotion) => {
-    if (promotion.scheduleType === 'DAILY') return 'Todos los días'
+    if (promotion.scheduleType === 'DAILY') return t('promotions.everyDay')
     if (promotion.scheduleType === 'WEEKLY') {
       try {
         const days = JSON.parse(promotion.daysOfWeek || '[]')
-        return weekDays.filter(wd => days.includes(wd.value)).map(wd => wd.label).join(', ') || 'Sin días'
+        return weekDays.filter(wd => days.includes(wd.value)).map(wd => wd.label).join(', ') || t('promotions.noDays')
       } catch {
-        return 'Sin días'
+        return t('promotions.noDays')
       }
     }
     if (promotion.scheduleType === 'SPECIFIC_DATE') {
@@ -166,21 +786,45 @@ const PromotionsPage = () => {
     <div className="p-6">
       <div className="flex items-center justify-between mb-6">
         <div>
-          <h1 className="text-2xl font-bold text-gray-800">Promociones y Descuentos</h1>
-          <p className="text-sm text-gray-500 mt-1">Gestiona descuentos programados por día</p>
+          <h1 className="text-2xl font-bold text-gray-800">{t('promotions.title')}</h1>
+          <p className="text-sm text-gray-500 mt-1">{t('promotions.subtitle')}</p>
         </div>
-        <Button variant="primary" onClick={openNewPromotion}>
-          <Plus size={20} />
-          Nueva Promoción
-        </Button>
+        {activeTab === 'promotions' && (
+          <Button variant="primary" onClick={openNewPromotion}>
+            <Plus size={20} />
+            {t('promotions.new')}
+          </Button>
+        )}
       </div>
 
-      {loading ? (
-        <div className="text-center py-12 text-gray-500">Cargando promociones...</div>
+      <div className="flex gap-2 mb-6">
+        {([
+          { value: 'promotions', label: t('promotions.tabPromotions'), icon: Tag },
+          { value: 'coupons', label: t('promotions.tabCoupons'), icon: Ticket },
+        ] as const).map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => setActiveTab(value)}
+            className={`flex items-center gap-2 px-6 py-3 rounded-xl font-medium transition-all ${
+              activeTab === value
+                ? 'bg-gradient-to-r from-primary-600 to-primary-700 text-white shadow-soft'
+                : 'bg-white text-gray-600 hover:bg-primary-50'
+            }`}
+          >
+            <Icon size={18} />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'coupons' ? (
+        <CouponsTab />
+      ) : loading ? (
+        <div className="text-center py-12 text-gray-500">{t('promotions.loading')}</div>
       ) : promotions.length === 0 ? (
         <div className="text-center py-12 text-gray-500">
           <Tag className="w-16 h-16 mx-auto mb-4 text-gray-300" />
-          <p>No hay promociones creadas</p>
+          <p>{t('promotions.empty')}</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
@@ -193,7 +837,7 @@ const PromotionsPage = () => {
                 <div className="flex-1">
                   <h3 className="font-bold text-gray-800 flex items-center gap-2">
                     {promo.name}
-                    {promo.isActive && <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">Activa</span>}
+                    {promo.isActive && <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">{t('promotions.active')}</span>}
                   </h3>
                   {promo.description && <p className="text-sm text-gray-500 mt-1">{promo.description}</p>}
                 </div>
@@ -202,12 +846,27 @@ const PromotionsPage = () => {
               <div className="space-y-2 mb-4">
                 <div className="flex items-center gap-2 text-sm">
                   <Percent size={16} className="text-primary-600" />
-                  <span className="font-bold text-primary-600">{promo.discountPercent}% de descuento</span>
+                  <span className="font-bold text-primary-600">
+                    {getPromotionType(promo) === 'PORCENTAJE' ? t('promotions.percentOff', { percent: promo.discountPercent }) : describePromotion(promo)}
+                  </span>
+                </div>
+                <div className="flex items-start gap-2 text-sm text-gray-600">
+                  <Package size={16} className="flex-shrink-0 mt-0.5" />
+                  <span className="line-clamp-2">{formatScope(promo)}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <Calendar size={16} />
                   <span>{formatSchedule(promo)}</span>
                 </div>
+                {promo.startTime && promo.endTime && (
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Clock size={16} />
+                    <span>{promo.startTime} - {promo.endTime}</span>
+                  </div>
+                )}
+                {!!promo.minTicketAmount && (
+                  <p className="text-xs text-gray-500">{t('promotions.minPurchaseValue', { amount: formatCurrency(promo.minTicketAmount) })}</p>
+                )}
               </div>
 
               <div className="flex items-center gap-2">
@@ -241,9 +900,9 @@ const PromotionsPage = () => {
             <div className="flex items-center justify-between mb-6 pb-4 border-b border-gray-200">
               <div>
                 <h3 className="text-2xl font-bold text-gray-800">
-                  {selectedPromotion ? 'Editar Promoción' : 'Nueva Promoción'}
+                  {selectedPromotion ? t('promotions.edit') : t('promotions.new')}
                 </h3>
-                <p className="text-sm text-gray-500 mt-1">Define los parámetros de la promoción</p>
+                <p className="text-sm text-gray-500 mt-1">{t('promotions.formHint')}</p>
               </div>
               <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600 text-2xl font-bold">
                 ✕
@@ -255,38 +914,81 @@ const PromotionsPage = () => {
               <div className="bg-gray-50 rounded-xl p-5 space-y-4">
                 <h4 className="text-sm font-bold text-gray-700 uppercase tracking-wide flex items-center gap-2">
                   <Tag size={16} />
-                  Información Básica
+                  {t('promotions.basicInfo')}
                 </h4>
                 
                 <div>
-                  <label className="block text-sm font-semibold text-gray-700 mb-2">Nombre de la Promoción *</label>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.nameLabel')}</label>
                   <input
                     type="text"
                     value={formData.name}
                     onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                     className="input-field"
-                    placeholder="Ej: Martes de Descuento"
+                    placeholder={t('promotions.namePlaceholder')}
                     required
                   />
                 </div>
 
                 <div>
-                  <label className="block text-sm font-semibold text-gray-700 mb-2">Descripción</label>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('common.description')}</label>
                   <textarea
                     value={formData.description}
                     onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                     className="input-field"
                     rows={3}
-                    placeholder="Breve descripción de la promoción..."
+                    placeholder={t('promotions.descriptionPlaceholder')}
                   />
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.imageUrl')}</label>
+                  <input
+                    type="url"
+                    value={formData.imageUrl}
+                    onChange={(e) => setFormData({ ...formData, imageUrl: e.target.value })}
+                    className="input-field"
+                    placeholder="https://..."
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('promotions.imageHint')}</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.priority')}</label>
+                  <input
+                    type="number"
+                    value={formData.priority}
+                    onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })}
+                    className="input-field"
+                    min="0"
+                    placeholder="0"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('promotions.priorityHint')}</p>
+                </div>
+              </div>
+
+              {/* Sección: Regla */}
+              <div className="bg-amber-50 rounded-xl p-5 space-y-4">
+                <h4 className="text-sm font-bold text-gray-700 uppercase tracking-wide flex items-center gap-2">
+                  <Percent size={16} />
+                  {t('promotions.rule')}
+                </h4>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.typeLabel')}</label>
+                  <select
+                    value={formData.promotionType}
+                    onChange={(e) => setFormData({ ...formData, promotionType: e.target.value as PromotionType })}
+                    className="input-field"
+                  >
+                    {PROMOTION_TYPES.map((type) => (
+                      <option key={type} value={type}>{getPromotionTypeLabel(type)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {formData.promotionType === 'PORCENTAJE' && (
                   <div>
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">
-                      <Percent size={14} className="inline mr-1" />
-                      Porcentaje de Descuento *
-                    </label>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.discountPercent')}</label>
                     <input
                       type="number"
                       value={formData.discountPercent}
@@ -298,18 +1000,173 @@ const PromotionsPage = () => {
                       required
                     />
                   </div>
+                )}
+
+                {formData.promotionType === 'NXM' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.buy')}</label>
+                      <input
+                        type="number"
+                        value={formData.buyQuantity}
+                        onChange={(e) => setFormData({ ...formData, buyQuantity: parseInt(e.target.value) || 0 })}
+                        className="input-field"
+                        min="2"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.pay')}</label>
+                      <input
+                        type="number"
+                        value={formData.payQuantity}
+                        onChange={(e) => setFormData({ ...formData, payQuantity: parseInt(e.target.value) || 0 })}
+                        className="input-field"
+                        min="1"
+                        required
+                      />
+                    </div>
+                    <p className="col-span-2 text-xs text-gray-500">{t('promotions.nxmHint')}</p>
+                  </div>
+                )}
+
+                {formData.promotionType === 'SEGUNDA_UNIDAD' && (
                   <div>
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">Prioridad</label>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.secondUnitPercent')}</label>
                     <input
                       type="number"
-                      value={formData.priority}
-                      onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })}
+                      value={formData.secondUnitPercent}
+                      onChange={(e) => setFormData({ ...formData, secondUnitPercent: parseFloat(e.target.value) || 0 })}
                       className="input-field"
-                      min="0"
-                      placeholder="0"
+                      min="1"
+                      max="100"
+                      required
                     />
-                    <p className="text-xs text-gray-500 mt-1">Mayor = más prioridad</p>
                   </div>
+                )}
+
+                {formData.promotionType === 'COMBO' ? (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.comboPrice')}</label>
+                      <input
+                        type="number"
+                        value={formData.comboPrice || ''}
+                        onChange={(e) => setFormData({ ...formData, comboPrice: parseFloat(e.target.value) || 0 })}
+                        className="input-field"
+                        min="0"
+                        step="100"
+                        required
+                      />
+                    </div>
+                    <label className="block text-sm font-semibold text-gray-700">{t('promotions.comboProducts')}</label>
+                    {(formData.comboItems || []).map((item, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          value={item.quantity}
+                          onChange={(e) => updateComboItem(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                          className="input-field w-20"
+                          min="1"
+                        />
+                        <select
+                          value={item.productId}
+                          onChange={(e) => updateComboItem(index, { productId: Number(e.target.value) })}
+                          className="input-field flex-1"
+                        >
+                          {products.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => setFormData({ ...formData, comboItems: (formData.comboItems || []).filter((_, i) => i !== index) })}
+                          className="btn-icon text-red-500 hover:bg-red-50"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      disabled={products.length === 0}
+                      onClick={() => setFormData({ ...formData, comboItems: [...(formData.comboItems || []), { productId: products[0].id, quantity: 1 }] })}
+                    >
+                      <Plus size={16} />
+                      {t('promotions.addProduct')}
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <label className="block text-sm font-semibold text-gray-700">{t('promotions.appliesTo')}</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[true, false].map((all) => (
+                        <button
+                          key={String(all)}
+                          type="button"
+                          onClick={() => setFormData({ ...formData, applyToAllProducts: all })}
+                          className={`py-2 rounded-xl border-2 text-sm font-medium transition-colors ${
+                            formData.applyToAllProducts === all ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-200 bg-white text-gray-600'
+                          }`}
+                        >
+                          {all ? t('promotions.allProducts') : t('promotions.productsOrCategories')}
+                        </button>
+                      ))}
+                    </div>
+                    {!formData.applyToAllProducts && (
+                      <>
+                        <div className="flex flex-wrap gap-2">
+                          {categories.map((c) => (
+                            <button
+                              key={c.id}
+                              type="button"
+                              onClick={() => toggleId('categoryIds', c.id)}
+                              className={`px-3 py-1 text-xs font-medium rounded-full ${
+                                formData.categoryIds?.includes(c.id) ? 'bg-primary-600 text-white' : 'bg-white border border-gray-300 text-gray-600'
+                              }`}
+                            >
+                              {c.name}
+                            </button>
+                          ))}
+                        </div>
+                        <select
+                          value=""
+                          onChange={(e) => e.target.value && toggleId('productIds', Number(e.target.value))}
+                          className="input-field"
+                        >
+                          <option value="">{t('promotions.addProductOption')}</option>
+                          {products.filter((p) => !formData.productIds?.includes(p.id)).map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                        <div className="flex flex-wrap gap-2">
+                          {(formData.productIds || []).map((id) => (
+                            <span key={id} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-white border border-gray-300 rounded-full text-xs text-gray-700">
+                              {getProductName(id)}
+                              <button type="button" onClick={() => toggleId('productIds', id)} className="p-0.5 rounded-full hover:bg-gray-100">
+                                <X size={12} />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('coupons.minPurchase')}</label>
+                  <input
+                    type="number"
+                    value={formData.minTicketAmount || ''}
+                    onChange={(e) => setFormData({ ...formData, minTicketAmount: parseFloat(e.target.value) || 0 })}
+                    className="input-field"
+                    min="0"
+                    step="1000"
+                    placeholder={t('coupons.noMinimum')}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{t('promotions.minTicketHint')}</p>
                 </div>
               </div>
 
@@ -317,25 +1174,25 @@ const PromotionsPage = () => {
               <div className="bg-primary-50 rounded-xl p-5 space-y-4">
                 <h4 className="text-sm font-bold text-gray-700 uppercase tracking-wide flex items-center gap-2">
                   <Calendar size={16} />
-                  Programación
+                  {t('promotions.scheduling')}
                 </h4>
                 
                 <div>
-                  <label className="block text-sm font-semibold text-gray-700 mb-2">Tipo de Programación *</label>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.scheduleType')}</label>
                   <select
                     value={formData.scheduleType}
                     onChange={(e) => setFormData({ ...formData, scheduleType: e.target.value as any })}
                     className="input-field"
                   >
-                    <option value="DAILY">🌐 Diario (Todos los días)</option>
-                    <option value="WEEKLY">📅 Semanal (Días específicos)</option>
-                    <option value="SPECIFIC_DATE">📆 Fecha Específica (Rango)</option>
+                    <option value="DAILY">{t('promotions.scheduleDaily')}</option>
+                    <option value="WEEKLY">{t('promotions.scheduleWeekly')}</option>
+                    <option value="SPECIFIC_DATE">{t('promotions.scheduleSpecificDate')}</option>
                   </select>
                 </div>
 
                 {formData.scheduleType === 'WEEKLY' && (
                   <div>
-                    <label className="block text-sm font-semibold text-gray-700 mb-3">Selecciona los días de la semana</label>
+                    <label className="block text-sm font-semibold text-gray-700 mb-3">{t('promotions.selectDays')}</label>
                     <div className="grid grid-cols-7 gap-3">
                       {weekDays.map(day => (
                         <button
@@ -358,7 +1215,7 @@ const PromotionsPage = () => {
                 {formData.scheduleType === 'SPECIFIC_DATE' && (
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <label className="block text-sm font-semibold text-gray-700 mb-2">Fecha de Inicio *</label>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.startDate')}</label>
                       <input
                         type="date"
                         value={formData.startDate || ''}
@@ -368,7 +1225,7 @@ const PromotionsPage = () => {
                       />
                     </div>
                     <div>
-                      <label className="block text-sm font-semibold text-gray-700 mb-2">Fecha de Fin *</label>
+                      <label className="block text-sm font-semibold text-gray-700 mb-2">{t('promotions.endDate')}</label>
                       <input
                         type="date"
                         value={formData.endDate || ''}
@@ -379,6 +1236,28 @@ const PromotionsPage = () => {
                     </div>
                   </div>
                 )}
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    <Clock size={14} className="inline mr-1" />
+                    {t('promotions.timeRange')}
+                  </label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input
+                      type="time"
+                      value={formData.startTime || ''}
+                      onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                      className="input-field"
+                    />
+                    <input
+                      type="time"
+                      value={formData.endTime || ''}
+                      onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                      className="input-field"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">{t('promotions.timeRangeHint')}</p>
+                </div>
               </div>
 
               {/* Sección: Estado */}
@@ -392,18 +1271,18 @@ const PromotionsPage = () => {
                     className="w-5 h-5 rounded border-gray-300 text-green-600 focus:ring-green-500"
                   />
                   <label htmlFor="isActive" className="text-sm font-semibold text-gray-700">
-                    {formData.isActive ? '✅ Activar promoción inmediatamente' : '⏸️ Mantener promoción inactiva'}
+                    {formData.isActive ? t('promotions.activateNow') : t('promotions.keepInactive')}
                   </label>
                 </div>
-                <p className="text-xs text-gray-600 mt-2 ml-8">Las promociones inactivas no se aplicarán hasta que las actives manualmente</p>
+                <p className="text-xs text-gray-600 mt-2 ml-8">{t('promotions.inactiveHint')}</p>
               </div>
 
               <div className="flex gap-3 pt-6 border-t border-gray-200 mt-6">
                 <Button type="submit" variant="primary" className="flex-1 px-6 py-3" disabled={saving}>
-                  {saving ? 'Guardando...' : selectedPromotion ? 'Actualizar' : 'Crear'}
+                  {saving ? t('common.saving') : selectedPromotion ? t('common.update') : t('common.create')}
                 </Button>
                 <Button type="button" variant="secondary" className="px-6 py-3" onClick={() => setShowModal(false)} disabled={saving}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
               </div>
             </form>
@@ -1,15 +1,28 @@
 import { useState, useEffect } from 'react'
 import { useSelector } from 'react-redux'
-import { Download, BarChart3, TrendingUp, DollarSign, Loader2, Package, CreditCard } from 'lucide-react'
+import { Download, BarChart3, TrendingUp, DollarSign, Loader2, Package, CreditCard, RotateCcw, PencilLine, Gift, Coins, Banknote } from 'lucide-react'
 import toast from 'react-hot-toast'
 import Button from '@/shared/components/ui/Button'
 import { reportService, SalesSummary, TopProduct, TopCustomer, InventorySummary, PaymentMethodStat } from '@/core/api/reportService'
 import { invoiceService } from '@/core/api/invoiceService'
+import { creditNoteService } from '@/core/api/creditNoteService'
+import { priceOverrideService } from '@/core/api/priceOverrideService'
+import { authorizationService } from '@/core/api/authorizationService'
+import { giftCardService } from '@/core/api/giftCardService'
+import { CreditNote, GiftCardTransaction, PriceOverrideRecord, SupervisorAuthorization } from '@/types'
 import { RootState } from '@/app/store'
 import XLSX from 'xlsx-js-style'
 import DateRangeFilter, { toLocalDateStr } from '@/shared/components/DateRangeFilter'
+import { getPaymentMethodLabel, getPaymentLineLabel, getInvoicePayments } from '@/shared/utils/payments'
+import { getCreditNotesTotal } from '@/shared/utils/creditNotes'
+import { getGiftCardTransactionLabel, GiftCardActivity, summarizeGiftCardActivity } from '@/shared/utils/giftCards'
+import { TipStaffSummary, summarizeTipsByStaff } from '@/shared/utils/tips'
+import { ForeignCashTotal, formatForeignCurrency, summarizeForeignCash } from '@/shared/utils/currency'
+import { formatCurrency, getExcelCurrencyFormat } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 const ReportsPage = () => {
+  const { t } = useTranslation()
   const { theme, company } = useSelector((state: RootState) => state.settings)
   const [loading, setLoading] = useState(true)
   const [dateRange, setDateRange] = useState({
@@ -43,14 +56,18 @@ const ReportsPage = () => {
       setPaymentMethods(payments as PaymentMethodStat[])
     } catch (error) {
       console.error('Error loading reports:', error)
-      toast.error('Error al cargar reportes')
+      toast.error(t('reports.loadError'))
     } finally {
       setLoading(false)
     }
   }
 
   // Calculate totals for visual cards
-  const [totals, setTotals] = useState<any>({ total: 0, subtotal: 0, tax: 0, discount: 0, serviceCharge: 0, cash: 0, card: 0, other: 0 })
+  const [totals, setTotals] = useState<any>({ total: 0, subtotal: 0, tax: 0, discount: 0, serviceCharge: 0, cash: 0, card: 0, other: 0, refunds: 0, refundCount: 0 })
+  const [priceOverrides, setPriceOverrides] = useState<PriceOverrideRecord[]>([])
+  const [giftCardActivity, setGiftCardActivity] = useState<GiftCardActivity | null>(null)
+  const [tipsByStaff, setTipsByStaff] = useState<TipStaffSummary[]>([])
+  const [foreignCash, setForeignCash] = useState<ForeignCashTotal[]>([])
   
   useEffect(() => {
     const calculateTotals = async () => {
@@ -58,8 +75,22 @@ const ReportsPage = () => {
         const startDateTime = `${dateRange.start}T00:00:00`
         const endDateTime = `${dateRange.end}T23:59:59`
         
-        const invoices = (await invoiceService.getByDateRange(startDateTime, endDateTime).catch(() => [])) as any[]
+        const [invoicesRes, creditNotesRes, overridesRes, giftCardRes] = await Promise.all([
+          invoiceService.getByDateRange(startDateTime, endDateTime).catch(() => []),
+          creditNoteService.getByDateRange(startDateTime, endDateTime).catch(() => []),
+          priceOverrideService.getByDateRange(startDateTime, endDateTime).catch(() => []),
+          giftCardService.getTransactionsByDateRange(startDateTime, endDateTime).catch(() => []),
+        ])
+        const invoices = invoicesRes as any[]
+        const creditNotes = creditNotesRes as CreditNote[]
+        setPriceOverrides(overridesRes as PriceOverrideRecord[])
+        // Las cargas de tarjetas de regalo no son facturas: quedan fuera de las ventas
+        setGiftCardActivity(summarizeGiftCardActivity(giftCardRes as GiftCardTransaction[]))
+        // Las propinas se pagan con la cuenta pero no son ventas: se liquidan por empleado
+        setTipsByStaff(summarizeTipsByStaff(invoices))
         const invoicesCompleted = invoices.filter((i) => i.status === 'COMPLETADA')
+        // El efectivo en divisa ya suma en Efectivo por su valor en pesos; aquí se ve por moneda
+        setForeignCash(summarizeForeignCash(invoicesCompleted.flatMap((inv) => getInvoicePayments(inv))))
         
         const safeNumber = (v: any) => {
           const n = Number(v)
@@ -68,7 +99,6 @@ const ReportsPage = () => {
         
         const calculatedTotals = invoicesCompleted.reduce(
           (acc, inv) => {
-            const method = inv.paymentMethod
             const total = safeNumber(inv.total)
             const subtotal = safeNumber(inv.subtotal)
             const tax = safeNumber(inv.taxAmount)
@@ -81,16 +111,24 @@ const ReportsPage = () => {
             acc.discount += discount
             acc.serviceCharge += serviceCharge
 
-            if (method === 'EFECTIVO') acc.cash += total
-            else if (['TRANSFERENCIA', 'TARJETA_CREDITO', 'TARJETA_DEBITO'].includes(method || '')) acc.card += total
-            else acc.other += total
+            // Las facturas con pago mixto se reparten según su desglose
+            getInvoicePayments(inv).forEach((p) => {
+              const amount = safeNumber(p.amount)
+              if (p.paymentMethod === 'EFECTIVO') acc.cash += amount
+              else if (['TRANSFERENCIA', 'TARJETA_CREDITO', 'TARJETA_DEBITO'].includes(p.paymentMethod)) acc.card += amount
+              else acc.other += amount
+            })
 
             return acc
           },
           { total: 0, subtotal: 0, tax: 0, discount: 0, serviceCharge: 0, cash: 0, card: 0, other: 0 }
         )
         
-        setTotals(calculatedTotals)
+        setTotals({
+          ...calculatedTotals,
+          refunds: getCreditNotesTotal(creditNotes),
+          refundCount: creditNotes.length,
+        })
       } catch (error) {
         console.error('Error calculating totals:', error)
       }
@@ -99,37 +137,13 @@ const ReportsPage = () => {
     calculateTotals()
   }, [dateRange])
 
-  const formatCurrency = (value: number) =>
-    new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(value || 0)
-
-  const getPaymentMethodLabel = (method: string) => {
-    switch (method) {
-      case 'EFECTIVO':
-        return 'Efectivo'
-      case 'TARJETA_CREDITO':
-        return 'Tarjeta Crédito'
-      case 'TARJETA_DEBITO':
-        return 'Tarjeta Débito'
-      case 'TRANSFERENCIA':
-        return 'Transferencia'
-      case 'NEQUI':
-        return 'Nequi'
-      case 'DAVIPLATA':
-        return 'Daviplata'
-      case 'MIXTO':
-        return 'Mixto'
-      default:
-        return method
-    }
-  }
-
   useEffect(() => {
     fetchReports()
   }, [dateRange])
 
   const exportToExcel = async () => {
     if (!salesSummary) {
-      toast.error('No hay datos para exportar')
+      toast.error(t('export.noData'))
       return
     }
 
@@ -150,15 +164,34 @@ const ReportsPage = () => {
       return getPaymentMethodLabel(m)
     }
 
-    const loadingToast = toast.loading('Generando Excel...')
+    // Ej: "Mixto (Efectivo $20.000 + Nequi $15.000)"
+    const getInvoicePaymentLabel = (inv: any) => {
+      const payments = getInvoicePayments(inv)
+      if (payments.length <= 1) return getPaymentMethodLabelLocal(inv.paymentMethod)
+      const parts = payments.map((p) => `${getPaymentLineLabel(p)} ${formatCurrency(p.amount)}`)
+      return `${getPaymentMethodLabel('MIXTO')} (${parts.join(' + ')})`
+    }
+
+    const loadingToast = toast.loading(t('export.generating'))
     try {
-      const invoices = (await invoiceService.getByDateRange(startDateTime, endDateTime).catch(() => [])) as any[]
+      const [invoicesRes, creditNotesRes, giftCardRes] = await Promise.all([
+        invoiceService.getByDateRange(startDateTime, endDateTime).catch(() => []),
+        creditNoteService.getByDateRange(startDateTime, endDateTime).catch(() => []),
+        giftCardService.getTransactionsByDateRange(startDateTime, endDateTime).catch(() => []),
+      ])
+      const invoices = invoicesRes as any[]
+      const creditNotes = creditNotesRes as CreditNote[]
+      const refunds = getCreditNotesTotal(creditNotes)
+      const giftCardTransactions = giftCardRes as GiftCardTransaction[]
+      const giftCards = summarizeGiftCardActivity(giftCardTransactions)
+      const tips = summarizeTipsByStaff(invoices)
+      const tipsTotal = tips.reduce((acc, tip) => acc + tip.total, 0)
 
       const invoicesCompleted = invoices.filter((i) => (i as any).status === 'COMPLETADA')
+      const foreign = summarizeForeignCash(invoicesCompleted.flatMap((inv) => getInvoicePayments(inv)))
 
       const totals = invoicesCompleted.reduce(
         (acc, inv) => {
-          const method = (inv as any).paymentMethod
           const total = safeNumber((inv as any).total)
           const subtotal = safeNumber((inv as any).subtotal)
           const tax = safeNumber((inv as any).taxAmount)
@@ -171,9 +204,12 @@ const ReportsPage = () => {
           acc.discount += discount
           acc.serviceCharge += serviceCharge
 
-          if (isCash(method)) acc.cash += total
-          else if (isTransfer(method)) acc.card += total
-          else acc.other += total
+          getInvoicePayments(inv).forEach((p) => {
+            const amount = safeNumber(p.amount)
+            if (isCash(p.paymentMethod)) acc.cash += amount
+            else if (isTransfer(p.paymentMethod)) acc.card += amount
+            else acc.other += amount
+          })
 
           return acc
         },
@@ -186,7 +222,7 @@ const ReportsPage = () => {
       // Style definitions using theme colors
       const primaryColor = hexToArgb(theme.primaryColor || '#9b87f5')
       const secondaryColor = hexToArgb(theme.secondaryColor || '#7c3aed')
-      const companyName = company.companyName || 'Mi Negocio'
+      const companyName = company.companyName || t('export.defaultCompany')
 
       const titleStyle: any = {
         font: { bold: true, sz: 16, color: { rgb: 'FFFFFF' } },
@@ -206,7 +242,7 @@ const ReportsPage = () => {
         },
       }
 
-      const currencyFmt = '"$"#,##0'
+      const currencyFmt = getExcelCurrencyFormat(company.currency)
 
       const currencyStyle: any = {
         numFmt: currencyFmt,
@@ -240,30 +276,40 @@ const ReportsPage = () => {
       // === RESUMEN SHEET ===
       const resumenAoA: any[][] = [
         [companyName],
-        ['REPORTE DE VENTAS'],
-        [`Período: ${dateRange.start} a ${dateRange.end}`],
+        [t('export.salesReport')],
+        [t('export.period', { start: dateRange.start, end: dateRange.end })],
+        [],
+        [t('export.concept'), t('export.value')],
+        [t('export.totalSales'), safeNumber((salesSummary as any).totalSales)],
+        [t('export.transactions'), safeNumber((salesSummary as any).salesCount ?? (salesSummary as any).totalTransactions)],
+        [t('export.averageTicket'), safeNumber((salesSummary as any).averageTicket)],
+        [t('export.totalCost'), safeNumber((salesSummary as any).totalCost)],
+        [t('export.netProfit'), safeNumber((salesSummary as any).grossProfit ?? (salesSummary as any).totalProfit)],
+        [t('export.profitMargin'), safeNumber((salesSummary as any).profitMargin)],
+        [t('export.serviceChargeTotal'), totals.serviceCharge],
+        [t('export.ownerNet'), totals.total - totals.serviceCharge],
+        [],
+        [t('export.cashClosing')],
+        [t('export.invoiced'), totals.total],
+        [t('export.subtotal'), totals.subtotal],
+        [t('export.taxes'), totals.tax],
+        [t('export.discounts'), totals.discount],
+        [t('export.serviceChargeTotal'), totals.serviceCharge],
+        [t('export.ownerNet'), totals.total - totals.serviceCharge],
+        [],
+        [t('export.byPaymentMethod')],
+        [t('export.cashTotal'), totals.cash],
+        [t('export.transferTotal'), totals.card],
         [],
-        ['Concepto', 'Valor'],
-        ['Ventas Totales', safeNumber((salesSummary as any).totalSales)],
-        ['Transacciones', safeNumber((salesSummary as any).salesCount ?? (salesSummary as any).totalTransactions)],
-        ['Ticket Promedio', safeNumber((salesSummary as any).averageTicket)],
-        ['Costo Total', safeNumber((salesSummary as any).totalCost)],
-        ['Ganancia Neta', safeNumber((salesSummary as any).grossProfit ?? (salesSummary as any).totalProfit)],
-        ['Margen Ganancia %', safeNumber((salesSummary as any).profitMargin)],
-        ['Total Servicio (Propinas)', totals.serviceCharge],
-        ['Total Neto Dueño', totals.total - totals.serviceCharge],
+        [t('export.refunds'), refunds],
+        [t('export.netWithRefunds'), totals.total - totals.serviceCharge - refunds],
         [],
-        ['CIERRE DE CAJA'],
-        ['Total Facturado', totals.total],
-        ['Subtotal', totals.subtotal],
-        ['Impuestos', totals.tax],
-        ['Descuentos', totals.discount],
-        ['Total Servicio (Propinas)', totals.serviceCharge],
-        ['Total Neto Dueño', totals.total - totals.serviceCharge],
+        [t('export.giftCardsSection')],
+        [t('export.giftCardsLoaded'), giftCards.loaded],
+        [t('export.giftCardsRedeemed'), giftCards.redeemed],
         [],
-        ['DESGLOSE POR MÉTODO DE PAGO'],
-        ['Total Efectivo', totals.cash],
-        ['Total Transferencia', totals.card],
+        [t('export.tipsSection')],
+        [t('export.tipsCollected'), tipsTotal],
       ]
 
       const wsResumen = XLSX.utils.aoa_to_sheet(resumenAoA)
@@ -274,6 +320,8 @@ const ReportsPage = () => {
         { s: { r: 12, c: 0 }, e: { r: 12, c: 1 } },
         { s: { r: 18, c: 0 }, e: { r: 18, c: 1 } },
         { s: { r: 20, c: 0 }, e: { r: 20, c: 1 } },
+        { s: { r: 28, c: 0 }, e: { r: 28, c: 1 } },
+        { s: { r: 32, c: 0 }, e: { r: 32, c: 1 } },
       ]
 
       // Apply styles to Resumen
@@ -289,9 +337,11 @@ const ReportsPage = () => {
       if (wsResumen['A13']) wsResumen['A13'].s = sectionStyle
       if (wsResumen['A19']) wsResumen['A19'].s = sectionStyle
       if (wsResumen['A21']) wsResumen['A21'].s = sectionStyle
+      if (wsResumen['A29']) wsResumen['A29'].s = sectionStyle
+      if (wsResumen['A33']) wsResumen['A33'].s = sectionStyle
 
       // Apply label and currency styles to data rows
-      const currencyRows = [5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 21, 22]
+      const currencyRows = [5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 21, 22, 24, 25, 29, 30, 33]
       currencyRows.forEach(r => {
         const labelRef = `A${r + 1}`
         const valRef = `B${r + 1}`
@@ -307,17 +357,20 @@ const ReportsPage = () => {
       })
 
       autoFitColumns(wsResumen, resumenAoA, 20)
-      XLSX.utils.book_append_sheet(wb, wsResumen, 'Resumen')
+      XLSX.utils.book_append_sheet(wb, wsResumen, t('export.sheetSummary'))
 
       // === FACTURAS SHEET ===
-      const invoicesHeaders = ['Fecha', 'Número', 'Tipo', 'Estado', 'Cliente', 'Método Pago', 'Subtotal', 'Impuesto', 'Descuento', 'Total', 'Recibido', 'Cambio']
+      const invoicesHeaders = [
+        t('export.date'), t('export.number'), t('export.type'), t('export.status'), t('export.customer'), t('export.paymentMethod'),
+        t('export.subtotal'), t('export.tax'), t('export.discount'), t('export.total'), t('export.received'), t('export.change'),
+      ]
       const invoicesData = invoices.map((inv) => [
         (inv as any).createdAt ? String((inv as any).createdAt).replace('T', ' ').slice(0, 19) : '',
         (inv as any).invoiceNumber || '',
         (inv as any).invoiceType || '',
         (inv as any).status || '',
         (inv as any).customer?.fullName || '',
-        getPaymentMethodLabelLocal((inv as any).paymentMethod),
+        getInvoicePaymentLabel(inv),
         safeNumber((inv as any).subtotal),
         safeNumber((inv as any).taxAmount),
         safeNumber((inv as any).discountAmount),
@@ -344,7 +397,173 @@ const ReportsPage = () => {
       })
 
       autoFitColumns(wsInvoices, invoicesAoA, 12)
-      XLSX.utils.book_append_sheet(wb, wsInvoices, 'Facturas')
+      XLSX.utils.book_append_sheet(wb, wsInvoices, t('export.sheetInvoices'))
+
+      // === NOTAS CRÉDITO SHEET ===
+      if (creditNotes.length > 0) {
+        const cnHeaders = [
+          t('export.date'), t('export.number'), t('export.invoice'), t('export.reason'), t('export.refund'),
+          t('export.products'), t('export.subtotal'), t('export.tax'), t('export.total'),
+        ]
+        const cnData = creditNotes.map((n) => [
+          n.createdAt ? String(n.createdAt).replace('T', ' ').slice(0, 19) : '',
+          n.creditNoteNumber,
+          n.invoiceNumber,
+          n.reason,
+          getPaymentMethodLabel(n.refundMethod),
+          (n.details || []).map((d) => `${d.quantity} x ${d.productName}${d.disposition === 'MERMA' ? t('export.waste') : ''}`).join(', '),
+          safeNumber(n.subtotal),
+          safeNumber(n.taxAmount),
+          safeNumber(n.total),
+        ])
+        const cnAoA = [cnHeaders, ...cnData]
+        const wsCn = XLSX.utils.aoa_to_sheet(cnAoA)
+        cnHeaders.forEach((_, i) => {
+          const ref = XLSX.utils.encode_cell({ r: 0, c: i })
+          if (wsCn[ref]) wsCn[ref].s = headerStyle
+        })
+        cnData.forEach((_, rowIdx) => {
+          [6, 7, 8].forEach(colIdx => {
+            const ref = XLSX.utils.encode_cell({ r: rowIdx + 1, c: colIdx })
+            if (wsCn[ref]) wsCn[ref].s = currencyStyle
+          })
+        })
+        autoFitColumns(wsCn, cnAoA)
+        XLSX.utils.book_append_sheet(wb, wsCn, t('export.sheetCreditNotes'))
+      }
+
+      // === TARJETAS DE REGALO SHEET ===
+      if (giftCardTransactions.length > 0) {
+        const gcHeaders = [
+          t('export.date'), t('export.card'), t('export.movement'), t('export.value'),
+          t('export.balance'), t('export.payment'), t('export.invoice'), t('export.user'),
+        ]
+        const gcData = giftCardTransactions.map((tx) => [
+          tx.createdAt ? String(tx.createdAt).replace('T', ' ').slice(0, 19) : '',
+          tx.code || '',
+          getGiftCardTransactionLabel(tx.type),
+          safeNumber(tx.amount),
+          safeNumber(tx.balanceAfter),
+          (tx.payments || []).map((p) => getPaymentMethodLabel(p.paymentMethod)).join(', '),
+          tx.invoiceNumber || '',
+          tx.userName || '',
+        ])
+        const gcAoA = [gcHeaders, ...gcData]
+        const wsGc = XLSX.utils.aoa_to_sheet(gcAoA)
+        gcHeaders.forEach((_, i) => {
+          const ref = XLSX.utils.encode_cell({ r: 0, c: i })
+          if (wsGc[ref]) wsGc[ref].s = headerStyle
+        })
+        gcData.forEach((_, rowIdx) => {
+          [3, 4].forEach(colIdx => {
+            const ref = XLSX.utils.encode_cell({ r: rowIdx + 1, c: colIdx })
+            if (wsGc[ref]) wsGc[ref].s = currencyStyle
+          })
+        })
+        autoFitColumns(wsGc, gcAoA)
+        XLSX.utils.book_append_sheet(wb, wsGc, t('export.sheetGiftCards'))
+      }
+
+      // === PROPINAS SHEET (liquidación por empleado para la nómina) ===
+      if (tips.length > 0) {
+        const tipHeaders = [t('export.employee'), t('export.invoices'), t('export.tips')]
+        const tipData = [
+          ...tips.map((tip) => [tip.userName, tip.invoiceCount, tip.total]),
+          [t('export.totalRow'), tips.reduce((acc, tip) => acc + tip.invoiceCount, 0), tipsTotal],
+        ]
+        const tipAoA = [tipHeaders, ...tipData]
+        const wsTip = XLSX.utils.aoa_to_sheet(tipAoA)
+        tipHeaders.forEach((_, i) => {
+          const ref = XLSX.utils.encode_cell({ r: 0, c: i })
+          if (wsTip[ref]) wsTip[ref].s = headerStyle
+        })
+        tipData.forEach((_, rowIdx) => {
+          const ref = XLSX.utils.encode_cell({ r: rowIdx + 1, c: 2 })
+          if (wsTip[ref]) wsTip[ref].s = currencyStyle
+        })
+        const totalRef = XLSX.utils.encode_cell({ r: tipData.length, c: 0 })
+        if (wsTip[totalRef]) wsTip[totalRef].s = labelStyle
+        autoFitColumns(wsTip, tipAoA)
+        XLSX.utils.book_append_sheet(wb, wsTip, t('export.sheetTips'))
+      }
+
+      // === DIVISAS SHEET (efectivo recibido en moneda extranjera, ya incluido en Total Efectivo) ===
+      if (foreign.length > 0) {
+        const fxHeaders = [t('export.currency'), t('export.foreignReceived'), t('export.baseValue', { currency: company.currency })]
+        const fxData = foreign.map((f) => [f.currency, f.amount, f.baseAmount])
+        const fxAoA = [fxHeaders, ...fxData]
+        const wsFx = XLSX.utils.aoa_to_sheet(fxAoA)
+        fxHeaders.forEach((_, i) => {
+          const ref = XLSX.utils.encode_cell({ r: 0, c: i })
+          if (wsFx[ref]) wsFx[ref].s = headerStyle
+        })
+        fxData.forEach((_, rowIdx) => {
+          const amountRef = XLSX.utils.encode_cell({ r: rowIdx + 1, c: 1 })
+          if (wsFx[amountRef]) wsFx[amountRef].s = { numFmt: '#,##0.00', alignment: { horizontal: 'right' } }
+          const baseRef = XLSX.utils.encode_cell({ r: rowIdx + 1, c: 2 })
+          if (wsFx[baseRef]) wsFx[baseRef].s = currencyStyle
+        })
+        autoFitColumns(wsFx, fxAoA)
+        XLSX.utils.book_append_sheet(wb, wsFx, t('export.sheetForeign'))
+      }
+
+      // === CAMBIOS DE PRECIO SHEET (auditoría) ===
+      const overrides = (await priceOverrideService.getByDateRange(startDateTime, endDateTime).catch(() => [])) as PriceOverrideRecord[]
+      if (overrides.length > 0) {
+        const poHeaders = [
+          t('export.date'), t('export.invoice'), t('export.product'), t('export.quantity'), t('export.listPrice'),
+          t('export.chargedPrice'), t('export.difference'), t('export.reason'), t('export.user'),
+        ]
+        const poData = overrides.map((o) => [
+          o.createdAt ? String(o.createdAt).replace('T', ' ').slice(0, 19) : '',
+          o.invoiceNumber || '',
+          o.productName,
+          safeNumber(o.quantity),
+          safeNumber(o.originalPrice),
+          safeNumber(o.newPrice),
+          (safeNumber(o.newPrice) - safeNumber(o.originalPrice)) * safeNumber(o.quantity),
+          o.reason,
+          o.userName || '',
+        ])
+        const poAoA = [poHeaders, ...poData]
+        const wsPo = XLSX.utils.aoa_to_sheet(poAoA)
+        poHeaders.forEach((_, i) => {
+          const ref = XLSX.utils.encode_cell({ r: 0, c: i })
+          if (wsPo[ref]) wsPo[ref].s = headerStyle
+        })
+        poData.forEach((_, rowIdx) => {
+          [4, 5, 6].forEach(colIdx => {
+            const ref = XLSX.utils.encode_cell({ r: rowIdx + 1, c: colIdx })
+            if (wsPo[ref]) wsPo[ref].s = currencyStyle
+          })
+        })
+        autoFitColumns(wsPo, poAoA)
+        XLSX.utils.book_append_sheet(wb, wsPo, t('export.sheetPriceChanges'))
+      }
+
+      // === AUTORIZACIONES SHEET (quién aprobó qué) ===
+      const authorizations = (await authorizationService.getByDateRange(startDateTime, endDateTime).catch(() => [])) as SupervisorAuthorization[]
+      if (authorizations.length > 0) {
+        const auHeaders = [
+          t('export.date'), t('export.action'), t('export.detail'), t('export.reference'), t('export.requestedBy'), t('export.approvedBy'),
+        ]
+        const auData = authorizations.map((a) => [
+          a.createdAt ? String(a.createdAt).replace('T', ' ').slice(0, 19) : '',
+          a.action,
+          a.description,
+          a.reference || '',
+          a.requestedByName,
+          a.supervisorName,
+        ])
+        const auAoA = [auHeaders, ...auData]
+        const wsAu = XLSX.utils.aoa_to_sheet(auAoA)
+        auHeaders.forEach((_, i) => {
+          const ref = XLSX.utils.encode_cell({ r: 0, c: i })
+          if (wsAu[ref]) wsAu[ref].s = headerStyle
+        })
+        autoFitColumns(wsAu, auAoA)
+        XLSX.utils.book_append_sheet(wb, wsAu, t('export.sheetAuthorizations'))
+      }
 
       // === MÉTODOS DE PAGO SHEET ===
       // Comentado - No se exporta métodos de pago según solicitud
@@ -372,7 +591,7 @@ const ReportsPage = () => {
 
       // === TOP PRODUCTOS SHEET ===
       if (topProducts.length > 0) {
-        const prodHeaders = ['Producto', 'Cantidad', 'Ingresos']
+        const prodHeaders = [t('export.product'), t('export.quantity'), t('export.revenue')]
         const prodData = topProducts.map((p) => [
           p.productName,
           safeNumber(p.totalQuantity),
@@ -389,12 +608,12 @@ const ReportsPage = () => {
           if (wsProd[ref]) wsProd[ref].s = currencyStyle
         })
         autoFitColumns(wsProd, prodAoA)
-        XLSX.utils.book_append_sheet(wb, wsProd, 'TopProductos')
+        XLSX.utils.book_append_sheet(wb, wsProd, t('export.sheetTopProducts'))
       }
 
       // === TOP CLIENTES SHEET ===
       if (topCustomers.length > 0) {
-        const custHeaders = ['Cliente', 'Compras', 'Total Gastado']
+        const custHeaders = [t('export.customer'), t('export.purchases'), t('export.totalSpent')]
         const custData = topCustomers.map((c) => [
           c.customerName,
           safeNumber(c.totalPurchases),
@@ -411,14 +630,14 @@ const ReportsPage = () => {
           if (wsCust[ref]) wsCust[ref].s = currencyStyle
         })
         autoFitColumns(wsCust, custAoA)
-        XLSX.utils.book_append_sheet(wb, wsCust, 'TopClientes')
+        XLSX.utils.book_append_sheet(wb, wsCust, t('export.sheetTopCustomers'))
       }
 
-      XLSX.writeFile(wb, `reporte_ventas_${dateRange.start}_${dateRange.end}.xlsx`)
-      toast.success('Excel exportado correctamente')
+      XLSX.writeFile(wb, `${t('export.fileName')}_${dateRange.start}_${dateRange.end}.xlsx`)
+      toast.success(t('export.done'))
     } catch (error) {
       console.error('Error exporting Excel:', error)
-      toast.error('Error al exportar Excel')
+      toast.error(t('export.error'))
     } finally {
       toast.dismiss(loadingToast)
     }
@@ -428,15 +647,15 @@ const ReportsPage = () => {
     <div className="space-y-4 sm:space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-xl sm:text-2xl font-bold text-gray-800">Reportes</h1>
-          <p className="text-sm sm:text-base text-gray-500">Análisis y estadísticas de tu negocio</p>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-800">{t('nav.reports')}</h1>
+          <p className="text-sm sm:text-base text-gray-500">{t('reports.subtitle')}</p>
         </div>
       </div>
 
       {/* Date Filter - compact reusable */}
       <div className="flex flex-wrap items-center gap-3">
         <DateRangeFilter dateRange={dateRange} setDateRange={setDateRange} />
-        <Button variant="primary" size="sm" onClick={exportToExcel}><Download size={18} /> Exportar</Button>
+        <Button variant="primary" size="sm" onClick={exportToExcel}><Download size={18} /> {t('common.export')}</Button>
       </div>
 
       {loading ? (
@@ -453,7 +672,7 @@ const ReportsPage = () => {
                   <DollarSign className="w-3 h-3 sm:w-4 sm:h-4 lg:w-6 lg:h-6 text-white" />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="text-xs sm:text-sm text-gray-500 truncate">Ventas Totales</p>
+                  <p className="text-xs sm:text-sm text-gray-500 truncate">{t('reports.totalSales')}</p>
                   <p className="text-sm sm:text-base lg:text-xl font-bold text-gray-800 truncate">{formatCurrency(salesSummary?.totalSales || 0)}</p>
                 </div>
               </div>
@@ -464,7 +683,7 @@ const ReportsPage = () => {
                   <BarChart3 className="w-3 h-3 sm:w-4 sm:h-4 lg:w-6 lg:h-6 text-white" />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="text-xs sm:text-sm text-gray-500 truncate">Transacciones</p>
+                  <p className="text-xs sm:text-sm text-gray-500 truncate">{t('reports.transactions')}</p>
                   <p className="text-sm sm:text-base lg:text-xl font-bold text-gray-800">{(salesSummary as any)?.salesCount || (salesSummary as any)?.totalTransactions || 0}</p>
                 </div>
               </div>
@@ -475,7 +694,7 @@ const ReportsPage = () => {
                   <TrendingUp className="w-3 h-3 sm:w-4 sm:h-4 lg:w-6 lg:h-6 text-white" />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="text-xs sm:text-sm text-gray-500 truncate">Ticket Promedio</p>
+                  <p className="text-xs sm:text-sm text-gray-500 truncate">{t('reports.averageTicket')}</p>
                   <p className="text-sm sm:text-base lg:text-xl font-bold text-gray-800 truncate">{formatCurrency(salesSummary?.averageTicket || 0)}</p>
                 </div>
               </div>
@@ -486,19 +705,19 @@ const ReportsPage = () => {
                   <DollarSign className="w-3 h-3 sm:w-4 sm:h-4 lg:w-6 lg:h-6 text-white" />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="text-xs sm:text-sm text-gray-500 truncate">Ganancia Neta</p>
+                  <p className="text-xs sm:text-sm text-gray-500 truncate">{t('reports.netProfit')}</p>
                   <p className="text-sm sm:text-base lg:text-xl font-bold text-gray-800 truncate">{formatCurrency(salesSummary?.grossProfit || salesSummary?.totalProfit || 0)}</p>
                 </div>
               </div>
             </div>
-            {/* Servicio (Propinas) */}
+            {/* Servicio voluntario */}
             <div className="card">
               <div className="flex items-center gap-2 sm:gap-3 lg:gap-4">
                 <div className="w-8 h-8 sm:w-10 sm:h-10 lg:w-12 lg:h-12 rounded-xl bg-gradient-to-r from-indigo-500 to-indigo-600 flex items-center justify-center shadow-soft flex-shrink-0">
                   <DollarSign className="w-3 h-3 sm:w-4 sm:h-4 lg:w-6 lg:h-6 text-white" />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="text-xs sm:text-sm text-gray-500 truncate">Servicio (Propinas)</p>
+                  <p className="text-xs sm:text-sm text-gray-500 truncate">{t('reports.serviceCharge')}</p>
                   <p className="text-sm sm:text-base lg:text-xl font-bold text-gray-800 truncate">{formatCurrency(totals?.serviceCharge || 0)}</p>
                 </div>
               </div>
@@ -510,13 +729,115 @@ const ReportsPage = () => {
                   <DollarSign className="w-3 h-3 sm:w-4 sm:h-4 lg:w-6 lg:h-6 text-white" />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="text-xs sm:text-sm text-gray-500 truncate">Total Neto</p>
-                  <p className="text-sm sm:text-base lg:text-xl font-bold text-gray-800 truncate">{formatCurrency((totals?.total || 0) - (totals?.serviceCharge || 0))}</p>
+                  <p className="text-xs sm:text-sm text-gray-500 truncate">{t('reports.netTotal')}</p>
+                  <p className="text-sm sm:text-base lg:text-xl font-bold text-gray-800 truncate">{formatCurrency((totals?.total || 0) - (totals?.serviceCharge || 0) - (totals?.refunds || 0))}</p>
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Devoluciones */}
+          {(totals?.refundCount || 0) > 0 && (
+            <div className="card">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-red-500 to-red-600 flex items-center justify-center shadow-soft">
+                  <RotateCcw className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">{t('reports.refunds')}</p>
+                  <p className="text-xl font-bold text-red-600">-{formatCurrency(totals.refunds)}</p>
+                  <p className="text-xs text-gray-400">{t('reports.refundsHint', { count: totals.refundCount })}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Tarjetas de regalo: la carga es pasivo, el ingreso llega al redimir */}
+          {giftCardActivity && (giftCardActivity.loaded > 0 || giftCardActivity.redeemed !== 0) && (
+            <div className="card">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-pink-500 to-pink-600 flex items-center justify-center shadow-soft">
+                  <Gift className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">{t('reports.giftCards')}</p>
+                  <p className="text-xl font-bold text-pink-600">{t('reports.giftCardsLoaded', { amount: formatCurrency(giftCardActivity.loaded) })}</p>
+                  <p className="text-xs text-gray-400">
+                    {t('reports.giftCardsHint', { amount: formatCurrency(giftCardActivity.redeemed) })}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Propinas por empleado: no suman a las ventas */}
+          {tipsByStaff.length > 0 && (
+            <div className="card">
+              <div className="flex items-center gap-4 mb-3">
+                <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-amber-400 to-amber-500 flex items-center justify-center shadow-soft">
+                  <Coins className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">{t('reports.tips')}</p>
+                  <p className="text-xl font-bold text-amber-600">{formatCurrency(tipsByStaff.reduce((acc, tip) => acc + tip.total, 0))}</p>
+                  <p className="text-xs text-gray-400">{t('reports.tipsHint', { sheet: t('export.sheetTips') })}</p>
+                </div>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {tipsByStaff.map((tip) => (
+                  <div key={tip.userId} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-700">{tip.userName}</span>
+                    <span className="text-gray-500">
+                      {t('reports.tipInvoices', { count: tip.invoiceCount })} · <span className="font-semibold text-gray-800">{formatCurrency(tip.total)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Efectivo en divisas: ya incluido en Efectivo por su valor en pesos */}
+          {foreignCash.length > 0 && (
+            <div className="card">
+              <div className="flex items-center gap-4 mb-3">
+                <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-green-500 to-green-600 flex items-center justify-center shadow-soft">
+                  <Banknote className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">{t('reports.foreignCash')}</p>
+                  <p className="text-xl font-bold text-green-600">{formatCurrency(foreignCash.reduce((acc, f) => acc + f.baseAmount, 0))}</p>
+                  <p className="text-xs text-gray-400">{t('reports.foreignCashHint', { sheet: t('export.sheetForeign') })}</p>
+                </div>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {foreignCash.map((f) => (
+                  <div key={f.currency} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-700">{formatForeignCurrency(f.amount, f.currency)}</span>
+                    <span className="font-semibold text-gray-800">{formatCurrency(f.baseAmount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Cambios de precio */}
+          {priceOverrides.length > 0 && (
+            <div className="card">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-amber-500 to-amber-600 flex items-center justify-center shadow-soft">
+                  <PencilLine className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">{t('reports.priceChanges')}</p>
+                  <p className="text-xl font-bold text-amber-600">
+                    {formatCurrency(priceOverrides.reduce((acc, o) => acc + (Number(o.newPrice) - Number(o.originalPrice)) * Number(o.quantity), 0))}
+                  </p>
+                  <p className="text-xs text-gray-400">{t('reports.priceChangesHint', { count: priceOverrides.length, sheet: t('export.sheetPriceChanges') })}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Inventory Summary */}
           {inventorySummary && (
             <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4 lg:gap-6">
@@ -526,7 +847,7 @@ const ReportsPage = () => {
                     <Package className="w-6 h-6 text-white" />
                   </div>
                   <div>
-                    <p className="text-sm text-gray-500">Total Productos</p>
+                    <p className="text-sm text-gray-500">{t('reports.totalProducts')}</p>
                     <p className="text-xl font-bold text-gray-800">{(inventorySummary as any).totalProducts || 0}</p>
                   </div>
                 </div>
@@ -537,7 +858,7 @@ const ReportsPage = () => {
                     <Package className="w-6 h-6 text-white" />
                   </div>
                   <div>
-                    <p className="text-sm text-gray-500">Stock Bajo</p>
+                    <p className="text-sm text-gray-500">{t('reports.lowStock')}</p>
                     <p className="text-xl font-bold text-orange-600">{(inventorySummary as any).lowStockProducts ?? (inventorySummary as any).lowStockCount ?? 0}</p>
                   </div>
                 </div>
@@ -548,7 +869,7 @@ const ReportsPage = () => {
                     <Package className="w-6 h-6 text-white" />
                   </div>
                   <div>
-                    <p className="text-sm text-gray-500">Sin Stock</p>
+                    <p className="text-sm text-gray-500">{t('reports.outOfStock')}</p>
                     <p className="text-xl font-bold text-red-600">{(inventorySummary as any).outOfStockProducts ?? (inventorySummary as any).outOfStockCount ?? 0}</p>
                   </div>
                 </div>
@@ -559,9 +880,9 @@ const ReportsPage = () => {
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
             {/* Top Products */}
             <div className="card">
-              <h3 className="text-lg font-semibold text-gray-800 mb-4">🏆 Productos Más Vendidos</h3>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('reports.topProducts')}</h3>
               {topProducts.length === 0 ? (
-                <p className="text-gray-400 text-center py-4">Sin datos para el período</p>
+                <p className="text-gray-400 text-center py-4">{t('reports.noData')}</p>
               ) : (
                 <div className="space-y-3">
                   {topProducts.map((product, index) => (
@@ -574,7 +895,7 @@ const ReportsPage = () => {
                       </div>
                       <div className="text-right">
                         <p className="font-semibold text-primary-600">{formatCurrency(product.totalRevenue)}</p>
-                        <p className="text-xs text-gray-500">{product.totalQuantity} unidades</p>
+                        <p className="text-xs text-gray-500">{t('reports.units', { count: product.totalQuantity })}</p>
                       </div>
                     </div>
                   ))}
@@ -584,9 +905,9 @@ const ReportsPage = () => {
 
             {/* Top Customers */}
             <div className="card">
-              <h3 className="text-lg font-semibold text-gray-800 mb-4">👥 Mejores Clientes</h3>
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('reports.topCustomers')}</h3>
               {topCustomers.length === 0 ? (
-                <p className="text-gray-400 text-center py-4">Sin datos para el período</p>
+                <p className="text-gray-400 text-center py-4">{t('reports.noData')}</p>
               ) : (
                 <div className="space-y-3">
                   {topCustomers.map((customer, index) => (
@@ -599,7 +920,7 @@ const ReportsPage = () => {
                       </div>
                       <div className="text-right">
                         <p className="font-semibold text-green-600">{formatCurrency(customer.totalSpent)}</p>
-                        <p className="text-xs text-gray-500">{customer.totalPurchases} compras</p>
+                        <p className="text-xs text-gray-500">{t('reports.purchases', { count: customer.totalPurchases })}</p>
                       </div>
                     </div>
                   ))}
@@ -610,9 +931,9 @@ const ReportsPage = () => {
 
           {/* Payment Methods */}
           <div className="card">
-            <h3 className="text-lg font-semibold text-gray-800 mb-4">💳 Métodos de Pago</h3>
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">{t('reports.paymentMethods')}</h3>
             {paymentMethods.length === 0 ? (
-              <p className="text-gray-400 text-center py-4">Sin datos para el período</p>
+              <p className="text-gray-400 text-center py-4">{t('reports.noData')}</p>
             ) : (
               <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
                 {paymentMethods.map((method) => (
@@ -622,7 +943,7 @@ const ReportsPage = () => {
                       <span className="font-medium">{getPaymentMethodLabel(method.paymentMethod)}</span>
                     </div>
                     <p className="text-xl font-bold text-primary-600">{formatCurrency((method as any).totalSales ?? (method as any).total ?? 0)}</p>
-                    <p className="text-sm text-gray-500">{method.count} transacciones ({method.percentage?.toFixed(1) || 0}%)</p>
+                    <p className="text-sm text-gray-500">{t('reports.methodTransactions', { count: method.count, percent: method.percentage?.toFixed(1) || 0 })}</p>
                   </div>
                 ))}
               </div>
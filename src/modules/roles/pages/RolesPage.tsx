@@ -5,6 +5,8 @@ import Button from '@/shared/components/ui/Button'
 import Input from '@/shared/components/ui/Input'
 import { roleService, CreateRoleRequest } from '@/core/api/roleService'
 import { Role } from '@/types'
+import type { MessageKey } from '@/core/i18n'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 type ModuleKey =
   | 'pos'
@@ -13,6 +15,7 @@ type ModuleKey =
   | 'inventory'
   | 'invoices'
   | 'customers'
+  | 'giftcards'
   | 'tables'
   | 'kitchen'
   | 'reports'
@@ -20,19 +23,20 @@ type ModuleKey =
   | 'roles'
   | 'settings'
 
-const MODULE_PERMISSIONS: Record<ModuleKey, { label: string; color: string; permissions: string[] }> = {
-  pos: { label: 'POS', color: 'bg-green-100 text-green-700', permissions: ['pos.sell', 'pos.discount', 'pos.void'] },
-  products: { label: 'Productos', color: 'bg-blue-100 text-blue-700', permissions: ['products.view', 'products.create', 'products.edit', 'products.delete'] },
-  categories: { label: 'Categorías', color: 'bg-indigo-100 text-indigo-700', permissions: ['categories.view', 'categories.create', 'categories.edit', 'categories.delete'] },
-  inventory: { label: 'Inventario', color: 'bg-amber-100 text-amber-700', permissions: ['inventory.view', 'inventory.adjust'] },
-  invoices: { label: 'Facturas', color: 'bg-purple-100 text-purple-700', permissions: ['invoices.view', 'invoices.void'] },
-  customers: { label: 'Clientes', color: 'bg-pink-100 text-pink-700', permissions: ['customers.view', 'customers.create', 'customers.edit'] },
-  tables: { label: 'Mesas', color: 'bg-orange-100 text-orange-700', permissions: ['tables.view', 'tables.open', 'tables.add_items', 'tables.pay', 'tables.add_notes'] },
-  kitchen: { label: 'Cocina', color: 'bg-red-100 text-red-700', permissions: ['kitchen.view', 'kitchen.update_status'] },
-  reports: { label: 'Reportes', color: 'bg-cyan-100 text-cyan-700', permissions: ['reports.view', 'reports.export'] },
-  users: { label: 'Usuarios', color: 'bg-gray-100 text-gray-700', permissions: ['users.view', 'users.manage'] },
-  roles: { label: 'Roles', color: 'bg-violet-100 text-violet-700', permissions: ['roles.view', 'roles.create', 'roles.edit', 'roles.delete'] },
-  settings: { label: 'Configuración', color: 'bg-slate-100 text-slate-700', permissions: ['settings.view', 'settings.edit'] },
+const MODULE_PERMISSIONS: Record<ModuleKey, { labelKey: MessageKey; color: string; permissions: string[] }> = {
+  pos: { labelKey: 'nav.pos', color: 'bg-green-100 text-green-700', permissions: ['pos.sell', 'pos.discount', 'pos.void', 'pos.exchange_rate'] },
+  products: { labelKey: 'nav.products', color: 'bg-blue-100 text-blue-700', permissions: ['products.view', 'products.create', 'products.edit', 'products.delete'] },
+  categories: { labelKey: 'nav.categories', color: 'bg-indigo-100 text-indigo-700', permissions: ['categories.view', 'categories.create', 'categories.edit', 'categories.delete'] },
+  inventory: { labelKey: 'nav.inventory', color: 'bg-amber-100 text-amber-700', permissions: ['inventory.view', 'inventory.adjust'] },
+  invoices: { labelKey: 'nav.invoices', color: 'bg-purple-100 text-purple-700', permissions: ['invoices.view', 'invoices.void'] },
+  customers: { labelKey: 'nav.customers', color: 'bg-pink-100 text-pink-700', permissions: ['customers.view', 'customers.create', 'customers.edit'] },
+  giftcards: { labelKey: 'nav.giftCards', color: 'bg-rose-100 text-rose-700', permissions: ['giftcards.view', 'giftcards.manage'] },
+  tables: { labelKey: 'nav.tables', color: 'bg-orange-100 text-orange-700', permissions: ['tables.view', 'tables.open', 'tables.add_items', 'tables.pay', 'tables.add_notes'] },
+  kitchen: { labelKey: 'nav.kitchen', color: 'bg-red-100 text-red-700', permissions: ['kitchen.view', 'kitchen.update_status'] },
+  reports: { labelKey: 'nav.reports', color: 'bg-cyan-100 text-cyan-700', permissions: ['reports.view', 'reports.export'] },
+  users: { labelKey: 'nav.users', color: 'bg-gray-100 text-gray-700', permissions: ['users.view', 'users.manage'] },
+  roles: { labelKey: 'nav.roles', color: 'bg-violet-100 text-violet-700', permissions: ['roles.view', 'roles.create', 'roles.edit', 'roles.delete'] },
+  settings: { labelKey: 'nav.settings', color: 'bg-slate-100 text-slate-700', permissions: ['settings.view', 'settings.edit'] },
 }
 
 interface RoleFormData {
@@ -48,6 +52,7 @@ const initialFormData: RoleFormData = {
 }
 
 const RolesPage = () => {
+  const { t } = useTranslation()
   const [roles, setRoles] = useState<Role[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
@@ -63,7 +68,7 @@ const RolesPage = () => {
       const res = await roleService.getAll()
       setRoles((res as Role[]) || [])
     } catch (e: any) {
-      toast.error(e?.response?.data?.message || 'Error al cargar roles')
+      toast.error(e?.response?.data?.message || t('roles.loadError'))
     } finally {
       setLoading(false)
     }
@@ -91,17 +96,17 @@ const RolesPage = () => {
 
   const handleDelete = async (role: Role) => {
     if (role.isSystem) {
-      toast.error('No se puede eliminar un rol de sistema')
+      toast.error(t('roles.systemNoDelete'))
       return
     }
-    if (!confirm(`¿Eliminar el rol "${role.name}"?`)) return
+    if (!confirm(t('roles.confirmDelete', { name: role.name }))) return
 
     try {
       await roleService.delete(role.id)
-      toast.success('Rol eliminado')
+      toast.success(t('roles.deleted'))
       fetchRoles()
     } catch (e: any) {
-      toast.error(e?.response?.data?.message || 'Error al eliminar rol')
+      toast.error(e?.response?.data?.message || t('roles.deleteError'))
     }
   }
 
@@ -127,7 +132,7 @@ const RolesPage = () => {
     e.preventDefault()
 
     if (!formData.name.trim()) {
-      toast.error('El nombre del rol es requerido')
+      toast.error(t('roles.nameRequired'))
       return
     }
 
@@ -135,7 +140,7 @@ const RolesPage = () => {
     try {
       if (selectedRole) {
         if (selectedRole.isSystem && formData.name.trim().toUpperCase() !== selectedRole.name) {
-          toast.error('No se puede cambiar el nombre de un rol de sistema')
+          toast.error(t('roles.systemNoRename'))
           setSaving(false)
           return
         }
@@ -144,7 +149,7 @@ const RolesPage = () => {
           description: formData.description || undefined,
           permissions: formData.permissions,
         })
-        toast.success('Rol actualizado')
+        toast.success(t('roles.updated'))
       } else {
         const payload: CreateRoleRequest = {
           name: formData.name,
@@ -152,21 +157,21 @@ const RolesPage = () => {
           permissions: formData.permissions,
         }
         await roleService.create(payload)
-        toast.success('Rol creado')
+        toast.success(t('roles.created'))
       }
 
       setShowModal(false)
       fetchRoles()
     } catch (e: any) {
-      toast.error(e?.response?.data?.message || 'Error al guardar rol')
+      toast.error(e?.response?.data?.message || t('roles.saveError'))
     } finally {
       setSaving(false)
     }
   }
 
   const filteredRoles = useMemo(() => {
-    const t = searchTerm.toLowerCase()
-    return roles.filter((r) => r.name.toLowerCase().includes(t) || (r.description || '').toLowerCase().includes(t))
+    const term = searchTerm.toLowerCase()
+    return roles.filter((r) => r.name.toLowerCase().includes(term) || (r.description || '').toLowerCase().includes(term))
   }, [roles, searchTerm])
 
   const getModuleBadges = (role: Role) => {
@@ -181,11 +186,11 @@ const RolesPage = () => {
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-800">Roles</h1>
-          <p className="text-gray-500">Control total de roles y módulos</p>
+          <h1 className="text-2xl font-bold text-gray-800">{t('nav.roles')}</h1>
+          <p className="text-gray-500">{t('roles.subtitle')}</p>
         </div>
         <Button variant="primary" onClick={openNewRole}>
-          <Plus size={20} /> Nuevo Rol
+          <Plus size={20} /> {t('roles.new')}
         </Button>
       </div>
 
@@ -194,7 +199,7 @@ const RolesPage = () => {
           <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
           <input
             type="text"
-            placeholder="Buscar roles..."
+            placeholder={t('roles.search')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="input-field pl-12"
@@ -208,15 +213,15 @@ const RolesPage = () => {
             <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
           </div>
         ) : filteredRoles.length === 0 ? (
-          <div className="flex items-center justify-center py-12 text-gray-400">No se encontraron roles</div>
+          <div className="flex items-center justify-center py-12 text-gray-400">{t('roles.empty')}</div>
         ) : (
           <table className="w-full">
             <thead>
               <tr className="bg-primary-50">
-                <th className="table-header">Rol</th>
-                <th className="table-header">Módulos</th>
-                <th className="table-header text-center">Sistema</th>
-                <th className="table-header text-center">Acciones</th>
+                <th className="table-header">{t('common.role')}</th>
+                <th className="table-header">{t('roles.modules')}</th>
+                <th className="table-header text-center">{t('roles.system')}</th>
+                <th className="table-header text-center">{t('common.actions')}</th>
               </tr>
             </thead>
             <tbody>
@@ -229,14 +234,14 @@ const RolesPage = () => {
                         <p className="font-medium text-gray-800 flex items-center gap-2">
                           <Shield size={14} className="text-primary-600" /> {role.name}
                         </p>
-                        <p className="text-xs text-gray-500 line-clamp-1">{role.description || 'Sin descripción'}</p>
+                        <p className="text-xs text-gray-500 line-clamp-1">{role.description || t('common.noDescription')}</p>
                       </div>
                     </td>
                     <td className="table-cell">
                       <div className="flex flex-wrap gap-1">
                         {mods.slice(0, 6).map((m) => (
                           <span key={m} className={`text-[10px] px-1.5 py-0.5 rounded ${MODULE_PERMISSIONS[m].color}`}>
-                            {MODULE_PERMISSIONS[m].label}
+                            {t(MODULE_PERMISSIONS[m].labelKey)}
                           </span>
                         ))}
                         {mods.length > 6 && (
@@ -245,7 +250,7 @@ const RolesPage = () => {
                       </div>
                     </td>
                     <td className="table-cell text-center">
-                      <span className={`badge ${role.isSystem ? 'badge-info' : 'badge-warning'}`}>{role.isSystem ? 'Sí' : 'No'}</span>
+                      <span className={`badge ${role.isSystem ? 'badge-info' : 'badge-warning'}`}>{role.isSystem ? t('common.yes') : t('common.no')}</span>
                     </td>
                     <td className="table-cell">
                       <div className="flex items-center justify-center gap-2">
@@ -274,7 +279,7 @@ const RolesPage = () => {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="modal-content-lg p-6 animate-scale-in">
             <div className="flex items-center justify-between mb-6">
-              <h3 className="text-xl font-bold text-gray-800">{selectedRole ? 'Editar Rol' : 'Nuevo Rol'}</h3>
+              <h3 className="text-xl font-bold text-gray-800">{selectedRole ? t('roles.edit') : t('roles.new')}</h3>
               <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
               </button>
@@ -282,7 +287,7 @@ const RolesPage = () => {
 
             <form onSubmit={handleSubmit} className="space-y-4">
               <Input
-                label="Nombre *"
+                label={t('common.nameRequired')}
                 value={formData.name}
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                 required
@@ -290,17 +295,17 @@ const RolesPage = () => {
               />
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Descripción</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.description')}</label>
                 <textarea
                   value={formData.description}
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                   className="input-field min-h-[80px]"
-                  placeholder="Descripción del rol..."
+                  placeholder={t('roles.descriptionPlaceholder')}
                 />
               </div>
 
               <div>
-                <p className="text-sm font-semibold text-gray-700 mb-2">Módulos y permisos</p>
+                <p className="text-sm font-semibold text-gray-700 mb-2">{t('roles.modulesAndPermissions')}</p>
                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
                   {(Object.keys(MODULE_PERMISSIONS) as ModuleKey[]).map((key) => {
                     const perms = MODULE_PERMISSIONS[key].permissions
@@ -315,7 +320,7 @@ const RolesPage = () => {
                         }`}
                       >
                         <div className="flex items-center justify-between">
-                          <span className={`text-xs font-semibold ${enabled ? 'text-primary-700' : 'text-gray-700'}`}>{MODULE_PERMISSIONS[key].label}</span>
+                          <span className={`text-xs font-semibold ${enabled ? 'text-primary-700' : 'text-gray-700'}`}>{t(MODULE_PERMISSIONS[key].labelKey)}</span>
                           {enabled ? <Check size={14} className="text-green-600" /> : <Lock size={14} className="text-gray-400" />}
                         </div>
                         <div className="mt-1 flex flex-wrap gap-1">
@@ -336,15 +341,15 @@ const RolesPage = () => {
 
               <div className="flex justify-end gap-3 pt-4">
                 <Button type="button" variant="secondary" onClick={() => setShowModal(false)}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
                 <Button type="submit" variant="primary" disabled={saving}>
                   {saving ? (
                     <>
-                      <Loader2 className="w-5 h-5 animate-spin" /> Guardando...
+                      <Loader2 className="w-5 h-5 animate-spin" /> {t('common.saving')}
                     </>
                   ) : (
-                    'Guardar'
+                    t('common.save')
                   )}
                 </Button>
               </div>
@@ -1,21 +1,159 @@
 import { useSelector, useDispatch } from 'react-redux'
 import { useNavigate } from 'react-router-dom'
-import { Save, Palette, Building2, Receipt, Check, RotateCcw, Upload, Trash2, Image, Loader2, UtensilsCrossed } from 'lucide-react'
-import { useState, useRef } from 'react'
+import { Save, Palette, Building2, Receipt, Check, RotateCcw, Upload, Trash2, Image, Loader2, UtensilsCrossed, Tag, Plus, X, Keyboard, Printer, FileText, FileCheck, Award, Coins } from 'lucide-react'
+import { useState, useRef, useMemo, useEffect } from 'react'
 import toast from 'react-hot-toast'
 import { RootState, AppDispatch } from '@/app/store'
-import { setTheme, setCompany, setBusinessType, resetTheme, saveSettingsToBackend } from '../store/settingsSlice'
+import { setTheme, setCompany, setPosConfig, setReceiptTemplate, setDianConfig, setLoyaltyConfig, setBusinessType, resetTheme, saveSettingsToBackend } from '../store/settingsSlice'
 import Button from '@/shared/components/ui/Button'
 import Input from '@/shared/components/ui/Input'
+import { ShortcutKey } from '@/shared/components/ShortcutsHelpModal'
+import {
+  POS_SHORTCUT_ACTIONS,
+  DEFAULT_SHORTCUTS,
+  getShortcutLabel,
+  COMMAND_PALETTE_SHORTCUT,
+  PosShortcutAction,
+  ShortcutBindings,
+  loadShortcuts,
+  saveShortcuts,
+  eventToShortcut,
+  findShortcutConflict,
+} from '@/shared/utils/shortcuts'
+import {
+  PrinterConfig,
+  PRINTER_MODES,
+  getPrinterModeLabel,
+  loadPrinterConfig,
+  savePrinterConfig,
+  isWebSerialSupported,
+  requestSerialPort,
+  printTestReceipt,
+} from '@/shared/utils/receiptPrinter'
+import { RECEIPT_HEADER_TOGGLES, RECEIPT_BODY_TOGGLES, getReceiptFieldLabel } from '@/shared/utils/receiptTemplate'
+import { renderReceiptPreview } from '@/shared/utils/printInvoice'
+import { DIAN_ENVIRONMENTS, DianEnvironment, getDianEnvironmentLabel, splitNit } from '@/shared/utils/dian'
+import { LoyaltyTier } from '@/shared/utils/loyalty'
+import { MAX_SERVICE_CHARGE_PERCENT } from '@/shared/utils/tips'
+import { FOREIGN_CURRENCIES, getForeignCurrencyLabel } from '@/shared/utils/currency'
+import { categoryService } from '@/core/api/categoryService'
+import { Category } from '@/types'
+import { formatCurrency } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 const SettingsPage = () => {
   const dispatch = useDispatch<AppDispatch>()
+  const { t } = useTranslation()
   const navigate = useNavigate()
-  const { theme, company, businessType } = useSelector((state: RootState) => state.settings)
+  const { theme, company, pos, receipt, dian, loyalty, businessType } = useSelector((state: RootState) => state.settings)
+  const { user } = useSelector((state: RootState) => state.auth)
   const [saved, setSaved] = useState(false)
   const [uploading, setUploading] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const [newReason, setNewReason] = useState('')
+  const [newTipPercent, setNewTipPercent] = useState('')
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(() => loadShortcuts(user?.id))
+  const [capturingAction, setCapturingAction] = useState<PosShortcutAction | null>(null)
+  const [printer, setPrinter] = useState<PrinterConfig>(loadPrinterConfig)
+  const [testingPrinter, setTestingPrinter] = useState(false)
+  const [previewWidth, setPreviewWidth] = useState(printer.paperWidth)
+  const receiptPreview = useMemo(() => renderReceiptPreview(company, receipt, previewWidth), [company, receipt, previewWidth])
+  const [categories, setCategories] = useState<Category[]>([])
+
+  useEffect(() => {
+    categoryService.getAll()
+      .then((res) => setCategories((res as Category[]).filter((c) => c.isActive)))
+      .catch(() => setCategories([]))
+  }, [])
+
+  const updateTier = (index: number, changes: Partial<LoyaltyTier>) =>
+    dispatch(setLoyaltyConfig({ tiers: loyalty.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)) }))
+
+  const toggleExcludedCategory = (categoryId: number) =>
+    dispatch(setLoyaltyConfig({
+      excludedCategoryIds: loyalty.excludedCategoryIds.includes(categoryId)
+        ? loyalty.excludedCategoryIds.filter((id) => id !== categoryId)
+        : [...loyalty.excludedCategoryIds, categoryId],
+    }))
+
+  const updatePrinter = (changes: Partial<PrinterConfig>) => {
+    const next = { ...printer, ...changes }
+    setPrinter(next)
+    savePrinterConfig(next)
+  }
+
+  const handleSelectSerialPort = async () => {
+    try {
+      await requestSerialPort()
+      toast.success(t('settings.portAuthorized'))
+    } catch (error: any) {
+      // Cerrar el selector sin elegir también llega aquí
+      if (error?.name !== 'NotFoundError') toast.error(error?.message || t('settings.portError'))
+    }
+  }
+
+  const handleTestPrinter = async () => {
+    setTestingPrinter(true)
+    try {
+      await printTestReceipt(printer)
+      toast.success(t('settings.testSent'))
+    } catch (error: any) {
+      toast.error(error?.message || t('settings.printerNoResponse'))
+    } finally {
+      setTestingPrinter(false)
+    }
+  }
+
+  const updateShortcuts = (bindings: ShortcutBindings) => {
+    setShortcuts(bindings)
+    if (user?.id) saveShortcuts(user.id, bindings)
+  }
+
+  const handleCaptureKey = (e: React.KeyboardEvent, action: PosShortcutAction) => {
+    e.preventDefault()
+    // Evita que la paleta de comandos u otros atajos globales reaccionen mientras se asigna
+    e.nativeEvent.stopPropagation()
+    if (e.key === 'Escape') {
+      setCapturingAction(null)
+      return
+    }
+    const shortcut = eventToShortcut(e.nativeEvent)
+    if (!shortcut) return
+    if (shortcut === COMMAND_PALETTE_SHORTCUT) {
+      toast.error(t('settings.shortcutReserved', { shortcut: COMMAND_PALETTE_SHORTCUT }))
+      return
+    }
+    const conflict = findShortcutConflict(shortcuts, action, shortcut)
+    if (conflict) {
+      toast.error(t('settings.shortcutTaken', { shortcut, action: getShortcutLabel(conflict) }))
+      return
+    }
+    updateShortcuts({ ...shortcuts, [action]: shortcut })
+    setCapturingAction(null)
+  }
+
+  const handleAddReason = () => {
+    const reason = newReason.trim()
+    if (!reason) return
+    if (pos.discountReasons.some((r) => r.toLowerCase() === reason.toLowerCase())) {
+      toast.error(t('settings.reasonExists'))
+      return
+    }
+    dispatch(setPosConfig({ discountReasons: [...pos.discountReasons, reason] }))
+    setNewReason('')
+  }
+
+  const handleAddTipPercent = () => {
+    const percent = Math.round(Number(newTipPercent))
+    if (!percent || percent <= 0 || percent > 100) return
+    if (pos.suggestedTipPercents.includes(percent)) {
+      toast.error(t('settings.percentExists'))
+      return
+    }
+    dispatch(setPosConfig({ suggestedTipPercents: [...pos.suggestedTipPercents, percent].sort((a, b) => a - b) }))
+    setNewTipPercent('')
+  }
 
   const validateEmail = (email: string): boolean => {
     if (!email) return true // opcional
@@ -38,7 +176,7 @@ const SettingsPage = () => {
     
     if (field === 'email' && typeof value === 'string') {
       if (!validateEmail(value)) {
-        newErrors.email = 'Formato de email inválido'
+        newErrors.email = t('common.emailInvalid')
       } else {
         delete newErrors.email
       }
@@ -46,7 +184,7 @@ const SettingsPage = () => {
     
     if (field === 'phone' && typeof value === 'string') {
       if (!validatePhone(value)) {
-        newErrors.phone = 'Teléfono debe contener solo números'
+        newErrors.phone = t('settings.phoneInvalid')
       } else {
         delete newErrors.phone
       }
@@ -54,7 +192,7 @@ const SettingsPage = () => {
     
     if (field === 'taxId' && typeof value === 'string') {
       if (!validateTaxId(value)) {
-        newErrors.taxId = 'NIT debe contener solo números y guiones'
+        newErrors.taxId = t('settings.taxIdInvalid')
       } else {
         delete newErrors.taxId
       }
@@ -62,7 +200,7 @@ const SettingsPage = () => {
     
     if (field === 'taxRate' && typeof value === 'number') {
       if (value < 0 || value > 100) {
-        newErrors.taxRate = 'La tasa debe estar entre 0 y 100'
+        newErrors.taxRate = t('settings.taxRateInvalid')
       } else {
         delete newErrors.taxRate
       }
@@ -77,12 +215,12 @@ const SettingsPage = () => {
     if (!file) return
 
     if (!file.type.startsWith('image/')) {
-      toast.error('Por favor selecciona un archivo de imagen')
+      toast.error(t('settings.imageRequired'))
       return
     }
 
     if (file.size > 2 * 1024 * 1024) {
-      toast.error('El archivo debe ser menor a 2MB')
+      toast.error(t('settings.imageTooLarge'))
       return
     }
 
@@ -91,11 +229,11 @@ const SettingsPage = () => {
     reader.onload = (e) => {
       const base64 = e.target?.result as string
       dispatch(setCompany({ logoUrl: base64 }))
-      toast.success('Logo actualizado correctamente')
+      toast.success(t('settings.logoUpdated'))
       setUploading(false)
     }
     reader.onerror = () => {
-      toast.error('Error al cargar la imagen')
+      toast.error(t('settings.imageLoadError'))
       setUploading(false)
     }
     reader.readAsDataURL(file)
@@ -103,7 +241,7 @@ const SettingsPage = () => {
 
   const handleRemoveLogo = () => {
     dispatch(setCompany({ logoUrl: '' }))
-    toast.success('Logo eliminado')
+    toast.success(t('settings.logoRemoved'))
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -113,18 +251,18 @@ const SettingsPage = () => {
 
   const handleSave = async () => {
     if (Object.keys(errors).length > 0) {
-      toast.error('Corrige los errores antes de guardar')
+      toast.error(t('settings.fixErrors'))
       return
     }
     setSaving(true)
     try {
       await dispatch(saveSettingsToBackend()).unwrap()
       setSaved(true)
-      toast.success('Configuración guardada en el servidor')
+      toast.success(t('settings.saved'))
       setTimeout(() => setSaved(false), 2000)
     } catch (error: any) {
       console.error('Error saving settings:', error)
-      toast.error('Error al guardar configuración en el servidor')
+      toast.error(t('settings.saveError'))
     } finally {
       setSaving(false)
     }
@@ -134,11 +272,11 @@ const SettingsPage = () => {
     <div className="space-y-4 sm:space-y-6 animate-fade-in">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
         <div>
-          <h1 className="text-xl sm:text-2xl font-bold text-gray-800">Configuración</h1>
-          <p className="text-sm sm:text-base text-gray-500">Personaliza tu sistema POS</p>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-800">{t('nav.settings')}</h1>
+          <p className="text-sm sm:text-base text-gray-500">{t('settings.subtitle')}</p>
         </div>
         <Button variant="primary" onClick={handleSave} disabled={saving}>
-          {saving ? <><Loader2 size={20} className="animate-spin" /> Guardando...</> : saved ? <><Check size={20} /> Guardado</> : <><Save size={20} /> Guardar Cambios</>}
+          {saving ? <><Loader2 size={20} className="animate-spin" /> {t('common.saving')}</> : saved ? <><Check size={20} /> {t('settings.savedButton')}</> : <><Save size={20} /> {t('settings.saveChanges')}</>}
         </Button>
       </div>
 
@@ -149,29 +287,29 @@ const SettingsPage = () => {
             <div className="w-10 h-10 bg-primary-100 rounded-xl flex items-center justify-center">
               <Building2 className="w-5 h-5 text-primary-600" />
             </div>
-            <h2 className="text-lg font-semibold text-gray-800">Información de la Empresa</h2>
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.companyInfo')}</h2>
           </div>
           <div className="space-y-4">
-            <Input label="Nombre del Negocio" value={company.companyName} 
+            <Input label={t('settings.businessName')} value={company.companyName} 
               onChange={(e) => dispatch(setCompany({ companyName: e.target.value }))} />
-            <Input label="Razón Social" value={company.legalName} placeholder="Opcional"
+            <Input label={t('settings.legalName')} value={company.legalName} placeholder={t('settings.optional')}
               onChange={(e) => dispatch(setCompany({ legalName: e.target.value }))} />
             <div>
-              <Input label="NIT / RUT" value={company.taxId} placeholder="Ej: 900123456-1"
+              <Input label="NIT / RUT" value={company.taxId} placeholder={t('settings.taxIdPlaceholder')}
                 onChange={(e) => handleCompanyChange('taxId', e.target.value)} />
               {errors.taxId && <p className="text-xs text-red-500 mt-1">{errors.taxId}</p>}
             </div>
             <div>
-              <Input label="Teléfono" value={company.phone}
+              <Input label={t('common.phone')} value={company.phone}
                 onChange={(e) => handleCompanyChange('phone', e.target.value)} />
               {errors.phone && <p className="text-xs text-red-500 mt-1">{errors.phone}</p>}
             </div>
             <div>
-              <Input label="Email" type="email" value={company.email}
+              <Input label={t('common.email')} type="email" value={company.email}
                 onChange={(e) => handleCompanyChange('email', e.target.value)} />
               {errors.email && <p className="text-xs text-red-500 mt-1">{errors.email}</p>}
             </div>
-            <Input label="Dirección" value={company.address}
+            <Input label={t('common.address')} value={company.address}
               onChange={(e) => dispatch(setCompany({ address: e.target.value }))} />
           </div>
         </div>
@@ -183,69 +321,69 @@ const SettingsPage = () => {
               <div className="w-10 h-10 bg-primary-100 rounded-xl flex items-center justify-center">
                 <Palette className="w-5 h-5 text-primary-600" />
               </div>
-              <h2 className="text-lg font-semibold text-gray-800">Tema y Colores</h2>
+              <h2 className="text-lg font-semibold text-gray-800">{t('settings.themeTitle')}</h2>
             </div>
             <button
               onClick={() => {
                 dispatch(resetTheme())
-                toast.success('Colores restaurados a los predeterminados')
+                toast.success(t('settings.themeReset'))
               }}
               className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
             >
               <RotateCcw size={16} />
-              Restaurar
+              {t('settings.restore')}
             </button>
           </div>
           <div className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Color Primario</label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('settings.primaryColor')}</label>
               <div className="flex items-center gap-3">
                 <input type="color" value={theme.primaryColor} 
                   onChange={(e) => dispatch(setTheme({ primaryColor: e.target.value }))}
                   className="w-12 h-12 rounded-xl cursor-pointer border-2 border-gray-200" />
                 <span className="text-gray-600 font-mono">{theme.primaryColor}</span>
               </div>
-              <p className="text-xs text-gray-400 mt-1">Color principal de la interfaz</p>
+              <p className="text-xs text-gray-400 mt-1">{t('settings.primaryColorHint')}</p>
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Color Secundario</label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('settings.secondaryColor')}</label>
               <div className="flex items-center gap-3">
                 <input type="color" value={theme.secondaryColor}
                   onChange={(e) => dispatch(setTheme({ secondaryColor: e.target.value }))}
                   className="w-12 h-12 rounded-xl cursor-pointer border-2 border-gray-200" />
                 <span className="text-gray-600 font-mono">{theme.secondaryColor}</span>
               </div>
-              <p className="text-xs text-gray-400 mt-1">Color de acentos y detalles</p>
+              <p className="text-xs text-gray-400 mt-1">{t('settings.secondaryColorHint')}</p>
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Color de Fondo</label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('settings.backgroundColor')}</label>
               <div className="flex items-center gap-3">
                 <input type="color" value={theme.backgroundColor}
                   onChange={(e) => dispatch(setTheme({ backgroundColor: e.target.value }))}
                   className="w-12 h-12 rounded-xl cursor-pointer border-2 border-gray-200" />
                 <span className="text-gray-600 font-mono">{theme.backgroundColor}</span>
               </div>
-              <p className="text-xs text-gray-400 mt-1">Color del fondo de la aplicación</p>
+              <p className="text-xs text-gray-400 mt-1">{t('settings.backgroundColorHint')}</p>
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Color de Tarjetas</label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('settings.cardColor')}</label>
               <div className="flex items-center gap-3">
                 <input type="color" value={theme.cardColor || '#ffffff'}
                   onChange={(e) => dispatch(setTheme({ cardColor: e.target.value }))}
                   className="w-12 h-12 rounded-xl cursor-pointer border-2 border-gray-200" />
                 <span className="text-gray-600 font-mono">{theme.cardColor || '#ffffff'}</span>
               </div>
-              <p className="text-xs text-gray-400 mt-1">Color de fondo de las tarjetas y secciones</p>
+              <p className="text-xs text-gray-400 mt-1">{t('settings.cardColorHint')}</p>
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Color del Menú Lateral</label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('settings.sidebarColor')}</label>
               <div className="flex items-center gap-3">
                 <input type="color" value={theme.sidebarColor || '#ffffff'}
                   onChange={(e) => dispatch(setTheme({ sidebarColor: e.target.value }))}
                   className="w-12 h-12 rounded-xl cursor-pointer border-2 border-gray-200" />
                 <span className="text-gray-600 font-mono">{theme.sidebarColor || '#ffffff'}</span>
               </div>
-              <p className="text-xs text-gray-400 mt-1">Color del menú de navegación lateral</p>
+              <p className="text-xs text-gray-400 mt-1">{t('settings.sidebarColorHint')}</p>
             </div>
           </div>
         </div>
@@ -256,40 +394,629 @@ const SettingsPage = () => {
             <div className="w-10 h-10 bg-primary-100 rounded-xl flex items-center justify-center">
               <Receipt className="w-5 h-5 text-primary-600" />
             </div>
-            <h2 className="text-lg font-semibold text-gray-800">Facturación</h2>
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.invoicing')}</h2>
           </div>
           <div className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Moneda</label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('settings.currency')}</label>
               <select 
                 className="input-field"
                 value={company.currency}
-                onChange={(e) => dispatch(setCompany({ currency: e.target.value }))}
+                onChange={(e) => dispatch(setCompany({ currency: e.target.value, foreignCurrencies: company.foreignCurrencies.filter((c) => c !== e.target.value) }))}
               >
-                <option value="COP">COP - Peso Colombiano</option>
-                <option value="USD">USD - Dólar Americano</option>
-                <option value="EUR">EUR - Euro</option>
+                <option value="COP">{t('settings.currencyCOP')}</option>
+                <option value="USD">{t('settings.currencyUSD')}</option>
+                <option value="EUR">{t('settings.currencyEUR')}</option>
               </select>
             </div>
             <div>
-              <Input label="Tasa de Impuesto (%)" type="number" min="0" max="100" value={company.taxRate}
+              <p className="block text-sm font-medium text-gray-700 mb-2">{t('settings.foreignCurrencies')}</p>
+              <div className="flex flex-wrap gap-2">
+                {FOREIGN_CURRENCIES.filter((c) => c.value !== company.currency).map((c) => {
+                  const checked = company.foreignCurrencies.includes(c.value)
+                  return (
+                    <label key={c.value} className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm cursor-pointer ${checked ? 'border-primary-300 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-500'}`}>
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        onChange={() => dispatch(setCompany({
+                          foreignCurrencies: checked
+                            ? company.foreignCurrencies.filter((f) => f !== c.value)
+                            : [...company.foreignCurrencies, c.value],
+                        }))}
+                        className="rounded border-gray-300 text-primary-600"
+                      />
+                      {getForeignCurrencyLabel(c.value)}
+                    </label>
+                  )
+                })}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">{t('settings.foreignCurrenciesHint', { currency: company.currency })}</p>
+            </div>
+            <div>
+              <Input label={t('settings.taxRate')} type="number" min="0" max="100" value={company.taxRate}
                 onChange={(e) => handleCompanyChange('taxRate', Number(e.target.value))} />
               {errors.taxRate && <p className="text-xs text-red-500 mt-1">{errors.taxRate}</p>}
+              <p className="text-xs text-gray-400 mt-1">{t('settings.taxRateHint')}</p>
             </div>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={company.pricesIncludeTax}
+                onChange={(e) => dispatch(setCompany({ pricesIncludeTax: e.target.checked }))}
+                className="mt-1 rounded border-gray-300 text-primary-600"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">{t('settings.pricesIncludeTax')}</span>
+                <span className="block text-xs text-gray-400">{t('settings.pricesIncludeTaxHint')}</span>
+              </span>
+            </label>
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Tipo de Negocio</label>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('settings.businessType')}</label>
               <select 
                 className="input-field"
                 value={businessType}
                 onChange={(e) => dispatch(setBusinessType(e.target.value))}
               >
-                <option value="GENERAL">General</option>
-                <option value="RESTAURANTE">Restaurante</option>
-                <option value="FERRETERIA">Ferretería</option>
-                <option value="FARMACIA">Farmacia</option>
-                <option value="SUPERMERCADO">Supermercado</option>
+                <option value="GENERAL">{t('settings.businessGeneral')}</option>
+                <option value="RESTAURANTE">{t('settings.businessRestaurant')}</option>
+                <option value="FERRETERIA">{t('settings.businessHardware')}</option>
+                <option value="FARMACIA">{t('settings.businessPharmacy')}</option>
+                <option value="SUPERMERCADO">{t('settings.businessSupermarket')}</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {/* Receipt template */}
+        <div className="card sm:col-span-2 xl:col-span-3">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-indigo-100 rounded-xl flex items-center justify-center">
+              <FileText className="w-5 h-5 text-indigo-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.receiptTemplate')}</h2>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_auto] gap-6">
+            <div className="space-y-5">
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">{t('settings.receiptHeader')}</p>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {RECEIPT_HEADER_TOGGLES.map((field) => (
+                    <label key={field} className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm cursor-pointer ${receipt[field] ? 'border-primary-300 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-500'}`}>
+                      <input
+                        type="checkbox"
+                        checked={receipt[field]}
+                        onChange={(e) => dispatch(setReceiptTemplate({ [field]: e.target.checked }))}
+                        className="rounded"
+                      />
+                      {getReceiptFieldLabel(field)}
+                    </label>
+                  ))}
+                </div>
+                {receipt.showLogo && !company.logoUrl && (
+                  <p className="text-xs text-amber-600 mb-2">{t('settings.logoMissing')}</p>
+                )}
+                <textarea
+                  value={receipt.headerText}
+                  onChange={(e) => dispatch(setReceiptTemplate({ headerText: e.target.value }))}
+                  placeholder={t('settings.headerTextPlaceholder')}
+                  rows={2}
+                  className="input-field resize-none"
+                />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">{t('settings.receiptBody')}</p>
+                <div className="flex flex-wrap gap-2">
+                  {RECEIPT_BODY_TOGGLES.map((field) => (
+                    <label key={field} className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm cursor-pointer ${receipt[field] ? 'border-primary-300 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-500'}`}>
+                      <input
+                        type="checkbox"
+                        checked={receipt[field]}
+                        onChange={(e) => dispatch(setReceiptTemplate({ [field]: e.target.checked }))}
+                        className="rounded"
+                      />
+                      {getReceiptFieldLabel(field)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">{t('settings.receiptFooter')}</p>
+                <textarea
+                  value={receipt.legalText}
+                  onChange={(e) => dispatch(setReceiptTemplate({ legalText: e.target.value }))}
+                  placeholder={t('settings.legalTextPlaceholder')}
+                  rows={3}
+                  className="input-field resize-none mb-2"
+                />
+                <Input
+                  value={receipt.footerText}
+                  onChange={(e) => dispatch(setReceiptTemplate({ footerText: e.target.value }))}
+                  placeholder={t('settings.footerPlaceholder')}
+                />
+                <p className="text-xs text-gray-400 mt-1">{t('settings.legalTextHint')}</p>
+              </div>
+            </div>
+            <div className="flex flex-col items-center">
+              <div className="flex gap-1 mb-3 bg-gray-100 rounded-xl p-1">
+                {([58, 80] as const).map((width) => (
+                  <button
+                    key={width}
+                    type="button"
+                    onClick={() => setPreviewWidth(width)}
+                    className={`px-3 py-1 rounded-lg text-xs font-medium ${previewWidth === width ? 'bg-white shadow-sm text-primary-700' : 'text-gray-500'}`}
+                  >
+                    {width}mm
+                  </button>
+                ))}
+              </div>
+              <iframe
+                title={t('settings.receiptPreview')}
+                srcDoc={receiptPreview}
+                style={{ width: `${previewWidth}mm` }}
+                className="h-[520px] bg-white border border-gray-200 rounded-lg shadow-inner"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Electronic invoicing (DIAN) */}
+        <div className="card sm:col-span-2 xl:col-span-3">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-emerald-100 rounded-xl flex items-center justify-center">
+                <FileCheck className="w-5 h-5 text-emerald-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-800">{t('settings.dianTitle')}</h2>
+                <p className="text-xs text-gray-500">{t('settings.dianHint')}</p>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={dian.enabled}
+                onChange={(e) => dispatch(setDianConfig({ enabled: e.target.checked }))}
+                className="rounded"
+              />
+              {t('settings.enabledFeminine')}
+            </label>
+          </div>
+          {dian.enabled && (
+            <div className="space-y-4">
+              {company.taxId && !company.taxId.includes('-') && (
+                <p className="text-xs text-amber-600">
+                  {t('settings.dianCheckDigit', splitNit(company.taxId))}
+                </p>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('settings.dianEnvironment')}</label>
+                  <select
+                    value={dian.environment}
+                    onChange={(e) => dispatch(setDianConfig({ environment: e.target.value as DianEnvironment }))}
+                    className="input-field"
+                  >
+                    {DIAN_ENVIRONMENTS.map((env) => (
+                      <option key={env} value={env}>{getDianEnvironmentLabel(env)}</option>
+                    ))}
+                  </select>
+                </div>
+                <Input label={t('settings.resolutionNumber')} value={dian.resolutionNumber}
+                  onChange={(e) => dispatch(setDianConfig({ resolutionNumber: e.target.value.trim() }))} />
+                <Input label={t('settings.resolutionDate')} type="date" value={dian.resolutionDate}
+                  onChange={(e) => dispatch(setDianConfig({ resolutionDate: e.target.value }))} />
+                <Input label={t('settings.prefix')} value={dian.prefix} placeholder={t('settings.prefixPlaceholder')}
+                  onChange={(e) => dispatch(setDianConfig({ prefix: e.target.value.trim().toUpperCase() }))} />
+                <Input label={t('settings.rangeFrom')} type="number" value={dian.rangeFrom}
+                  onChange={(e) => dispatch(setDianConfig({ rangeFrom: Number(e.target.value) || 0 }))} />
+                <Input label={t('settings.rangeTo')} type="number" value={dian.rangeTo}
+                  onChange={(e) => dispatch(setDianConfig({ rangeTo: Number(e.target.value) || 0 }))} />
+                <Input label={t('settings.validFrom')} type="date" value={dian.validFrom}
+                  onChange={(e) => dispatch(setDianConfig({ validFrom: e.target.value }))} />
+                <Input label={t('settings.validTo')} type="date" value={dian.validTo}
+                  onChange={(e) => dispatch(setDianConfig({ validTo: e.target.value }))} />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <Input label={t('settings.technicalKey')} value={dian.technicalKey}
+                  onChange={(e) => dispatch(setDianConfig({ technicalKey: e.target.value.trim() }))} />
+                <Input label={t('settings.softwareId')} value={dian.softwareId}
+                  onChange={(e) => dispatch(setDianConfig({ softwareId: e.target.value.trim() }))} />
+                <Input label={t('settings.softwarePin')} type="password" value={dian.softwarePin}
+                  onChange={(e) => dispatch(setDianConfig({ softwarePin: e.target.value.trim() }))} />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+                <Input label={t('settings.taxLevelCode')} value={dian.taxLevelCode} placeholder="R-99-PN"
+                  onChange={(e) => dispatch(setDianConfig({ taxLevelCode: e.target.value.trim() }))} />
+                <Input label={t('settings.municipalityCode')} value={dian.municipalityCode} placeholder="11001"
+                  onChange={(e) => dispatch(setDianConfig({ municipalityCode: e.target.value.replace(/\D/g, '').slice(0, 5) }))} />
+                <Input label={t('common.city')} value={dian.city}
+                  onChange={(e) => dispatch(setDianConfig({ city: e.target.value }))} />
+                <Input label={t('settings.department')} value={dian.department}
+                  onChange={(e) => dispatch(setDianConfig({ department: e.target.value }))} />
+                <Input label={t('settings.departmentCode')} value={dian.departmentCode} placeholder="11"
+                  onChange={(e) => dispatch(setDianConfig({ departmentCode: e.target.value.replace(/\D/g, '').slice(0, 2) }))} />
+              </div>
+              <p className="text-xs text-gray-400">
+                {t('settings.dianNumbering', { prefix: dian.prefix || t('settings.prefixExample') })}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Loyalty program */}
+        <div className="card sm:col-span-2 xl:col-span-3">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-yellow-100 rounded-xl flex items-center justify-center">
+                <Award className="w-5 h-5 text-yellow-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-800">{t('settings.loyaltyTitle')}</h2>
+                <p className="text-xs text-gray-500">{t('settings.loyaltyHint')}</p>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={loyalty.enabled}
+                onChange={(e) => dispatch(setLoyaltyConfig({ enabled: e.target.checked }))}
+                className="rounded"
+              />
+              {t('common.active')}
+            </label>
+          </div>
+          {loyalty.enabled && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+                <Input label={t('settings.amountPerPoint')} type="number" min={1} value={loyalty.amountPerPoint}
+                  onChange={(e) => dispatch(setLoyaltyConfig({ amountPerPoint: Math.max(1, Number(e.target.value) || 0) }))} />
+                <Input label={t('settings.pointValue')} type="number" min={0} value={loyalty.pointValue}
+                  onChange={(e) => dispatch(setLoyaltyConfig({ pointValue: Math.max(0, Number(e.target.value) || 0) }))} />
+                <Input label={t('settings.minRedeem')} type="number" min={0} value={loyalty.minRedeemPoints}
+                  onChange={(e) => dispatch(setLoyaltyConfig({ minRedeemPoints: Math.max(0, Number(e.target.value) || 0) }))} />
+                <Input label={t('settings.maxRedeemPercent')} type="number" min={0} max={100} value={loyalty.maxRedeemPercent}
+                  onChange={(e) => dispatch(setLoyaltyConfig({ maxRedeemPercent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))} />
+                <Input label={t('settings.expirationMonths')} type="number" min={0} value={loyalty.expirationMonths}
+                  onChange={(e) => dispatch(setLoyaltyConfig({ expirationMonths: Math.max(0, Number(e.target.value) || 0) }))} />
+              </div>
+              <p className="text-xs text-gray-400">
+                {t('settings.loyaltyExample', { amount: formatCurrency(loyalty.amountPerPoint * 100), value: formatCurrency(loyalty.pointValue * 100) })}
+                {loyalty.expirationMonths > 0 ? t('settings.loyaltyExpires', { months: loyalty.expirationMonths }) : t('settings.loyaltyNoExpiry')}
+              </p>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">{t('settings.tiers')}</p>
+                <p className="text-xs text-gray-500 mb-2">{t('settings.tiersHint')}</p>
+                <div className="space-y-2">
+                  {loyalty.tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={tier.name}
+                        onChange={(e) => updateTier(index, { name: e.target.value })}
+                        className="input-field flex-1"
+                        placeholder={t('settings.tierName')}
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={tier.minPoints}
+                        onChange={(e) => updateTier(index, { minPoints: Math.max(0, Number(e.target.value) || 0) })}
+                        className="input-field w-28 text-right"
+                        title={t('settings.tierMinPoints')}
+                      />
+                      <span className="text-xs text-gray-500">{t('settings.tierPoints')}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        step={0.05}
+                        value={tier.multiplier}
+                        onChange={(e) => updateTier(index, { multiplier: Math.max(1, Number(e.target.value) || 1) })}
+                        className="input-field w-20 text-right"
+                        title={t('settings.tierMultiplier')}
+                      />
+                      <button
+                        onClick={() => dispatch(setLoyaltyConfig({ tiers: loyalty.tiers.filter((_, i) => i !== index) }))}
+                        className="p-2 rounded-lg hover:bg-red-50 text-red-500"
+                        title={t('settings.removeTier')}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => dispatch(setLoyaltyConfig({ tiers: [...loyalty.tiers, { name: '', minPoints: 0, multiplier: 1 }] }))}
+                  className="mt-2 flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  <Plus size={14} /> {t('settings.addTier')}
+                </button>
+              </div>
+
+              {categories.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">{t('settings.excludedCategories')}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {categories.map((c) => {
+                      const excluded = loyalty.excludedCategoryIds.includes(c.id)
+                      return (
+                        <button
+                          key={c.id}
+                          onClick={() => toggleExcludedCategory(c.id)}
+                          className={`px-3 py-1 rounded-full text-sm border ${excluded ? 'bg-red-50 border-red-200 text-red-700' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                        >
+                          {c.name}
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Discount reasons */}
+        <div className="card">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-green-100 rounded-xl flex items-center justify-center">
+              <Tag className="w-5 h-5 text-green-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.discountReasons')}</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            {t('settings.discountReasonsHint')}
+          </p>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {pos.discountReasons.map((reason) => (
+              <span key={reason} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-primary-50 text-primary-700 rounded-full text-sm">
+                {reason}
+                <button
+                  onClick={() => dispatch(setPosConfig({ discountReasons: pos.discountReasons.filter((r) => r !== reason) }))}
+                  className="p-0.5 rounded-full hover:bg-primary-100"
+                  title={t('settings.removeReason')}
+                >
+                  <X size={14} />
+                </button>
+              </span>
+            ))}
+            {pos.discountReasons.length === 0 && (
+              <p className="text-xs text-amber-600">{t('settings.noReasons')}</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newReason}
+              onChange={(e) => setNewReason(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddReason()}
+              placeholder={t('settings.newReason')}
+              className="input-field flex-1"
+            />
+            <Button variant="secondary" onClick={handleAddReason}>
+              <Plus size={16} />
+            </Button>
+          </div>
+          <div className="flex items-center justify-between gap-3 mt-4 pt-4 border-t border-gray-100">
+            <div>
+              <p className="text-sm font-medium text-gray-700">{t('settings.maxDiscount')}</p>
+              <p className="text-xs text-gray-500">{t('settings.maxDiscountHint')}</p>
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={pos.maxDiscountPercent}
+                onChange={(e) => dispatch(setPosConfig({ maxDiscountPercent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+                className="input-field w-20 text-right"
+              />
+              <span className="text-sm text-gray-500">%</span>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-3 mt-4 pt-4 border-t border-gray-100">
+            <div>
+              <p className="text-sm font-medium text-gray-700">{t('settings.giftCardValidity')}</p>
+              <p className="text-xs text-gray-500">{t('settings.giftCardValidityHint')}</p>
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                max={60}
+                value={pos.giftCardValidityMonths}
+                onChange={(e) => dispatch(setPosConfig({ giftCardValidityMonths: Math.min(60, Math.max(0, Number(e.target.value) || 0)) }))}
+                className="input-field w-20 text-right"
+              />
+              <span className="text-sm text-gray-500">{t('settings.months')}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Servicio voluntario y propinas */}
+        <div className="card">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-amber-100 rounded-xl flex items-center justify-center">
+              <Coins className="w-5 h-5 text-amber-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.tipsTitle')}</h2>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="text-sm font-medium text-gray-700">{t('settings.serviceCharge')}</p>
+              <p className="text-xs text-gray-500">
+                {t('settings.serviceChargeHint', { max: MAX_SERVICE_CHARGE_PERCENT })}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                max={MAX_SERVICE_CHARGE_PERCENT}
+                value={pos.serviceChargePercent}
+                onChange={(e) => dispatch(setPosConfig({ serviceChargePercent: Math.min(MAX_SERVICE_CHARGE_PERCENT, Math.max(0, Number(e.target.value) || 0)) }))}
+                className="input-field w-20 text-right"
+              />
+              <span className="text-sm text-gray-500">%</span>
+            </div>
+          </div>
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <p className="text-sm font-medium text-gray-700">{t('settings.suggestedTips')}</p>
+            <p className="text-xs text-gray-500 mb-3">
+              {t('settings.suggestedTipsHint')}
+            </p>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {pos.suggestedTipPercents.map((percent) => (
+                <span key={percent} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-amber-50 text-amber-700 rounded-full text-sm">
+                  {percent}%
+                  <button
+                    onClick={() => dispatch(setPosConfig({ suggestedTipPercents: pos.suggestedTipPercents.filter((p) => p !== percent) }))}
+                    className="p-0.5 rounded-full hover:bg-amber-100"
+                    title={t('settings.removePercent')}
+                  >
+                    <X size={14} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={newTipPercent}
+                onChange={(e) => setNewTipPercent(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddTipPercent()}
+                placeholder={t('settings.newPercent')}
+                className="input-field flex-1"
+              />
+              <Button variant="secondary" onClick={handleAddTipPercent}>
+                <Plus size={16} />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Keyboard shortcuts (por usuario) */}
+        <div className="card">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-slate-100 rounded-xl flex items-center justify-center">
+              <Keyboard className="w-5 h-5 text-slate-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.shortcutsTitle')}</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            {t('settings.shortcutsHint', { name: user?.fullName || t('settings.thisUser') })}
+          </p>
+          <div className="divide-y divide-gray-100 mb-4">
+            {POS_SHORTCUT_ACTIONS.map((action) => (
+              <div key={action} className="flex items-center justify-between gap-3 py-2">
+                <span className="text-sm text-gray-700">{getShortcutLabel(action)}</span>
+                {capturingAction === action ? (
+                  <button
+                    autoFocus
+                    onKeyDown={(e) => handleCaptureKey(e, action)}
+                    onBlur={() => setCapturingAction(null)}
+                    className="px-3 py-1 rounded-lg border-2 border-primary-400 text-xs text-primary-700 animate-pulse"
+                  >
+                    {t('settings.pressKey')}
+                  </button>
+                ) : (
+                  <button onClick={() => setCapturingAction(action)} className="rounded-lg hover:bg-primary-50 p-1" title={t('settings.changeShortcut')}>
+                    <ShortcutKey shortcut={shortcuts[action]} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <Button variant="secondary" onClick={() => updateShortcuts(DEFAULT_SHORTCUTS)} className="w-full">
+            <RotateCcw size={16} />
+            {t('settings.resetShortcuts')}
+          </Button>
+        </div>
+
+        {/* Thermal printer (por terminal) */}
+        <div className="card">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-cyan-100 rounded-xl flex items-center justify-center">
+              <Printer className="w-5 h-5 text-cyan-600" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.printerTitle')}</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            {t('settings.printerHint')}
+          </p>
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('settings.printerOutput')}</label>
+              <select
+                value={printer.mode}
+                onChange={(e) => updatePrinter({ mode: e.target.value as PrinterConfig['mode'] })}
+                className="input-field"
+              >
+                {PRINTER_MODES.map((mode) => (
+                  <option key={mode} value={mode} disabled={mode === 'serial' && !isWebSerialSupported()}>
+                    {getPrinterModeLabel(mode)}
+                  </option>
+                ))}
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('settings.paperWidth')}</label>
+              <div className="flex gap-2">
+                {([58, 80] as const).map((width) => (
+                  <button
+                    key={width}
+                    type="button"
+                    onClick={() => updatePrinter({ paperWidth: width })}
+                    className={`flex-1 py-2 rounded-xl border text-sm font-medium ${
+                      printer.paperWidth === width ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-600'
+                    }`}
+                  >
+                    {width}mm
+                  </button>
+                ))}
+              </div>
+            </div>
+            {printer.mode === 'bridge' && (
+              <Input
+                label={t('settings.bridgeUrl')}
+                value={printer.bridgeUrl}
+                onChange={(e) => updatePrinter({ bridgeUrl: e.target.value })}
+                placeholder="http://localhost:9100/print"
+              />
+            )}
+            {printer.mode === 'serial' && (
+              <div className="flex items-end gap-2">
+                <Input
+                  label={t('settings.baudRate')}
+                  type="number"
+                  value={printer.baudRate}
+                  onChange={(e) => updatePrinter({ baudRate: Number(e.target.value) || 9600 })}
+                />
+                <Button variant="secondary" onClick={handleSelectSerialPort}>
+                  {t('settings.choosePort')}
+                </Button>
+              </div>
+            )}
+            {printer.mode !== 'html' && (
+              <>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={printer.openDrawer}
+                    onChange={(e) => updatePrinter({ openDrawer: e.target.checked })}
+                    className="rounded"
+                  />
+                  {t('settings.openDrawer')}
+                </label>
+                <Button variant="secondary" onClick={handleTestPrinter} disabled={testingPrinter} className="w-full">
+                  {testingPrinter ? <Loader2 size={16} className="animate-spin" /> : <Printer size={16} />}
+                  {t('settings.printTest')}
+                </Button>
+              </>
+            )}
           </div>
         </div>
 
@@ -299,31 +1026,31 @@ const SettingsPage = () => {
             <div className="w-10 h-10 bg-orange-100 rounded-xl flex items-center justify-center">
               <UtensilsCrossed className="w-5 h-5 text-orange-600" />
             </div>
-            <h2 className="text-lg font-semibold text-gray-800">Configuración de Mesas</h2>
+            <h2 className="text-lg font-semibold text-gray-800">{t('settings.tableSettings')}</h2>
           </div>
           <p className="text-sm text-gray-600 mb-4">
-            Personaliza las zonas y estados de las mesas del restaurante
+            {t('settings.tableSettingsHint')}
           </p>
           <Button variant="secondary" onClick={() => navigate('/settings/tables')} className="w-full">
-            Configurar Zonas y Estados
+            {t('settings.configureZones')}
           </Button>
         </div>
 
         {/* Logo Upload */}
         <div className="card">
-          <h2 className="text-lg font-semibold text-gray-800 mb-4">Logo de la Empresa</h2>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">{t('settings.companyLogo')}</h2>
           <div className="border-2 border-dashed border-primary-200 rounded-xl p-8 text-center">
             {company.logoUrl ? (
               <div className="relative inline-block">
                 <img 
                   src={company.logoUrl} 
-                  alt="Logo de la empresa" 
+                  alt={t('settings.logoAlt')} 
                   className="w-32 h-32 mx-auto mb-4 object-contain rounded-xl border border-gray-200"
                 />
                 <button
                   onClick={handleRemoveLogo}
                   className="absolute -top-2 -right-2 p-1.5 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
-                  title="Eliminar logo"
+                  title={t('settings.removeLogo')}
                 >
                   <Trash2 size={14} />
                 </button>
@@ -334,7 +1061,7 @@ const SettingsPage = () => {
               </div>
             )}
             <p className="text-gray-500 mb-2">
-              {company.logoUrl ? 'Cambiar logo' : 'Arrastra tu logo aquí o'}
+              {company.logoUrl ? t('settings.changeLogo') : t('settings.dropLogo')}
             </p>
             <input
               ref={fileInputRef}
@@ -353,13 +1080,13 @@ const SettingsPage = () => {
                 onClick={() => fileInputRef.current?.click()}
               >
                 {uploading ? (
-                  <>Subiendo...</>
+                  <>{t('settings.uploading')}</>
                 ) : (
-                  <><Upload size={16} /> Seleccionar Archivo</>
+                  <><Upload size={16} /> {t('settings.selectFile')}</>
                 )}
               </Button>
             </label>
-            <p className="text-xs text-gray-400 mt-2">PNG, JPG hasta 2MB</p>
+            <p className="text-xs text-gray-400 mt-2">{t('settings.logoFormats')}</p>
           </div>
         </div>
       </div>
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react'
 import { Plus, X, Edit2, Trash2, Save } from 'lucide-react'
 import toast from 'react-hot-toast'
 import Button from '@/shared/components/ui/Button'
+import { t } from '@/core/i18n'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 interface ZoneConfig {
   id: string
@@ -18,21 +20,23 @@ interface StatusConfig {
   borderColor: string
 }
 
-const DEFAULT_ZONES: ZoneConfig[] = [
-  { id: 'INTERIOR', name: 'Interior', color: 'blue' },
-  { id: 'TERRAZA', name: 'Terraza', color: 'green' },
-  { id: 'BAR', name: 'Bar', color: 'purple' },
-  { id: 'VIP', name: 'VIP', color: 'yellow' },
+// Predeterminados en el idioma activo; lo que el usuario guarda en localStorage se conserva tal cual
+const getDefaultZones = (): ZoneConfig[] => [
+  { id: 'INTERIOR', name: t('tableSettings.zone.interior'), color: 'blue' },
+  { id: 'TERRAZA', name: t('tableSettings.zone.terrace'), color: 'green' },
+  { id: 'BAR', name: t('tableSettings.zone.bar'), color: 'purple' },
+  { id: 'VIP', name: t('tableSettings.zone.vip'), color: 'yellow' },
 ]
 
-const DEFAULT_STATUSES: StatusConfig[] = [
-  { id: 'DISPONIBLE', name: 'Disponible', label: 'Disponible', bgColor: 'bg-green-50', textColor: 'text-green-700', borderColor: 'border-green-200' },
-  { id: 'OCUPADA', name: 'Ocupada', label: 'Ocupada', bgColor: 'bg-red-50', textColor: 'text-red-700', borderColor: 'border-red-300' },
-  { id: 'RESERVADA', name: 'Reservada', label: 'Reservada', bgColor: 'bg-yellow-50', textColor: 'text-yellow-700', borderColor: 'border-yellow-200' },
-  { id: 'FUERA_DE_SERVICIO', name: 'Fuera de servicio', label: 'Fuera de servicio', bgColor: 'bg-gray-100', textColor: 'text-gray-500', borderColor: 'border-gray-300' },
+const getDefaultStatuses = (): StatusConfig[] => [
+  { id: 'DISPONIBLE', name: t('tables.status.available'), label: t('tables.status.available'), bgColor: 'bg-green-50', textColor: 'text-green-700', borderColor: 'border-green-200' },
+  { id: 'OCUPADA', name: t('tables.status.occupied'), label: t('tables.status.occupied'), bgColor: 'bg-red-50', textColor: 'text-red-700', borderColor: 'border-red-300' },
+  { id: 'RESERVADA', name: t('tables.status.reserved'), label: t('tables.status.reserved'), bgColor: 'bg-yellow-50', textColor: 'text-yellow-700', borderColor: 'border-yellow-200' },
+  { id: 'FUERA_DE_SERVICIO', name: t('tables.status.outOfService'), label: t('tables.status.outOfService'), bgColor: 'bg-gray-100', textColor: 'text-gray-500', borderColor: 'border-gray-300' },
 ]
 
 const TableSettingsPage = () => {
+  const { t } = useTranslation()
   const [zones, setZones] = useState<ZoneConfig[]>([])
   const [statuses, setStatuses] = useState<StatusConfig[]>([])
   const [editingZone, setEditingZone] = useState<ZoneConfig | null>(null)
@@ -48,20 +52,20 @@ const TableSettingsPage = () => {
     const savedZones = localStorage.getItem('table_zones')
     const savedStatuses = localStorage.getItem('table_statuses')
     
-    setZones(savedZones ? JSON.parse(savedZones) : DEFAULT_ZONES)
-    setStatuses(savedStatuses ? JSON.parse(savedStatuses) : DEFAULT_STATUSES)
+    setZones(savedZones ? JSON.parse(savedZones) : getDefaultZones())
+    setStatuses(savedStatuses ? JSON.parse(savedStatuses) : getDefaultStatuses())
   }
 
   const saveZones = (newZones: ZoneConfig[]) => {
     localStorage.setItem('table_zones', JSON.stringify(newZones))
     setZones(newZones)
-    toast.success('Zonas guardadas correctamente')
+    toast.success(t('tableSettings.zonesSaved'))
   }
 
   const saveStatuses = (newStatuses: StatusConfig[]) => {
     localStorage.setItem('table_statuses', JSON.stringify(newStatuses))
     setStatuses(newStatuses)
-    toast.success('Estados guardados correctamente')
+    toast.success(t('tableSettings.statusesSaved'))
   }
 
   const handleAddZone = () => {
@@ -76,7 +80,7 @@ const TableSettingsPage = () => {
 
   const handleSaveZone = () => {
     if (!editingZone?.name.trim()) {
-      toast.error('El nombre de la zona es requerido')
+      toast.error(t('tableSettings.zoneNameRequired'))
       return
     }
 
@@ -96,7 +100,7 @@ const TableSettingsPage = () => {
   }
 
   const handleDeleteZone = (zoneId: string) => {
-    if (!confirm('¿Eliminar esta zona? Las mesas con esta zona quedarán sin clasificar.')) return
+    if (!confirm(t('tableSettings.deleteZoneConfirm'))) return
     const newZones = zones.filter(z => z.id !== zoneId)
     saveZones(newZones)
   }
@@ -120,7 +124,7 @@ const TableSettingsPage = () => {
 
   const handleSaveStatus = () => {
     if (!editingStatus?.name.trim()) {
-      toast.error('El nombre del estado es requerido')
+      toast.error(t('tableSettings.statusNameRequired'))
       return
     }
 
@@ -140,37 +144,37 @@ const TableSettingsPage = () => {
   }
 
   const handleDeleteStatus = (statusId: string) => {
-    if (!confirm('¿Eliminar este estado? Las mesas con este estado quedarán sin clasificar.')) return
+    if (!confirm(t('tableSettings.deleteStatusConfirm'))) return
     const newStatuses = statuses.filter(s => s.id !== statusId)
     saveStatuses(newStatuses)
   }
 
   const handleRestoreDefaults = () => {
-    if (!confirm('¿Restaurar configuración predeterminada? Se perderán las zonas y estados personalizados.')) return
+    if (!confirm(t('tableSettings.restoreConfirm'))) return
     localStorage.removeItem('table_zones')
     localStorage.removeItem('table_statuses')
     loadSettings()
-    toast.success('Configuración restaurada')
+    toast.success(t('tableSettings.restored'))
   }
 
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-800">Configuración de Mesas</h1>
-          <p className="text-gray-500">Personaliza zonas y estados de las mesas</p>
+          <h1 className="text-2xl font-bold text-gray-800">{t('tableSettings.title')}</h1>
+          <p className="text-gray-500">{t('tableSettings.subtitle')}</p>
         </div>
         <Button variant="secondary" onClick={handleRestoreDefaults}>
-          Restaurar Predeterminados
+          {t('tableSettings.restoreDefaults')}
         </Button>
       </div>
 
       {/* Zonas */}
       <div className="card p-6">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-semibold text-gray-800">Zonas de Mesas</h2>
+          <h2 className="text-lg font-semibold text-gray-800">{t('tableSettings.zones')}</h2>
           <Button variant="primary" size="sm" onClick={handleAddZone}>
-            <Plus size={16} /> Agregar Zona
+            <Plus size={16} /> {t('tableSettings.addZone')}
           </Button>
         </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
@@ -196,9 +200,9 @@ const TableSettingsPage = () => {
       {/* Estados */}
       <div className="card p-6">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-semibold text-gray-800">Estados de Mesas</h2>
+          <h2 className="text-lg font-semibold text-gray-800">{t('tableSettings.statuses')}</h2>
           <Button variant="primary" size="sm" onClick={handleAddStatus}>
-            <Plus size={16} /> Agregar Estado
+            <Plus size={16} /> {t('tableSettings.addStatus')}
           </Button>
         </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
@@ -206,7 +210,7 @@ const TableSettingsPage = () => {
             <div key={status.id} className={`flex items-center justify-between p-4 ${status.bgColor} ${status.borderColor} border rounded-xl`}>
               <div>
                 <span className={`font-medium ${status.textColor}`}>{status.label}</span>
-                <p className="text-xs text-gray-500 mt-0.5">ID: {status.id}</p>
+                <p className="text-xs text-gray-500 mt-0.5">{t('tableSettings.statusId', { id: status.id })}</p>
               </div>
               <div className="flex gap-2">
                 <button onClick={() => handleEditStatus(status)} className="p-1.5 hover:bg-white rounded-lg transition-colors">
@@ -227,7 +231,7 @@ const TableSettingsPage = () => {
           <div className="modal-content max-w-md p-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-xl font-bold text-gray-800">
-                {zones.some(z => z.id === editingZone.id) ? 'Editar Zona' : 'Nueva Zona'}
+                {zones.some(z => z.id === editingZone.id) ? t('tableSettings.editZone') : t('tableSettings.newZone')}
               </h3>
               <button onClick={() => { setShowZoneModal(false); setEditingZone(null) }} className="p-1 hover:bg-gray-100 rounded-lg">
                 <X size={20} />
@@ -235,37 +239,37 @@ const TableSettingsPage = () => {
             </div>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre de la Zona</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('tableSettings.zoneName')}</label>
                 <input
                   type="text"
                   value={editingZone.name}
                   onChange={(e) => setEditingZone({ ...editingZone, name: e.target.value })}
                   className="input-field"
-                  placeholder="Ej: Terraza Principal"
+                  placeholder={t('tableSettings.zoneNamePlaceholder')}
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('tableSettings.color')}</label>
                 <select
                   value={editingZone.color}
                   onChange={(e) => setEditingZone({ ...editingZone, color: e.target.value })}
                   className="input-field"
                 >
-                  <option value="blue">Azul</option>
-                  <option value="green">Verde</option>
-                  <option value="purple">Morado</option>
-                  <option value="yellow">Amarillo</option>
-                  <option value="red">Rojo</option>
-                  <option value="pink">Rosa</option>
-                  <option value="indigo">Índigo</option>
+                  <option value="blue">{t('tableSettings.color.blue')}</option>
+                  <option value="green">{t('tableSettings.color.green')}</option>
+                  <option value="purple">{t('tableSettings.color.purple')}</option>
+                  <option value="yellow">{t('tableSettings.color.yellow')}</option>
+                  <option value="red">{t('tableSettings.color.red')}</option>
+                  <option value="pink">{t('tableSettings.color.pink')}</option>
+                  <option value="indigo">{t('tableSettings.color.indigo')}</option>
                 </select>
               </div>
               <div className="flex gap-3 pt-4">
                 <Button variant="primary" className="flex-1" onClick={handleSaveZone}>
-                  <Save size={16} /> Guardar
+                  <Save size={16} /> {t('common.save')}
                 </Button>
                 <Button variant="secondary" onClick={() => { setShowZoneModal(false); setEditingZone(null) }}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
               </div>
             </div>
@@ -279,7 +283,7 @@ const TableSettingsPage = () => {
           <div className="modal-content max-w-md p-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-xl font-bold text-gray-800">
-                {statuses.some(s => s.id === editingStatus.id) ? 'Editar Estado' : 'Nuevo Estado'}
+                {statuses.some(s => s.id === editingStatus.id) ? t('tableSettings.editStatus') : t('tableSettings.newStatus')}
               </h3>
               <button onClick={() => { setShowStatusModal(false); setStatusStatus(null) }} className="p-1 hover:bg-gray-100 rounded-lg">
                 <X size={20} />
@@ -287,72 +291,72 @@ const TableSettingsPage = () => {
             </div>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre del Estado</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('tableSettings.statusName')}</label>
                 <input
                   type="text"
                   value={editingStatus.name}
                   onChange={(e) => setStatusStatus({ ...editingStatus, name: e.target.value, label: e.target.value })}
                   className="input-field"
-                  placeholder="Ej: En Limpieza"
+                  placeholder={t('tableSettings.statusNamePlaceholder')}
                 />
               </div>
               <div className="grid grid-cols-3 gap-3">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1 text-xs">Color Fondo</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1 text-xs">{t('tableSettings.bgColor')}</label>
                   <select
                     value={editingStatus.bgColor}
                     onChange={(e) => setStatusStatus({ ...editingStatus, bgColor: e.target.value })}
                     className="input-field text-xs"
                   >
-                    <option value="bg-green-50">Verde</option>
-                    <option value="bg-red-50">Rojo</option>
-                    <option value="bg-yellow-50">Amarillo</option>
-                    <option value="bg-blue-50">Azul</option>
-                    <option value="bg-purple-50">Morado</option>
-                    <option value="bg-gray-100">Gris</option>
+                    <option value="bg-green-50">{t('tableSettings.color.green')}</option>
+                    <option value="bg-red-50">{t('tableSettings.color.red')}</option>
+                    <option value="bg-yellow-50">{t('tableSettings.color.yellow')}</option>
+                    <option value="bg-blue-50">{t('tableSettings.color.blue')}</option>
+                    <option value="bg-purple-50">{t('tableSettings.color.purple')}</option>
+                    <option value="bg-gray-100">{t('tableSettings.color.gray')}</option>
                   </select>
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1 text-xs">Color Texto</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1 text-xs">{t('tableSettings.textColor')}</label>
                   <select
                     value={editingStatus.textColor}
                     onChange={(e) => setStatusStatus({ ...editingStatus, textColor: e.target.value })}
                     className="input-field text-xs"
                   >
-                    <option value="text-green-700">Verde</option>
-                    <option value="text-red-700">Rojo</option>
-                    <option value="text-yellow-700">Amarillo</option>
-                    <option value="text-blue-700">Azul</option>
-                    <option value="text-purple-700">Morado</option>
-                    <option value="text-gray-500">Gris</option>
+                    <option value="text-green-700">{t('tableSettings.color.green')}</option>
+                    <option value="text-red-700">{t('tableSettings.color.red')}</option>
+                    <option value="text-yellow-700">{t('tableSettings.color.yellow')}</option>
+                    <option value="text-blue-700">{t('tableSettings.color.blue')}</option>
+                    <option value="text-purple-700">{t('tableSettings.color.purple')}</option>
+                    <option value="text-gray-500">{t('tableSettings.color.gray')}</option>
                   </select>
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1 text-xs">Color Borde</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1 text-xs">{t('tableSettings.borderColor')}</label>
                   <select
                     value={editingStatus.borderColor}
                     onChange={(e) => setStatusStatus({ ...editingStatus, borderColor: e.target.value })}
                     className="input-field text-xs"
                   >
-                    <option value="border-green-200">Verde</option>
-                    <option value="border-red-300">Rojo</option>
-                    <option value="border-yellow-200">Amarillo</option>
-                    <option value="border-blue-200">Azul</option>
-                    <option value="border-purple-200">Morado</option>
-                    <option value="border-gray-300">Gris</option>
+                    <option value="border-green-200">{t('tableSettings.color.green')}</option>
+                    <option value="border-red-300">{t('tableSettings.color.red')}</option>
+                    <option value="border-yellow-200">{t('tableSettings.color.yellow')}</option>
+                    <option value="border-blue-200">{t('tableSettings.color.blue')}</option>
+                    <option value="border-purple-200">{t('tableSettings.color.purple')}</option>
+                    <option value="border-gray-300">{t('tableSettings.color.gray')}</option>
                   </select>
                 </div>
               </div>
               <div className={`p-3 ${editingStatus.bgColor} ${editingStatus.borderColor} border rounded-xl`}>
-                <p className="text-sm text-gray-600 mb-1">Vista previa:</p>
-                <span className={`font-medium ${editingStatus.textColor}`}>{editingStatus.label || 'Nombre del Estado'}</span>
+                <p className="text-sm text-gray-600 mb-1">{t('tableSettings.preview')}</p>
+                <span className={`font-medium ${editingStatus.textColor}`}>{editingStatus.label || t('tableSettings.statusName')}</span>
               </div>
               <div className="flex gap-3 pt-4">
                 <Button variant="primary" className="flex-1" onClick={handleSaveStatus}>
-                  <Save size={16} /> Guardar
+                  <Save size={16} /> {t('common.save')}
                 </Button>
                 <Button variant="secondary" onClick={() => { setShowStatusModal(false); setStatusStatus(null) }}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
               </div>
             </div>
@@ -1,5 +1,10 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
 import { settingsService } from '@/core/api/settingsService'
+import { ReceiptTemplate, DEFAULT_RECEIPT_TEMPLATE, normalizeReceiptTemplate } from '@/shared/utils/receiptTemplate'
+import { DianConfig, DEFAULT_DIAN_CONFIG, normalizeDianConfig } from '@/shared/utils/dian'
+import { LoyaltyConfig, DEFAULT_LOYALTY_CONFIG, normalizeLoyaltyConfig } from '@/shared/utils/loyalty'
+import { normalizeForeignCurrencies } from '@/shared/utils/currency'
+import { setBaseCurrency } from '@/shared/utils/format'
 
 interface ThemeConfig {
   primaryColor: string
@@ -16,15 +21,36 @@ interface CompanyConfig {
   taxId: string
   logoUrl: string
   currency: string
+  /** Divisas que se reciben en efectivo a la tasa del día (p. ej. USD de turistas) */
+  foreignCurrencies: string[]
   taxRate: number
+  /** true: los precios de venta ya incluyen el impuesto; false: se suma al cobrar */
+  pricesIncludeTax: boolean
   address: string
   phone: string
   email: string
 }
 
+interface PosConfig {
+  /** Motivos que el cajero debe elegir al aplicar un descuento por línea */
+  discountReasons: string[]
+  /** Descuento (%) que se aplica sin `pos.discount`; por encima se pide autorización de supervisor */
+  maxDiscountPercent: number
+  /** Meses de vigencia sugeridos al vender una tarjeta de regalo (0 = sin vencimiento) */
+  giftCardValidityMonths: number
+  /** Servicio voluntario que se sugiere al cobrar (máximo 10%) */
+  serviceChargePercent: number
+  /** Porcentajes de propina que se ofrecen como botones en el cobro */
+  suggestedTipPercents: number[]
+}
+
 interface SettingsState {
   theme: ThemeConfig
   company: CompanyConfig
+  pos: PosConfig
+  receipt: ReceiptTemplate
+  dian: DianConfig
+  loyalty: LoyaltyConfig
   businessType: string
   isLoading: boolean
 }
@@ -41,10 +67,16 @@ const loadFromStorage = (): Partial<SettingsState> => {
 }
 
 const saveToStorage = (state: SettingsState) => {
+  // Toda escritura de la configuración pasa por aquí: mantiene la moneda de los formateadores al día
+  setBaseCurrency(state.company.currency)
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify({
       theme: state.theme,
       company: state.company,
+      pos: state.pos,
+      receipt: state.receipt,
+      dian: state.dian,
+      loyalty: state.loyalty,
       businessType: state.businessType
     }))
   } catch (e) {
@@ -67,11 +99,23 @@ const defaultState: SettingsState = {
     taxId: '',
     logoUrl: '',
     currency: 'COP',
+    foreignCurrencies: [],
     taxRate: 19,
+    pricesIncludeTax: true,
     address: '',
     phone: '',
     email: '',
   },
+  pos: {
+    discountReasons: ['Cortesía', 'Cliente frecuente', 'Producto averiado', 'Error de precio', 'Consumo de empleado'],
+    maxDiscountPercent: 10,
+    giftCardValidityMonths: 12,
+    serviceChargePercent: 10,
+    suggestedTipPercents: [5, 10, 15],
+  },
+  receipt: DEFAULT_RECEIPT_TEMPLATE,
+  dian: DEFAULT_DIAN_CONFIG,
+  loyalty: DEFAULT_LOYALTY_CONFIG,
   businessType: 'GENERAL',
   isLoading: false,
 }
@@ -92,11 +136,16 @@ const mapBackendToState = (data: any): Partial<SettingsState> => ({
     taxId: data.taxId || '',
     logoUrl: data.logoUrl || '',
     currency: data.currency || 'COP',
+    foreignCurrencies: normalizeForeignCurrencies(data.foreignCurrencies, data.currency || 'COP'),
     taxRate: data.taxRate != null ? Number(data.taxRate) : 19,
+    pricesIncludeTax: data.pricesIncludeTax ?? true,
     address: data.address || '',
     phone: data.phone || '',
     email: data.email || '',
   },
+  ...(data.receiptTemplate ? { receipt: normalizeReceiptTemplate(data.receiptTemplate) } : {}),
+  ...(data.dianConfig ? { dian: normalizeDianConfig(data.dianConfig) } : {}),
+  ...(data.loyaltyConfig ? { loyalty: normalizeLoyaltyConfig(data.loyaltyConfig) } : {}),
   businessType: data.businessType || 'GENERAL',
 })
 
@@ -122,10 +171,15 @@ export const saveSettingsToBackend = createAsyncThunk('settings/save', async (_,
     sidebarColor: state.theme.sidebarColor,
     businessType: state.businessType,
     currency: state.company.currency,
+    foreignCurrencies: JSON.stringify(state.company.foreignCurrencies),
     taxRate: state.company.taxRate,
+    pricesIncludeTax: state.company.pricesIncludeTax,
     address: state.company.address,
     phone: state.company.phone,
     email: state.company.email,
+    receiptTemplate: JSON.stringify(state.receipt),
+    dianConfig: JSON.stringify(state.dian),
+    loyaltyConfig: JSON.stringify(state.loyalty),
   }
   const res = await settingsService.updateConfig(payload)
   return res as any
@@ -137,7 +191,12 @@ const initialState: SettingsState = {
   ...savedState,
   theme: { ...defaultState.theme, ...savedState.theme },
   company: { ...defaultState.company, ...savedState.company },
+  pos: { ...defaultState.pos, ...savedState.pos },
+  receipt: normalizeReceiptTemplate(savedState.receipt),
+  dian: normalizeDianConfig(savedState.dian),
+  loyalty: normalizeLoyaltyConfig(savedState.loyalty),
 }
+setBaseCurrency(initialState.company.currency)
 
 const settingsSlice = createSlice({
   name: 'settings',
@@ -151,6 +210,22 @@ const settingsSlice = createSlice({
       state.company = { ...state.company, ...action.payload }
       saveToStorage(state)
     },
+    setPosConfig: (state, action: PayloadAction<Partial<PosConfig>>) => {
+      state.pos = { ...state.pos, ...action.payload }
+      saveToStorage(state)
+    },
+    setReceiptTemplate: (state, action: PayloadAction<Partial<ReceiptTemplate>>) => {
+      state.receipt = { ...state.receipt, ...action.payload }
+      saveToStorage(state)
+    },
+    setDianConfig: (state, action: PayloadAction<Partial<DianConfig>>) => {
+      state.dian = { ...state.dian, ...action.payload }
+      saveToStorage(state)
+    },
+    setLoyaltyConfig: (state, action: PayloadAction<Partial<LoyaltyConfig>>) => {
+      state.loyalty = { ...state.loyalty, ...action.payload }
+      saveToStorage(state)
+    },
     setBusinessType: (state, action: PayloadAction<string>) => {
       state.businessType = action.payload
       saveToStorage(state)
@@ -174,6 +249,9 @@ const settingsSlice = createSlice({
         const mapped = mapBackendToState(action.payload)
         state.theme = { ...state.theme, ...mapped.theme }
         state.company = { ...state.company, ...mapped.company }
+        if (mapped.receipt) state.receipt = mapped.receipt
+        if (mapped.dian) state.dian = mapped.dian
+        if (mapped.loyalty) state.loyalty = mapped.loyalty
         state.businessType = mapped.businessType || state.businessType
         state.isLoading = false
         saveToStorage(state)
@@ -185,11 +263,14 @@ const settingsSlice = createSlice({
         const mapped = mapBackendToState(action.payload)
         state.theme = { ...state.theme, ...mapped.theme }
         state.company = { ...state.company, ...mapped.company }
+        if (mapped.receipt) state.receipt = mapped.receipt
+        if (mapped.dian) state.dian = mapped.dian
+        if (mapped.loyalty) state.loyalty = mapped.loyalty
         state.businessType = mapped.businessType || state.businessType
         saveToStorage(state)
       })
   },
 })
 
-export const { setTheme, setCompany, setBusinessType, setSettings, resetTheme } = settingsSlice.actions
+export const { setTheme, setCompany, setPosConfig, setReceiptTemplate, setDianConfig, setLoyaltyConfig, setBusinessType, setSettings, resetTheme } = settingsSlice.actions
 export default settingsSlice.reducer
@@ -1,17 +1,33 @@
-import { useState, useEffect, useCallback } from 'react'
-import { useSelector } from 'react-redux'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useSelector, useDispatch } from 'react-redux'
+import { useLocation, useNavigate } from 'react-router-dom'
 import {
-  Plus, X, Users, Clock, Search, Loader2, CreditCard, Banknote,
-  Minus, Trash2, ChevronRight, UtensilsCrossed, Coffee, AlertCircle, Printer, User, UserPlus, Edit2, Truck, ShoppingCart
+  Plus, X, Users, Clock, Search, Loader2, CreditCard,
+  Minus, Trash2, ChevronRight, UtensilsCrossed, Coffee, AlertCircle, Printer, User, UserPlus, Edit2, Truck, ShoppingCart, RotateCcw
 } from 'lucide-react'
 import toast from 'react-hot-toast'
-import { RootState } from '@/app/store'
+import { RootState, AppDispatch } from '@/app/store'
+import { fetchCurrentSession } from '@/modules/cash/store/cashSessionSlice'
 import { tableService, OpenTableRequest, AddTableItemsRequest, PayTableRequest } from '@/core/api/tableService'
+import { exchangeRateService } from '@/core/api/exchangeRateService'
 import { productService } from '@/core/api/productService'
 import { categoryService } from '@/core/api/categoryService'
 import { customerService } from '@/core/api/customerService'
 import { invoiceService } from '@/core/api/invoiceService'
-import { RestaurantTable, TableSession, Product, Category, Customer, InvoiceDetail } from '@/types'
+import { RestaurantTable, TableSession, Product, Category, Customer, InvoiceDetail, SelectedModifier, ExchangeRate } from '@/types'
+import ModifierSelectorModal from '@/shared/components/ModifierSelectorModal'
+import { hasModifierGroups, getModifiersKey, getModifiersTotal, formatModifiers } from '@/shared/utils/modifiers'
+import TenderEditor from '@/shared/components/TenderEditor'
+import TipEditor from '@/shared/components/TipEditor'
+import SupervisorAuthModal from '@/shared/components/SupervisorAuthModal'
+import { useSupervisorAuth } from '@/core/hooks/useSupervisorAuth'
+import { TenderLine, PaymentLine, createTenderLine, summarizeTenders, buildPaymentLines, resolvePaymentMethod, getPaymentMethodLabel, getPaymentLineLabel, hasPaymentBreakdown, getInvoicePayments } from '@/shared/utils/payments'
+import { getTodayRates, setTenderAmount, describeForeignPayment } from '@/shared/utils/currency'
+import { printInvoice } from '@/shared/utils/printInvoice'
+import { TipInput, createTipInput, calculateTip, splitTip } from '@/shared/utils/tips'
+import { formatCurrency, formatTime } from '@/shared/utils/format'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { t } from '@/core/i18n'
 
 const getHttpErrorMessage = (error: any): string => {
   if (error?.response?.data?.message) {
@@ -20,17 +36,18 @@ const getHttpErrorMessage = (error: any): string => {
   if (error?.message) {
     return error.message
   }
-  return 'Error desconocido'
+  return t('common.unknownError')
 }
 
 const DEFAULT_ZONES = ['INTERIOR', 'TERRAZA', 'BAR', 'VIP']
 
-const DEFAULT_STATUS_COLORS: Record<string, { bg: string; text: string; border: string; label: string }> = {
-  DISPONIBLE: { bg: 'bg-green-50', text: 'text-green-700', border: 'border-green-200', label: 'Disponible' },
-  OCUPADA: { bg: 'bg-red-50', text: 'text-red-700', border: 'border-red-300', label: 'Ocupada' },
-  RESERVADA: { bg: 'bg-yellow-50', text: 'text-yellow-700', border: 'border-yellow-200', label: 'Reservada' },
-  FUERA_DE_SERVICIO: { bg: 'bg-gray-100', text: 'text-gray-500', border: 'border-gray-300', label: 'Fuera de servicio' },
-}
+// Los estados personalizados guardan su propia etiqueta; los predeterminados se traducen al cargarlos
+const getDefaultStatusColors = (): Record<string, { bg: string; text: string; border: string; label: string }> => ({
+  DISPONIBLE: { bg: 'bg-green-50', text: 'text-green-700', border: 'border-green-200', label: t('tables.status.available') },
+  OCUPADA: { bg: 'bg-red-50', text: 'text-red-700', border: 'border-red-300', label: t('tables.status.occupied') },
+  RESERVADA: { bg: 'bg-yellow-50', text: 'text-yellow-700', border: 'border-yellow-200', label: t('tables.status.reserved') },
+  FUERA_DE_SERVICIO: { bg: 'bg-gray-100', text: 'text-gray-500', border: 'border-gray-300', label: t('tables.status.outOfService') },
+})
 
 const loadTableZones = (): string[] => {
   const saved = localStorage.getItem('table_zones')
@@ -56,16 +73,7 @@ const loadStatusColors = (): Record<string, { bg: string; text: string; border:
     })
     return result
   }
-  return DEFAULT_STATUS_COLORS
-}
-
-const formatCurrency = (value: number) => {
-  return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(value)
-}
-
-const formatTime = (dateStr: string) => {
-  const date = new Date(dateStr)
-  return date.toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })
+  return getDefaultStatusColors()
 }
 
 const getElapsedMinutes = (dateStr: string) => {
@@ -73,18 +81,38 @@ const getElapsedMinutes = (dateStr: string) => {
   return Math.floor(diff / 60000)
 }
 
+interface ItemToAdd {
+  lineId: string
+  product: Product
+  quantity: number
+  /** Precio base más los deltas de los modificadores */
+  unitPrice: number
+  notes?: string
+  modifiers?: SelectedModifier[]
+}
+
 const TablesPage = () => {
+  const dispatch = useDispatch<AppDispatch>()
+  const { t, language } = useTranslation()
+  const location = useLocation()
+  const navigate = useNavigate()
   const { user } = useSelector((state: RootState) => state.auth)
+  const { current: cashSession } = useSelector((state: RootState) => state.cashSession)
+  const { maxDiscountPercent, serviceChargePercent, suggestedTipPercents } = useSelector((state: RootState) => state.settings.pos)
+  const loyaltyEnabled = useSelector((state: RootState) => state.settings.loyalty.enabled)
+  const foreignCurrencies = useSelector((state: RootState) => state.settings.company.foreignCurrencies)
+  const supervisorAuth = useSupervisorAuth()
 
   // Data
   const [tables, setTables] = useState<RestaurantTable[]>([])
   const [products, setProducts] = useState<Product[]>([])
   const [categories, setCategories] = useState<Category[]>([])
   const [loading, setLoading] = useState(true)
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
 
   // Dynamic configs
   const [availableZones] = useState<string[]>(loadTableZones())
-  const [statusColors] = useState(loadStatusColors())
+  const statusColors = useMemo(loadStatusColors, [language])
 
   // Filters
   const [zoneFilter, setZoneFilter] = useState<string | null>(null)
@@ -100,6 +128,8 @@ const TablesPage = () => {
   const [showMobileCart, setShowMobileCart] = useState(false)
   const [showPayModal, setShowPayModal] = useState(false)
   const [showCreateTableModal, setShowCreateTableModal] = useState(false)
+  const [showReopenModal, setShowReopenModal] = useState(false)
+  const [reopenReason, setReopenReason] = useState('')
 
   // Open table form
   const [guestCount, setGuestCount] = useState(1)
@@ -108,15 +138,16 @@ const TablesPage = () => {
   // Add items
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState<number | null>(null)
-  const [itemsToAdd, setItemsToAdd] = useState<{ product: Product; quantity: number; notes?: string }[]>([])
+  const [itemsToAdd, setItemsToAdd] = useState<ItemToAdd[]>([])
+  const [modifierProduct, setModifierProduct] = useState<Product | null>(null)
   const [priorityKitchenBatch, setPriorityKitchenBatch] = useState(false)
   const [priorityReason, setPriorityReason] = useState('')
 
   // Pay form
-  const [paymentMethod, setPaymentMethod] = useState<'EFECTIVO' | 'TRANSFERENCIA'>('EFECTIVO')
-  const [amountReceived, setAmountReceived] = useState('')
+  const [tenders, setTenders] = useState<TenderLine[]>([])
   const [processing, setProcessing] = useState(false)
   const [includeServiceCharge, setIncludeServiceCharge] = useState(false)
+  const [tip, setTip] = useState<TipInput>(createTipInput())
 
   // Customers
   const [customers, setCustomers] = useState<Customer[]>([])
@@ -152,7 +183,7 @@ const TablesPage = () => {
       const res = await tableService.getAll()
       setTables(Array.isArray(res) ? res : [])
     } catch (err) {
-      toast.error('Error al cargar mesas')
+      toast.error(t('tables.loadError'))
     }
   }, [])
 
@@ -179,11 +210,21 @@ const TablesPage = () => {
     }
   }, [])
 
+  const fetchExchangeRates = useCallback(async () => {
+    try {
+      const res = await exchangeRateService.getToday()
+      setExchangeRates(Array.isArray(res) ? res : [])
+    } catch {
+      // Sin tasa del día: no se recibe efectivo en divisa
+    }
+  }, [])
+
   useEffect(() => {
     const init = async () => {
       setLoading(true)
       await Promise.all([fetchTables(), fetchProducts(), fetchCustomers()])
       setLoading(false)
+      dispatch(fetchCurrentSession())
     }
     init()
   }, [fetchTables, fetchProducts, fetchCustomers])
@@ -210,6 +251,15 @@ const TablesPage = () => {
     }
   }
 
+  // Mesa elegida desde la paleta de comandos (Ctrl+K)
+  useEffect(() => {
+    const tableId = (location.state as { tableId?: number } | null)?.tableId
+    if (!tableId || tables.length === 0) return
+    const table = tables.find(t => t.id === tableId)
+    navigate(location.pathname, { replace: true, state: null })
+    if (table) handleSelectTable(table)
+  }, [location.state, tables])
+
   const filteredCustomers = customers.filter(c =>
     c.fullName?.toLowerCase().includes(customerSearch.toLowerCase()) ||
     c.documentNumber?.includes(customerSearch) ||
@@ -220,7 +270,7 @@ const TablesPage = () => {
 
   const handleCreateCustomer = async () => {
     if (!newCustomerData.fullName.trim()) {
-      toast.error('El nombre es requerido')
+      toast.error(t('common.nameIsRequired'))
       return
     }
     setSavingCustomer(true)
@@ -231,9 +281,9 @@ const TablesPage = () => {
       setSelectedCustomerId(newCustomer.id)
       setShowNewCustomerModal(false)
       setNewCustomerData({ fullName: '', documentType: 'CC', documentNumber: '', phone: '' })
-      toast.success('Cliente creado y seleccionado')
+      toast.success(t('sale.customerCreated'))
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al crear cliente')
+      toast.error(error.response?.data?.message || t('sale.customerCreateError'))
     } finally {
       setSavingCustomer(false)
     }
@@ -246,7 +296,7 @@ const TablesPage = () => {
       const request: OpenTableRequest = { guestCount, notes: tableNotes || undefined, customerId: selectedCustomerId || undefined }
       const res = await tableService.openTable(selectedTable.id, request)
       setActiveSession(res as TableSession)
-      toast.success(`Mesa #${selectedTable.tableNumber} abierta`)
+      toast.success(t('tables.opened', { number: selectedTable.tableNumber }))
       setShowOpenModal(false)
       setGuestCount(1)
       setTableNotes('')
@@ -256,7 +306,7 @@ const TablesPage = () => {
       const updated = await tableService.getById(selectedTable.id)
       setSelectedTable(updated as RestaurantTable)
     } catch (err: any) {
-      toast.error(err?.response?.data?.message || 'Error al abrir mesa')
+      toast.error(err?.response?.data?.message || t('tables.openError'))
     } finally {
       setProcessing(false)
     }
@@ -270,15 +320,16 @@ const TablesPage = () => {
         items: itemsToAdd.map(i => ({
           productId: i.product.id,
           quantity: i.quantity,
-          unitPrice: i.product.salePrice,
+          unitPrice: i.unitPrice,
           notes: i.notes || undefined,
+          modifiers: i.modifiers,
         })),
         priority: priorityKitchenBatch,
         priorityReason: priorityKitchenBatch ? (priorityReason.trim() || undefined) : undefined,
       }
       const res = await tableService.addItems(selectedTable.id, request)
       setActiveSession(res as TableSession)
-      toast.success(`${itemsToAdd.length} producto(s) agregado(s)`)
+      toast.success(t('tables.itemsAdded', { count: itemsToAdd.length }))
       setShowAddItemsModal(false)
       setItemsToAdd([])
       setPriorityKitchenBatch(false)
@@ -286,21 +337,29 @@ const TablesPage = () => {
       setSearchTerm('')
       await fetchTables()
     } catch (err: any) {
-      toast.error(err?.response?.data?.message || 'Error al agregar productos')
+      toast.error(err?.response?.data?.message || t('tables.addItemsError'))
     } finally {
       setProcessing(false)
     }
   }
 
-  const handleRemoveItem = async (detailId: number) => {
+  // Todo lo que está en la cuenta de una mesa ya salió a cocina: quitarlo es una anulación
+  const handleRemoveItem = async (detail: InvoiceDetail) => {
     if (!selectedTable) return
+    const approval = await supervisorAuth.authorize({
+      action: 'ELIMINAR_ITEM_COCINA',
+      permission: 'pos.void',
+      description: t('tables.removeItemDescription', { quantity: detail.quantity, product: detail.productName, number: selectedTable.tableNumber }),
+      reference: t('tables.reference', { number: selectedTable.tableNumber }),
+    })
+    if (!approval) return
     try {
-      const res = await tableService.removeItem(selectedTable.id, detailId)
+      const res = await tableService.removeItem(selectedTable.id, detail.id, approval.authorizationId)
       setActiveSession(res as TableSession)
-      toast.success('Producto eliminado')
+      toast.success(t('tables.itemRemoved'))
       await fetchTables()
     } catch (err: any) {
-      toast.error(err?.response?.data?.message || 'Error al eliminar producto')
+      toast.error(err?.response?.data?.message || t('tables.removeItemError'))
     }
   }
 
@@ -314,7 +373,7 @@ const TablesPage = () => {
         capacity: parseInt(editTableData.capacity) || 4,
         zone: editTableData.zone,
       })
-      toast.success('Mesa actualizada')
+      toast.success(t('tables.updated'))
       setShowEditTableModal(false)
       await fetchTables()
       if (selectedTable?.id === editTableData.id) {
@@ -322,7 +381,7 @@ const TablesPage = () => {
         setSelectedTable(updated as RestaurantTable)
       }
     } catch (err: any) {
-      toast.error(err?.response?.data?.message || 'Error al actualizar mesa')
+      toast.error(err?.response?.data?.message || t('tables.updateError'))
     } finally {
       setProcessing(false)
     }
@@ -330,20 +389,20 @@ const TablesPage = () => {
 
   const handleDeleteTable = async (table: RestaurantTable) => {
     if (table.status === 'OCUPADA') {
-      toast.error('No se puede eliminar una mesa ocupada')
+      toast.error(t('tables.cannotDeleteOccupied'))
       return
     }
-    if (!confirm(`¿Eliminar Mesa #${table.tableNumber}?`)) return
+    if (!confirm(t('tables.confirmDelete', { number: table.tableNumber }))) return
     try {
       await tableService.delete(table.id)
-      toast.success('Mesa eliminada')
+      toast.success(t('tables.deleted'))
       if (selectedTable?.id === table.id) {
         setSelectedTable(null)
         setActiveSession(null)
       }
       await fetchTables()
     } catch (err: any) {
-      toast.error(err?.response?.data?.message || 'Error al eliminar mesa')
+      toast.error(err?.response?.data?.message || t('tables.deleteError'))
     }
   }
 
@@ -358,30 +417,105 @@ const TablesPage = () => {
     setShowEditTableModal(true)
   }
 
+  const getPayFinalTotal = () => {
+    const baseTotal = activeSession?.total || 0
+    const discountAmount = (baseTotal * totalDiscountPercent) / 100
+    const svcAmount = includeServiceCharge ? (baseTotal * serviceChargePercent) / 100 : 0
+    const deliveryAmount = includeDelivery ? deliveryCharge : 0
+    return baseTotal - discountAmount + svcAmount + deliveryAmount
+  }
+
+  // Con un solo pago, su monto sigue al total más la propina; con pagos divididos el cajero los ajusta
+  const syncSingleTender = (billTotal: number, nextTip = tip) => {
+    if (tenders.length !== 1) return
+    const line = { ...tenders[0], amount: billTotal }
+    setTenders([setTenderAmount(line, Math.round(billTotal + calculateTip(nextTip, billTotal, [line])))])
+  }
+
+  const openReopenModal = () => {
+    setReopenReason('')
+    setShowReopenModal(true)
+  }
+
+  const handleReopenTable = async () => {
+    if (!selectedTable || !reopenReason.trim()) return
+    const approval = await supervisorAuth.authorize({
+      action: 'REABRIR_MESA',
+      permission: 'pos.void',
+      description: t('tables.reopenDescription', { number: selectedTable.tableNumber, reason: reopenReason.trim() }),
+      reference: t('tables.reference', { number: selectedTable.tableNumber }),
+    })
+    if (!approval) return
+    setProcessing(true)
+    try {
+      const session = await tableService.reopenTable(selectedTable.id, {
+        reason: reopenReason.trim(),
+        authorizationId: approval.authorizationId,
+      }) as TableSession
+      toast.success(t('tables.reopened', { number: selectedTable.tableNumber }))
+      setShowReopenModal(false)
+      await fetchTables()
+      setSelectedTable({ ...selectedTable, status: 'OCUPADA' })
+      setActiveSession(session)
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || t('tables.reopenError'))
+    } finally {
+      setProcessing(false)
+    }
+  }
+
   const handlePayTable = async () => {
     if (!selectedTable || !activeSession) return
+    const finalTotal = getPayFinalTotal()
+    const tipAmount = calculateTip(tip, finalTotal, tenders)
+    const tenderSummary = summarizeTenders(tenders, finalTotal + tipAmount)
+    if (!tenderSummary.isComplete) {
+      toast.error(t('sale.paymentIncomplete'))
+      return
+    }
+    let discountAuthorizationId: number | undefined
+    if (totalDiscountPercent > maxDiscountPercent) {
+      const approval = await supervisorAuth.authorize({
+        action: 'DESCUENTO',
+        permission: 'pos.discount',
+        description: t('tables.discountDescription', { percent: totalDiscountPercent, number: selectedTable.tableNumber }),
+        reference: t('tables.reference', { number: selectedTable.tableNumber }),
+      })
+      if (!approval) return
+      discountAuthorizationId = approval.authorizationId
+    }
+    const payments = buildPaymentLines(tenders, finalTotal + tipAmount)
     setProcessing(true)
     try {
       const deliveryAmount = includeDelivery ? deliveryCharge : 0
       const request: PayTableRequest = {
-        paymentMethod,
-        amountReceived: parseFloat(amountReceived),
+        paymentMethod: resolvePaymentMethod(payments),
+        payments,
+        amountReceived: tenderSummary.paid,
         discountPercent: totalDiscountPercent,
-        serviceChargePercent: includeServiceCharge ? 10 : 0,
+        serviceChargePercent: includeServiceCharge ? serviceChargePercent : 0,
         deliveryChargeAmount: deliveryAmount,
+        cashSessionId: cashSession?.id,
+        discountAuthorizationId,
+        tipAmount: tipAmount || undefined,
+        tipDistribution: tipAmount > 0 ? splitTip(tipAmount, tip.staff) : undefined,
       }
       const result = await tableService.payTable(selectedTable.id, request) as any
       // Fetch full invoice for printing
       try {
         const invoiceDetail = await invoiceService.getById(result.id)
-        setCompletedInvoice(invoiceDetail)
+        setCompletedInvoice({
+          ...(invoiceDetail as any),
+          tableName: selectedTable.name || t('tables.reference', { number: selectedTable.tableNumber }),
+          waiterName: activeSession.openedByName,
+        })
         setShowInvoiceModal(true)
       } catch {
         setCompletedInvoice(null)
       }
-      toast.success(`Mesa #${selectedTable.tableNumber} pagada exitosamente`)
+      toast.success(t('tables.paid', { number: selectedTable.tableNumber }))
       setShowPayModal(false)
-      setAmountReceived('')
+      setTenders([])
       setIncludeDelivery(false)
       setDeliveryCharge(3000)
       setTotalDiscountPercent(0)
@@ -390,94 +524,35 @@ const TablesPage = () => {
       setActiveSession(null)
       await fetchTables()
     } catch (err: any) {
-      toast.error(err?.response?.data?.message || 'Error al pagar mesa')
+      toast.error(err?.response?.data?.message || t('tables.payError'))
     } finally {
       setProcessing(false)
     }
   }
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr)
-    return date.toLocaleDateString('es-CO', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
-  }
-
-  const getPaymentMethodLabel = (method: string) => {
-    switch (method) {
-      case 'EFECTIVO': return 'Efectivo'
-      case 'TRANSFERENCIA': return 'Transferencia'
-      case 'TARJETA_CREDITO': return 'Tarjeta Crédito'
-      case 'TARJETA_DEBITO': return 'Tarjeta Débito'
-      default: return method
-    }
-  }
-
   const handlePrintInvoice = () => {
     if (!completedInvoice) return
-    const settings = JSON.parse(localStorage.getItem('pos_settings') || '{}')
-    const companyName = settings?.company?.companyName || 'Mi Empresa'
-    const inv = completedInvoice
-    const printWindow = window.open('', '_blank')
-    if (printWindow) {
-      printWindow.document.write(`
-        <html>
-          <head>
-            <title>Factura ${inv.invoiceNumber}</title>
-            <style>
-              body { font-family: 'Courier New', monospace; padding: 10px; max-width: 300px; margin: 0 auto; font-size: 12px; }
-              .header { text-align: center; margin-bottom: 10px; border-bottom: 1px dashed #000; padding-bottom: 8px; }
-              .header h1 { margin: 0 0 2px; font-size: 16px; text-transform: uppercase; }
-              .header .invoice-num { font-size: 13px; font-weight: bold; }
-              .header p { margin: 2px 0; font-size: 11px; }
-              .info { margin-bottom: 8px; }
-              .info div { margin: 2px 0; }
-              .items { border-top: 1px dashed #000; border-bottom: 1px dashed #000; padding: 6px 0; margin: 6px 0; }
-              .item { display: flex; justify-content: space-between; margin: 3px 0; }
-              .totals div { display: flex; justify-content: space-between; margin: 2px 0; }
-              .total-final { font-size: 15px; font-weight: bold; border-top: 2px solid #000; padding-top: 6px; margin-top: 6px; }
-              .payment-info { border-top: 1px dashed #000; margin-top: 8px; padding-top: 6px; }
-              .footer { text-align: center; margin-top: 15px; font-size: 10px; color: #666; border-top: 1px dashed #000; padding-top: 8px; }
-            </style>
-          </head>
-          <body>
-            <div class="header">
-              <h1>${companyName}</h1>
-              <div class="invoice-num">N° ${inv.invoiceNumber}</div>
-              <p>${formatDate(inv.createdAt)}</p>
-            </div>
-            <div class="info">
-              <div>Cliente: ${inv.customer?.fullName || inv.customerName || 'Cliente General'}</div>
-              <div>Cajero: ${inv.userName || '-'}</div>
-            </div>
-            <div class="items">
-              ${(inv.details || []).map((d: any) => `<div class="item"><span>${d.quantity} x ${d.productName}</span><span>${formatCurrency(d.subtotal)}</span></div>`).join('')}
-            </div>
-            <div class="totals">
-              <div><span>Subtotal:</span><span>${formatCurrency(inv.subtotal)}</span></div>
-              ${inv.discountAmount > 0 ? `<div><span>Descuento:</span><span>-${formatCurrency(inv.discountAmount)}</span></div>` : ''}
-              ${inv.serviceChargeAmount > 0 ? `<div><span>Servicio (${inv.serviceChargePercent}%):</span><span>${formatCurrency(inv.serviceChargeAmount)}</span></div>` : ''}
-              <div class="total-final"><span>TOTAL:</span><span>${formatCurrency(inv.total)}</span></div>
-            </div>
-            <div class="payment-info">
-              <div><span>Método:</span><span>${getPaymentMethodLabel(inv.paymentMethod)}</span></div>
-              ${inv.amountReceived > 0 ? `<div><span>Recibido:</span><span>${formatCurrency(inv.amountReceived)}</span></div>` : ''}
-              ${inv.changeAmount > 0 ? `<div style="font-weight:bold;"><span>Cambio:</span><span>${formatCurrency(inv.changeAmount)}</span></div>` : ''}
-            </div>
-            <div class="footer">
-              <p>¡Gracias por su compra!</p>
-            </div>
-          </body>
-        </html>
-      `)
-      printWindow.document.close()
-      printWindow.print()
-    }
+    printInvoice(completedInvoice, {
+      openDrawer: getInvoicePayments(completedInvoice).some((p) => p.paymentMethod === 'EFECTIVO'),
+    }).catch(() => toast.error(t('receipt.printFailed')))
+  }
+
+  const handlePrintPreBill = () => {
+    if (!selectedTable || !activeSession?.invoice) return
+    printInvoice({
+      ...activeSession.invoice,
+      invoiceNumber: t('tables.preBillNumber'),
+      createdAt: new Date().toISOString(),
+      tableName: selectedTable.name || t('tables.reference', { number: selectedTable.tableNumber }),
+      waiterName: activeSession.openedByName,
+    } as any, { isPreBill: true }).catch(() => toast.error(t('receipt.printFailed')))
   }
 
   const handleCreateTable = async () => {
     if (!newTableNumber) return
     const zone = newTableZone === '__custom__' ? customZone.trim() : newTableZone
     if (!zone) {
-      toast.error('Debes especificar una zona')
+      toast.error(t('tables.zoneRequired'))
       return
     }
     setProcessing(true)
@@ -488,7 +563,7 @@ const TablesPage = () => {
         capacity: parseInt(newTableCapacity) || 4,
         zone,
       })
-      toast.success('Mesa creada exitosamente')
+      toast.success(t('tables.created'))
       setShowCreateTableModal(false)
       setNewTableNumber('')
       setNewTableName('')
@@ -497,7 +572,7 @@ const TablesPage = () => {
       setCustomZone('')
       await fetchTables()
     } catch (err: any) {
-      toast.error(err?.response?.data?.message || 'Error al crear mesa')
+      toast.error(err?.response?.data?.message || t('tables.createError'))
     } finally {
       setProcessing(false)
     }
@@ -542,20 +617,31 @@ const TablesPage = () => {
     return true
   }).sort((a, b) => a.name.localeCompare(b.name))
 
-  const addProductToList = (product: Product) => {
+  const addProductToList = (product: Product, modifiers?: SelectedModifier[]) => {
+    if (!modifiers && hasModifierGroups(product)) {
+      setModifierProduct(product)
+      return
+    }
+    const key = getModifiersKey(modifiers)
     setItemsToAdd(prev => {
-      const existing = prev.find(i => i.product.id === product.id)
+      const existing = prev.find(i => i.product.id === product.id && getModifiersKey(i.modifiers) === key)
       if (existing) {
-        return prev.map(i => i.product.id === product.id ? { ...i, quantity: i.quantity + 1 } : i)
+        return prev.map(i => i.lineId === existing.lineId ? { ...i, quantity: i.quantity + 1 } : i)
       }
-      return [...prev, { product, quantity: 1 }]
+      return [...prev, {
+        lineId: `${product.id}-${Date.now()}`,
+        product,
+        quantity: 1,
+        unitPrice: product.salePrice + getModifiersTotal(modifiers),
+        modifiers: modifiers && modifiers.length > 0 ? modifiers : undefined,
+      }]
     })
   }
 
-  const updateItemQuantity = (productId: number, delta: number) => {
+  const updateItemQuantity = (lineId: string, delta: number) => {
     setItemsToAdd(prev => {
       return prev.map(i => {
-        if (i.product.id === productId) {
+        if (i.lineId === lineId) {
           const newQty = i.quantity + delta
           return newQty > 0 ? { ...i, quantity: newQty } : i
         }
@@ -564,8 +650,8 @@ const TablesPage = () => {
     })
   }
 
-  const removeItemFromList = (productId: number) => {
-    setItemsToAdd(prev => prev.filter(i => i.product.id !== productId))
+  const removeItemFromList = (lineId: string) => {
+    setItemsToAdd(prev => prev.filter(i => i.lineId !== lineId))
   }
 
   const isAdmin = (user as any)?.role === 'ADMIN'
@@ -587,9 +673,9 @@ const TablesPage = () => {
         {/* Header */}
         <div className="flex items-center justify-between mb-3 sm:mb-4 flex-shrink-0">
           <div>
-            <h1 className="text-xl sm:text-2xl font-bold text-gray-800">Mesas</h1>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-800">{t('nav.tables')}</h1>
             <p className="text-sm text-gray-500">
-              {tables.filter(t => t.status === 'OCUPADA').length} ocupadas de {tables.length} mesas
+              {t('tables.occupiedCount', { occupied: tables.filter(table => table.status === 'OCUPADA').length, total: tables.length })}
             </p>
           </div>
           {isAdmin && (
@@ -598,7 +684,7 @@ const TablesPage = () => {
               className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors"
             >
               <Plus size={18} />
-              Nueva Mesa
+              {t('tables.newTable')}
             </button>
           )}
         </div>
@@ -611,7 +697,7 @@ const TablesPage = () => {
               !zoneFilter ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-primary-50'
             }`}
           >
-            Todas
+            {t('tables.allZones')}
           </button>
           {availableZones.map(zone => (
             <button
@@ -644,7 +730,7 @@ const TablesPage = () => {
         <div className="lg:flex-1 lg:overflow-y-auto">
           <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3">
             {filteredTables.map(table => {
-              const colors = statusColors[table.status] || statusColors.DISPONIBLE || DEFAULT_STATUS_COLORS.DISPONIBLE
+              const colors = statusColors[table.status] || statusColors.DISPONIBLE || getDefaultStatusColors().DISPONIBLE
               const isSelected = selectedTable?.id === table.id
               const elapsed = table.activeSession ? getElapsedMinutes(table.activeSession.openedAt) : 0
 
@@ -720,7 +806,7 @@ const TablesPage = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <h2 className="text-xl font-bold text-gray-800">
-                    Mesa #{selectedTable.tableNumber}
+                    {t('tables.tableNumber', { number: selectedTable.tableNumber })}
                   </h2>
                   <p className="text-sm text-gray-500">{selectedTable.name} - {selectedTable.zone}</p>
                 </div>
@@ -730,14 +816,14 @@ const TablesPage = () => {
                       <button
                         onClick={() => openEditTableModal(selectedTable)}
                         className="p-1.5 rounded-lg hover:bg-white/50 text-gray-500"
-                        title="Editar mesa"
+                        title={t('tables.editTable')}
                       >
                         <Edit2 size={16} />
                       </button>
                       <button
                         onClick={() => handleDeleteTable(selectedTable)}
                         className="p-1.5 rounded-lg hover:bg-red-100 text-red-400"
-                        title="Eliminar mesa"
+                        title={t('tables.deleteTable')}
                       >
                         <Trash2 size={16} />
                       </button>
@@ -760,16 +846,24 @@ const TablesPage = () => {
                   <div className="w-20 h-20 bg-green-50 rounded-full flex items-center justify-center mb-4">
                     <Coffee size={32} className="text-green-500" />
                   </div>
-                  <h3 className="text-lg font-semibold text-gray-700 mb-2">Mesa Disponible</h3>
+                  <h3 className="text-lg font-semibold text-gray-700 mb-2">{t('tables.availableTitle')}</h3>
                   <p className="text-sm text-gray-500 mb-6">
-                    Capacidad: {selectedTable.capacity} personas
+                    {t('tables.capacityPeople', { count: selectedTable.capacity })}
                   </p>
                   <button
                     onClick={() => setShowOpenModal(true)}
                     className="flex items-center gap-2 px-6 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors font-medium"
                   >
                     <UtensilsCrossed size={18} />
-                    Abrir Mesa
+                    {t('tables.openTable')}
+                  </button>
+                  <button
+                    onClick={openReopenModal}
+                    disabled={processing}
+                    className="flex items-center gap-1.5 mt-3 text-sm text-gray-500 hover:text-primary-600 disabled:opacity-50"
+                  >
+                    <RotateCcw size={14} />
+                    {t('tables.reopenLast')}
                   </button>
                 </div>
               )}
@@ -779,19 +873,19 @@ const TablesPage = () => {
                   {/* Session info */}
                   <div className="bg-gray-50 rounded-xl p-3 space-y-1">
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Mesero:</span>
+                      <span className="text-gray-500">{t('tables.waiter')}</span>
                       <span className="font-medium">{activeSession.openedByName}</span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Abierta:</span>
+                      <span className="text-gray-500">{t('tables.openedAt')}</span>
                       <span className="font-medium">{formatTime(activeSession.openedAt)}</span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Comensales:</span>
+                      <span className="text-gray-500">{t('tables.guestsColon')}</span>
                       <span className="font-medium">{activeSession.guestCount}</span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Factura:</span>
+                      <span className="text-gray-500">{t('tables.invoice')}</span>
                       <span className="font-medium text-primary-600">{activeSession.invoiceNumber}</span>
                     </div>
                   </div>
@@ -799,7 +893,7 @@ const TablesPage = () => {
                   {/* Order items */}
                   <div>
                     <div className="flex items-center justify-between mb-2">
-                      <h4 className="font-semibold text-gray-700">Pedido</h4>
+                      <h4 className="font-semibold text-gray-700">{t('tables.order')}</h4>
                       <button
                         onClick={() => {
                           setShowAddItemsModal(true)
@@ -810,7 +904,7 @@ const TablesPage = () => {
                         className="flex items-center gap-1 px-3 py-1.5 bg-primary-50 text-primary-600 rounded-lg hover:bg-primary-100 transition-colors text-sm font-medium"
                       >
                         <Plus size={14} />
-                        Agregar
+                        {t('common.add')}
                       </button>
                     </div>
 
@@ -826,6 +920,9 @@ const TablesPage = () => {
                               <p className="text-xs text-gray-500">
                                 {detail.quantity} x {formatCurrency(detail.unitPrice)}
                               </p>
+                              {detail.modifiers && detail.modifiers.length > 0 && (
+                                <p className="text-xs text-primary-500 mt-0.5">{formatModifiers(detail.modifiers)}</p>
+                              )}
                               {detail.notes && (
                                 <p className="text-xs font-medium text-red-600 mt-0.5">⚠️ {detail.notes}</p>
                               )}
@@ -835,7 +932,8 @@ const TablesPage = () => {
                                 {formatCurrency(detail.subtotal)}
                               </span>
                               <button
-                                onClick={() => handleRemoveItem(detail.id)}
+                                onClick={() => handleRemoveItem(detail)}
+                                title={t('tables.removeItemTitle')}
                                 className="p-1 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-500 transition-colors"
                               >
                                 <Trash2 size={14} />
@@ -847,14 +945,14 @@ const TablesPage = () => {
                     ) : (
                       <div className="text-center py-6 text-gray-400">
                         <AlertCircle size={24} className="mx-auto mb-2 opacity-50" />
-                        <p className="text-sm">Sin productos aún</p>
+                        <p className="text-sm">{t('tables.noItems')}</p>
                         <button
                           onClick={async () => {
-                            if (!confirm('¿Liberar esta mesa? La sesión se cerrará sin cobrar.')) return
+                            if (!confirm(t('tables.confirmRelease'))) return
                             try {
                               setProcessing(true)
                               await tableService.releaseTable(selectedTable.id)
-                              toast.success('Mesa liberada exitosamente')
+                              toast.success(t('tables.released'))
                               await fetchTables()
                               setSelectedTable(null)
                             } catch (err: any) {
@@ -866,7 +964,7 @@ const TablesPage = () => {
                           }}
                           className="mt-3 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors text-sm"
                         >
-                          Liberar Mesa
+                          {t('tables.release')}
                         </button>
                       </div>
                     )}
@@ -876,11 +974,11 @@ const TablesPage = () => {
                   {activeSession.invoice && (
                     <div className="bg-primary-50 rounded-xl p-3 space-y-1.5">
                       <div className="flex justify-between text-sm">
-                        <span className="text-gray-600">Subtotal</span>
+                        <span className="text-gray-600">{t('common.subtotal')}</span>
                         <span>{formatCurrency(activeSession.invoice.subtotal || 0)}</span>
                       </div>
                       <div className="flex justify-between text-lg font-bold text-primary-700 pt-1 border-t border-primary-100">
-                        <span>Total</span>
+                        <span>{t('common.total')}</span>
                         <span>{formatCurrency(activeSession.invoice.total || 0)}</span>
                       </div>
                     </div>
@@ -905,7 +1003,7 @@ const TablesPage = () => {
                       onClick={() => tableService.changeStatus(selectedTable.id, 'DISPONIBLE').then(() => { fetchTables(); setSelectedTable(null) })}
                       className="mt-4 px-4 py-2 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors text-sm"
                     >
-                      Marcar como Disponible
+                      {t('tables.markAvailable')}
                     </button>
                   )}
                 </div>
@@ -918,13 +1016,23 @@ const TablesPage = () => {
                 <button
                   onClick={() => {
                     setShowPayModal(true)
-                    setAmountReceived(String(activeSession.total || 0))
+                    setTenders([createTenderLine('EFECTIVO', Math.round(activeSession.total || 0))])
+                    if (foreignCurrencies.length > 0) fetchExchangeRates()
+                    setTip(createTipInput([{ userId: activeSession.openedById, userName: activeSession.openedByName }]))
                   }}
                   disabled={!activeSession.invoice?.details?.length}
                   className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <CreditCard size={18} />
-                  Cobrar Mesa
+                  {t('tables.charge')}
+                </button>
+                <button
+                  onClick={handlePrintPreBill}
+                  disabled={!activeSession.invoice?.details?.length}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-100 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Printer size={16} />
+                  {t('tables.printPreBill')}
                 </button>
               </div>
             )}
@@ -932,8 +1040,8 @@ const TablesPage = () => {
         ) : (
           <div className="flex flex-col items-center justify-center h-full text-gray-400">
             <UtensilsCrossed size={48} className="mb-4 opacity-30" />
-            <p className="text-lg font-medium">Selecciona una mesa</p>
-            <p className="text-sm">Haz clic en una mesa para ver su detalle</p>
+            <p className="text-lg font-medium">{t('tables.selectTable')}</p>
+            <p className="text-sm">{t('tables.selectTableHint')}</p>
           </div>
         )}
       </div>
@@ -945,11 +1053,11 @@ const TablesPage = () => {
         <div className="modal-overlay">
           <div className="modal-content p-5 sm:p-6 sm:max-w-md animate-scale-in">
             <h3 className="text-xl font-bold text-gray-800 mb-4">
-              Abrir Mesa #{selectedTable?.tableNumber}
+              {t('tables.openTitle', { number: selectedTable?.tableNumber || '' })}
             </h3>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Comensales</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.guests')}</label>
                 <div className="flex items-center gap-3">
                   <button
                     type="button"
@@ -976,7 +1084,7 @@ const TablesPage = () => {
                 </div>
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Cliente (opcional)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('sale.customerOptional')}</label>
                 <div className="relative">
                   <button
                     onClick={() => setShowCustomerPicker(!showCustomerPicker)}
@@ -984,15 +1092,18 @@ const TablesPage = () => {
                   >
                     <User size={16} className="text-gray-400" />
                     <span className={selectedCustomer ? 'text-gray-800 font-medium' : 'text-gray-400'}>
-                      {selectedCustomer ? selectedCustomer.fullName : 'Cliente General'}
+                      {selectedCustomer ? selectedCustomer.fullName : t('common.generalCustomer')}
                     </span>
+                    {loyaltyEnabled && selectedCustomer && (
+                      <span className="ml-auto text-xs text-yellow-700">{t('sale.points', { points: selectedCustomer.loyaltyPoints || 0 })}</span>
+                    )}
                   </button>
                   {showCustomerPicker && (
                     <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-xl shadow-lg z-30 max-h-72 flex flex-col overflow-hidden">
                       <div className="p-2.5 border-b flex-shrink-0">
                         <input
                           type="text"
-                          placeholder="Buscar cliente por nombre o documento..."
+                          placeholder={t('sale.searchCustomer')}
                           value={customerSearch}
                           onChange={(e) => setCustomerSearch(e.target.value)}
                           className="input-field text-sm"
@@ -1004,7 +1115,7 @@ const TablesPage = () => {
                           onClick={() => { setSelectedCustomerId(null); setShowCustomerPicker(false); setCustomerSearch('') }}
                           className={`w-full text-left px-3 py-2.5 text-sm hover:bg-primary-50 ${!selectedCustomerId ? 'bg-primary-50 font-medium' : ''}`}
                         >
-                          Cliente General
+                          {t('common.generalCustomer')}
                         </button>
                         {filteredCustomers.map(c => (
                           <button
@@ -1013,7 +1124,10 @@ const TablesPage = () => {
                             className={`w-full text-left px-3 py-2.5 text-sm hover:bg-primary-50 flex items-center justify-between ${selectedCustomerId === c.id ? 'bg-primary-50 font-medium' : ''}`}
                           >
                             <span>{c.fullName}</span>
-                            <span className="text-xs text-gray-400">{c.documentNumber}</span>
+                            <span className="text-xs text-gray-400">
+                              {c.documentNumber}
+                              {loyaltyEnabled && <span className="ml-2 text-yellow-700">{t('sale.points', { points: c.loyaltyPoints || 0 })}</span>}
+                            </span>
                           </button>
                         ))}
                       </div>
@@ -1022,20 +1136,20 @@ const TablesPage = () => {
                         className="w-full text-left px-3 py-2.5 text-sm text-primary-600 hover:bg-primary-50 border-t font-medium flex items-center gap-1 flex-shrink-0"
                       >
                         <UserPlus size={14} />
-                        Crear Nuevo Cliente
+                        {t('sale.createCustomer')}
                       </button>
                     </div>
                   )}
                 </div>
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Notas (opcional)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.notesOptional')}</label>
                 <input
                   type="text"
                   value={tableNotes}
                   onChange={(e) => setTableNotes(e.target.value)}
                   className="input-field"
-                  placeholder="Ej: cumpleaños, alergia..."
+                  placeholder={t('tables.notesPlaceholder')}
                 />
               </div>
             </div>
@@ -1044,7 +1158,7 @@ const TablesPage = () => {
                 onClick={() => setShowOpenModal(false)}
                 className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
               >
-                Cancelar
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleOpenTable}
@@ -1052,7 +1166,7 @@ const TablesPage = () => {
                 className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : <UtensilsCrossed size={18} />}
-                {processing ? 'Abriendo...' : 'Abrir Mesa'}
+                {processing ? t('tables.opening') : t('tables.openTable')}
               </button>
             </div>
           </div>
@@ -1065,7 +1179,7 @@ const TablesPage = () => {
           <div className="fixed inset-4 sm:inset-8 lg:inset-12 bg-white rounded-2xl shadow-2xl flex flex-col animate-scale-in z-50 max-w-6xl mx-auto">
             <div className="p-3 sm:p-4 border-b flex items-center justify-between flex-shrink-0">
               <h3 className="text-lg font-bold text-gray-800">
-                Agregar Productos - Mesa #{selectedTable?.tableNumber}
+                {t('tables.addItemsTitle', { number: selectedTable?.tableNumber || '' })}
               </h3>
               <button
                 onClick={() => {
@@ -1090,7 +1204,7 @@ const TablesPage = () => {
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
                     <input
                       type="text"
-                      placeholder="Buscar producto..."
+                      placeholder={t('sale.searchProduct')}
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
                       className="input-field pl-10"
@@ -1105,7 +1219,7 @@ const TablesPage = () => {
                           !selectedCategory ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
                         }`}
                       >
-                        Todos
+                        {t('common.all')}
                       </button>
                       {categories.map(cat => (
                         <button
@@ -1172,7 +1286,7 @@ const TablesPage = () => {
                   <div className="flex items-center justify-between mb-2">
                     <h4 className="font-semibold text-gray-700 flex items-center gap-2">
                       <ShoppingCart size={18} />
-                      Por agregar ({itemsToAdd.length})
+                      {t('tables.toAdd', { count: itemsToAdd.length })}
                     </h4>
                     <button
                       onClick={() => setShowMobileCart(false)}
@@ -1195,7 +1309,7 @@ const TablesPage = () => {
                         className="w-4 h-4 rounded border-amber-300 text-amber-600 focus:ring-amber-500"
                       />
                       <span className="text-sm font-semibold text-amber-800 flex items-center gap-1">
-                        <AlertCircle size={14} /> Marcar como prioritario en cocina
+                        <AlertCircle size={14} /> {t('tables.priority')}
                       </span>
                     </label>
                     {priorityKitchenBatch && (
@@ -1203,7 +1317,7 @@ const TablesPage = () => {
                         type="text"
                         value={priorityReason}
                         onChange={(e) => setPriorityReason(e.target.value)}
-                        placeholder="Motivo (opcional): ejemplo cliente apurado"
+                        placeholder={t('tables.priorityReason')}
                         className="mt-2 w-full text-xs px-2.5 py-2 border border-amber-200 rounded-lg focus:border-amber-400 focus:ring-1 focus:ring-amber-200"
                       />
                     )}
@@ -1211,28 +1325,31 @@ const TablesPage = () => {
                 </div>
                 <div className="flex-1 overflow-y-auto p-3 space-y-2">
                   {itemsToAdd.map(item => (
-                    <div key={item.product.id} className="p-3 bg-gray-50 rounded-xl space-y-2">
+                    <div key={item.lineId} className="p-3 bg-gray-50 rounded-xl space-y-2">
                       <div className="flex items-start gap-2">
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium truncate">{item.product.name}</p>
-                          <p className="text-xs text-gray-500">{formatCurrency(item.product.salePrice * item.quantity)}</p>
+                          {item.modifiers && (
+                            <p className="text-xs text-primary-500">{formatModifiers(item.modifiers)}</p>
+                          )}
+                          <p className="text-xs text-gray-500">{formatCurrency(item.unitPrice * item.quantity)}</p>
                         </div>
                         <div className="flex items-center gap-1.5">
                           <button
-                            onClick={() => updateItemQuantity(item.product.id, -1)}
+                            onClick={() => updateItemQuantity(item.lineId, -1)}
                             className="w-7 h-7 rounded-lg bg-white hover:bg-gray-100 flex items-center justify-center transition-colors"
                           >
                             <Minus size={14} />
                           </button>
                           <span className="text-sm font-bold w-8 text-center">{item.quantity}</span>
                           <button
-                            onClick={() => updateItemQuantity(item.product.id, 1)}
+                            onClick={() => updateItemQuantity(item.lineId, 1)}
                             className="w-7 h-7 rounded-lg bg-white hover:bg-gray-100 flex items-center justify-center transition-colors"
                           >
                             <Plus size={14} />
                           </button>
                           <button
-                            onClick={() => removeItemFromList(item.product.id)}
+                            onClick={() => removeItemFromList(item.lineId)}
                             className="w-7 h-7 rounded-lg hover:bg-red-100 text-gray-400 hover:text-red-500 ml-1 transition-colors flex items-center justify-center"
                           >
                             <X size={14} />
@@ -1241,9 +1358,9 @@ const TablesPage = () => {
                       </div>
                       <input
                         type="text"
-                        placeholder="Ej: sin cebolla, salsa extra..."
+                        placeholder={t('sale.itemNotesPlaceholder')}
                         value={item.notes || ''}
-                        onChange={(e) => setItemsToAdd(prev => prev.map(i => i.product.id === item.product.id ? { ...i, notes: e.target.value } : i))}
+                        onChange={(e) => setItemsToAdd(prev => prev.map(i => i.lineId === item.lineId ? { ...i, notes: e.target.value } : i))}
                         className="w-full text-xs px-2 py-1.5 border border-gray-200 rounded-lg focus:border-primary-400 focus:ring-1 focus:ring-primary-200 placeholder-gray-300"
                       />
                     </div>
@@ -1252,7 +1369,7 @@ const TablesPage = () => {
                     <div className="h-full flex items-center justify-center text-gray-400 py-12">
                       <div className="text-center">
                         <ShoppingCart size={32} className="mx-auto mb-2 opacity-30" />
-                        <p className="text-sm">Selecciona productos</p>
+                        <p className="text-sm">{t('tables.selectProducts')}</p>
                       </div>
                     </div>
                   )}
@@ -1264,7 +1381,7 @@ const TablesPage = () => {
                     className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors disabled:opacity-50 font-medium"
                   >
                     {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : <ChevronRight size={18} />}
-                    {processing ? 'Agregando...' : 'Confirmar'}
+                    {processing ? t('tables.adding') : t('common.confirm')}
                   </button>
                 </div>
               </div>
@@ -1273,42 +1390,55 @@ const TablesPage = () => {
         </div>
       )}
 
+      <ModifierSelectorModal
+        product={modifierProduct}
+        onClose={() => setModifierProduct(null)}
+        onConfirm={(modifiers) => {
+          if (modifierProduct) addProductToList(modifierProduct, modifiers)
+          setModifierProduct(null)
+        }}
+        formatCurrency={formatCurrency}
+      />
+
       {/* Pay Modal */}
       {showPayModal && activeSession && (() => {
         const baseTotal = activeSession.total || 0
         const discountAmount = (baseTotal * totalDiscountPercent) / 100
-        const svcAmount = includeServiceCharge ? baseTotal * 0.10 : 0
+        const svcAmount = includeServiceCharge ? (baseTotal * serviceChargePercent) / 100 : 0
         const deliveryAmount = includeDelivery ? deliveryCharge : 0
         const finalTotal = baseTotal - discountAmount + svcAmount + deliveryAmount
+        // La propina se cobra con los pagos pero queda fuera del total de la factura
+        const tipAmount = calculateTip(tip, finalTotal, tenders)
+        const tenderSummary = summarizeTenders(tenders, finalTotal + tipAmount)
         const recalcAmount = () => {
           const newBase = activeSession.total || 0
           const newDisc = (newBase * totalDiscountPercent) / 100
-          const newSvc = includeServiceCharge ? newBase * 0.10 : 0
+          const newSvc = includeServiceCharge ? (newBase * serviceChargePercent) / 100 : 0
           const newDel = includeDelivery ? deliveryCharge : 0
-          return (newBase - newDisc + newSvc + newDel).toFixed(0)
+          return newBase - newDisc + newSvc + newDel
         }
         return (
         <div className="modal-overlay">
           <div className="modal-content p-6 animate-scale-in">
             <h3 className="text-xl font-bold text-gray-800 mb-4">
-              Cobrar Mesa #{selectedTable?.tableNumber}
+              {t('tables.chargeTitle', { number: selectedTable?.tableNumber || '' })}
             </h3>
 
             <div className="bg-primary-50 rounded-xl p-4 mb-4 space-y-2">
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Subtotal</span>
+                <span className="text-gray-600">{t('common.subtotal')}</span>
                 <span>{formatCurrency(baseTotal)}</span>
               </div>
               {/* Descuento */}
               <div className="border-t border-primary-100 pt-2">
-                <label className="block text-xs font-medium text-gray-600 mb-1">Descuento adicional (%)</label>
+                <label className="block text-xs font-medium text-gray-600 mb-1">{t('sale.extraDiscount')}</label>
                 <input
                   type="number"
                   value={totalDiscountPercent}
                   onChange={(e) => {
                     const val = Math.max(0, Math.min(100, parseFloat(e.target.value) || 0))
                     setTotalDiscountPercent(val)
-                    setAmountReceived(recalcAmount())
+                    syncSingleTender(recalcAmount())
                   }}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500"
                   min="0"
@@ -1317,11 +1447,12 @@ const TablesPage = () => {
                 />
                 {discountAmount > 0 && (
                   <div className="flex justify-between text-sm text-green-600 mt-1">
-                    <span>Descuento ({totalDiscountPercent}%)</span>
+                    <span>{t('sale.discountPercent', { percent: totalDiscountPercent })}</span>
                     <span>-{formatCurrency(discountAmount)}</span>
                   </div>
                 )}
               </div>
+              {serviceChargePercent > 0 && (
               <div className="flex items-center justify-between py-1 border-t border-primary-100">
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
@@ -1329,18 +1460,18 @@ const TablesPage = () => {
                     checked={includeServiceCharge}
                     onChange={(e) => {
                       setIncludeServiceCharge(e.target.checked)
-                      const newSvc = e.target.checked ? baseTotal * 0.10 : 0
-                      const newTotal = baseTotal + newSvc + deliveryAmount
-                      setAmountReceived(newTotal.toFixed(0))
+                      const newSvc = e.target.checked ? (baseTotal * serviceChargePercent) / 100 : 0
+                      syncSingleTender(baseTotal - discountAmount + newSvc + deliveryAmount)
                     }}
                     className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                   />
-                  <span className="text-sm font-medium text-gray-700">Servicio (10%)</span>
+                  <span className="text-sm font-medium text-gray-700">{t('sale.serviceCharge', { percent: serviceChargePercent })}</span>
                 </label>
                 <span className={`text-sm font-medium ${includeServiceCharge ? 'text-primary-600' : 'text-gray-400'}`}>
                   {includeServiceCharge ? formatCurrency(svcAmount) : '$0'}
                 </span>
               </div>
+              )}
               <div className="border-t border-primary-100 pt-2">
                 <label className="flex items-center gap-2 cursor-pointer mb-2">
                   <input
@@ -1348,12 +1479,12 @@ const TablesPage = () => {
                     checked={includeDelivery}
                     onChange={(e) => {
                       setIncludeDelivery(e.target.checked)
-                      setAmountReceived(recalcAmount())
+                      syncSingleTender(recalcAmount())
                     }}
                     className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                   />
                   <span className="text-sm font-medium text-gray-700 flex items-center gap-1">
-                    <Truck size={14} /> Domicilio
+                    <Truck size={14} /> {t('sale.delivery')}
                   </span>
                 </label>
                 {includeDelivery && (
@@ -1362,7 +1493,7 @@ const TablesPage = () => {
                     value={deliveryCharge}
                     onChange={(e) => {
                       setDeliveryCharge(parseFloat(e.target.value) || 0)
-                      setAmountReceived(recalcAmount())
+                      syncSingleTender(recalcAmount())
                     }}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500"
                     min="0"
@@ -1371,79 +1502,59 @@ const TablesPage = () => {
                 )}
                 {includeDelivery && (
                   <div className="flex justify-between text-sm text-primary-600 mt-1">
-                    <span>Cargo Domicilio</span>
+                    <span>{t('sale.deliveryCharge')}</span>
                     <span>+{formatCurrency(deliveryCharge)}</span>
                   </div>
                 )}
               </div>
               <div className="flex justify-between text-lg font-bold text-primary-700 pt-1 border-t border-primary-100">
-                <span>Total a pagar</span>
+                <span>{t('sale.totalToPay')}</span>
                 <span>{formatCurrency(finalTotal)}</span>
               </div>
             </div>
 
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Método de pago</label>
-                <div className="grid grid-cols-2 gap-2">
-                  <button
-                    onClick={() => setPaymentMethod('EFECTIVO')}
-                    className={`flex items-center justify-center gap-2 p-3 rounded-xl border-2 transition-colors ${
-                      paymentMethod === 'EFECTIVO' ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-600'
-                    }`}
-                  >
-                    <Banknote size={18} />
-                    Efectivo
-                  </button>
-                  <button
-                    onClick={() => {
-                      setPaymentMethod('TRANSFERENCIA')
-                      setAmountReceived(String(finalTotal))
-                    }}
-                    className={`flex items-center justify-center gap-2 p-3 rounded-xl border-2 transition-colors ${
-                      paymentMethod === 'TRANSFERENCIA' ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-600'
-                    }`}
-                  >
-                    <CreditCard size={18} />
-                    Transferencia
-                  </button>
-                </div>
-              </div>
-
-              {paymentMethod === 'EFECTIVO' && (
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Monto recibido</label>
-                  <input
-                    type="number"
-                    value={amountReceived}
-                    onChange={(e) => setAmountReceived(e.target.value)}
-                    className="input-field"
-                    min={finalTotal}
-                  />
-                  {parseFloat(amountReceived) >= finalTotal && (
-                    <div className="flex justify-between text-lg font-bold text-green-600 mt-2">
-                      <span>Cambio</span>
-                      <span>{formatCurrency(parseFloat(amountReceived) - finalTotal)}</span>
-                    </div>
-                  )}
+            <div className="mb-4 space-y-2">
+              <TipEditor
+                tip={tip}
+                onChange={(next) => {
+                  setTip(next)
+                  syncSingleTender(finalTotal, next)
+                }}
+                billTotal={finalTotal}
+                tenders={tenders}
+                suggestedPercents={suggestedTipPercents}
+                formatCurrency={formatCurrency}
+              />
+              {tipAmount > 0 && (
+                <div className="flex justify-between font-semibold">
+                  <span>{t('sale.totalWithTip')}</span>
+                  <span className="text-amber-600">{formatCurrency(finalTotal + tipAmount)}</span>
                 </div>
               )}
             </div>
 
+            <TenderEditor
+              lines={tenders}
+              setLines={setTenders}
+              total={finalTotal + tipAmount}
+              formatCurrency={formatCurrency}
+              exchangeRates={getTodayRates(exchangeRates, foreignCurrencies)}
+            />
+
             <div className="flex gap-3 mt-6">
               <button
                 onClick={() => setShowPayModal(false)}
                 className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
               >
-                Cancelar
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handlePayTable}
-                disabled={processing || parseFloat(amountReceived) < finalTotal}
+                disabled={processing || !tenderSummary.isComplete}
                 className="flex-1 px-4 py-3 bg-green-600 text-white rounded-xl hover:bg-green-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : <CreditCard size={18} />}
-                {processing ? 'Procesando...' : 'Confirmar Pago'}
+                {processing ? t('common.processing') : t('sale.confirmPayment')}
               </button>
             </div>
           </div>
@@ -1451,14 +1562,57 @@ const TablesPage = () => {
         )
       })()}
 
+      {/* Reopen Table Modal */}
+      {showReopenModal && selectedTable && (
+        <div className="modal-overlay">
+          <div className="modal-content p-6 animate-scale-in">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-gray-800">{t('tables.reopenTitle')}</h3>
+              <button onClick={() => setShowReopenModal(false)} className="text-gray-400 hover:text-gray-600">
+                <X size={24} />
+              </button>
+            </div>
+            <p className="text-gray-500 mb-4">
+              {t('tables.reopenWarning', { number: selectedTable.tableNumber })}
+            </p>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.reopenReason')}</label>
+              <textarea
+                value={reopenReason}
+                onChange={(e) => setReopenReason(e.target.value)}
+                className="input-field min-h-[100px]"
+                placeholder={t('tables.reasonPlaceholder')}
+                autoFocus
+                required
+              />
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowReopenModal(false)}
+                className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleReopenTable}
+                disabled={processing || !reopenReason.trim()}
+                className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors disabled:opacity-50"
+              >
+                {processing ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : t('tables.reopen')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Create Table Modal */}
       {showCreateTableModal && (
         <div className="modal-overlay">
           <div className="modal-content p-6 animate-scale-in">
-            <h3 className="text-xl font-bold text-gray-800 mb-4">Nueva Mesa</h3>
+            <h3 className="text-xl font-bold text-gray-800 mb-4">{t('tables.newTable')}</h3>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Número de Mesa *</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.tableNumberLabel')}</label>
                 <input
                   type="number"
                   value={newTableNumber}
@@ -1470,18 +1624,18 @@ const TablesPage = () => {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre (opcional)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.nameOptional')}</label>
                 <input
                   type="text"
                   value={newTableName}
                   onChange={(e) => setNewTableName(e.target.value)}
                   className="input-field"
-                  placeholder="Ej: Mesa VIP 1"
+                  placeholder={t('tables.namePlaceholder')}
                 />
               </div>
               <div className="grid grid-cols-2 gap-3">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Capacidad</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.capacity')}</label>
                   <input
                     type="number"
                     value={newTableCapacity}
@@ -1491,7 +1645,7 @@ const TablesPage = () => {
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Zona</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.zone')}</label>
                   <select
                     value={newTableZone}
                     onChange={(e) => {
@@ -1501,7 +1655,7 @@ const TablesPage = () => {
                     className="input-field"
                   >
                     {allZones.map(z => <option key={z} value={z}>{z}</option>)}
-                    <option value="__custom__">+ Nueva zona...</option>
+                    <option value="__custom__">{t('tables.newZone')}</option>
                   </select>
                   {newTableZone === '__custom__' && (
                     <input
@@ -1509,7 +1663,7 @@ const TablesPage = () => {
                       value={customZone}
                       onChange={(e) => setCustomZone(e.target.value.toUpperCase())}
                       className="input-field mt-2"
-                      placeholder="Nombre de la nueva zona"
+                      placeholder={t('tables.newZoneName')}
                       autoFocus
                     />
                   )}
@@ -1521,14 +1675,14 @@ const TablesPage = () => {
                 onClick={() => setShowCreateTableModal(false)}
                 className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
               >
-                Cancelar
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleCreateTable}
                 disabled={processing || !newTableNumber}
                 className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors disabled:opacity-50"
               >
-                {processing ? 'Creando...' : 'Crear Mesa'}
+                {processing ? t('tables.creating') : t('tables.createTable')}
               </button>
             </div>
           </div>
@@ -1539,10 +1693,10 @@ const TablesPage = () => {
       {showEditTableModal && (
         <div className="modal-overlay">
           <div className="modal-content p-6 animate-scale-in">
-            <h3 className="text-xl font-bold text-gray-800 mb-4">Editar Mesa</h3>
+            <h3 className="text-xl font-bold text-gray-800 mb-4">{t('tables.editTitle')}</h3>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Número de Mesa *</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.tableNumberLabel')}</label>
                 <input
                   type="number"
                   value={editTableData.tableNumber}
@@ -1552,18 +1706,18 @@ const TablesPage = () => {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre (opcional)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.nameOptional')}</label>
                 <input
                   type="text"
                   value={editTableData.name}
                   onChange={(e) => setEditTableData({ ...editTableData, name: e.target.value })}
                   className="input-field"
-                  placeholder="Ej: Mesa VIP 1"
+                  placeholder={t('tables.namePlaceholder')}
                 />
               </div>
               <div className="grid grid-cols-2 gap-3">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Capacidad</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.capacity')}</label>
                   <input
                     type="number"
                     value={editTableData.capacity}
@@ -1573,7 +1727,7 @@ const TablesPage = () => {
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Zona</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('tables.zone')}</label>
                   <select
                     value={editTableData.zone}
                     onChange={(e) => setEditTableData({ ...editTableData, zone: e.target.value })}
@@ -1589,14 +1743,14 @@ const TablesPage = () => {
                 onClick={() => setShowEditTableModal(false)}
                 className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
               >
-                Cancelar
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleEditTable}
                 disabled={processing || !editTableData.tableNumber}
                 className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors disabled:opacity-50"
               >
-                {processing ? 'Guardando...' : 'Guardar Cambios'}
+                {processing ? t('common.saving') : t('settings.saveChanges')}
               </button>
             </div>
           </div>
@@ -1608,26 +1762,26 @@ const TablesPage = () => {
         <div className="modal-overlay" style={{ zIndex: 60 }}>
           <div className="modal-content p-6 animate-scale-in">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-xl font-bold text-gray-800">Nuevo Cliente</h3>
+              <h3 className="text-xl font-bold text-gray-800">{t('customers.new')}</h3>
               <button onClick={() => setShowNewCustomerModal(false)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
               </button>
             </div>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre Completo *</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.fullNameLabel')}</label>
                 <input
                   type="text"
                   value={newCustomerData.fullName}
                   onChange={(e) => setNewCustomerData({ ...newCustomerData, fullName: e.target.value })}
                   className="input-field"
-                  placeholder="Nombre del cliente"
+                  placeholder={t('sale.customerNamePlaceholder')}
                   autoFocus
                 />
               </div>
               <div className="grid grid-cols-3 gap-3">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Tipo Doc.</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('customers.documentType')}</label>
                   <select
                     value={newCustomerData.documentType}
                     onChange={(e) => setNewCustomerData({ ...newCustomerData, documentType: e.target.value })}
@@ -1640,24 +1794,24 @@ const TablesPage = () => {
                   </select>
                 </div>
                 <div className="col-span-2">
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Número</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.number')}</label>
                   <input
                     type="text"
                     value={newCustomerData.documentNumber}
                     onChange={(e) => setNewCustomerData({ ...newCustomerData, documentNumber: e.target.value })}
                     className="input-field"
-                    placeholder="Documento"
+                    placeholder={t('customers.document')}
                   />
                 </div>
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Teléfono</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.phone')}</label>
                 <input
                   type="text"
                   value={newCustomerData.phone}
                   onChange={(e) => setNewCustomerData({ ...newCustomerData, phone: e.target.value })}
                   className="input-field"
-                  placeholder="Teléfono (opcional)"
+                  placeholder={t('sale.phoneOptional')}
                 />
               </div>
             </div>
@@ -1666,7 +1820,7 @@ const TablesPage = () => {
                 onClick={() => setShowNewCustomerModal(false)}
                 className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
               >
-                Cancelar
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleCreateCustomer}
@@ -1674,7 +1828,7 @@ const TablesPage = () => {
                 className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 {savingCustomer ? <Loader2 className="w-5 h-5 animate-spin" /> : <UserPlus size={20} />}
-                {savingCustomer ? 'Guardando...' : 'Crear y Seleccionar'}
+                {savingCustomer ? t('common.saving') : t('sale.createAndSelect')}
               </button>
             </div>
           </div>
@@ -1689,26 +1843,32 @@ const TablesPage = () => {
               <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
                 <CreditCard size={32} className="text-green-600" />
               </div>
-              <h3 className="text-xl font-bold text-gray-800">Pago Completado</h3>
-              <p className="text-sm text-gray-500 mt-1">Factura N° {completedInvoice.invoiceNumber}</p>
+              <h3 className="text-xl font-bold text-gray-800">{t('sale.paymentCompleted')}</h3>
+              <p className="text-sm text-gray-500 mt-1">{t('sale.invoiceNumber', { number: completedInvoice.invoiceNumber })}</p>
             </div>
 
             <div className="bg-gray-50 rounded-xl p-4 space-y-2 mb-4">
               <div className="flex justify-between text-sm">
-                <span className="text-gray-500">Cliente</span>
-                <span className="font-medium">{completedInvoice.customer?.fullName || 'Cliente General'}</span>
+                <span className="text-gray-500">{t('common.customer')}</span>
+                <span className="font-medium">{completedInvoice.customer?.fullName || t('common.generalCustomer')}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-gray-500">Método</span>
-                <span className="font-medium">{completedInvoice.paymentMethod === 'EFECTIVO' ? 'Efectivo' : 'Transferencia'}</span>
+                <span className="text-gray-500">{t('sale.method')}</span>
+                <span className="font-medium">{getPaymentMethodLabel(completedInvoice.paymentMethod)}</span>
               </div>
+              {hasPaymentBreakdown(completedInvoice.payments) && completedInvoice.payments.map((p: PaymentLine, idx: number) => (
+                <div key={idx} className="flex justify-between text-xs text-gray-500 pl-3">
+                  <span>{getPaymentLineLabel(p)}{p.currency && ` (${describeForeignPayment(p, formatCurrency)})`}</span>
+                  <span>{formatCurrency(p.amount)}</span>
+                </div>
+              ))}
               <div className="flex justify-between text-lg font-bold text-primary-700 pt-2 border-t">
-                <span>Total</span>
+                <span>{t('common.total')}</span>
                 <span>{formatCurrency(completedInvoice.total)}</span>
               </div>
               {completedInvoice.changeAmount > 0 && (
                 <div className="flex justify-between text-sm text-green-600">
-                  <span>Cambio</span>
+                  <span>{t('sale.change')}</span>
                   <span className="font-medium">{formatCurrency(completedInvoice.changeAmount)}</span>
                 </div>
               )}
@@ -1720,18 +1880,20 @@ const TablesPage = () => {
                 className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors font-medium"
               >
                 <Printer size={18} />
-                Imprimir Factura
+                {t('sale.printInvoice')}
               </button>
               <button
                 onClick={() => { setShowInvoiceModal(false); setCompletedInvoice(null) }}
                 className="w-full px-4 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-colors"
               >
-                Cerrar sin Imprimir
+                {t('sale.closeWithoutPrinting')}
               </button>
             </div>
           </div>
         </div>
       )}
+
+      <SupervisorAuthModal {...supervisorAuth.modalProps} />
     </div>
   )
 }
@@ -5,20 +5,22 @@ import Button from '@/shared/components/ui/Button'
 import Input from '@/shared/components/ui/Input'
 import { userService, CreateUserRequest } from '@/core/api/userService'
 import { User, Role } from '@/types'
-
-const MODULE_PERMISSIONS: Record<string, { label: string; color: string; permissions: string[] }> = {
-  pos: { label: 'POS', color: 'bg-green-100 text-green-700', permissions: ['pos.sell', 'pos.discount', 'pos.void'] },
-  products: { label: 'Productos', color: 'bg-blue-100 text-blue-700', permissions: ['products.view', 'products.create', 'products.edit', 'products.delete'] },
-  categories: { label: 'Categorías', color: 'bg-indigo-100 text-indigo-700', permissions: ['categories.view', 'categories.create', 'categories.edit', 'categories.delete'] },
-  inventory: { label: 'Inventario', color: 'bg-amber-100 text-amber-700', permissions: ['inventory.view', 'inventory.adjust'] },
-  invoices: { label: 'Facturas', color: 'bg-purple-100 text-purple-700', permissions: ['invoices.view', 'invoices.void'] },
-  customers: { label: 'Clientes', color: 'bg-pink-100 text-pink-700', permissions: ['customers.view', 'customers.create', 'customers.edit'] },
-  tables: { label: 'Mesas', color: 'bg-orange-100 text-orange-700', permissions: ['tables.view', 'tables.open', 'tables.add_items', 'tables.pay', 'tables.add_notes'] },
-  kitchen: { label: 'Cocina', color: 'bg-red-100 text-red-700', permissions: ['kitchen.view', 'kitchen.update_status'] },
-  promotions: { label: 'Promociones', color: 'bg-emerald-100 text-emerald-700', permissions: ['promotions.view', 'promotions.create', 'promotions.edit', 'promotions.delete', 'promotions.toggle'] },
-  reports: { label: 'Reportes', color: 'bg-cyan-100 text-cyan-700', permissions: ['reports.view', 'reports.export'] },
-  users: { label: 'Usuarios', color: 'bg-gray-100 text-gray-700', permissions: ['users.view', 'users.manage'] },
-  settings: { label: 'Configuración', color: 'bg-slate-100 text-slate-700', permissions: ['settings.view', 'settings.edit'] },
+import type { MessageKey } from '@/core/i18n'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+const MODULE_PERMISSIONS: Record<string, { labelKey: MessageKey; color: string; permissions: string[] }> = {
+  pos: { labelKey: 'nav.pos', color: 'bg-green-100 text-green-700', permissions: ['pos.sell', 'pos.discount', 'pos.void', 'pos.exchange_rate'] },
+  products: { labelKey: 'nav.products', color: 'bg-blue-100 text-blue-700', permissions: ['products.view', 'products.create', 'products.edit', 'products.delete'] },
+  categories: { labelKey: 'nav.categories', color: 'bg-indigo-100 text-indigo-700', permissions: ['categories.view', 'categories.create', 'categories.edit', 'categories.delete'] },
+  inventory: { labelKey: 'nav.inventory', color: 'bg-amber-100 text-amber-700', permissions: ['inventory.view', 'inventory.adjust'] },
+  invoices: { labelKey: 'nav.invoices', color: 'bg-purple-100 text-purple-700', permissions: ['invoices.view', 'invoices.void'] },
+  customers: { labelKey: 'nav.customers', color: 'bg-pink-100 text-pink-700', permissions: ['customers.view', 'customers.create', 'customers.edit'] },
+  tables: { labelKey: 'nav.tables', color: 'bg-orange-100 text-orange-700', permissions: ['tables.view', 'tables.open', 'tables.add_items', 'tables.pay', 'tables.add_notes'] },
+  kitchen: { labelKey: 'nav.kitchen', color: 'bg-red-100 text-red-700', permissions: ['kitchen.view', 'kitchen.update_status'] },
+  promotions: { labelKey: 'nav.promotions', color: 'bg-emerald-100 text-emerald-700', permissions: ['promotions.view', 'promotions.create', 'promotions.edit', 'promotions.delete', 'promotions.toggle'] },
+  reports: { labelKey: 'nav.reports', color: 'bg-cyan-100 text-cyan-700', permissions: ['reports.view', 'reports.export'] },
+  users: { labelKey: 'nav.users', color: 'bg-gray-100 text-gray-700', permissions: ['users.view', 'users.manage'] },
+  settings: { labelKey: 'nav.settings', color: 'bg-slate-100 text-slate-700', permissions: ['settings.view', 'settings.edit'] },
 }
 
 const ROLE_MODULE_ACCESS: Record<string, string[]> = {
@@ -35,6 +37,8 @@ interface UserFormData {
   username: string
   email: string
   password: string
+  /** PIN de supervisor (opcional); se guarda aparte de los datos del usuario */
+  pin: string
   fullName: string
   roleId: number | ''
   isActive: boolean
@@ -44,12 +48,14 @@ const initialFormData: UserFormData = {
   username: '',
   email: '',
   password: '',
+  pin: '',
   fullName: '',
   roleId: '',
   isActive: true
 }
 
 const UsersPage = () => {
+  const { t } = useTranslation()
   const [users, setUsers] = useState<User[]>([])
   const [roles, setRoles] = useState<Role[]>([])
   const [loading, setLoading] = useState(true)
@@ -74,7 +80,7 @@ const UsersPage = () => {
       setRoles(rolesRes as Role[])
     } catch (error) {
       console.error('Error loading users:', error)
-      toast.error('Error al cargar usuarios')
+      toast.error(t('users.loadError'))
     } finally {
       setLoading(false)
     }
@@ -92,6 +98,7 @@ const UsersPage = () => {
       username: user.username,
       email: user.email,
       password: '',
+      pin: '',
       fullName: user.fullName,
       roleId: user.role?.id || '',
       isActive: user.isActive
@@ -100,62 +107,67 @@ const UsersPage = () => {
   }
 
   const handleDelete = async (user: User) => {
-    if (!confirm(`¿Eliminar el usuario "${user.fullName}"?`)) return
+    if (!confirm(t('users.confirmDelete', { name: user.fullName }))) return
     
     try {
       await userService.delete(user.id)
-      toast.success('Usuario eliminado')
+      toast.success(t('users.deleted'))
       fetchData()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al eliminar usuario')
+      toast.error(error.response?.data?.message || t('users.deleteError'))
     }
   }
 
   const validateForm = (): boolean => {
     // Validar nombre completo
     if (!formData.fullName.trim()) {
-      toast.error('El nombre completo es requerido')
+      toast.error(t('common.fullNameRequired'))
       return false
     }
 
     // Validar username
     if (!formData.username.trim()) {
-      toast.error('El nombre de usuario es requerido')
+      toast.error(t('users.usernameRequired'))
       return false
     }
 
     // Validar formato de username (sin espacios, caracteres especiales limitados)
     if (!/^[a-zA-Z0-9_]+$/.test(formData.username)) {
-      toast.error('El usuario solo puede contener letras, números y guiones bajos')
+      toast.error(t('users.usernameFormat'))
       return false
     }
 
     // Validar email
     if (!formData.email.trim()) {
-      toast.error('El email es requerido')
+      toast.error(t('users.emailRequired'))
       return false
     }
 
     if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      toast.error('El formato del email no es válido')
+      toast.error(t('common.emailInvalid'))
       return false
     }
 
     // Validar contraseña solo para nuevos usuarios
     if (!selectedUser) {
       if (!formData.password) {
-        toast.error('La contraseña es requerida')
+        toast.error(t('users.passwordRequired'))
         return false
       }
       if (formData.password.length < 6) {
-        toast.error('La contraseña debe tener al menos 6 caracteres')
+        toast.error(t('users.passwordLength'))
         return false
       }
     }
 
+    if (formData.pin && !/^\d{4,6}$/.test(formData.pin)) {
+      toast.error(t('users.pinFormat'))
+      return false
+    }
+
     // Validar rol
     if (!formData.roleId) {
-      toast.error('Debe seleccionar un rol')
+      toast.error(t('users.roleRequired'))
       return false
     }
 
@@ -185,22 +197,29 @@ const UsersPage = () => {
 
         if (data.password && data.password.length > 0) {
           if (data.password.length < 6) {
-            toast.error('La contraseña debe tener al menos 6 caracteres')
+            toast.error(t('users.passwordLength'))
             setSaving(false)
             return
           }
           await userService.changePassword(selectedUser.id, data.password)
         }
-        toast.success('Usuario actualizado')
+        if (data.pin) {
+          await userService.setPin(selectedUser.id, data.pin)
+        }
+        toast.success(t('users.updated'))
       } else {
-        await userService.create(data as CreateUserRequest)
-        toast.success('Usuario creado')
+        const { pin, ...createData } = data
+        const created = await userService.create(createData as CreateUserRequest) as User
+        if (pin) {
+          await userService.setPin(created.id, pin)
+        }
+        toast.success(t('users.created'))
       }
       
       setShowModal(false)
       fetchData()
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Error al guardar usuario')
+      toast.error(error.response?.data?.message || t('users.saveError'))
     } finally {
       setSaving(false)
     }
@@ -216,10 +235,10 @@ const UsersPage = () => {
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-800">Usuarios</h1>
-          <p className="text-gray-500">Gestión de usuarios y permisos</p>
+          <h1 className="text-2xl font-bold text-gray-800">{t('nav.users')}</h1>
+          <p className="text-gray-500">{t('users.subtitle')}</p>
         </div>
-        <Button variant="primary" onClick={openNewUser}><Plus size={20} /> Nuevo Usuario</Button>
+        <Button variant="primary" onClick={openNewUser}><Plus size={20} /> {t('users.new')}</Button>
       </div>
 
       <div className="card">
@@ -227,7 +246,7 @@ const UsersPage = () => {
           <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
           <input
             type="text"
-            placeholder="Buscar usuarios..."
+            placeholder={t('users.search')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="input-field pl-12"
@@ -242,17 +261,17 @@ const UsersPage = () => {
           </div>
         ) : filteredUsers.length === 0 ? (
           <div className="flex items-center justify-center py-12 text-gray-400">
-            No se encontraron usuarios
+            {t('users.empty')}
           </div>
         ) : (
           <table className="w-full">
             <thead>
               <tr className="bg-primary-50">
-                <th className="table-header">Usuario</th>
-                <th className="table-header">Email</th>
-                <th className="table-header">Rol</th>
-                <th className="table-header text-center">Estado</th>
-                <th className="table-header text-center">Acciones</th>
+                <th className="table-header">{t('common.user')}</th>
+                <th className="table-header">{t('common.email')}</th>
+                <th className="table-header">{t('common.role')}</th>
+                <th className="table-header text-center">{t('common.status')}</th>
+                <th className="table-header text-center">{t('common.actions')}</th>
               </tr>
             </thead>
             <tbody>
@@ -272,12 +291,12 @@ const UsersPage = () => {
                   <td className="table-cell">{user.email}</td>
                   <td className="table-cell">
                     <span className="inline-flex items-center gap-1 badge badge-info">
-                      <Shield size={14} /> {user.role?.name || 'Sin rol'}
+                      <Shield size={14} /> {user.role?.name || t('users.noRole')}
                     </span>
                   </td>
                   <td className="table-cell text-center">
                     <span className={`badge ${user.isActive ? 'badge-success' : 'badge-danger'}`}>
-                      {user.isActive ? 'Activo' : 'Inactivo'}
+                      {user.isActive ? t('common.active') : t('common.inactive')}
                     </span>
                   </td>
                   <td className="table-cell">
@@ -309,7 +328,7 @@ const UsersPage = () => {
           <div className="modal-content p-6 animate-scale-in">
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-xl font-bold text-gray-800">
-                {selectedUser ? 'Editar Usuario' : 'Nuevo Usuario'}
+                {selectedUser ? t('users.edit') : t('users.new')}
               </h3>
               <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
                 <X size={24} />
@@ -318,14 +337,14 @@ const UsersPage = () => {
 
             <form onSubmit={handleSubmit} className="space-y-4">
               <Input
-                label="Nombre Completo *"
+                label={t('common.fullNameLabel')}
                 value={formData.fullName}
                 onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
                 required
               />
 
               <Input
-                label="Usuario *"
+                label={t('users.username')}
                 value={formData.username}
                 onChange={(e) => setFormData({ ...formData, username: e.target.value })}
                 required
@@ -333,7 +352,7 @@ const UsersPage = () => {
               />
 
               <Input
-                label="Email *"
+                label={t('users.email')}
                 type="email"
                 value={formData.email}
                 onChange={(e) => setFormData({ ...formData, email: e.target.value })}
@@ -342,15 +361,15 @@ const UsersPage = () => {
 
               {selectedUser ? (
                 <Input
-                  label="Contraseña (opcional)"
+                  label={t('users.passwordOptional')}
                   type="password"
                   value={formData.password}
                   onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  placeholder="Dejar vacío para no cambiar"
+                  placeholder={t('common.keepBlank')}
                 />
               ) : (
                 <Input
-                  label="Contraseña *"
+                  label={t('users.passwordRequiredLabel')}
                   type="password"
                   value={formData.password}
                   onChange={(e) => setFormData({ ...formData, password: e.target.value })}
@@ -358,8 +377,18 @@ const UsersPage = () => {
                 />
               )}
 
+              <Input
+                label={selectedUser?.hasPin ? t('users.pinConfigured') : t('users.pinOptional')}
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                value={formData.pin}
+                onChange={(e) => setFormData({ ...formData, pin: e.target.value.replace(/\D/g, '') })}
+                placeholder={selectedUser?.hasPin ? t('common.keepBlank') : t('users.pinPlaceholder')}
+              />
+
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Rol *</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t('users.role')}</label>
                 <div className="grid grid-cols-2 gap-2">
                   {roles.map((role) => {
                     const isSelected = formData.roleId === role.id
@@ -382,7 +411,7 @@ const UsersPage = () => {
                         <div className="flex flex-wrap gap-1">
                           {modules.slice(0, 4).map(mod => (
                             <span key={mod} className={`text-[10px] px-1.5 py-0.5 rounded ${MODULE_PERMISSIONS[mod]?.color || 'bg-gray-100 text-gray-600'}`}>
-                              {MODULE_PERMISSIONS[mod]?.label || mod}
+                              {MODULE_PERMISSIONS[mod] ? t(MODULE_PERMISSIONS[mod].labelKey) : mod}
                             </span>
                           ))}
                           {modules.length > 4 && (
@@ -396,7 +425,7 @@ const UsersPage = () => {
                 {formData.roleId && (
                   <div className="mt-3 p-3 bg-gray-50 rounded-xl">
                     <p className="text-xs font-semibold text-gray-600 mb-2 flex items-center gap-1">
-                      <Shield size={12} /> Acceso por m\u00f3dulo del rol seleccionado:
+                      <Shield size={12} /> {t('users.moduleAccess')}
                     </p>
                     <div className="grid grid-cols-3 gap-1.5">
                       {Object.entries(MODULE_PERMISSIONS).map(([key, mod]) => {
@@ -405,7 +434,7 @@ const UsersPage = () => {
                         return (
                           <div key={key} className={`flex items-center gap-1 text-xs px-2 py-1 rounded ${hasAccess ? 'text-green-700 bg-green-50' : 'text-gray-400 bg-gray-100'}`}>
                             {hasAccess ? <Check size={10} /> : <Lock size={10} />}
-                            {mod.label}
+                            {t(mod.labelKey)}
                           </div>
                         )
                       })}
@@ -422,15 +451,15 @@ const UsersPage = () => {
                   onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
                   className="w-4 h-4 rounded border-gray-300"
                 />
-                <label htmlFor="isActive" className="text-sm text-gray-700">Usuario activo</label>
+                <label htmlFor="isActive" className="text-sm text-gray-700">{t('users.isActive')}</label>
               </div>
 
               <div className="flex justify-end gap-3 pt-4">
                 <Button type="button" variant="secondary" onClick={() => setShowModal(false)}>
-                  Cancelar
+                  {t('common.cancel')}
                 </Button>
                 <Button type="submit" variant="primary" disabled={saving}>
-                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> Guardando...</> : 'Guardar'}
+                  {saving ? <><Loader2 className="w-5 h-5 animate-spin" /> {t('common.saving')}</> : t('common.save')}
                 </Button>
               </div>
             </form>
@@ -0,0 +1,241 @@
+import { useState, useEffect, useRef } from 'react'
+import { useSelector } from 'react-redux'
+import { useNavigate } from 'react-router-dom'
+import { Search, Package, User, UtensilsCrossed, Loader2, CornerDownLeft } from 'lucide-react'
+import { RootState } from '@/app/store'
+import { productService } from '@/core/api/productService'
+import { customerService } from '@/core/api/customerService'
+import { tableService } from '@/core/api/tableService'
+import { canAccess } from '@/core/auth/permissions'
+import { menuItems } from './layout/menuItems'
+import { eventToShortcut, COMMAND_PALETTE_SHORTCUT } from '@/shared/utils/shortcuts'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import type { MessageKey } from '@/core/i18n'
+import { Customer, Product, RestaurantTable } from '@/types'
+
+type CommandKind = 'page' | 'product' | 'customer' | 'table'
+
+interface Command {
+  id: string
+  kind: CommandKind
+  label: string
+  hint?: string
+  icon: typeof Search
+  run: () => void
+}
+
+const KIND_LABELS: Record<CommandKind, MessageKey> = {
+  page: 'palette.pages',
+  product: 'palette.products',
+  customer: 'palette.customers',
+  table: 'palette.tables',
+}
+
+const MAX_PER_KIND = 6
+
+const normalize = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+
+/**
+ * Paleta de comandos global (Ctrl+K): salta a páginas, productos, clientes o mesas.
+ * Solo ofrece lo que el usuario puede abrir, con las mismas reglas del menú lateral.
+ */
+const CommandPalette = () => {
+  const navigate = useNavigate()
+  const { user } = useSelector((state: RootState) => state.auth)
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [loaded, setLoaded] = useState(false)
+  const [products, setProducts] = useState<Product[]>([])
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [tables, setTables] = useState<RestaurantTable[]>([])
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const canSell = canAccess(user, ['pos.sell'])
+  const canSeeProducts = canSell || canAccess(user, ['products.view'])
+  const canSeeCustomers = canSell || canAccess(user, ['customers.view'])
+  const canSeeTables = canAccess(user, ['tables.view'])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (eventToShortcut(e) !== COMMAND_PALETTE_SHORTCUT) return
+      e.preventDefault()
+      setOpen((prev) => !prev)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    setQuery('')
+    setActiveIndex(0)
+    setTimeout(() => inputRef.current?.focus(), 0)
+    if (!loaded) loadData()
+  }, [open])
+
+  // Se carga una vez por sesión al abrir la paleta; la lista se refresca al recargar la página
+  const loadData = async () => {
+    setLoading(true)
+    const [productsRes, customersRes, tablesRes] = await Promise.all([
+      canSeeProducts ? productService.getActive().catch(() => []) : Promise.resolve([]),
+      canSeeCustomers ? customerService.getActive().catch(() => []) : Promise.resolve([]),
+      canSeeTables ? tableService.getAll().catch(() => []) : Promise.resolve([]),
+    ])
+    setProducts((productsRes as Product[]) || [])
+    setCustomers((customersRes as Customer[]) || [])
+    setTables(((tablesRes as RestaurantTable[]) || []).filter((t) => t.isActive))
+    setLoaded(true)
+    setLoading(false)
+  }
+
+  const go = (path: string, state?: Record<string, unknown>) => {
+    setOpen(false)
+    navigate(path, state ? { state } : undefined)
+  }
+
+  const q = normalize(query.trim())
+  const matches = (...values: Array<string | number | undefined | null>) =>
+    !q || values.some((v) => v != null && normalize(String(v)).includes(q))
+
+  const pageCommands: Command[] = menuItems
+    .filter((item) => canAccess(user, item.requiredPermissions))
+    .filter((item) => matches(t(item.labelKey), item.path))
+    .map((item) => ({
+      id: `page-${item.path}`,
+      kind: 'page',
+      label: t(item.labelKey),
+      hint: item.path,
+      icon: item.icon,
+      run: () => go(item.path),
+    }))
+
+  const productCommands: Command[] = q
+    ? products
+        .filter((p) => matches(p.name, p.code, p.barcode))
+        .slice(0, MAX_PER_KIND)
+        .map((p) => ({
+          id: `product-${p.id}`,
+          kind: 'product',
+          label: p.name,
+          hint: canSell ? t('palette.addToCart', { code: p.code }) : p.code,
+          icon: Package,
+          run: () => (canSell ? go('/pos', { addProductId: p.id }) : go('/products', { search: p.name })),
+        }))
+    : []
+
+  const customerCommands: Command[] = q
+    ? customers
+        .filter((c) => matches(c.fullName, c.documentNumber, c.phone))
+        .slice(0, MAX_PER_KIND)
+        .map((c) => ({
+          id: `customer-${c.id}`,
+          kind: 'customer',
+          label: c.fullName,
+          hint: canSell ? t('palette.assignToSale', { document: c.documentNumber || '' }) : c.documentNumber,
+          icon: User,
+          run: () => (canSell ? go('/pos', { customerId: c.id }) : go('/customers', { search: c.fullName })),
+        }))
+    : []
+
+  const tableCommands: Command[] = q
+    ? tables
+        .filter((table) => matches(`mesa ${table.tableNumber}`, t('palette.table', { number: table.tableNumber }), table.name, table.zone))
+        .slice(0, MAX_PER_KIND)
+        .map((table) => ({
+          id: `table-${table.id}`,
+          kind: 'table',
+          label: table.name || t('palette.table', { number: table.tableNumber }),
+          hint: [table.zone, table.status].filter(Boolean).join(' · '),
+          icon: UtensilsCrossed,
+          run: () => go('/tables', { tableId: table.id }),
+        }))
+    : []
+
+  const commands = [...pageCommands, ...productCommands, ...customerCommands, ...tableCommands]
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [query])
+
+  if (!open) return null
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setOpen(false)
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((i) => Math.min(commands.length - 1, i + 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((i) => Math.max(0, i - 1))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      commands[activeIndex]?.run()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-[60] flex items-start justify-center p-4 pt-[12vh]" onClick={() => setOpen(false)}>
+      <div
+        className="bg-white rounded-2xl shadow-xl w-full max-w-xl overflow-hidden animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="relative border-b border-gray-100">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('palette.placeholder')}
+            className="w-full pl-11 pr-16 py-4 text-sm outline-none"
+          />
+          <span className="absolute right-4 top-1/2 -translate-y-1/2 text-[11px] text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Esc</span>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto py-2">
+          {commands.length === 0 ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-400">
+              {loading ? <><Loader2 size={16} className="animate-spin" /> {t('common.loading')}</> : t('common.noResults')}
+            </div>
+          ) : (
+            (Object.keys(KIND_LABELS) as CommandKind[]).map((kind) => {
+              const group = commands.filter((c) => c.kind === kind)
+              if (group.length === 0) return null
+              return (
+                <div key={kind} className="mb-1">
+                  <p className="px-4 py-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">{t(KIND_LABELS[kind])}</p>
+                  {group.map((command) => {
+                    const index = commands.indexOf(command)
+                    const active = index === activeIndex
+                    return (
+                      <button
+                        key={command.id}
+                        type="button"
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onClick={command.run}
+                        className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm ${active ? 'bg-primary-50 text-primary-700' : 'text-gray-700'}`}
+                      >
+                        <command.icon size={16} className="flex-shrink-0" />
+                        <span className="flex-1 truncate">{command.label}</span>
+                        {command.hint && <span className="text-xs text-gray-400 truncate">{command.hint}</span>}
+                        {active && <CornerDownLeft size={14} className="flex-shrink-0 text-primary-400" />}
+                      </button>
+                    )
+                  })}
+                </div>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CommandPalette
@@ -1,4 +1,5 @@
 import { Calendar } from 'lucide-react'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 const toLocalDateStr = (d: Date) => {
   const y = d.getFullYear()
@@ -13,6 +14,7 @@ interface DateRangeFilterProps {
 }
 
 const DateRangeFilter = ({ dateRange, setDateRange }: DateRangeFilterProps) => {
+  const { t } = useTranslation()
   return (
     <div className="flex flex-wrap items-center gap-2">
       <Calendar size={16} className="text-gray-400 hidden sm:block flex-shrink-0" />
@@ -22,7 +24,7 @@ const DateRangeFilter = ({ dateRange, setDateRange }: DateRangeFilterProps) => {
         value={dateRange.start}
         onChange={(e) => setDateRange({ ...dateRange, start: e.target.value })}
       />
-      <span className="text-gray-400 text-sm">a</span>
+      <span className="text-gray-400 text-sm">{t('dateRange.to')}</span>
       <input
         type="date"
         className="input-field py-1.5 px-2 text-sm w-[130px]"
@@ -31,10 +33,10 @@ const DateRangeFilter = ({ dateRange, setDateRange }: DateRangeFilterProps) => {
       />
       <div className="flex gap-1.5">
         {[
-          { label: 'Hoy', fn: () => { const d = toLocalDateStr(new Date()); setDateRange({ start: d, end: d }) } },
-          { label: 'Semana', fn: () => { const end = new Date(); const start = new Date(); start.setDate(start.getDate() - 7); setDateRange({ start: toLocalDateStr(start), end: toLocalDateStr(end) }) } },
-          { label: 'Mes', fn: () => { const now = new Date(); setDateRange({ start: toLocalDateStr(new Date(now.getFullYear(), now.getMonth(), 1)), end: toLocalDateStr(now) }) } },
-          { label: 'Año', fn: () => { const now = new Date(); setDateRange({ start: toLocalDateStr(new Date(now.getFullYear(), 0, 1)), end: toLocalDateStr(now) }) } },
+          { label: t('dateRange.today'), fn: () => { const d = toLocalDateStr(new Date()); setDateRange({ start: d, end: d }) } },
+          { label: t('dateRange.week'), fn: () => { const end = new Date(); const start = new Date(); start.setDate(start.getDate() - 7); setDateRange({ start: toLocalDateStr(start), end: toLocalDateStr(end) }) } },
+          { label: t('dateRange.month'), fn: () => { const now = new Date(); setDateRange({ start: toLocalDateStr(new Date(now.getFullYear(), now.getMonth(), 1)), end: toLocalDateStr(now) }) } },
+          { label: t('dateRange.year'), fn: () => { const now = new Date(); setDateRange({ start: toLocalDateStr(new Date(now.getFullYear(), 0, 1)), end: toLocalDateStr(now) }) } },
         ].map(({ label, fn }) => (
           <button key={label} onClick={fn} className="px-2.5 py-1 text-xs font-medium rounded-lg bg-gray-100 text-gray-600 hover:bg-primary-100 hover:text-primary-700 transition-colors">
             {label}
@@ -1,4 +1,5 @@
 import { Component, ErrorInfo, ReactNode } from 'react'
+import { t } from '@/core/i18n'
 
 interface Props {
   children: ReactNode
@@ -9,6 +10,7 @@ interface State {
   error: Error | null
 }
 
+// Componente de clase: no puede usar useTranslation, toma el idioma activo al renderizar
 class ErrorBoundary extends Component<Props, State> {
   public state: State = {
     hasError: false,
@@ -28,8 +30,8 @@ class ErrorBoundary extends Component<Props, State> {
       return (
         <div className="min-h-screen flex items-center justify-center bg-red-50 p-4">
           <div className="bg-white rounded-2xl shadow-lg p-8 max-w-lg w-full">
-            <h1 className="text-2xl font-bold text-red-600 mb-4">Error en la aplicación</h1>
-            <p className="text-gray-600 mb-4">Ha ocurrido un error inesperado:</p>
+            <h1 className="text-2xl font-bold text-red-600 mb-4">{t('errorBoundary.title')}</h1>
+            <p className="text-gray-600 mb-4">{t('errorBoundary.message')}</p>
             <pre className="bg-gray-100 p-4 rounded-lg text-sm overflow-auto max-h-48 text-red-500">
               {this.state.error?.message}
             </pre>
@@ -37,7 +39,7 @@ class ErrorBoundary extends Component<Props, State> {
               onClick={() => window.location.reload()}
               className="mt-6 w-full bg-primary-600 text-white py-3 rounded-xl hover:bg-primary-700 transition-colors"
             >
-              Recargar página
+              {t('errorBoundary.reload')}
             </button>
           </div>
         </div>
@@ -0,0 +1,212 @@
+import { useState, useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { X, Gift, Loader2, RefreshCw } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { RootState } from '@/app/store'
+import { giftCardService } from '@/core/api/giftCardService'
+import { GiftCard } from '@/types'
+import TenderEditor from './TenderEditor'
+import { TenderLine, createTenderLine, summarizeTenders, buildPaymentLines, resolvePaymentMethod } from '@/shared/utils/payments'
+import { GIFT_CARD_AMOUNTS, generateGiftCardCode, getDefaultExpiration, normalizeGiftCardCode } from '@/shared/utils/giftCards'
+import { printInvoice } from '@/shared/utils/printInvoice'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+interface GiftCardSaleModalProps {
+  show: boolean
+  /** Tarjeta a recargar; sin ella se emite una nueva */
+  card?: GiftCard | null
+  customer?: { id: number | null; name: string } | null
+  onClose: () => void
+  onCompleted: (card: GiftCard) => void
+  formatCurrency: (value: number) => string
+}
+
+/**
+ * Venta o recarga de una tarjeta de regalo. No genera factura: el backend registra
+ * el saldo como pasivo y los pagos en el turno de caja; se imprime un comprobante.
+ */
+const GiftCardSaleModal = ({ show, card, customer, onClose, onCompleted, formatCurrency }: GiftCardSaleModalProps) => {
+  const { t } = useTranslation()
+  const { user } = useSelector((state: RootState) => state.auth)
+  const { giftCardValidityMonths } = useSelector((state: RootState) => state.settings.pos)
+  const cashSession = useSelector((state: RootState) => state.cashSession.current)
+  const [code, setCode] = useState('')
+  const [amount, setAmount] = useState(0)
+  const [expiresAt, setExpiresAt] = useState('')
+  const [tenders, setTenders] = useState<TenderLine[]>([])
+  const [processing, setProcessing] = useState(false)
+
+  useEffect(() => {
+    if (!show) return
+    setCode(card?.code || generateGiftCardCode())
+    setAmount(0)
+    setExpiresAt(card ? card.expiresAt?.split('T')[0] || '' : giftCardValidityMonths > 0 ? getDefaultExpiration(giftCardValidityMonths) : '')
+    setTenders([createTenderLine('EFECTIVO', 0)])
+  }, [show, card, giftCardValidityMonths])
+
+  if (!show) return null
+
+  const tenderSummary = summarizeTenders(tenders, amount)
+
+  const handleAmount = (value: number) => {
+    setAmount(value)
+    if (tenders.length === 1) setTenders([{ ...tenders[0], amount: value }])
+  }
+
+  const handleConfirm = async () => {
+    const normalizedCode = normalizeGiftCardCode(code)
+    if (!normalizedCode || amount <= 0 || !tenderSummary.isComplete) return
+    const payments = buildPaymentLines(tenders, amount)
+    setProcessing(true)
+    try {
+      const result = (card
+        ? await giftCardService.reload(card.id, { amount, payments, cashSessionId: cashSession?.id })
+        : await giftCardService.issue({
+            code: normalizedCode,
+            amount,
+            expiresAt: expiresAt || undefined,
+            customerId: customer?.id,
+            payments,
+            cashSessionId: cashSession?.id,
+          })) as GiftCard
+      toast.success(t(card ? 'giftCardSale.reloaded' : 'giftCardSale.issued', { code: result.code, balance: formatCurrency(result.balance) }))
+      printInvoice({
+        invoiceNumber: result.code,
+        createdAt: new Date().toISOString(),
+        customerName: result.customerName || customer?.name,
+        userName: user?.fullName,
+        details: [{ quantity: 1, productName: card ? t('giftCardSale.reloadItem') : t('giftCardSale.issueItem'), subtotal: amount }],
+        subtotal: amount,
+        discountAmount: 0,
+        total: amount,
+        paymentMethod: resolvePaymentMethod(payments),
+        payments,
+        amountReceived: tenderSummary.paid,
+        changeAmount: tenderSummary.change,
+      }, {
+        giftCard: { balance: result.balance, expiresAt: result.expiresAt },
+        openDrawer: payments.some((p) => p.paymentMethod === 'EFECTIVO'),
+      }).catch(() => toast.error(t('receipt.printFailed')))
+      onCompleted(result)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t(card ? 'giftCardSale.reloadError' : 'giftCardSale.issueError'))
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-pink-100 rounded-xl flex items-center justify-center">
+              <Gift className="w-5 h-5 text-pink-600" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-gray-800">{card ? t('giftCardSale.reloadTitle') : t('giftCardSale.sellTitle')}</h3>
+              {card && <p className="text-sm text-gray-500">{t('giftCardSale.currentBalance', { balance: formatCurrency(card.balance) })}</p>}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" disabled={processing}>
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('giftCardSale.code')}</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                disabled={!!card}
+                className="input-field font-mono flex-1"
+                placeholder={t('giftCardSale.codePlaceholder')}
+              />
+              {!card && (
+                <button
+                  type="button"
+                  onClick={() => setCode(generateGiftCardCode())}
+                  className="px-3 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50"
+                  title={t('giftCardSale.generateCode')}
+                >
+                  <RefreshCw size={18} />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('giftCardSale.amount')}</label>
+            <div className="grid grid-cols-4 gap-2 mb-2">
+              {GIFT_CARD_AMOUNTS.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => handleAmount(value)}
+                  className={`py-2 rounded-xl border text-sm font-medium ${amount === value ? 'border-pink-400 bg-pink-50 text-pink-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {formatCurrency(value)}
+                </button>
+              ))}
+            </div>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={amount || ''}
+              onChange={(e) => handleAmount(Math.max(0, Number(e.target.value) || 0))}
+              className="input-field"
+              placeholder={t('giftCardSale.otherAmount')}
+            />
+          </div>
+
+          {!card && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('giftCardSale.expires')}</label>
+                <input
+                  type="date"
+                  value={expiresAt}
+                  min={new Date().toISOString().split('T')[0]}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('giftCardSale.customer')}</label>
+                <p className="input-field bg-gray-50 text-gray-600 truncate">{customer?.id ? customer.name : t('giftCardSale.noCustomer')}</p>
+              </div>
+            </div>
+          )}
+
+          <TenderEditor
+            lines={tenders}
+            setLines={setTenders}
+            total={amount}
+            formatCurrency={formatCurrency}
+            allowGiftCard={false}
+          />
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={onClose} disabled={processing} className="flex-1 py-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={processing || !code.trim() || amount <= 0 || !tenderSummary.isComplete}
+            className="flex-1 py-2.5 rounded-xl bg-pink-600 text-white font-medium hover:bg-pink-700 disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Gift size={18} />}
+            {card ? t('giftCardSale.reload') : t('giftCardSale.issue')} {amount > 0 ? formatCurrency(amount) : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default GiftCardSaleModal
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react'
+import { X, Check } from 'lucide-react'
+import { ModifierGroup, SelectedModifier } from '@/types'
+import { getModifiersTotal, validateModifierSelection } from '@/shared/utils/modifiers'
+import { useTranslation } from '@/core/hooks/useTranslation'
+
+interface ModifierSelectorModalProps {
+  product: { name: string; salePrice: number; modifierGroups?: ModifierGroup[] } | null
+  onClose: () => void
+  onConfirm: (modifiers: SelectedModifier[]) => void
+  formatCurrency: (value: number) => string
+}
+
+const ModifierSelectorModal = ({ product, onClose, onConfirm, formatCurrency }: ModifierSelectorModalProps) => {
+  const { t } = useTranslation()
+  const [selected, setSelected] = useState<SelectedModifier[]>([])
+
+  useEffect(() => {
+    setSelected([])
+  }, [product])
+
+  if (!product) return null
+
+  const groups = (product.modifierGroups || []).filter((g) => g.options.length > 0)
+  const error = validateModifierSelection(groups, selected)
+  const unitPrice = product.salePrice + getModifiersTotal(selected)
+
+  const isSelected = (group: ModifierGroup, optionName: string) =>
+    selected.some((m) => m.groupName === group.name && m.optionName === optionName)
+
+  const toggleOption = (group: ModifierGroup, option: ModifierGroup['options'][number]) => {
+    const modifier: SelectedModifier = {
+      groupId: group.id,
+      groupName: group.name,
+      optionId: option.id,
+      optionName: option.name,
+      priceDelta: Number(option.priceDelta) || 0,
+    }
+    if (isSelected(group, option.name)) {
+      setSelected(selected.filter((m) => !(m.groupName === group.name && m.optionName === option.name)))
+      return
+    }
+    // Grupos de una sola opción (tamaño, término) funcionan como radio
+    if (group.maxSelections === 1) {
+      setSelected([...selected.filter((m) => m.groupName !== group.name), modifier])
+      return
+    }
+    const count = selected.filter((m) => m.groupName === group.name).length
+    if (group.maxSelections > 0 && count >= group.maxSelections) return
+    setSelected([...selected, modifier])
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content p-6 flex flex-col animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{product.name}</h3>
+            <p className="text-sm text-gray-500">{t('modifiers.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {groups.map((group) => {
+            const count = selected.filter((m) => m.groupName === group.name).length
+            return (
+              <div key={group.id ?? group.name}>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold text-gray-700">{group.name}</h4>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${group.required ? 'bg-red-50 text-red-600' : 'bg-gray-100 text-gray-500'}`}>
+                    {group.required ? t('modifiers.required') : t('modifiers.optional')}
+                    {group.maxSelections > 1 && ` · ${count}/${group.maxSelections}`}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {group.options.map((option) => {
+                    const active = isSelected(group, option.name)
+                    return (
+                      <button
+                        key={option.id ?? option.name}
+                        type="button"
+                        onClick={() => toggleOption(group, option)}
+                        className={`flex items-center justify-between gap-2 p-3 rounded-xl border-2 text-left text-sm transition-colors ${
+                          active ? 'border-primary-500 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-600 hover:border-primary-200'
+                        }`}
+                      >
+                        <span className="flex items-center gap-2 min-w-0">
+                          {active && <Check size={14} className="flex-shrink-0" />}
+                          <span className="truncate">{option.name}</span>
+                        </span>
+                        {Number(option.priceDelta) !== 0 && (
+                          <span className="text-xs font-medium flex-shrink-0">+{formatCurrency(Number(option.priceDelta))}</span>
+                        )}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-primary-100">
+          {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+          <button
+            onClick={() => onConfirm(selected)}
+            disabled={!!error}
+            className="w-full flex items-center justify-between px-4 py-3 bg-primary-600 text-white rounded-xl hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <span className="font-medium">{t('modifiers.addToOrder')}</span>
+            <span className="font-bold">{formatCurrency(unitPrice)}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ModifierSelectorModal
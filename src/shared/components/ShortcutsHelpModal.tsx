@@ -0,0 +1,61 @@
+import { X, Keyboard } from 'lucide-react'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { POS_SHORTCUT_ACTIONS, COMMAND_PALETTE_SHORTCUT, ShortcutBindings, getShortcutDescription, getShortcutLabel } from '@/shared/utils/shortcuts'
+
+interface ShortcutsHelpModalProps {
+  isOpen: boolean
+  bindings: ShortcutBindings
+  onClose: () => void
+}
+
+export const ShortcutKey = ({ shortcut }: { shortcut: string }) => (
+  <span className="inline-flex items-center gap-1">
+    {shortcut.split('+').map((part) => (
+      <kbd key={part} className="px-2 py-0.5 rounded-md border border-gray-300 bg-gray-50 text-xs font-mono text-gray-700 shadow-sm">
+        {part}
+      </kbd>
+    ))}
+  </span>
+)
+
+const ShortcutsHelpModal = ({ isOpen, bindings, onClose }: ShortcutsHelpModalProps) => {
+  const { t } = useTranslation()
+  if (!isOpen) return null
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content p-6 animate-scale-in" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Keyboard size={22} /> {t('shortcuts.title')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {POS_SHORTCUT_ACTIONS.map((action) => (
+            <div key={action} className="flex items-center justify-between gap-4 py-2.5">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-800">{getShortcutLabel(action)}</p>
+                <p className="text-xs text-gray-500">{getShortcutDescription(action)}</p>
+              </div>
+              <ShortcutKey shortcut={bindings[action]} />
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-4 py-2.5">
+            <div>
+              <p className="text-sm font-medium text-gray-800">{t('shortcuts.palette')}</p>
+              <p className="text-xs text-gray-500">{t('shortcuts.paletteDescription')}</p>
+            </div>
+            <ShortcutKey shortcut={COMMAND_PALETTE_SHORTCUT} />
+          </div>
+        </div>
+        <p className="text-xs text-gray-400 mt-4">{t('shortcuts.changeInSettings')}</p>
+      </div>
+    </div>
+  )
+}
+
+export default ShortcutsHelpModal
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react'
+import { X, ShieldCheck, Loader2, Delete } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { authorizationService } from '@/core/api/authorizationService'
+import { SupervisorAuthRequest } from '@/core/hooks/useSupervisorAuth'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { SupervisorAuthorization } from '@/types'
+
+interface SupervisorAuthModalProps {
+  request: SupervisorAuthRequest | null
+  onApproved: (authorization: SupervisorAuthorization) => void
+  onCancel: () => void
+}
+
+const PIN_LENGTH = 6
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'C', '0', '⌫']
+
+/**
+ * Un supervisor aprueba una sola acción con su PIN o su usuario y contraseña.
+ * La sesión del cajero no cambia; el backend registra quién aprobó qué.
+ */
+const SupervisorAuthModal = ({ request, onApproved, onCancel }: SupervisorAuthModalProps) => {
+  const { t } = useTranslation()
+  const [mode, setMode] = useState<'pin' | 'credentials'>('pin')
+  const [pin, setPin] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [processing, setProcessing] = useState(false)
+
+  useEffect(() => {
+    setMode('pin')
+    setPin('')
+    setUsername('')
+    setPassword('')
+  }, [request])
+
+  if (!request) return null
+
+  const canSubmit = mode === 'pin' ? pin.length >= 4 : !!username.trim() && !!password
+
+  const handleKey = (key: string) => {
+    if (key === 'C') setPin('')
+    else if (key === '⌫') setPin(pin.slice(0, -1))
+    else if (pin.length < PIN_LENGTH) setPin(pin + key)
+  }
+
+  const handleSubmit = async () => {
+    if (!canSubmit || processing) return
+    setProcessing(true)
+    try {
+      const authorization = await authorizationService.authorize({
+        ...request,
+        ...(mode === 'pin' ? { pin } : { username: username.trim(), password }),
+      }) as SupervisorAuthorization
+      toast.success(t('supervisor.approvedBy', { name: authorization.supervisorName }))
+      onApproved(authorization)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('supervisor.rejected'))
+      setPin('')
+      setPassword('')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay z-[70]">
+      <div className="modal-content max-w-sm p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-amber-100 rounded-xl flex items-center justify-center">
+              <ShieldCheck className="w-5 h-5 text-amber-600" />
+            </div>
+            <h3 className="text-lg font-bold text-gray-800">{t('supervisor.title')}</h3>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-700 bg-amber-50 rounded-xl p-3 mb-4">{request.description}</p>
+
+        <div className="flex bg-gray-100 rounded-xl p-1 mb-4">
+          {(['pin', 'credentials'] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`flex-1 py-1.5 rounded-lg text-sm font-medium ${mode === m ? 'bg-white shadow-sm text-primary-700' : 'text-gray-500'}`}
+            >
+              {m === 'pin' ? t('supervisor.pin') : t('common.user')}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'pin' ? (
+          <div
+            tabIndex={0}
+            autoFocus
+            onKeyDown={(e) => {
+              if (/^\d$/.test(e.key)) handleKey(e.key)
+              else if (e.key === 'Backspace') handleKey('⌫')
+              else if (e.key === 'Enter') handleSubmit()
+              else if (e.key === 'Escape') onCancel()
+            }}
+            className="outline-none"
+          >
+            <div className="flex justify-center gap-2 mb-4">
+              {Array.from({ length: PIN_LENGTH }).map((_, i) => (
+                <span key={i} className={`w-3 h-3 rounded-full ${i < pin.length ? 'bg-primary-600' : 'bg-gray-200'}`} />
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {KEYPAD.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => handleKey(key)}
+                  className="py-3 rounded-xl bg-gray-50 hover:bg-primary-50 text-lg font-semibold text-gray-700 flex items-center justify-center"
+                >
+                  {key === '⌫' ? <Delete size={20} /> : key}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder={t('supervisor.usernamePlaceholder')}
+              className="input-field"
+              autoFocus
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              placeholder={t('common.password')}
+              className="input-field"
+            />
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-5">
+          <button onClick={onCancel} className="flex-1 py-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit || processing}
+            className="flex-1 py-2.5 rounded-xl bg-primary-600 text-white font-medium hover:bg-primary-700 disabled:opacity-50 flex items-center justify-center"
+          >
+            {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : t('supervisor.authorize')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SupervisorAuthModal
@@ -0,0 +1,230 @@
+import { useState } from 'react'
+import { Plus, Trash2, Gift, Loader2, Banknote } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { giftCardService } from '@/core/api/giftCardService'
+import { ExchangeRate, GiftCard } from '@/types'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { PAYMENT_METHODS, CREDIT_PAYMENT_METHOD, GIFT_CARD_PAYMENT_METHOD, TenderLine, createTenderLine, getPaymentLineLabel, getPaymentMethodLabel, summarizeTenders } from '@/shared/utils/payments'
+import { getGiftCardRedeemError, normalizeGiftCardCode } from '@/shared/utils/giftCards'
+import { formatForeignCurrency, setTenderAmount, toBaseAmount, toForeignAmount } from '@/shared/utils/currency'
+
+interface TenderEditorProps {
+  lines: TenderLine[]
+  setLines: (lines: TenderLine[]) => void
+  total: number
+  formatCurrency: (value: number) => string
+  /** Cupo disponible del cliente; si se indica, se ofrece el pago a crédito */
+  creditAvailable?: number | null
+  /** Ofrecer el pago con tarjeta de regalo (no aplica al vender una tarjeta) */
+  allowGiftCard?: boolean
+  /** Tasas vigentes hoy: habilitan el efectivo en divisa y muestran el total convertido */
+  exchangeRates?: ExchangeRate[]
+}
+
+const TenderEditor = ({ lines, setLines, total, formatCurrency, creditAvailable, allowGiftCard = true, exchangeRates = [] }: TenderEditorProps) => {
+  const { t } = useTranslation()
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+  const summary = summarizeTenders(lines, total)
+  const allowCredit = creditAvailable != null
+  const methods = [
+    ...PAYMENT_METHODS.map((m) => ({ value: m.value as string, label: getPaymentMethodLabel(m.value) })),
+    ...(allowGiftCard ? [{ value: GIFT_CARD_PAYMENT_METHOD.value, label: getPaymentMethodLabel(GIFT_CARD_PAYMENT_METHOD.value) }] : []),
+    ...exchangeRates.map((r) => ({ value: `EFECTIVO:${r.currency}`, label: getPaymentLineLabel({ paymentMethod: 'EFECTIVO', currency: r.currency }) })),
+    ...(allowCredit ? [{ value: CREDIT_PAYMENT_METHOD.value, label: getPaymentMethodLabel(CREDIT_PAYMENT_METHOD.value) }] : []),
+  ]
+  const creditAmount = lines
+    .filter((l) => l.method === CREDIT_PAYMENT_METHOD.value)
+    .reduce((acc, l) => acc + (l.amount || 0), 0)
+
+  const updateLine = (id: string, changes: Partial<TenderLine>) => {
+    setLines(lines.map((l) => (l.id === id ? { ...l, ...changes } : l)))
+  }
+
+  // "EFECTIVO:USD" es efectivo en divisa: el monto actual se pasa a la divisa a la tasa del día
+  const changeMethod = (line: TenderLine, value: string) => {
+    const [method, currency] = value.split(':')
+    const rate = currency ? Number(exchangeRates.find((r) => r.currency === currency)?.rate) || 0 : 0
+    const reset = { reference: undefined, giftCardBalance: undefined, currency: undefined, foreignAmount: undefined, exchangeRate: undefined }
+    if (!rate) {
+      updateLine(line.id, { ...reset, method })
+      return
+    }
+    updateLine(line.id, setTenderAmount({ ...line, ...reset, method, currency, exchangeRate: rate }, line.amount))
+  }
+
+  const addLine = () => {
+    // Nueva línea con el saldo pendiente; si ya hay efectivo se sugiere otro medio
+    const hasCash = lines.some((l) => l.method === 'EFECTIVO')
+    setLines([...lines, createTenderLine(hasCash ? 'TRANSFERENCIA' : 'EFECTIVO', Math.round(summary.remaining))])
+  }
+
+  // Consulta el saldo y ajusta el monto a lo que la tarjeta alcanza a cubrir
+  const checkGiftCard = async (line: TenderLine) => {
+    const code = normalizeGiftCardCode(line.reference || '')
+    if (!code) return
+    setCheckingId(line.id)
+    try {
+      const card = await giftCardService.getByCode(code) as GiftCard
+      const error = getGiftCardRedeemError(card)
+      if (error) {
+        toast.error(error)
+        updateLine(line.id, { reference: code, giftCardBalance: undefined })
+        return
+      }
+      const balance = Number(card.balance) || 0
+      const others = lines.filter((l) => l.id !== line.id).reduce((acc, l) => acc + (l.amount || 0), 0)
+      const amount = Math.min(balance, Math.max(0, Math.round(total - others)))
+      updateLine(line.id, { reference: code, giftCardBalance: balance, amount })
+    } catch (error: any) {
+      toast.error(error.response?.status === 404 ? t('tender.giftCardNotFound', { code }) : error.response?.data?.message || t('tender.giftCardError'))
+    } finally {
+      setCheckingId(null)
+    }
+  }
+
+  const removeLine = (id: string) => {
+    if (lines.length <= 1) return
+    setLines(lines.filter((l) => l.id !== id))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">{t('tender.payments')}</label>
+        <button
+          type="button"
+          onClick={addLine}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors"
+        >
+          <Plus size={14} />
+          {t('tender.addPayment')}
+        </button>
+      </div>
+
+      {exchangeRates.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {exchangeRates.map((r) => (
+            <span key={r.currency} className="px-2 py-1 rounded-lg bg-green-50 text-xs text-green-700">
+              {t('tender.totalAtRate', { amount: formatForeignCurrency(toForeignAmount(total, Number(r.rate)), r.currency), rate: formatCurrency(Number(r.rate)) })}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {lines.map((line) => (
+        <div key={line.id} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <select
+              value={line.currency ? `${line.method}:${line.currency}` : line.method}
+              onChange={(e) => changeMethod(line, e.target.value)}
+              className="input-field py-2 text-sm flex-1 min-w-0"
+            >
+              {methods.map((m) => (
+                <option key={m.value} value={m.value}>{m.label}</option>
+              ))}
+            </select>
+            {line.currency ? (
+              <input
+                type="number"
+                value={line.foreignAmount || ''}
+                onChange={(e) => {
+                  const foreignAmount = Math.max(0, parseFloat(e.target.value) || 0)
+                  updateLine(line.id, { foreignAmount, amount: toBaseAmount(foreignAmount, line.exchangeRate || 0) })
+                }}
+                className="input-field py-2 text-sm w-32"
+                min="0"
+                step="0.01"
+                placeholder={line.currency}
+              />
+            ) : (
+              <input
+                type="number"
+                value={line.amount || ''}
+                onChange={(e) => updateLine(line.id, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="input-field py-2 text-sm w-32"
+                min="0"
+                placeholder="$0"
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => removeLine(line.id)}
+              disabled={lines.length <= 1}
+              className="w-9 h-9 flex-shrink-0 rounded-lg bg-red-50 text-red-500 flex items-center justify-center hover:bg-red-100 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          {line.currency && (
+            <div className="flex items-center gap-2 pl-1 text-xs text-gray-500">
+              <Banknote size={16} className="text-green-600 flex-shrink-0" />
+              <span>
+                {formatForeignCurrency(line.foreignAmount || 0, line.currency)} = <span className="font-medium text-gray-700">{formatCurrency(line.amount)}</span>
+                {' '}· {t('tender.rate', { rate: formatCurrency(line.exchangeRate || 0) })}
+              </span>
+            </div>
+          )}
+          {line.method === GIFT_CARD_PAYMENT_METHOD.value && (
+            <div className="flex items-center gap-2 pl-1">
+              <Gift size={16} className="text-pink-500 flex-shrink-0" />
+              <input
+                type="text"
+                value={line.reference || ''}
+                onChange={(e) => updateLine(line.id, { reference: e.target.value.toUpperCase(), giftCardBalance: undefined })}
+                onKeyDown={(e) => e.key === 'Enter' && checkGiftCard(line)}
+                className="input-field py-1.5 text-sm font-mono flex-1 min-w-0"
+                placeholder={t('tender.giftCardPlaceholder')}
+              />
+              <button
+                type="button"
+                onClick={() => checkGiftCard(line)}
+                disabled={!line.reference?.trim() || checkingId === line.id}
+                className="px-3 py-1.5 text-xs font-medium text-pink-700 bg-pink-50 rounded-lg hover:bg-pink-100 disabled:opacity-50"
+              >
+                {checkingId === line.id ? <Loader2 size={14} className="animate-spin" /> : t('tender.check')}
+              </button>
+              {line.giftCardBalance != null && (
+                <span className={`text-xs whitespace-nowrap ${line.amount > line.giftCardBalance ? 'text-red-500 font-medium' : 'text-gray-500'}`}>
+                  {t('tender.balance', { amount: formatCurrency(line.giftCardBalance) })}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="pt-2 space-y-1">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-500">{t('tender.paid')}</span>
+          <span className="font-medium">{formatCurrency(summary.paid)}</span>
+        </div>
+        {summary.remaining > 0 && (
+          <div className="flex justify-between text-sm font-semibold text-amber-600">
+            <span>{t('tender.remaining')}</span>
+            <span>{formatCurrency(summary.remaining)}</span>
+          </div>
+        )}
+        {allowCredit && creditAmount > 0 && (
+          <div className={`flex justify-between text-xs ${creditAmount > creditAvailable! ? 'text-red-500 font-medium' : 'text-gray-500'}`}>
+            <span>{t('tender.creditAvailable')}</span>
+            <span>{formatCurrency(creditAvailable!)}</span>
+          </div>
+        )}
+        {summary.giftCardPending && (
+          <p className="text-xs text-red-500">{t('tender.giftCardPending')}</p>
+        )}
+        {summary.nonCashExceeds && (
+          <p className="text-xs text-red-500">{t('tender.nonCashExceeds')}</p>
+        )}
+        {summary.change > 0 && (
+          <div className="flex justify-between text-lg font-bold text-green-600">
+            <span>{lines.some((l) => l.currency) ? t('tender.changeLocal') : t('tender.change')}</span>
+            <span>{formatCurrency(summary.change)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TenderEditor
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react'
+import { Coins, X } from 'lucide-react'
+import { userService } from '@/core/api/userService'
+import { User } from '@/types'
+import { TenderLine } from '@/shared/utils/payments'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { TipInput, TipStaff, calculateTip, splitTip } from '@/shared/utils/tips'
+
+interface TipEditorProps {
+  tip: TipInput
+  onChange: (tip: TipInput) => void
+  /** Total de la cuenta sin la propina */
+  billTotal: number
+  tenders: TenderLine[]
+  suggestedPercents: number[]
+  formatCurrency: (value: number) => string
+}
+
+const TipEditor = ({ tip, onChange, billTotal, tenders, suggestedPercents, formatCurrency }: TipEditorProps) => {
+  const { t } = useTranslation()
+  const [users, setUsers] = useState<TipStaff[]>([])
+  const tipAmount = calculateTip(tip, billTotal, tenders)
+  const shares = splitTip(tipAmount, tip.staff)
+
+  useEffect(() => {
+    // Sin permiso para listar usuarios solo se ofrece el personal asignado por defecto
+    userService.getAll()
+      .then((res) => setUsers((res as User[]).filter((u) => u.isActive).map((u) => ({ userId: u.id, userName: u.fullName }))))
+      .catch(() => setUsers([]))
+  }, [])
+
+  const available = users.filter((u) => !tip.staff.some((s) => s.userId === u.userId))
+  const cardOnly = tip.mode === 'TARJETA'
+  const isPercent = tip.mode === 'PORCENTAJE' || tip.mode === 'TARJETA'
+
+  const selectPercent = (percent: number) => {
+    onChange({ ...tip, mode: cardOnly ? 'TARJETA' : 'PORCENTAJE', percent })
+  }
+
+  const addStaff = (userId: number) => {
+    const member = users.find((u) => u.userId === userId)
+    if (member) onChange({ ...tip, staff: [...tip.staff, member] })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1 text-sm font-medium text-gray-700">
+          <Coins size={14} className="text-amber-600" />
+          {t('tip.title')}
+        </span>
+        <span className={`text-sm font-medium ${tipAmount > 0 ? 'text-amber-600' : 'text-gray-400'}`}>
+          {tipAmount > 0 ? `+${formatCurrency(tipAmount)}` : formatCurrency(0)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        <button
+          type="button"
+          onClick={() => onChange({ ...tip, mode: 'NINGUNA' })}
+          className={`px-2.5 py-1 text-xs font-medium rounded-lg ${tip.mode === 'NINGUNA' ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+        >
+          {t('tip.none')}
+        </button>
+        {suggestedPercents.map((percent) => (
+          <button
+            key={percent}
+            type="button"
+            onClick={() => selectPercent(percent)}
+            className={`px-2.5 py-1 text-xs font-medium rounded-lg ${isPercent && tip.percent === percent ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'}`}
+          >
+            {percent}%
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...tip, mode: 'VALOR', amount: tip.amount || tipAmount })}
+          className={`px-2.5 py-1 text-xs font-medium rounded-lg ${tip.mode === 'VALOR' ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'}`}
+        >
+          {t('tip.other')}
+        </button>
+      </div>
+
+      {tip.mode === 'VALOR' && (
+        <input
+          type="number"
+          value={tip.amount || ''}
+          onChange={(e) => onChange({ ...tip, amount: Math.max(0, parseInt(e.target.value) || 0) })}
+          className="w-full text-sm px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+          min="0"
+          step="1000"
+          placeholder={t('tip.amountPlaceholder')}
+        />
+      )}
+
+      {isPercent && (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={cardOnly}
+            onChange={(e) => onChange({ ...tip, mode: e.target.checked ? 'TARJETA' : 'PORCENTAJE' })}
+            className="w-4 h-4 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+          />
+          <span className="text-xs text-gray-600">{t('tip.cardOnly')}</span>
+        </label>
+      )}
+
+      {tipAmount > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {tip.staff.map((s) => (
+            <span key={s.userId} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-amber-50 text-amber-700 rounded-full text-xs">
+              {s.userName}
+              {shares.length > 1 && ` · ${formatCurrency(shares.find((sh) => sh.userId === s.userId)?.amount || 0)}`}
+              <button
+                type="button"
+                onClick={() => onChange({ ...tip, staff: tip.staff.filter((m) => m.userId !== s.userId) })}
+                disabled={tip.staff.length <= 1}
+                className="p-0.5 rounded-full hover:bg-amber-100 disabled:opacity-30"
+                title={t('tip.removeStaff')}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          {available.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => addStaff(Number(e.target.value))}
+              className="text-xs px-2 py-0.5 border border-gray-200 rounded-lg text-gray-600"
+            >
+              <option value="">{t('tip.splitWith')}</option>
+              {available.map((u) => (
+                <option key={u.userId} value={u.userId}>{u.userName}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TipEditor
@@ -1,9 +1,11 @@
 import { useDispatch, useSelector } from 'react-redux'
 import { useNavigate } from 'react-router-dom'
-import { Menu, Bell, LogOut, User, ChevronDown, Check, AlertTriangle, Info, AlertCircle, XCircle } from 'lucide-react'
+import { Menu, Bell, LogOut, User, ChevronDown, Check, AlertTriangle, Info, AlertCircle, XCircle, CloudOff, RefreshCw, Languages } from 'lucide-react'
 import { useState, useRef, useEffect, useCallback } from 'react'
 import { RootState, AppDispatch } from '@/app/store'
-import { logout } from '@/modules/auth/store/authSlice'
+import { logout, setLanguage } from '@/modules/auth/store/authSlice'
+import { useTranslation } from '@/core/hooks/useTranslation'
+import { LANGUAGES, t } from '@/core/i18n'
 import { notificationService } from '@/core/api/notificationService'
 import { Notification } from '@/types'
 
@@ -21,17 +23,19 @@ const SEVERITY_CONFIG: Record<string, { icon: typeof Info; color: string; bg: st
 const timeAgo = (dateStr: string) => {
   const diff = Date.now() - new Date(dateStr).getTime()
   const minutes = Math.floor(diff / 60000)
-  if (minutes < 1) return 'Ahora'
-  if (minutes < 60) return `Hace ${minutes}m`
+  if (minutes < 1) return t('header.now')
+  if (minutes < 60) return t('header.minutesAgo', { count: minutes })
   const hours = Math.floor(minutes / 60)
-  if (hours < 24) return `Hace ${hours}h`
-  return `Hace ${Math.floor(hours / 24)}d`
+  if (hours < 24) return t('header.hoursAgo', { count: hours })
+  return t('header.daysAgo', { count: Math.floor(hours / 24) })
 }
 
 const Header = ({ onMenuClick }: HeaderProps) => {
   const dispatch = useDispatch<AppDispatch>()
   const navigate = useNavigate()
   const { user } = useSelector((state: RootState) => state.auth)
+  const { language } = useTranslation()
+  const { sales: offlineSales, isOnline, isSyncing } = useSelector((state: RootState) => state.offline)
   const [dropdownOpen, setDropdownOpen] = useState(false)
   const [notifOpen, setNotifOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
@@ -133,11 +137,28 @@ const Header = ({ onMenuClick }: HeaderProps) => {
           <Menu className="w-5 h-5" />
         </button>
         <h1 className="text-sm sm:text-lg font-semibold text-gray-800 truncate">
-          Sistema de Punto de Venta
+          {t('header.title')}
         </h1>
       </div>
 
       <div className="flex items-center gap-4">
+        {/* Ventas offline pendientes de sincronizar */}
+        {(offlineSales.length > 0 || !isOnline) && (
+          <button
+            onClick={() => navigate('/offline-sales')}
+            title={isOnline ? t('header.offlinePendingHint') : t('header.offlineHint')}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-xs font-medium transition-colors ${
+              offlineSales.some((s) => s.status === 'FALLIDA')
+                ? 'bg-red-50 text-red-600 hover:bg-red-100'
+                : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+            }`}
+          >
+            {isSyncing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <CloudOff className="w-4 h-4" />}
+            <span className="hidden sm:inline">{isOnline ? t('header.offlinePending') : t('header.offline')}</span>
+            {offlineSales.length > 0 && <span className="font-bold">{offlineSales.length}</span>}
+          </button>
+        )}
+
         {/* Notifications */}
         <div className="relative" ref={notifRef}>
           <button
@@ -155,26 +176,26 @@ const Header = ({ onMenuClick }: HeaderProps) => {
           {notifOpen && (
             <div className="absolute right-0 sm:right-0 top-full mt-2 w-[calc(100vw-1.5rem)] sm:w-80 max-w-sm bg-white rounded-xl shadow-hover border border-primary-100 animate-fade-in overflow-hidden -mr-2 sm:mr-0">
               <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
-                <h3 className="font-semibold text-gray-800 text-sm">Notificaciones</h3>
+                <h3 className="font-semibold text-gray-800 text-sm">{t('header.notifications')}</h3>
                 {notifications.length > 0 && (
                   <button
                     onClick={handleMarkAllRead}
                     className="text-xs text-primary-600 hover:text-primary-700 font-medium flex items-center gap-1"
                   >
                     <Check size={12} />
-                    Marcar todas
+                    {t('header.markAllRead')}
                   </button>
                 )}
               </div>
               <div className="max-h-80 overflow-y-auto">
                 {loadingNotifs ? (
                   <div className="flex items-center justify-center py-8 text-gray-400 text-sm">
-                    Cargando...
+                    {t('common.loading')}
                   </div>
                 ) : notifications.length === 0 ? (
                   <div className="flex flex-col items-center justify-center py-8 text-gray-400">
                     <Bell size={24} className="mb-2 opacity-30" />
-                    <p className="text-sm">Sin notificaciones</p>
+                    <p className="text-sm">{t('header.noNotifications')}</p>
                   </div>
                 ) : (
                   notifications.map(notif => {
@@ -213,8 +234,8 @@ const Header = ({ onMenuClick }: HeaderProps) => {
               {user?.fullName?.charAt(0) || 'U'}
             </div>
             <div className="hidden md:block text-left">
-              <p className="text-sm font-medium text-gray-800">{user?.fullName || 'Usuario'}</p>
-              <p className="text-xs text-gray-500">{user?.role || 'Rol'}</p>
+              <p className="text-sm font-medium text-gray-800">{user?.fullName || t('common.user')}</p>
+              <p className="text-xs text-gray-500">{user?.role || t('common.role')}</p>
             </div>
             <ChevronDown className={`w-4 h-4 text-gray-500 transition-transform ${dropdownOpen ? 'rotate-180' : ''}`} />
           </button>
@@ -233,14 +254,30 @@ const Header = ({ onMenuClick }: HeaderProps) => {
                 className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-600 hover:bg-primary-50 transition-colors"
               >
                 <User className="w-4 h-4" />
-                Mi Perfil
+                {t('header.profile')}
               </button>
+              <div className="flex items-center gap-3 px-4 py-2.5 text-sm text-gray-600">
+                <Languages className="w-4 h-4" />
+                <div className="flex gap-1">
+                  {LANGUAGES.map((l) => (
+                    <button
+                      key={l.value}
+                      onClick={() => dispatch(setLanguage(l.value))}
+                      className={`px-2 py-0.5 rounded-lg text-xs font-medium transition-colors ${
+                        language === l.value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-primary-50'
+                      }`}
+                    >
+                      {l.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <button
                 onClick={handleLogout}
                 className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-red-600 hover:bg-red-50 transition-colors"
               >
                 <LogOut className="w-4 h-4" />
-                Cerrar Sesión
+                {t('header.logout')}
               </button>
             </div>
           )}
@@ -2,11 +2,14 @@ import { useState, useEffect } from 'react'
 import { Outlet, useLocation } from 'react-router-dom'
 import Sidebar from './Sidebar'
 import Header from './Header'
+import CommandPalette from '@/shared/components/CommandPalette'
+import { useOfflineSync } from '@/core/hooks/useOfflineSync'
 
 const MainLayout = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [isMobile, setIsMobile] = useState(false)
   const location = useLocation()
+  useOfflineSync()
 
   // Detect mobile vs desktop
   useEffect(() => {
@@ -52,6 +55,8 @@ const MainLayout = () => {
           <Outlet />
         </main>
       </div>
+
+      <CommandPalette />
     </div>
   )
 }
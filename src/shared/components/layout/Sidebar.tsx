@@ -1,23 +1,10 @@
 import { NavLink } from 'react-router-dom'
 import { useSelector } from 'react-redux'
 import { RootState } from '@/app/store'
-import {
-  LayoutDashboard,
-  ShoppingCart,
-  Package,
-  FolderTree,
-  Warehouse,
-  FileText,
-  Users,
-  BarChart3,
-  Shield,
-  Settings,
-  ChevronLeft,
-  Store,
-  UtensilsCrossed,
-  ChefHat,
-  Tag,
-} from 'lucide-react'
+import { ChevronLeft, Store } from 'lucide-react'
+import { menuItems } from './menuItems'
+import { canAccess as canAccessPermissions } from '@/core/auth/permissions'
+import { useTranslation } from '@/core/hooks/useTranslation'
 
 interface SidebarProps {
   isOpen: boolean
@@ -26,50 +13,12 @@ interface SidebarProps {
   onClose?: () => void
 }
 
-const menuItems = [
-  { path: '/', icon: LayoutDashboard, label: 'Dashboard' },
-  { path: '/pos', icon: ShoppingCart, label: 'Punto de Venta', requiredPermissions: ['pos.sell'] },
-  { path: '/tables', icon: UtensilsCrossed, label: 'Mesas', requiredPermissions: ['tables.view'] },
-  { path: '/kitchen', icon: ChefHat, label: 'Cocina', requiredPermissions: ['kitchen.view'] },
-  { path: '/products', icon: Package, label: 'Productos', requiredPermissions: ['products.view'] },
-  { path: '/categories', icon: FolderTree, label: 'Categorías', requiredPermissions: ['categories.view'] },
-  { path: '/inventory', icon: Warehouse, label: 'Inventario', requiredPermissions: ['inventory.view'] },
-  { path: '/invoices', icon: FileText, label: 'Facturas', requiredPermissions: ['invoices.view'] },
-  { path: '/customers', icon: Users, label: 'Clientes', requiredPermissions: ['customers.view'] },
-  { path: '/reports', icon: BarChart3, label: 'Reportes', requiredPermissions: ['reports.view'] },
-  { path: '/promotions', icon: Tag, label: 'Promociones', requiredPermissions: ['promotions.manage'] },
-  { path: '/users', icon: Users, label: 'Usuarios', requiredPermissions: ['users.manage'] },
-  { path: '/roles', icon: Shield, label: 'Roles', requiredPermissions: ['users.manage'] },
-  { path: '/settings', icon: Settings, label: 'Configuración', requiredPermissions: ['settings.view'] },
-]
-
 const Sidebar = ({ isOpen, isMobile = false, onToggle, onClose }: SidebarProps) => {
   const { company } = useSelector((state: RootState) => state.settings)
   const { user } = useSelector((state: RootState) => state.auth)
+  const { t } = useTranslation()
 
-  const canAccess = (item: any) => {
-    if (!item.requiredPermissions || item.requiredPermissions.length === 0) return true
-    const roleName =
-      typeof (user as any)?.role === 'string' ? ((user as any)?.role as string) : ((user as any)?.role?.name as string)
-
-    if (roleName === 'ADMIN') return true
-
-    const permissions =
-      ((user as any)?.permissions as string[] | undefined) || ((user as any)?.role?.permissions as string[] | undefined) || []
-    
-    // Normalize permission format: convert dots to colons for compatibility with backend format
-    // Backend uses "users:read" but frontend might use "users.manage"
-    const normalizedPermissions = permissions.map(p => p.replace(/:/g, '.'))
-    
-    // Check if user has wildcard or specific permission
-    return item.requiredPermissions.some((required: string) => {
-      const module = required.split('.')[0]
-      return normalizedPermissions.includes(required) || 
-             normalizedPermissions.includes(`${module}:*`) ||
-             normalizedPermissions.includes(`${module}.*`) ||
-             normalizedPermissions.includes('*')
-    })
-  }
+  const canAccess = (item: { requiredPermissions?: string[] }) => canAccessPermissions(user, item.requiredPermissions)
 
   // On mobile: always show labels when open, slide from left
   const showLabels = isMobile ? isOpen : isOpen
@@ -131,7 +80,7 @@ const Sidebar = ({ isOpen, isMobile = false, onToggle, onClose }: SidebarProps)
                   }
                 >
                   <item.icon className="w-5 h-5 flex-shrink-0" />
-                  {showLabels && <span className="truncate">{item.label}</span>}
+                  {showLabels && <span className="truncate">{t(item.labelKey)}</span>}
                 </NavLink>
               </li>
             ))}
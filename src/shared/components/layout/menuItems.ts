@@ -0,0 +1,51 @@
+import {
+  LayoutDashboard,
+  ShoppingCart,
+  Package,
+  FolderTree,
+  Warehouse,
+  FileText,
+  Users,
+  BarChart3,
+  Shield,
+  Settings,
+  UtensilsCrossed,
+  ChefHat,
+  Tag,
+  Wallet,
+  Landmark,
+  Gift,
+  Tags,
+  type LucideIcon,
+} from 'lucide-react'
+import type { MessageKey } from '@/core/i18n'
+
+export interface MenuItem {
+  path: string
+  icon: LucideIcon
+  /** Se traduce al pintar el menú, para seguir el idioma del usuario */
+  labelKey: MessageKey
+  requiredPermissions?: string[]
+}
+
+/** Páginas del menú lateral; también las usa la paleta de comandos (Ctrl+K) */
+export const menuItems: MenuItem[] = [
+  { path: '/', icon: LayoutDashboard, labelKey: 'nav.dashboard' },
+  { path: '/pos', icon: ShoppingCart, labelKey: 'nav.pos', requiredPermissions: ['pos.sell'] },
+  { path: '/cash-register', icon: Landmark, labelKey: 'nav.cashRegister', requiredPermissions: ['pos.sell'] },
+  { path: '/tables', icon: UtensilsCrossed, labelKey: 'nav.tables', requiredPermissions: ['tables.view'] },
+  { path: '/kitchen', icon: ChefHat, labelKey: 'nav.kitchen', requiredPermissions: ['kitchen.view'] },
+  { path: '/products', icon: Package, labelKey: 'nav.products', requiredPermissions: ['products.view'] },
+  { path: '/categories', icon: FolderTree, labelKey: 'nav.categories', requiredPermissions: ['categories.view'] },
+  { path: '/price-lists', icon: Tags, labelKey: 'nav.priceLists', requiredPermissions: ['products.edit'] },
+  { path: '/inventory', icon: Warehouse, labelKey: 'nav.inventory', requiredPermissions: ['inventory.view'] },
+  { path: '/invoices', icon: FileText, labelKey: 'nav.invoices', requiredPermissions: ['invoices.view'] },
+  { path: '/customers', icon: Users, labelKey: 'nav.customers', requiredPermissions: ['customers.view'] },
+  { path: '/receivables', icon: Wallet, labelKey: 'nav.receivables', requiredPermissions: ['customers.view'] },
+  { path: '/reports', icon: BarChart3, labelKey: 'nav.reports', requiredPermissions: ['reports.view'] },
+  { path: '/gift-cards', icon: Gift, labelKey: 'nav.giftCards', requiredPermissions: ['giftcards.view'] },
+  { path: '/promotions', icon: Tag, labelKey: 'nav.promotions', requiredPermissions: ['promotions.manage'] },
+  { path: '/users', icon: Users, labelKey: 'nav.users', requiredPermissions: ['users.manage'] },
+  { path: '/roles', icon: Shield, labelKey: 'nav.roles', requiredPermissions: ['users.manage'] },
+  { path: '/settings', icon: Settings, labelKey: 'nav.settings', requiredPermissions: ['settings.view'] },
+]
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react'
+import { formatCurrency } from '@/shared/utils/format'
 
 interface MoneyInputProps {
   label?: string
@@ -11,14 +12,7 @@ interface MoneyInputProps {
   className?: string
 }
 
-const formatMoney = (num: number): string => {
-  return new Intl.NumberFormat('es-CO', {
-    style: 'currency',
-    currency: 'COP',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(num)
-}
+const formatMoney = (num: number): string => formatCurrency(num, undefined, 0)
 
 const parseMoneyString = (str: string): number => {
   const cleaned = str.replace(/[^0-9]/g, '')
@@ -0,0 +1,86 @@
+/**
+ * Utilidades para códigos de barras leídos por el escáner (lector tipo teclado).
+ * Incluye la decodificación de etiquetas de balanza EAN-13 con prefijo 2x,
+ * que traen el PLU del producto y el peso o el precio embebido.
+ */
+
+/**
+ * Formato de las etiquetas de balanza: 2 + tipo (1 dígito) + PLU (5) + valor (5) + dígito de control.
+ * Prefijos 20-24: el valor es el peso en gramos. Prefijos 25-29: el valor es el precio en pesos.
+ */
+export const SCALE_BARCODE_CONFIG = {
+  weightPrefixes: ['20', '21', '22', '23', '24'],
+  pricePrefixes: ['25', '26', '27', '28', '29'],
+  pluLength: 5,
+  /** Gramos -> kilogramos */
+  weightDivisor: 1000,
+}
+
+export interface ScaleBarcode {
+  plu: string
+  /** Peso en KG cuando la etiqueta trae peso */
+  weight?: number
+  /** Precio total cuando la etiqueta trae precio */
+  price?: number
+}
+
+export const isValidEan13 = (code: string) => {
+  if (!/^\d{13}$/.test(code)) return false
+  const digits = code.split('').map(Number)
+  const sum = digits.slice(0, 12).reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 1 : 3), 0)
+  return (10 - (sum % 10)) % 10 === digits[12]
+}
+
+/** Devuelve null si el código no es una etiqueta de balanza válida */
+export const parseScaleBarcode = (code: string): ScaleBarcode | null => {
+  if (!isValidEan13(code)) return null
+  const prefix = code.slice(0, 2)
+  const { weightPrefixes, pricePrefixes, pluLength, weightDivisor } = SCALE_BARCODE_CONFIG
+  const isWeight = weightPrefixes.includes(prefix)
+  const isPrice = pricePrefixes.includes(prefix)
+  if (!isWeight && !isPrice) return null
+
+  const plu = code.slice(2, 2 + pluLength)
+  const value = parseInt(code.slice(2 + pluLength, 12), 10)
+  if (!value) return null
+
+  return isWeight
+    ? { plu, weight: value / weightDivisor }
+    : { plu, price: value }
+}
+
+/** Compara un PLU con el código del producto ignorando ceros a la izquierda */
+export const matchesPlu = (productCode: string | undefined, plu: string) => {
+  if (!productCode) return false
+  const normalize = (v: string) => v.replace(/^0+/, '')
+  return productCode === plu || normalize(productCode) === normalize(plu)
+}
+
+let audioCtx: AudioContext | null = null
+
+/** Pitido corto de confirmación (agudo) o error (grave y doble) */
+export const playScanBeep = (success: boolean) => {
+  try {
+    const Ctx = window.AudioContext || (window as any).webkitAudioContext
+    if (!Ctx) return
+    audioCtx = audioCtx || new Ctx()
+    const ctx = audioCtx
+    const beep = (start: number, frequency: number, duration: number) => {
+      const osc = ctx.createOscillator()
+      const gain = ctx.createGain()
+      osc.type = success ? 'sine' : 'square'
+      osc.frequency.value = frequency
+      gain.gain.value = 0.1
+      osc.connect(gain)
+      gain.connect(ctx.destination)
+      osc.start(ctx.currentTime + start)
+      osc.stop(ctx.currentTime + start + duration)
+    }
+    if (success) {
+      beep(0, 1800, 0.08)
+    } else {
+      beep(0, 300, 0.15)
+      beep(0.2, 300, 0.15)
+    }
+  } catch { /* el audio no es crítico */ }
+}
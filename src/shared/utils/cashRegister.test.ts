@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import type { CashSession, CreditNote } from '@/types'
+import { summarizeCashSession } from './cashRegister'
+
+const session: CashSession = {
+  id: 1,
+  userId: 7,
+  terminalId: 'T1',
+  openingFloat: 100000,
+  status: 'CERRADA',
+  openedAt: '2026-10-19T08:00:00',
+  closedAt: '2026-10-19T16:00:00',
+  movements: [],
+}
+
+const refund = (overrides: Partial<CreditNote>): CreditNote => ({
+  id: 1,
+  creditNoteNumber: 'NC-1',
+  invoiceId: 1,
+  invoiceNumber: 'F-1',
+  reason: 'Devolución',
+  refundMethod: 'EFECTIVO',
+  subtotal: 10000,
+  taxAmount: 0,
+  total: 10000,
+  userId: 7,
+  details: [],
+  createdAt: '2026-10-19T12:00:00',
+  ...overrides,
+})
+
+describe('summarizeCashSession', () => {
+  it('resta los reembolsos en efectivo del cajero dentro del turno', () => {
+    const summary = summarizeCashSession(session, [], [refund({})])
+    expect(summary.cashRefunds).toBe(10000)
+    expect(summary.expectedCash).toBe(90000)
+  })
+
+  it('no cuenta reembolsos hechos después del cierre del turno', () => {
+    const summary = summarizeCashSession(session, [], [refund({ createdAt: '2026-10-19T17:30:00' })])
+    expect(summary.cashRefunds).toBe(0)
+    expect(summary.expectedCash).toBe(100000)
+  })
+
+  it('no cuenta reembolsos sin cajero', () => {
+    const summary = summarizeCashSession(session, [], [refund({ userId: undefined })])
+    expect(summary.cashRefunds).toBe(0)
+  })
+})
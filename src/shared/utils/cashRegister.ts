@@ -0,0 +1,153 @@
+/**
+ * Utilidades de turnos de caja: denominaciones para el arqueo, identificador de
+ * terminal y cálculo del efectivo esperado.
+ * Efectivo esperado = base + ventas en efectivo del turno + cargas de tarjetas de regalo en efectivo
+ * + ingresos − retiros − devoluciones en efectivo.
+ * Las propinas pagadas en efectivo ya vienen en los pagos de las facturas; las que se
+ * cobran con tarjeta y se entregan al personal salen como retiro "Pago de propinas".
+ * El efectivo en divisa se cuenta aparte, por moneda: al cajón en pesos solo llega el
+ * cambio que se entregó por él (con signo negativo).
+ */
+
+import type { CashMovementType, CashSession, CreditNote, GiftCardTransaction, Invoice } from '@/types'
+import { t } from '@/core/i18n'
+import { getInvoicePayments } from './payments'
+import { ForeignCashTotal, summarizeForeignCash } from './currency'
+
+const TERMINAL_KEY = 'pos_terminal_id'
+
+export const DENOMINATIONS: Array<{ key: string; value: number; label: string; kind: 'BILLETE' | 'MONEDA' }> = [
+  { key: 'b100000', value: 100000, label: '$100.000', kind: 'BILLETE' },
+  { key: 'b50000', value: 50000, label: '$50.000', kind: 'BILLETE' },
+  { key: 'b20000', value: 20000, label: '$20.000', kind: 'BILLETE' },
+  { key: 'b10000', value: 10000, label: '$10.000', kind: 'BILLETE' },
+  { key: 'b5000', value: 5000, label: '$5.000', kind: 'BILLETE' },
+  { key: 'b2000', value: 2000, label: '$2.000', kind: 'BILLETE' },
+  { key: 'b1000', value: 1000, label: '$1.000', kind: 'BILLETE' },
+  { key: 'm1000', value: 1000, label: '$1.000', kind: 'MONEDA' },
+  { key: 'm500', value: 500, label: '$500', kind: 'MONEDA' },
+  { key: 'm200', value: 200, label: '$200', kind: 'MONEDA' },
+  { key: 'm100', value: 100, label: '$100', kind: 'MONEDA' },
+  { key: 'm50', value: 50, label: '$50', kind: 'MONEDA' },
+]
+
+export type CashMovementReason = 'CAMBIO' | 'REPOSICION' | 'PROVEEDOR' | 'RETIRO_PARCIAL' | 'GASTOS' | 'PROPINAS' | 'OTRO'
+
+/** Motivos sugeridos; el movimiento guarda el texto en el idioma de quien lo registra */
+export const CASH_MOVEMENT_REASONS: Record<CashMovementType, CashMovementReason[]> = {
+  INGRESO: ['CAMBIO', 'REPOSICION', 'OTRO'],
+  RETIRO: ['PROVEEDOR', 'RETIRO_PARCIAL', 'GASTOS', 'PROPINAS', 'OTRO'],
+}
+
+export const getCashMovementReasonLabel = (reason: CashMovementReason) => t(`cash.reason.${reason}`)
+
+/** Identificador de la terminal (navegador); se genera una vez y se guarda en localStorage */
+export const getTerminalId = () => {
+  let id = localStorage.getItem(TERMINAL_KEY)
+  if (!id) {
+    id = `CAJA-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+    localStorage.setItem(TERMINAL_KEY, id)
+  }
+  return id
+}
+
+export const countDenominations = (counts: Record<string, number>) =>
+  DENOMINATIONS.reduce((acc, d) => acc + d.value * (Number(counts[d.key]) || 0), 0)
+
+export interface CashSessionSummary {
+  openingFloat: number
+  cashSales: number
+  salesCount: number
+  salesTotal: number
+  /** Total vendido por medio de pago (incluye la porción en efectivo) */
+  byMethod: Record<string, number>
+  cashIn: number
+  cashOut: number
+  cashRefunds: number
+  /** Efectivo recibido por venta o recarga de tarjetas de regalo (no es venta) */
+  giftCardCash: number
+  /** Propinas del turno: incluidas en `byMethod`, no en `salesTotal` */
+  tips: number
+  /** Divisas esperadas en el cajón; `byMethod.EFECTIVO` incluye lo que se aplicó de ellas a las ventas */
+  foreignCash: ForeignCashTotal[]
+  expectedCash: number
+}
+
+/** Ventas del turno: las marcadas con su id o, si el backend no lo guarda, las del cajero dentro del horario */
+export const getSessionInvoices = (session: CashSession, invoices: Invoice[]) => {
+  const from = new Date(session.openedAt).getTime()
+  const to = session.closedAt ? new Date(session.closedAt).getTime() : Date.now()
+  return invoices.filter((inv) => {
+    if (inv.status !== 'COMPLETADA') return false
+    if (inv.cashSessionId != null) return inv.cashSessionId === session.id
+    const at = new Date(inv.createdAt).getTime()
+    return inv.userId === session.userId && at >= from && at <= to
+  })
+}
+
+/** Cargas de tarjetas de regalo cobradas en el turno, con el mismo criterio que las facturas */
+export const getSessionGiftCardLoads = (session: CashSession, transactions: GiftCardTransaction[]) => {
+  const from = new Date(session.openedAt).getTime()
+  const to = session.closedAt ? new Date(session.closedAt).getTime() : Date.now()
+  return transactions.filter((tx) => {
+    if (tx.type !== 'EMISION' && tx.type !== 'RECARGA') return false
+    if (tx.cashSessionId != null) return tx.cashSessionId === session.id
+    const at = new Date(tx.createdAt).getTime()
+    return tx.userId === session.userId && at >= from && at <= to
+  })
+}
+
+/** Reembolsos en efectivo del cajero dentro del horario del turno, igual que las facturas */
+export const getSessionCashRefunds = (session: CashSession, creditNotes: CreditNote[]) => {
+  const from = new Date(session.openedAt).getTime()
+  const to = session.closedAt ? new Date(session.closedAt).getTime() : Date.now()
+  return creditNotes.filter((cn) => {
+    if (cn.refundMethod !== 'EFECTIVO') return false
+    const at = new Date(cn.createdAt).getTime()
+    return cn.userId === session.userId && at >= from && at <= to
+  })
+}
+
+export const summarizeCashSession = (
+  session: CashSession,
+  invoices: Invoice[],
+  creditNotes: CreditNote[] = [],
+  giftCardTransactions: GiftCardTransaction[] = [],
+): CashSessionSummary => {
+  const sessionInvoices = getSessionInvoices(session, invoices)
+  const byMethod: Record<string, number> = {}
+  const payments = sessionInvoices.flatMap((inv) => getInvoicePayments(inv))
+  payments.forEach((p) => {
+    byMethod[p.paymentMethod] = (byMethod[p.paymentMethod] || 0) + (Number(p.amount) || 0)
+  })
+  const foreignCash = summarizeForeignCash(payments)
+
+  const cashRefunds = getSessionCashRefunds(session, creditNotes)
+    .reduce((acc, cn) => acc + (Number(cn.total) || 0), 0)
+
+  const movements = session.movements || []
+  const cashIn = movements.filter((m) => m.type === 'INGRESO').reduce((acc, m) => acc + (Number(m.amount) || 0), 0)
+  const cashOut = movements.filter((m) => m.type === 'RETIRO').reduce((acc, m) => acc + (Number(m.amount) || 0), 0)
+  // Lo recibido en divisa no está en pesos en el cajón: se resta su valor completo a la tasa del día
+  const cashSales = (byMethod.EFECTIVO || 0) - foreignCash.reduce((acc, f) => acc + f.baseAmount, 0)
+  const openingFloat = Number(session.openingFloat) || 0
+  const giftCardCash = getSessionGiftCardLoads(session, giftCardTransactions)
+    .flatMap((tx) => tx.payments || [])
+    .filter((p) => p.paymentMethod === 'EFECTIVO')
+    .reduce((acc, p) => acc + (Number(p.amount) || 0), 0)
+
+  return {
+    openingFloat,
+    cashSales,
+    salesCount: sessionInvoices.length,
+    salesTotal: sessionInvoices.reduce((acc, inv) => acc + (Number(inv.total) || 0), 0),
+    byMethod,
+    cashIn,
+    cashOut,
+    cashRefunds,
+    giftCardCash,
+    tips: sessionInvoices.reduce((acc, inv) => acc + (Number(inv.tipAmount) || 0), 0),
+    foreignCash,
+    expectedCash: openingFloat + cashSales + giftCardCash + cashIn - cashOut - cashRefunds,
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Códigos aleatorios para tarjetas de regalo y cupones.
+ */
+
+// Sin 0/O ni 1/I para que el código se pueda dictar y digitar sin confusión
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+/** `length` caracteres aleatorios del alfabeto sin ambigüedades */
+export const generateRandomCode = (length: number) => {
+  const random = new Uint32Array(length)
+  crypto.getRandomValues(random)
+  return Array.from(random, (n) => CODE_ALPHABET[n % CODE_ALPHABET.length]).join('')
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Coupon } from '@/types'
+import { calculateCouponDiscount, generateCouponCodes, getCouponError } from './coupons'
+
+const coupon = (overrides: Partial<Coupon>): Coupon => ({
+  id: 1,
+  code: 'BIENVENIDA',
+  discountType: 'PORCENTAJE',
+  discountValue: 10,
+  usedCount: 0,
+  isActive: true,
+  createdAt: '2026-10-01T00:00:00',
+  updatedAt: '2026-10-01T00:00:00',
+  ...overrides,
+})
+
+describe('calculateCouponDiscount', () => {
+  it('limita el porcentaje al tope del cupón', () => {
+    expect(calculateCouponDiscount(coupon({ discountValue: 20 }), 50000)).toBe(10000)
+    expect(calculateCouponDiscount(coupon({ discountValue: 20, maxDiscountAmount: 8000 }), 50000)).toBe(8000)
+  })
+
+  it('nunca descuenta más que la base', () => {
+    expect(calculateCouponDiscount(coupon({ discountType: 'VALOR', discountValue: 30000 }), 25000)).toBe(25000)
+    expect(calculateCouponDiscount(coupon({ discountType: 'VALOR', discountValue: 30000 }), 0)).toBe(0)
+  })
+})
+
+describe('getCouponError', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2026, 9, 19, 12, 0))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('acepta un cupón vigente', () => {
+    expect(getCouponError(coupon({ validFrom: '2026-10-19', validUntil: '2026-10-19T00:00:00' }), 10000, null)).toBeNull()
+  })
+
+  it('rechaza cupones vencidos, agotados o por debajo de la compra mínima', () => {
+    expect(getCouponError(coupon({ validUntil: '2026-10-18' }), 10000, null)).not.toBeNull()
+    expect(getCouponError(coupon({ validFrom: '2026-10-20' }), 10000, null)).not.toBeNull()
+    expect(getCouponError(coupon({ maxUses: 1, usedCount: 1 }), 10000, null)).not.toBeNull()
+    expect(getCouponError(coupon({ minPurchaseAmount: 20000 }), 10000, null)).not.toBeNull()
+  })
+
+  it('pide cliente cuando el cupón limita los usos por cliente', () => {
+    expect(getCouponError(coupon({ maxUsesPerCustomer: 1 }), 10000, null)).not.toBeNull()
+    expect(getCouponError(coupon({ maxUsesPerCustomer: 1 }), 10000, 3)).toBeNull()
+    expect(getCouponError(coupon({ maxUsesPerCustomer: 1, customerUseCount: 1 }), 10000, 3)).not.toBeNull()
+  })
+})
+
+describe('generateCouponCodes', () => {
+  it('genera códigos únicos con el prefijo y distintos de los existentes', () => {
+    const codes = generateCouponCodes(' navidad ', 20, ['NAVIDAD-AAAAAA'])
+    expect(new Set(codes).size).toBe(20)
+    codes.forEach((code) => expect(code).toMatch(/^NAVIDAD-[A-Z2-9]{6}$/))
+  })
+})
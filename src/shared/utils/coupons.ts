@@ -0,0 +1,64 @@
+/**
+ * Cupones: códigos de descuento de campañas de mercadeo. El descuento se aplica sobre
+ * el valor de los productos (después de los demás descuentos, sin servicio ni domicilio)
+ * y reduce la base de los impuestos igual que la redención de puntos.
+ */
+
+import type { Coupon } from '@/types'
+import { t } from '@/core/i18n'
+import { toLocalDateStr } from '@/shared/components/DateRangeFilter'
+import { generateRandomCode } from './codes'
+import { formatCurrency } from './format'
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase()
+
+/** `quantity` códigos únicos tipo PREFIJO-7KQ2M9, distintos de los `existing` */
+export const generateCouponCodes = (prefix: string, quantity: number, existing: string[] = [], length = 6) => {
+  const base = normalizeCouponCode(prefix).replace(/[^A-Z0-9]/g, '')
+  const taken = new Set(existing.map(normalizeCouponCode))
+  const codes: string[] = []
+  while (codes.length < quantity) {
+    const chars = generateRandomCode(length)
+    const code = base ? `${base}-${chars}` : chars
+    if (taken.has(code)) continue
+    taken.add(code)
+    codes.push(code)
+  }
+  return codes
+}
+
+export const formatCouponValue = (coupon: Pick<Coupon, 'discountType' | 'discountValue' | 'maxDiscountAmount'>) =>
+  coupon.discountType === 'PORCENTAJE'
+    ? coupon.maxDiscountAmount
+      ? t('coupon.percentMax', { percent: coupon.discountValue, amount: formatCurrency(coupon.maxDiscountAmount) })
+      : `${coupon.discountValue}%`
+    : formatCurrency(coupon.discountValue)
+
+/** Mensaje de por qué no se puede redimir el cupón en esta venta, o null si se puede */
+export const getCouponError = (coupon: Coupon, purchaseAmount: number, customerId: number | null) => {
+  const { code } = coupon
+  if (!coupon.isActive) return t('coupon.inactive', { code })
+  const date = toLocalDateStr(new Date())
+  if (coupon.validFrom && date < coupon.validFrom.split('T')[0]) return t('coupon.notYetValid', { code, date: coupon.validFrom.split('T')[0] })
+  if (coupon.validUntil && date > coupon.validUntil.split('T')[0]) return t('coupon.expired', { code, date: coupon.validUntil.split('T')[0] })
+  if (coupon.maxUses && coupon.usedCount >= coupon.maxUses) {
+    return coupon.maxUses === 1 ? t('coupon.used', { code }) : t('coupon.exhausted', { code, uses: coupon.maxUses })
+  }
+  if (coupon.maxUsesPerCustomer) {
+    if (!customerId) return t('coupon.customerRequired')
+    if ((coupon.customerUseCount || 0) >= coupon.maxUsesPerCustomer) return t('coupon.customerLimit')
+  }
+  if (coupon.minPurchaseAmount && purchaseAmount < coupon.minPurchaseAmount) {
+    return t('coupon.minPurchase', { amount: formatCurrency(coupon.minPurchaseAmount) })
+  }
+  return null
+}
+
+/** Descuento del cupón sobre `base`; nunca la supera */
+export const calculateCouponDiscount = (coupon: Coupon, base: number) => {
+  if (base <= 0) return 0
+  const amount = coupon.discountType === 'PORCENTAJE'
+    ? Math.min((base * coupon.discountValue) / 100, coupon.maxDiscountAmount || Infinity)
+    : coupon.discountValue
+  return Math.round(Math.min(base, Math.max(0, amount)))
+}
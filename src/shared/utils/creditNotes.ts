@@ -0,0 +1,34 @@
+/**
+ * Utilidades para devoluciones parciales (notas crédito) sobre facturas completadas.
+ */
+
+import type { CreditNote, Invoice, InvoiceDetail } from '@/types'
+
+/** Cantidad ya devuelta por cada línea de la factura (clave: id del detalle) */
+export const getReturnedQuantities = (creditNotes?: CreditNote[] | null) => {
+  const returned: Record<number, number> = {}
+  for (const note of creditNotes || []) {
+    for (const d of note.details || []) {
+      returned[d.invoiceDetailId] = (returned[d.invoiceDetailId] || 0) + Number(d.quantity)
+    }
+  }
+  return returned
+}
+
+export const getCreditNotesTotal = (creditNotes?: CreditNote[] | null) =>
+  (creditNotes || []).reduce((acc, n) => acc + (Number(n.total) || 0), 0)
+
+/**
+ * Valor estimado a reembolsar por `quantity` unidades de una línea.
+ * Reparte el total de la factura (sin servicio ni domicilio) según el peso de la línea,
+ * de modo que incluye descuentos e impuestos. El valor definitivo lo calcula el backend.
+ */
+export const estimateReturnAmount = (invoice: Invoice, detail: InvoiceDetail, quantity: number) => {
+  const details = invoice.details || []
+  const linesTotal = details.reduce((acc, d) => acc + (Number(d.subtotal) || 0), 0)
+  if (linesTotal <= 0 || detail.quantity <= 0) return 0
+  const extras = (Number((invoice as any).serviceChargeAmount) || 0) + (Number((invoice as any).deliveryChargeAmount) || 0)
+  const goodsTotal = Number(invoice.total) - extras
+  const lineShare = (Number(detail.subtotal) || 0) / linesTotal
+  return Math.round(goodsTotal * lineShare * (quantity / detail.quantity))
+}
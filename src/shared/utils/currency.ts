@@ -0,0 +1,81 @@
+/**
+ * Efectivo en moneda extranjera (p. ej. dólares de turistas). Un supervisor fija cada día
+ * la tasa de cambio; al cobrar, lo recibido en divisa se convierte a moneda base y el
+ * cambio siempre se entrega en moneda base. El cajón lleva la divisa por separado.
+ */
+
+import type { ExchangeRate } from '@/types'
+import { t } from '@/core/i18n'
+import { toLocalDateStr } from '@/shared/components/DateRangeFilter'
+import { formatCurrency } from './format'
+import type { PaymentLine, TenderLine } from './payments'
+
+export const FOREIGN_CURRENCIES = [{ value: 'USD' }, { value: 'EUR' }] as const
+
+/** "USD - Dólar Americano" */
+export const getForeignCurrencyLabel = (currency: (typeof FOREIGN_CURRENCIES)[number]['value']) =>
+  `${currency} - ${t(`currency.name.${currency}`)}`
+
+export interface ForeignCashTotal {
+  currency: string
+  /** Divisa recibida */
+  amount: number
+  /** Valor en moneda base a la tasa con que se recibió */
+  baseAmount: number
+}
+
+/** Divisas aceptadas: viene del backend como JSON; nunca incluye la moneda base */
+export const normalizeForeignCurrencies = (value: unknown, baseCurrency: string): string[] => {
+  let list: unknown = value
+  if (typeof value === 'string') {
+    try { list = JSON.parse(value) } catch { list = [] }
+  }
+  if (!Array.isArray(list)) return []
+  const known: string[] = FOREIGN_CURRENCIES.map((c) => c.value)
+  return Array.from(new Set(list.filter((c): c is string => typeof c === 'string' && known.includes(c) && c !== baseCurrency)))
+}
+
+export const formatForeignCurrency = (value: number, currency: string) => formatCurrency(value, currency, 2)
+
+/** Solo sirven para cobrar las tasas fijadas hoy; si la terminal sigue abierta tras la medianoche, se exige la nueva */
+export const getTodayRates = (rates: ExchangeRate[], currencies: string[], now = new Date()) =>
+  rates.filter((r) => r.date?.slice(0, 10) === toLocalDateStr(now) && Number(r.rate) > 0 && currencies.includes(r.currency))
+
+/** Valor en moneda base de un monto en divisa, redondeado al peso */
+export const toBaseAmount = (foreignAmount: number, rate: number) => Math.round((foreignAmount || 0) * (rate || 0))
+
+/** Equivalente en divisa de un valor en moneda base, redondeado al centavo hacia arriba para que alcance */
+export const toForeignAmount = (amount: number, rate: number) =>
+  rate > 0 ? Math.ceil((amount * 100) / rate - 1e-9) / 100 : 0
+
+/** Detalle del efectivo en divisa para tiquetes y facturas: "US$50,00 a $4.000" */
+export const describeForeignPayment = (payment: PaymentLine, formatBase: (value: number) => string) =>
+  payment.currency
+    ? t('payment.foreignDetail', {
+        amount: formatForeignCurrency(Number(payment.foreignAmount) || 0, payment.currency),
+        rate: formatBase(Number(payment.exchangeRate) || 0),
+      })
+    : ''
+
+/** Cambia el monto de una línea de pago; en divisa se lleva al centavo y se recalcula su valor en moneda base */
+export const setTenderAmount = (line: TenderLine, amount: number): TenderLine => {
+  if (!line.currency || !line.exchangeRate) return { ...line, amount }
+  const foreignAmount = toForeignAmount(amount, line.exchangeRate)
+  return { ...line, foreignAmount, amount: toBaseAmount(foreignAmount, line.exchangeRate) }
+}
+
+/** Divisas recibidas en un conjunto de pagos, por moneda */
+export const summarizeForeignCash = (payments: PaymentLine[]): ForeignCashTotal[] => {
+  const byCurrency = new Map<string, ForeignCashTotal>()
+  payments.forEach((p) => {
+    const foreignAmount = Number(p.foreignAmount) || 0
+    if (!p.currency || foreignAmount <= 0) return
+    const entry = byCurrency.get(p.currency) || { currency: p.currency, amount: 0, baseAmount: 0 }
+    byCurrency.set(p.currency, {
+      currency: p.currency,
+      amount: Math.round((entry.amount + foreignAmount) * 100) / 100,
+      baseAmount: entry.baseAmount + toBaseAmount(foreignAmount, Number(p.exchangeRate) || 0),
+    })
+  })
+  return Array.from(byCurrency.values())
+}
@@ -0,0 +1,78 @@
+/**
+ * Ventas a crédito ("fiado"): cupo disponible del cliente y antigüedad de la cartera.
+ */
+
+import type { Customer, Invoice } from '@/types'
+import { t } from '@/core/i18n'
+
+/** Permiso que autoriza vender por encima del cupo del cliente */
+export const CREDIT_OVERRIDE_PERMISSION = 'customers.credit_override'
+
+export const getAvailableCredit = (customer: Pick<Customer, 'creditLimit' | 'currentBalance'>) =>
+  Math.max(0, (Number(customer.creditLimit) || 0) - (Number(customer.currentBalance) || 0))
+
+export const AGING_BUCKETS = [
+  { key: 'current', maxDays: 30 },
+  { key: 'days31', maxDays: 60 },
+  { key: 'days61', maxDays: 90 },
+  { key: 'days90', maxDays: Infinity },
+] as const
+
+export type AgingBucketKey = typeof AGING_BUCKETS[number]['key']
+
+export const getInvoiceBalance = (invoice: Pick<Invoice, 'balanceDue' | 'total'>) =>
+  Number(invoice.balanceDue ?? invoice.total) || 0
+
+export const getDaysOutstanding = (dateStr: string, now = new Date()) =>
+  Math.max(0, Math.floor((now.getTime() - new Date(dateStr).getTime()) / 86400000))
+
+export const getAgingBucket = (dateStr: string, now = new Date()): AgingBucketKey => {
+  const days = getDaysOutstanding(dateStr, now)
+  return AGING_BUCKETS.find((b) => days <= b.maxDays)!.key
+}
+
+export interface CustomerAging {
+  customerId: number
+  customerName: string
+  total: number
+  invoiceCount: number
+  oldestDate: string
+  buckets: Record<AgingBucketKey, number>
+}
+
+/** Agrupa las facturas abiertas por cliente y reparte su saldo por antigüedad */
+export const buildAgingByCustomer = (invoices: Invoice[], now = new Date()): CustomerAging[] => {
+  const byCustomer = new Map<number, CustomerAging>()
+  for (const inv of invoices) {
+    if (inv.customerId == null) continue
+    const balance = getInvoiceBalance(inv)
+    if (balance <= 0) continue
+    const entry = byCustomer.get(inv.customerId) || {
+      customerId: inv.customerId,
+      customerName: inv.customer?.fullName || inv.customerName || t('common.customerNumber', { id: inv.customerId }),
+      total: 0,
+      invoiceCount: 0,
+      oldestDate: inv.createdAt,
+      buckets: { current: 0, days31: 0, days61: 0, days90: 0 },
+    }
+    entry.total += balance
+    entry.invoiceCount += 1
+    entry.buckets[getAgingBucket(inv.createdAt, now)] += balance
+    if (inv.createdAt < entry.oldestDate) entry.oldestDate = inv.createdAt
+    byCustomer.set(inv.customerId, entry)
+  }
+  return Array.from(byCustomer.values()).sort((a, b) => b.total - a.total)
+}
+
+/** Reparte un abono entre las facturas abiertas, de la más antigua a la más reciente */
+export const allocatePayment = (invoices: Invoice[], amount: number) => {
+  let remaining = amount
+  return [...invoices]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((inv) => {
+      const applied = Math.min(remaining, getInvoiceBalance(inv))
+      remaining -= applied
+      return { invoiceId: inv.id, amount: applied }
+    })
+    .filter((a) => a.amount > 0)
+}
@@ -0,0 +1,45 @@
+/**
+ * Pantalla del cliente (segundo monitor): el POS publica el estado del carrito por
+ * BroadcastChannel y la ventana /customer-display lo muestra. Ambas ventanas son del
+ * mismo origen, así que no hace falta pasar por el backend.
+ */
+
+const CHANNEL_NAME = 'pos_customer_display'
+const WINDOW_NAME = 'pos_customer_display'
+
+export interface CustomerDisplayLine {
+  lineId: string
+  name: string
+  quantity: number
+  unitPrice: number
+  /** Valor de la línea ya con su descuento */
+  total: number
+  discountAmount: number
+  modifiers?: string
+}
+
+export interface CustomerDisplayCart {
+  customerName: string
+  lines: CustomerDisplayLine[]
+  subtotal: number
+  discountAmount: number
+  taxAmount: number
+  pricesIncludeTax: boolean
+  total: number
+}
+
+export type CustomerDisplayMessage =
+  | { type: 'cart'; cart: CustomerDisplayCart }
+  | { type: 'payment'; total: number; paid: number; change: number }
+  | { type: 'idle' }
+  /** La pantalla recién abierta pide el estado actual */
+  | { type: 'hello' }
+
+export const createDisplayChannel = () =>
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+
+export const openCustomerDisplay = () => {
+  const win = window.open('/customer-display', WINDOW_NAME, 'popup,width=1024,height=768')
+  win?.focus()
+  return win
+}
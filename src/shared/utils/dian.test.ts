@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { computeCufe, computeNitDv, DEFAULT_DIAN_CONFIG, getDianTotals } from './dian'
+
+// Ejemplo del anexo técnico de facturación electrónica de la DIAN
+const invoice = {
+  invoiceNumber: '323200000129',
+  createdAt: '2019-01-16T15:53:10Z',
+  total: 1785000,
+  customer: { documentType: 'NIT', documentNumber: '800199436' },
+  details: [{ productName: 'Servicio', quantity: 1, subtotal: 1785000, taxRate: 19, taxType: 'IVA' as const, taxAmount: 285000 }],
+}
+const company = { taxId: '700085371' }
+const config = { ...DEFAULT_DIAN_CONFIG, environment: '1' as const, technicalKey: '693ff6f2a553c3646a063436fd4dd9ded0311471' }
+
+describe('computeCufe', () => {
+  it('coincide con el CUFE del anexo técnico', async () => {
+    expect(await computeCufe(invoice, company, config)).toBe(
+      '8bb918b19ba22a694f1da11c643b5e9de39adf60311cf179179e9b33381030bcd4c3c3f156c506ed5908f9276f5bd9b4',
+    )
+  })
+
+  it('conserva el CUFE que ya asignó el backend', async () => {
+    expect(await computeCufe({ ...invoice, cufe: 'abc' }, company, config)).toBe('abc')
+  })
+})
+
+describe('getDianTotals', () => {
+  it('declara como descuento global lo que no cuadra con el total cobrado', () => {
+    const totals = getDianTotals({ ...invoice, total: 1700000 })
+    expect(totals.lineExtension).toBe(1500000)
+    expect(totals.taxInclusive).toBe(1785000)
+    expect(totals.allowance).toBe(85000)
+    expect(totals.charge).toBe(0)
+  })
+})
+
+describe('computeNitDv', () => {
+  it('calcula el dígito de verificación del NIT', () => {
+    expect(computeNitDv('800197268')).toBe('4')
+  })
+})
@@ -0,0 +1,533 @@
+/**
+ * Facturación electrónica DIAN (Colombia): XML UBL 2.1 y CUFE según el anexo técnico.
+ * Todo se calcula en el navegador a partir de la factura guardada; la firma digital
+ * y el envío a la DIAN los hace un servicio aparte (ver dianService).
+ */
+
+import type { TaxType } from '@/types'
+import { t } from '@/core/i18n'
+
+export type DianEnvironment = '1' | '2'
+
+export interface DianConfig {
+  enabled: boolean
+  /** 1 = producción, 2 = habilitación (pruebas) */
+  environment: DianEnvironment
+  resolutionNumber: string
+  resolutionDate: string
+  prefix: string
+  rangeFrom: number
+  rangeTo: number
+  validFrom: string
+  validTo: string
+  /** Clave técnica de la resolución (entra en el CUFE) */
+  technicalKey: string
+  softwareId: string
+  softwarePin: string
+  /** Responsabilidades fiscales (RUT casilla 53), p. ej. R-99-PN u O-13;O-15 */
+  taxLevelCode: string
+  /** Código DANE del municipio (5 dígitos) */
+  municipalityCode: string
+  city: string
+  department: string
+  departmentCode: string
+}
+
+export const DEFAULT_DIAN_CONFIG: DianConfig = {
+  enabled: false,
+  environment: '2',
+  resolutionNumber: '',
+  resolutionDate: '',
+  prefix: '',
+  rangeFrom: 1,
+  rangeTo: 5000000,
+  validFrom: '',
+  validTo: '',
+  technicalKey: '',
+  softwareId: '',
+  softwarePin: '',
+  taxLevelCode: 'R-99-PN',
+  municipalityCode: '11001',
+  city: 'Bogotá, D.C.',
+  department: 'Bogotá',
+  departmentCode: '11',
+}
+
+export const DIAN_ENVIRONMENTS: DianEnvironment[] = ['2', '1']
+
+export const getDianEnvironmentLabel = (environment: DianEnvironment) => t(`dian.environment.${environment}`)
+
+/** Acepta lo guardado en localStorage o en el backend (objeto o JSON) y completa lo que falte */
+export const normalizeDianConfig = (value: unknown): DianConfig => {
+  let parsed: Partial<DianConfig> = {}
+  try {
+    parsed = typeof value === 'string' ? JSON.parse(value) : (value as Partial<DianConfig>) || {}
+  } catch { /* configuración corrupta: se usan los valores por defecto */ }
+  return { ...DEFAULT_DIAN_CONFIG, ...parsed }
+}
+
+export interface DianCompany {
+  companyName?: string
+  legalName?: string
+  taxId?: string
+  address?: string
+  phone?: string
+  email?: string
+  currency?: string
+}
+
+/** Lo mínimo de una factura para el CUFE y el XML (sirve `Invoice` o el tiquete impreso) */
+export interface DianInvoiceInput {
+  invoiceNumber: string
+  createdAt: string
+  total: number
+  status?: string
+  cufe?: string
+  notes?: string
+  paymentMethod?: string
+  paymentStatus?: string
+  customer?: { documentType?: string; documentNumber?: string; fullName?: string; email?: string; phone?: string; address?: string; city?: string } | null
+  customerName?: string
+  customerDocument?: string
+  details?: Array<{ productId?: number; productName: string; quantity: number; subtotal: number; taxRate?: number; taxType?: TaxType; taxAmount?: number }>
+}
+
+// Identificación del adquirente cuando la venta es a consumidor final
+const FINAL_CONSUMER_ID = '222222222222'
+const DIAN_NIT = '800197268'
+const DIAN_AGENCY = 'schemeAgencyID="195" schemeAgencyName="CO, DIAN (Dirección de Impuestos y Aduanas Nacionales)"'
+
+const DOCUMENT_TYPE_CODES: Record<string, string> = {
+  RC: '11', TI: '12', CC: '13', TE: '21', CE: '22', NIT: '31', PA: '41', DE: '42', PEP: '47', NUIP: '91',
+}
+
+// Tributos de la tabla 13.2.2: IVA 01, INC 04
+const TAX_SCHEMES: Record<TaxType, { id: string; name: string }> = {
+  IVA: { id: '01', name: 'IVA' },
+  EXENTO: { id: '01', name: 'IVA' },
+  INC: { id: '04', name: 'INC' },
+}
+
+const PAYMENT_MEANS_CODES: Record<string, string> = {
+  EFECTIVO: '10',
+  TRANSFERENCIA: '47',
+  NEQUI: '47',
+  DAVIPLATA: '47',
+  TARJETA_DEBITO: '49',
+  TARJETA_CREDITO: '48',
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+const amount = (value: number) => round2(value).toFixed(2)
+
+const escapeXml = (value: string | number | undefined | null) =>
+  String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+
+/** Dígito de verificación del NIT con los pesos primos de la DIAN */
+export const computeNitDv = (nit: string) => {
+  const weights = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71]
+  const digits = nit.replace(/\D/g, '').split('').reverse()
+  const sum = digits.reduce((acc, digit, i) => acc + Number(digit) * (weights[i] || 0), 0)
+  const mod = sum % 11
+  return String(mod > 1 ? 11 - mod : mod)
+}
+
+/** "900.123.456-7" → { nit: '900123456', dv: '7' }; calcula el DV si no viene */
+export const splitNit = (taxId = '') => {
+  const [nitPart, dvPart] = taxId.split('-')
+  const nit = (nitPart || '').replace(/\D/g, '')
+  const dv = (dvPart || '').replace(/\D/g, '') || (nit ? computeNitDv(nit) : '')
+  return { nit, dv }
+}
+
+/** Consecutivo numérico de la factura (los ceros y el prefijo del POS se descartan) */
+export const getDianConsecutive = (invoiceNumber: string) => Number(invoiceNumber.replace(/\D/g, '')) || 0
+
+/** Número de factura con el prefijo autorizado: SETP990000123 */
+export const getDianNumber = (invoiceNumber: string, config: DianConfig) =>
+  `${config.prefix}${getDianConsecutive(invoiceNumber)}`
+
+/** Fecha y hora de emisión en hora de Colombia (UTC-5, sin horario de verano) */
+const getIssueDateTime = (createdAt: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/Bogota', year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23',
+  }).formatToParts(new Date(createdAt))
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '00'
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}:${get('second')}-05:00`,
+  }
+}
+
+const getCustomerId = (inv: DianInvoiceInput) => {
+  const document = (inv.customer?.documentNumber || inv.customerDocument || '').trim()
+  const documentType = (inv.customer?.documentType || (document ? 'CC' : '')).toUpperCase()
+  if (!document) return { id: FINAL_CONSUMER_ID, dv: '', typeCode: '13', isCompany: false }
+  if (documentType === 'NIT') {
+    const { nit, dv } = splitNit(document)
+    return { id: nit, dv, typeCode: '31', isCompany: true }
+  }
+  return { id: document.replace(/[^0-9A-Za-z]/g, ''), dv: '', typeCode: DOCUMENT_TYPE_CODES[documentType] || '13', isCompany: false }
+}
+
+export interface DianLine {
+  index: number
+  productId?: number
+  description: string
+  quantity: number
+  /** Valor de la línea sin impuestos */
+  base: number
+  tax: number
+  rate: number
+  taxType: TaxType
+}
+
+export interface DianTaxSubtotal {
+  taxType: TaxType
+  rate: number
+  base: number
+  tax: number
+}
+
+export interface DianTotals {
+  lines: DianLine[]
+  taxes: DianTaxSubtotal[]
+  lineExtension: number
+  /** Base gravable: suma de las bases con tarifa mayor a cero */
+  taxExclusive: number
+  taxInclusive: number
+  /** Descuento global del ticket que no quedó repartido en las líneas */
+  allowance: number
+  /** Cargos sobre el total (servicio, domicilio) */
+  charge: number
+  payable: number
+}
+
+/**
+ * Reparte la factura en líneas y tributos. La base de cada línea sale del impuesto
+ * guardado (igual que el desglose del tiquete); la diferencia con el total se declara
+ * como descuento o cargo global para que PayableAmount cuadre con lo cobrado.
+ */
+export const getDianTotals = (inv: DianInvoiceInput): DianTotals => {
+  const lines = (inv.details || []).map((d, i): DianLine => {
+    const rate = Math.max(0, Number(d.taxRate) || 0)
+    const tax = rate > 0 ? Number(d.taxAmount) || 0 : 0
+    const taxType: TaxType = rate <= 0 ? 'EXENTO' : d.taxType || 'IVA'
+    const base = rate > 0 && tax > 0 ? tax / (rate / 100) : Number(d.subtotal) || 0
+    return {
+      index: i + 1,
+      productId: d.productId,
+      description: d.productName,
+      quantity: Number(d.quantity) || 0,
+      base: round2(base),
+      tax: round2(tax),
+      rate,
+      taxType,
+    }
+  })
+
+  const groups = new Map<string, DianTaxSubtotal>()
+  lines.forEach((line) => {
+    const key = `${line.taxType}:${line.rate}`
+    const entry = groups.get(key) || { taxType: line.taxType, rate: line.rate, base: 0, tax: 0 }
+    entry.base = round2(entry.base + line.base)
+    entry.tax = round2(entry.tax + line.tax)
+    groups.set(key, entry)
+  })
+  const taxes = Array.from(groups.values()).sort((a, b) => b.rate - a.rate)
+
+  const lineExtension = round2(lines.reduce((acc, l) => acc + l.base, 0))
+  const taxExclusive = round2(taxes.filter((entry) => entry.rate > 0).reduce((acc, entry) => acc + entry.base, 0))
+  const taxTotal = round2(taxes.reduce((acc, t) => acc + t.tax, 0))
+  const taxInclusive = round2(lineExtension + taxTotal)
+  const payable = round2(Number(inv.total) || 0)
+  const difference = round2(payable - taxInclusive)
+
+  return {
+    lines,
+    taxes,
+    lineExtension,
+    taxExclusive,
+    taxInclusive,
+    allowance: difference < 0 ? -difference : 0,
+    charge: difference > 0 ? difference : 0,
+    payable,
+  }
+}
+
+const sumTax = (taxes: DianTaxSubtotal[], taxType: TaxType) =>
+  taxes.filter((entry) => entry.taxType === taxType).reduce((acc, entry) => acc + entry.tax, 0)
+
+export const sha384Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-384', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * CUFE = SHA-384(NumFac + FecFac + HorFac + ValFac + 01 + ValImp1 + 04 + ValImp2
+ *               + 03 + ValImp3 + ValTot + NitOFE + NumAdq + ClTec + TipoAmbiente)
+ */
+export const computeCufe = async (inv: DianInvoiceInput, company: DianCompany, config: DianConfig) => {
+  if (inv.cufe) return inv.cufe
+  const totals = getDianTotals(inv)
+  const { date, time } = getIssueDateTime(inv.createdAt)
+  const source = [
+    getDianNumber(inv.invoiceNumber, config),
+    date,
+    time,
+    amount(totals.lineExtension),
+    '01', amount(sumTax(totals.taxes, 'IVA')),
+    '04', amount(sumTax(totals.taxes, 'INC')),
+    '03', amount(0),
+    amount(totals.payable),
+    splitNit(company.taxId).nit,
+    getCustomerId(inv).id,
+    config.technicalKey,
+    config.environment,
+  ].join('')
+  return sha384Hex(source)
+}
+
+/** URL de consulta del documento en el catálogo de la DIAN (contenido del QR) */
+export const getDianQrUrl = (cufe: string, environment: DianEnvironment) =>
+  `https://catalogo-vpfe${environment === '2' ? '-hab' : ''}.dian.gov.co/document/searchqr?documentkey=${cufe}`
+
+/** Problemas que impiden generar el documento; lista vacía si todo está en orden */
+export const validateDianInvoice = (inv: DianInvoiceInput, company: DianCompany, config: DianConfig) => {
+  const errors: string[] = []
+  const { nit } = splitNit(company.taxId)
+  if (!nit) errors.push(t('dian.missingNit'))
+  if (!company.legalName && !company.companyName) errors.push(t('dian.missingLegalName'))
+  if (!config.resolutionNumber) errors.push(t('dian.missingResolution'))
+  if (!config.technicalKey) errors.push(t('dian.missingTechnicalKey'))
+  if (!config.softwareId || !config.softwarePin) errors.push(t('dian.missingSoftware'))
+  if (!/^\d{5}$/.test(config.municipalityCode)) errors.push(t('dian.invalidMunicipality'))
+
+  if (inv.status === 'ANULADA') errors.push(t('dian.voided'))
+  if (!inv.details || inv.details.length === 0) errors.push(t('dian.noDetails'))
+
+  const consecutive = getDianConsecutive(inv.invoiceNumber)
+  if (consecutive < config.rangeFrom || consecutive > config.rangeTo) {
+    errors.push(t('dian.outOfRange', { number: consecutive, from: config.rangeFrom, to: config.rangeTo }))
+  }
+  const { date } = getIssueDateTime(inv.createdAt)
+  if ((config.validFrom && date < config.validFrom) || (config.validTo && date > config.validTo)) {
+    errors.push(t('dian.outOfDates', { date }))
+  }
+  return errors
+}
+
+/** Verifica que el XML generado sea bien formado; devuelve el error del parser o null */
+export const checkXmlWellFormed = (xml: string) => {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml')
+  const error = parsed.getElementsByTagName('parsererror')[0]
+  return error ? error.textContent || 'XML mal formado' : null
+}
+
+const addressXml = (config: DianConfig, line: string) => `
+          <cac:Address>
+            <cbc:ID>${escapeXml(config.municipalityCode)}</cbc:ID>
+            <cbc:CityName>${escapeXml(config.city)}</cbc:CityName>
+            <cbc:CountrySubentity>${escapeXml(config.department)}</cbc:CountrySubentity>
+            <cbc:CountrySubentityCode>${escapeXml(config.departmentCode)}</cbc:CountrySubentityCode>
+            <cac:AddressLine><cbc:Line>${escapeXml(line)}</cbc:Line></cac:AddressLine>
+            <cac:Country><cbc:IdentificationCode>CO</cbc:IdentificationCode><cbc:Name languageID="es">Colombia</cbc:Name></cac:Country>
+          </cac:Address>`
+
+const taxTotalXml = (taxes: DianTaxSubtotal[], currency: string, indent: string) => {
+  const schemes = new Map<string, DianTaxSubtotal[]>()
+  taxes.forEach((entry) => {
+    const id = TAX_SCHEMES[entry.taxType].id
+    schemes.set(id, [...(schemes.get(id) || []), entry])
+  })
+  return Array.from(schemes.values()).map((group) => {
+    const scheme = TAX_SCHEMES[group[0].taxType]
+    const subtotals = group.map((entry) => `
+${indent}  <cac:TaxSubtotal>
+${indent}    <cbc:TaxableAmount currencyID="${currency}">${amount(entry.base)}</cbc:TaxableAmount>
+${indent}    <cbc:TaxAmount currencyID="${currency}">${amount(entry.tax)}</cbc:TaxAmount>
+${indent}    <cac:TaxCategory>
+${indent}      <cbc:Percent>${entry.rate.toFixed(2)}</cbc:Percent>
+${indent}      <cac:TaxScheme><cbc:ID>${scheme.id}</cbc:ID><cbc:Name>${scheme.name}</cbc:Name></cac:TaxScheme>
+${indent}    </cac:TaxCategory>
+${indent}  </cac:TaxSubtotal>`).join('')
+    return `
+${indent}<cac:TaxTotal>
+${indent}  <cbc:TaxAmount currencyID="${currency}">${amount(group.reduce((acc, entry) => acc + entry.tax, 0))}</cbc:TaxAmount>${subtotals}
+${indent}</cac:TaxTotal>`
+  }).join('')
+}
+
+export interface DianDocument {
+  /** Número con prefijo, también usado como nombre de archivo */
+  number: string
+  cufe: string
+  qrData: string
+  xml: string
+}
+
+/**
+ * Factura de venta (InvoiceTypeCode 01) en UBL 2.1 con las extensiones DIAN.
+ * La segunda UBLExtension queda vacía para la firma XAdES del servicio de envío.
+ */
+export const buildDianXml = async (inv: DianInvoiceInput, company: DianCompany, config: DianConfig): Promise<DianDocument> => {
+  const currency = company.currency || 'COP'
+  const number = getDianNumber(inv.invoiceNumber, config)
+  const totals = getDianTotals(inv)
+  const { date, time } = getIssueDateTime(inv.createdAt)
+  const supplier = splitNit(company.taxId)
+  const customer = getCustomerId(inv)
+  const customerName = inv.customer?.fullName || inv.customerName || 'Consumidor final'
+  const registrationName = company.legalName || company.companyName || ''
+  const cufe = await computeCufe(inv, company, config)
+  const securityCode = await sha384Hex(`${config.softwareId}${config.softwarePin}${number}`)
+  const qrData = getDianQrUrl(cufe, config.environment)
+  const isCredit = inv.paymentStatus === 'PENDIENTE' || inv.paymentMethod === 'CREDITO'
+
+  const allowanceChargeXml = [
+    totals.allowance > 0 ? { charge: false, reason: 'Descuento general', value: totals.allowance } : null,
+    totals.charge > 0 ? { charge: true, reason: 'Cargo por servicio y domicilio', value: totals.charge } : null,
+  ].filter(Boolean).map((item, i) => `
+  <cac:AllowanceCharge>
+    <cbc:ID>${i + 1}</cbc:ID>
+    <cbc:ChargeIndicator>${item!.charge}</cbc:ChargeIndicator>${item!.charge ? '' : `
+    <cbc:AllowanceChargeReasonCode>11</cbc:AllowanceChargeReasonCode>`}
+    <cbc:AllowanceChargeReason>${item!.reason}</cbc:AllowanceChargeReason>
+    <cbc:MultiplierFactorNumeric>${totals.lineExtension > 0 ? ((item!.value / totals.lineExtension) * 100).toFixed(2) : '0.00'}</cbc:MultiplierFactorNumeric>
+    <cbc:Amount currencyID="${currency}">${amount(item!.value)}</cbc:Amount>
+    <cbc:BaseAmount currencyID="${currency}">${amount(totals.lineExtension)}</cbc:BaseAmount>
+  </cac:AllowanceCharge>`).join('')
+
+  const linesXml = totals.lines.map((line) => `
+  <cac:InvoiceLine>
+    <cbc:ID>${line.index}</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="94">${line.quantity}</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="${currency}">${amount(line.base)}</cbc:LineExtensionAmount>${taxTotalXml([line], currency, '    ')}
+    <cac:Item>
+      <cbc:Description>${escapeXml(line.description)}</cbc:Description>
+      <cac:StandardItemIdentification><cbc:ID schemeID="999">${escapeXml(line.productId ?? line.index)}</cbc:ID></cac:StandardItemIdentification>
+    </cac:Item>
+    <cac:Price>
+      <cbc:PriceAmount currencyID="${currency}">${amount(line.quantity > 0 ? line.base / line.quantity : line.base)}</cbc:PriceAmount>
+      <cbc:BaseQuantity unitCode="94">1</cbc:BaseQuantity>
+    </cac:Price>
+  </cac:InvoiceLine>`).join('')
+
+  const xml = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"
+  xmlns:ds="http://www.w3.org/2000/09/xmldsig#"
+  xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"
+  xmlns:sts="dian:gov:co:facturaelectronica:Structures-2-1"
+  xmlns:xades="http://uri.etsi.org/01903/v1.3.2#"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <ext:UBLExtensions>
+    <ext:UBLExtension>
+      <ext:ExtensionContent>
+        <sts:DianExtensions>
+          <sts:InvoiceControl>
+            <sts:InvoiceAuthorization>${escapeXml(config.resolutionNumber)}</sts:InvoiceAuthorization>
+            <sts:AuthorizationPeriod>
+              <cbc:StartDate>${escapeXml(config.validFrom)}</cbc:StartDate>
+              <cbc:EndDate>${escapeXml(config.validTo)}</cbc:EndDate>
+            </sts:AuthorizationPeriod>
+            <sts:AuthorizedInvoices>
+              <sts:Prefix>${escapeXml(config.prefix)}</sts:Prefix>
+              <sts:From>${config.rangeFrom}</sts:From>
+              <sts:To>${config.rangeTo}</sts:To>
+            </sts:AuthorizedInvoices>
+          </sts:InvoiceControl>
+          <sts:InvoiceSource>
+            <cbc:IdentificationCode listAgencyID="6" listAgencyName="United Nations Economic Commission for Europe" listSchemeURI="urn:oasis:names:specification:ubl:codelist:gc:CountryIdentificationCode-2.1">CO</cbc:IdentificationCode>
+          </sts:InvoiceSource>
+          <sts:SoftwareProvider>
+            <sts:ProviderID ${DIAN_AGENCY} schemeID="${supplier.dv}" schemeName="31">${supplier.nit}</sts:ProviderID>
+            <sts:SoftwareID ${DIAN_AGENCY}>${escapeXml(config.softwareId)}</sts:SoftwareID>
+          </sts:SoftwareProvider>
+          <sts:SoftwareSecurityCode ${DIAN_AGENCY}>${securityCode}</sts:SoftwareSecurityCode>
+          <sts:AuthorizationProvider>
+            <sts:AuthorizationProviderID ${DIAN_AGENCY} schemeID="${computeNitDv(DIAN_NIT)}" schemeName="31">${DIAN_NIT}</sts:AuthorizationProviderID>
+          </sts:AuthorizationProvider>
+          <sts:QRCode>${escapeXml(qrData)}</sts:QRCode>
+        </sts:DianExtensions>
+      </ext:ExtensionContent>
+    </ext:UBLExtension>
+    <ext:UBLExtension>
+      <ext:ExtensionContent/>
+    </ext:UBLExtension>
+  </ext:UBLExtensions>
+  <cbc:UBLVersionID>UBL 2.1</cbc:UBLVersionID>
+  <cbc:CustomizationID>10</cbc:CustomizationID>
+  <cbc:ProfileID>DIAN 2.1: Factura Electrónica de Venta</cbc:ProfileID>
+  <cbc:ProfileExecutionID>${config.environment}</cbc:ProfileExecutionID>
+  <cbc:ID>${escapeXml(number)}</cbc:ID>
+  <cbc:UUID schemeID="${config.environment}" schemeName="CUFE-SHA384">${cufe}</cbc:UUID>
+  <cbc:IssueDate>${date}</cbc:IssueDate>
+  <cbc:IssueTime>${time}</cbc:IssueTime>
+  <cbc:InvoiceTypeCode>01</cbc:InvoiceTypeCode>${inv.notes ? `
+  <cbc:Note>${escapeXml(inv.notes)}</cbc:Note>` : ''}
+  <cbc:DocumentCurrencyCode>${currency}</cbc:DocumentCurrencyCode>
+  <cbc:LineCountNumeric>${totals.lines.length}</cbc:LineCountNumeric>
+  <cac:AccountingSupplierParty>
+    <cbc:AdditionalAccountID>1</cbc:AdditionalAccountID>
+    <cac:Party>
+      <cac:PartyName><cbc:Name>${escapeXml(company.companyName || registrationName)}</cbc:Name></cac:PartyName>
+      <cac:PhysicalLocation>${addressXml(config, company.address || '')}
+      </cac:PhysicalLocation>
+      <cac:PartyTaxScheme>
+        <cbc:RegistrationName>${escapeXml(registrationName)}</cbc:RegistrationName>
+        <cbc:CompanyID ${DIAN_AGENCY} schemeID="${supplier.dv}" schemeName="31">${supplier.nit}</cbc:CompanyID>
+        <cbc:TaxLevelCode listName="48">${escapeXml(config.taxLevelCode)}</cbc:TaxLevelCode>
+        <cac:RegistrationAddress>${addressXml(config, company.address || '').replace(/<\/?cac:Address>/g, '')}
+        </cac:RegistrationAddress>
+        <cac:TaxScheme><cbc:ID>01</cbc:ID><cbc:Name>IVA</cbc:Name></cac:TaxScheme>
+      </cac:PartyTaxScheme>
+      <cac:PartyLegalEntity>
+        <cbc:RegistrationName>${escapeXml(registrationName)}</cbc:RegistrationName>
+        <cbc:CompanyID ${DIAN_AGENCY} schemeID="${supplier.dv}" schemeName="31">${supplier.nit}</cbc:CompanyID>
+        <cac:CorporateRegistrationScheme><cbc:ID>${escapeXml(config.prefix)}</cbc:ID></cac:CorporateRegistrationScheme>
+      </cac:PartyLegalEntity>
+      <cac:Contact>
+        <cbc:Telephone>${escapeXml(company.phone)}</cbc:Telephone>
+        <cbc:ElectronicMail>${escapeXml(company.email)}</cbc:ElectronicMail>
+      </cac:Contact>
+    </cac:Party>
+  </cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty>
+    <cbc:AdditionalAccountID>${customer.isCompany ? 1 : 2}</cbc:AdditionalAccountID>
+    <cac:Party>
+      <cac:PartyIdentification><cbc:ID schemeName="${customer.typeCode}"${customer.dv ? ` schemeID="${customer.dv}"` : ''}>${escapeXml(customer.id)}</cbc:ID></cac:PartyIdentification>
+      <cac:PartyName><cbc:Name>${escapeXml(customerName)}</cbc:Name></cac:PartyName>
+      <cac:PartyTaxScheme>
+        <cbc:RegistrationName>${escapeXml(customerName)}</cbc:RegistrationName>
+        <cbc:CompanyID ${DIAN_AGENCY}${customer.dv ? ` schemeID="${customer.dv}"` : ''} schemeName="${customer.typeCode}">${escapeXml(customer.id)}</cbc:CompanyID>
+        <cbc:TaxLevelCode listName="48">R-99-PN</cbc:TaxLevelCode>
+        <cac:TaxScheme><cbc:ID>ZZ</cbc:ID><cbc:Name>No aplica</cbc:Name></cac:TaxScheme>
+      </cac:PartyTaxScheme>
+      <cac:PartyLegalEntity>
+        <cbc:RegistrationName>${escapeXml(customerName)}</cbc:RegistrationName>
+        <cbc:CompanyID ${DIAN_AGENCY}${customer.dv ? ` schemeID="${customer.dv}"` : ''} schemeName="${customer.typeCode}">${escapeXml(customer.id)}</cbc:CompanyID>
+      </cac:PartyLegalEntity>${inv.customer?.email ? `
+      <cac:Contact><cbc:ElectronicMail>${escapeXml(inv.customer.email)}</cbc:ElectronicMail></cac:Contact>` : ''}
+    </cac:Party>
+  </cac:AccountingCustomerParty>
+  <cac:PaymentMeans>
+    <cbc:ID>${isCredit ? 2 : 1}</cbc:ID>
+    <cbc:PaymentMeansCode>${isCredit ? 'ZZZ' : PAYMENT_MEANS_CODES[inv.paymentMethod || ''] || 'ZZZ'}</cbc:PaymentMeansCode>
+    <cbc:PaymentDueDate>${date}</cbc:PaymentDueDate>
+  </cac:PaymentMeans>${allowanceChargeXml}${taxTotalXml(totals.taxes, currency, '  ')}
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="${currency}">${amount(totals.lineExtension)}</cbc:LineExtensionAmount>
+    <cbc:TaxExclusiveAmount currencyID="${currency}">${amount(totals.taxExclusive)}</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="${currency}">${amount(totals.taxInclusive)}</cbc:TaxInclusiveAmount>
+    <cbc:AllowanceTotalAmount currencyID="${currency}">${amount(totals.allowance)}</cbc:AllowanceTotalAmount>
+    <cbc:ChargeTotalAmount currencyID="${currency}">${amount(totals.charge)}</cbc:ChargeTotalAmount>
+    <cbc:PayableAmount currencyID="${currency}">${amount(totals.payable)}</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>${linesXml}
+</Invoice>
+`
+
+  return { number, cufe, qrData, xml }
+}
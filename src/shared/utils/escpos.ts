@@ -0,0 +1,157 @@
+/**
+ * Generador de comandos ESC/POS para impresoras térmicas (58mm y 80mm).
+ * Produce los bytes crudos; el envío (puente local o WebSerial) está en receiptPrinter.
+ */
+
+export type PaperWidth = 58 | 80
+
+/** Columnas de la fuente A por ancho de papel */
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+}
+
+export type EscPosAlign = 'left' | 'center' | 'right'
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+
+const ALIGN_CODES: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 }
+
+// Caracteres de Windows-1252 fuera del rango Latin-1 que sí aparecen en tiquetes
+const CP1252_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+}
+
+/** Codifica en WPC1252 (tabla 16); lo que no exista se imprime sin tilde o como '?' */
+const encodeText = (text: string): number[] => {
+  const bytes: number[] = []
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code)
+    } else if (CP1252_EXTRA[char] != null) {
+      bytes.push(CP1252_EXTRA[char])
+    } else {
+      const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+      bytes.push(plain.length === 1 && plain.charCodeAt(0) < 0x80 ? plain.charCodeAt(0) : 0x3f)
+    }
+  }
+  return bytes
+}
+
+/** Parte un texto en renglones de `width` caracteres, cortando por palabras cuando se puede */
+const wrap = (text: string, width: number): string[] => {
+  const lines: string[] = []
+  let current = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`
+    } else {
+      lines.push(current)
+      current = word
+    }
+    while (current.length > width) {
+      lines.push(current.slice(0, width))
+      current = current.slice(width)
+    }
+  }
+  if (current || lines.length === 0) lines.push(current)
+  return lines
+}
+
+/**
+ * Constructor encadenable de un tiquete:
+ *   createEscPos(80).align('center').bold().text('MI NEGOCIO').bold(false).row('Total', '$10.000').cut().build()
+ */
+export const createEscPos = (paperWidth: PaperWidth) => {
+  const columns = PAPER_COLUMNS[paperWidth]
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 16]
+  let widthScale = 1
+
+  const builder = {
+    columns,
+
+    raw: (...data: number[]) => {
+      bytes.push(...data)
+      return builder
+    },
+
+    align: (align: EscPosAlign) => builder.raw(ESC, 0x61, ALIGN_CODES[align]),
+
+    bold: (on = true) => builder.raw(ESC, 0x45, on ? 1 : 0),
+
+    underline: (on = true) => builder.raw(ESC, 0x2d, on ? 1 : 0),
+
+    /** Tamaño de carácter 1–8 en cada eje; el ancho reduce las columnas disponibles */
+    size: (width = 1, height = width) => {
+      widthScale = Math.min(8, Math.max(1, width))
+      const h = Math.min(8, Math.max(1, height))
+      return builder.raw(GS, 0x21, ((widthScale - 1) << 4) | (h - 1))
+    },
+
+    /** Texto con salto de línea, partido al ancho del papel */
+    text: (text: string) => {
+      const width = Math.floor(columns / widthScale)
+      text.split('\n').forEach((line) => {
+        wrap(line, width).forEach((part) => builder.raw(...encodeText(part), LF))
+      })
+      return builder
+    },
+
+    /** Texto a la izquierda y valor alineado a la derecha en el mismo renglón */
+    row: (left: string, right: string) => {
+      const width = Math.floor(columns / widthScale)
+      const leftLines = wrap(left, Math.max(1, width - right.length - 1))
+      leftLines.forEach((line, i) => {
+        const isLast = i === leftLines.length - 1
+        const content = isLast ? line.padEnd(width - right.length) + right : line
+        builder.raw(...encodeText(content), LF)
+      })
+      return builder
+    },
+
+    separator: (char = '-') => builder.raw(...encodeText(char.repeat(Math.floor(columns / widthScale))), LF),
+
+    feed: (lines = 1) => builder.raw(ESC, 0x64, Math.min(255, Math.max(0, lines))),
+
+    /** Código QR (modelo 2); `moduleSize` 1–16 */
+    qr: (data: string, moduleSize = paperWidth === 80 ? 6 : 4) => {
+      const payload = encodeText(data)
+      const length = payload.length + 3
+      return builder
+        .raw(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0)
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, Math.min(16, Math.max(1, moduleSize)))
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31)
+        .raw(GS, 0x28, 0x6b, length & 0xff, (length >> 8) & 0xff, 0x31, 0x50, 0x30, ...payload)
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30)
+        .raw(LF)
+    },
+
+    /** Código de barras CODE128 (juego B) con el texto impreso debajo */
+    barcode: (data: string, height = 60) => {
+      const payload = encodeText(data).filter((b) => b >= 0x20 && b < 0x7f)
+      return builder
+        .raw(GS, 0x68, Math.min(255, Math.max(1, height)))
+        .raw(GS, 0x77, paperWidth === 80 ? 2 : 1)
+        .raw(GS, 0x48, 2)
+        .raw(GS, 0x6b, 73, payload.length + 2, 0x7b, 0x42, ...payload)
+        .raw(LF)
+    },
+
+    /** Pulso al conector del cajón monedero (pin 2) */
+    openDrawer: () => builder.raw(ESC, 0x70, 0, 25, 250),
+
+    /** Avanza el papel y hace corte parcial */
+    cut: () => builder.raw(GS, 0x56, 66, 3),
+
+    build: () => new Uint8Array(bytes),
+  }
+
+  return builder
+}
+
+export type EscPosBuilder = ReturnType<typeof createEscPos>
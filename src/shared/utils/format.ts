@@ -0,0 +1,66 @@
+/**
+ * Formato de números, fechas y moneda según el idioma del usuario y la moneda de la empresa
+ * (`CompanyConfig.currency`). El slice de configuración actualiza la moneda al cargarla.
+ */
+
+import { getLocale } from '@/core/i18n'
+
+let baseCurrency = 'COP'
+
+export const setBaseCurrency = (currency: string) => {
+  baseCurrency = currency || 'COP'
+}
+
+export const getBaseCurrency = () => baseCurrency
+
+// Crear un Intl.NumberFormat es costoso y se formatean listas enteras: se reutilizan
+const numberFormats = new Map<string, Intl.NumberFormat>()
+const getNumberFormat = (options: Intl.NumberFormatOptions) => {
+  const key = `${getLocale()}|${JSON.stringify(options)}`
+  let format = numberFormats.get(key)
+  if (!format) {
+    format = new Intl.NumberFormat(getLocale(), options)
+    numberFormats.set(key, format)
+  }
+  return format
+}
+
+/** Moneda de la empresa por defecto; `fractionDigits` fija los decimales (p. ej. 2 para divisas) */
+export const formatCurrency = (value: number, currency = baseCurrency, fractionDigits?: number) =>
+  getNumberFormat({
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits ?? 0,
+    ...(fractionDigits != null ? { maximumFractionDigits: fractionDigits } : {}),
+  }).format(value || 0)
+
+export const formatNumber = (value: number, maximumFractionDigits = 2) =>
+  getNumberFormat({ maximumFractionDigits }).format(value || 0)
+
+/** 19/10/2026 */
+export const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString(getLocale(), { day: '2-digit', month: '2-digit', year: 'numeric' })
+
+/** 19/10/2026, 14:30 */
+export const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString(getLocale(), { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+/** 14:30 */
+export const formatTime = (value: string | Date) =>
+  new Date(value).toLocaleTimeString(getLocale(), { hour: '2-digit', minute: '2-digit' })
+
+/** Fechas con otro formato (p. ej. "lun 19" en los gráficos) */
+export const formatDateWith = (value: string | Date, options: Intl.DateTimeFormatOptions) =>
+  new Date(value).toLocaleDateString(getLocale(), options)
+
+/**
+ * Formato numérico de Excel para la moneda (p. ej. `"$"#,##0`). Los separadores los pone
+ * Excel según su configuración regional; los pesos se muestran sin centavos como en pantalla.
+ */
+export const getExcelCurrencyFormat = (currency = baseCurrency) => {
+  const symbol = getNumberFormat({ style: 'currency', currency, minimumFractionDigits: 0 })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value || currency
+  const decimals = currency === 'COP' ? 0 : new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 0
+  return `"${symbol}"#,##0${decimals > 0 ? `.${'0'.repeat(decimals)}` : ''}`
+}
@@ -0,0 +1,89 @@
+/**
+ * Tarjetas de regalo: códigos, estado efectivo y resumen contable.
+ * La venta de una tarjeta no es una factura: el dinero recibido es un pasivo (saldo
+ * por redimir). El ingreso se reconoce cuando la tarjeta paga una factura, así que
+ * las ventas del reporte no se cuentan dos veces.
+ */
+
+import type { GiftCard, GiftCardStatus, GiftCardTransaction, GiftCardTransactionType } from '@/types'
+import { hasMessage, t } from '@/core/i18n'
+import { toLocalDateStr } from '@/shared/components/DateRangeFilter'
+import { generateRandomCode } from './codes'
+
+export const GIFT_CARD_STATUSES: GiftCardStatus[] = ['ACTIVA', 'AGOTADA', 'VENCIDA', 'ANULADA']
+
+export const getGiftCardStatusLabel = (status: GiftCardStatus) => t(`giftCard.status.${status}`)
+
+/** Un tipo desconocido (backend más nuevo) se muestra tal cual */
+export const getGiftCardTransactionLabel = (type: GiftCardTransactionType) => {
+  const key = `giftCard.transaction.${type}`
+  return hasMessage(key) ? t(key) : type
+}
+
+export const GIFT_CARD_AMOUNTS = [20000, 50000, 100000, 200000]
+
+/** Código aleatorio tipo GC-7KQ2-M9XD */
+export const generateGiftCardCode = () => {
+  const chars = generateRandomCode(8)
+  return `GC-${chars.slice(0, 4)}-${chars.slice(4)}`
+}
+
+export const normalizeGiftCardCode = (code: string) => code.trim().toUpperCase()
+
+/** Fecha de vencimiento (YYYY-MM-DD) a `months` meses de hoy */
+export const getDefaultExpiration = (months: number) => {
+  const date = new Date()
+  date.setMonth(date.getMonth() + months)
+  return toLocalDateStr(date)
+}
+
+/** Estado real: el backend puede no haber marcado aún una tarjeta vencida o sin saldo */
+export const getGiftCardStatus = (card: Pick<GiftCard, 'status' | 'balance' | 'expiresAt'>): GiftCardStatus => {
+  if (card.status === 'ANULADA') return 'ANULADA'
+  if (card.expiresAt && new Date(`${card.expiresAt.split('T')[0]}T23:59:59`).getTime() < Date.now()) return 'VENCIDA'
+  if ((Number(card.balance) || 0) <= 0) return 'AGOTADA'
+  return card.status
+}
+
+/** Mensaje de por qué no se puede cobrar con la tarjeta, o null si se puede */
+export const getGiftCardRedeemError = (card: GiftCard) => {
+  const status = getGiftCardStatus(card)
+  if (status === 'ACTIVA') return null
+  if (status === 'VENCIDA') return t('giftCard.expiredError', { code: card.code, date: card.expiresAt?.split('T')[0] || '' })
+  if (status === 'AGOTADA') return t('giftCard.noBalanceError', { code: card.code })
+  return t('giftCard.voidedError', { code: card.code })
+}
+
+export interface GiftCardActivity {
+  /** Cargado en tarjetas (emisiones + recargas): entra como pasivo, no como venta */
+  loaded: number
+  /** Redimido como pago de facturas: ya está dentro de las ventas */
+  redeemed: number
+  /** Saldo dado de baja al anular tarjetas */
+  voided: number
+  /** Efectivo recibido por cargas (suma a la caja aunque no sea venta) */
+  loadedCash: number
+  byMethod: Record<string, number>
+}
+
+export const summarizeGiftCardActivity = (transactions: GiftCardTransaction[]): GiftCardActivity => {
+  const activity: GiftCardActivity = { loaded: 0, redeemed: 0, voided: 0, loadedCash: 0, byMethod: {} }
+  transactions.forEach((tx) => {
+    const amount = Math.abs(Number(tx.amount) || 0)
+    if (tx.type === 'EMISION' || tx.type === 'RECARGA') {
+      activity.loaded += amount
+      ;(tx.payments || []).forEach((p) => {
+        activity.byMethod[p.paymentMethod] = (activity.byMethod[p.paymentMethod] || 0) + (Number(p.amount) || 0)
+      })
+    } else if (tx.type === 'REDENCION') {
+      activity.redeemed += amount
+    } else if (tx.type === 'REVERSO') {
+      // Devolución de saldo por anulación de la factura que lo había redimido
+      activity.redeemed -= amount
+    } else if (tx.type === 'ANULACION') {
+      activity.voided += amount
+    }
+  })
+  activity.loadedCash = activity.byMethod.EFECTIVO || 0
+  return activity
+}
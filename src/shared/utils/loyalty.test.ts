@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { calculateEarnedPoints, DEFAULT_LOYALTY_CONFIG, getLoyaltyTier, getMaxRedeemablePoints, LoyaltyConfig, normalizeLoyaltyConfig } from './loyalty'
+
+const config: LoyaltyConfig = { ...DEFAULT_LOYALTY_CONFIG, enabled: true, excludedCategoryIds: [9] }
+
+describe('calculateEarnedPoints', () => {
+  it('da un punto por cada $1.000 y excluye las categorías configuradas', () => {
+    expect(calculateEarnedPoints(config, [{ amount: 25500, categoryId: 1 }, { amount: 10000, categoryId: 9 }])).toBe(25)
+  })
+
+  it('acumula sobre lo pagado y con el multiplicador del nivel', () => {
+    const tier = getLoyaltyTier(config, 5000)
+    expect(tier?.name).toBe('Oro')
+    expect(calculateEarnedPoints(config, [{ amount: 20000 }], 0.5, tier)).toBe(15)
+  })
+
+  it('no acumula con el programa apagado', () => {
+    expect(calculateEarnedPoints({ ...config, enabled: false }, [{ amount: 20000 }])).toBe(0)
+  })
+})
+
+describe('getMaxRedeemablePoints', () => {
+  it('limita la redención al porcentaje máximo del total', () => {
+    expect(getMaxRedeemablePoints(config, 5000, 40000)).toBe(2000)
+    expect(getMaxRedeemablePoints(config, 500, 40000)).toBe(500)
+  })
+
+  it('exige el saldo mínimo para redimir', () => {
+    expect(getMaxRedeemablePoints(config, 99, 40000)).toBe(0)
+  })
+})
+
+describe('normalizeLoyaltyConfig', () => {
+  it('completa la configuración guardada y tolera JSON corrupto', () => {
+    expect(normalizeLoyaltyConfig('{"enabled":true,"pointValue":5}')).toMatchObject({ enabled: true, pointValue: 5, amountPerPoint: 1000 })
+    expect(normalizeLoyaltyConfig('{roto')).toEqual(DEFAULT_LOYALTY_CONFIG)
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Programa de puntos: los clientes acumulan sobre lo pagado en cada factura y
+ * redimen los puntos como descuento en el POS. El backend aplica las mismas reglas
+ * (guardadas en `loyaltyConfig`) al registrar la factura; aquí se calculan para
+ * mostrarlas al cajero y en el tiquete.
+ */
+
+import type { Customer, LoyaltyTransactionType } from '@/types'
+import { t } from '@/core/i18n'
+
+export interface LoyaltyTier {
+  name: string
+  /** Puntos ganados en los últimos 12 meses para alcanzar el nivel */
+  minPoints: number
+  /** Multiplicador de acumulación (1.5 = 50% más puntos) */
+  multiplier: number
+}
+
+export interface LoyaltyConfig {
+  enabled: boolean
+  /** Pesos pagados por cada punto (1000 = 1 punto por cada $1.000) */
+  amountPerPoint: number
+  /** Valor en pesos de un punto al redimirlo */
+  pointValue: number
+  /** Saldo mínimo para poder redimir */
+  minRedeemPoints: number
+  /** Parte máxima del total (%) que se puede pagar con puntos */
+  maxRedeemPercent: number
+  /** Meses de vigencia de los puntos desde que se ganan (0 = no vencen) */
+  expirationMonths: number
+  /** Categorías que no acumulan puntos */
+  excludedCategoryIds: number[]
+  tiers: LoyaltyTier[]
+}
+
+export const DEFAULT_LOYALTY_CONFIG: LoyaltyConfig = {
+  enabled: false,
+  amountPerPoint: 1000,
+  pointValue: 10,
+  minRedeemPoints: 100,
+  maxRedeemPercent: 50,
+  expirationMonths: 12,
+  excludedCategoryIds: [],
+  tiers: [
+    { name: 'Clásico', minPoints: 0, multiplier: 1 },
+    { name: 'Plata', minPoints: 2000, multiplier: 1.25 },
+    { name: 'Oro', minPoints: 5000, multiplier: 1.5 },
+  ],
+}
+
+export const getLoyaltyTransactionLabel = (type: LoyaltyTransactionType) => t(`loyalty.transaction.${type}`)
+
+export const normalizeLoyaltyConfig = (value: unknown): LoyaltyConfig => {
+  let parsed: Partial<LoyaltyConfig> = {}
+  try {
+    parsed = typeof value === 'string' ? JSON.parse(value) : (value as Partial<LoyaltyConfig>) || {}
+  } catch { /* configuración corrupta: se usan los valores por defecto */ }
+  return {
+    ...DEFAULT_LOYALTY_CONFIG,
+    ...parsed,
+    excludedCategoryIds: Array.isArray(parsed.excludedCategoryIds) ? parsed.excludedCategoryIds : [],
+    tiers: Array.isArray(parsed.tiers) ? parsed.tiers : DEFAULT_LOYALTY_CONFIG.tiers,
+  }
+}
+
+/** Nivel alcanzado con los puntos de los últimos 12 meses; null si no hay niveles */
+export const getLoyaltyTier = (config: LoyaltyConfig, tierPoints = 0): LoyaltyTier | null =>
+  [...config.tiers]
+    .sort((a, b) => b.minPoints - a.minPoints)
+    .find((tier) => tierPoints >= tier.minPoints) || null
+
+export const getCustomerLoyalty = (config: LoyaltyConfig, customer?: Customer | null) => {
+  const balance = Math.max(0, Number(customer?.loyaltyPoints) || 0)
+  return { balance, tier: getLoyaltyTier(config, Number(customer?.loyaltyTierPoints) || 0) }
+}
+
+export const pointsToAmount = (config: LoyaltyConfig, points: number) => points * config.pointValue
+
+/**
+ * Puntos que genera una venta. Cada línea trae su valor neto y su categoría;
+ * `paidFactor` reparte los descuentos generales y la redención de puntos entre las líneas.
+ */
+export const calculateEarnedPoints = (
+  config: LoyaltyConfig,
+  lines: Array<{ amount: number; categoryId?: number | null }>,
+  paidFactor = 1,
+  tier?: LoyaltyTier | null,
+) => {
+  if (!config.enabled || config.amountPerPoint <= 0) return 0
+  const eligible = lines
+    .filter((l) => l.categoryId == null || !config.excludedCategoryIds.includes(l.categoryId))
+    .reduce((acc, l) => acc + (Number(l.amount) || 0), 0)
+  return Math.max(0, Math.floor((eligible * paidFactor * (tier?.multiplier || 1)) / config.amountPerPoint))
+}
+
+/** Máximo de puntos redimibles en una venta de `total`; 0 si el saldo no llega al mínimo */
+export const getMaxRedeemablePoints = (config: LoyaltyConfig, balance: number, total: number) => {
+  if (!config.enabled || config.pointValue <= 0 || balance < config.minRedeemPoints) return 0
+  const maxAmount = (total * config.maxRedeemPercent) / 100
+  return Math.max(0, Math.min(balance, Math.floor(maxAmount / config.pointValue)))
+}
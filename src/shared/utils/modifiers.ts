@@ -0,0 +1,44 @@
+/**
+ * Utilidades para modificadores de producto (tamaño, adiciones, término...).
+ * El precio unitario de una línea es el precio base más la suma de los deltas elegidos.
+ */
+
+import { ModifierGroup, SelectedModifier } from '@/types'
+import { t } from '@/core/i18n'
+
+export const getModifiersTotal = (modifiers?: SelectedModifier[] | null) =>
+  (modifiers || []).reduce((acc, m) => acc + (Number(m.priceDelta) || 0), 0)
+
+/** Clave estable para decidir si dos líneas con el mismo producto se pueden unir */
+export const getModifiersKey = (modifiers?: SelectedModifier[] | null) =>
+  (modifiers || [])
+    .map((m) => `${m.groupName}:${m.optionName}`)
+    .sort()
+    .join('|')
+
+/** Texto corto para carrito, cocina y tiquete: "Grande, Extra queso (+$2.000)" */
+export const formatModifiers = (
+  modifiers: SelectedModifier[] | null | undefined,
+  formatCurrency?: (value: number) => string,
+) =>
+  (modifiers || [])
+    .map((m) => (formatCurrency && m.priceDelta ? `${m.optionName} (+${formatCurrency(m.priceDelta)})` : m.optionName))
+    .join(', ')
+
+export const hasModifierGroups = (product: { modifierGroups?: ModifierGroup[] }) =>
+  (product.modifierGroups || []).some((g) => g.options.length > 0)
+
+/** Mensaje de error del primer grupo que no cumple min/max, o null si la selección es válida */
+export const validateModifierSelection = (groups: ModifierGroup[], selected: SelectedModifier[]) => {
+  for (const group of groups) {
+    const count = selected.filter((m) => m.groupName === group.name).length
+    const min = group.required ? Math.max(1, group.minSelections) : group.minSelections
+    if (count < min) {
+      return min === 1 ? t('modifiers.selectOne', { group: group.name }) : t('modifiers.selectAtLeast', { min, group: group.name })
+    }
+    if (group.maxSelections > 0 && count > group.maxSelections) {
+      return t('modifiers.max', { max: group.maxSelections, group: group.name })
+    }
+  }
+  return null
+}
@@ -0,0 +1,127 @@
+/**
+ * Cola local de ventas realizadas sin conexión (IndexedDB).
+ * Cada venta guarda el request original para reenviarlo a /invoices y una copia
+ * imprimible con el número provisional que se entregó al cliente.
+ */
+
+import type { CreateSaleRequest } from '@/core/api/invoiceService'
+import { getTerminalId } from './cashRegister'
+import { generateRandomCode } from './codes'
+import type { PaymentLine } from './payments'
+import type { TaxBreakdownEntry } from './taxes'
+import type { SelectedModifier } from '@/types'
+
+const DB_NAME = 'pos_offline'
+const DB_VERSION = 1
+const STORE = 'sales'
+const SEQ_KEY = 'pos_offline_seq'
+
+export type OfflineSaleStatus = 'PENDIENTE' | 'FALLIDA'
+
+export interface OfflineSaleReceipt {
+  invoiceNumber: string
+  createdAt: string
+  customerName?: string
+  userName?: string
+  details: Array<{ productId: number; quantity: number; productName: string; subtotal: number; notes?: string; modifiers?: SelectedModifier[]; discountAmount?: number; discountReason?: string }>
+  subtotal: number
+  discountAmount: number
+  discountPercent?: number
+  serviceChargeAmount?: number
+  serviceChargePercent?: number
+  deliveryChargeAmount?: number
+  taxAmount?: number
+  taxBreakdown?: TaxBreakdownEntry[]
+  pricesIncludeTax?: boolean
+  total: number
+  paymentMethod: string
+  payments: PaymentLine[]
+  amountReceived: number
+  changeAmount: number
+  tipAmount?: number
+}
+
+export interface OfflineSale {
+  /** Número provisional (OFF-TERMINAL-AAAAMMDD-0001), clave local de la cola */
+  id: string
+  request: CreateSaleRequest
+  receipt: OfflineSaleReceipt
+  status: OfflineSaleStatus
+  attempts: number
+  /** Mensaje del backend cuando rechaza la venta (p. ej. producto inactivo) */
+  error?: string
+  createdAt: string
+  lastAttemptAt?: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' })
+      }
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => {
+      dbPromise = null
+      reject(req.error)
+    }
+  })
+  return dbPromise
+}
+
+const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const req = fn(tx.objectStore(STORE))
+    tx.oncomplete = () => resolve(req.result as T)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Referencia única de la venta, generada antes del primer intento en línea. El
+ * backend la usa para no duplicar una venta que sí alcanzó a registrar.
+ */
+export const newClientReference = () => `${getTerminalId()}-${Date.now().toString(36).toUpperCase()}-${generateRandomCode(6)}`
+
+/**
+ * Número provisional secuencial por día e incluye la terminal para no repetirse
+ * entre cajas; el backend asigna el definitivo al sincronizar.
+ */
+export const nextProvisionalNumber = () => {
+  const now = new Date()
+  const day = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`
+  let seq = 1
+  try {
+    const saved = JSON.parse(localStorage.getItem(SEQ_KEY) || '{}')
+    if (saved.day === day) seq = (saved.seq || 0) + 1
+  } catch { /* ignorar */ }
+  localStorage.setItem(SEQ_KEY, JSON.stringify({ day, seq }))
+  return `OFF-${getTerminalId().replace(/^CAJA-/, '')}-${day}-${String(seq).padStart(4, '0')}`
+}
+
+export const offlineSalesDb = {
+  getAll: async () => {
+    const sales = await run<OfflineSale[]>('readonly', (store) => store.getAll())
+    return sales.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  },
+
+  put: (sale: OfflineSale) => run<IDBValidKey>('readwrite', (store) => store.put(sale)),
+
+  remove: (id: string) => run<undefined>('readwrite', (store) => store.delete(id)),
+}
+
+/**
+ * Un error sin respuesta (timeout, red caída, backend apagado) significa que la
+ * venta puede quedar en cola. Un 5xx no: el backend pudo registrarla antes de fallar.
+ */
+export const isNetworkError = (error: any) =>
+  !error?.response || error.code === 'ERR_NETWORK' || error.code === 'ECONNABORTED'
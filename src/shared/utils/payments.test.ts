@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { buildPaymentLines, getInvoicePayments, resolvePaymentMethod, summarizeTenders, TenderLine } from './payments'
+
+const line = (method: string, amount: number, overrides: Partial<TenderLine> = {}): TenderLine => ({
+  id: `${method}-${amount}`,
+  method,
+  amount,
+  ...overrides,
+})
+
+describe('summarizeTenders', () => {
+  it('da el cambio solo sobre el efectivo', () => {
+    const summary = summarizeTenders([line('TARJETA_DEBITO', 30000), line('EFECTIVO', 50000)], 62000)
+    expect(summary.paid).toBe(80000)
+    expect(summary.change).toBe(18000)
+    expect(summary.isComplete).toBe(true)
+  })
+
+  it('no acepta pagos electrónicos por encima del total', () => {
+    const summary = summarizeTenders([line('TARJETA_CREDITO', 70000)], 62000)
+    expect(summary.nonCashExceeds).toBe(true)
+    expect(summary.change).toBe(0)
+    expect(summary.isComplete).toBe(false)
+  })
+
+  it('suma las líneas de una misma tarjeta de regalo contra su saldo', () => {
+    const summary = summarizeTenders([
+      line('TARJETA_REGALO', 20000, { reference: 'gc-ab12-cd34', giftCardBalance: 30000 }),
+      line('TARJETA_REGALO', 15000, { reference: 'GC-AB12-CD34', giftCardBalance: 30000 }),
+    ], 35000)
+    expect(summary.giftCardPending).toBe(true)
+    expect(summary.isComplete).toBe(false)
+  })
+
+  it('deja pendiente una tarjeta de regalo sin consultar', () => {
+    const summary = summarizeTenders([line('TARJETA_REGALO', 10000, { reference: 'GC-AB12-CD34' })], 10000)
+    expect(summary.giftCardPending).toBe(true)
+  })
+})
+
+describe('buildPaymentLines', () => {
+  it('descuenta el cambio del efectivo para que los pagos cuadren con el total', () => {
+    const payments = buildPaymentLines([line('NEQUI', 30000), line('EFECTIVO', 20000), line('EFECTIVO', 30000)], 62000)
+    expect(payments).toEqual([
+      { paymentMethod: 'NEQUI', amount: 30000 },
+      { paymentMethod: 'EFECTIVO', amount: 32000 },
+    ])
+  })
+
+  it('saca el cambio primero del efectivo en pesos y conserva la divisa completa', () => {
+    const payments = buildPaymentLines([
+      line('EFECTIVO', 40000, { currency: 'USD', foreignAmount: 10, exchangeRate: 4000 }),
+      line('EFECTIVO', 10000),
+    ], 45000)
+    expect(payments).toEqual([
+      { paymentMethod: 'EFECTIVO', amount: 40000, currency: 'USD', foreignAmount: 10, exchangeRate: 4000 },
+      { paymentMethod: 'EFECTIVO', amount: 5000 },
+    ])
+  })
+
+  it('agrupa las tarjetas de regalo por código', () => {
+    const payments = buildPaymentLines([
+      line('TARJETA_REGALO', 10000, { reference: ' gc-1 ' }),
+      line('TARJETA_REGALO', 5000, { reference: 'GC-1' }),
+      line('TARJETA_REGALO', 5000, { reference: 'GC-2' }),
+    ], 20000)
+    expect(payments).toEqual([
+      { paymentMethod: 'TARJETA_REGALO', amount: 15000, reference: 'GC-1' },
+      { paymentMethod: 'TARJETA_REGALO', amount: 5000, reference: 'GC-2' },
+    ])
+  })
+})
+
+describe('resolvePaymentMethod', () => {
+  it('usa MIXTO con más de un pago', () => {
+    expect(resolvePaymentMethod([])).toBe('EFECTIVO')
+    expect(resolvePaymentMethod([{ paymentMethod: 'NEQUI', amount: 1 }])).toBe('NEQUI')
+    expect(resolvePaymentMethod([{ paymentMethod: 'NEQUI', amount: 1 }, { paymentMethod: 'EFECTIVO', amount: 1 }])).toBe('MIXTO')
+  })
+})
+
+describe('getInvoicePayments', () => {
+  it('asume un único pago por el total en facturas sin desglose', () => {
+    expect(getInvoicePayments({ paymentMethod: 'EFECTIVO', total: 12000 })).toEqual([{ paymentMethod: 'EFECTIVO', amount: 12000 }])
+    expect(getInvoicePayments({ total: 12000 })).toEqual([])
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Utilidades para pagos divididos (MIXTO): líneas de pago, saldo pendiente y cambio.
+ * El cambio solo se calcula sobre la porción en efectivo; los medios electrónicos
+ * nunca pueden superar el saldo a pagar.
+ */
+
+import { hasMessage, t } from '@/core/i18n'
+
+/** Medios de pago directos; el nombre visible sale de `getPaymentMethodLabel` */
+export const PAYMENT_METHODS = [
+  { value: 'EFECTIVO' },
+  { value: 'TRANSFERENCIA' },
+  { value: 'NEQUI' },
+  { value: 'DAVIPLATA' },
+  { value: 'TARJETA_DEBITO' },
+  { value: 'TARJETA_CREDITO' },
+] as const
+
+/** Venta a crédito del cliente ("fiado"); solo se ofrece cuando hay un cliente seleccionado */
+export const CREDIT_PAYMENT_METHOD = { value: 'CREDITO' } as const
+
+/** Redención de saldo de una tarjeta de regalo; cada línea lleva el código en `reference` */
+export const GIFT_CARD_PAYMENT_METHOD = { value: 'TARJETA_REGALO' } as const
+
+/** Nombre del medio en el idioma del usuario; un medio desconocido se muestra tal cual */
+export const getPaymentMethodLabel = (method: string) => {
+  const key = `payment.${method}`
+  return hasMessage(key) ? t(key) : method
+}
+
+/** Etiqueta de una línea de pago; el efectivo en divisa lleva la moneda ("Efectivo USD") */
+export const getPaymentLineLabel = (payment: { paymentMethod: string; currency?: string | null }) =>
+  payment.currency ? `${getPaymentMethodLabel(payment.paymentMethod)} ${payment.currency}` : getPaymentMethodLabel(payment.paymentMethod)
+
+export interface TenderLine {
+  id: string
+  method: string
+  amount: number
+  /** Código de la tarjeta de regalo */
+  reference?: string
+  /** Saldo consultado de la tarjeta; sin consultar no se puede cobrar con ella */
+  giftCardBalance?: number
+  /** Efectivo en divisa: `amount` es su equivalente en moneda base a `exchangeRate` */
+  currency?: string
+  foreignAmount?: number
+  exchangeRate?: number
+}
+
+export interface TenderSummary {
+  cashTotal: number
+  nonCashTotal: number
+  paid: number
+  remaining: number
+  change: number
+  /** Los pagos electrónicos superan el total (no se puede dar cambio sobre ellos) */
+  nonCashExceeds: boolean
+  /** Hay una tarjeta de regalo sin consultar o por encima de su saldo */
+  giftCardPending: boolean
+  isComplete: boolean
+}
+
+let tenderSeq = 0
+export const createTenderLine = (method: string, amount = 0): TenderLine => ({
+  id: `t-${Date.now()}-${tenderSeq++}`,
+  method,
+  amount,
+})
+
+export const summarizeTenders = (lines: TenderLine[], total: number): TenderSummary => {
+  const cashTotal = lines.filter((l) => l.method === 'EFECTIVO').reduce((acc, l) => acc + (l.amount || 0), 0)
+  const nonCashTotal = lines.filter((l) => l.method !== 'EFECTIVO').reduce((acc, l) => acc + (l.amount || 0), 0)
+  const paid = cashTotal + nonCashTotal
+  const cashDue = Math.max(0, total - nonCashTotal)
+  const change = Math.max(0, cashTotal - cashDue)
+  const nonCashExceeds = nonCashTotal > total + 0.5
+  // Una misma tarjeta puede aparecer en varias líneas: se compara la suma contra su saldo
+  const giftCardUse = new Map<string, { amount: number; balance?: number }>()
+  lines.filter((l) => l.method === GIFT_CARD_PAYMENT_METHOD.value && l.amount > 0).forEach((l) => {
+    const key = (l.reference || '').trim().toUpperCase()
+    const entry = giftCardUse.get(key) || { amount: 0, balance: l.giftCardBalance }
+    giftCardUse.set(key, { amount: entry.amount + l.amount, balance: l.giftCardBalance ?? entry.balance })
+  })
+  const giftCardPending = Array.from(giftCardUse.entries())
+    .some(([code, use]) => !code || use.balance == null || use.amount > use.balance + 0.5)
+  return {
+    cashTotal,
+    nonCashTotal,
+    paid,
+    remaining: Math.max(0, total - paid),
+    change,
+    nonCashExceeds,
+    giftCardPending,
+    isComplete: !nonCashExceeds && !giftCardPending && paid + 0.5 >= total,
+  }
+}
+
+export interface PaymentLine {
+  paymentMethod: string
+  amount: number
+  reference?: string
+  currency?: string
+  foreignAmount?: number
+  exchangeRate?: number
+}
+
+/**
+ * Convierte las líneas capturadas en el desglose que se envía al backend.
+ * Agrupa por método (y divisa) y descuenta el cambio de la porción en efectivo, de modo
+ * que la suma de `amount` siempre coincide con el total de la factura. El cambio sale
+ * primero del efectivo en moneda base; la divisa conserva `foreignAmount` completo
+ * porque entra entera al cajón.
+ */
+export const buildPaymentLines = (lines: TenderLine[], total: number): PaymentLine[] => {
+  const { change } = summarizeTenders(lines, total)
+  // Las tarjetas de regalo se agrupan por código: cada una se redime por separado
+  const byMethod = new Map<string, PaymentLine>()
+  lines.forEach((l) => {
+    if (!l.amount || l.amount <= 0) return
+    const reference = l.method === GIFT_CARD_PAYMENT_METHOD.value ? (l.reference || '').trim().toUpperCase() : undefined
+    const currency = l.method === 'EFECTIVO' && l.currency ? l.currency : undefined
+    const key = reference ? `${l.method}:${reference}` : currency ? `${l.method}:${currency}` : l.method
+    const entry = byMethod.get(key) || {
+      paymentMethod: l.method,
+      amount: 0,
+      ...(reference ? { reference } : {}),
+      ...(currency ? { currency, foreignAmount: 0, exchangeRate: l.exchangeRate } : {}),
+    }
+    byMethod.set(key, {
+      ...entry,
+      amount: entry.amount + l.amount,
+      ...(currency ? { foreignAmount: Math.round(((entry.foreignAmount || 0) + (l.foreignAmount || 0)) * 100) / 100 } : {}),
+    })
+  })
+  let pendingChange = change
+  const cashKeys = ['EFECTIVO', ...Array.from(byMethod.keys()).filter((k) => k.startsWith('EFECTIVO:'))]
+  cashKeys.forEach((key) => {
+    const cash = byMethod.get(key)
+    if (!cash || pendingChange <= 0) return
+    const applied = Math.min(cash.amount, pendingChange)
+    byMethod.set(key, { ...cash, amount: cash.amount - applied })
+    pendingChange -= applied
+  })
+  return Array.from(byMethod.values()).filter((p) => p.amount > 0)
+}
+
+/** El desglose se muestra con pagos divididos o cuando hubo efectivo en divisa */
+export const hasPaymentBreakdown = (payments?: PaymentLine[] | null) =>
+  !!payments && (payments.length > 1 || payments.some((p) => !!p.currency))
+
+/** Método principal de la venta: el único usado, o MIXTO si hay varios */
+export const resolvePaymentMethod = (payments: PaymentLine[]) => {
+  if (payments.length === 0) return 'EFECTIVO'
+  return payments.length === 1 ? payments[0].paymentMethod : 'MIXTO'
+}
+
+/**
+ * Desglose de pagos de una factura. Las facturas anteriores a los pagos mixtos
+ * no traen `payments`, así que se asume un único pago por el total.
+ */
+export const getInvoicePayments = (inv: { paymentMethod?: string | null; total?: number; payments?: PaymentLine[] | null }): PaymentLine[] => {
+  if (inv.payments && inv.payments.length > 0) return inv.payments
+  if (!inv.paymentMethod) return []
+  return [{ paymentMethod: inv.paymentMethod, amount: Number(inv.total) || 0 }]
+}
@@ -0,0 +1,51 @@
+/**
+ * Listas de precios (Detal, Mayorista, Empleados): el precio unitario de un producto
+ * para un cliente. Orden de precedencia: precio por volumen > precio fijo del producto >
+ * regla de su categoría > regla general > precio de venta del producto.
+ */
+
+import type { Customer, PriceList } from '@/types'
+
+interface PricedProduct {
+  id: number
+  salePrice: number
+  categoryId?: number | null
+}
+
+/** Lista del cliente, o la lista por defecto si no tiene una (o la suya está inactiva) */
+export const resolvePriceList = (lists: PriceList[], customer?: Pick<Customer, 'priceListId'> | null) => {
+  const active = lists.filter((l) => l.isActive)
+  return (customer?.priceListId ? active.find((l) => l.id === customer.priceListId) : undefined) ||
+    active.find((l) => l.isDefault) ||
+    null
+}
+
+/** Precio unitario del producto en la lista cuando el ticket lleva `quantity` unidades de él */
+export const getListPrice = (
+  list: Pick<PriceList, 'items' | 'rules' | 'quantityBreaks'> | null,
+  product: PricedProduct,
+  quantity = 1,
+) => {
+  if (!list) return product.salePrice
+
+  const quantityBreak = (list.quantityBreaks || [])
+    .filter((b) => b.productId === product.id && quantity >= b.minQuantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0]
+  if (quantityBreak) return quantityBreak.price
+
+  const item = (list.items || []).find((i) => i.productId === product.id)
+  if (item) return item.price
+
+  const rules = list.rules || []
+  const rule = rules.find((r) => r.categoryId != null && r.categoryId === product.categoryId) ||
+    rules.find((r) => r.categoryId == null)
+  if (rule) return Math.max(0, Math.round(product.salePrice * (1 - rule.discountPercent / 100)))
+
+  return product.salePrice
+}
+
+/** Tramos por volumen del producto, de menor a mayor cantidad, para mostrarlos en el POS */
+export const getQuantityBreaks = (list: PriceList | null, productId: number) =>
+  (list?.quantityBreaks || [])
+    .filter((b) => b.productId === productId)
+    .sort((a, b) => a.minQuantity - b.minQuantity)
@@ -1,66 +1,93 @@
 /**
- * Utilidad reutilizable para impresión de facturas en térmica 58mm.
- * Resuelve: papel en blanco, márgenes excesivos, páginas extra.
+ * Utilidad reutilizable para impresión de facturas en térmica 58mm u 80mm.
+ * Con impresora ESC/POS configurada envía los comandos directo (sin diálogo);
+ * si falla, o la terminal usa el navegador, imprime el HTML con window.print.
+ * El HTML resuelve: papel en blanco, márgenes excesivos, páginas extra.
  */
 
-const formatCurrency = (value: number) =>
-  new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(value || 0)
+import { createElement } from 'react'
+import toast from 'react-hot-toast'
+import { getPaymentMethodLabel, getPaymentLineLabel, hasPaymentBreakdown, PaymentLine } from './payments'
+import { describeForeignPayment, formatForeignCurrency } from './currency'
+import { formatModifiers } from './modifiers'
+import { getDetailsTaxBreakdown, TaxBreakdownEntry } from './taxes'
+import { createEscPos, PaperWidth } from './escpos'
+import { loadPrinterConfig, sendToPrinter } from './receiptPrinter'
+import { ReceiptTemplate, normalizeReceiptTemplate, getReceiptHeaderLines } from './receiptTemplate'
+import { DianConfig, normalizeDianConfig, computeCufe, getDianQrUrl } from './dian'
+import { qrToSvg } from './qrCode'
+import { formatCurrency, formatDateTime } from './format'
+import { getLanguage, t } from '@/core/i18n'
+import type { SelectedModifier, TaxType } from '@/types'
 
-const formatDate = (dateStr: string) => {
-  const date = new Date(dateStr)
-  return date.toLocaleDateString('es-CO', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })
-}
-
-const getPaymentMethodLabel = (method: string) => {
-  switch (method) {
-    case 'EFECTIVO': return 'Efectivo'
-    case 'TRANSFERENCIA': return 'Transferencia'
-    case 'TARJETA_CREDITO': return 'Tarjeta Crédito'
-    case 'TARJETA_DEBITO': return 'Tarjeta Débito'
-    case 'NEQUI': return 'Nequi'
-    case 'DAVIPLATA': return 'Daviplata'
-    default: return method
-  }
-}
-
-interface PrintableInvoice {
+export interface PrintableInvoice {
   invoiceNumber: string
   createdAt: string
-  customer?: { fullName?: string } | null
+  customer?: { fullName?: string; documentNumber?: string } | null
   customerName?: string
+  customerDocument?: string
   userName?: string
-  details?: Array<{ quantity: number; productName: string; subtotal: number; notes?: string }>
+  /** Mesa y mesero: solo las cuentas de restaurante los traen */
+  tableName?: string
+  waiterName?: string
+  details?: Array<{ quantity: number; productName: string; subtotal: number; notes?: string; modifiers?: SelectedModifier[] | null; discountAmount?: number; discountReason?: string; taxRate?: number; taxType?: TaxType; taxAmount?: number }>
   subtotal: number
   discountAmount: number
   discountPercent?: number
   serviceChargeAmount?: number
   serviceChargePercent?: number
   deliveryChargeAmount?: number
+  taxAmount?: number
+  /** Desglose calculado en el POS; si falta se arma con los detalles de la factura */
+  taxBreakdown?: TaxBreakdownEntry[]
+  pricesIncludeTax?: boolean
   total: number
   paymentMethod?: string
+  payments?: PaymentLine[]
   amountReceived?: number
   changeAmount?: number
+  /** Contenido del QR al pie (p. ej. la URL de validación de la factura electrónica) */
+  qrData?: string
+  /** CUFE de la factura electrónica; se imprime bajo el QR */
+  cufe?: string
+  /** Programa de puntos: redención aplicada como descuento, puntos ganados y saldo resultante */
+  loyaltyPointsRedeemed?: number
+  loyaltyDiscountAmount?: number
+  couponCode?: string
+  couponDiscountAmount?: number
+  loyaltyPointsEarned?: number
+  loyaltyBalance?: number
+  /** Propina voluntaria: se pagó con la cuenta pero no hace parte del total */
+  tipAmount?: number
 }
 
 interface PrintOptions {
   isPreBill?: boolean
+  /** Venta hecha sin conexión: número provisional hasta que se sincronice */
+  isProvisional?: boolean
+  /** Nota crédito: `invoiceNumber` es el número de la nota y este el de la factura afectada */
+  creditNoteFor?: string
+  /** Abrir el cajón monedero (solo ESC/POS y si la terminal lo tiene activo) */
+  openDrawer?: boolean
+  /** Comprobante de carga de una tarjeta de regalo: `invoiceNumber` es el código de la tarjeta */
+  giftCard?: { balance: number; expiresAt?: string }
 }
 
 /**
- * CSS optimizado para impresoras térmicas 58mm.
+ * CSS optimizado para impresoras térmicas (58mm u 80mm).
  * - @page sin márgenes para evitar páginas vacías
  * - @media print fuerza el ancho correcto
  * - body height auto para que el contenido determine el largo del ticket
  */
-const thermalCSS = `
+const thermalCSS = (paperWidth: PaperWidth) => `
   * { margin: 0; padding: 0; box-sizing: border-box; }
   @page {
-    size: 58mm auto;
+    size: ${paperWidth}mm auto;
     margin: 0;
   }
   @media print {
     html, body {
-      width: 58mm;
+      width: ${paperWidth}mm;
       margin: 0;
       padding: 0;
       overflow: hidden;
@@ -71,9 +98,9 @@ const thermalCSS = `
   body {
     font-family: 'Courier New', monospace;
     padding: 1mm 0.5mm;
-    width: 54mm;
-    max-width: 54mm;
-    font-size: 8px;
+    width: ${paperWidth - 4}mm;
+    max-width: ${paperWidth - 4}mm;
+    font-size: ${paperWidth === 80 ? 10 : 8}px;
     line-height: 1.2;
     color: #000000 !important;
     -webkit-font-smoothing: antialiased;
@@ -83,6 +110,7 @@ const thermalCSS = `
   .header { text-align: center; margin-bottom: 6px; border-bottom: 1px dashed #000; padding-bottom: 6px; }
   .header h1 { margin: 0 0 2px; font-size: 14px; text-transform: uppercase; font-weight: 900; color: #000000 !important; }
   .header .invoice-num { font-size: 12px; font-weight: 900; color: #000000 !important; }
+  .header img.logo { display: block; max-width: 70%; max-height: 20mm; margin: 0 auto 4px; filter: grayscale(1); }
   .header p { margin: 1px 0; font-size: 10px; color: #000000 !important; font-weight: 600; }
   .pre-bill-banner { text-align: center; font-size: 13px; font-weight: 900; border: 2px dashed #000; padding: 4px; margin-bottom: 6px; text-transform: uppercase; color: #000000 !important; }
   .info { margin-bottom: 6px; }
@@ -100,57 +128,522 @@ const thermalCSS = `
   .payment-info div { display: flex; justify-content: space-between; margin: 1px 0; color: #000000 !important; font-weight: 600; padding-right: 1mm; font-size: 9px; }
   .payment-info div span:first-child { flex: 1; margin-right: 1px; }
   .payment-info div span:last-child { flex-shrink: 0; text-align: right; }
+  .footer .legal { font-size: 8px; margin-bottom: 4px; }
+  .footer .qr svg { display: block; width: ${paperWidth === 80 ? 34 : 28}mm; height: auto; margin: 4px auto; }
+  .footer .cufe { font-size: 7px; word-break: break-all; }
   .footer { text-align: center; margin-top: 8px; font-size: 9px; color: #000000 !important; border-top: 1px dashed #000; padding-top: 6px; font-weight: 600; }
   .cut-line { text-align: center; margin-top: 10px; font-size: 9px; color: #000000 !important; }
 `
 
-export function printInvoice(inv: PrintableInvoice, options: PrintOptions = {}) {
+interface ReceiptSettings {
+  company: { companyName?: string; legalName?: string; taxId?: string; address?: string; phone?: string; logoUrl?: string; pricesIncludeTax?: boolean }
+  receipt?: Partial<ReceiptTemplate>
+  dian?: Partial<DianConfig>
+}
+
+const loadReceiptSettings = (): ReceiptSettings => {
   const settings = JSON.parse(localStorage.getItem('pos_settings') || '{}')
-  const companyName = settings?.company?.companyName || 'Mi Empresa'
-  const { isPreBill = false } = options
+  return { company: settings?.company || {}, receipt: settings?.receipt, dian: settings?.dian }
+}
+
+/**
+ * Con facturación electrónica activa, las facturas llevan el CUFE y su QR de consulta.
+ * Pre-cuentas, tiquetes provisionales y notas crédito no son facturas de venta.
+ */
+const withElectronicInvoiceData = async (inv: PrintableInvoice, options: PrintOptions, settings: ReceiptSettings) => {
+  const dian = normalizeDianConfig(settings.dian)
+  if (!dian.enabled || inv.qrData || options.isPreBill || options.isProvisional || options.creditNoteFor || options.giftCard) return inv
+  try {
+    const cufe = await computeCufe(inv, settings.company, dian)
+    return { ...inv, cufe, qrData: getDianQrUrl(cufe, dian.environment) }
+  } catch (error) {
+    // crypto.subtle solo existe en contexto seguro (https o localhost)
+    console.error('Error calculando el CUFE:', error)
+    return inv
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const getInvoiceTaxes = (inv: PrintableInvoice, settings: ReceiptSettings) => {
+  // Con precios con impuesto incluido el desglose es informativo; si no, se suma al total
+  const pricesIncludeTax: boolean = inv.pricesIncludeTax ?? settings.company.pricesIncludeTax ?? true
+  const taxBreakdown = inv.taxBreakdown && inv.taxBreakdown.length > 0
+    ? inv.taxBreakdown
+    : getDetailsTaxBreakdown(inv.details || [])
+  return { pricesIncludeTax, taxBreakdown }
+}
+
+const getBannerText = ({ isPreBill, isProvisional, creditNoteFor, giftCard }: PrintOptions) =>
+  isPreBill ? t('receipt.preBillBanner')
+    : isProvisional ? t('receipt.provisionalBanner')
+    : creditNoteFor ? t('receipt.creditNoteBanner')
+    : giftCard ? t('receipt.giftCardBanner') : ''
+
+const getFooterText = ({ isPreBill, creditNoteFor, giftCard }: PrintOptions, template: ReceiptTemplate) =>
+  isPreBill ? t('receipt.notFiscal')
+    : creditNoteFor ? t('receipt.refundRegistered')
+    : giftCard ? `${t('receipt.giftCardBalance', { amount: formatCurrency(giftCard.balance) })}${giftCard.expiresAt ? t('receipt.giftCardExpires', { date: giftCard.expiresAt.split('T')[0] }) : ''}`
+    : template.footerText
+
+/** Puntos ganados y saldo del cliente; solo en facturas pagadas con cliente del programa */
+const getLoyaltyLines = (inv: PrintableInvoice, { isPreBill, creditNoteFor, giftCard }: PrintOptions) => {
+  if (isPreBill || creditNoteFor || giftCard) return []
+  return [
+    (inv.loyaltyPointsEarned || 0) > 0 ? t('receipt.pointsEarned', { points: inv.loyaltyPointsEarned! }) : '',
+    inv.loyaltyBalance != null ? t('receipt.pointsBalance', { points: inv.loyaltyBalance }) : '',
+  ].filter(Boolean)
+}
+
+/** Renglones de datos de la venta (cliente, documento, mesa, mesero, cajero) según la plantilla */
+const getInfoLines = (inv: PrintableInvoice, template: ReceiptTemplate) => {
+  const document = inv.customer?.documentNumber || inv.customerDocument
+  return [
+    t('receipt.customer', { name: inv.customer?.fullName || inv.customerName || t('receipt.generalCustomer') }),
+    template.showCustomerDocument && document ? t('receipt.document', { document }) : '',
+    template.showTable && inv.tableName ? t('receipt.table', { table: inv.tableName }) : '',
+    template.showWaiter && inv.waiterName ? t('receipt.waiter', { name: inv.waiterName }) : '',
+    template.showCashier ? t('receipt.cashier', { name: inv.userName || '-' }) : '',
+  ].filter(Boolean)
+}
+
+/** Etiquetas de renglones que comparten el tiquete ESC/POS y el HTML */
+const includedLabel = (pricesIncludeTax: boolean) => (pricesIncludeTax ? t('receipt.taxIncluded') : '')
+
+const lineDiscountText = (d: { discountReason?: string; discountAmount?: number }) =>
+  t('receipt.lineDiscount', { reason: d.discountReason ? ` ${d.discountReason}` : '', amount: formatCurrency(d.discountAmount || 0) })
+
+const taxBaseLabel = (entry: TaxBreakdownEntry, pricesIncludeTax: boolean) =>
+  t('receipt.taxBase', { label: entry.label, included: includedLabel(pricesIncludeTax), base: formatCurrency(entry.base) })
+
+const discountLabel = (inv: PrintableInvoice) =>
+  t('receipt.discount', { percent: inv.discountPercent ? ` (${inv.discountPercent}%)` : '' })
+
+/**
+ * Mismo contenido del tiquete HTML, como comandos ESC/POS.
+ * El logo solo sale en HTML: en ESC/POS habría que rasterizar la imagen.
+ */
+const buildInvoiceEscPos = (inv: PrintableInvoice, options: PrintOptions, paperWidth: PaperWidth, openDrawer: boolean) => {
+  const settings = loadReceiptSettings()
+  const template = normalizeReceiptTemplate(settings.receipt)
+  const companyName = settings.company.companyName || t('receipt.defaultCompany')
+  const { isPreBill = false, isProvisional = false, creditNoteFor } = options
+  const { pricesIncludeTax, taxBreakdown } = getInvoiceTaxes(inv, settings)
+  const p = createEscPos(paperWidth)
+
+  if (openDrawer) p.openDrawer()
+
+  const banner = getBannerText(options)
+  p.align('center')
+  if (banner) p.bold().text(banner).bold(false)
+  p.bold().size(2).text(companyName.toUpperCase()).size(1).bold(false)
+  getReceiptHeaderLines(settings.company, template).forEach((line) => p.text(line))
+  p.bold().text(t('receipt.number', { number: inv.invoiceNumber })).bold(false)
+  if (creditNoteFor) p.text(t('receipt.affectedInvoice', { number: creditNoteFor }))
+  p.text(formatDateTime(inv.createdAt))
+
+  p.align('left').separator()
+  getInfoLines(inv, template).forEach((line) => p.text(line))
+  p.separator()
+
+  ;(inv.details || []).forEach((d) => {
+    const hasDiscount = !!d.discountAmount && d.discountAmount > 0
+    p.row(`${d.quantity} x ${d.productName}${hasDiscount ? ' *' : ''}`, formatCurrency(d.subtotal))
+    if (d.modifiers && d.modifiers.length > 0) p.text(`  + ${formatModifiers(d.modifiers)}`)
+    if (hasDiscount) p.text(`  ${lineDiscountText(d)}`)
+  })
+  p.separator()
+
+  const taxRows = () => {
+    if (!template.showTaxBreakdown) return
+    const rows = taxBreakdown.filter((entry) => entry.rate > 0)
+    if (rows.length > 0) {
+      rows.forEach((entry) => p.row(taxBaseLabel(entry, pricesIncludeTax), `${pricesIncludeTax ? '' : '+'}${formatCurrency(entry.tax)}`))
+    } else if (taxBreakdown.length === 0 && (inv.taxAmount || 0) > 0) {
+      p.row(t('receipt.taxes', { included: includedLabel(pricesIncludeTax) }), `${pricesIncludeTax ? '' : '+'}${formatCurrency(inv.taxAmount!)}`)
+    }
+  }
+
+  p.row(t('receipt.subtotal'), formatCurrency(inv.subtotal))
+  if (inv.discountAmount > 0) p.row(discountLabel(inv), `-${formatCurrency(inv.discountAmount)}`)
+  // Sin impuesto incluido el impuesto suma al total, así que se imprime aunque la plantilla oculte el desglose
+  if (!pricesIncludeTax && !template.showTaxBreakdown && (inv.taxAmount || 0) > 0) p.row(t('receipt.taxes', { included: '' }), `+${formatCurrency(inv.taxAmount!)}`)
+  if (!pricesIncludeTax) taxRows()
+  if ((inv.serviceChargeAmount || 0) > 0) p.row(t('receipt.serviceCharge', { percent: inv.serviceChargePercent || 10 }), `+${formatCurrency(inv.serviceChargeAmount!)}`)
+  if ((inv.deliveryChargeAmount || 0) > 0) p.row(t('receipt.deliveryCharge'), `+${formatCurrency(inv.deliveryChargeAmount!)}`)
+  if ((inv.couponDiscountAmount || 0) > 0) p.row(t('receipt.coupon', { code: inv.couponCode || '' }), `-${formatCurrency(inv.couponDiscountAmount!)}`)
+  if ((inv.loyaltyDiscountAmount || 0) > 0) p.row(t('receipt.loyaltyRedemption', { points: inv.loyaltyPointsRedeemed || '' }), `-${formatCurrency(inv.loyaltyDiscountAmount!)}`)
+  p.separator('=').bold().size(1, 2).row(t('receipt.total'), formatCurrency(inv.total)).size(1).bold(false)
+  if (pricesIncludeTax) taxRows()
+
+  if (!isPreBill && inv.paymentMethod) {
+    p.separator()
+    if ((inv.tipAmount || 0) > 0) {
+      p.row(t('receipt.tip'), `+${formatCurrency(inv.tipAmount!)}`)
+      p.bold().row(t('receipt.totalPaid'), formatCurrency(inv.total + inv.tipAmount!)).bold(false)
+    }
+    p.row(creditNoteFor ? t('receipt.refund') : t('receipt.method'), getPaymentMethodLabel(inv.paymentMethod))
+    if (hasPaymentBreakdown(inv.payments)) {
+      inv.payments!.forEach((pay) => {
+        p.row(`  ${getPaymentLineLabel(pay)}:`, formatCurrency(pay.amount))
+        if (pay.currency) p.text(`    ${describeForeignPayment(pay, formatCurrency)}`)
+      })
+    }
+    if ((inv.amountReceived || 0) > 0) p.row(t('receipt.received'), formatCurrency(inv.amountReceived!))
+    if ((inv.changeAmount || 0) > 0) p.bold().row(t('receipt.change'), formatCurrency(inv.changeAmount!)).bold(false)
+  }
+
+  const loyaltyLines = getLoyaltyLines(inv, options)
+  if (loyaltyLines.length > 0) {
+    p.separator()
+    loyaltyLines.forEach((line) => p.text(line))
+  }
+
+  p.separator().align('center')
+  if (!isPreBill && !options.giftCard && template.legalText.trim()) p.text(template.legalText.trim()).feed(1)
+  p.text(getFooterText(options, template))
+  if (isProvisional) p.text(t('receipt.provisionalNote'))
+  if (inv.qrData) p.qr(inv.qrData)
+  if (inv.cufe) p.text(t('receipt.electronicInvoice')).text(`CUFE: ${inv.cufe}`)
+  if (!isPreBill) p.barcode(inv.invoiceNumber)
+  return p.feed(2).cut().build()
+}
+
+const writePrintWindow = (printWindow: Window | null, html: string) => {
+  if (printWindow) {
+    printWindow.document.write(html)
+    printWindow.document.close()
+  }
+}
+
+/**
+ * El navegador bloquea `window.open` que no sale de un clic, y tras esperar a la
+ * impresora ya no lo es: el respaldo HTML se ofrece con un botón en el aviso.
+ */
+const offerHtmlFallback = (error: any, html: string) => {
+  toast.error((current) => createElement('span', null,
+    `${t('receipt.printerError', { error: error?.message || t('receipt.printerNoResponse') })} `,
+    createElement('button', {
+      className: 'font-semibold underline',
+      onClick: () => {
+        toast.dismiss(current.id)
+        writePrintWindow(window.open('', '_blank'), html)
+      },
+    }, t('receipt.printInBrowser')),
+  ), { duration: 15000 })
+}
+
+/**
+ * Imprime por ESC/POS si la terminal tiene impresora configurada; si el envío
+ * falla avisa y ofrece el tiquete HTML para no dejar al cliente sin comprobante.
+ */
+export async function printInvoice(printable: PrintableInvoice, options: PrintOptions = {}) {
+  const config = loadPrinterConfig()
+  const settings = loadReceiptSettings()
+  // Se abre antes de calcular el CUFE, mientras dura el clic que pidió imprimir
+  const printWindow = config.mode === 'html' ? window.open('', '_blank') : null
+  const inv = await withElectronicInvoiceData(printable, options, settings)
+  const html = renderInvoiceHtml(inv, options, config.paperWidth, settings, true)
+  if (config.mode === 'html') {
+    writePrintWindow(printWindow, html)
+    return
+  }
+  try {
+    await sendToPrinter(buildInvoiceEscPos(inv, options, config.paperWidth, !!options.openDrawer && config.openDrawer), config)
+  } catch (error: any) {
+    offerHtmlFallback(error, html)
+  }
+}
+
+// Se arma al pedir la vista previa para que salga en el idioma del usuario
+const getPreviewInvoice = (): PrintableInvoice => ({
+  invoiceNumber: 'FV-000123',
+  createdAt: new Date().toISOString(),
+  customerName: t('receipt.previewCustomer'),
+  customerDocument: '1.020.304.050',
+  userName: t('receipt.previewCashier'),
+  tableName: t('receipt.previewTable'),
+  waiterName: t('receipt.previewWaiter'),
+  details: [
+    { quantity: 2, productName: t('receipt.previewProduct'), subtotal: 20000, taxRate: 19 },
+    { quantity: 1, productName: t('receipt.previewOtherProduct'), subtotal: 8500, taxRate: 19, discountAmount: 1500, discountReason: t('receipt.previewDiscountReason') },
+  ],
+  subtotal: 28500,
+  discountAmount: 0,
+  total: 28500,
+  paymentMethod: 'EFECTIVO',
+  amountReceived: 30000,
+  changeAmount: 1500,
+})
+
+/** HTML de un tiquete de ejemplo con la plantilla y los datos de empresa sin guardar (vista previa en Configuración) */
+export const renderReceiptPreview = (company: ReceiptSettings['company'], template: ReceiptTemplate, paperWidth: PaperWidth) =>
+  renderInvoiceHtml(getPreviewInvoice(), {}, paperWidth, { company, receipt: template }, false)
+
+function renderInvoiceHtml(inv: PrintableInvoice, options: PrintOptions, paperWidth: PaperWidth, settings: ReceiptSettings, autoPrint: boolean) {
+  const template = normalizeReceiptTemplate(settings.receipt)
+  const companyName = settings.company.companyName || t('receipt.defaultCompany')
+  const { isPreBill = false, isProvisional = false, creditNoteFor } = options
 
   const itemsHtml = (inv.details || []).map((d) => {
-    return `<div class="item"><span>${d.quantity} x ${d.productName}</span><span>${formatCurrency(d.subtotal)}</span></div>`
+    const modifiersHtml = d.modifiers && d.modifiers.length > 0
+      ? `<div class="item-notes">+ ${formatModifiers(d.modifiers)}</div>`
+      : ''
+    const discountHtml = d.discountAmount && d.discountAmount > 0
+      ? `<div class="item-notes">${lineDiscountText(d)}</div>`
+      : ''
+    return `<div class="item"><span>${d.quantity} x ${d.productName}${discountHtml ? ' *' : ''}</span><span>${formatCurrency(d.subtotal)}</span></div>${modifiersHtml}${discountHtml}`
   }).join('')
 
-  const preBillBanner = isPreBill ? '<div class="pre-bill-banner">*** PRE-CUENTA ***</div>' : ''
+  const { pricesIncludeTax, taxBreakdown } = getInvoiceTaxes(inv, settings)
+  const taxRowsHtml = !template.showTaxBreakdown
+    ? (!pricesIncludeTax && (inv.taxAmount || 0) > 0 ? `<div><span>${t('receipt.taxes', { included: '' })}</span><span>+${formatCurrency(inv.taxAmount!)}</span></div>` : '')
+    : taxBreakdown.length > 0
+    ? taxBreakdown
+        .filter((entry) => entry.rate > 0)
+        .map((entry) => `<div><span>${taxBaseLabel(entry, pricesIncludeTax)}</span><span>${pricesIncludeTax ? '' : '+'}${formatCurrency(entry.tax)}</span></div>`)
+        .join('')
+    : (inv.taxAmount || 0) > 0
+      ? `<div><span>${t('receipt.taxes', { included: includedLabel(pricesIncludeTax) })}</span><span>${pricesIncludeTax ? '' : '+'}${formatCurrency(inv.taxAmount!)}</span></div>`
+      : ''
+
+  const bannerText = getBannerText(options)
+  const preBillBanner = bannerText ? `<div class="pre-bill-banner">${bannerText}</div>` : ''
+  const logoHtml = template.showLogo && settings.company.logoUrl
+    ? `<img class="logo" src="${escapeHtml(settings.company.logoUrl)}" alt="">`
+    : ''
+  const headerLinesHtml = getReceiptHeaderLines(settings.company, template)
+    .map((line) => `<p>${escapeHtml(line)}</p>`)
+    .join('')
+  const loyaltyLines = getLoyaltyLines(inv, options)
+  const loyaltyHtml = loyaltyLines.length > 0
+    ? `<div class="info">${loyaltyLines.map((line) => `<div>${line}</div>`).join('')}</div>`
+    : ''
+  const legalHtml = !isPreBill && !options.giftCard && template.legalText.trim()
+    ? `<p class="legal">${escapeHtml(template.legalText.trim()).replace(/\n/g, '<br>')}</p>`
+    : ''
+
+  const title = isPreBill ? t('receipt.titlePreBill') : creditNoteFor ? t('receipt.titleCreditNote') : t('receipt.titleInvoice')
 
-  const html = `<!DOCTYPE html>
-<html>
+  return `<!DOCTYPE html>
+<html lang="${getLanguage()}">
 <head>
   <meta charset="utf-8">
-  <title>${isPreBill ? 'Pre-cuenta' : 'Factura'} ${inv.invoiceNumber}</title>
-  <style>${thermalCSS}</style>
+  <title>${title} ${inv.invoiceNumber}</title>
+  <style>${thermalCSS(paperWidth)}</style>
 </head>
 <body>
   ${preBillBanner}
   <div class="header">
-    <h1>${companyName}</h1>
-    <div class="invoice-num">N° ${inv.invoiceNumber}</div>
-    <p>${formatDate(inv.createdAt)}</p>
+    ${logoHtml}
+    <h1>${escapeHtml(companyName)}</h1>
+    ${headerLinesHtml}
+    <div class="invoice-num">${t('receipt.number', { number: inv.invoiceNumber })}</div>
+    ${creditNoteFor ? `<p>${t('receipt.affectedInvoice', { number: creditNoteFor })}</p>` : ''}
+    <p>${formatDateTime(inv.createdAt)}</p>
   </div>
   <div class="info">
-    <div>Cliente: ${inv.customer?.fullName || inv.customerName || 'Cliente General'}</div>
-    <div>Cajero: ${inv.userName || '-'}</div>
+    ${getInfoLines(inv, template).map((line) => `<div>${line}</div>`).join('')}
   </div>
   <div class="items">
     ${itemsHtml}
   </div>
   <div class="totals">
-    <div><span>Subtotal:</span><span>${formatCurrency(inv.subtotal)}</span></div>
-    ${inv.discountAmount > 0 ? `<div><span>Descuento${inv.discountPercent ? ` (${inv.discountPercent}%)` : ''}:</span><span>-${formatCurrency(inv.discountAmount)}</span></div>` : ''}
-    ${(inv.serviceChargeAmount || 0) > 0 ? `<div><span>Cargo Servicio (${inv.serviceChargePercent || 10}%):</span><span>+${formatCurrency(inv.serviceChargeAmount!)}</span></div>` : ''}
-    ${(inv.deliveryChargeAmount || 0) > 0 ? `<div><span>Cargo Domicilio:</span><span>+${formatCurrency(inv.deliveryChargeAmount!)}</span></div>` : ''}
-    <div class="total-final"><span>TOTAL:</span><span>${formatCurrency(inv.total)}</span></div>
+    <div><span>${t('receipt.subtotal')}</span><span>${formatCurrency(inv.subtotal)}</span></div>
+    ${inv.discountAmount > 0 ? `<div><span>${discountLabel(inv)}</span><span>-${formatCurrency(inv.discountAmount)}</span></div>` : ''}
+    ${pricesIncludeTax ? '' : taxRowsHtml}
+    ${(inv.serviceChargeAmount || 0) > 0 ? `<div><span>${t('receipt.serviceCharge', { percent: inv.serviceChargePercent || 10 })}</span><span>+${formatCurrency(inv.serviceChargeAmount!)}</span></div>` : ''}
+    ${(inv.deliveryChargeAmount || 0) > 0 ? `<div><span>${t('receipt.deliveryCharge')}</span><span>+${formatCurrency(inv.deliveryChargeAmount!)}</span></div>` : ''}
+    ${(inv.couponDiscountAmount || 0) > 0 ? `<div><span>${t('receipt.coupon', { code: inv.couponCode || '' })}</span><span>-${formatCurrency(inv.couponDiscountAmount!)}</span></div>` : ''}
+    ${(inv.loyaltyDiscountAmount || 0) > 0 ? `<div><span>${t('receipt.loyaltyRedemption', { points: inv.loyaltyPointsRedeemed || '' })}</span><span>-${formatCurrency(inv.loyaltyDiscountAmount!)}</span></div>` : ''}
+    <div class="total-final"><span>${t('receipt.total')}</span><span>${formatCurrency(inv.total)}</span></div>
+    ${pricesIncludeTax ? taxRowsHtml : ''}
   </div>
   ${!isPreBill && inv.paymentMethod ? `
   <div class="payment-info">
-    <div><span>Método:</span><span>${getPaymentMethodLabel(inv.paymentMethod)}</span></div>
-    ${(inv.amountReceived || 0) > 0 ? `<div><span>Recibido:</span><span>${formatCurrency(inv.amountReceived!)}</span></div>` : ''}
-    ${(inv.changeAmount || 0) > 0 ? `<div style="font-weight:bold;"><span>Cambio:</span><span>${formatCurrency(inv.changeAmount!)}</span></div>` : ''}
+    ${(inv.tipAmount || 0) > 0 ? `<div><span>${t('receipt.tip')}</span><span>+${formatCurrency(inv.tipAmount!)}</span></div>
+    <div style="font-weight:bold;"><span>${t('receipt.totalPaid')}</span><span>${formatCurrency(inv.total + inv.tipAmount!)}</span></div>` : ''}
+    <div><span>${creditNoteFor ? t('receipt.refund') : t('receipt.method')}</span><span>${getPaymentMethodLabel(inv.paymentMethod)}</span></div>
+    ${hasPaymentBreakdown(inv.payments) ? inv.payments!.map((p) => `<div><span>&nbsp;&nbsp;${getPaymentLineLabel(p)}:</span><span>${formatCurrency(p.amount)}</span></div>${p.currency ? `<div><span>&nbsp;&nbsp;&nbsp;&nbsp;${describeForeignPayment(p, formatCurrency)}</span></div>` : ''}`).join('') : ''}
+    ${(inv.amountReceived || 0) > 0 ? `<div><span>${t('receipt.received')}</span><span>${formatCurrency(inv.amountReceived!)}</span></div>` : ''}
+    ${(inv.changeAmount || 0) > 0 ? `<div style="font-weight:bold;"><span>${t('receipt.change')}</span><span>${formatCurrency(inv.changeAmount!)}</span></div>` : ''}
   </div>` : ''}
+  ${loyaltyHtml}
+  <div class="footer">
+    ${legalHtml}
+    <p>${escapeHtml(getFooterText(options, template))}</p>
+    ${isProvisional ? `<p>${t('receipt.provisionalNote')}</p>` : ''}
+    ${inv.qrData ? `<div class="qr">${qrToSvg(inv.qrData)}</div>` : ''}
+    ${inv.cufe ? `<p>${t('receipt.electronicInvoice')}</p><p class="cufe">CUFE: ${inv.cufe}</p>` : ''}
+  </div>
+  <div class="cut-line">- - - - - - - - - - - - -</div>
+  ${autoPrint ? `<script>
+    window.onload = function() {
+      window.print();
+      window.onafterprint = function() { window.close(); };
+      setTimeout(function() { window.close(); }, 3000);
+    };
+  </script>` : ''}
+</body>
+</html>`
+}
+
+export interface PrintableCashReport {
+  sessionId: number
+  terminalId: string
+  userName?: string
+  openedAt: string
+  closedAt?: string
+  openingFloat: number
+  salesCount: number
+  salesTotal: number
+  byMethod: Record<string, number>
+  cashSales: number
+  cashIn: number
+  cashOut: number
+  cashRefunds: number
+  giftCardCash?: number
+  /** Propinas cobradas en el turno (incluidas en los pagos, no en las ventas) */
+  tips?: number
+  expectedCash: number
+  /** Efectivo en divisas, por moneda; `counted` solo en el reporte Z */
+  foreignCash?: Array<{ currency: string; expected: number; counted?: number }>
+  /** Solo en el reporte Z (cierre) */
+  countedCash?: number
+  difference?: number
+  denominations?: Array<{ label: string; quantity: number; subtotal: number }>
+}
+
+const differenceLabel = (difference: number) =>
+  difference > 0 ? t('cashReport.over') : difference < 0 ? t('cashReport.short') : t('cashReport.difference')
+
+/** Mismo contenido del reporte HTML, como comandos ESC/POS */
+const buildCashReportEscPos = (kind: 'X' | 'Z', report: PrintableCashReport, paperWidth: PaperWidth) => {
+  const companyName = loadReceiptSettings().company.companyName || t('receipt.defaultCompany')
+  const p = createEscPos(paperWidth)
+
+  p.align('center').bold().text(t('cashReport.banner', { kind })).bold(false)
+  p.bold().size(2).text(companyName.toUpperCase()).size(1).bold(false)
+  p.bold().text(kind === 'Z' ? t('cashReport.closing') : t('cashReport.partial')).bold(false)
+  p.text(t('cashReport.session', { session: report.sessionId, terminal: report.terminalId }))
+
+  p.align('left').separator()
+  p.text(t('cashReport.cashier', { name: report.userName || '-' }))
+  p.text(t('cashReport.openedAt', { date: formatDateTime(report.openedAt) }))
+  p.text(t(kind === 'Z' ? 'cashReport.closedAt' : 'cashReport.cutAt', { date: formatDateTime(report.closedAt || new Date().toISOString()) }))
+  p.separator()
+
+  p.row(t('cashReport.sales', { count: report.salesCount }), formatCurrency(report.salesTotal))
+  Object.entries(report.byMethod).forEach(([method, amount]) => p.row(`  ${getPaymentMethodLabel(method)}:`, formatCurrency(amount)))
+  if (report.tips) p.row(t('cashReport.tips'), formatCurrency(report.tips))
+  p.separator()
+
+  p.row(t('cashReport.openingFloat'), formatCurrency(report.openingFloat))
+  p.row(t('cashReport.cashSales'), `+${formatCurrency(report.cashSales)}`)
+  if (report.giftCardCash) p.row(t('cashReport.giftCards'), `+${formatCurrency(report.giftCardCash)}`)
+  if (report.cashIn > 0) p.row(t('cashReport.cashIn'), `+${formatCurrency(report.cashIn)}`)
+  if (report.cashOut > 0) p.row(t('cashReport.cashOut'), `-${formatCurrency(report.cashOut)}`)
+  if (report.cashRefunds > 0) p.row(t('cashReport.refunds'), `-${formatCurrency(report.cashRefunds)}`)
+  p.separator('=').bold().row(t('cashReport.expected'), formatCurrency(report.expectedCash)).bold(false)
+
+  if (kind === 'Z' && report.countedCash != null) {
+    const difference = report.difference ?? 0
+    p.separator()
+    p.row(t('cashReport.counted'), formatCurrency(report.countedCash))
+    p.bold().row(`${differenceLabel(difference)}:`, formatCurrency(Math.abs(difference))).bold(false)
+    const denominations = (report.denominations || []).filter((d) => d.quantity > 0)
+    if (denominations.length > 0) {
+      p.separator()
+      denominations.forEach((d) => p.row(`${d.quantity} x ${d.label}`, formatCurrency(d.subtotal)))
+    }
+  }
+
+  if (report.foreignCash && report.foreignCash.length > 0) {
+    p.separator()
+    report.foreignCash.forEach((f) => {
+      p.row(t('cashReport.foreignExpected', { currency: f.currency }), formatForeignCurrency(f.expected, f.currency))
+      if (f.counted == null) return
+      const foreignDifference = Math.round((f.counted - f.expected) * 100) / 100
+      p.row(t('cashReport.foreignCounted', { currency: f.currency }), formatForeignCurrency(f.counted, f.currency))
+      p.bold().row(`${differenceLabel(foreignDifference)} ${f.currency}:`, formatForeignCurrency(Math.abs(foreignDifference), f.currency)).bold(false)
+    })
+  }
+
+  p.separator().align('center').text(kind === 'Z' ? t('cashReport.signature') : t('cashReport.informative'))
+  return p.feed(2).cut().build()
+}
+
+const renderCashReportHtml = (kind: 'X' | 'Z', report: PrintableCashReport, paperWidth: PaperWidth) => {
+  const settings = JSON.parse(localStorage.getItem('pos_settings') || '{}')
+  const companyName = settings?.company?.companyName || t('receipt.defaultCompany')
+
+  const methodsHtml = Object.entries(report.byMethod)
+    .map(([method, amount]) => `<div><span>&nbsp;&nbsp;${getPaymentMethodLabel(method)}:</span><span>${formatCurrency(amount)}</span></div>`)
+    .join('')
+
+  const denominationsHtml = report.denominations && report.denominations.length > 0
+    ? `<div class="items">${report.denominations
+        .filter((d) => d.quantity > 0)
+        .map((d) => `<div class="item"><span>${d.quantity} x ${d.label}</span><span>${formatCurrency(d.subtotal)}</span></div>`)
+        .join('')}</div>`
+    : ''
+
+  const foreignHtml = report.foreignCash && report.foreignCash.length > 0 ? `
+  <div class="payment-info">
+    ${report.foreignCash.map((f) => {
+      const foreignDifference = f.counted != null ? Math.round((f.counted - f.expected) * 100) / 100 : 0
+      return `<div><span>${t('cashReport.foreignExpected', { currency: f.currency })}</span><span>${formatForeignCurrency(f.expected, f.currency)}</span></div>
+    ${f.counted != null ? `<div><span>${t('cashReport.foreignCounted', { currency: f.currency })}</span><span>${formatForeignCurrency(f.counted, f.currency)}</span></div>
+    <div style="font-weight:bold;"><span>${differenceLabel(foreignDifference)} ${f.currency}:</span><span>${formatForeignCurrency(Math.abs(foreignDifference), f.currency)}</span></div>` : ''}`
+    }).join('')}
+  </div>` : ''
+
+  const difference = report.difference ?? 0
+  const closingHtml = kind === 'Z' && report.countedCash != null ? `
+  <div class="payment-info">
+    <div><span>${t('cashReport.counted')}</span><span>${formatCurrency(report.countedCash)}</span></div>
+    <div style="font-weight:bold;"><span>${differenceLabel(difference)}:</span><span>${formatCurrency(Math.abs(difference))}</span></div>
+  </div>
+  ${denominationsHtml}` : ''
+
+  return `<!DOCTYPE html>
+<html lang="${getLanguage()}">
+<head>
+  <meta charset="utf-8">
+  <title>${t('cashReport.title', { kind, session: report.sessionId })}</title>
+  <style>${thermalCSS(paperWidth)}</style>
+</head>
+<body>
+  <div class="pre-bill-banner">${t('cashReport.banner', { kind })}</div>
+  <div class="header">
+    <h1>${companyName}</h1>
+    <div class="invoice-num">${kind === 'Z' ? t('cashReport.closing') : t('cashReport.partial')}</div>
+    <p>${t('cashReport.session', { session: report.sessionId, terminal: report.terminalId })}</p>
+  </div>
+  <div class="info">
+    <div>${t('cashReport.cashier', { name: report.userName || '-' })}</div>
+    <div>${t('cashReport.openedAt', { date: formatDateTime(report.openedAt) })}</div>
+    <div>${t(kind === 'Z' ? 'cashReport.closedAt' : 'cashReport.cutAt', { date: formatDateTime(report.closedAt || new Date().toISOString()) })}</div>
+  </div>
+  <div class="totals">
+    <div><span>${t('cashReport.sales', { count: report.salesCount })}</span><span>${formatCurrency(report.salesTotal)}</span></div>
+    ${methodsHtml}
+    ${report.tips ? `<div><span>${t('cashReport.tips')}</span><span>${formatCurrency(report.tips)}</span></div>` : ''}
+  </div>
+  <div class="payment-info">
+    <div><span>${t('cashReport.openingFloat')}</span><span>${formatCurrency(report.openingFloat)}</span></div>
+    <div><span>${t('cashReport.cashSales')}</span><span>+${formatCurrency(report.cashSales)}</span></div>
+    ${report.giftCardCash ? `<div><span>${t('cashReport.giftCards')}</span><span>+${formatCurrency(report.giftCardCash)}</span></div>` : ''}
+    ${report.cashIn > 0 ? `<div><span>${t('cashReport.cashIn')}</span><span>+${formatCurrency(report.cashIn)}</span></div>` : ''}
+    ${report.cashOut > 0 ? `<div><span>${t('cashReport.cashOut')}</span><span>-${formatCurrency(report.cashOut)}</span></div>` : ''}
+    ${report.cashRefunds > 0 ? `<div><span>${t('cashReport.refunds')}</span><span>-${formatCurrency(report.cashRefunds)}</span></div>` : ''}
+    <div class="total-final"><span>${t('cashReport.expected')}</span><span>${formatCurrency(report.expectedCash)}</span></div>
+  </div>
+  ${closingHtml}
+  ${foreignHtml}
   <div class="footer">
-    <p>${isPreBill ? 'Esta no es una factura fiscal' : '¡Gracias por su compra!'}</p>
+    <p>${kind === 'Z' ? t('cashReport.signature') : t('cashReport.informative')}</p>
   </div>
   <div class="cut-line">- - - - - - - - - - - - -</div>
   <script>
@@ -162,10 +655,22 @@ export function printInvoice(inv: PrintableInvoice, options: PrintOptions = {})
   </script>
 </body>
 </html>`
+}
 
-  const printWindow = window.open('', '_blank')
-  if (printWindow) {
-    printWindow.document.write(html)
-    printWindow.document.close()
+/**
+ * Reporte de caja en térmica: X (parcial, el turno sigue abierto) o Z (cierre con arqueo).
+ * Usa la impresora ESC/POS de la terminal igual que las facturas, con el HTML de respaldo.
+ */
+export async function printCashReport(kind: 'X' | 'Z', report: PrintableCashReport) {
+  const config = loadPrinterConfig()
+  const html = renderCashReportHtml(kind, report, config.paperWidth)
+  if (config.mode === 'html') {
+    writePrintWindow(window.open('', '_blank'), html)
+    return
+  }
+  try {
+    await sendToPrinter(buildCashReportEscPos(kind, report, config.paperWidth), config)
+  } catch (error: any) {
+    offerHtmlFallback(error, html)
   }
 }
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import type { Promotion } from '@/core/api/promotionService'
+import { evaluatePromotions, isPromotionActiveAt, PromotionLine } from './promotions'
+
+const promo = (overrides: Partial<Promotion>): Promotion => ({
+  id: 1,
+  name: 'Promo',
+  discountPercent: 0,
+  scheduleType: 'DAILY',
+  isActive: true,
+  applyToAllProducts: true,
+  priority: 0,
+  createdAt: '2026-10-01T00:00:00',
+  updatedAt: '2026-10-01T00:00:00',
+  ...overrides,
+})
+
+const line = (lineId: string, productId: number, unitPrice: number, quantity: number, categoryId?: number): PromotionLine =>
+  ({ lineId, productId, unitPrice, quantity, categoryId })
+
+// Lunes 19 de octubre de 2026, 18:30 hora local
+const monday = new Date(2026, 9, 19, 18, 30)
+
+describe('isPromotionActiveAt', () => {
+  it('respeta los días de la semana', () => {
+    expect(isPromotionActiveAt(promo({ scheduleType: 'WEEKLY', daysOfWeek: '[1,2]' }), monday)).toBe(true)
+    expect(isPromotionActiveAt(promo({ scheduleType: 'WEEKLY', daysOfWeek: '[6,7]' }), monday)).toBe(false)
+  })
+
+  it('respeta el rango de fechas', () => {
+    expect(isPromotionActiveAt(promo({ scheduleType: 'SPECIFIC_DATE', startDate: '2026-10-19', endDate: '2026-10-19' }), monday)).toBe(true)
+    expect(isPromotionActiveAt(promo({ scheduleType: 'SPECIFIC_DATE', endDate: '2026-10-18' }), monday)).toBe(false)
+  })
+
+  it('acepta una franja horaria que cruza la medianoche', () => {
+    const lateNight = promo({ startTime: '22:00', endTime: '02:00' })
+    expect(isPromotionActiveAt(lateNight, monday)).toBe(false)
+    expect(isPromotionActiveAt(lateNight, new Date(2026, 9, 19, 23, 15))).toBe(true)
+    expect(isPromotionActiveAt(lateNight, new Date(2026, 9, 20, 1, 45))).toBe(true)
+  })
+})
+
+describe('evaluatePromotions', () => {
+  it('aplica el porcentaje solo a los productos del alcance', () => {
+    const applied = evaluatePromotions(
+      [promo({ discountPercent: 10, applyToAllProducts: false, categoryIds: [5] })],
+      [line('a', 1, 10000, 2, 5), line('b', 2, 8000, 1, 6)],
+      28000,
+      monday,
+    )
+    expect(applied).toEqual({ a: { promotionId: 1, name: 'Promo', amount: 2000 } })
+  })
+
+  it('en un 2x1 regala la unidad más barata', () => {
+    const applied = evaluatePromotions(
+      [promo({ promotionType: 'NXM', buyQuantity: 2, payQuantity: 1 })],
+      [line('a', 1, 12000, 1), line('b', 2, 9000, 1)],
+      21000,
+      monday,
+    )
+    expect(applied).toEqual({ b: { promotionId: 1, name: 'Promo', amount: 9000 } })
+  })
+
+  it('reparte el descuento del combo entre sus líneas', () => {
+    const applied = evaluatePromotions(
+      [promo({ promotionType: 'COMBO', comboPrice: 20000, comboItems: [{ productId: 1, quantity: 1 }, { productId: 2, quantity: 1 }] })],
+      [line('a', 1, 15000, 1), line('b', 2, 10000, 1)],
+      25000,
+      monday,
+    )
+    expect(applied.a.amount + applied.b.amount).toBe(5000)
+    expect(applied.a.amount).toBe(3000)
+  })
+
+  it('una línea solo recibe la promoción de mayor prioridad', () => {
+    const applied = evaluatePromotions(
+      [promo({ id: 1, name: 'Baja', discountPercent: 50, priority: 1 }), promo({ id: 2, name: 'Alta', discountPercent: 10, priority: 5 })],
+      [line('a', 1, 10000, 1)],
+      10000,
+      monday,
+    )
+    expect(applied.a).toEqual({ promotionId: 2, name: 'Alta', amount: 1000 })
+  })
+
+  it('exige la compra mínima del ticket', () => {
+    const applied = evaluatePromotions([promo({ discountPercent: 10, minTicketAmount: 50000 })], [line('a', 1, 10000, 1)], 10000, monday)
+    expect(applied).toEqual({})
+  })
+})
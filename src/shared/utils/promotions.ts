@@ -0,0 +1,199 @@
+/**
+ * Motor de promociones del POS: decide qué promoción aplica a cada línea del carrito.
+ * Cada línea recibe como máximo una promoción (la de mayor prioridad que la alcance) y
+ * las líneas con descuento manual o precio cambiado no participan, para no sumar
+ * descuentos sobre el mismo producto. El backend recalcula al registrar la venta.
+ */
+
+import type { Promotion, PromotionType } from '@/core/api/promotionService'
+import { t } from '@/core/i18n'
+import { toLocalDateStr } from '@/shared/components/DateRangeFilter'
+import { formatCurrency } from './format'
+
+export const PROMOTION_TYPES: PromotionType[] = ['PORCENTAJE', 'NXM', 'SEGUNDA_UNIDAD', 'COMBO']
+
+export const getPromotionTypeLabel = (type: PromotionType) => t(`promotion.type.${type}`)
+
+export interface AppliedPromotion {
+  promotionId: number
+  name: string
+  /** Descuento de la promoción sobre la línea, en pesos */
+  amount: number
+}
+
+export interface PromotionLine {
+  lineId: string
+  productId: number
+  categoryId?: number | null
+  unitPrice: number
+  quantity: number
+}
+
+export const getPromotionType = (promo: Promotion): PromotionType => promo.promotionType || 'PORCENTAJE'
+
+/** Resumen corto de la regla: "2x1", "2da unidad -50%", "Combo $25.000", "15%" */
+export const describePromotion = (promo: Promotion) => {
+  switch (getPromotionType(promo)) {
+    case 'NXM':
+      return `${promo.buyQuantity || 2}x${promo.payQuantity || 1}`
+    case 'SEGUNDA_UNIDAD':
+      return t('promotion.secondUnit', { percent: promo.secondUnitPercent || 50 })
+    case 'COMBO':
+      return t('promotion.combo', { price: formatCurrency(promo.comboPrice || 0) })
+    default:
+      return `${promo.discountPercent}%`
+  }
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number)
+  return (h || 0) * 60 + (m || 0)
+}
+
+/** Programación (días/fechas) y franja horaria; la franja puede cruzar la medianoche */
+export const isPromotionActiveAt = (promo: Promotion, now: Date) => {
+  if (!promo.isActive) return false
+  if (promo.scheduleType === 'WEEKLY') {
+    let days: number[] = []
+    try { days = JSON.parse(promo.daysOfWeek || '[]') } catch { /* sin días */ }
+    // 1 = lunes ... 7 = domingo
+    if (!days.includes(now.getDay() === 0 ? 7 : now.getDay())) return false
+  }
+  if (promo.scheduleType === 'SPECIFIC_DATE') {
+    const today = toLocalDateStr(now)
+    if ((promo.startDate && today < promo.startDate) || (promo.endDate && today > promo.endDate)) return false
+  }
+  if (promo.startTime && promo.endTime) {
+    const current = now.getHours() * 60 + now.getMinutes()
+    const start = toMinutes(promo.startTime)
+    const end = toMinutes(promo.endTime)
+    const inWindow = start <= end ? current >= start && current < end : current >= start || current < end
+    if (!inWindow) return false
+  }
+  return true
+}
+
+const matchesScope = (promo: Promotion, line: PromotionLine) => {
+  if (promo.applyToAllProducts) return true
+  return (promo.productIds || []).includes(line.productId) ||
+    (line.categoryId != null && (promo.categoryIds || []).includes(line.categoryId))
+}
+
+/** Reparte `total` entre las líneas según su peso, cuadrando el redondeo en la última */
+const distribute = (total: number, weights: Map<string, number>) => {
+  const result = new Map<string, number>()
+  const sum = Array.from(weights.values()).reduce((acc, w) => acc + w, 0)
+  if (sum <= 0 || total <= 0) return result
+  let assigned = 0
+  const entries = Array.from(weights.entries())
+  entries.forEach(([lineId, weight], i) => {
+    const amount = i === entries.length - 1 ? total - assigned : Math.round((total * weight) / sum)
+    assigned += amount
+    result.set(lineId, amount)
+  })
+  return result
+}
+
+/**
+ * Por cada `groupSize` unidades, las `discountedPerGroup` más baratas del conjunto
+ * llevan `percent` de descuento (el producto de menor valor es el que sale gratis).
+ */
+const discountCheapestUnits = (lines: PromotionLine[], groupSize: number, discountedPerGroup: number, percent: number) => {
+  const units = lines
+    .flatMap((l) => Array.from({ length: Math.floor(l.quantity) }, () => ({ lineId: l.lineId, price: l.unitPrice })))
+    .sort((a, b) => a.price - b.price)
+  const groups = Math.floor(units.length / groupSize)
+  const result = new Map<string, number>()
+  units.slice(0, groups * discountedPerGroup).forEach((u) => {
+    result.set(u.lineId, (result.get(u.lineId) || 0) + (u.price * percent) / 100)
+  })
+  return { groups, amounts: result }
+}
+
+const evaluateCombo = (promo: Promotion, lines: PromotionLine[]) => {
+  const items = (promo.comboItems || []).filter((i) => i.quantity > 0)
+  const empty = { used: [] as string[], amounts: new Map<string, number>() }
+  if (items.length === 0) return empty
+  const combos = Math.min(...items.map((item) => {
+    const available = lines.filter((l) => l.productId === item.productId).reduce((acc, l) => acc + Math.floor(l.quantity), 0)
+    return Math.floor(available / item.quantity)
+  }))
+  if (combos <= 0) return empty
+
+  // Valor normal de las unidades que entran en los combos, tomando primero las más caras
+  const weights = new Map<string, number>()
+  items.forEach((item) => {
+    let needed = item.quantity * combos
+    lines
+      .filter((l) => l.productId === item.productId)
+      .sort((a, b) => b.unitPrice - a.unitPrice)
+      .forEach((l) => {
+        const take = Math.min(needed, Math.floor(l.quantity))
+        if (take <= 0) return
+        needed -= take
+        weights.set(l.lineId, (weights.get(l.lineId) || 0) + take * l.unitPrice)
+      })
+  })
+  const regular = Array.from(weights.values()).reduce((acc, w) => acc + w, 0)
+  const discount = Math.round(Math.max(0, regular - (promo.comboPrice || 0) * combos))
+  return { used: Array.from(weights.keys()), amounts: distribute(discount, weights) }
+}
+
+/**
+ * Evalúa las promociones vigentes contra las líneas del carrito. `ticketTotal` es el
+ * valor del ticket antes de descuentos, para la compra mínima.
+ */
+export const evaluatePromotions = (
+  promotions: Promotion[],
+  lines: PromotionLine[],
+  ticketTotal: number,
+  now = new Date(),
+): Record<string, AppliedPromotion> => {
+  const applied: Record<string, AppliedPromotion> = {}
+  const claimed = new Set<string>()
+
+  ;[...promotions]
+    .filter((p) => isPromotionActiveAt(p, now) && ticketTotal >= (p.minTicketAmount || 0))
+    .sort((a, b) => (b.priority || 0) - (a.priority || 0))
+    .forEach((promo) => {
+      const pool = lines.filter((l) => !claimed.has(l.lineId))
+      let used: string[] = []
+      let amounts = new Map<string, number>()
+
+      switch (getPromotionType(promo)) {
+        case 'PORCENTAJE': {
+          const matching = pool.filter((l) => matchesScope(promo, l))
+          used = matching.map((l) => l.lineId)
+          matching.forEach((l) => amounts.set(l.lineId, (l.unitPrice * l.quantity * (promo.discountPercent || 0)) / 100))
+          break
+        }
+        case 'NXM':
+        case 'SEGUNDA_UNIDAD': {
+          const matching = pool.filter((l) => matchesScope(promo, l))
+          const isNxM = getPromotionType(promo) === 'NXM'
+          const buy = isNxM ? Math.max(2, promo.buyQuantity || 2) : 2
+          const pay = isNxM ? Math.min(buy - 1, Math.max(1, promo.payQuantity || 1)) : 1
+          const result = discountCheapestUnits(matching, buy, buy - pay, isNxM ? 100 : promo.secondUnitPercent || 50)
+          if (result.groups > 0) {
+            used = matching.map((l) => l.lineId)
+            amounts = result.amounts
+          }
+          break
+        }
+        case 'COMBO': {
+          const result = evaluateCombo(promo, pool)
+          used = result.used
+          amounts = result.amounts
+          break
+        }
+      }
+
+      used.forEach((lineId) => {
+        claimed.add(lineId)
+        const amount = Math.round(amounts.get(lineId) || 0)
+        if (amount > 0) applied[lineId] = { promotionId: promo.id, name: promo.name, amount }
+      })
+    })
+
+  return applied
+}
@@ -0,0 +1,295 @@
+/**
+ * Generador de códigos QR (modo byte, corrección de errores M) sin dependencias.
+ * Sigue el algoritmo de referencia de ISO/IEC 18004; se usa para el QR de la
+ * factura electrónica en el tiquete HTML. En ESC/POS la impresora dibuja el QR.
+ */
+
+// Tablas para el nivel M, indexadas por versión (1–40)
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28]
+const NUM_ECC_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49]
+// Bits de formato del nivel M
+const ECC_FORMAT_BITS = 0
+
+const getBit = (value: number, i: number) => ((value >>> i) & 1) !== 0
+
+const getNumRawDataModules = (ver: number) => {
+  let result = (16 * ver + 128) * ver + 64
+  if (ver >= 2) {
+    const numAlign = Math.floor(ver / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (ver >= 7) result -= 36
+  }
+  return result
+}
+
+const getNumDataCodewords = (ver: number) =>
+  Math.floor(getNumRawDataModules(ver) / 8) - ECC_CODEWORDS_PER_BLOCK[ver] * NUM_ECC_BLOCKS[ver]
+
+// ==================== Reed-Solomon (GF(256), polinomio 0x11D) ====================
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0)
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor) })
+  }
+  return result
+}
+
+// ==================== Codificación ====================
+
+const encodeData = (bytes: Uint8Array, ver: number) => {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+  append(0x4, 4)
+  append(bytes.length, ver <= 9 ? 8 : 16)
+  bytes.forEach((b) => append(b, 8))
+
+  const capacityBits = getNumDataCodewords(ver) * 8
+  append(0, Math.min(4, capacityBits - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+  return codewords
+}
+
+const addEccAndInterleave = (data: number[], ver: number) => {
+  const numBlocks = NUM_ECC_BLOCKS[ver]
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ver]
+  const rawCodewords = Math.floor(getNumRawDataModules(ver) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = reedSolomonDivisor(blockEccLen)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1))
+    k += dat.length
+    const ecc = reedSolomonRemainder(dat, divisor)
+    if (i < numShortBlocks) dat.push(0)
+    blocks.push(dat.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Las posiciones de relleno de los bloques cortos no se transmiten
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+// ==================== Matriz ====================
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+const buildMatrix = (ver: number, codewords: number[]) => {
+  const size = ver * 4 + 17
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark
+    isFunction[y][x] = true
+  }
+
+  // Patrones de sincronización
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0)
+    setFunction(i, 6, i % 2 === 0)
+  }
+
+  // Patrones de posición (esquinas) con su separador
+  const drawFinder = (cx: number, cy: number) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy))
+        const x = cx + dx
+        const y = cy + dy
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, dist !== 2 && dist !== 4)
+      }
+    }
+  }
+  drawFinder(3, 3)
+  drawFinder(size - 4, 3)
+  drawFinder(3, size - 4)
+
+  // Patrones de alineación
+  if (ver > 1) {
+    const numAlign = Math.floor(ver / 7) + 2
+    const step = Math.floor((ver * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+    const positions = [6]
+    for (let pos = size - 7; positions.length < numAlign; pos -= step) positions.splice(1, 0, pos)
+    const last = positions.length - 1
+    positions.forEach((cy, i) => positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }))
+  }
+
+  const drawFormatBits = (mask: number) => {
+    const data = (ECC_FORMAT_BITS << 3) | mask
+    let rem = data
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+    const bits = ((data << 10) | rem) ^ 0x5412
+    for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i))
+    setFunction(8, 7, getBit(bits, 6))
+    setFunction(8, 8, getBit(bits, 7))
+    setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i))
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i))
+    setFunction(8, size - 8, true)
+  }
+  drawFormatBits(0)
+
+  // Información de versión (7 en adelante)
+  if (ver >= 7) {
+    let rem = ver
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    const bits = (ver << 12) | rem
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      setFunction(a, b, getBit(bits, i))
+      setFunction(b, a, getBit(bits, i))
+    }
+  }
+
+  // Datos en zigzag de abajo hacia arriba, de dos en dos columnas
+  let bitIndex = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const upward = ((right + 1) & 2) === 0
+        const y = upward ? size - 1 - vert : vert
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7))
+          bitIndex++
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x]
+      }
+    }
+  }
+
+  // Penalización simplificada (rachas, bloques 2x2 y balance); basta para elegir una máscara legible
+  const penalty = () => {
+    let score = 0
+    for (let y = 0; y < size; y++) {
+      let runX = 1
+      let runY = 1
+      for (let x = 1; x < size; x++) {
+        runX = modules[y][x] === modules[y][x - 1] ? runX + 1 : 1
+        if (runX === 5) score += 3
+        else if (runX > 5) score++
+        runY = modules[x][y] === modules[x - 1][y] ? runY + 1 : 1
+        if (runY === 5) score += 3
+        else if (runY > 5) score++
+      }
+    }
+    let dark = 0
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) dark++
+        if (x < size - 1 && y < size - 1) {
+          const c = modules[y][x]
+          if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3
+        }
+      }
+    }
+    const total = size * size
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+    return score
+  }
+
+  let bestMask = 0
+  let bestScore = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(mask)
+    drawFormatBits(mask)
+    const score = penalty()
+    if (score < bestScore) {
+      bestScore = score
+      bestMask = mask
+    }
+    applyMask(mask)
+  }
+  applyMask(bestMask)
+  drawFormatBits(bestMask)
+  return modules
+}
+
+/** Matriz de módulos (true = oscuro) para el texto dado */
+export const encodeQr = (text: string): boolean[][] => {
+  const bytes = new TextEncoder().encode(text)
+  for (let ver = 1; ver <= 40; ver++) {
+    const usedBits = 4 + (ver <= 9 ? 8 : 16) + bytes.length * 8
+    if (usedBits <= getNumDataCodewords(ver) * 8) {
+      return buildMatrix(ver, addEccAndInterleave(encodeData(bytes, ver), ver))
+    }
+  }
+  throw new Error('El texto es demasiado largo para un código QR')
+}
+
+/** SVG del QR con zona de silencio de 4 módulos; escala con el contenedor */
+export const qrToSvg = (text: string) => {
+  const modules = encodeQr(text)
+  const border = 4
+  const size = modules.length + border * 2
+  let path = ''
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) path += `M${x + border},${y + border}h1v1h-1z`
+  }))
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`
+}
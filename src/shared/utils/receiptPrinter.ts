@@ -0,0 +1,115 @@
+/**
+ * Configuración y envío a la impresora térmica de esta terminal.
+ * Es por equipo (localStorage), no por empresa: cada caja tiene su impresora.
+ * - html: ventana del navegador + window.print (comportamiento original)
+ * - bridge: POST de los bytes ESC/POS a un servicio HTTP local (p. ej. http://localhost:9100/print)
+ * - serial: WebSerial con un puerto que el usuario autorizó desde Configuración
+ */
+
+import { t } from '@/core/i18n'
+import { createEscPos, PaperWidth } from './escpos'
+
+export type PrinterMode = 'html' | 'bridge' | 'serial'
+
+export interface PrinterConfig {
+  mode: PrinterMode
+  paperWidth: PaperWidth
+  bridgeUrl: string
+  baudRate: number
+  /** Abrir el cajón monedero al imprimir ventas con efectivo */
+  openDrawer: boolean
+}
+
+const STORAGE_KEY = 'pos_printer'
+
+export const DEFAULT_PRINTER_CONFIG: PrinterConfig = {
+  mode: 'html',
+  paperWidth: 58,
+  bridgeUrl: 'http://localhost:9100/print',
+  baudRate: 9600,
+  openDrawer: true,
+}
+
+export const PRINTER_MODES: PrinterMode[] = ['html', 'bridge', 'serial']
+
+export const getPrinterModeLabel = (mode: PrinterMode) => t(`printer.mode.${mode}`)
+
+export const loadPrinterConfig = (): PrinterConfig => {
+  try {
+    return { ...DEFAULT_PRINTER_CONFIG, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') }
+  } catch {
+    return DEFAULT_PRINTER_CONFIG
+  }
+}
+
+export const savePrinterConfig = (config: PrinterConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
+}
+
+// WebSerial aún no está en lib.dom; solo se declara lo que se usa
+interface SerialPortLike {
+  open: (options: { baudRate: number }) => Promise<void>
+  close: () => Promise<void>
+  writable: WritableStream<Uint8Array> | null
+}
+
+interface SerialLike {
+  getPorts: () => Promise<SerialPortLike[]>
+  requestPort: () => Promise<SerialPortLike>
+}
+
+const getSerial = (): SerialLike | undefined => (navigator as unknown as { serial?: SerialLike }).serial
+
+export const isWebSerialSupported = () => !!getSerial()
+
+/** Pide al usuario elegir el puerto; debe llamarse desde un clic */
+export const requestSerialPort = async () => {
+  const serial = getSerial()
+  if (!serial) throw new Error(t('printer.noWebSerial'))
+  await serial.requestPort()
+}
+
+const writeSerial = async (data: Uint8Array, baudRate: number) => {
+  const serial = getSerial()
+  if (!serial) throw new Error(t('printer.noWebSerial'))
+  const [port] = await serial.getPorts()
+  if (!port) throw new Error(t('printer.noPort'))
+  await port.open({ baudRate })
+  try {
+    const writer = port.writable!.getWriter()
+    try {
+      await writer.write(data)
+    } finally {
+      writer.releaseLock()
+    }
+  } finally {
+    await port.close()
+  }
+}
+
+const writeBridge = async (data: Uint8Array, url: string) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: data.slice(),
+  })
+  if (!response.ok) throw new Error(t('printer.bridgeStatus', { status: response.status }))
+}
+
+/** Envía bytes ESC/POS según la configuración; lanza error para que el llamador use el HTML */
+export const sendToPrinter = async (data: Uint8Array, config: PrinterConfig = loadPrinterConfig()) => {
+  if (config.mode === 'bridge') return writeBridge(data, config.bridgeUrl)
+  if (config.mode === 'serial') return writeSerial(data, config.baudRate)
+  throw new Error(t('printer.browserMode'))
+}
+
+/** Tiquete corto para verificar conexión, ancho, tildes, QR, código de barras, cajón y corte */
+export const printTestReceipt = (config: PrinterConfig) => {
+  const p = createEscPos(config.paperWidth)
+  if (config.openDrawer) p.openDrawer()
+  p.align('center').bold().size(2).text(t('printer.testTitle')).size(1).bold(false)
+  p.text(t('printer.testPaper', { width: config.paperWidth, columns: p.columns })).separator()
+  p.align('left').text(`${t('printer.testAccents')}: áéíóú ñ Ñ ¿? ¡!`).row(t('printer.testLeft'), t('printer.testRight')).separator()
+  p.align('center').qr('https://example.com').barcode('TEST-0001')
+  return sendToPrinter(p.feed(2).cut().build(), config)
+}
@@ -0,0 +1,74 @@
+/**
+ * Plantilla del tiquete: qué datos de la empresa salen en el encabezado,
+ * qué campos opcionales se imprimen y los textos libres (resolución DIAN, pie).
+ * Se guarda con la configuración de la empresa, así todas las cajas imprimen igual.
+ */
+
+import { t } from '@/core/i18n'
+
+export interface ReceiptTemplate {
+  showLogo: boolean
+  showLegalName: boolean
+  showTaxId: boolean
+  showAddress: boolean
+  showPhone: boolean
+  /** Líneas extra bajo los datos de la empresa (horario, redes, régimen) */
+  headerText: string
+  showCashier: boolean
+  showCustomerDocument: boolean
+  showTaxBreakdown: boolean
+  showTable: boolean
+  showWaiter: boolean
+  /** Texto legal: resolución de facturación DIAN, rango autorizado, vigencia */
+  legalText: string
+  footerText: string
+}
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  showLogo: false,
+  showLegalName: true,
+  showTaxId: true,
+  showAddress: true,
+  showPhone: true,
+  headerText: '',
+  showCashier: true,
+  showCustomerDocument: true,
+  showTaxBreakdown: true,
+  showTable: true,
+  showWaiter: true,
+  legalText: '',
+  footerText: '¡Gracias por su compra!',
+}
+
+type ReceiptToggle = { [K in keyof ReceiptTemplate]: ReceiptTemplate[K] extends boolean ? K : never }[keyof ReceiptTemplate]
+
+export const RECEIPT_HEADER_TOGGLES: ReceiptToggle[] = ['showLogo', 'showLegalName', 'showTaxId', 'showAddress', 'showPhone']
+
+export const RECEIPT_BODY_TOGGLES: ReceiptToggle[] = ['showCashier', 'showCustomerDocument', 'showTaxBreakdown', 'showTable', 'showWaiter']
+
+export const getReceiptFieldLabel = (field: ReceiptToggle) => t(`receiptField.${field}`)
+
+/** Acepta lo guardado en localStorage o en el backend (objeto o JSON) y completa lo que falte */
+export const normalizeReceiptTemplate = (value: unknown): ReceiptTemplate => {
+  let parsed: Partial<ReceiptTemplate> = {}
+  try {
+    parsed = typeof value === 'string' ? JSON.parse(value) : (value as Partial<ReceiptTemplate>) || {}
+  } catch { /* plantilla corrupta: se usan los valores por defecto */ }
+  return { ...DEFAULT_RECEIPT_TEMPLATE, ...parsed }
+}
+
+interface ReceiptCompany {
+  legalName?: string
+  taxId?: string
+  address?: string
+  phone?: string
+}
+
+/** Líneas del encabezado bajo el nombre comercial, en el orden en que se imprimen */
+export const getReceiptHeaderLines = (company: ReceiptCompany, template: ReceiptTemplate) => [
+  template.showLegalName ? company.legalName : '',
+  template.showTaxId && company.taxId ? `NIT ${company.taxId}` : '',
+  template.showAddress ? company.address : '',
+  template.showPhone && company.phone ? `Tel. ${company.phone}` : '',
+  ...template.headerText.split('\n'),
+].map((line) => (line || '').trim()).filter(Boolean)
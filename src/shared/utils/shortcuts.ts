@@ -0,0 +1,70 @@
+/**
+ * Atajos de teclado del POS. Cada usuario puede reasignarlos desde Configuración;
+ * la asignación se guarda en localStorage por usuario (igual que su carrito).
+ */
+
+import { t } from '@/core/i18n'
+
+export type PosShortcutAction = 'pay' | 'customer' | 'discount' | 'park' | 'search' | 'quantity' | 'help'
+
+export type ShortcutBindings = Record<PosShortcutAction, string>
+
+export const POS_SHORTCUT_ACTIONS: PosShortcutAction[] = ['search', 'customer', 'discount', 'park', 'pay', 'quantity', 'help']
+
+export const getShortcutLabel = (action: PosShortcutAction) => t(`shortcut.${action}`)
+
+export const getShortcutDescription = (action: PosShortcutAction) => t(`shortcut.${action}.description`)
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  search: 'F2',
+  customer: 'F3',
+  discount: 'F4',
+  park: 'F8',
+  pay: 'F12',
+  quantity: '*',
+  help: 'F1',
+}
+
+/** Atajo global de la paleta de comandos; no se puede reasignar */
+export const COMMAND_PALETTE_SHORTCUT = 'Ctrl+K'
+
+const storageKey = (userId: number) => `pos_shortcuts_${userId}`
+
+export const loadShortcuts = (userId?: number | null): ShortcutBindings => {
+  if (!userId) return DEFAULT_SHORTCUTS
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(userId)) || '{}')
+    return { ...DEFAULT_SHORTCUTS, ...saved }
+  } catch {
+    return DEFAULT_SHORTCUTS
+  }
+}
+
+export const saveShortcuts = (userId: number, bindings: ShortcutBindings) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(bindings))
+}
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta']
+
+/**
+ * Texto normalizado de una pulsación: "F2", "Ctrl+K", "Alt+Shift+P", "*".
+ * Devuelve null si solo se pulsó un modificador.
+ */
+export const eventToShortcut = (e: KeyboardEvent | { key: string; ctrlKey: boolean; altKey: boolean; shiftKey: boolean; metaKey: boolean }) => {
+  if (MODIFIER_KEYS.includes(e.key)) return null
+  const key = e.key.length === 1 ? e.key.toUpperCase() : e.key
+  const parts: string[] = []
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl')
+  if (e.altKey) parts.push('Alt')
+  // Shift no se antepone en caracteres imprimibles: "*" ya lo incluye
+  if (e.shiftKey && e.key.length > 1) parts.push('Shift')
+  parts.push(key)
+  return parts.join('+')
+}
+
+/** Las teclas sueltas imprimibles chocan con la escritura normal, salvo en el buscador */
+export const isPrintableShortcut = (shortcut: string) => shortcut.length === 1
+
+/** Acción repetida en otra tecla, para avisar en Configuración */
+export const findShortcutConflict = (bindings: ShortcutBindings, action: PosShortcutAction, shortcut: string) =>
+  (Object.keys(bindings) as PosShortcutAction[]).find((a) => a !== action && bindings[a] === shortcut) || null
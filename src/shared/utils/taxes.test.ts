@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { computeTaxes, getDetailsTaxBreakdown, scaleTaxBreakdown } from './taxes'
+
+describe('computeTaxes', () => {
+  it('separa la base del impuesto cuando el precio lo incluye', () => {
+    const summary = computeTaxes([{ amount: 11900, taxRate: 19 }], true)
+    expect(summary.base).toBe(10000)
+    expect(summary.tax).toBe(1900)
+    expect(summary.total).toBe(11900)
+  })
+
+  it('suma el impuesto cuando el precio no lo incluye', () => {
+    const summary = computeTaxes([{ amount: 10000, taxRate: 19 }], false)
+    expect(summary.tax).toBe(1900)
+    expect(summary.total).toBe(11900)
+  })
+
+  it('agrupa por tarifa de mayor a menor y trata la tarifa cero como exenta', () => {
+    const summary = computeTaxes([
+      { amount: 5000, taxRate: 0, taxType: 'IVA' },
+      { amount: 10800, taxRate: 8, taxType: 'INC' },
+      { amount: 11900, taxRate: 19 },
+      { amount: 11900, taxRate: 19, taxType: 'IVA' },
+    ], true)
+    expect(summary.breakdown.map((e) => [e.taxType, e.rate, e.base, e.tax])).toEqual([
+      ['IVA', 19, 20000, 3800],
+      ['INC', 8, 10000, 800],
+      ['EXENTO', 0, 5000, 0],
+    ])
+    expect(summary.total).toBe(39600)
+  })
+
+  it('aplica el descuento global antes del impuesto', () => {
+    const summary = computeTaxes([{ amount: 10000, taxRate: 19 }], false, 0.9)
+    expect(summary.base).toBe(9000)
+    expect(summary.tax).toBe(1710)
+  })
+})
+
+describe('scaleTaxBreakdown', () => {
+  it('escala base e impuesto redondeando a centavos', () => {
+    const [entry] = scaleTaxBreakdown(computeTaxes([{ amount: 10000, taxRate: 19 }], false).breakdown, 1 / 3)
+    expect(entry.base).toBe(3333.33)
+    expect(entry.tax).toBe(633.33)
+  })
+})
+
+describe('getDetailsTaxBreakdown', () => {
+  it('reconstruye la base desde el impuesto guardado por línea', () => {
+    const breakdown = getDetailsTaxBreakdown([
+      { taxRate: 19, taxAmount: 1900, subtotal: 11900 },
+      { taxRate: 0, taxAmount: 0, subtotal: 4000 },
+      { subtotal: 1000 },
+    ])
+    expect(breakdown.map((e) => [e.taxType, e.base, e.tax])).toEqual([
+      ['IVA', 10000, 1900],
+      ['EXENTO', 4000, 0],
+    ])
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Motor de impuestos del carrito.
+ * Soporta precios con impuesto incluido o sin incluir (configuración de la empresa)
+ * y tarifas distintas por producto: IVA 19%, IVA 5%, exento y el impoconsumo (INC) 8%.
+ * Los descuentos se aplican antes del impuesto, igual que el backend al calcular Invoice.taxAmount.
+ */
+
+import type { TaxType } from '@/types'
+import { t } from '@/core/i18n'
+
+export type { TaxType }
+
+export const TAX_OPTIONS: Array<{ value: string; taxType: TaxType; rate: number }> = [
+  { value: 'IVA:19', taxType: 'IVA', rate: 19 },
+  { value: 'IVA:5', taxType: 'IVA', rate: 5 },
+  { value: 'EXENTO:0', taxType: 'EXENTO', rate: 0 },
+  { value: 'INC:8', taxType: 'INC', rate: 8 },
+]
+
+/** Nombre de la tarifa en el selector del producto: "IVA 19%", "Impoconsumo 8%" */
+export const getTaxOptionLabel = (option: { taxType: TaxType; rate: number }) =>
+  t(`tax.option.${option.taxType}`, { rate: option.rate })
+
+export interface TaxableLine {
+  /** Valor de la línea después de su descuento, en precio de venta */
+  amount: number
+  taxRate: number
+  taxType?: TaxType
+}
+
+export interface TaxBreakdownEntry {
+  taxType: TaxType
+  rate: number
+  label: string
+  /** Base gravable (sin impuesto) */
+  base: number
+  tax: number
+}
+
+export interface TaxSummary {
+  base: number
+  tax: number
+  /** Total a cobrar: con impuesto incluido es el mismo valor de venta */
+  total: number
+  breakdown: TaxBreakdownEntry[]
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export const getTaxLabel = (taxType: TaxType, rate: number) =>
+  taxType === 'EXENTO' || rate === 0 ? t('tax.exempt') : `${taxType} ${rate}%`
+
+/** Un producto sin tipo explícito se toma como IVA (o exento si la tarifa es 0) */
+export const resolveTaxType = (taxType: TaxType | undefined, rate: number): TaxType =>
+  rate <= 0 ? 'EXENTO' : taxType || 'IVA'
+
+/**
+ * Calcula base e impuesto por tarifa.
+ * `discountFactor` reparte proporcionalmente un descuento global del ticket (1 = sin descuento).
+ */
+export const computeTaxes = (
+  lines: TaxableLine[],
+  pricesIncludeTax: boolean,
+  discountFactor = 1,
+): TaxSummary => {
+  const groups = new Map<string, TaxBreakdownEntry>()
+
+  for (const line of lines) {
+    const rate = Math.max(0, Number(line.taxRate) || 0)
+    const taxType = resolveTaxType(line.taxType, rate)
+    const amount = line.amount * discountFactor
+    const base = pricesIncludeTax ? amount / (1 + rate / 100) : amount
+    const tax = base * (rate / 100)
+
+    const key = `${taxType}:${rate}`
+    const entry = groups.get(key) || { taxType, rate, label: getTaxLabel(taxType, rate), base: 0, tax: 0 }
+    entry.base += base
+    entry.tax += tax
+    groups.set(key, entry)
+  }
+
+  const breakdown = Array.from(groups.values())
+    .map((e) => ({ ...e, base: round2(e.base), tax: round2(e.tax) }))
+    .sort((a, b) => b.rate - a.rate)
+  const base = round2(breakdown.reduce((acc, e) => acc + e.base, 0))
+  const tax = round2(breakdown.reduce((acc, e) => acc + e.tax, 0))
+
+  return { base, tax, total: round2(base + tax), breakdown }
+}
+
+/** Aplica un descuento adicional (p. ej. el % del modal de pago) a un desglose ya calculado */
+export const scaleTaxBreakdown = (breakdown: TaxBreakdownEntry[], factor: number): TaxBreakdownEntry[] =>
+  breakdown.map((e) => ({ ...e, base: round2(e.base * factor), tax: round2(e.tax * factor) }))
+
+/** Desglose a partir de los detalles guardados por el backend (taxAmount por línea) */
+export const getDetailsTaxBreakdown = (
+  details: Array<{ taxRate?: number; taxType?: TaxType; taxAmount?: number; subtotal: number }>,
+): TaxBreakdownEntry[] => {
+  const groups = new Map<string, TaxBreakdownEntry>()
+  for (const d of details) {
+    if (d.taxRate == null) continue
+    const rate = Number(d.taxRate) || 0
+    const taxType = resolveTaxType(d.taxType, rate)
+    const tax = Number(d.taxAmount) || 0
+    const key = `${taxType}:${rate}`
+    const entry = groups.get(key) || { taxType, rate, label: getTaxLabel(taxType, rate), base: 0, tax: 0 }
+    entry.base += rate > 0 ? tax / (rate / 100) : Number(d.subtotal) || 0
+    entry.tax += tax
+    groups.set(key, entry)
+  }
+  return Array.from(groups.values())
+    .map((e) => ({ ...e, base: round2(e.base), tax: round2(e.tax) }))
+    .sort((a, b) => b.rate - a.rate)
+}
@@ -0,0 +1,99 @@
+/**
+ * Propinas: valor voluntario que deja el cliente, distinto del cargo por servicio.
+ * No es ingreso del negocio: la factura no la suma a su `total`, pero el cliente la
+ * paga junto con la cuenta, así que sí hace parte de los pagos. Se reparte entre el
+ * personal (por defecto, el mesero que abrió la mesa) para liquidarla en la nómina.
+ */
+
+import type { Invoice, TipShare } from '@/types'
+import { t } from '@/core/i18n'
+import type { TenderLine } from './payments'
+
+/** Tope del servicio voluntario sugerido (Ley 1935 de 2018) */
+export const MAX_SERVICE_CHARGE_PERCENT = 10
+
+/** Medios sobre los que se calcula la propina "solo sobre la tarjeta" */
+export const CARD_PAYMENT_METHODS = ['TARJETA_DEBITO', 'TARJETA_CREDITO']
+
+/**
+ * - PORCENTAJE: sobre el total de la cuenta
+ * - TARJETA: sobre la parte de la cuenta que se paga con tarjeta
+ * - VALOR: monto libre
+ */
+export type TipMode = 'NINGUNA' | 'PORCENTAJE' | 'TARJETA' | 'VALOR'
+
+export interface TipStaff {
+  userId: number
+  userName: string
+}
+
+export interface TipInput {
+  mode: TipMode
+  percent: number
+  amount: number
+  /** Empleados entre quienes se reparte en partes iguales */
+  staff: TipStaff[]
+}
+
+export const createTipInput = (staff: TipStaff[] = []): TipInput => ({
+  mode: 'NINGUNA',
+  percent: 0,
+  amount: 0,
+  staff,
+})
+
+/** Parte de la cuenta que cubren las tarjetas: lo que no pagan los demás medios */
+export const getCardPortion = (lines: TenderLine[], billTotal: number) => {
+  const others = lines
+    .filter((l) => !CARD_PAYMENT_METHODS.includes(l.method))
+    .reduce((acc, l) => acc + (l.amount || 0), 0)
+  return Math.max(0, billTotal - others)
+}
+
+export const calculateTip = (tip: TipInput, billTotal: number, lines: TenderLine[] = []) => {
+  switch (tip.mode) {
+    case 'PORCENTAJE':
+      return Math.round((billTotal * tip.percent) / 100)
+    case 'TARJETA':
+      return Math.round((getCardPortion(lines, billTotal) * tip.percent) / 100)
+    case 'VALOR':
+      return Math.max(0, Math.round(tip.amount || 0))
+    default:
+      return 0
+  }
+}
+
+/** Reparto en partes iguales; los pesos sobrantes van a los primeros de la lista */
+export const splitTip = (amount: number, staff: TipStaff[]): TipShare[] => {
+  if (amount <= 0 || staff.length === 0) return []
+  const base = Math.floor(amount / staff.length)
+  const remainder = amount - base * staff.length
+  return staff.map((s, i) => ({ userId: s.userId, userName: s.userName, amount: base + (i < remainder ? 1 : 0) }))
+}
+
+export interface TipStaffSummary {
+  userId: number
+  userName: string
+  invoiceCount: number
+  total: number
+}
+
+/**
+ * Propinas por empleado para la nómina. Las facturas sin reparto se atribuyen a
+ * quien registró la venta.
+ */
+export const summarizeTipsByStaff = (invoices: Invoice[]): TipStaffSummary[] => {
+  const byUser = new Map<number, TipStaffSummary>()
+  invoices
+    .filter((inv) => inv.status === 'COMPLETADA' && (Number(inv.tipAmount) || 0) > 0)
+    .forEach((inv) => {
+      const shares = inv.tipDistribution && inv.tipDistribution.length > 0
+        ? inv.tipDistribution
+        : [{ userId: inv.userId, userName: (inv as any).userName || t('common.userNumber', { id: inv.userId }), amount: Number(inv.tipAmount) || 0 }]
+      shares.forEach((s) => {
+        const entry = byUser.get(s.userId) || { userId: s.userId, userName: s.userName, invoiceCount: 0, total: 0 }
+        byUser.set(s.userId, { ...entry, invoiceCount: entry.invoiceCount + 1, total: entry.total + (Number(s.amount) || 0) })
+      })
+    })
+  return Array.from(byUser.values()).sort((a, b) => b.total - a.total)
+}
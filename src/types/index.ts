@@ -24,12 +24,43 @@ export interface Product {
   salePrice: number
   unit: string
   taxRate: number
+  /** IVA, impoconsumo (INC) o exento; si falta se asume IVA */
+  taxType?: TaxType
+  /** Sin precio fijo (varios, reparaciones): el cajero digita el valor al venderlo */
+  openPrice?: boolean
   isActive: boolean
   inventory?: Inventory
+  modifierGroups?: ModifierGroup[]
   createdAt: string
   updatedAt: string
 }
 
+export type TaxType = 'IVA' | 'INC' | 'EXENTO'
+
+export interface ModifierOption {
+  id?: number
+  name: string
+  priceDelta: number
+}
+
+export interface ModifierGroup {
+  id?: number
+  name: string
+  required: boolean
+  minSelections: number
+  maxSelections: number
+  options: ModifierOption[]
+}
+
+/** Opción elegida para una línea de venta (se guarda el nombre y el precio del momento) */
+export interface SelectedModifier {
+  groupId?: number
+  groupName: string
+  optionId?: number
+  optionName: string
+  priceDelta: number
+}
+
 export interface Inventory {
   id: number
   productId: number
@@ -69,11 +100,73 @@ export interface Customer {
   notes?: string
   creditLimit: number
   currentBalance: number
+  /** Saldo del programa de puntos */
+  loyaltyPoints?: number
+  /** Puntos ganados en los últimos 12 meses; definen el nivel */
+  loyaltyTierPoints?: number
+  /** Puntos que vencen en la próxima fecha de vencimiento */
+  loyaltyExpiringPoints?: number
+  loyaltyNextExpiration?: string
+  /** Lista de precios asignada; sin lista se usa la lista por defecto o el precio de venta */
+  priceListId?: number | null
+  priceListName?: string
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+/** Precio fijo de un producto dentro de una lista */
+export interface PriceListItem {
+  productId: number
+  price: number
+}
+
+/** Ajuste porcentual sobre el precio de venta; sin `categoryId` aplica a todos los productos */
+export interface PriceListRule {
+  categoryId?: number | null
+  /** Positivo = descuento, negativo = recargo */
+  discountPercent: number
+}
+
+/** Precio por volumen: desde `minQuantity` unidades del producto en el ticket */
+export interface PriceListQuantityBreak {
+  productId: number
+  minQuantity: number
+  price: number
+}
+
+export interface PriceList {
+  id: number
+  name: string
+  description?: string
+  /** Lista para los clientes que no tienen una asignada (p. ej. Detal) */
+  isDefault: boolean
+  items: PriceListItem[]
+  rules: PriceListRule[]
+  quantityBreaks: PriceListQuantityBreak[]
   isActive: boolean
   createdAt: string
   updatedAt: string
 }
 
+export type LoyaltyTransactionType = 'ACUMULACION' | 'REDENCION' | 'VENCIMIENTO' | 'AJUSTE' | 'REVERSO'
+
+/** Movimiento de puntos; `points` es negativo en redenciones y vencimientos */
+export interface LoyaltyTransaction {
+  id: number
+  customerId: number
+  type: LoyaltyTransactionType
+  points: number
+  balanceAfter: number
+  invoiceId?: number
+  invoiceNumber?: string
+  /** Vencimiento de los puntos ganados en esta acumulación */
+  expiresAt?: string
+  notes?: string
+  userName?: string
+  createdAt: string
+}
+
 export interface Invoice {
   id: number
   invoiceNumber: string
@@ -89,7 +182,12 @@ export interface Invoice {
   discountPercent: number
   total: number
   paymentMethod?: string
+  payments?: InvoicePayment[]
   paymentStatus: 'PAGADO' | 'PENDIENTE' | 'PARCIAL'
+  /** Saldo por cobrar de una venta a crédito */
+  balanceDue?: number
+  /** Turno de caja en el que se registró la venta */
+  cashSessionId?: number
   amountReceived: number
   changeAmount: number
   status: 'COMPLETADA' | 'ANULADA' | 'PENDIENTE'
@@ -98,10 +196,204 @@ export interface Invoice {
   voidedAt?: string
   voidReason?: string
   details?: InvoiceDetail[]
+  /** Devoluciones parciales emitidas sobre esta factura */
+  creditNotes?: CreditNote[]
+  /** CUFE de la factura electrónica cuando el backend ya la emitió ante la DIAN */
+  cufe?: string
+  /** Puntos redimidos como descuento y su valor en pesos */
+  loyaltyPointsRedeemed?: number
+  loyaltyDiscountAmount?: number
+  /** Puntos ganados con la factura y saldo del cliente después de ella */
+  loyaltyPointsEarned?: number
+  loyaltyBalance?: number
+  /** Propina voluntaria: se cobra con los pagos pero no hace parte de `total` */
+  tipAmount?: number
+  tipDistribution?: TipShare[]
+  /** Lista de precios con la que se vendió */
+  priceListId?: number
+  priceListName?: string
+  /** Cupón redimido en la venta y el descuento que aplicó */
+  couponCode?: string
+  couponDiscountAmount?: number
   createdAt: string
   updatedAt: string
 }
 
+/** Parte de la propina de una factura que le corresponde a un empleado */
+export interface TipShare {
+  userId: number
+  userName: string
+  amount: number
+}
+
+/** Cambio manual de precio en una línea del carrito (requiere pos.discount) */
+export interface PriceOverride {
+  originalPrice: number
+  newPrice: number
+  reason: string
+  userId?: number
+  userName?: string
+  createdAt: string
+}
+
+/** Registro de auditoría de cambios de precio guardado por el backend */
+export interface PriceOverrideRecord extends PriceOverride {
+  id: number
+  invoiceId?: number
+  invoiceNumber?: string
+  productId: number
+  productName: string
+  quantity: number
+}
+
+export type CashMovementType = 'INGRESO' | 'RETIRO'
+
+export interface CashMovement {
+  id: number
+  sessionId: number
+  type: CashMovementType
+  amount: number
+  reason: string
+  userName?: string
+  createdAt: string
+}
+
+/** Turno de caja: apertura con base, movimientos y cierre con arqueo ciego */
+export interface CashSession {
+  id: number
+  userId: number
+  userName?: string
+  terminalId: string
+  openingFloat: number
+  status: 'ABIERTA' | 'CERRADA'
+  openedAt: string
+  closedAt?: string
+  /** Conteo por denominación al cierre (clave: denominación) */
+  denominations?: Record<string, number>
+  countedCash?: number
+  expectedCash?: number
+  difference?: number
+  /** Arqueo del efectivo en divisas, por moneda; se cuenta aparte del cajón en pesos */
+  foreignCounted?: Record<string, number>
+  foreignExpected?: Record<string, number>
+  notes?: string
+  movements: CashMovement[]
+}
+
+/** Tasa de cambio del día para recibir efectivo en divisa; la fija un supervisor */
+export interface ExchangeRate {
+  id: number
+  currency: string
+  /** Unidades de moneda base por cada unidad de la divisa */
+  rate: number
+  /** Día de vigencia (YYYY-MM-DD) */
+  date: string
+  setByName?: string
+  authorizationId?: number
+  createdAt: string
+}
+
+/** Abono de un cliente a su cartera, repartido entre sus facturas abiertas */
+export interface CustomerPayment {
+  id: number
+  customerId: number
+  amount: number
+  paymentMethod: string
+  notes?: string
+  userName?: string
+  allocations: { invoiceId: number; invoiceNumber?: string; amount: number }[]
+  createdAt: string
+}
+
+export interface InvoicePayment {
+  id?: number
+  paymentMethod: string
+  amount: number
+  /** Código de la tarjeta de regalo redimida en este pago */
+  reference?: string
+  /** Efectivo recibido en divisa: `amount` es lo aplicado a la factura en moneda base */
+  currency?: string
+  foreignAmount?: number
+  exchangeRate?: number
+}
+
+export type GiftCardStatus = 'ACTIVA' | 'AGOTADA' | 'VENCIDA' | 'ANULADA'
+
+/** EMISION y RECARGA crean pasivo (saldo por redimir); REDENCION lo convierte en venta */
+export type GiftCardTransactionType = 'EMISION' | 'RECARGA' | 'REDENCION' | 'REVERSO' | 'ANULACION'
+
+export interface GiftCardTransaction {
+  id: number
+  giftCardId: number
+  code?: string
+  type: GiftCardTransactionType
+  /** Positivo cuando carga saldo, negativo cuando lo consume */
+  amount: number
+  balanceAfter: number
+  /** Pagos con que se compró la carga (solo EMISION y RECARGA) */
+  payments?: InvoicePayment[]
+  invoiceId?: number
+  invoiceNumber?: string
+  cashSessionId?: number
+  userId?: number
+  userName?: string
+  notes?: string
+  createdAt: string
+}
+
+/** Tarjeta de regalo o bono: saldo prepago que se redime como medio de pago */
+export interface GiftCard {
+  id: number
+  code: string
+  initialAmount: number
+  balance: number
+  status: GiftCardStatus
+  expiresAt?: string
+  customerId?: number
+  customerName?: string
+  notes?: string
+  transactions?: GiftCardTransaction[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type CouponDiscountType = 'PORCENTAJE' | 'VALOR'
+
+export interface Coupon {
+  id: number
+  code: string
+  /** Campaña de mercadeo a la que pertenece; los códigos generados en lote la comparten */
+  campaign?: string
+  discountType: CouponDiscountType
+  discountValue: number
+  /** Tope del descuento para cupones de porcentaje */
+  maxDiscountAmount?: number
+  minPurchaseAmount?: number
+  validFrom?: string
+  validUntil?: string
+  /** Usos totales permitidos; 1 = un solo uso, vacío = ilimitado */
+  maxUses?: number
+  maxUsesPerCustomer?: number
+  usedCount: number
+  /** Usos del cliente consultado al validar el código en el POS */
+  customerUseCount?: number
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CouponRedemption {
+  id: number
+  couponId: number
+  couponCode: string
+  invoiceId: number
+  invoiceNumber: string
+  customerId?: number
+  customerName?: string
+  discountAmount: number
+  createdAt: string
+}
+
 export interface InvoiceDetail {
   id: number
   invoiceId: number
@@ -112,13 +404,53 @@ export interface InvoiceDetail {
   unitPrice: number
   costPrice: number
   discountAmount: number
+  discountReason?: string
+  /** Promoción automática aplicada a la línea */
+  promotionId?: number
+  /** Precio de lista cuando el cajero cambió el precio de la línea */
+  originalUnitPrice?: number
+  priceOverrideReason?: string
+  taxRate?: number
+  taxType?: TaxType
   taxAmount: number
   subtotal: number
   notes?: string
+  modifiers?: SelectedModifier[]
   kitchenStatus?: string
   createdAt: string
 }
 
+/** REINGRESO devuelve el producto al inventario; MERMA lo da de baja */
+export type ReturnDisposition = 'REINGRESO' | 'MERMA'
+
+export interface CreditNoteDetail {
+  id?: number
+  invoiceDetailId: number
+  productId: number
+  productName: string
+  quantity: number
+  unitPrice: number
+  taxAmount?: number
+  subtotal: number
+  disposition: ReturnDisposition
+}
+
+export interface CreditNote {
+  id: number
+  creditNoteNumber: string
+  invoiceId: number
+  invoiceNumber: string
+  reason: string
+  refundMethod: string
+  subtotal: number
+  taxAmount: number
+  total: number
+  userId?: number
+  userName?: string
+  details: CreditNoteDetail[]
+  createdAt: string
+}
+
 export interface Role {
   id: number
   name: string
@@ -135,11 +467,33 @@ export interface User {
   role?: Role
   avatarUrl?: string
   isActive: boolean
+  /** Tiene PIN de supervisor para autorizar acciones en caja */
+  hasPin?: boolean
   lastLogin?: string
   createdAt?: string
   updatedAt?: string
 }
 
+// ==================== Supervisor authorizations ====================
+
+/** Acciones que un cajero sin permiso puede hacer con la aprobación puntual de un supervisor */
+export type SupervisorAction = 'ANULAR_FACTURA' | 'DESCUENTO' | 'ELIMINAR_ITEM_COCINA' | 'REABRIR_MESA' | 'TASA_CAMBIO'
+
+export interface SupervisorAuthorization {
+  id: number
+  action: SupervisorAction
+  /** Permiso que tenía el supervisor y le faltaba al cajero */
+  permission: string
+  description: string
+  /** Factura, mesa o línea sobre la que se aprobó la acción */
+  reference?: string
+  supervisorId: number
+  supervisorName: string
+  requestedById: number
+  requestedByName: string
+  createdAt: string
+}
+
 // ==================== Tables ====================
 
 export interface RestaurantTable {